@@ -11,6 +11,11 @@ const projectSummaryRoutes = require('./routes/projectSummary');
 const { portalRoutes, producerMessageRoute } = require('./routes/portalRoutes');
 const quoteRoutes = require('./routes/quoteRoutes');
 const webhookRoutes = require('./routes/webhookRoutes');
+const billingRoutes = require('./routes/billingRoutes');
+const FollowUpService = require('./services/followUpService');
+const QuoteDeadlineService = require('./services/quoteDeadlineService');
+const NotificationService = require('./services/notificationService');
+const BillingService = require('./services/billingService');
 const { testConnection } = require('./config/database');
 
 const app = express();
@@ -104,6 +109,7 @@ app.use('/api/portal', portalRoutes);
 app.use('/api/messages', producerMessageRoute);
 app.use('/api/quotes', quoteRoutes);
 app.use('/api/webhooks', webhookRoutes);
+app.use('/api/billing', billingRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -138,7 +144,10 @@ app.get('/', (req, res) => {
       'POST /api/portal/messages': 'Send message from supplier via portal (requires token in body)',
       'POST /api/messages': 'Send message from producer (requires JWT authentication)',
       'GET /api/quotes/:id/messages': 'Get all messages for a quote (requires JWT authentication)',
-      'POST /api/webhooks/new-message': 'Webhook endpoint for new message notifications (requires X-Webhook-Secret header)'
+      'GET /api/quotes/:id/versions': 'Get submission history of a quote (requires JWT authentication)',
+      'POST /api/quotes/:id/request-revision': 'Ask the supplier to revise a submitted quote (requires JWT authentication)',
+      'POST /api/webhooks/new-message': 'Webhook endpoint for new message notifications (requires X-Webhook-Secret header)',
+      'POST /api/billing/subscription': 'Change the producer\'s plan through the payment provider (requires JWT authentication)'
     }
   });
 });
@@ -209,6 +218,18 @@ const startServer = async () => {
       console.log(`🔗 Health check: http://localhost:${PORT}/api/health`);
       console.log(`📝 Process brief: POST http://localhost:${PORT}/api/process-brief`);
     });
+
+    // Scheduled reminders for unanswered quote requests
+    FollowUpService.startScheduler();
+
+    // Close quoting rounds once their response deadlines pass
+    QuoteDeadlineService.startScheduler();
+
+    // Due-date notifications and queued notification emails for producers
+    NotificationService.startScheduler();
+
+    // Monthly renewals for paid plans
+    BillingService.startScheduler();
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,81 @@
+const express = require('express');
+const BillingService = require('../services/billingService');
+const { authenticateJWT } = require('../middleware/auth');
+
+const billingRouter = express.Router();
+
+/**
+ * POST /api/billing/subscription
+ * Move the signed-in producer to another plan, charging paid plans through the payment provider
+ * Protected endpoint - requires JWT authentication
+ */
+billingRouter.post('/subscription', authenticateJWT, async (req, res) => {
+  try {
+    const { planId } = req.body || {};
+
+    if (!planId || typeof planId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'MISSING_PLAN_ID',
+          message: 'planId is required'
+        }
+      });
+    }
+
+    const subscription = await BillingService.changePlan(
+      { id: req.user.id, email: req.user.email },
+      planId
+    );
+
+    res.status(200).json({
+      success: true,
+      data: subscription,
+      message: 'Plan updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Change plan endpoint error:', error);
+
+    if (error.message.includes('Plan not found')) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'PLAN_NOT_FOUND',
+          message: error.message
+        }
+      });
+    }
+
+    if (error.message.includes('already on the')) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'PLAN_UNCHANGED',
+          message: error.message
+        }
+      });
+    }
+
+    if (error.message.startsWith('Payment failed')) {
+      return res.status(402).json({
+        success: false,
+        error: {
+          code: 'PAYMENT_FAILED',
+          message: error.message
+        }
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred while changing plan',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      }
+    });
+  }
+});
+
+module.exports = billingRouter;
@@ -2,6 +2,7 @@ const express = require('express');
 const multer = require('multer');
 const PortalService = require('../services/portalService');
 const { authenticateJWT } = require('../middleware/auth');
+const { isValidCurrencyCode } = require('../utils/currency');
 
 // Portal routes (public endpoints using access_token)
 const portalRouter = express.Router();
@@ -227,22 +228,35 @@ portalRouter.post('/messages', upload.array('files', 10), async (req, res) => {
  * Request body:
  * {
  *   "token": "uuid-access-token",
- *   "cost": 1234.56,
+ *   "cost": 1234.56 (ignored when lineItems are given; the total is derived from them),
+ *   "currency": "ZAR" (optional, ISO 4217 code; defaults to the project base currency),
+ *   "lineItems": [{ "description", "quantity", "unit", "unit_price", "tax_rate", "is_optional" }] (optional),
  *   "notes": "Optional notes and capacity details",
  *   "fileUrl": "optional-file-url" (for future file upload support)
  * }
  */
 portalRouter.post('/submit-quote', async (req, res) => {
   try {
-    const { token, cost, notes, fileUrl } = req.body;
+    const { token, cost, currency, notes, fileUrl, lineItems } = req.body;
+    const hasLineItems = Array.isArray(lineItems) && lineItems.length > 0;
 
     // Validate request body
-    if (!token || cost === undefined || cost === null) {
+    if (!token || (!hasLineItems && (cost === undefined || cost === null))) {
       return res.status(400).json({
         success: false,
         error: {
           code: 'MISSING_REQUIRED_FIELDS',
-          message: 'token and cost are required'
+          message: 'token and either cost or lineItems are required'
+        }
+      });
+    }
+
+    if (lineItems !== undefined && lineItems !== null && !Array.isArray(lineItems)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_DATA_TYPE',
+          message: 'lineItems must be an array'
         }
       });
     }
@@ -258,7 +272,7 @@ portalRouter.post('/submit-quote', async (req, res) => {
       });
     }
 
-    if (typeof cost !== 'number') {
+    if (!hasLineItems && typeof cost !== 'number') {
       return res.status(400).json({
         success: false,
         error: {
@@ -268,7 +282,7 @@ portalRouter.post('/submit-quote', async (req, res) => {
       });
     }
 
-    if (cost < 0) {
+    if (!hasLineItems && cost < 0) {
       return res.status(400).json({
         success: false,
         error: {
@@ -278,12 +292,24 @@ portalRouter.post('/submit-quote', async (req, res) => {
       });
     }
 
+    if (currency !== undefined && currency !== null && !isValidCurrencyCode(currency)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_CURRENCY',
+          message: 'currency must be a three-letter ISO 4217 code (e.g. USD, EUR, ZAR)'
+        }
+      });
+    }
+
     // Submit quote
     const updatedQuote = await PortalService.submitQuoteViaPortal(
       token,
-      cost,
+      hasLineItems ? 0 : cost,
       notes || '',
-      fileUrl || null
+      fileUrl || null,
+      currency || null,
+      lineItems || []
     );
 
     res.status(200).json({
@@ -306,6 +332,16 @@ portalRouter.post('/submit-quote', async (req, res) => {
       });
     }
 
+    if (error.message.includes('response deadline')) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'DEADLINE_PASSED',
+          message: error.message
+        }
+      });
+    }
+
     if (error.message.includes('already been submitted')) {
       return res.status(400).json({
         success: false,
@@ -316,7 +352,7 @@ portalRouter.post('/submit-quote', async (req, res) => {
       });
     }
 
-    if (error.message.includes('required') || error.message.includes('must be') || error.message.includes('cannot be negative')) {
+    if (error.message.includes('required') || error.message.includes('must be') || error.message.includes('cannot be negative') || error.message.includes('line items')) {
       return res.status(400).json({
         success: false,
         error: {
@@ -1,7 +1,41 @@
 const express = require('express');
 const { supabase } = require('../config/database');
+const { DEFAULT_CURRENCY, convertAmount, getProducerExchangeRates } = require('../utils/currency');
+const { isBidSealed, redactSealedQuote } = require('../utils/sealedBids');
 const router = express.Router();
 
+/**
+ * Convert each quote into the project base currency
+ * Quotes without a usable exchange rate get converted_cost = null
+ */
+const withConvertedCosts = (quotes, baseCurrency, rates) =>
+  quotes.map(quote => {
+    const currency = quote.currency || baseCurrency;
+    return {
+      ...quote,
+      currency,
+      converted_cost: convertAmount(quote.cost, currency, baseCurrency, rates)
+    };
+  });
+
+/**
+ * Cost metrics over quotes that could be converted into the base currency
+ */
+const buildCostMetrics = (convertedQuotes, baseCurrency) => {
+  const costs = convertedQuotes
+    .map(quote => quote.converted_cost)
+    .filter(cost => cost !== null);
+
+  return {
+    lowest_cost: costs.length > 0 ? Math.min(...costs) : 0,
+    highest_cost: costs.length > 0 ? Math.max(...costs) : 0,
+    average_cost: costs.length > 0 ? costs.reduce((a, b) => a + b, 0) / costs.length : 0,
+    cost_range: costs.length > 0 ? Math.max(...costs) - Math.min(...costs) : 0,
+    currency: baseCurrency,
+    unconverted_quote_count: convertedQuotes.length - costs.length
+  };
+};
+
 const getPrimaryContactEmail = (supplier) => {
   const contactPersons = Array.isArray(supplier?.contact_persons) ? supplier.contact_persons : [];
   if (contactPersons.length === 0) return null;
@@ -38,10 +72,15 @@ router.get('/compare/:assetId', async (req, res) => {
         specifications,
         timeline,
         status,
+        sealed_bids,
+        bids_open_at,
+        bids_unsealed_at,
         project:projects(
           id,
           project_name,
-          client_name
+          client_name,
+          base_currency,
+          producer_id
         )
       `)
       .eq('id', assetId)
@@ -63,12 +102,13 @@ router.get('/compare/:assetId', async (req, res) => {
       .select(`
         id,
         cost,
-        cost_breakdown,
+        currency,
         notes_capacity,
         status,
         valid_until,
         response_time_hours,
         created_at,
+        line_items:quote_line_items(*),
         supplier:suppliers(
           id,
           supplier_name,
@@ -90,23 +130,57 @@ router.get('/compare/:assetId', async (req, res) => {
       });
     }
 
-    // Calculate comparison metrics
-    const costs = quotes.map(quote => quote.cost);
+    const assetSummary = {
+      id: asset.id,
+      name: asset.asset_name,
+      specifications: asset.specifications,
+      timeline: asset.timeline,
+      status: asset.status,
+      bids_open_at: asset.bids_open_at,
+      project: asset.project
+    };
+
+    // Sealed bids: say who has responded, but nothing about their offers
+    if (isBidSealed(asset)) {
+      return res.status(200).json({
+        success: true,
+        data: {
+          asset: assetSummary,
+          sealed: true,
+          quotes: quotes
+            .map(redactSealedQuote)
+            .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()),
+          comparison_metrics: null
+        },
+        message: `Found ${quotes.length} sealed quotes`
+      });
+    }
+
+    // Convert every quote into the project base currency before comparing
+    const baseCurrency = asset.project?.base_currency || DEFAULT_CURRENCY;
+    const rates = await getProducerExchangeRates(supabase, asset.project?.producer_id);
+    const convertedQuotes = withConvertedCosts(quotes, baseCurrency, rates)
+      // Rank by converted cost; quotes without a rate go last
+      .sort((a, b) => {
+        if (a.converted_cost === null) return b.converted_cost === null ? 0 : 1;
+        if (b.converted_cost === null) return -1;
+        return a.converted_cost - b.converted_cost;
+      });
+
+    // Calculate comparison metrics (in base currency)
     const comparisonMetrics = {
-      lowest_cost: costs.length > 0 ? Math.min(...costs) : 0,
-      highest_cost: costs.length > 0 ? Math.max(...costs) : 0,
-      average_cost: costs.length > 0 ? costs.reduce((a, b) => a + b, 0) / costs.length : 0,
-      quote_count: quotes.length,
-      cost_range: costs.length > 0 ? Math.max(...costs) - Math.min(...costs) : 0
+      ...buildCostMetrics(convertedQuotes, baseCurrency),
+      quote_count: quotes.length
     };
 
     // Add cost ranking to each quote
-    const quotesWithRanking = quotes.map((quote, index) => {
+    const quotesWithRanking = convertedQuotes.map((quote, index) => {
       const supplier = quote.supplier || null;
       const contactEmail = supplier ? getPrimaryContactEmail(supplier) : null;
 
       return {
         ...quote,
+        line_items: (quote.line_items || []).sort((a, b) => a.position - b.position),
         supplier: supplier
           ? {
               ...supplier,
@@ -114,8 +188,8 @@ router.get('/compare/:assetId', async (req, res) => {
             }
           : supplier,
         cost_rank: index + 1,
-        cost_percentage_of_lowest: comparisonMetrics.lowest_cost > 0 
-          ? Math.round((quote.cost / comparisonMetrics.lowest_cost) * 100) 
+        cost_percentage_of_lowest: comparisonMetrics.lowest_cost > 0 && quote.converted_cost !== null
+          ? Math.round((quote.converted_cost / comparisonMetrics.lowest_cost) * 100) 
           : 100
       };
     });
@@ -123,14 +197,8 @@ router.get('/compare/:assetId', async (req, res) => {
     res.status(200).json({
       success: true,
       data: {
-        asset: {
-          id: asset.id,
-          name: asset.asset_name,
-          specifications: asset.specifications,
-          timeline: asset.timeline,
-          status: asset.status,
-          project: asset.project
-        },
+        asset: assetSummary,
+        sealed: false,
         quotes: quotesWithRanking,
         comparison_metrics: comparisonMetrics
       },
@@ -173,7 +241,7 @@ router.get('/compare/:assetId/summary', async (req, res) => {
     // Fetch quote summary
     const { data: quotes, error: quotesError } = await supabase
       .from('quotes')
-      .select('cost, status')
+      .select('cost, currency, status, asset:assets(sealed_bids, bids_open_at, bids_unsealed_at, project:projects(base_currency, producer_id))')
       .eq('asset_id', assetId);
 
     if (quotesError) {
@@ -186,7 +254,12 @@ router.get('/compare/:assetId/summary', async (req, res) => {
       });
     }
 
-    const costs = quotes.map(quote => quote.cost);
+    const project = quotes[0]?.asset?.project;
+    const sealed = isBidSealed(quotes[0]?.asset);
+    const baseCurrency = project?.base_currency || DEFAULT_CURRENCY;
+    const rates = await getProducerExchangeRates(supabase, project?.producer_id);
+    // Sealed bids report counts only
+    const metrics = buildCostMetrics(sealed ? [] : withConvertedCosts(quotes, baseCurrency, rates), baseCurrency);
     const statusCounts = quotes.reduce((acc, quote) => {
       acc[quote.status] = (acc[quote.status] || 0) + 1;
       return acc;
@@ -196,9 +269,12 @@ router.get('/compare/:assetId/summary', async (req, res) => {
       success: true,
       data: {
         quote_count: quotes.length,
-        lowest_cost: costs.length > 0 ? Math.min(...costs) : 0,
-        highest_cost: costs.length > 0 ? Math.max(...costs) : 0,
-        average_cost: costs.length > 0 ? costs.reduce((a, b) => a + b, 0) / costs.length : 0,
+        sealed,
+        lowest_cost: metrics.lowest_cost,
+        highest_cost: metrics.highest_cost,
+        average_cost: metrics.average_cost,
+        currency: metrics.currency,
+        unconverted_quote_count: metrics.unconverted_quote_count,
         status_counts: statusCounts,
         has_multiple_quotes: quotes.length > 1
       }
@@ -179,6 +179,16 @@ quoteRouter.post('/:id/accept', authenticateJWT, async (req, res) => {
       });
     }
 
+    if (error.message.includes('Client approval required')) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'CLIENT_APPROVAL_REQUIRED',
+          message: error.message
+        }
+      });
+    }
+
     if (error.message.includes('cannot be accepted') || error.message.includes('Current status')) {
       return res.status(400).json({
         success: false,
@@ -211,5 +221,129 @@ quoteRouter.post('/:id/accept', authenticateJWT, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/quotes/:id/versions
+ * Get the submission history of a quote
+ * Protected endpoint - requires JWT authentication
+ */
+quoteRouter.get('/:id/versions', authenticateJWT, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!id || !uuidRegex.test(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_QUOTE_ID_FORMAT',
+          message: 'Invalid quote ID format'
+        }
+      });
+    }
+
+    const versions = await QuoteService.getQuoteVersions(id, req.user);
+
+    res.status(200).json({
+      success: true,
+      data: versions,
+      message: 'Quote versions retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Get quote versions endpoint error:', error);
+
+    if (error.message.includes('Quote not found')) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'QUOTE_NOT_FOUND',
+          message: error.message
+        }
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred while fetching quote versions',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      }
+    });
+  }
+});
+
+/**
+ * POST /api/quotes/:id/request-revision
+ * Ask the supplier to revise a submitted quote
+ * Body: { reason: string }
+ * Protected endpoint - requires JWT authentication
+ */
+quoteRouter.post('/:id/request-revision', authenticateJWT, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body || {};
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!id || !uuidRegex.test(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_QUOTE_ID_FORMAT',
+          message: 'Invalid quote ID format'
+        }
+      });
+    }
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'MISSING_REASON',
+          message: 'Please describe what the supplier should revise'
+        }
+      });
+    }
+
+    const result = await QuoteService.requestRevision(id, reason, req.user);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Revision requested successfully'
+    });
+  } catch (error) {
+    console.error('Request revision endpoint error:', error);
+
+    if (error.message.includes('Quote not found')) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'QUOTE_NOT_FOUND',
+          message: error.message
+        }
+      });
+    }
+
+    if (error.message.includes('cannot be requested')) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_QUOTE_STATUS',
+          message: error.message
+        }
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred while requesting a revision',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      }
+    });
+  }
+});
+
 module.exports = quoteRouter;
 
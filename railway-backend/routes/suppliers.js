@@ -1,5 +1,6 @@
 const express = require('express');
 const SupplierService = require('../services/supplierService');
+const { parseResponseDeadline } = require('../utils/quoteDeadlines');
 const router = express.Router();
 
 /**
@@ -191,7 +192,7 @@ router.post('/preview-quote-requests', async (req, res) => {
  */
 router.post('/send-quote-requests', async (req, res) => {
   try {
-    const { assetId, supplierIds, from, customizedEmails } = req.body;
+    const { assetId, supplierIds, from, customizedEmails, responseDeadline } = req.body;
 
     // Validate request body
     if (!assetId || !supplierIds) {
@@ -249,8 +250,22 @@ router.post('/send-quote-requests', async (req, res) => {
       });
     }
 
+    // Validate response deadline if provided
+    let deadline = null;
+    try {
+      deadline = parseResponseDeadline(responseDeadline);
+    } catch (deadlineError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_RESPONSE_DEADLINE',
+          message: deadlineError.message
+        }
+      });
+    }
+
     // Send quote requests
-    const result = await SupplierService.sendQuoteRequests(assetId, supplierIds, from, customizedEmails);
+    const result = await SupplierService.sendQuoteRequests(assetId, supplierIds, from, customizedEmails, deadline);
 
     res.status(200).json({
       success: true,
@@ -396,6 +411,16 @@ router.post('/submit-quote', async (req, res) => {
       });
     }
 
+    if (error.message.includes('response deadline')) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'DEADLINE_PASSED',
+          message: error.message
+        }
+      });
+    }
+
     if (error.message.includes('Supplier not found')) {
       return res.status(404).json({
         success: false,
@@ -582,6 +607,16 @@ router.put('/update-quote', async (req, res) => {
       });
     }
 
+    if (error.message.includes('response deadline')) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'DEADLINE_PASSED',
+          message: error.message
+        }
+      });
+    }
+
     if (error.message.includes('Ownership violation') || error.message.includes('not authorized')) {
       return res.status(403).json({
         success: false,
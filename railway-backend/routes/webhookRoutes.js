@@ -1,6 +1,7 @@
 const express = require('express');
 const { supabase } = require('../config/database');
 const emailService = require('../services/emailService');
+const NotificationService = require('../services/notificationService');
 
 const router = express.Router();
 
@@ -84,6 +85,14 @@ router.post('/new-message', validateWebhookSecret, async (req, res) => {
       });
     }
 
+    // System messages (e.g. follow-up reminders) are notes, not conversation
+    if (sender_type === 'SYSTEM') {
+      return res.status(200).json({
+        success: true,
+        message: 'System messages do not trigger notifications'
+      });
+    }
+
     // Validate sender_type
     if (!['PRODUCER', 'SUPPLIER'].includes(sender_type)) {
       console.error('[Webhook] Invalid sender_type:', sender_type);
@@ -272,6 +281,14 @@ router.post('/new-message', validateWebhookSecret, async (req, res) => {
         });
       }
 
+      // The producer may have turned message emails off in their notification settings
+      if (!(await NotificationService.isEmailEnabled(producer.id, 'supplier_message'))) {
+        return res.status(200).json({
+          success: true,
+          message: 'Producer has message emails turned off. Email notification skipped.'
+        });
+      }
+
       recipientEmail = producer.email;
       recipientName = producer.full_name || producer.company_name || 'Producer';
       console.log(`[Webhook] ✅ Found Producer: Email ${producer.email}`);
@@ -582,7 +582,7 @@ class AIAllocationService {
       throw new Error(`Phase 2 returned ${enrichedAssets.length} assets but Phase 1 had ${extractedAssets.length}. Counts must match.`);
     }
 
-    const merged = this.mergeExtractedAndEnriched(extractedAssets, enrichedAssets);
+    const merged = this.mergeExtractedAndEnriched(extractedAssets, enrichedAssets, projectContext);
     return merged.map((a) => this.mapAssetToInternalSchema(a));
   }
 
@@ -642,10 +642,19 @@ class AIAllocationService {
 
   /**
    * Get the list of available asset tags for event production
-   * Single source of truth: config/assetTagNames.json (shared with frontend)
+   * Uses the producer's taxonomy sent by the frontend in projectContext.asset_tags,
+   * falling back to the defaults in config/defaultAssetTags.json (shared with frontend)
    */
-  getAvailableAssetTags() {
-    return require('../../config/assetTagNames.json');
+  getAvailableAssetTags(projectContext = {}) {
+    const tags = Array.isArray(projectContext.asset_tags)
+      ? projectContext.asset_tags
+          .filter((tag) => typeof tag === 'string' && tag.trim() !== '')
+          .map((tag) => tag.trim())
+      : [];
+    if (tags.length > 0) {
+      return [...new Set(tags)];
+    }
+    return require('../../config/defaultAssetTags.json').map((tag) => tag.name);
   }
 
   /**
@@ -771,7 +780,7 @@ Event Brief:
    */
   buildPhase2EnrichmentPrompt(extractedAssets, briefDescription, projectContext) {
     const sanitizedBrief = this.sanitizeBriefText(briefDescription);
-    const tagsList = this.getAvailableAssetTags().join(', ');
+    const tagsList = this.getAvailableAssetTags(projectContext).join(', ');
     const assetsJson = JSON.stringify(extractedAssets, null, 0);
     return `Enrich each asset below with technical specifications, supplier context, and category tag.
 
@@ -823,12 +832,12 @@ ${assetsJson}`;
   /**
    * Merge Phase 1 (extracted) and Phase 2 (enriched) results by index
    */
-  mergeExtractedAndEnriched(phase1Assets, phase2Enriched) {
+  mergeExtractedAndEnriched(phase1Assets, phase2Enriched, projectContext = {}) {
     const merged = [];
     if (phase2Enriched.length !== phase1Assets.length) {
       console.warn(`[Two-Phase] Length mismatch: Phase 1=${phase1Assets.length}, Phase 2=${phase2Enriched.length}. Aligning by index.`);
     }
-    const defaultTag = this.getAvailableAssetTags()[0] || 'Logistics';
+    const defaultTag = this.getAvailableAssetTags(projectContext)[0] || 'Logistics';
     for (let i = 0; i < phase1Assets.length; i++) {
       const p1 = phase1Assets[i];
       const p2 = phase2Enriched[i] || {};
@@ -927,7 +936,7 @@ ${assetsJson}`;
     // Sanitize the brief description before including in prompt
     const sanitizedBrief = this.sanitizeBriefText(briefDescription);
     
-    const availableTags = this.getAvailableAssetTags();
+    const availableTags = this.getAvailableAssetTags(projectContext);
     const tagsList = availableTags.map((tag, index) => `${index + 1}. ${tag}`).join('\n');
     return `
 Role
@@ -957,7 +966,7 @@ Additional Context:
 
 CRITICAL REQUIREMENT: For each asset you identify, you MUST extract the exact text snippet from the brief that indicates this asset is needed (source_text). This will be used to create interactive links in the UI.
 
-AVAILABLE ASSET TAGS (use ONLY these 15 for category_tag - match EXACTLY, case-sensitive):
+AVAILABLE ASSET TAGS (use ONLY these ${availableTags.length} for category_tag - match EXACTLY, case-sensitive):
 ${tagsList}
 
 TAG SELECTION: Assign the most appropriate single category_tag from the list above. Do not invent new categories.
@@ -0,0 +1,291 @@
+const { supabase } = require('../config/database');
+const { getPaymentProvider } = require('./paymentProviders');
+const { addBillingMonth, isPastGracePeriod } = require('../utils/billing');
+const { startRecurringJob } = require('../utils/scheduler');
+
+/**
+ * Billing Service
+ * Changes producers' plans and renews paid subscriptions through the
+ * configured payment provider, recording an invoice for every charge.
+ * Plan limits themselves are enforced by database triggers.
+ */
+class BillingService {
+  /**
+   * Move a producer to another plan
+   * Paid plans are charged a full month up front and start a new billing
+   * period immediately (no proration). If the payment fails the producer stays
+   * on their current plan and the failed invoice is kept for the record.
+   * @param {Object} producer - { id, email } of the authenticated producer
+   * @param {string} planId - Target plan
+   * @returns {Promise<Object>} The updated subscription row
+   */
+  static async changePlan(producer, planId) {
+    const plan = await this.getPlan(planId);
+    if (!plan || !plan.is_active) {
+      throw new Error('Plan not found');
+    }
+
+    const current = await this.getSubscription(producer.id);
+    if (current && current.plan_id === plan.id && current.status === 'active') {
+      throw new Error(`You are already on the ${plan.name} plan`);
+    }
+
+    const provider = getPaymentProvider();
+    const customerId = current?.provider_customer_id
+      || (await provider.createCustomer({ producerId: producer.id, email: producer.email })).customerId;
+
+    const periodStart = new Date();
+    const periodEnd = addBillingMonth(periodStart);
+
+    if (plan.monthly_price_cents === 0) {
+      if (current?.provider_subscription_id) {
+        await provider.cancelSubscription({ customerId, subscriptionId: current.provider_subscription_id });
+      }
+      return this.saveSubscription(producer.id, {
+        plan_id: plan.id,
+        status: 'active',
+        provider: provider.name,
+        provider_customer_id: customerId,
+        provider_subscription_id: null,
+        current_period_start: periodStart.toISOString(),
+        current_period_end: periodEnd.toISOString()
+      });
+    }
+
+    const invoice = await this.createInvoice(producer.id, plan, periodStart, periodEnd, provider.name);
+    const payment = await this.chargeInvoice(provider, customerId, invoice);
+    if (!payment.success) {
+      throw new Error(`Payment failed: ${payment.error}`);
+    }
+
+    const { subscriptionId } = await provider.upsertSubscription({
+      customerId,
+      subscriptionId: current?.provider_subscription_id || null,
+      plan
+    });
+
+    return this.saveSubscription(producer.id, {
+      plan_id: plan.id,
+      status: 'active',
+      provider: provider.name,
+      provider_customer_id: customerId,
+      provider_subscription_id: subscriptionId,
+      current_period_start: periodStart.toISOString(),
+      current_period_end: periodEnd.toISOString()
+    });
+  }
+
+  /**
+   * Renew every subscription whose period has ended
+   * Paid plans are invoiced and charged for the next period; a failed charge
+   * marks the subscription past_due and is retried on later runs until the
+   * grace period runs out, when the producer drops back to Free.
+   * @param {Date} now - Current time (injectable for manual runs)
+   * @returns {Promise<Object>} Counts of renewed, failed and canceled subscriptions
+   */
+  static async processRenewals(now = new Date()) {
+    const summary = { renewed: 0, failed: 0, canceled: 0 };
+
+    const { data: subscriptions, error } = await supabase
+      .from('billing_subscriptions')
+      .select('*, plan:billing_plans(*)')
+      .neq('status', 'canceled')
+      .lte('current_period_end', now.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to fetch subscriptions due for renewal: ${error.message}`);
+    }
+
+    for (const subscription of subscriptions || []) {
+      try {
+        const outcome = await this.renewSubscription(subscription, now);
+        summary[outcome] += 1;
+      } catch (renewError) {
+        console.error(`[BillingService] Failed to renew subscription for producer ${subscription.producer_id}:`, renewError);
+        summary.failed += 1;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Renew one subscription for the period starting at its current_period_end
+   * @param {Object} subscription - Subscription row with its plan
+   * @param {Date} now - Current time
+   * @returns {Promise<'renewed'|'failed'|'canceled'>}
+   */
+  static async renewSubscription(subscription, now) {
+    const { plan } = subscription;
+    const periodStart = new Date(subscription.current_period_end);
+    const periodEnd = addBillingMonth(periodStart);
+    const nextPeriod = {
+      status: 'active',
+      current_period_start: periodStart.toISOString(),
+      current_period_end: periodEnd.toISOString()
+    };
+
+    if (plan.monthly_price_cents === 0) {
+      await this.updateSubscription(subscription.producer_id, nextPeriod);
+      return 'renewed';
+    }
+
+    const provider = getPaymentProvider();
+
+    // A past-due renewal retries its existing invoice rather than raising another
+    const { data: unpaid } = await supabase
+      .from('billing_invoices')
+      .select('*')
+      .eq('producer_id', subscription.producer_id)
+      .eq('period_start', periodStart.toISOString())
+      .in('status', ['open', 'failed'])
+      .maybeSingle();
+
+    if (subscription.status === 'past_due' && isPastGracePeriod(periodStart, now)) {
+      if (unpaid) {
+        await supabase.from('billing_invoices').update({ status: 'void' }).eq('id', unpaid.id);
+      }
+      if (subscription.provider_subscription_id) {
+        await provider.cancelSubscription({
+          customerId: subscription.provider_customer_id,
+          subscriptionId: subscription.provider_subscription_id
+        });
+      }
+      await this.updateSubscription(subscription.producer_id, { status: 'canceled' });
+      return 'canceled';
+    }
+
+    const invoice = unpaid || await this.createInvoice(subscription.producer_id, plan, periodStart, periodEnd, provider.name);
+    const payment = await this.chargeInvoice(provider, subscription.provider_customer_id, invoice);
+
+    if (!payment.success) {
+      await this.updateSubscription(subscription.producer_id, { status: 'past_due' });
+      return 'failed';
+    }
+
+    await this.updateSubscription(subscription.producer_id, nextPeriod);
+    return 'renewed';
+  }
+
+  static async getPlan(planId) {
+    const { data, error } = await supabase
+      .from('billing_plans')
+      .select('*')
+      .eq('id', planId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch plan: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async getSubscription(producerId) {
+    const { data, error } = await supabase
+      .from('billing_subscriptions')
+      .select('*')
+      .eq('producer_id', producerId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch subscription: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async saveSubscription(producerId, values) {
+    const { data, error } = await supabase
+      .from('billing_subscriptions')
+      .upsert({ producer_id: producerId, ...values }, { onConflict: 'producer_id' })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save subscription: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async updateSubscription(producerId, values) {
+    const { error } = await supabase
+      .from('billing_subscriptions')
+      .update(values)
+      .eq('producer_id', producerId);
+
+    if (error) {
+      throw new Error(`Failed to update subscription: ${error.message}`);
+    }
+  }
+
+  static async createInvoice(producerId, plan, periodStart, periodEnd, providerName) {
+    const { data, error } = await supabase
+      .from('billing_invoices')
+      .insert({
+        producer_id: producerId,
+        plan_id: plan.id,
+        description: `${plan.name} plan - monthly subscription`,
+        amount_cents: plan.monthly_price_cents,
+        currency: plan.currency,
+        status: 'open',
+        period_start: periodStart.toISOString(),
+        period_end: periodEnd.toISOString(),
+        provider: providerName
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create invoice: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Charge an invoice and record the outcome on it
+   * @returns {Promise<Object>} The provider's payment result
+   */
+  static async chargeInvoice(provider, customerId, invoice) {
+    const payment = await provider.chargePayment({
+      customerId,
+      amountCents: invoice.amount_cents,
+      currency: invoice.currency,
+      description: invoice.description,
+      invoiceNumber: invoice.invoice_number
+    });
+
+    const { error } = await supabase
+      .from('billing_invoices')
+      .update(payment.success
+        ? { status: 'paid', provider_payment_id: payment.paymentId, paid_at: new Date().toISOString(), failure_reason: null }
+        : { status: 'failed', failure_reason: payment.error || 'Payment failed' })
+      .eq('id', invoice.id);
+
+    if (error) {
+      console.error(`[BillingService] Failed to record payment for invoice ${invoice.invoice_number}:`, error);
+    }
+
+    return payment;
+  }
+
+  /**
+   * Run processRenewals on an interval
+   * BILLING_INTERVAL_MINUTES sets the interval (default 60, 0 disables it).
+   */
+  static startScheduler() {
+    return startRecurringJob({
+      name: 'BillingService',
+      envVar: 'BILLING_INTERVAL_MINUTES',
+      defaultMinutes: 60,
+      run: () => this.processRenewals(),
+      onResult: (summary) => {
+        if (summary.renewed || summary.failed || summary.canceled) {
+          console.log(
+            `[BillingService] Subscriptions renewed: ${summary.renewed}, failed: ${summary.failed}, canceled: ${summary.canceled}`
+          );
+        }
+      }
+    });
+  }
+}
+
+module.exports = BillingService;
@@ -1,5 +1,6 @@
 const { Resend } = require('resend');
 const { generateEmailHtml } = require('../utils/emailGenerator');
+const { DEFAULT_CURRENCY } = require('../utils/currency');
 
 /**
  * Email Service
@@ -445,14 +446,16 @@ class EmailService {
    * @param {string} params.replyTo - Supplier email (for Reply-To header)
    * @param {string} params.assetName - Name of the asset
    * @param {string} params.supplierName - Name of the supplier
-   * @param {number} params.cost - Quote cost
+   * @param {number|null} params.cost - Quote cost (null for sealed bids)
+   * @param {string} [params.currency] - ISO 4217 code of the cost
+   * @param {boolean} [params.sealed] - Sealed bid: only say a bid arrived, without the offer
    * @param {string} [params.notes] - Optional notes/capacity details
    * @param {string} [params.documentUrl] - Optional PDF document URL
    * @param {string} [params.projectName] - Optional project name
    * @param {string} params.dashboardLink - Link to producer dashboard
    * @returns {Promise<Object>} Result with success status and messageId or error
    */
-  async sendQuoteReceivedNotification({ to, replyTo, assetName, supplierName, cost, notes, documentUrl, projectName, dashboardLink }) {
+  async sendQuoteReceivedNotification({ to, replyTo, assetName, supplierName, cost, currency = DEFAULT_CURRENCY, sealed = false, notes, documentUrl, projectName, dashboardLink }) {
     try {
       // Log entry point and parameters
       console.log('[EmailService] Attempting to send quote received notification');
@@ -461,7 +464,7 @@ class EmailService {
       console.log('[EmailService] From:', this.fromEmail);
       
       // Validate required parameters
-      if (!to || !replyTo || !assetName || !supplierName || cost === undefined || !dashboardLink) {
+      if (!to || !replyTo || !assetName || !supplierName || (!sealed && cost === undefined) || !dashboardLink) {
         throw new Error('Missing required parameters: to, replyTo, assetName, supplierName, cost, and dashboardLink are required');
       }
 
@@ -475,18 +478,22 @@ class EmailService {
       }
 
       // Generate email subject
-      const emailSubject = `New Quote Received: ${assetName}`;
+      const emailSubject = sealed ? `Sealed Bid Received: ${assetName}` : `New Quote Received: ${assetName}`;
       console.log('[EmailService] Subject:', emailSubject);
 
-      // Format cost as currency
-      const formattedCost = new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD'
-      }).format(cost);
+      // Sealed bids say only that a bid arrived; the amount stays hidden until bids open
+      const formattedCost = sealed
+        ? 'Sealed until bids open'
+        : new Intl.NumberFormat('en-US', {
+          style: 'currency',
+          currency: currency || DEFAULT_CURRENCY
+        }).format(cost);
 
       // Build email body (plain text for fallback)
       let emailBody = `Hello,\n\n`;
-      emailBody += `You have received a new quote submission from ${supplierName}.\n\n`;
+      emailBody += sealed
+        ? `A sealed bid was received from ${supplierName}.\n\n`
+        : `You have received a new quote submission from ${supplierName}.\n\n`;
       
       if (projectName) {
         emailBody += `Project: ${projectName}\n`;
@@ -495,11 +502,11 @@ class EmailService {
       emailBody += `Supplier: ${supplierName}\n`;
       emailBody += `Quote Amount: ${formattedCost}\n\n`;
       
-      if (notes && notes.trim()) {
+      if (!sealed && notes && notes.trim()) {
         emailBody += `Notes:\n${notes}\n\n`;
       }
       
-      if (documentUrl) {
+      if (!sealed && documentUrl) {
         emailBody += `Quote Document: ${documentUrl}\n\n`;
       }
       
@@ -514,11 +521,11 @@ class EmailService {
         { label: 'Quote Amount', value: formattedCost }
       ];
 
-      if (notes && notes.trim()) {
+      if (!sealed && notes && notes.trim()) {
         bodyData.push({ label: 'Notes', value: notes });
       }
 
-      if (documentUrl) {
+      if (!sealed && documentUrl) {
         const safeUrl = escapeHtml(documentUrl);
         bodyData.push({
           label: 'Quote Document',
@@ -528,7 +535,7 @@ class EmailService {
 
       // Generate HTML email
       const htmlBody = generateEmailHtml({
-        title: `New Quote Received: ${assetName}`,
+        title: emailSubject,
         body: bodyData,
         ctaLink: dashboardLink,
         ctaText: 'View in Dashboard',
@@ -799,6 +806,87 @@ class EmailService {
       };
     }
   }
+
+  /**
+   * Send a notification-center event to a producer by email
+   * Used for events without an email of their own (expiring quote requests,
+   * milestones due, assigned action items).
+   *
+   * @param {Object} params - Email parameters
+   * @param {string} params.to - Producer email
+   * @param {string} params.title - Notification title, used as the subject
+   * @param {string} [params.body] - Notification detail
+   * @param {string} [params.link] - Absolute link to the related page
+   * @returns {Promise<Object>} Result with success status and messageId or error
+   */
+  async sendProducerNotification({ to, title, body = '', link = null }) {
+    try {
+      if (!to || !title) {
+        throw new Error('Missing required parameters: to and title are required');
+      }
+
+      if (!this.resend) {
+        return {
+          success: false,
+          error: 'Email service not configured. RESEND_API_KEY is missing.'
+        };
+      }
+
+      let plainBody = `${title}\n\n`;
+      if (body) plainBody += `${body}\n\n`;
+      if (link) plainBody += `Open in ProdBay:\n${link}\n\n`;
+      plainBody += 'You can change which notifications you receive by email in Settings > Notifications.';
+
+      let htmlBodyContent =
+        `<p style="margin: 0 0 12px 0; color: #333333; font-size: 16px; line-height: 1.6;"><strong>${escapeHtml(title)}</strong></p>`;
+      if (body) {
+        htmlBodyContent +=
+          `<p style="margin: 0 0 12px 0; color: #333333; font-size: 16px; line-height: 1.6;">${escapeHtml(body)}</p>`;
+      }
+      htmlBodyContent +=
+        `<p style="margin: 16px 0 0 0; color: #666666; font-size: 14px; line-height: 1.6;">` +
+        `You can change which notifications you receive by email in Settings &gt; Notifications.</p>`;
+
+      const htmlBody = generateEmailHtml({
+        title,
+        body: htmlBodyContent,
+        ctaLink: link,
+        ctaText: link ? 'Open in ProdBay' : null,
+        footerText: 'ProdBay - Production Management Platform'
+      });
+
+      const { data } = await this.enqueueSend(async () => {
+        const { data: sendData, error: sendError } = await this.resend.emails.send({
+          from: this.fromEmail,
+          to: [to],
+          subject: title,
+          text: plainBody,
+          html: htmlBody
+        });
+
+        if (sendError) {
+          throw this.createSendError(sendError, 'send producer notification');
+        }
+
+        return { data: sendData };
+      }, 'send producer notification');
+
+      return {
+        success: true,
+        messageId: data?.id,
+        error: null
+      };
+    } catch (error) {
+      console.error('Error in sendProducerNotification:', error);
+      if (error?.originalError) {
+        console.error('[EmailService] Resend API error:', JSON.stringify(error.originalError, null, 2));
+      }
+      return {
+        success: false,
+        error: error.message || 'Unknown error occurred while sending email'
+      };
+    }
+  }
 }
 
 /**
@@ -0,0 +1,224 @@
+const { supabase } = require('../config/database');
+const emailService = require('./emailService');
+const SupplierService = require('./supplierService');
+const { isAwaitingSupplier, getDueFollowUp, getFollowUpCutoff } = require('../utils/followUps');
+const { startRecurringJob } = require('../utils/scheduler');
+
+/**
+ * Follow-up Service
+ * Sends scheduled reminders for quote requests that are still Pending.
+ * Reminders stop once the supplier replies in chat or submits a quote,
+ * or when the request's response deadline has passed.
+ */
+class FollowUpService {
+  /**
+   * Send every follow-up reminder that is due
+   * @param {Date} now - Current time (injectable for manual runs)
+   * @returns {Promise<Object>} Counts of sent, failed and skipped reminders
+   */
+  static async processDueFollowUps(now = new Date()) {
+    const summary = { sent: 0, failed: 0, skipped: 0 };
+
+    const { data: rules, error: rulesError } = await supabase
+      .from('quote_follow_up_rules')
+      .select('id, producer_id, delay_hours, message')
+      .eq('is_active', true);
+
+    if (rulesError) {
+      throw new Error(`Failed to fetch follow-up rules: ${rulesError.message}`);
+    }
+
+    const cutoff = getFollowUpCutoff(rules || [], now);
+    if (!cutoff) return summary;
+
+    const rulesByProducer = new Map();
+    rules.forEach((rule) => {
+      rulesByProducer.set(rule.producer_id, [...(rulesByProducer.get(rule.producer_id) || []), rule]);
+    });
+
+    const { data: quotes, error: quotesError } = await supabase
+      .from('quotes')
+      .select(`
+        id,
+        access_token,
+        created_at,
+        status,
+        cost,
+        response_deadline,
+        deadline_extended_until,
+        revision_requested_at,
+        supplier:suppliers(supplier_name, contact_persons),
+        asset:assets(asset_name, project:projects(producer_id))
+      `)
+      .eq('status', 'Pending')
+      .lte('created_at', cutoff);
+
+    if (quotesError) {
+      throw new Error(`Failed to fetch pending quotes: ${quotesError.message}`);
+    }
+    if (!quotes || quotes.length === 0) return summary;
+
+    const quoteIds = quotes.map((quote) => quote.id);
+    const [followUpsResult, repliesResult] = await Promise.all([
+      supabase.from('quote_follow_ups').select('quote_id, delay_hours').in('quote_id', quoteIds),
+      supabase.from('messages').select('quote_id').eq('sender_type', 'SUPPLIER').in('quote_id', quoteIds)
+    ]);
+
+    if (followUpsResult.error) {
+      throw new Error(`Failed to fetch sent follow-ups: ${followUpsResult.error.message}`);
+    }
+    if (repliesResult.error) {
+      throw new Error(`Failed to fetch supplier replies: ${repliesResult.error.message}`);
+    }
+
+    const handledByQuote = new Map();
+    (followUpsResult.data || []).forEach(({ quote_id, delay_hours }) => {
+      handledByQuote.set(quote_id, [...(handledByQuote.get(quote_id) || []), delay_hours]);
+    });
+    const repliedQuoteIds = new Set((repliesResult.data || []).map((message) => message.quote_id));
+
+    const producers = new Map();
+    for (const quote of quotes) {
+      if (!isAwaitingSupplier(quote, repliedQuoteIds, now)) continue;
+
+      const asset = Array.isArray(quote.asset) ? quote.asset[0] : quote.asset;
+      const project = Array.isArray(asset?.project) ? asset.project[0] : asset?.project;
+      const producerRules = rulesByProducer.get(project?.producer_id);
+      if (!producerRules) continue;
+
+      const due = getDueFollowUp(producerRules, handledByQuote.get(quote.id) || [], quote.created_at, now);
+      if (!due) continue;
+
+      try {
+        if (!producers.has(project.producer_id)) {
+          producers.set(project.producer_id, await this.getProducer(project.producer_id));
+        }
+        const result = await this.sendFollowUp(quote, asset, producers.get(project.producer_id), due);
+        summary.skipped += due.skipped.length;
+        if (result === 'sent') summary.sent += 1;
+        if (result === 'failed') summary.failed += 1;
+      } catch (error) {
+        console.error(`[FollowUpService] Failed to process follow-up for quote ${quote.id}:`, error);
+        summary.failed += 1;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Producer details for the reminder's Reply-To and From header
+   * @param {string} producerId - Producer UUID
+   * @returns {Promise<Object>} { name, company, email }
+   */
+  static async getProducer(producerId) {
+    const { data: producer, error } = await supabase
+      .from('producers')
+      .select('full_name, email, company_name')
+      .eq('id', producerId)
+      .single();
+
+    if (error || !producer) {
+      throw new Error(`Producer not found: ${producerId}`);
+    }
+
+    return {
+      name: producer.full_name || producer.email?.split('@')[0] || 'Producer',
+      company: producer.company_name || '',
+      email: producer.email || ''
+    };
+  }
+
+  /**
+   * Claim a follow-up step, email the supplier and record the outcome in the quote chat
+   * The log row is written before sending so two scheduler runs can't send the same step.
+   * @returns {Promise<string|null>} 'sent', 'failed', or null when another run claimed the step
+   */
+  static async sendFollowUp(quote, asset, producer, { rule, skipped }) {
+    const { error: claimError } = await supabase
+      .from('quote_follow_ups')
+      .insert([
+        ...skipped.map((step) => ({ quote_id: quote.id, rule_id: step.id, delay_hours: step.delay_hours, status: 'skipped' })),
+        { quote_id: quote.id, rule_id: rule.id, delay_hours: rule.delay_hours, status: 'sent' }
+      ]);
+
+    if (claimError) {
+      if (claimError.code === '23505') return null;
+      throw new Error(`Failed to record follow-up: ${claimError.message}`);
+    }
+
+    const supplier = Array.isArray(quote.supplier) ? quote.supplier[0] : quote.supplier;
+    const supplierEmail = supplier ? SupplierService.getPrimaryContact(supplier)?.email : null;
+    const frontendUrl = SupplierService.normalizeFrontendUrl(process.env.FRONTEND_URL || 'http://localhost:5173');
+    const quoteLink = `${frontendUrl}/portal/quote/${quote.access_token}`;
+
+    let sendError = null;
+    if (!supplierEmail) {
+      sendError = 'Supplier has no contact email on file';
+    } else if (!producer.email) {
+      sendError = 'Producer has no email address for replies';
+    } else {
+      const result = await emailService.sendQuoteRequest({
+        to: supplierEmail,
+        replyTo: producer.email,
+        signature: producer,
+        assetName: asset.asset_name,
+        subject: `Reminder: Quote Request: ${asset.asset_name}`,
+        message: `${rule.message.trim()}\n\nPlease provide your quote by visiting: ${quoteLink}`,
+        quoteLink
+      });
+      if (!result.success) sendError = result.error || 'Email could not be sent';
+    }
+
+    const sentAt = new Date().toISOString();
+    if (sendError) {
+      await supabase
+        .from('quote_follow_ups')
+        .update({ status: 'failed', error: sendError })
+        .eq('quote_id', quote.id)
+        .eq('delay_hours', rule.delay_hours);
+    } else {
+      await supabase
+        .from('quotes')
+        .update({ last_chased_at: sentAt })
+        .eq('id', quote.id);
+    }
+
+    const { error: messageError } = await supabase
+      .from('messages')
+      .insert({
+        quote_id: quote.id,
+        sender_type: 'SYSTEM',
+        content: sendError
+          ? `Automatic follow-up (${rule.delay_hours}h) could not be sent: ${sendError}`
+          : `Automatic follow-up sent to ${supplierEmail} (${rule.delay_hours}h after the request):\n\n${rule.message.trim()}`,
+        created_at: sentAt
+      });
+
+    if (messageError) {
+      console.error(`[FollowUpService] Failed to record follow-up message for quote ${quote.id}:`, messageError);
+    }
+
+    return sendError ? 'failed' : 'sent';
+  }
+
+  /**
+   * Run processDueFollowUps on an interval
+   * FOLLOW_UP_INTERVAL_MINUTES sets the interval (default 15, 0 disables reminders).
+   */
+  static startScheduler() {
+    return startRecurringJob({
+      name: 'FollowUpService',
+      envVar: 'FOLLOW_UP_INTERVAL_MINUTES',
+      defaultMinutes: 15,
+      run: () => this.processDueFollowUps(),
+      onResult: (summary) => {
+        if (summary.sent || summary.failed) {
+          console.log(`[FollowUpService] Follow-ups sent: ${summary.sent}, failed: ${summary.failed}, skipped: ${summary.skipped}`);
+        }
+      }
+    });
+  }
+}
+
+module.exports = FollowUpService;
@@ -0,0 +1,152 @@
+const { supabase } = require('../config/database');
+const emailService = require('./emailService');
+const SupplierService = require('./supplierService');
+const { startRecurringJob } = require('../utils/scheduler');
+
+// Emails sent per run; the rest wait for the next run
+const EMAIL_BATCH_SIZE = 50;
+
+/**
+ * Notification Service
+ * Raises time-based producer notifications (quote requests about to expire,
+ * milestones due) and emails the notifications producers asked to get by email.
+ * Event-driven notifications are written by database triggers.
+ */
+class NotificationService {
+  /**
+   * Create due notifications, then send queued emails
+   * @param {Date} now - Current time (injectable for manual runs)
+   * @returns {Promise<Object>} Counts of created notifications and sent/failed emails
+   */
+  static async processNotifications(now = new Date()) {
+    const { data: created, error } = await supabase.rpc('create_due_notifications', {
+      p_now: now.toISOString()
+    });
+
+    if (error) {
+      throw new Error(`Failed to create due notifications: ${error.message}`);
+    }
+
+    const emails = await this.sendPendingEmails();
+    return { created: created || 0, ...emails };
+  }
+
+  /**
+   * Email every notification queued with email_status 'pending'
+   * Each row is claimed (pending -> sent) before sending so overlapping runs
+   * can't email the same notification twice; failures are recorded on the row.
+   * @returns {Promise<Object>} Counts of sent and failed emails
+   */
+  static async sendPendingEmails() {
+    const summary = { sent: 0, failed: 0 };
+
+    const { data: notifications, error } = await supabase
+      .from('notifications')
+      .select('id, producer_id, title, body, link_path')
+      .eq('email_status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(EMAIL_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to fetch queued notification emails: ${error.message}`);
+    }
+    if (!notifications || notifications.length === 0) return summary;
+
+    const producerIds = [...new Set(notifications.map((notification) => notification.producer_id))];
+    const { data: producers, error: producersError } = await supabase
+      .from('producers')
+      .select('id, email')
+      .in('id', producerIds);
+
+    if (producersError) {
+      throw new Error(`Failed to fetch producers for notification emails: ${producersError.message}`);
+    }
+
+    const emailByProducer = new Map((producers || []).map((producer) => [producer.id, producer.email]));
+    const frontendUrl = SupplierService.normalizeFrontendUrl(process.env.FRONTEND_URL || 'http://localhost:5173');
+
+    for (const notification of notifications) {
+      const { data: claimed, error: claimError } = await supabase
+        .from('notifications')
+        .update({ email_status: 'sent' })
+        .eq('id', notification.id)
+        .eq('email_status', 'pending')
+        .select('id');
+
+      if (claimError) {
+        console.error(`[NotificationService] Failed to claim notification ${notification.id}:`, claimError);
+        continue;
+      }
+      if (!claimed || claimed.length === 0) continue;
+
+      const to = emailByProducer.get(notification.producer_id);
+      const result = to
+        ? await emailService.sendProducerNotification({
+          to,
+          title: notification.title,
+          body: notification.body,
+          link: notification.link_path ? `${frontendUrl}${notification.link_path}` : null
+        })
+        : { success: false, error: 'Producer has no email address' };
+
+      if (result.success) {
+        summary.sent += 1;
+      } else {
+        summary.failed += 1;
+        await supabase
+          .from('notifications')
+          .update({ email_status: 'failed', email_error: result.error || 'Email could not be sent' })
+          .eq('id', notification.id);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Whether a producer wants email for an event type
+   * Used by the places that already email producers directly (new supplier
+   * messages, submitted quotes). Defaults to true if preferences can't be read,
+   * so a lookup failure never silently drops an email.
+   * @param {string|null} producerId - Producer UUID
+   * @param {string} eventType - Notification event type
+   * @returns {Promise<boolean>}
+   */
+  static async isEmailEnabled(producerId, eventType) {
+    if (!producerId) return true;
+
+    const { data, error } = await supabase.rpc('get_notification_preferences', {
+      p_producer_id: producerId
+    });
+
+    if (error) {
+      console.error(`[NotificationService] Failed to read notification preferences for ${producerId}:`, error);
+      return true;
+    }
+
+    const preference = (data || []).find((row) => row.event_type === eventType);
+    return preference ? preference.email : true;
+  }
+
+  /**
+   * Run processNotifications on an interval
+   * NOTIFICATION_INTERVAL_MINUTES sets the interval (default 5, 0 disables it).
+   */
+  static startScheduler() {
+    return startRecurringJob({
+      name: 'NotificationService',
+      envVar: 'NOTIFICATION_INTERVAL_MINUTES',
+      defaultMinutes: 5,
+      run: () => this.processNotifications(),
+      onResult: (summary) => {
+        if (summary.created || summary.sent || summary.failed) {
+          console.log(
+            `[NotificationService] Notifications created: ${summary.created}, emails sent: ${summary.sent}, failed: ${summary.failed}`
+          );
+        }
+      }
+    });
+  }
+}
+
+module.exports = NotificationService;
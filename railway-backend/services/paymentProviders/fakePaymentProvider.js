@@ -0,0 +1,42 @@
+const crypto = require('crypto');
+
+/**
+ * Fake Payment Provider
+ * Local stand-in for a real processor so plan changes, renewals and invoices
+ * can be exercised end to end. Every charge succeeds unless
+ * FAKE_PAYMENT_DECLINE=true, which declines them all (to test failures).
+ * Implements the interface documented in ./index.js.
+ */
+class FakePaymentProvider {
+  constructor() {
+    this.name = 'fake';
+  }
+
+  get declinesPayments() {
+    return process.env.FAKE_PAYMENT_DECLINE === 'true';
+  }
+
+  async createCustomer({ producerId }) {
+    return { customerId: `fake_cus_${producerId}` };
+  }
+
+  async upsertSubscription({ subscriptionId }) {
+    return { subscriptionId: subscriptionId || `fake_sub_${crypto.randomUUID()}` };
+  }
+
+  async cancelSubscription() {
+    return { canceled: true };
+  }
+
+  async chargePayment({ amountCents }) {
+    if (this.declinesPayments) {
+      return { success: false, error: 'Card declined (FAKE_PAYMENT_DECLINE is set)' };
+    }
+    if (!(amountCents > 0)) {
+      return { success: false, error: 'Amount must be greater than 0' };
+    }
+    return { success: true, paymentId: `fake_pay_${crypto.randomUUID()}` };
+  }
+}
+
+module.exports = FakePaymentProvider;
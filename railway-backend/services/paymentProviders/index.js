@@ -0,0 +1,43 @@
+const FakePaymentProvider = require('./fakePaymentProvider');
+
+/**
+ * Payment providers
+ * BillingService only talks to a provider through this interface, so a real
+ * processor can be added here without touching plans, usage or invoices.
+ *
+ * A provider is an object with:
+ * - name {string} - Stored on subscriptions and invoices
+ * - createCustomer({ producerId, email }) -> { customerId }
+ * - upsertSubscription({ customerId, subscriptionId, plan }) -> { subscriptionId }
+ *     Create the subscription, or move an existing one to `plan`
+ * - cancelSubscription({ customerId, subscriptionId }) -> { canceled }
+ * - chargePayment({ customerId, amountCents, currency, description, invoiceNumber })
+ *     -> { success: true, paymentId } | { success: false, error }
+ *     Must not throw for a declined payment; throw only for unexpected errors
+ */
+
+const PROVIDERS = {
+  fake: FakePaymentProvider
+};
+
+let provider = null;
+
+/**
+ * Provider selected by PAYMENT_PROVIDER (default "fake")
+ * @returns {Object} Payment provider instance
+ */
+const getPaymentProvider = () => {
+  if (!provider) {
+    const name = process.env.PAYMENT_PROVIDER || 'fake';
+    const Provider = PROVIDERS[name];
+    if (!Provider) {
+      throw new Error(`Unknown payment provider "${name}". Available: ${Object.keys(PROVIDERS).join(', ')}`);
+    }
+    provider = new Provider();
+  }
+  return provider;
+};
+
+module.exports = {
+  getPaymentProvider
+};
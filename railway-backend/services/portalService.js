@@ -1,6 +1,10 @@
 const { supabase } = require('../config/database');
 const emailService = require('./emailService');
 const storageService = require('../utils/storageService');
+const { DEFAULT_CURRENCY, isValidCurrencyCode } = require('../utils/currency');
+const { sanitizeLineItems, calculateLineItemsTotal } = require('../utils/lineItems');
+const { getEffectiveDeadline, isPastDeadline } = require('../utils/quoteDeadlines');
+const { isBidSealed } = require('../utils/sealedBids');
 
 const getPrimaryContact = (supplier) => {
   const contactPersons = Array.isArray(supplier?.contact_persons) ? supplier.contact_persons : [];
@@ -21,7 +25,8 @@ const sanitizeProjectForPortal = (project) => {
     id: project.id,
     event_date: project.event_date || null,
     location: project.physical_parameters || null,
-    timeline_deadline: project.timeline_deadline || null
+    timeline_deadline: project.timeline_deadline || null,
+    base_currency: project.base_currency || DEFAULT_CURRENCY
   };
 };
 
@@ -57,10 +62,12 @@ class PortalService {
               event_date,
               physical_parameters,
               timeline_deadline,
+              base_currency,
               producer_id
             )
           ),
-          request_attachments:quote_request_attachments(*)
+          request_attachments:quote_request_attachments(*),
+          line_items:quote_line_items(*)
         `)
         .eq('access_token', token)
         .single();
@@ -153,10 +160,15 @@ class PortalService {
           supplier_id: quote.supplier_id,
           asset_id: quote.asset_id,
           cost: quote.cost,
+          currency: quote.currency,
+          line_items: (quote.line_items || []).sort((a, b) => a.position - b.position),
           notes_capacity: quote.notes_capacity,
           status: quote.status,
           access_token: quote.access_token,
           request_email_body: quote.request_email_body || null,
+          response_deadline: getEffectiveDeadline(quote)?.toISOString() || null,
+          deadline_extended: Boolean(quote.deadline_extended_until),
+          revision_requested_at: quote.revision_requested_at || null,
           request_attachments: quote.request_attachments || [],
           created_at: quote.created_at,
           updated_at: quote.updated_at
@@ -486,9 +498,11 @@ class PortalService {
    * @param {number} cost - Quote price
    * @param {string} notes - Optional notes/capacity details
    * @param {string} fileUrl - Optional file URL (for future file upload support)
+   * @param {string} currency - Optional ISO 4217 code; defaults to the project base currency
+   * @param {Array<Object>} lineItems - Optional line items; when present the cost is derived from them
    * @returns {Promise<Object>} Updated quote object
    */
-  static async submitQuoteViaPortal(token, cost, notes = '', fileUrl = null) {
+  static async submitQuoteViaPortal(token, cost, notes = '', fileUrl = null, currency = null, lineItems = []) {
     try {
       // Validate inputs
       if (!token || typeof token !== 'string') {
@@ -507,6 +521,13 @@ class PortalService {
         throw new Error('Notes must be a string');
       }
 
+      if (currency && !isValidCurrencyCode(currency)) {
+        throw new Error('Currency must be a three-letter ISO 4217 code');
+      }
+
+      const cleanLineItems = sanitizeLineItems(lineItems || []);
+      const quoteCost = cleanLineItems.length > 0 ? calculateLineItemsTotal(cleanLineItems) : cost;
+
       // Validate token and get quote
       const quote = await this.validateAccessToken(token);
 
@@ -515,25 +536,20 @@ class PortalService {
         throw new Error('Quote has already been submitted');
       }
 
-      // Prepare update data
-      const updateData = {
-        cost: cost,
-        notes_capacity: notes || '',
-        status: 'Submitted',
-        updated_at: new Date().toISOString()
-      };
-
-      // Add file URL if provided
-      if (fileUrl) {
-        updateData.quote_document_url = fileUrl;
+      if (isPastDeadline(quote)) {
+        throw new Error('The response deadline for this quote request has passed. Please contact the producer to ask for an extension.');
       }
 
-      // Update quote using Service Role (bypasses RLS)
+      // Replace line items and submit in one transaction so a failure can't leave them out of step
       const { data: updatedQuote, error: updateError } = await supabase
-        .from('quotes')
-        .update(updateData)
-        .eq('id', quote.id)
-        .select()
+        .rpc('submit_quote_with_line_items', {
+          p_quote_id: quote.id,
+          p_cost: quoteCost,
+          p_currency: currency || quote.asset?.project?.base_currency || DEFAULT_CURRENCY,
+          p_notes: notes || '',
+          p_document_url: fileUrl || null,
+          p_line_items: cleanLineItems
+        })
         .single();
 
       if (updateError || !updatedQuote) {
@@ -557,8 +573,13 @@ class PortalService {
               *,
               asset:assets(
                 asset_name,
+                sealed_bids,
+                bids_open_at,
+                bids_unsealed_at,
                 project:projects(
-                  project_name
+                  project_name,
+                  producer_id,
+                  base_currency
                 )
               ),
               supplier:suppliers(
@@ -569,7 +590,15 @@ class PortalService {
             .eq('id', updatedQuote.id)
             .single();
 
-          if (quoteWithRelations && quoteWithRelations.asset && quoteWithRelations.supplier) {
+          const NotificationService = require('./notificationService');
+          const emailEnabled = await NotificationService.isEmailEnabled(
+            quoteWithRelations?.asset?.project?.producer_id || null,
+            'quote_submitted'
+          );
+
+          if (!emailEnabled) {
+            console.log('[PortalService] Producer has quote emails turned off. Skipping notification.');
+          } else if (quoteWithRelations && quoteWithRelations.asset && quoteWithRelations.supplier) {
             // Generate dashboard link
             const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
             const normalizedFrontendUrl = frontendUrl.replace(/\/+$/, ''); // Remove trailing slashes
@@ -579,14 +608,18 @@ class PortalService {
             const emailService = require('./emailService');
             const primaryContact = getPrimaryContact(quoteWithRelations.supplier);
             const replyToEmail = primaryContact?.email || 'noreply@prodbay.com';
+            // A sealed bid's offer must not reach the producer's inbox before bids open
+            const sealed = isBidSealed(quoteWithRelations.asset);
             emailService.sendQuoteReceivedNotification({
               to: producerSettings.from_email,
               replyTo: replyToEmail,
               assetName: quoteWithRelations.asset.asset_name,
               supplierName: quoteWithRelations.supplier.supplier_name,
-              cost: updatedQuote.cost,
-              notes: updatedQuote.notes_capacity || '',
-              documentUrl: updatedQuote.quote_document_url || null,
+              sealed,
+              cost: sealed ? null : updatedQuote.cost,
+              currency: updatedQuote.currency || quoteWithRelations.asset.project?.base_currency || DEFAULT_CURRENCY,
+              notes: sealed ? '' : updatedQuote.notes_capacity || '',
+              documentUrl: sealed ? null : updatedQuote.quote_document_url || null,
               projectName: quoteWithRelations.asset.project?.project_name || null,
               dashboardLink: dashboardLink
             }).catch((emailError) => {
@@ -1,4 +1,5 @@
 const { supabase } = require('../config/database');
+const { DEFAULT_CURRENCY, convertAmount, getProducerExchangeRates } = require('../utils/currency');
 
 /**
  * Project Summary Service
@@ -87,7 +88,10 @@ class ProjectSummaryService {
         total: parseFloat(budgetData.total_budget || 0),
         spent: parseFloat(budgetData.total_spent || 0),
         remaining: parseFloat(budgetData.budget_remaining || 0),
-        percentageUsed: parseFloat(budgetData.budget_used_percentage || 0)
+        percentageUsed: parseFloat(budgetData.budget_used_percentage || 0),
+        currency: budgetData.base_currency || DEFAULT_CURRENCY,
+        unconvertedQuoteCount: parseInt(budgetData.unconverted_quote_count || 0, 10),
+        allocated: parseFloat(budgetData.total_allocated || 0)
       };
     } catch (error) {
       console.error('Error in calculateProjectBudget:', error);
@@ -96,7 +100,10 @@ class ProjectSummaryService {
         total: 0,
         spent: 0,
         remaining: 0,
-        percentageUsed: 0
+        percentageUsed: 0,
+        currency: DEFAULT_CURRENCY,
+        unconvertedQuoteCount: 0,
+        allocated: 0
       };
     }
   }
@@ -113,18 +120,20 @@ class ProjectSummaryService {
       // Get project budget
       const { data: project, error: projectError } = await supabase
         .from('projects')
-        .select('financial_parameters')
+        .select('financial_parameters, base_currency, producer_id')
         .eq('id', projectId)
         .single();
 
       if (projectError) throw projectError;
 
       const totalBudget = parseFloat(project?.financial_parameters || 0);
+      const baseCurrency = project?.base_currency || DEFAULT_CURRENCY;
+      const rates = await getProducerExchangeRates(supabase, project?.producer_id);
 
       // Get all accepted quotes for this project
       const { data: quotes, error: quotesError } = await supabase
         .from('quotes')
-        .select('cost, asset_id')
+        .select('cost, currency, asset_id')
         .eq('status', 'Accepted')
         .in('asset_id', 
           supabase
@@ -135,7 +144,27 @@ class ProjectSummaryService {
 
       if (quotesError) throw quotesError;
 
-      const totalSpent = quotes?.reduce((sum, quote) => sum + parseFloat(quote.cost || 0), 0) || 0;
+      // Total planned per asset (tag allocations overlap assets, so they are not added)
+      const { data: allocations, error: allocationsError } = await supabase
+        .from('budget_allocations')
+        .select('amount')
+        .eq('project_id', projectId)
+        .not('asset_id', 'is', null);
+
+      if (allocationsError) throw allocationsError;
+
+      const allocated = (allocations || []).reduce((sum, allocation) => sum + parseFloat(allocation.amount || 0), 0);
+
+      // Convert each accepted quote into the base currency; quotes without a rate are excluded
+      let unconvertedQuoteCount = 0;
+      const totalSpent = (quotes || []).reduce((sum, quote) => {
+        const converted = convertAmount(parseFloat(quote.cost || 0), quote.currency || baseCurrency, baseCurrency, rates);
+        if (converted === null) {
+          unconvertedQuoteCount += 1;
+          return sum;
+        }
+        return sum + converted;
+      }, 0);
       const remaining = totalBudget - totalSpent;
       const percentageUsed = totalBudget > 0 ? (totalSpent / totalBudget) * 100 : 0;
 
@@ -143,7 +172,10 @@ class ProjectSummaryService {
         total: totalBudget,
         spent: totalSpent,
         remaining,
-        percentageUsed: Math.round(percentageUsed * 100) / 100 // Round to 2 decimals
+        percentageUsed: Math.round(percentageUsed * 100) / 100, // Round to 2 decimals
+        currency: baseCurrency,
+        unconvertedQuoteCount,
+        allocated
       };
     } catch (error) {
       console.error('Error in calculateBudgetManually:', error);
@@ -151,7 +183,10 @@ class ProjectSummaryService {
         total: 0,
         spent: 0,
         remaining: 0,
-        percentageUsed: 0
+        percentageUsed: 0,
+        currency: DEFAULT_CURRENCY,
+        unconvertedQuoteCount: 0,
+        allocated: 0
       };
     }
   }
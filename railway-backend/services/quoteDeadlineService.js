@@ -0,0 +1,105 @@
+const { supabase } = require('../config/database');
+const ProjectSummaryService = require('./projectSummaryService');
+const { isRoundClosable } = require('../utils/quoteDeadlines');
+const { startRecurringJob } = require('../utils/scheduler');
+
+/**
+ * Quote Deadline Service
+ * Closes quoting rounds once every outstanding request is past its response deadline.
+ * A closed round moves the asset from Quoting to Reviewing and asks the producer to compare quotes.
+ */
+class QuoteDeadlineService {
+  /**
+   * Close every quoting round whose deadlines have all passed
+   * @param {Date} now - Current time (injectable for manual runs)
+   * @returns {Promise<Object>} Count of closed rounds
+   */
+  static async closeExpiredRounds(now = new Date()) {
+    const summary = { closed: 0 };
+
+    const { data: assets, error } = await supabase
+      .from('assets')
+      .select(`
+        id,
+        asset_name,
+        project_id,
+        quotes(id, status, cost, response_deadline, deadline_extended_until)
+      `)
+      .eq('status', 'Quoting');
+
+    if (error) {
+      throw new Error(`Failed to fetch quoting assets: ${error.message}`);
+    }
+
+    for (const asset of assets || []) {
+      if (!isRoundClosable(asset.quotes || [], now)) continue;
+
+      try {
+        if (await this.closeRound(asset, now)) summary.closed += 1;
+      } catch (closeError) {
+        console.error(`[QuoteDeadlineService] Failed to close quoting round for asset ${asset.id}:`, closeError);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Move an asset to Reviewing and create the producer's review action item
+   * The status update only matches while the asset is still Quoting, so a
+   * concurrent run (or a new round being sent) can't close it twice.
+   * @param {Object} asset - Asset with its quotes
+   * @param {Date} now - Current time
+   * @returns {Promise<boolean>} false when the asset was no longer Quoting
+   */
+  static async closeRound(asset, now) {
+    const { data: closed, error } = await supabase
+      .from('assets')
+      .update({ status: 'Reviewing', quoting_closed_at: now.toISOString() })
+      .eq('id', asset.id)
+      .eq('status', 'Quoting')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to close quoting round: ${error.message}`);
+    }
+    if (!closed || closed.length === 0) return false;
+
+    const received = asset.quotes.filter((quote) => quote.status === 'Submitted').length;
+    const unanswered = asset.quotes.filter((quote) => quote.status === 'Pending').length;
+    const description = received > 0
+      ? `Review ${received} quote${received !== 1 ? 's' : ''} for ${asset.asset_name}: quoting closed${unanswered > 0 ? ` with ${unanswered} unanswered` : ''}`
+      : `No quotes received for ${asset.asset_name} before the deadline: extend the deadline or contact other suppliers`;
+
+    await ProjectSummaryService.createActionItem({
+      projectId: asset.project_id,
+      assetId: asset.id,
+      type: 'producer_review_quote',
+      description,
+      assignedTo: 'producer',
+      priority: 2
+    });
+
+    return true;
+  }
+
+  /**
+   * Run closeExpiredRounds on an interval
+   * QUOTE_DEADLINE_INTERVAL_MINUTES sets the interval (default 5, 0 disables auto-close).
+   */
+  static startScheduler() {
+    return startRecurringJob({
+      name: 'QuoteDeadlineService',
+      envVar: 'QUOTE_DEADLINE_INTERVAL_MINUTES',
+      defaultMinutes: 5,
+      run: () => this.closeExpiredRounds(),
+      onResult: (summary) => {
+        if (summary.closed) {
+          console.log(`[QuoteDeadlineService] Quoting rounds closed: ${summary.closed}`);
+        }
+      }
+    });
+  }
+}
+
+module.exports = QuoteDeadlineService;
@@ -1,5 +1,10 @@
 const { supabase } = require('../config/database');
 const emailService = require('./emailService');
+const PortalService = require('./portalService');
+const ProjectSummaryService = require('./projectSummaryService');
+const { getQuoteApprovalBlocker, getLatestQuoteApproval } = require('../utils/clientApprovals');
+const { isBidSealed } = require('../utils/sealedBids');
+const { canAccessProject } = require('../utils/projectAccess');
 
 const getPrimaryContact = (supplier) => {
   const contactPersons = Array.isArray(supplier?.contact_persons) ? supplier.contact_persons : [];
@@ -35,6 +40,8 @@ class QuoteService {
    * - Sets the target quote status to 'Accepted'
    * - Sets all other quotes for the same asset to 'Rejected'
    * - Updates the asset with assigned_supplier_id and status 'Approved'
+   * Blocked while a client approval is pending or was rejected, and on projects
+   * that require client approval until the client approved the quote
    * 
    * @param {string} quoteId - UUID of the quote to accept
    * @returns {Promise<Object>} Updated quote and asset data
@@ -65,10 +72,14 @@ class QuoteService {
           asset:assets(
             id,
             asset_name,
+            sealed_bids,
+            bids_open_at,
+            bids_unsealed_at,
             project:projects(
               id,
               project_name,
-              producer_id
+              producer_id,
+              requires_client_approval
             )
           )
         `)
@@ -91,6 +102,10 @@ class QuoteService {
         throw new Error(`Quote cannot be accepted. Current status is '${quote.status}'. Only quotes with status 'Submitted' can be accepted.`);
       }
 
+      if (isBidSealed(quote.asset)) {
+        throw new Error('Quote cannot be accepted while bids are sealed. Unseal the bids first.');
+      }
+
       // Validate required fields
       if (!quote.asset_id) {
         throw new Error('Quote is missing asset_id');
@@ -100,6 +115,15 @@ class QuoteService {
         throw new Error('Quote is missing supplier_id');
       }
 
+      const latestApproval = await getLatestQuoteApproval(supabase, quoteId);
+      const approvalBlocker = getQuoteApprovalBlocker(
+        latestApproval,
+        Boolean(quote.asset?.project?.requires_client_approval)
+      );
+      if (approvalBlocker) {
+        throw new Error(approvalBlocker);
+      }
+
       // Perform batch updates (Supabase doesn't support transactions, but we can use batch operations)
       // Update 1: Set target quote to 'Accepted'
       const { data: updatedQuote, error: updateQuoteError } = await supabase
@@ -235,6 +259,154 @@ class QuoteService {
       throw error;
     }
   }
+
+  /**
+   * Get the submission history of a quote, oldest first
+   * Versions are written by the record_quote_version trigger on every submission
+   *
+   * @param {string} quoteId - UUID of the quote
+   * @param {Object} user - Authenticated user object from JWT
+   * @returns {Promise<Array>} Quote versions ordered by version_number
+   */
+  static async getQuoteVersions(quoteId, user) {
+    try {
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(quoteId)) {
+        throw new Error('Invalid quote ID format. Quote IDs must be valid UUIDs.');
+      }
+
+      const { data: quote, error: quoteError } = await supabase
+        .from('quotes')
+        .select('id, asset:assets(project:projects(producer_id, organisation_id))')
+        .eq('id', quoteId)
+        .maybeSingle();
+
+      if (quoteError) {
+        throw new Error(`Failed to fetch quote: ${quoteError.message}`);
+      }
+
+      // Quotes on other producers' projects are reported as missing
+      const asset = Array.isArray(quote?.asset) ? quote.asset[0] : quote?.asset;
+      if (!quote || !(await canAccessProject(supabase, asset?.project, user?.id, 'view'))) {
+        throw new Error('Quote not found');
+      }
+
+      const { data: versions, error } = await supabase
+        .from('quote_versions')
+        .select('*')
+        .eq('quote_id', quoteId)
+        .order('version_number', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch quote versions: ${error.message}`);
+      }
+
+      return versions || [];
+    } catch (error) {
+      console.error('Error in getQuoteVersions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the supplier to revise a submitted quote
+   * - Reopens the quote (status back to 'Pending') so the supplier can resubmit
+   * - Raises a supplier_revise_quote action item (completed by trigger on resubmission)
+   * - Posts the request in the quote chat, which also emails the supplier
+   *
+   * @param {string} quoteId - UUID of the quote
+   * @param {string} reason - What the producer wants changed
+   * @param {Object} user - Authenticated user object from JWT
+   * @returns {Promise<Object>} Updated quote and created action item
+   */
+  static async requestRevision(quoteId, reason, user) {
+    try {
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(quoteId)) {
+        throw new Error('Invalid quote ID format. Quote IDs must be valid UUIDs.');
+      }
+
+      const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+      if (!trimmedReason) {
+        throw new Error('Revision reason is required');
+      }
+
+      const { data: quote, error: quoteError } = await supabase
+        .from('quotes')
+        .select(`
+          id,
+          asset_id,
+          status,
+          supplier:suppliers(supplier_name),
+          asset:assets(
+            id,
+            asset_name,
+            project_id,
+            project:projects(producer_id, organisation_id)
+          )
+        `)
+        .eq('id', quoteId)
+        .single();
+
+      if (quoteError) {
+        if (quoteError.code === 'PGRST116') {
+          throw new Error('Quote not found');
+        }
+        throw new Error(`Failed to fetch quote: ${quoteError.message}`);
+      }
+
+      const asset = Array.isArray(quote?.asset) ? quote.asset[0] : quote?.asset;
+      if (!quote || !(await canAccessProject(supabase, asset?.project, user?.id, 'edit'))) {
+        throw new Error('Quote not found');
+      }
+
+      if (quote.status !== 'Submitted') {
+        throw new Error(`Revision cannot be requested. Current status is '${quote.status}'. Only quotes with status 'Submitted' can be revised.`);
+      }
+
+      if (!asset?.project_id) {
+        throw new Error('Quote is missing project');
+      }
+
+      // Reopen the quote; the submitted offer is preserved in quote_versions
+      const { data: updatedQuote, error: updateError } = await supabase
+        .from('quotes')
+        .update({ status: 'Pending', revision_requested_at: new Date().toISOString() })
+        .eq('id', quoteId)
+        .select('*')
+        .single();
+
+      if (updateError) {
+        throw new Error(`Failed to update quote status: ${updateError.message}`);
+      }
+
+      const supplier = Array.isArray(quote.supplier) ? quote.supplier[0] : quote.supplier;
+      const actionItem = await ProjectSummaryService.createActionItem({
+        projectId: asset.project_id,
+        assetId: asset.id,
+        quoteId,
+        type: 'supplier_revise_quote',
+        description: `${supplier?.supplier_name || 'Supplier'} to revise quote for ${asset.asset_name || 'asset'}: ${trimmedReason}`,
+        assignedTo: 'supplier',
+        priority: 3
+      });
+
+      // Side effect: chat message + supplier email (log and continue on failure)
+      try {
+        await PortalService.sendProducerMessage(quoteId, `Revision requested: ${trimmedReason}`, user);
+      } catch (messageError) {
+        console.error('Failed to send revision request message:', messageError);
+      }
+
+      return {
+        quote: updatedQuote,
+        actionItem
+      };
+    } catch (error) {
+      console.error('Error in requestRevision:', error);
+      throw error;
+    }
+  }
 }
 
 module.exports = QuoteService;
@@ -1,6 +1,7 @@
 const { supabase } = require('../config/database');
 const emailService = require('./emailService');
 const storageService = require('../utils/storageService');
+const { formatDeadline, isPastDeadline } = require('../utils/quoteDeadlines');
 
 /**
  * Supplier Service
@@ -265,9 +266,10 @@ ${signatureLines}`;
    * @param {string[]} supplierIds - Array of supplier IDs to contact
    * @param {Object} from - Sender information {name, email}
    * @param {Array} customizedEmails - Array of customized email content
+   * @param {string|null} responseDeadline - ISO timestamp suppliers must respond by (optional)
    * @returns {Promise<Object>} Result of quote request sending
    */
-  static async sendQuoteRequests(assetId, supplierIds, from = null, customizedEmails = null) {
+  static async sendQuoteRequests(assetId, supplierIds, from = null, customizedEmails = null, responseDeadline = null) {
     try {
       // Validate inputs
       const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -350,7 +352,8 @@ ${signatureLines}`;
             .insert({
               supplier_id: supplier.id,
               asset_id: assetId,
-              status: 'Pending'
+              status: 'Pending',
+              response_deadline: responseDeadline
             })
             .select('*') // Select all fields including access_token and quote_token
             .single();
@@ -516,10 +519,10 @@ ${signatureLines}`;
         }
       }
 
-      // Update asset status to Quoting
+      // Update asset status to Quoting (reopens a round that was already closed)
       await supabase
         .from('assets')
-        .update({ status: 'Quoting' })
+        .update({ status: 'Quoting', quoting_closed_at: null })
         .eq('id', assetId);
 
       return {
@@ -591,6 +594,10 @@ ${signatureLines}`;
         message += `\n\nPlease provide your quote by visiting: ${quoteLink}`;
       }
 
+      if (quote.response_deadline) {
+        message += `\nPlease respond by ${formatDeadline(quote.response_deadline)}.`;
+      }
+
       // Prepare attachments: Combine Storage URLs (successful uploads) and Base64 (failed uploads)
       // Both can be present simultaneously - email service will handle both types
       const finalAttachmentUrls = attachmentUrls && attachmentUrls.length > 0 ? attachmentUrls : null;
@@ -660,7 +667,7 @@ ${signatureLines}`;
       // Check if a quote already exists for this asset + supplier pair
       const { data: existingQuote, error: findError } = await supabase
         .from('quotes')
-        .select('id')
+        .select('id, status, cost, response_deadline, deadline_extended_until, revision_requested_at')
         .eq('asset_id', asset_id)
         .eq('supplier_id', supplier_id)
         .maybeSingle();
@@ -669,6 +676,10 @@ ${signatureLines}`;
         throw new Error(`Failed to check for existing quote: ${findError.message}`);
       }
 
+      if (existingQuote && isPastDeadline(existingQuote)) {
+        throw new Error('The response deadline for this quote request has passed. Please contact the producer to ask for an extension.');
+      }
+
       let quote;
       let quoteError;
 
@@ -745,7 +756,7 @@ ${signatureLines}`;
       // First, get the quote to validate ownership
       const { data: existingQuote, error: fetchError } = await supabase
         .from('quotes')
-        .select('id, supplier_id, supplier:suppliers(supplier_name)')
+        .select('id, supplier_id, status, cost, response_deadline, deadline_extended_until, revision_requested_at, supplier:suppliers(supplier_name)')
         .eq('id', quoteId)
         .single();
 
@@ -758,6 +769,10 @@ ${signatureLines}`;
         throw new Error(`Ownership violation: Quote belongs to ${existingQuote.supplier.supplier_name}, but you are impersonating a different supplier`);
       }
 
+      if (isPastDeadline(existingQuote)) {
+        throw new Error('The response deadline for this quote request has passed. Please contact the producer to ask for an extension.');
+      }
+
       // Update the quote
       const { data: updatedQuote, error: updateError } = await supabase
         .from('quotes')
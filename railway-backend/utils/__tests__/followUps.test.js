@@ -0,0 +1,99 @@
+/**
+ * Unit tests for follow-up reminder helpers
+ * Run with `npm test` (node:test)
+ */
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { isAwaitingSupplier, getDueFollowUp, getFollowUpCutoff } = require('../followUps');
+
+const rules = [
+  { id: 'r72', delay_hours: 72, message: 'Final reminder' },
+  { id: 'r24', delay_hours: 24, message: 'Friendly reminder' },
+  { id: 'r48', delay_hours: 48, message: 'Second reminder' }
+];
+
+const requestedAt = '2025-03-01T09:00:00Z';
+const hoursAfterRequest = (hours) => new Date(new Date(requestedAt).getTime() + hours * 60 * 60 * 1000);
+
+describe('followUps', () => {
+  describe('getDueFollowUp', () => {
+    it('returns nothing before the first step is due', () => {
+      assert.equal(getDueFollowUp(rules, [], requestedAt, hoursAfterRequest(23.9)), null);
+    });
+
+    it('returns a step once its delay has passed', () => {
+      assert.deepEqual(getDueFollowUp(rules, [], requestedAt, hoursAfterRequest(24)), {
+        rule: rules[1],
+        skipped: []
+      });
+    });
+
+    it('does not repeat steps that were already logged', () => {
+      assert.equal(getDueFollowUp(rules, [24], requestedAt, hoursAfterRequest(30)), null);
+      assert.equal(getDueFollowUp(rules, [24, 48], requestedAt, hoursAfterRequest(50)), null);
+      assert.equal(getDueFollowUp(rules, [24], requestedAt, hoursAfterRequest(48)).rule, rules[2]);
+    });
+
+    it('sends only the latest due step and skips the earlier ones', () => {
+      assert.deepEqual(getDueFollowUp(rules, [], requestedAt, hoursAfterRequest(80)), {
+        rule: rules[0],
+        skipped: [rules[1], rules[2]]
+      });
+    });
+  });
+
+  describe('getFollowUpCutoff', () => {
+    it('goes back by the shortest delay', () => {
+      assert.equal(getFollowUpCutoff(rules, hoursAfterRequest(24)), requestedAt.replace('Z', '.000Z'));
+    });
+
+    it('returns null without rules', () => {
+      assert.equal(getFollowUpCutoff([], new Date()), null);
+    });
+  });
+
+  describe('isAwaitingSupplier', () => {
+    const now = hoursAfterRequest(30);
+    const pending = {
+      id: 'q1',
+      status: 'Pending',
+      cost: 0,
+      response_deadline: null,
+      deadline_extended_until: null,
+      revision_requested_at: null
+    };
+
+    it('follows up pending requests the supplier has not answered', () => {
+      assert.equal(isAwaitingSupplier(pending, new Set(), now), true);
+    });
+
+    it('skips requests the supplier replied to in chat', () => {
+      assert.equal(isAwaitingSupplier(pending, new Set(['q1']), now), false);
+    });
+
+    it('skips quotes that were already submitted or decided', () => {
+      ['Submitted', 'Accepted', 'Rejected'].forEach((status) => {
+        assert.equal(isAwaitingSupplier({ ...pending, status, cost: 500 }, new Set(), now), false);
+      });
+    });
+
+    it('skips requests past their response deadline unless it was extended', () => {
+      const expired = { ...pending, response_deadline: hoursAfterRequest(12).toISOString() };
+      assert.equal(isAwaitingSupplier(expired, new Set(), now), false);
+      assert.equal(
+        isAwaitingSupplier({ ...expired, deadline_extended_until: hoursAfterRequest(36).toISOString() }, new Set(), now),
+        true
+      );
+    });
+
+    it('keeps chasing revisions the producer requested after the deadline', () => {
+      const expired = { ...pending, cost: 500, response_deadline: hoursAfterRequest(12).toISOString() };
+      assert.equal(isAwaitingSupplier(expired, new Set(), now), false);
+      assert.equal(
+        isAwaitingSupplier({ ...expired, revision_requested_at: hoursAfterRequest(20).toISOString() }, new Set(), now),
+        true
+      );
+    });
+  });
+});
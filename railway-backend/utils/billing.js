@@ -0,0 +1,37 @@
+/**
+ * Billing period helpers
+ * Subscriptions renew monthly on the day they started, clamped to the end of shorter months
+ */
+
+// A renewal that keeps failing is retried until this many days past the period end
+const PAST_DUE_GRACE_DAYS = 14;
+
+/**
+ * Same day and time next month (31 Jan -> 28/29 Feb), in UTC
+ * @param {Date} date - Period start
+ * @returns {Date} Period end
+ */
+const addBillingMonth = (date) => {
+  const next = new Date(date.getTime());
+  const day = next.getUTCDate();
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(day, daysInMonth));
+  return next;
+};
+
+/**
+ * Whether a past-due subscription has run out of retries
+ * @param {string|Date} periodEnd - End of the last paid period
+ * @param {Date} now - Current time
+ * @returns {boolean}
+ */
+const isPastGracePeriod = (periodEnd, now = new Date()) =>
+  now.getTime() - new Date(periodEnd).getTime() > PAST_DUE_GRACE_DAYS * 24 * 60 * 60 * 1000;
+
+module.exports = {
+  PAST_DUE_GRACE_DAYS,
+  addBillingMonth,
+  isPastGracePeriod
+};
@@ -0,0 +1,52 @@
+/**
+ * Client approval helpers
+ * Mirrors src/utils/clientApprovals.ts so the API and the UI gate acceptance the same way
+ */
+
+/**
+ * Reason a quote can't be accepted yet, or null when acceptance is allowed
+ * @param {Object|null} latestApproval - Latest non-withdrawn approval for the quote
+ * @param {boolean} requiresClientApproval - projects.requires_client_approval
+ * @returns {string|null} Error message
+ */
+const getQuoteApprovalBlocker = (latestApproval, requiresClientApproval) => {
+  switch (latestApproval?.status) {
+    case 'approved':
+      return null;
+    case 'pending':
+      return 'Client approval required: the client has not decided on this quote yet';
+    case 'rejected':
+      return 'Client approval required: the client rejected this quote';
+    default:
+      return requiresClientApproval
+        ? 'Client approval required: send this quote to the client before accepting it'
+        : null;
+  }
+};
+
+/**
+ * Latest non-withdrawn client approval for a quote
+ * @param {Object} supabase - Supabase client
+ * @param {string} quoteId - Quote UUID
+ * @returns {Promise<Object|null>} Approval row, or null when none was requested
+ */
+const getLatestQuoteApproval = async (supabase, quoteId) => {
+  const { data, error } = await supabase
+    .from('client_approvals')
+    .select('id, status, decided_by_name, decided_at')
+    .eq('quote_id', quoteId)
+    .neq('status', 'withdrawn')
+    .order('requested_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch client approval: ${error.message}`);
+  }
+
+  return data?.[0] || null;
+};
+
+module.exports = {
+  getQuoteApprovalBlocker,
+  getLatestQuoteApproval
+};
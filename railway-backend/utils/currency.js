@@ -0,0 +1,74 @@
+/**
+ * Currency helpers
+ * Mirrors src/utils/currency.ts so backend totals match the frontend
+ */
+
+const DEFAULT_CURRENCY = 'USD';
+const CURRENCY_CODE_REGEX = /^[A-Z]{3}$/;
+
+/**
+ * Check that a value is an ISO 4217-style three-letter code
+ * @param {string} currency
+ * @returns {boolean}
+ */
+const isValidCurrencyCode = (currency) =>
+  typeof currency === 'string' && CURRENCY_CODE_REGEX.test(currency);
+
+/**
+ * Find the multiplier that converts `from` into `to`
+ * Uses the direct rate when stored, otherwise the inverse of the reverse pair
+ * @param {string} from
+ * @param {string} to
+ * @param {Array<{from_currency: string, to_currency: string, rate: number}>} rates
+ * @returns {number|null} Multiplier, or null when no rate is available
+ */
+const getExchangeRate = (from, to, rates = []) => {
+  if (from === to) return 1;
+
+  const direct = rates.find(r => r.from_currency === from && r.to_currency === to);
+  if (direct && Number(direct.rate) > 0) return Number(direct.rate);
+
+  const inverse = rates.find(r => r.from_currency === to && r.to_currency === from);
+  if (inverse && Number(inverse.rate) > 0) return 1 / Number(inverse.rate);
+
+  return null;
+};
+
+/**
+ * Convert an amount between currencies
+ * @returns {number|null} Converted amount, or null when no rate is available
+ */
+const convertAmount = (amount, from, to, rates = []) => {
+  const rate = getExchangeRate(from, to, rates);
+  return rate === null ? null : Number(amount || 0) * rate;
+};
+
+/**
+ * Load a producer's exchange rates (service role, bypasses RLS)
+ * @param {Object} supabase - Supabase client
+ * @param {string} producerId
+ * @returns {Promise<Array>} Rates, or an empty array on error
+ */
+const getProducerExchangeRates = async (supabase, producerId) => {
+  if (!producerId) return [];
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('from_currency, to_currency, rate')
+    .eq('producer_id', producerId);
+
+  if (error) {
+    console.error('Error fetching exchange rates:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+module.exports = {
+  DEFAULT_CURRENCY,
+  isValidCurrencyCode,
+  getExchangeRate,
+  convertAmount,
+  getProducerExchangeRates
+};
@@ -0,0 +1,63 @@
+/**
+ * Follow-up reminder helpers
+ * Decide which reminder step, if any, is due for a pending quote
+ */
+
+const { isPastDeadline } = require('./quoteDeadlines');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Whether a quote request is still waiting on the supplier, so reminders may go out
+ * Requests the supplier answered (a chat reply or a submitted quote) or that are
+ * past their response deadline are skipped.
+ * @param {Object} quote - Quote with id, status, cost and deadline fields
+ * @param {Set<string>} repliedQuoteIds - Quotes with a supplier chat message
+ * @param {Date} now - Current time
+ * @returns {boolean}
+ */
+const isAwaitingSupplier = (quote, repliedQuoteIds, now) =>
+  quote.status === 'Pending' && !repliedQuoteIds.has(quote.id) && !isPastDeadline(quote, now);
+
+/**
+ * Work out the follow-up step to send for a quote
+ * When several steps became due since the last run (e.g. the scheduler was down),
+ * only the latest is sent and the earlier ones are returned as skipped.
+ * @param {Array} rules - Active rules for the quote's producer ({ id, delay_hours, message })
+ * @param {number[]} handledDelays - delay_hours already logged for this quote
+ * @param {string} requestedAt - When the quote request was sent (ISO string)
+ * @param {Date} now - Current time
+ * @returns {{ rule: Object, skipped: Object[] }|null} Step to send, or null when nothing is due
+ */
+const getDueFollowUp = (rules, handledDelays, requestedAt, now) => {
+  const elapsedHours = (now.getTime() - new Date(requestedAt).getTime()) / HOUR_MS;
+
+  const due = rules
+    .filter((rule) => rule.delay_hours <= elapsedHours && !handledDelays.includes(rule.delay_hours))
+    .sort((a, b) => a.delay_hours - b.delay_hours);
+
+  if (due.length === 0) return null;
+
+  return {
+    rule: due[due.length - 1],
+    skipped: due.slice(0, -1)
+  };
+};
+
+/**
+ * Earliest request time that could have a step due, for narrowing the quote query
+ * @param {Array} rules - Active rules across all producers
+ * @param {Date} now - Current time
+ * @returns {string|null} ISO timestamp, or null without rules
+ */
+const getFollowUpCutoff = (rules, now) => {
+  if (rules.length === 0) return null;
+  const shortestDelay = Math.min(...rules.map((rule) => rule.delay_hours));
+  return new Date(now.getTime() - shortestDelay * HOUR_MS).toISOString();
+};
+
+module.exports = {
+  isAwaitingSupplier,
+  getDueFollowUp,
+  getFollowUpCutoff
+};
@@ -0,0 +1,71 @@
+/**
+ * Quote line item helpers
+ * Mirrors src/utils/quoteLineItems.ts so the stored quote cost matches the portal preview
+ */
+
+const MAX_LINE_ITEMS = 200;
+
+/**
+ * Validate and normalise line items from a request body
+ * @param {Array} lineItems - Raw line items
+ * @returns {Array<Object>} Clean line items with position set
+ * @throws {Error} When the payload is not a valid list of line items
+ */
+const sanitizeLineItems = (lineItems) => {
+  if (!Array.isArray(lineItems)) {
+    throw new Error('Line items must be an array');
+  }
+
+  if (lineItems.length > MAX_LINE_ITEMS) {
+    throw new Error(`A quote cannot have more than ${MAX_LINE_ITEMS} line items`);
+  }
+
+  return lineItems.map((item, index) => {
+    const description = typeof item?.description === 'string' ? item.description.trim() : '';
+    const quantity = Number(item?.quantity);
+    const unitPrice = Number(item?.unit_price);
+    const taxRate = item?.tax_rate === undefined || item?.tax_rate === null ? 0 : Number(item.tax_rate);
+    const unit = typeof item?.unit === 'string' && item.unit.trim() ? item.unit.trim() : 'each';
+
+    if (!description) {
+      throw new Error(`Line ${index + 1}: description is required`);
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new Error(`Line ${index + 1}: quantity must be greater than 0`);
+    }
+    if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+      throw new Error(`Line ${index + 1}: unit price cannot be negative`);
+    }
+    if (!Number.isFinite(taxRate) || taxRate < 0 || taxRate > 100) {
+      throw new Error(`Line ${index + 1}: tax rate must be between 0 and 100`);
+    }
+
+    return {
+      position: index,
+      description,
+      quantity,
+      unit,
+      unit_price: unitPrice,
+      tax_rate: taxRate,
+      is_optional: Boolean(item?.is_optional)
+    };
+  });
+};
+
+/**
+ * Quote total from line items: required lines only, tax included
+ * @param {Array<Object>} lineItems - Sanitised line items
+ * @returns {number} Total rounded to cents
+ */
+const calculateLineItemsTotal = (lineItems) => {
+  const total = lineItems
+    .filter(item => !item.is_optional)
+    .reduce((sum, item) => sum + item.quantity * item.unit_price * (1 + item.tax_rate / 100), 0);
+
+  return Math.round(total * 100) / 100;
+};
+
+module.exports = {
+  sanitizeLineItems,
+  calculateLineItemsTotal
+};
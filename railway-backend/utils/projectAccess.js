@@ -0,0 +1,62 @@
+/**
+ * Project access helpers
+ * Mirrors src/utils/organisations.ts and can_access_project() so API routes,
+ * which use the service role and bypass RLS, apply the same ownership rules
+ */
+
+const EDIT_ROLES = ['owner', 'producer', 'coordinator'];
+const MANAGE_ROLES = ['owner', 'producer'];
+const ACCESS_LEVELS = ['none', 'view', 'edit', 'manage'];
+
+/**
+ * What a user can do with a project
+ * Its own producer has full access; organisation members get access by role
+ * once the project is shared with their organisation.
+ * @param {Object} project - Project with producer_id and organisation_id
+ * @param {string|null} userId - Authenticated user id
+ * @param {Object|null} membership - { organisation_id, role } of the user, or null
+ * @returns {'none'|'view'|'edit'|'manage'}
+ */
+const getProjectAccess = (project, userId, membership) => {
+  if (userId && project?.producer_id === userId) {
+    return 'manage';
+  }
+  if (!membership || !project?.organisation_id || project.organisation_id !== membership.organisation_id) {
+    return 'none';
+  }
+  if (MANAGE_ROLES.includes(membership.role)) {
+    return 'manage';
+  }
+  return EDIT_ROLES.includes(membership.role) ? 'edit' : 'view';
+};
+
+/**
+ * Whether a user has at least the given access to a project
+ * @param {Object} supabase - Supabase client
+ * @param {Object} project - Project with producer_id and organisation_id
+ * @param {string|null} userId - Authenticated user id
+ * @param {'view'|'edit'|'manage'} access - Required access
+ * @returns {Promise<boolean>}
+ */
+const canAccessProject = async (supabase, project, userId, access = 'view') => {
+  if (!project || !userId) return false;
+  if (project.producer_id === userId) return true;
+  if (!project.organisation_id) return false;
+
+  const { data: membership, error } = await supabase
+    .from('organisation_members')
+    .select('organisation_id, role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check project access: ${error.message}`);
+  }
+
+  return ACCESS_LEVELS.indexOf(getProjectAccess(project, userId, membership)) >= ACCESS_LEVELS.indexOf(access);
+};
+
+module.exports = {
+  getProjectAccess,
+  canAccessProject
+};
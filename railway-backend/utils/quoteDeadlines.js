@@ -0,0 +1,94 @@
+/**
+ * Quote response deadline helpers
+ * Decide whether a supplier can still respond and whether a quoting round can close
+ */
+
+/**
+ * Deadline that applies to a quote, taking a per-supplier extension into account
+ * @param {Object} quote - Quote with response_deadline and deadline_extended_until
+ * @returns {Date|null} Effective deadline, or null when the request has none
+ */
+const getEffectiveDeadline = (quote) => {
+  const value = quote?.deadline_extended_until || quote?.response_deadline;
+  return value ? new Date(value) : null;
+};
+
+/**
+ * Whether a supplier's first response is past its deadline
+ * A Pending quote reopened by a revision request (revision_requested_at set)
+ * was asked for explicitly by the producer, so it isn't held to the deadline.
+ * @param {Object} quote - Quote record
+ * @param {Date} now - Current time
+ * @returns {boolean}
+ */
+const isPastDeadline = (quote, now = new Date()) => {
+  const deadline = getEffectiveDeadline(quote);
+  if (!deadline) return false;
+  if (quote.status === 'Pending' && quote.revision_requested_at) return false;
+  return deadline.getTime() <= now.getTime();
+};
+
+/**
+ * Whether an asset's quoting round can be closed
+ * The round needs a deadline, and every request still Pending must be past it.
+ * Requests sent without a deadline keep the round open.
+ * @param {Array} quotes - All quotes for the asset
+ * @param {Date} now - Current time
+ * @returns {boolean}
+ */
+const isRoundClosable = (quotes, now = new Date()) => {
+  if (!quotes.some((quote) => quote.response_deadline)) return false;
+
+  return quotes
+    .filter((quote) => quote.status === 'Pending')
+    .every((quote) => {
+      const deadline = getEffectiveDeadline(quote);
+      return deadline !== null && deadline.getTime() <= now.getTime();
+    });
+};
+
+/**
+ * Validate a response deadline sent by the client
+ * @param {*} value - Raw value from the request body
+ * @param {Date} now - Current time
+ * @returns {string|null} ISO timestamp, or null when no deadline was given
+ */
+const parseResponseDeadline = (value, now = new Date()) => {
+  if (value === undefined || value === null || value === '') return null;
+
+  const deadline = new Date(value);
+  if (typeof value !== 'string' || Number.isNaN(deadline.getTime())) {
+    throw new Error('Response deadline must be a valid date');
+  }
+  if (deadline.getTime() <= now.getTime()) {
+    throw new Error('Response deadline must be in the future');
+  }
+  return deadline.toISOString();
+};
+
+/**
+ * Human-readable deadline for emails and chat notes
+ * Suppliers may be in any timezone, so the time is always given in UTC.
+ * @param {Date|string} deadline - Deadline to format
+ * @returns {string} e.g. "Friday, 14 March 2025, 17:00 UTC"
+ */
+const formatDeadline = (deadline) => {
+  const formatted = new Date(deadline).toLocaleString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'UTC'
+  });
+  return `${formatted.replace(' at ', ', ')} UTC`;
+};
+
+module.exports = {
+  formatDeadline,
+  getEffectiveDeadline,
+  isPastDeadline,
+  isRoundClosable,
+  parseResponseDeadline
+};
@@ -0,0 +1,46 @@
+/**
+ * Background job scheduling
+ * Runs a job on an interval read from the environment, never overlapping runs
+ */
+
+/**
+ * Start a recurring job
+ * The job runs once immediately and then every `envVar` minutes; 0 disables it.
+ * @param {Object} options
+ * @param {string} options.name - Label used in logs
+ * @param {string} options.envVar - Environment variable holding the interval in minutes
+ * @param {number} options.defaultMinutes - Interval when the variable is unset
+ * @param {Function} options.run - Async job; its resolved value is passed to onResult
+ * @param {Function} [options.onResult] - Called with each run's result (e.g. to log a summary)
+ * @returns {NodeJS.Timeout|null} Interval timer, or null when disabled
+ */
+const startRecurringJob = ({ name, envVar, defaultMinutes, run, onResult }) => {
+  const minutes = Number(process.env[envVar] ?? defaultMinutes);
+  if (!(minutes > 0)) {
+    console.log(`[${name}] Disabled`);
+    return null;
+  }
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await run();
+      onResult?.(result);
+    } catch (error) {
+      console.error(`[${name}] Run failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, minutes * 60 * 1000);
+  timer.unref();
+  tick();
+  return timer;
+};
+
+module.exports = {
+  startRecurringJob
+};
@@ -0,0 +1,36 @@
+/**
+ * Sealed bid helpers
+ * Submitted costs stay hidden until the bid-opening time passes or the producer unseals
+ */
+
+/**
+ * Whether an asset's bids are still sealed
+ * @param {Object} asset - Asset with sealed_bids, bids_open_at and bids_unsealed_at
+ * @param {Date} now - Current time
+ * @returns {boolean}
+ */
+const isBidSealed = (asset, now = new Date()) => {
+  if (!asset?.sealed_bids || asset.bids_unsealed_at) return false;
+  if (!asset.bids_open_at) return true;
+  return new Date(asset.bids_open_at).getTime() > now.getTime();
+};
+
+/**
+ * Quote with everything that reveals the offer removed
+ * Keeps who responded and when, so the producer can see how many bids are in.
+ * @param {Object} quote - Quote record
+ * @returns {Object} Quote without cost, line items, notes or document
+ */
+const redactSealedQuote = (quote) => ({
+  ...quote,
+  cost: null,
+  converted_cost: null,
+  line_items: [],
+  notes_capacity: '',
+  quote_document_url: null
+});
+
+module.exports = {
+  isBidSealed,
+  redactSealedQuote
+};
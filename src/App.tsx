@@ -1,9 +1,12 @@
 import { Suspense, lazy } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { AppearanceProvider } from '@/contexts/AppearanceContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { NotificationProvider } from '@/contexts/NotificationContext';
 import { SupplierImpersonationProvider } from '@/contexts/SupplierImpersonationContext';
+import { AssetTagTaxonomyProvider } from '@/contexts/AssetTagTaxonomyContext';
+import { InboxProvider } from '@/contexts/InboxContext';
 import LoadingFallback from '@/components/LoadingFallback';
 
 // Lazy-loaded routes and layouts to reduce initial bundle size
@@ -21,6 +24,7 @@ const ActiveProjectsGrid = lazy(() => import('@/components/producer/ActiveProjec
 const AllProjectsPage = lazy(() => import('@/components/producer/AllProjectsPage'));
 const ProjectDetailPage = lazy(() => import('@/components/producer/ProjectDetailPage'));
 const SupplierManagement = lazy(() => import('@/components/producer/SupplierManagement'));
+const ProducerInbox = lazy(() => import('@/components/producer/ProducerInbox'));
 const ProducerSettings = lazy(() => import('@/pages/dashboard/ProducerSettings'));
 const AdminDashboard = lazy(() => import('@/components/admin/AdminDashboard'));
 const QuoteSubmission = lazy(() => import('@/components/supplier/QuoteSubmission'));
@@ -35,6 +39,7 @@ const QuotePortal = lazy(() => import('@/pages/portal/QuotePortal'));
 // Producer chat route
 const ProducerQuoteChat = lazy(() => import('@/pages/dashboard/ProducerQuoteChat'));
 const OnboardingPage = lazy(() => import('@/pages/onboarding/OnboardingPage'));
+const AcceptInvitationPage = lazy(() => import('@/pages/invitations/AcceptInvitationPage'));
 
 interface RequireAuthProps {
   children: JSX.Element;
@@ -57,6 +62,9 @@ const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
 function App() {
   return (
     <AuthProvider>
+      <AppearanceProvider>
+      <AssetTagTaxonomyProvider>
+      <InboxProvider>
       <NotificationProvider>
         <Router>
           <Suspense fallback={<LoadingFallback />}>
@@ -102,6 +110,7 @@ function App() {
             <Route path="projects" element={<AllProjectsPage />} />
             <Route path="projects/:projectId" element={<ProjectDetailPage />} />
             <Route path="suppliers" element={<SupplierManagement />} />
+            <Route path="inbox" element={<ProducerInbox />} />
             <Route path="settings" element={<ProducerSettings />} />
           </Route>
 
@@ -117,6 +126,11 @@ function App() {
             <Route index element={<OnboardingPage />} />
           </Route>
           
+          {/* Organisation invitation links */}
+          <Route path="/invite/:token" element={<Layout />}>
+            <Route index element={<AcceptInvitationPage />} />
+          </Route>
+
           {/* Dashboard routes (shared between producer and other roles) */}
           <Route path="/dashboard" element={<Layout />}>
             <Route path="quotes/:quoteId/chat" element={<ProducerQuoteChat />} />
@@ -142,6 +156,9 @@ function App() {
           </Suspense>
         </Router>
       </NotificationProvider>
+      </InboxProvider>
+      </AssetTagTaxonomyProvider>
+      </AppearanceProvider>
     </AuthProvider>
   );
 }
@@ -63,7 +63,7 @@ const Home: React.FC = () => {
                   <>
                     <Link
                       to="/producer/dashboard"
-                      className="px-6 py-3 sm:px-8 sm:py-4 bg-teal-600/90 backdrop-blur-sm text-white rounded-lg font-medium hover:bg-teal-600 transition-colors text-base sm:text-lg shadow-lg hover:shadow-xl border border-teal-500/20"
+                      className="px-6 py-3 sm:px-8 sm:py-4 bg-teal-600/90 backdrop-blur-sm text-on-accent rounded-lg font-medium hover:bg-teal-600 transition-colors text-base sm:text-lg shadow-lg hover:shadow-xl border border-teal-500/20"
                     >
                       Dashboard
                       <ArrowRight className="h-4 w-4 sm:h-5 sm:w-5 inline ml-2" />
@@ -86,7 +86,7 @@ const Home: React.FC = () => {
                     </Link>
                     <Link
                       to="/signup"
-                      className="px-6 py-3 sm:px-8 sm:py-4 bg-teal-600/90 backdrop-blur-sm text-white rounded-lg font-medium hover:bg-teal-600 transition-colors text-base sm:text-lg shadow-lg hover:shadow-xl border border-teal-500/20"
+                      className="px-6 py-3 sm:px-8 sm:py-4 bg-teal-600/90 backdrop-blur-sm text-on-accent rounded-lg font-medium hover:bg-teal-600 transition-colors text-base sm:text-lg shadow-lg hover:shadow-xl border border-teal-500/20"
                     >
                       Sign Up
                       <ArrowRight className="h-4 w-4 sm:h-5 sm:w-5 inline ml-2" />
@@ -160,7 +160,7 @@ const Home: React.FC = () => {
             <div className="flex justify-center mb-8 sm:mb-16">
               {/* Producer Portal */}
               <div className="w-full max-w-2xl bg-white/95 backdrop-blur-sm rounded-lg shadow-xl overflow-hidden transform transition-all hover:shadow-2xl">
-                <div className="bg-teal-600 text-white p-6 sm:p-8">
+                <div className="bg-teal-600 text-on-accent p-6 sm:p-8">
                   <Package className="h-12 w-12 sm:h-16 sm:w-16 mb-4 sm:mb-5" />
                   <h3 className="text-2xl sm:text-3xl font-bold">Producer Portal</h3>
                   <p className="opacity-90 mt-2 text-base sm:text-lg">Manage projects and suppliers</p>
@@ -186,7 +186,7 @@ const Home: React.FC = () => {
                   </ul>
                   <Link
                     to="/producer/dashboard"
-                    className="w-full bg-teal-600 text-white py-3 px-6 rounded-lg hover:bg-teal-700 transition-colors text-center block font-medium text-base sm:text-lg shadow-md hover:shadow-lg"
+                    className="w-full bg-teal-600 text-on-accent py-3 px-6 rounded-lg hover:bg-teal-700 transition-colors text-center block font-medium text-base sm:text-lg shadow-md hover:shadow-lg"
                   >
                     Access Producer Dashboard
                   </Link>
@@ -262,7 +262,7 @@ const Home: React.FC = () => {
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
                 <Link
                   to="/login"
-                  className="px-6 py-3 sm:px-8 sm:py-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors text-base sm:text-lg shadow-lg hover:shadow-xl"
+                  className="px-6 py-3 sm:px-8 sm:py-4 bg-blue-600 text-on-accent rounded-lg font-medium hover:bg-blue-700 transition-colors text-base sm:text-lg shadow-lg hover:shadow-xl"
                 >
                   Get Started
                   <ArrowRight className="h-4 w-4 sm:h-5 sm:w-5 inline ml-2" />
@@ -1,7 +1,12 @@
-import React from 'react';
+import React, { useState, useCallback } from 'react';
 import { Outlet, NavLink, useLocation, Link, useNavigate } from 'react-router-dom';
-import { Users, Package, FileText, BarChart3, Settings } from 'lucide-react';
+import { Users, Package, FileText, BarChart3, Settings, Search, Inbox } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useInbox } from '@/contexts/InboxContext';
+import { useAppearance } from '@/contexts/AppearanceContext';
+import { useCommandPaletteShortcut } from '@/hooks/useCommandPaletteShortcut';
+import CommandPalette from './producer/CommandPalette';
+import { NotificationBell } from './notifications/NotificationBell';
 import Footer from './Footer';
 import DarkVeil from './DarkVeil';
 
@@ -9,6 +14,8 @@ const Layout: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
+  const { unreadCount } = useInbox();
+  const { appearance } = useAppearance();
   const currentPath = location.pathname;
 
   // Determine if this is the landing page
@@ -30,11 +37,19 @@ const Layout: React.FC = () => {
   };
 
   const isClientPath = currentPath.startsWith('/client');
-  const isProducerPath = currentPath.startsWith('/producer');
+  // Quote chats live under /dashboard but belong to the producer portal
+  const isProducerPath = currentPath.startsWith('/producer') || currentPath.startsWith('/dashboard/');
   const isAdminPath = currentPath.startsWith('/admin');
   const isSupplierPath = currentPath.startsWith('/supplier') || currentPath.startsWith('/quote');
   const isReleaseNotesPath = currentPath.startsWith('/releases');
 
+  // Inbox, notification bell and command palette (Cmd/Ctrl+K) are for signed-in producers
+  const isProducerSession = !!user && (isProducerPath || isReleaseNotesPath);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const toggleCommandPalette = useCallback(() => setIsCommandPaletteOpen(prev => !prev), []);
+  const closeCommandPalette = useCallback(() => setIsCommandPaletteOpen(false), []);
+  useCommandPaletteShortcut(toggleCommandPalette, !isProducerSession);
+
   const getNavLinks = () => {
     if (isClientPath) {
       return [
@@ -80,16 +95,20 @@ const Layout: React.FC = () => {
 
   return (
     <div className="relative min-h-screen flex flex-col">
-      {/* Dark Veil Background */}
+      {/* Background: Dark Veil, or a plain light backdrop for the light theme */}
       <div className="fixed inset-0 w-full h-full z-0">
-        <DarkVeil
-          speed={animationSpeed}
-          hueShift={0}
-          noiseIntensity={0}
-          scanlineFrequency={1.8}
-          scanlineIntensity={0.16}
-          warpAmount={5}
-        />
+        {appearance.theme === 'dark' ? (
+          <DarkVeil
+            speed={animationSpeed}
+            hueShift={0}
+            noiseIntensity={0}
+            scanlineFrequency={1.8}
+            scanlineIntensity={0.16}
+            warpAmount={5}
+          />
+        ) : (
+          <div className="w-full h-full bg-gradient-to-br from-slate-100 via-slate-50 to-teal-50" />
+        )}
       </div>
 
       {/* Content Layer */}
@@ -139,6 +158,35 @@ const Layout: React.FC = () => {
                 <>
                   {user ? (
                     <div className="flex items-center space-x-3">
+                      {isProducerSession && (
+                        <button
+                          type="button"
+                          onClick={() => setIsCommandPaletteOpen(true)}
+                          className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-white/90 hover:text-white transition-colors rounded-lg hover:bg-white/10"
+                          title="Search (Ctrl+K)"
+                        >
+                          <Search className="h-4 w-4" />
+                          <span className="hidden lg:inline text-xs text-white/60 border border-white/20 rounded px-1.5 py-0.5">
+                            {navigator.platform.toUpperCase().includes('MAC') ? '⌘K' : 'Ctrl K'}
+                          </span>
+                        </button>
+                      )}
+                      {isProducerSession && (
+                        <Link
+                          to="/producer/inbox"
+                          className="relative flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-white/90 hover:text-white transition-colors rounded-lg hover:bg-white/10"
+                          title={unreadCount > 0 ? `Inbox (${unreadCount} unread)` : 'Inbox'}
+                        >
+                          <Inbox className="h-4 w-4" />
+                          <span className="hidden sm:inline">Inbox</span>
+                          {unreadCount > 0 && (
+                            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 flex items-center justify-center text-[11px] font-semibold text-on-accent bg-teal-600 rounded-full">
+                              {unreadCount > 99 ? '99+' : unreadCount}
+                            </span>
+                          )}
+                        </Link>
+                      )}
+                      {isProducerSession && <NotificationBell />}
                       <Link
                         to="/producer/settings"
                         className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-white/90 hover:text-white transition-colors rounded-lg hover:bg-white/10"
@@ -149,7 +197,7 @@ const Layout: React.FC = () => {
                       </Link>
                       <button
                         onClick={handleLogout}
-                        className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 transition-colors rounded-lg shadow-md hover:shadow-lg"
+                        className="px-4 py-2 text-sm font-medium text-on-accent bg-red-600 hover:bg-red-700 transition-colors rounded-lg shadow-md hover:shadow-lg"
                       >
                         Logout
                       </button>
@@ -164,7 +212,7 @@ const Layout: React.FC = () => {
                       </Link>
                       <Link
                         to="/signup"
-                        className="px-4 py-2 text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 transition-colors rounded-lg shadow-md hover:shadow-lg"
+                        className="px-4 py-2 text-sm font-medium text-on-accent bg-teal-600 hover:bg-teal-700 transition-colors rounded-lg shadow-md hover:shadow-lg"
                       >
                         Sign Up
                       </Link>
@@ -189,6 +237,10 @@ const Layout: React.FC = () => {
 
       <Footer />
       </div>
+
+      {isProducerSession && (
+        <CommandPalette isOpen={isCommandPaletteOpen} onClose={closeCommandPalette} />
+      )}
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { 
   Package, 
   ArrowRight,
@@ -10,8 +10,14 @@ import {
 import { supabase } from '@/lib/supabase';
 import Footer from './Footer';
 
+// Only follow in-app paths, never another origin
+const getSafeRedirect = (value: string | null): string | null =>
+  value && value.startsWith('/') && !value.startsWith('//') ? value : null;
+
 const LoginPage: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const redirectTo = getSafeRedirect(searchParams.get('redirect'));
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -40,6 +46,12 @@ const LoginPage: React.FC = () => {
         return;
       }
 
+      // Links that sent the user here to sign in (e.g. an invitation) take priority
+      if (data.user && redirectTo) {
+        navigate(redirectTo);
+        return;
+      }
+
       // Success - redirect new users to onboarding
       if (data.user) {
         try {
@@ -99,7 +111,7 @@ const LoginPage: React.FC = () => {
 
       <div className="max-w-md mx-auto px-4 py-16">
         {/* Login Form */}
-        <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="bg-paper rounded-lg shadow-lg p-8">
           <div className="text-center mb-8">
             <h2 className="text-2xl font-bold text-gray-900 mb-2">
               Welcome Back
@@ -173,7 +185,7 @@ const LoginPage: React.FC = () => {
               <button
                 type="submit"
                 disabled={isLoading}
-                className="w-full bg-teal-600 text-white py-3 px-4 rounded-lg hover:bg-teal-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                className="w-full bg-teal-600 text-on-accent py-3 px-4 rounded-lg hover:bg-teal-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
               >
                 {isLoading ? (
                   <>
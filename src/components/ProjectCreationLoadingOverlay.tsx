@@ -68,7 +68,7 @@ const ProjectCreationLoadingOverlay: React.FC<ProjectCreationLoadingOverlayProps
 
   return (
     <div 
-      className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-60 backdrop-blur-sm"
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-ink bg-opacity-60 backdrop-blur-sm"
       aria-label="Creating project, please wait"
       role="dialog"
       aria-modal="true"
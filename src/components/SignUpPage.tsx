@@ -121,7 +121,7 @@ const SignUpPage: React.FC = () => {
 
       <div className="max-w-md mx-auto px-4 py-16">
         {/* Sign Up Form */}
-        <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="bg-paper rounded-lg shadow-lg p-8">
           <div className="text-center mb-8">
             <h2 className="text-2xl font-bold text-gray-900 mb-2">
               Create an Account
@@ -153,7 +153,7 @@ const SignUpPage: React.FC = () => {
               </p>
               <Link
                 to="/login"
-                className="block w-full bg-teal-600 text-white py-3 px-4 rounded-lg hover:bg-teal-700 transition-colors text-center font-medium"
+                className="block w-full bg-teal-600 text-on-accent py-3 px-4 rounded-lg hover:bg-teal-700 transition-colors text-center font-medium"
               >
                 Go to Login
               </Link>
@@ -259,7 +259,7 @@ const SignUpPage: React.FC = () => {
                 <button
                   type="submit"
                   disabled={isLoading}
-                  className="w-full bg-teal-600 text-white py-3 px-4 rounded-lg hover:bg-teal-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                  className="w-full bg-teal-600 text-on-accent py-3 px-4 rounded-lg hover:bg-teal-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                 >
                   {isLoading ? (
                     <>
@@ -40,7 +40,7 @@ const SupplierApiTest: React.FC = () => {
   };
 
   return (
-    <div className="p-6 bg-white rounded-lg shadow">
+    <div className="p-6 bg-paper rounded-lg shadow">
       <h3 className="text-lg font-semibold mb-4">Supplier API Test</h3>
       
       <div className="space-y-4">
@@ -61,14 +61,14 @@ const SupplierApiTest: React.FC = () => {
           <button
             onClick={testHealthCheck}
             disabled={loading}
-            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            className="px-4 py-2 bg-blue-600 text-on-accent rounded hover:bg-blue-700 disabled:opacity-50"
           >
             Test Health Check
           </button>
           <button
             onClick={testGetSuggestions}
             disabled={loading}
-            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+            className="px-4 py-2 bg-green-600 text-on-accent rounded hover:bg-green-700 disabled:opacity-50"
           >
             Test Get Suggestions
           </button>
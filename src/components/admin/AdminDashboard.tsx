@@ -90,7 +90,7 @@ const AdminDashboard: React.FC = () => {
 
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <div className="bg-white rounded-lg shadow p-6">
+        <div className="bg-paper rounded-lg shadow p-6">
           <div className="flex items-center">
             <Package className="h-8 w-8 text-blue-600" />
             <div className="ml-4">
@@ -100,7 +100,7 @@ const AdminDashboard: React.FC = () => {
           </div>
         </div>
 
-        <div className="bg-white rounded-lg shadow p-6">
+        <div className="bg-paper rounded-lg shadow p-6">
           <div className="flex items-center">
             <Users className="h-8 w-8 text-teal-600" />
             <div className="ml-4">
@@ -110,7 +110,7 @@ const AdminDashboard: React.FC = () => {
           </div>
         </div>
 
-        <div className="bg-white rounded-lg shadow p-6">
+        <div className="bg-paper rounded-lg shadow p-6">
           <div className="flex items-center">
             <BarChart3 className="h-8 w-8 text-purple-600" />
             <div className="ml-4">
@@ -120,7 +120,7 @@ const AdminDashboard: React.FC = () => {
           </div>
         </div>
 
-        <div className="bg-white rounded-lg shadow p-6">
+        <div className="bg-paper rounded-lg shadow p-6">
           <div className="flex items-center">
             <DollarSign className="h-8 w-8 text-green-600" />
             <div className="ml-4">
@@ -133,7 +133,7 @@ const AdminDashboard: React.FC = () => {
 
       {/* Activity Overview */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <div className="bg-white rounded-lg shadow p-6">
+        <div className="bg-paper rounded-lg shadow p-6">
           <div className="flex items-center space-x-2 mb-4">
             <Activity className="h-6 w-6 text-gray-700" />
             <h2 className="text-xl font-semibold">Project Status Overview</h2>
@@ -152,7 +152,7 @@ const AdminDashboard: React.FC = () => {
           </div>
         </div>
 
-        <div className="bg-white rounded-lg shadow p-6">
+        <div className="bg-paper rounded-lg shadow p-6">
           <div className="flex items-center space-x-2 mb-4">
             <TrendingUp className="h-6 w-6 text-gray-700" />
             <h2 className="text-xl font-semibold">Quote Activity</h2>
@@ -173,7 +173,7 @@ const AdminDashboard: React.FC = () => {
       </div>
 
       {/* Recent Projects */}
-      <div className="bg-white rounded-lg shadow p-6">
+      <div className="bg-paper rounded-lg shadow p-6">
         <div className="flex items-center space-x-2 mb-4">
           <Database className="h-6 w-6 text-gray-700" />
           <h2 className="text-xl font-semibold">Recent Projects</h2>
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { CheckCircle, XCircle, Clock } from 'lucide-react';
+import type { ClientApproval } from '@/types/database';
+import { formatCurrency } from '@/utils';
+import { isBidSealed } from '@/utils/sealedBids';
+
+interface ClientApprovalsPanelProps {
+  approvals: ClientApproval[];
+  defaultName: string;
+  decideApproval: (
+    approvalId: string,
+    decision: 'approved' | 'rejected',
+    decidedByName: string,
+    comment: string
+  ) => Promise<boolean>;
+}
+
+/**
+ * ClientApprovalsPanel - Quotes and assets the producer sent for approval
+ *
+ * Pending items take a name and comment and can be approved or rejected;
+ * decided items show who decided and when.
+ */
+const ClientApprovalsPanel: React.FC<ClientApprovalsPanelProps> = ({
+  approvals,
+  defaultName,
+  decideApproval
+}) => {
+  const [name, setName] = useState(defaultName);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+
+  const visibleApprovals = approvals.filter(approval => approval.status !== 'withdrawn');
+  const pendingApprovals = visibleApprovals.filter(approval => approval.status === 'pending');
+  const decidedApprovals = visibleApprovals.filter(approval => approval.status !== 'pending');
+
+  const handleDecision = async (approvalId: string, decision: 'approved' | 'rejected') => {
+    setSubmittingId(approvalId);
+    const saved = await decideApproval(approvalId, decision, name, comments[approvalId] ?? '');
+    if (saved) {
+      setComments(prev => {
+        const next = { ...prev };
+        delete next[approvalId];
+        return next;
+      });
+    }
+    setSubmittingId(null);
+  };
+
+  const renderTitle = (approval: ClientApproval) => (
+    <>
+      <h3 className="font-medium text-gray-900">
+        {approval.asset?.asset_name ?? 'Asset'}
+        <span className="ml-2 text-sm font-normal text-gray-500">
+          {approval.quote ? 'Quote approval' : 'Sign-off'}
+        </span>
+      </h3>
+      {approval.quote && (
+        <p className="text-sm text-gray-600">
+          {approval.quote.supplier?.supplier_name ?? 'Supplier'} ·{' '}
+          <span className="font-semibold text-gray-900">
+            {isBidSealed(approval.asset) ? 'Sealed' : formatCurrency(approval.quote.cost, approval.quote.currency)}
+          </span>
+        </p>
+      )}
+    </>
+  );
+
+  if (visibleApprovals.length === 0) return null;
+
+  return (
+    <div className="bg-paper rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold mb-4">Approvals</h2>
+
+      {pendingApprovals.length > 0 && (
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Your name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="space-y-4 mt-4">
+            {pendingApprovals.map((approval) => (
+              <div key={approval.id} className="border border-yellow-200 bg-yellow-50 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>{renderTitle(approval)}</div>
+                  <Clock className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+                </div>
+                {approval.request_message && (
+                  <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">{approval.request_message}</p>
+                )}
+                <textarea
+                  value={comments[approval.id] ?? ''}
+                  onChange={(e) => setComments(prev => ({ ...prev, [approval.id]: e.target.value }))}
+                  placeholder="Comment (required when rejecting)"
+                  rows={2}
+                  disabled={submittingId === approval.id}
+                  className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <div className="flex justify-end gap-2 mt-2">
+                  <button
+                    type="button"
+                    onClick={() => handleDecision(approval.id, 'rejected')}
+                    disabled={submittingId === approval.id}
+                    className="px-4 py-2 text-sm font-medium text-red-700 bg-red-100 rounded-lg hover:bg-red-200 disabled:opacity-60 transition-colors"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDecision(approval.id, 'approved')}
+                    disabled={submittingId === approval.id}
+                    className="px-4 py-2 text-sm font-medium text-on-accent bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-60 transition-colors"
+                  >
+                    Approve
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {decidedApprovals.length > 0 && (
+        <div className="space-y-3">
+          {decidedApprovals.map((approval) => (
+            <div key={approval.id} className="border rounded-lg p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div>{renderTitle(approval)}</div>
+                {approval.status === 'approved' ? (
+                  <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0" />
+                ) : (
+                  <XCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {approval.status === 'approved' ? 'Approved' : 'Rejected'} by {approval.decided_by_name || 'client'}
+                {approval.decided_at && ` on ${new Date(approval.decided_at).toLocaleString()}`}
+              </p>
+              {approval.decision_comment && (
+                <p className="text-sm text-gray-700 italic mt-1">"{approval.decision_comment}"</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClientApprovalsPanel;
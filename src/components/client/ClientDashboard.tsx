@@ -1,6 +1,10 @@
 import React from 'react';
 import { BarChart3, Clock, DollarSign, Package, CheckCircle, AlertCircle, XCircle } from 'lucide-react';
 import type { Project, Asset, Quote } from '@/lib/supabase';
+import type { ClientApproval, ClientMessage } from '@/types/database';
+import { formatCurrency } from '@/utils';
+import ClientApprovalsPanel from './ClientApprovalsPanel';
+import ClientMessagesPanel from './ClientMessagesPanel';
 
 export interface ClientDashboardProps {
   // Data state
@@ -8,10 +12,13 @@ export interface ClientDashboardProps {
   selectedProject: Project | null;
   assets: Asset[];
   quotes: Quote[];
+  approvals: ClientApproval[];
+  messages: ClientMessage[];
   loading: boolean;
   
   // Calculated values
   totalCost: number;
+  currency: string;
   progressPercentage: number;
   
   // Utility functions
@@ -22,6 +29,13 @@ export interface ClientDashboardProps {
   // Actions
   selectProject: (project: Project) => Promise<void>;
   refreshProjects: () => Promise<void>;
+  decideApproval: (
+    approvalId: string,
+    decision: 'approved' | 'rejected',
+    decidedByName: string,
+    comment: string
+  ) => Promise<boolean>;
+  openMessageAttachment: (message: ClientMessage) => Promise<void>;
 }
 
 const ClientDashboard: React.FC<ClientDashboardProps> = ({
@@ -29,13 +43,18 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({
   selectedProject,
   assets,
   quotes,
+  approvals,
+  messages,
   loading,
   totalCost,
+  currency,
   progressPercentage,
   getStatusIconProps,
   getStatusColor,
   getAcceptedQuoteForAsset,
-  selectProject
+  selectProject,
+  decideApproval,
+  openMessageAttachment
 }) => {
 
   // Helper function to render status icons
@@ -57,7 +76,7 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({
       </div>
 
       {/* Project Selection */}
-      <div className="bg-white rounded-lg shadow p-6">
+      <div className="bg-paper rounded-lg shadow p-6">
         <h2 className="text-xl font-semibold mb-4">Your Projects</h2>
         <div className="space-y-3">
           {projects.map((project) => (
@@ -83,7 +102,7 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({
         <>
           {/* Project Overview */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-            <div className="bg-white rounded-lg shadow p-6">
+            <div className="bg-paper rounded-lg shadow p-6">
               <div className="flex items-center">
                 <BarChart3 className="h-8 w-8 text-blue-600" />
                 <div className="ml-4">
@@ -93,7 +112,7 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({
               </div>
             </div>
 
-            <div className="bg-white rounded-lg shadow p-6">
+            <div className="bg-paper rounded-lg shadow p-6">
               <div className="flex items-center">
                 <Package className="h-8 w-8 text-green-600" />
                 <div className="ml-4">
@@ -103,19 +122,19 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({
               </div>
             </div>
 
-            <div className="bg-white rounded-lg shadow p-6">
+            <div className="bg-paper rounded-lg shadow p-6">
               <div className="flex items-center">
                 <DollarSign className="h-8 w-8 text-purple-600" />
                 <div className="ml-4">
                   <h3 className="text-lg font-semibold">Total Cost</h3>
                   <p className="text-2xl font-bold text-purple-600">
-                    ${totalCost.toFixed(2)}
+                    {formatCurrency(totalCost, currency)}
                   </p>
                 </div>
               </div>
             </div>
 
-            <div className="bg-white rounded-lg shadow p-6">
+            <div className="bg-paper rounded-lg shadow p-6">
               <div className="flex items-center">
                 <Clock className="h-8 w-8 text-orange-600" />
                 <div className="ml-4">
@@ -132,7 +151,7 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({
           </div>
 
           {/* Project Brief */}
-          <div className="bg-white rounded-lg shadow p-6">
+          <div className="bg-paper rounded-lg shadow p-6">
             <h2 className="text-xl font-semibold mb-4">Project Brief</h2>
             <p className="text-gray-700 whitespace-pre-wrap">{selectedProject.brief_description}</p>
             {selectedProject.physical_parameters && (
@@ -143,8 +162,20 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({
             )}
           </div>
 
+          {/* Messages and estimates from the producer */}
+          <ClientMessagesPanel messages={messages} openAttachment={openMessageAttachment} />
+
+          {/* Approvals requested by the producer */}
+          {approvals.length > 0 && (
+            <ClientApprovalsPanel
+              approvals={approvals}
+              defaultName={selectedProject.client_name}
+              decideApproval={decideApproval}
+            />
+          )}
+
           {/* Asset Status */}
-          <div className="bg-white rounded-lg shadow p-6">
+          <div className="bg-paper rounded-lg shadow p-6">
             <h2 className="text-xl font-semibold mb-4">Asset Status</h2>
             <div className="space-y-4">
               {assets.map((asset) => (
@@ -175,7 +206,7 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({
                       <div className="text-sm mt-2">
                         <span className="font-medium text-gray-700">Cost:</span>
                         <span className="ml-2 text-green-600 font-semibold">
-                          ${acceptedQuote.cost.toFixed(2)}
+                          {formatCurrency(acceptedQuote.cost, acceptedQuote.currency)}
                         </span>
                       </div>
                     ) : null;
@@ -186,7 +217,7 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({
           </div>
 
           {/* Producer Notes Section */}
-          <div className="bg-white rounded-lg shadow p-6">
+          <div className="bg-paper rounded-lg shadow p-6">
             <h2 className="text-xl font-semibold mb-4">Producer Notes</h2>
             <div className="bg-gray-50 rounded-lg p-4">
               <p className="text-gray-700 italic">
@@ -2,6 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { getSupabase } from '@/lib/supabase';
 import { useNotification } from '@/hooks/useNotification';
+import { ExchangeRateService } from '@/services/exchangeRateService';
+import { ClientApprovalService } from '@/services/clientApprovalService';
+import { ClientMessageService } from '@/services/clientMessageService';
+import { calculateTotalCost, DEFAULT_CURRENCY } from '@/utils';
+import type { ExchangeRate, ClientApproval, ClientMessage } from '@/types/database';
 import ClientDashboard from './ClientDashboard';
 import type { Project, Asset, Quote } from '@/lib/supabase';
 
@@ -10,10 +15,13 @@ export interface ClientDashboardData {
   selectedProject: Project | null;
   assets: Asset[];
   quotes: Quote[];
+  approvals: ClientApproval[];
+  messages: ClientMessage[];
 }
 
 export interface ClientDashboardCalculations {
   totalCost: number;
+  currency: string;
   progressPercentage: number;
 }
 
@@ -26,6 +34,13 @@ export interface ClientDashboardUtils {
 export interface ClientDashboardActions {
   selectProject: (project: Project) => Promise<void>;
   refreshProjects: () => Promise<void>;
+  decideApproval: (
+    approvalId: string,
+    decision: 'approved' | 'rejected',
+    decidedByName: string,
+    comment: string
+  ) => Promise<boolean>;
+  openMessageAttachment: (message: ClientMessage) => Promise<void>;
 }
 
 export interface ClientDashboardProps extends 
@@ -39,13 +54,16 @@ export interface ClientDashboardProps extends
 
 const ClientDashboardContainer: React.FC = () => {
   const [searchParams] = useSearchParams();
-  const { showError } = useNotification();
+  const { showError, showSuccess } = useNotification();
   
   // State
   const [projects, setProjects] = useState<Project[]>([]);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [assets, setAssets] = useState<Asset[]>([]);
   const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [approvals, setApprovals] = useState<ClientApproval[]>([]);
+  const [messages, setMessages] = useState<ClientMessage[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -90,9 +108,18 @@ const ClientDashboardContainer: React.FC = () => {
     }
   };
 
-  const loadProjectDetails = async (projectId: string): Promise<void> => {
+  const loadProjectDetails = async (projectId: string, producerId?: string): Promise<void> => {
     try {
       setError(null);
+
+      // Exchange rates are optional: without them only same-currency quotes are totalled
+      ExchangeRateService.getRates(producerId)
+        .then(setExchangeRates)
+        .catch((rateError) => {
+          console.error('Error loading exchange rates:', rateError);
+          setExchangeRates([]);
+        });
+
       // Load assets with assigned suppliers
       const supabase = await getSupabase();
       const { data: assetsData, error: assetsError } = await supabase
@@ -106,6 +133,9 @@ const ClientDashboardContainer: React.FC = () => {
       if (assetsError) throw assetsError;
       setAssets(assetsData || []);
 
+      setApprovals(await ClientApprovalService.getApprovalsForProject(projectId));
+      setMessages(await ClientMessageService.getMessagesForProject(projectId));
+
       // Load quotes for all assets in this project
       if (assetsData && assetsData.length > 0) {
         const assetIds = assetsData.map(asset => asset.id);
@@ -134,7 +164,7 @@ const ClientDashboardContainer: React.FC = () => {
   // Project selection handler
   const selectProject = async (project: Project): Promise<void> => {
     setSelectedProject(project);
-    await loadProjectDetails(project.id);
+    await loadProjectDetails(project.id, project.producer_id);
   };
 
   // Refresh projects data
@@ -143,6 +173,37 @@ const ClientDashboardContainer: React.FC = () => {
     await loadProjects();
   };
 
+  // Record the client's decision, then reload approvals and quotes
+  const decideApproval = async (
+    approvalId: string,
+    decision: 'approved' | 'rejected',
+    decidedByName: string,
+    comment: string
+  ): Promise<boolean> => {
+    if (!selectedProject) return false;
+
+    try {
+      await ClientApprovalService.decide(approvalId, decision, decidedByName, comment);
+      showSuccess(decision === 'approved' ? 'Approval recorded' : 'Rejection recorded');
+      setApprovals(await ClientApprovalService.getApprovalsForProject(selectedProject.id));
+      return true;
+    } catch (error) {
+      console.error('Error recording client decision:', error);
+      showError(error instanceof Error ? error.message : 'Failed to record decision');
+      return false;
+    }
+  };
+
+  // Open a message attachment through a short-lived download link
+  const openMessageAttachment = async (message: ClientMessage): Promise<void> => {
+    try {
+      window.open(await ClientMessageService.getAttachmentUrl(message), '_blank', 'noopener');
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      showError(error instanceof Error ? error.message : 'Failed to open attachment');
+    }
+  };
+
   // Status utility functions
   const getStatusIconProps = (status: string): { icon: string; className: string } => {
     switch (status) {
@@ -153,6 +214,7 @@ const ClientDashboardContainer: React.FC = () => {
       case 'In Progress':
       case 'In Production':
       case 'Quoting':
+      case 'Reviewing':
         return { icon: 'Clock', className: 'h-5 w-5 text-yellow-500' };
       case 'Cancelled':
         return { icon: 'XCircle', className: 'h-5 w-5 text-red-500' };
@@ -170,6 +232,7 @@ const ClientDashboardContainer: React.FC = () => {
       case 'In Progress':
       case 'In Production':
       case 'Quoting':
+      case 'Reviewing':
         return 'bg-yellow-100 text-yellow-800';
       case 'Cancelled':
         return 'bg-red-100 text-red-800';
@@ -179,11 +242,7 @@ const ClientDashboardContainer: React.FC = () => {
   };
 
   // Business calculations
-  const calculateTotalCost = (): number => {
-    return quotes
-      .filter(quote => quote.status === 'Accepted')
-      .reduce((total, quote) => total + (quote.cost || 0), 0);
-  };
+  const baseCurrency = selectedProject?.base_currency || DEFAULT_CURRENCY;
 
   const getProgressPercentage = (): number => {
     if (assets.length === 0) return 0;
@@ -205,7 +264,7 @@ const ClientDashboardContainer: React.FC = () => {
           <p className="text-gray-600 mb-4">{error}</p>
           <button
             onClick={refreshProjects}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            className="px-4 py-2 bg-blue-600 text-on-accent rounded-lg hover:bg-blue-700 transition-colors"
           >
             Try Again
           </button>
@@ -230,14 +289,19 @@ const ClientDashboardContainer: React.FC = () => {
       selectedProject={selectedProject}
       assets={assets}
       quotes={quotes}
+      approvals={approvals}
+      messages={messages}
       loading={loading}
-      totalCost={calculateTotalCost()}
+      totalCost={calculateTotalCost(quotes, { baseCurrency, rates: exchangeRates })}
+      currency={baseCurrency}
       progressPercentage={getProgressPercentage()}
       getStatusIconProps={getStatusIconProps}
       getStatusColor={getStatusColor}
       getAcceptedQuoteForAsset={getAcceptedQuoteForAsset}
       selectProject={selectProject}
       refreshProjects={refreshProjects}
+      decideApproval={decideApproval}
+      openMessageAttachment={openMessageAttachment}
     />
   );
 };
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Mail, Paperclip, Loader2 } from 'lucide-react';
+import type { ClientMessage } from '@/types/database';
+
+interface ClientMessagesPanelProps {
+  messages: ClientMessage[];
+  openAttachment: (message: ClientMessage) => Promise<void>;
+}
+
+const formatFileSize = (bytes: number | null): string => {
+  if (!bytes) return '';
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * ClientMessagesPanel - Messages and documents (such as cost estimates) from the producer
+ */
+const ClientMessagesPanel: React.FC<ClientMessagesPanelProps> = ({ messages, openAttachment }) => {
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  const handleOpen = async (message: ClientMessage) => {
+    setOpeningId(message.id);
+    await openAttachment(message);
+    setOpeningId(null);
+  };
+
+  if (messages.length === 0) return null;
+
+  return (
+    <div className="bg-paper rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold mb-4">Messages</h2>
+      <div className="space-y-3">
+        {messages.map((message) => (
+          <div key={message.id} className="border rounded-lg p-4">
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <Mail className="h-4 w-4" />
+              {new Date(message.created_at).toLocaleString()}
+            </div>
+            {message.body && (
+              <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">{message.body}</p>
+            )}
+            {message.attachment_storage_path && (
+              <button
+                type="button"
+                onClick={() => handleOpen(message)}
+                disabled={openingId === message.id}
+                className="mt-3 inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 disabled:opacity-60 transition-colors"
+              >
+                {openingId === message.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Paperclip className="h-4 w-4" />
+                )}
+                {message.attachment_filename}
+                <span className="text-xs text-blue-500">{formatFileSize(message.attachment_size_bytes)}</span>
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ClientMessagesPanel;
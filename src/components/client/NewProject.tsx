@@ -89,7 +89,7 @@ const NewProject: React.FC = () => {
 
   return (
     <div className="max-w-4xl mx-auto">
-      <div className="bg-white rounded-lg shadow-lg p-8">
+      <div className="bg-paper rounded-lg shadow-lg p-8">
         <div className="flex items-center space-x-3 mb-8">
           <FileText className="h-8 w-8 text-blue-600" />
           <div>
@@ -260,7 +260,7 @@ const NewProject: React.FC = () => {
             <button
               type="submit"
               disabled={isSubmitting}
-              className="flex items-center space-x-2 px-8 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              className="flex items-center space-x-2 px-8 py-3 bg-blue-600 text-on-accent rounded-lg font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               <Send className="h-4 w-4" />
               <span>
@@ -219,7 +219,7 @@ const OwnershipTestPanel: React.FC = () => {
   };
 
   return (
-    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
+    <div className="bg-paper border border-gray-200 rounded-lg p-6 shadow-sm">
       <div className="flex items-center space-x-2 mb-4">
         <Shield className="h-5 w-5 text-blue-600" />
         <h3 className="text-lg font-semibold text-gray-900">Ownership Enforcement Tests</h3>
@@ -250,7 +250,7 @@ const OwnershipTestPanel: React.FC = () => {
           <button
             onClick={runAllTests}
             disabled={isRunningTests}
-            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            className="px-4 py-2 bg-blue-600 text-on-accent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isRunningTests ? 'Running Tests...' : 'Run All Tests'}
           </button>
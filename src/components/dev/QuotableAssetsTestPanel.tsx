@@ -232,7 +232,7 @@ const QuotableAssetsTestPanel: React.FC = () => {
   };
 
   return (
-    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
+    <div className="bg-paper border border-gray-200 rounded-lg p-6 shadow-sm">
       <div className="flex items-center space-x-2 mb-4">
         <Shield className="h-5 w-5 text-green-600" />
         <h3 className="text-lg font-semibold text-gray-900">Quotable Assets Test Panel</h3>
@@ -271,7 +271,7 @@ const QuotableAssetsTestPanel: React.FC = () => {
           <button
             onClick={runAllTests}
             disabled={isRunningTests}
-            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            className="px-4 py-2 bg-green-600 text-on-accent rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isRunningTests ? (
               <>
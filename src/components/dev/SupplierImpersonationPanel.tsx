@@ -75,7 +75,7 @@ const SupplierImpersonationPanel: React.FC = () => {
             <select
               onChange={(e) => handleSupplierSelect(e.target.value)}
               disabled={loading || availableSuppliers.length === 0}
-              className="flex-1 px-3 py-2 border border-yellow-300 rounded-lg bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              className="flex-1 px-3 py-2 border border-yellow-300 rounded-lg bg-paper text-gray-900 focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <option value="">
                 {loading ? 'Loading suppliers...' : availableSuppliers.length === 0 ? 'No suppliers available' : 'Select a supplier to impersonate'}
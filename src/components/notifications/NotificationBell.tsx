@@ -0,0 +1,154 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  Bell,
+  MessageSquare,
+  FileCheck,
+  Clock,
+  Flag,
+  ClipboardList,
+  CheckCheck,
+  Loader2
+} from 'lucide-react';
+import { useNotificationCenter } from '@/hooks/useNotificationCenter';
+import { useEscapeKey } from '@/hooks/useEscapeKey';
+import { formatNotificationAge } from '@/utils/notificationEvents';
+import type { NotificationEventType, ProducerNotification } from '@/types/database';
+
+const EVENT_ICONS: Record<NotificationEventType, React.ElementType> = {
+  supplier_message: MessageSquare,
+  quote_submitted: FileCheck,
+  quote_expiring: Clock,
+  milestone_due: Flag,
+  action_item_assigned: ClipboardList
+};
+
+/**
+ * NotificationBell - Header menu for the producer's stored notifications
+ *
+ * Features:
+ * - Unread badge, kept current in realtime
+ * - Opening a notification marks it read and follows its deep link
+ * - Mark all as read, and a link to choose in-app vs email per event
+ */
+export const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { notifications, unreadCount, loading, refresh, markRead, markAllRead } = useNotificationCenter();
+
+  useEscapeKey(isOpen, () => setIsOpen(false));
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleToggle = () => {
+    if (!isOpen) refresh();
+    setIsOpen(prev => !prev);
+  };
+
+  const handleOpenNotification = (notification: ProducerNotification) => {
+    markRead(notification.id);
+    setIsOpen(false);
+    if (notification.link_path) {
+      navigate(notification.link_path);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="relative flex items-center px-3 py-2 text-white/90 hover:text-white transition-colors rounded-lg hover:bg-white/10"
+        title={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-label="Notifications"
+        aria-expanded={isOpen}
+      >
+        <Bell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 flex items-center justify-center text-[11px] font-semibold text-on-accent bg-red-600 rounded-full">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-96 max-w-[calc(100vw-2rem)] bg-black/80 backdrop-blur-xl border border-white/20 rounded-lg shadow-xl z-50 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <h3 className="text-sm font-semibold text-white">Notifications</h3>
+            <button
+              type="button"
+              onClick={markAllRead}
+              disabled={unreadCount === 0}
+              className="flex items-center gap-1 text-xs text-teal-300 hover:text-teal-200 disabled:text-gray-500 disabled:cursor-not-allowed"
+            >
+              <CheckCheck className="h-3.5 w-3.5" />
+              Mark all as read
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {loading && notifications.length === 0 ? (
+              <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-300">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading notifications...
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="py-8 text-center text-sm text-gray-400">You're all caught up.</p>
+            ) : (
+              <ul className="divide-y divide-white/10">
+                {notifications.map(notification => {
+                  const Icon = EVENT_ICONS[notification.event_type] ?? Bell;
+                  const isUnread = !notification.read_at;
+                  return (
+                    <li key={notification.id}>
+                      <button
+                        type="button"
+                        onClick={() => handleOpenNotification(notification)}
+                        className={`w-full flex items-start gap-3 px-4 py-3 text-left transition-colors hover:bg-white/10 ${isUnread ? 'bg-white/5' : ''}`}
+                      >
+                        <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${isUnread ? 'text-teal-300' : 'text-gray-500'}`} />
+                        <div className="flex-1 min-w-0">
+                          <p className={`text-sm ${isUnread ? 'text-white font-medium' : 'text-gray-300'}`}>
+                            {notification.title}
+                          </p>
+                          {notification.body && (
+                            <p className="text-xs text-gray-400 truncate">{notification.body}</p>
+                          )}
+                        </div>
+                        <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                          <span className="text-[11px] text-gray-500">{formatNotificationAge(notification.created_at)}</span>
+                          {isUnread && <span className="h-2 w-2 rounded-full bg-teal-400" aria-label="Unread" />}
+                        </div>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div className="px-4 py-2 border-t border-white/10 text-right">
+            <Link
+              to="/producer/settings?tab=notifications"
+              onClick={() => setIsOpen(false)}
+              className="text-xs text-gray-300 hover:text-white"
+            >
+              Notification settings
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -51,13 +51,13 @@ const getNotificationStyles = (type: string) => {
 const getButtonStyles = (variant?: string) => {
   switch (variant) {
     case 'primary':
-      return 'bg-teal-600 text-white hover:bg-teal-700';
+      return 'bg-teal-600 text-on-accent hover:bg-teal-700';
     case 'danger':
-      return 'bg-red-600 text-white hover:bg-red-700';
+      return 'bg-red-600 text-on-accent hover:bg-red-700';
     case 'secondary':
       return 'bg-gray-200 text-gray-800 hover:bg-gray-300';
     default:
-      return 'bg-teal-600 text-white hover:bg-teal-700';
+      return 'bg-teal-600 text-on-accent hover:bg-teal-700';
   }
 };
 
@@ -68,7 +68,7 @@ export const NotificationItem: React.FC<NotificationItemProps> = ({ notification
   return (
     <div
       className={`
-        relative max-w-sm w-full bg-white shadow-lg rounded-lg border-l-4 border-t border-r border-b
+        relative max-w-sm w-full bg-paper shadow-lg rounded-lg border-l-4 border-t border-r border-b
         ${styles.container}
         transform transition-all duration-300 ease-in-out
         animate-in slide-in-from-right-full
@@ -1,2 +1,3 @@
 export { NotificationItem } from './NotificationItem';
 export { NotificationContainer } from './NotificationContainer';
+export { NotificationBell } from './NotificationBell';
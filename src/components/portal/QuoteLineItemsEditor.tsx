@@ -0,0 +1,189 @@
+import React from 'react';
+import { Plus, Trash2, ListOrdered } from 'lucide-react';
+import type { QuoteLineItemInput } from '@/types/database';
+import { formatCurrency } from '@/utils/currency';
+import { LINE_ITEM_UNITS, calculateLineItemTotals, getLineItemTotal } from '@/utils/quoteLineItems';
+
+interface QuoteLineItemsEditorProps {
+  items: QuoteLineItemInput[];
+  onChange: (items: QuoteLineItemInput[]) => void;
+  currency: string;
+  disabled?: boolean;
+}
+
+const EMPTY_LINE_ITEM: QuoteLineItemInput = {
+  description: '',
+  quantity: 1,
+  unit: 'each',
+  unit_price: 0,
+  tax_rate: 0,
+  is_optional: false
+};
+
+const inputClassName =
+  'w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:cursor-not-allowed';
+
+/**
+ * QuoteLineItemsEditor Component
+ * Editable list of quote lines (description, quantity, unit, unit price, tax, optional)
+ * with the totals derived from them
+ */
+const QuoteLineItemsEditor: React.FC<QuoteLineItemsEditorProps> = ({
+  items,
+  onChange,
+  currency,
+  disabled = false
+}) => {
+  const totals = calculateLineItemTotals(items);
+
+  const updateItem = (index: number, changes: Partial<QuoteLineItemInput>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  const addItem = () => {
+    onChange([...items, { ...EMPTY_LINE_ITEM }]);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-300">
+          <ListOrdered className="h-4 w-4 inline mr-1" />
+          Line Items
+        </label>
+        <button
+          type="button"
+          onClick={addItem}
+          disabled={disabled}
+          className="flex items-center gap-1 text-sm text-purple-300 hover:text-purple-200 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          <Plus className="h-4 w-4" />
+          Add line
+        </button>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-xs text-gray-400">
+          No line items. Add lines to itemise your quote, or enter a single price below.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={index} className="bg-white/5 border border-white/10 rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={item.description}
+                  onChange={(e) => updateItem(index, { description: e.target.value })}
+                  placeholder="Description (e.g. Wireless microphone)"
+                  disabled={disabled}
+                  className={inputClassName}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeItem(index)}
+                  disabled={disabled}
+                  className="p-1.5 text-red-400 hover:text-red-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+                  aria-label={`Remove line ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center">
+                <input
+                  type="number"
+                  value={item.quantity || ''}
+                  onChange={(e) => updateItem(index, { quantity: parseFloat(e.target.value) || 0 })}
+                  placeholder="Qty"
+                  min="0"
+                  step="any"
+                  disabled={disabled}
+                  aria-label="Quantity"
+                  className={inputClassName}
+                />
+                <select
+                  value={item.unit}
+                  onChange={(e) => updateItem(index, { unit: e.target.value })}
+                  disabled={disabled}
+                  aria-label="Unit"
+                  className={inputClassName}
+                >
+                  {LINE_ITEM_UNITS.map(unit => (
+                    <option key={unit} value={unit} className="bg-[#0A0A0A]">{unit}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  value={item.unit_price || ''}
+                  onChange={(e) => updateItem(index, { unit_price: parseFloat(e.target.value) || 0 })}
+                  placeholder="Unit price"
+                  min="0"
+                  step="0.01"
+                  disabled={disabled}
+                  aria-label="Unit price"
+                  className={inputClassName}
+                />
+                <div className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    value={item.tax_rate || ''}
+                    onChange={(e) => updateItem(index, { tax_rate: parseFloat(e.target.value) || 0 })}
+                    placeholder="Tax"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    disabled={disabled}
+                    aria-label="Tax rate"
+                    className={inputClassName}
+                  />
+                  <span className="text-sm text-gray-400">%</span>
+                </div>
+                <label className="flex items-center gap-2 text-xs text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={item.is_optional}
+                    onChange={(e) => updateItem(index, { is_optional: e.target.checked })}
+                    disabled={disabled}
+                    className="rounded border-white/20 bg-white/5 text-purple-500 focus:ring-purple-500"
+                  />
+                  Optional
+                </label>
+              </div>
+              <p className={`text-right text-xs ${item.is_optional ? 'text-gray-400 italic' : 'text-gray-300'}`}>
+                Line total: {formatCurrency(getLineItemTotal(item), currency)}
+                {item.is_optional && ' (not included in total)'}
+              </p>
+            </div>
+          ))}
+
+          <div className="bg-black/20 border border-white/10 rounded-lg p-3 text-sm space-y-1">
+            <div className="flex justify-between text-gray-300">
+              <span>Subtotal</span>
+              <span>{formatCurrency(totals.subtotal, currency)}</span>
+            </div>
+            <div className="flex justify-between text-gray-300">
+              <span>Tax</span>
+              <span>{formatCurrency(totals.tax, currency)}</span>
+            </div>
+            <div className="flex justify-between text-white font-semibold">
+              <span>Total</span>
+              <span>{formatCurrency(totals.total, currency)}</span>
+            </div>
+            {totals.optionalTotal > 0 && (
+              <div className="flex justify-between text-gray-400 text-xs">
+                <span>Optional extras</span>
+                <span>{formatCurrency(totals.optionalTotal, currency)}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuoteLineItemsEditor;
@@ -4,6 +4,10 @@ import { X, DollarSign, Upload, Package, CheckCircle } from 'lucide-react';
 import { PortalService, type PortalSession, type Quote } from '@/services/portalService';
 import { useNotification } from '@/hooks/useNotification';
 import { getSupabase } from '@/lib/supabase';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '@/utils/currency';
+import { calculateLineItemTotals, validateLineItem } from '@/utils/quoteLineItems';
+import type { QuoteLineItemInput } from '@/types/database';
+import QuoteLineItemsEditor from './QuoteLineItemsEditor';
 
 interface SupplierQuoteModalProps {
   isOpen: boolean;
@@ -17,6 +21,7 @@ interface SupplierQuoteModalProps {
  * SupplierQuoteModal Component
  * Modal for submitting quotes with price, notes, and file upload
  * Features:
+ * - Itemised line items with derived totals (or a single price)
  * - Price and currency selection
  * - Optional PDF file upload
  * - Optional notes field
@@ -34,8 +39,10 @@ const SupplierQuoteModal: React.FC<SupplierQuoteModalProps> = ({
 
   // Quote submission state
   const [quotePrice, setQuotePrice] = useState<number>(0);
-  const [quoteCurrency, setQuoteCurrency] = useState<string>('USD');
+  const defaultCurrency = session?.project?.base_currency || DEFAULT_CURRENCY;
+  const [quoteCurrency, setQuoteCurrency] = useState<string>(defaultCurrency);
   const [quoteNotes, setQuoteNotes] = useState<string>('');
+  const [lineItems, setLineItems] = useState<QuoteLineItemInput[]>([]);
   const [submittingQuote, setSubmittingQuote] = useState<boolean>(false);
   const [quoteSubmitted, setQuoteSubmitted] = useState<boolean>(false);
   
@@ -43,6 +50,12 @@ const SupplierQuoteModal: React.FC<SupplierQuoteModalProps> = ({
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploadingFile, setUploadingFile] = useState<boolean>(false);
 
+  // With line items the price is derived from them and can't be typed in
+  const hasLineItems = lineItems.length > 0;
+  const effectivePrice = hasLineItems
+    ? Math.round(calculateLineItemTotals(lineItems).total * 100) / 100
+    : quotePrice;
+
   // Handle file selection
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -104,8 +117,18 @@ const SupplierQuoteModal: React.FC<SupplierQuoteModalProps> = ({
     if (!token || !session) return;
 
     // Validate inputs
-    if (quotePrice <= 0) {
-      showError('Please enter a valid price greater than 0');
+    for (let index = 0; index < lineItems.length; index++) {
+      const lineError = validateLineItem(lineItems[index]);
+      if (lineError) {
+        showError(`Line ${index + 1}: ${lineError}`);
+        return;
+      }
+    }
+
+    if (effectivePrice <= 0) {
+      showError(hasLineItems
+        ? 'Line items must add up to a total greater than 0'
+        : 'Please enter a valid price greater than 0');
       return;
     }
 
@@ -133,9 +156,11 @@ const SupplierQuoteModal: React.FC<SupplierQuoteModalProps> = ({
       // Submit quote with file URL
       const response = await PortalService.submitQuote(
         token,
-        quotePrice,
+        effectivePrice,
         quoteNotes,
-        fileUrl
+        fileUrl,
+        quoteCurrency,
+        lineItems
       );
 
       if (!response.success || !response.data) {
@@ -156,19 +181,42 @@ const SupplierQuoteModal: React.FC<SupplierQuoteModalProps> = ({
     } finally {
       setSubmittingQuote(false);
     }
-  }, [token, session, quotePrice, quoteNotes, selectedFile, uploadFile, showSuccess, showError, onQuoteSubmitted]);
+  }, [token, session, lineItems, hasLineItems, effectivePrice, quoteCurrency, quoteNotes, selectedFile, uploadFile, showSuccess, showError, onQuoteSubmitted]);
 
   // Reset form when modal closes
   const handleClose = useCallback(() => {
     if (!quoteSubmitted) {
       // Only reset if not submitted (preserve success state)
       setQuotePrice(0);
-      setQuoteCurrency('USD');
+      setQuoteCurrency(defaultCurrency);
       setQuoteNotes('');
+      setLineItems([]);
       setSelectedFile(null);
     }
     onClose();
-  }, [onClose, quoteSubmitted]);
+  }, [onClose, quoteSubmitted, defaultCurrency]);
+
+  // Default to the project's base currency once the session is known
+  React.useEffect(() => {
+    if (isOpen && !quoteSubmitted) {
+      setQuoteCurrency(defaultCurrency);
+    }
+  }, [isOpen, quoteSubmitted, defaultCurrency]);
+
+  // A revision starts from the lines of the previous submission
+  const previousLineItems = session?.quote?.line_items;
+  React.useEffect(() => {
+    if (isOpen && !quoteSubmitted && previousLineItems && previousLineItems.length > 0) {
+      setLineItems(previousLineItems.map(({ description, quantity, unit, unit_price, tax_rate, is_optional }) => ({
+        description,
+        quantity: Number(quantity),
+        unit,
+        unit_price: Number(unit_price),
+        tax_rate: Number(tax_rate),
+        is_optional
+      })));
+    }
+  }, [isOpen, quoteSubmitted, previousLineItems]);
 
   // Reset form when modal opens after submission
   React.useEffect(() => {
@@ -176,13 +224,14 @@ const SupplierQuoteModal: React.FC<SupplierQuoteModalProps> = ({
       // Reset after modal closes post-submission
       setTimeout(() => {
         setQuotePrice(0);
-        setQuoteCurrency('USD');
+        setQuoteCurrency(defaultCurrency);
         setQuoteNotes('');
+        setLineItems([]);
         setSelectedFile(null);
         setQuoteSubmitted(false);
       }, 300);
     }
-  }, [isOpen, quoteSubmitted]);
+  }, [isOpen, quoteSubmitted, defaultCurrency]);
 
   if (!isOpen) return null;
 
@@ -199,15 +248,15 @@ const SupplierQuoteModal: React.FC<SupplierQuoteModalProps> = ({
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
-        <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 px-6 py-5 rounded-t-xl">
+        <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 text-on-accent px-6 py-5 rounded-t-xl">
           <div className="flex items-center justify-between">
-            <h2 className="text-xl font-bold text-white">Submit Your Quote</h2>
+            <h2 className="text-xl font-bold text-on-accent">Submit Your Quote</h2>
             <button
               onClick={handleClose}
               className="p-1.5 hover:bg-white/20 rounded-lg transition-colors"
               aria-label="Close modal"
             >
-              <X className="h-5 w-5 text-white" />
+              <X className="h-5 w-5 text-on-accent" />
             </button>
           </div>
         </div>
@@ -228,8 +277,13 @@ const SupplierQuoteModal: React.FC<SupplierQuoteModalProps> = ({
                 <h4 className="font-semibold text-white mb-2">Your Quote Summary:</h4>
                 <div className="space-y-2 text-sm">
                   <p className="text-gray-300">
-                    <span className="font-medium text-white">Price:</span> {quoteCurrency} {quotePrice.toFixed(2)}
+                    <span className="font-medium text-white">Price:</span> {quoteCurrency} {effectivePrice.toFixed(2)}
                   </p>
+                  {hasLineItems && (
+                    <p className="text-gray-300">
+                      <span className="font-medium text-white">Line items:</span> {lineItems.length}
+                    </p>
+                  )}
                   {asset && (
                     <p className="text-gray-300">
                       <span className="font-medium text-white">Asset:</span> {asset.asset_name}
@@ -260,12 +314,22 @@ const SupplierQuoteModal: React.FC<SupplierQuoteModalProps> = ({
           ) : (
             // Submission Form
             <>
+              {/* Line Items */}
+              <div className="mb-4">
+                <QuoteLineItemsEditor
+                  items={lineItems}
+                  onChange={setLineItems}
+                  currency={quoteCurrency}
+                  disabled={submittingQuote}
+                />
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {/* Price Input */}
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">
                     <DollarSign className="h-4 w-4 inline mr-1" />
-                    Price *
+                    {hasLineItems ? 'Total (from line items)' : 'Price *'}
                   </label>
                   <div className="flex space-x-2">
                     <select
@@ -274,20 +338,19 @@ const SupplierQuoteModal: React.FC<SupplierQuoteModalProps> = ({
                       disabled={submittingQuote}
                       className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:bg-white/5 disabled:cursor-not-allowed"
                     >
-                      <option value="USD" className="bg-[#0A0A0A]">USD</option>
-                      <option value="EUR" className="bg-[#0A0A0A]">EUR</option>
-                      <option value="GBP" className="bg-[#0A0A0A]">GBP</option>
-                      <option value="CAD" className="bg-[#0A0A0A]">CAD</option>
+                      {SUPPORTED_CURRENCIES.map(({ code }) => (
+                        <option key={code} value={code} className="bg-[#0A0A0A]">{code}</option>
+                      ))}
                     </select>
                     <input
                       type="number"
-                      value={quotePrice || ''}
+                      value={effectivePrice || ''}
                       onChange={(e) => setQuotePrice(parseFloat(e.target.value) || 0)}
                       placeholder="0.00"
                       min="0"
                       step="0.01"
-                      disabled={submittingQuote}
-                      required
+                      disabled={submittingQuote || hasLineItems}
+                      required={!hasLineItems}
                       className="flex-1 bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:bg-white/5 disabled:cursor-not-allowed"
                     />
                   </div>
@@ -369,8 +432,8 @@ const SupplierQuoteModal: React.FC<SupplierQuoteModalProps> = ({
                 <button
                   type="button"
                   onClick={handleSubmitQuote}
-                  disabled={submittingQuote || uploadingFile || quotePrice <= 0}
-                  className="w-full bg-purple-600 text-white rounded-lg px-6 py-3 font-semibold hover:bg-purple-700 transition-colors flex items-center justify-center space-x-2 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                  disabled={submittingQuote || uploadingFile || effectivePrice <= 0}
+                  className="w-full bg-purple-600 text-on-accent rounded-lg px-6 py-3 font-semibold hover:bg-purple-700 transition-colors flex items-center justify-center space-x-2 disabled:bg-gray-600 disabled:cursor-not-allowed"
                 >
                   {uploadingFile ? (
                     <>
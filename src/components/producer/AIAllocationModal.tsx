@@ -37,8 +37,8 @@ const AIAllocationModal: React.FC<AIAllocationModalProps> = ({
   useEscapeKey(isOpen, onClose, loading);
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
-      <div className="bg-white rounded-lg shadow-lg w-full max-w-4xl p-6 max-h-[90vh] overflow-y-auto">
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink bg-opacity-40">
+      <div className="bg-paper rounded-lg shadow-lg w-full max-w-4xl p-6 max-h-[90vh] overflow-y-auto">
         <div className="mb-6">
           <div className="flex items-center space-x-3 mb-2">
             <Brain className="h-6 w-6 text-purple-600" />
@@ -69,7 +69,7 @@ const AIAllocationModal: React.FC<AIAllocationModalProps> = ({
                   </p>
                   <button
                     onClick={onAnalyze}
-                    className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg hover:from-purple-700 hover:to-blue-700 mx-auto"
+                    className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-on-accent rounded-lg hover:from-purple-700 hover:to-blue-700 mx-auto"
                   >
                     <Brain className="h-5 w-5" />
                     <span>Start Analysis</span>
@@ -146,7 +146,7 @@ const AIAllocationModal: React.FC<AIAllocationModalProps> = ({
               <button
                 type="button"
                 onClick={onApply}
-                className="flex items-center space-x-2 px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg hover:from-purple-700 hover:to-blue-700"
+                className="flex items-center space-x-2 px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-on-accent rounded-lg hover:from-purple-700 hover:to-blue-700"
               >
                 <Brain className="h-4 w-4" />
                 <span>Apply Suggestions</span>
@@ -600,7 +600,7 @@ const ActiveProjectsGrid: React.FC<ActiveProjectsGridProps> = ({
           <p className="text-gray-200 mb-4">{error}</p>
           <button
             onClick={loadProjects}
-            className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors"
+            className="px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 transition-colors"
           >
             Try Again
           </button>
@@ -630,7 +630,7 @@ const ActiveProjectsGrid: React.FC<ActiveProjectsGridProps> = ({
             </div>
             <button
               onClick={openCreateProject}
-              className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors shadow-sm"
+              className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 transition-colors shadow-sm"
             >
               <Plus className="w-5 h-5" />
               New Project
@@ -684,7 +684,7 @@ const ActiveProjectsGrid: React.FC<ActiveProjectsGridProps> = ({
                   </p>
                   <button
                     onClick={() => setSearchQuery('')}
-                    className="inline-flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-gray-600 text-on-accent rounded-lg hover:bg-gray-700 transition-colors"
                   >
                     Clear Search
                   </button>
@@ -695,7 +695,7 @@ const ActiveProjectsGrid: React.FC<ActiveProjectsGridProps> = ({
                   <p className="text-gray-200 mb-4">Get started by creating your first project</p>
                   <button
                     onClick={openCreateProject}
-                    className="inline-flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors"
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 transition-colors"
                   >
                     <Plus className="w-5 h-5" />
                     Create Project
@@ -50,7 +50,7 @@ const AssetCard: React.FC<AssetCardProps> = ({
 
   return (
     <div 
-      className={`h-24 flex flex-col justify-between bg-gradient-to-br from-purple-500 to-purple-600 rounded-lg shadow-md hover:shadow-lg transition-all duration-200 hover:scale-[1.02] p-3 text-white relative group cursor-pointer ${
+      className={`h-24 flex flex-col justify-between bg-gradient-to-br from-purple-500 to-purple-600 rounded-lg shadow-md hover:shadow-lg transition-all duration-200 hover:scale-[1.02] p-3 text-on-accent relative group cursor-pointer ${
         isHighlighted ? 'ring-4 ring-teal-400 ring-offset-2 scale-[1.05] shadow-xl' : ''
       }`}
       onClick={() => onClick(asset)}
@@ -68,7 +68,7 @@ const AssetCard: React.FC<AssetCardProps> = ({
           className="p-1.5 bg-white/20 hover:bg-white/30 rounded backdrop-blur-sm transition-colors"
           aria-label="Edit asset"
         >
-          <Edit className="w-3 h-3 text-white" />
+          <Edit className="w-3 h-3 text-on-accent" />
         </button>
         
         {/* Delete Button */}
@@ -80,7 +80,7 @@ const AssetCard: React.FC<AssetCardProps> = ({
           className="p-1.5 bg-white/20 hover:bg-red-500 rounded backdrop-blur-sm transition-colors"
           aria-label="Delete asset"
         >
-          <Trash2 className="w-3 h-3 text-white" />
+          <Trash2 className="w-3 h-3 text-on-accent" />
         </button>
       </div>
 
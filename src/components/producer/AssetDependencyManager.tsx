@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { GitBranch, Plus, Trash2, Loader2, Check } from 'lucide-react';
+import { useNotification } from '@/hooks/useNotification';
+import { ProducerService } from '@/services/producerService';
+import { AssetDependencyService } from '@/services/assetDependencyService';
+import { DEFAULT_DURATION_DAYS, wouldCreateCycle } from '@/utils/criticalPath';
+import type { Asset } from '@/lib/supabase';
+import type { AssetDependency } from '@/types/database';
+
+interface AssetDependencyManagerProps {
+  asset: Asset;
+  onAssetUpdate?: (updatedAsset: Asset) => void;
+}
+
+const formatLag = (lagDays: number): string => {
+  if (lagDays === 0) return 'starts straight after';
+  const days = Math.abs(lagDays);
+  return lagDays > 0
+    ? `starts ${days} day${days === 1 ? '' : 's'} after`
+    : `overlaps by ${days} day${days === 1 ? '' : 's'}`;
+};
+
+/**
+ * AssetDependencyManager - Scheduling inputs for critical-path planning
+ *
+ * Features:
+ * - Production duration in days (ending on the asset's timeline date)
+ * - Finish-to-start dependencies on other assets in the project, with lag
+ * - Assets that would create a loop are not offered as predecessors
+ */
+const AssetDependencyManager: React.FC<AssetDependencyManagerProps> = ({ asset, onAssetUpdate }) => {
+  const { showSuccess, showError } = useNotification();
+  const [projectAssets, setProjectAssets] = useState<Asset[]>([]);
+  const [dependencies, setDependencies] = useState<AssetDependency[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [duration, setDuration] = useState(String(asset.duration_days ?? DEFAULT_DURATION_DAYS));
+  const [isSavingDuration, setIsSavingDuration] = useState(false);
+  const [newPredecessorId, setNewPredecessorId] = useState('');
+  const [newLag, setNewLag] = useState('0');
+  const [isAdding, setIsAdding] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const loadDependencies = useCallback(async () => {
+    try {
+      setLoading(true);
+      const assets = await ProducerService.getAssetsByProjectId(asset.project_id);
+      setProjectAssets(assets);
+      setDependencies(await AssetDependencyService.getDependenciesForAssets(assets.map(a => a.id)));
+    } catch (err) {
+      console.error('Failed to load asset dependencies:', err);
+      showError(err instanceof Error ? err.message : 'Failed to load asset dependencies');
+    } finally {
+      setLoading(false);
+    }
+  }, [asset.project_id, showError]);
+
+  useEffect(() => {
+    loadDependencies();
+  }, [loadDependencies]);
+
+  useEffect(() => {
+    setDuration(String(asset.duration_days ?? DEFAULT_DURATION_DAYS));
+  }, [asset.id, asset.duration_days]);
+
+  const assetName = (assetId: string): string =>
+    projectAssets.find(a => a.id === assetId)?.asset_name ?? 'Removed asset';
+
+  const predecessors = dependencies.filter(d => d.successor_asset_id === asset.id);
+  const successors = dependencies.filter(d => d.predecessor_asset_id === asset.id);
+  const candidates = projectAssets.filter(a =>
+    a.id !== asset.id &&
+    !predecessors.some(d => d.predecessor_asset_id === a.id) &&
+    !wouldCreateCycle(dependencies, a.id, asset.id)
+  );
+
+  const parsedDuration = Number.parseInt(duration, 10);
+  const durationChanged = Number.isFinite(parsedDuration) &&
+    parsedDuration >= 0 &&
+    parsedDuration !== (asset.duration_days ?? DEFAULT_DURATION_DAYS);
+
+  const handleSaveDuration = async () => {
+    if (!durationChanged) return;
+    setIsSavingDuration(true);
+    try {
+      await AssetDependencyService.updateDuration(asset.id, parsedDuration);
+      onAssetUpdate?.({ ...asset, duration_days: parsedDuration });
+      showSuccess('Duration updated');
+    } catch (err) {
+      console.error('Failed to update asset duration:', err);
+      showError(err instanceof Error ? err.message : 'Failed to update asset duration');
+    } finally {
+      setIsSavingDuration(false);
+    }
+  };
+
+  const handleAddDependency = async () => {
+    if (!newPredecessorId) return;
+    setIsAdding(true);
+    try {
+      const created = await AssetDependencyService.createDependency({
+        predecessor_asset_id: newPredecessorId,
+        successor_asset_id: asset.id,
+        lag_days: Number.parseInt(newLag, 10) || 0
+      });
+      setDependencies(prev => [...prev, created]);
+      setNewPredecessorId('');
+      setNewLag('0');
+      showSuccess(`${asset.asset_name} now waits for ${assetName(created.predecessor_asset_id)}`);
+    } catch (err) {
+      console.error('Failed to add dependency:', err);
+      showError(err instanceof Error ? err.message : 'Failed to add dependency');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemoveDependency = async (dependency: AssetDependency) => {
+    setRemovingId(dependency.id);
+    try {
+      await AssetDependencyService.deleteDependency(dependency.id);
+      setDependencies(prev => prev.filter(d => d.id !== dependency.id));
+    } catch (err) {
+      console.error('Failed to remove dependency:', err);
+      showError(err instanceof Error ? err.message : 'Failed to remove dependency');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 py-4 text-gray-300 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading dependencies...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <GitBranch className="w-5 h-5 text-purple-300" />
+        <h3 className="text-lg font-semibold text-white">Scheduling</h3>
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div>
+          <label htmlFor={`duration-${asset.id}`} className="block text-sm font-medium text-gray-200 mb-1">
+            Duration (days)
+          </label>
+          <input
+            id={`duration-${asset.id}`}
+            type="number"
+            min={0}
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+            className="w-28 px-3 py-2 bg-black/20 border border-white/20 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+        </div>
+        {durationChanged && (
+          <button
+            type="button"
+            onClick={handleSaveDuration}
+            disabled={isSavingDuration}
+            className="flex items-center gap-2 px-3 py-2 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 disabled:opacity-60 transition-colors text-sm font-medium"
+          >
+            {isSavingDuration ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            Save
+          </button>
+        )}
+        <p className="text-xs text-gray-400 pb-2">
+          Working time ending on the asset's timeline date.
+        </p>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-200 mb-2">Waits for</p>
+        {predecessors.length === 0 ? (
+          <p className="text-sm text-gray-400">Nothing. This asset can start independently.</p>
+        ) : (
+          <ul className="space-y-2">
+            {predecessors.map(dependency => (
+              <li
+                key={dependency.id}
+                className="flex items-center justify-between gap-3 px-3 py-2 border border-white/20 bg-white/5 rounded-lg"
+              >
+                <span className="text-sm text-white">
+                  {assetName(dependency.predecessor_asset_id)}
+                  <span className="text-gray-400"> · {formatLag(dependency.lag_days)}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveDependency(dependency)}
+                  disabled={removingId === dependency.id}
+                  className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded transition-colors disabled:opacity-50"
+                  aria-label={`Stop waiting for ${assetName(dependency.predecessor_asset_id)}`}
+                >
+                  {removingId === dependency.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="w-4 h-4" />
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {candidates.length > 0 && (
+          <div className="flex flex-wrap items-end gap-2 mt-3">
+            <select
+              value={newPredecessorId}
+              onChange={(e) => setNewPredecessorId(e.target.value)}
+              className="flex-1 min-w-[180px] px-3 py-2 bg-black/20 border border-white/20 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              aria-label="Asset to wait for"
+            >
+              <option value="" className="bg-gray-900">Choose an asset to wait for...</option>
+              {candidates.map(candidate => (
+                <option key={candidate.id} value={candidate.id} className="bg-gray-900">
+                  {candidate.asset_name}
+                </option>
+              ))}
+            </select>
+            <div>
+              <label htmlFor={`lag-${asset.id}`} className="block text-xs text-gray-400 mb-1">
+                Lag (days)
+              </label>
+              <input
+                id={`lag-${asset.id}`}
+                type="number"
+                value={newLag}
+                onChange={(e) => setNewLag(e.target.value)}
+                className="w-24 px-3 py-2 bg-black/20 border border-white/20 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={handleAddDependency}
+              disabled={!newPredecessorId || isAdding}
+              className="flex items-center gap-2 px-3 py-2 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 disabled:opacity-60 transition-colors text-sm font-medium"
+            >
+              {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Add
+            </button>
+          </div>
+        )}
+      </div>
+
+      {successors.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-200 mb-1">Needed before</p>
+          <p className="text-sm text-gray-300">
+            {successors.map(d => assetName(d.successor_asset_id)).join(', ')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssetDependencyManager;
@@ -8,8 +8,13 @@ import QuotesList from './QuotesList';
 import SupplierStatusTracker from './SupplierStatusTracker';
 import QuoteDetailModal from './QuoteDetailModal';
 import EnhancedRequestQuoteFlow from './EnhancedRequestQuoteFlow';
-import { getTagColor, PREDEFINED_ASSET_TAGS, filterTags } from '@/utils/assetTags';
+import AssetTimelineManager from './AssetTimelineManager';
+import AssetDependencyManager from './AssetDependencyManager';
+import SealedBidPanel from './SealedBidPanel';
+import { getTagColor, filterTags } from '@/utils/assetTags';
+import { useAssetTagTaxonomy } from '@/contexts/AssetTagTaxonomyContext';
 import { toTitleCase } from '@/utils/textFormatters';
+import { isBidSealed, describeBidOpening } from '@/utils/sealedBids';
 import type { Asset, Quote } from '@/lib/supabase';
 
 interface AssetDetailModalProps {
@@ -17,6 +22,8 @@ interface AssetDetailModalProps {
   asset: Asset | null;
   onClose: () => void;
   onAssetUpdate: (updatedAsset: Asset) => void;
+  /** Open the quote request flow as soon as the modal opens (e.g. from the command palette) */
+  openRequestOnOpen?: boolean;
 }
 
 /**
@@ -28,14 +35,16 @@ interface AssetDetailModalProps {
  * - Responsive layout (full-screen on mobile, large centered on desktop)
  * - Autosave functionality: fields are always editable and save automatically
  * - Supplier status tracking and quotes management
+ * - Sealed-bid setting; costs stay hidden everywhere below while bids are sealed
  */
-const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onClose, onAssetUpdate }) => {
+const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onClose, onAssetUpdate, openRequestOnOpen = false }) => {
   const { showError } = useNotification();
+  const { tags: taxonomyTags } = useAssetTagTaxonomy();
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [activeQuote, setActiveQuote] = useState<Quote | null>(null);
   const [quotesRefreshKey, setQuotesRefreshKey] = useState(0);
-  const [activeAssetViewTab, setActiveAssetViewTab] = useState<'quotes' | 'status'>('quotes');
+  const [activeAssetViewTab, setActiveAssetViewTab] = useState<'quotes' | 'status' | 'timeline'>('quotes');
   const [isMetadataExpanded, setIsMetadataExpanded] = useState(false);
   const [showTagSelector, setShowTagSelector] = useState(false);
   const [tagSearchTerm, setTagSearchTerm] = useState('');
@@ -203,11 +212,11 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
     };
   }, []);
 
-  // Get available tags (predefined tags not already added)
+  // Get available tags (taxonomy tags not already added)
   // Moved before early return to maintain hook order
   const getAvailableTags = () => {
     const currentTagsLower = editingData.tags.map(tag => tag.toLowerCase());
-    return PREDEFINED_ASSET_TAGS.filter(
+    return taxonomyTags.filter(
       tag => !currentTagsLower.includes(tag.name.toLowerCase())
     );
   };
@@ -217,10 +226,8 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
   const filteredAvailableTags = useMemo(() => {
     const available = getAvailableTags();
     if (!tagSearchTerm.trim()) return available;
-    return filterTags(tagSearchTerm).filter(tag => 
-      available.some(availableTag => availableTag.name === tag.name)
-    );
-  }, [tagSearchTerm, editingData.tags]);
+    return filterTags(tagSearchTerm, available);
+  }, [tagSearchTerm, editingData.tags, taxonomyTags]);
 
   // Close tag selector when clicking outside
   // Moved before early return to maintain hook order
@@ -256,6 +263,13 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
     setIsRequestModalOpen(true);
   }, []);
 
+  const openedAssetId = asset?.id;
+  useEffect(() => {
+    if (isOpen && openedAssetId && openRequestOnOpen) {
+      setIsRequestModalOpen(true);
+    }
+  }, [isOpen, openedAssetId, openRequestOnOpen]);
+
   // Handler for when quotes are requested (optimistically update local state)
   const handleQuotesRequested = useCallback((newQuotes: Quote[]) => {
     setExistingQuotes(prev => [...newQuotes, ...prev]);
@@ -279,6 +293,9 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
   // IMPORTANT: All hooks must be declared BEFORE this early return
   if (!isOpen || !asset) return null;
 
+  // Shown in place of costs while bids are sealed
+  const sealedNotice = isBidSealed(asset) ? describeBidOpening(asset) : null;
+
   // Immediate save on blur
   const handleBlur = () => {
     if (!isInitialMount.current) {
@@ -362,12 +379,12 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
           >
 
             {/* Header - Purple gradient matching brand */}
-            <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 px-6 py-5 rounded-t-xl">
+            <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 text-on-accent px-6 py-5 rounded-t-xl">
               <div className="flex items-start justify-between">
                 <div className="flex-1 pr-4">
                   <div className="flex items-center gap-3 mb-2">
-                    <Package className="w-6 h-6 text-white" />
-                    <h2 className="text-2xl font-bold text-white">
+                    <Package className="w-6 h-6 text-on-accent" />
+                    <h2 className="text-2xl font-bold text-on-accent">
                       {toTitleCase(asset.asset_name)}
                     </h2>
                   </div>
@@ -376,7 +393,7 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
                 {/* Save Status Indicator */}
                 <div className="flex items-center gap-2">
                   {saveStatus === 'saving' && (
-                    <div className="flex items-center gap-1.5 px-3 py-1.5 bg-white/10 text-white rounded-lg text-sm">
+                    <div className="flex items-center gap-1.5 px-3 py-1.5 bg-white/10 text-on-accent rounded-lg text-sm">
                       <Loader2 className="w-4 h-4 animate-spin" />
                       <span>Saving...</span>
                     </div>
@@ -401,7 +418,7 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
                   className="flex-shrink-0 p-2 hover:bg-white/20 rounded-lg transition-colors"
                   aria-label="Close modal"
                 >
-                  <X className="w-6 h-6 text-white" />
+                  <X className="w-6 h-6 text-on-accent" />
                 </button>
               </div>
             </div>
@@ -578,6 +595,9 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
 
               {/* Supplier Status / Quote Requests - Tabbed Interface */}
               <section>
+                <div className="mb-4">
+                  <SealedBidPanel asset={asset} onAssetUpdate={onAssetUpdate} />
+                </div>
                 <div className="mb-4">
                   <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-lg shadow-sm p-1">
                     <div className="flex items-center gap-2">
@@ -611,6 +631,21 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
                       >
                         Supplier Status
                       </button>
+                      <button
+                        type="button"
+                        onClick={() => setActiveAssetViewTab('timeline')}
+                        aria-selected={activeAssetViewTab === 'timeline'}
+                        className={`
+                          flex-1 px-6 py-3 rounded-md font-semibold text-sm transition-all duration-200
+                          ${
+                            activeAssetViewTab === 'timeline'
+                              ? 'bg-teal-600/30 text-white border border-teal-400/50 shadow-sm'
+                              : 'text-gray-300 hover:text-white hover:bg-white/5'
+                          }
+                        `}
+                      >
+                        Timeline
+                      </button>
                     </div>
                   </div>
                 </div>
@@ -623,6 +658,7 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
                     onOpenRequestModal={handleOpenRequestModal}
                     refreshTrigger={quotesRefreshKey}
                     isVisible={activeAssetViewTab === 'quotes'}
+                    sealedNotice={sealedNotice}
                   />
                 </div>
                 <div className={activeAssetViewTab === 'status' ? 'block' : 'hidden'}>
@@ -634,6 +670,14 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
                     refreshTrigger={quotesRefreshKey}
                   />
                 </div>
+                {activeAssetViewTab === 'timeline' && (
+                  <div className="space-y-6">
+                    <AssetTimelineManager asset={asset} />
+                    <div className="border-t border-white/10 pt-6">
+                      <AssetDependencyManager asset={asset} onAssetUpdate={onAssetUpdate} />
+                    </div>
+                  </div>
+                )}
               </section>
 
               {/* Metadata Section */}
@@ -681,7 +725,7 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
               <div className="flex justify-end">
                 <button
                   onClick={onClose}
-                  className="px-5 py-2.5 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors font-medium shadow-sm"
+                  className="px-5 py-2.5 bg-gray-600 text-on-accent rounded-lg hover:bg-gray-700 transition-colors font-medium shadow-sm"
                 >
                   Close
                 </button>
@@ -698,6 +742,7 @@ const AssetDetailModal: React.FC<AssetDetailModalProps> = ({ isOpen, asset, onCl
       <QuoteDetailModal
         isOpen={activeQuote !== null}
         quote={activeQuote}
+        sealedNotice={sealedNotice}
         onClose={() => setActiveQuote(null)}
         onQuoteUpdate={() => {
           setQuotesRefreshKey((prev) => prev + 1);
@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Download, ChevronDown, Loader2, FileSpreadsheet, FileText } from 'lucide-react';
+import { ProjectExportService, type ProjectExportFormat } from '@/services/projectExportService';
+import { useNotification } from '@/hooks/useNotification';
+import type { ProjectExportDataset } from '@/utils/projectExport';
+import type { Project, Asset } from '@/lib/supabase';
+
+interface AssetExportMenuProps {
+  project: Project;
+  /** Assets as currently filtered and sorted in the table */
+  assets: Asset[];
+  /** Total assets in the project, to say when the export is filtered */
+  totalAssetCount: number;
+}
+
+const EXPORT_OPTIONS: { label: string; format: ProjectExportFormat; dataset: ProjectExportDataset }[] = [
+  { label: 'Workbook (.xlsx)', format: 'xlsx', dataset: 'assets' },
+  { label: 'Assets (.csv)', format: 'csv', dataset: 'assets' },
+  { label: 'Quotes (.csv)', format: 'csv', dataset: 'quotes' },
+  { label: 'Budget (.csv)', format: 'csv', dataset: 'budget' }
+];
+
+/**
+ * AssetExportMenu - Download the asset table, its quotes and the budget as CSV or XLSX
+ * Files are generated in the browser from the rows currently shown.
+ */
+const AssetExportMenu: React.FC<AssetExportMenuProps> = ({ project, assets, totalAssetCount }) => {
+  const { showSuccess, showError } = useNotification();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement | null>(null);
+
+  // Click outside to close
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (format: ProjectExportFormat, dataset: ProjectExportDataset) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      await ProjectExportService.exportProject(project, assets, format, dataset);
+      showSuccess(
+        assets.length < totalAssetCount
+          ? `Exported ${assets.length} of ${totalAssetCount} assets (current filters)`
+          : 'Export downloaded'
+      );
+    } catch (err) {
+      console.error('Error exporting project:', err);
+      showError(err instanceof Error ? err.message : 'Failed to export project');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={isExporting || assets.length === 0}
+        className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-white/10 border border-white/20 text-gray-200 hover:bg-white/20 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        Export
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-52 z-20 bg-gray-900/95 backdrop-blur-md border border-white/20 rounded-lg shadow-xl py-1">
+          {EXPORT_OPTIONS.map(option => (
+            <button
+              key={`${option.format}-${option.dataset}`}
+              type="button"
+              onClick={() => handleExport(option.format, option.dataset)}
+              className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-200 hover:bg-white/10 text-left"
+            >
+              {option.format === 'xlsx' ? (
+                <FileSpreadsheet className="w-4 h-4 text-green-300" />
+              ) : (
+                <FileText className="w-4 h-4 text-gray-300" />
+              )}
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssetExportMenu;
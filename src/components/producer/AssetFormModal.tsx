@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { X, Package, Edit, Tag, Hash } from 'lucide-react';
 import type { Asset } from '@/lib/supabase';
-import { PREDEFINED_ASSET_TAGS, getTagColor } from '@/utils/assetTags';
+import { filterTags, getTagColor } from '@/utils/assetTags';
+import { useAssetTagTaxonomy } from '@/contexts/AssetTagTaxonomyContext';
 import { toTitleCase } from '@/utils/textFormatters';
 
 interface AssetFormModalProps {
@@ -50,6 +51,7 @@ const AssetFormModal: React.FC<AssetFormModalProps> = ({
   // Tag selection state
   const [showTagSelector, setShowTagSelector] = useState(false);
   const [tagSearchTerm, setTagSearchTerm] = useState('');
+  const { tags: taxonomyTags } = useAssetTagTaxonomy();
 
   // Pre-populate form when editing or reset when creating
   useEffect(() => {
@@ -102,10 +104,7 @@ const AssetFormModal: React.FC<AssetFormModalProps> = ({
   };
 
   // Filter available tags based on search
-  const filteredTags = PREDEFINED_ASSET_TAGS.filter(tag =>
-    tag.name.toLowerCase().includes(tagSearchTerm.toLowerCase()) ||
-    tag.description.toLowerCase().includes(tagSearchTerm.toLowerCase())
-  );
+  const filteredTags = filterTags(tagSearchTerm, taxonomyTags);
 
   // Handle form submission
   const handleSubmit = (e: React.FormEvent) => {
@@ -386,7 +385,7 @@ const AssetFormModal: React.FC<AssetFormModalProps> = ({
             <button
               type="submit"
               disabled={isSubmitting || !formData.asset_name.trim()}
-              className="px-5 py-2.5 rounded-lg bg-purple-600 text-white font-medium hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              className="px-5 py-2.5 rounded-lg bg-purple-600 text-on-accent font-medium hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
             >
               {isSubmitting ? (
                 <>
@@ -5,10 +5,11 @@ import { useNotification } from '@/hooks/useNotification';
 import AssetTable from './AssetTable';
 import AssetFormModal from './AssetFormModal';
 import AssetDetailModal from './AssetDetailModal';
+import AssetExportMenu from './AssetExportMenu';
 import ConfirmationModal from '@/components/shared/ConfirmationModal';
 import { getTagColor } from '@/utils/assetTags';
 import { toTitleCase } from '@/utils/textFormatters';
-import type { Asset } from '@/lib/supabase';
+import type { Asset, Project } from '@/lib/supabase';
 
 /** Editable fields for inline table editing */
 export type InlineEditFields = {
@@ -21,6 +22,8 @@ export type InlineEditFields = {
 interface AssetListProps {
   assets: Asset[];
   isLoading: boolean;
+  /** Enables the export menu */
+  project?: Project;
   
   // Props for bi-directional hover linking with brief
   hoveredAssetId?: string | null;
@@ -40,10 +43,12 @@ interface AssetListProps {
  * - Loading and error state handling
  * - Empty state when no assets exist
  * - Bi-directional hover linking with project brief (highlights assets when brief text hovered)
+ * - CSV/XLSX export of the filtered and sorted rows
  */
 const AssetList: React.FC<AssetListProps> = ({ 
   assets,
   isLoading,
+  project,
   hoveredAssetId, 
   onAssetHover, 
   showFilters = false,
@@ -355,13 +360,14 @@ const AssetList: React.FC<AssetListProps> = ({
       }
     });
     // Convert Set to sorted array for consistent display
-    // Order: Pending, Quoting, Approved, In Production, Delivered
+    // Order: Pending, Quoting, Reviewing, Approved, In Production, Delivered
     const statusOrder: Record<string, number> = {
       'Pending': 1,
       'Quoting': 2,
-      'Approved': 3,
-      'In Production': 4,
-      'Delivered': 5
+      'Reviewing': 3,
+      'Approved': 4,
+      'In Production': 5,
+      'Delivered': 6
     };
     return Array.from(statusSet).sort((a, b) => {
       const orderA = statusOrder[a] || 999;
@@ -559,7 +565,7 @@ const AssetList: React.FC<AssetListProps> = ({
               setSelectedTags([]);
               setSelectedStatus('');
             }}
-            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+            className="px-4 py-2 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 transition-colors"
           >
             Clear all filters
           </button>
@@ -569,18 +575,27 @@ const AssetList: React.FC<AssetListProps> = ({
         <>
           {/* Inline Edit Toolbar */}
           <div className="flex items-center justify-between gap-4 mb-4">
-            <button
-              type="button"
-              onClick={handleEditModeToggle}
-              className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                isEditMode
-                  ? 'bg-purple-600 text-white hover:bg-purple-500'
-                  : 'bg-white/10 border border-white/20 text-gray-200 hover:bg-white/20'
-              }`}
-            >
-              <Pencil className="w-4 h-4" />
-              {isEditMode ? 'Exit Edit Mode' : 'Edit Mode'}
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={handleEditModeToggle}
+                className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  isEditMode
+                    ? 'bg-purple-600 text-on-accent hover:bg-purple-500'
+                    : 'bg-white/10 border border-white/20 text-gray-200 hover:bg-white/20'
+                }`}
+              >
+                <Pencil className="w-4 h-4" />
+                {isEditMode ? 'Exit Edit Mode' : 'Edit Mode'}
+              </button>
+              {project && !isEditMode && (
+                <AssetExportMenu
+                  project={project}
+                  assets={filteredAndSortedAssets}
+                  totalAssetCount={assets.length}
+                />
+              )}
+            </div>
             {isEditMode && hasEdits && (
               <div className="flex items-center gap-2">
                 <button
@@ -595,7 +610,7 @@ const AssetList: React.FC<AssetListProps> = ({
                   type="button"
                   onClick={handleSaveAll}
                   disabled={isSavingInlineEdits}
-                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-teal-600 text-white hover:bg-teal-500 transition-colors disabled:opacity-70 disabled:cursor-not-allowed"
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-teal-600 text-on-accent hover:bg-teal-500 transition-colors disabled:opacity-70 disabled:cursor-not-allowed"
                 >
                   {isSavingInlineEdits ? (
                     <>
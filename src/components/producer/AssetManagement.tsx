@@ -33,13 +33,13 @@ const AssetManagement: React.FC<AssetManagementProps> = ({
   getStatusColor
 }) => {
   return (
-    <div className="bg-white rounded-lg shadow p-6">
+    <div className="bg-paper rounded-lg shadow p-6">
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-xl font-semibold">Asset Management</h2>
         <div className="flex items-center space-x-2">
           <button
             onClick={onCreateAsset}
-            className="flex items-center space-x-2 px-3 py-1 bg-teal-600 text-white rounded text-sm hover:bg-teal-700"
+            className="flex items-center space-x-2 px-3 py-1 bg-teal-600 text-on-accent rounded text-sm hover:bg-teal-700"
           >
             <Plus className="h-4 w-4" />
             <span>New Asset</span>
@@ -52,13 +52,13 @@ const AssetManagement: React.FC<AssetManagementProps> = ({
           ) : (
             <div className="relative group">
               <button
-                className="flex items-center space-x-2 px-3 py-1 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded text-sm hover:from-purple-700 hover:to-blue-700"
+                className="flex items-center space-x-2 px-3 py-1 bg-gradient-to-r from-purple-600 to-blue-600 text-on-accent rounded text-sm hover:from-purple-700 hover:to-blue-700"
               >
                 <Brain className="h-4 w-4" />
                 <span>Smart Allocation</span>
                 <Sparkles className="h-3 w-3" />
               </button>
-              <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10">
+              <div className="absolute right-0 mt-2 w-48 bg-paper rounded-lg shadow-lg border border-gray-200 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10">
                 <div className="py-1">
                   <button
                     onClick={onOpenAIAllocation}
@@ -35,8 +35,8 @@ const AssetModal: React.FC<AssetModalProps> = ({
   };
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
-      <div className="bg-white rounded-lg shadow-lg w-full max-w-2xl p-6">
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink bg-opacity-40">
+      <div className="bg-paper rounded-lg shadow-lg w-full max-w-2xl p-6">
         <div className="mb-4">
           <h3 className="text-xl font-semibold">
             {isEditing ? 'Edit Asset' : 'Create New Asset'}
@@ -126,7 +126,7 @@ const AssetModal: React.FC<AssetModalProps> = ({
             <button
               type="submit"
               disabled={isSubmitting}
-              className="px-4 py-2 rounded bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-50"
+              className="px-4 py-2 rounded bg-teal-600 text-on-accent hover:bg-teal-700 disabled:opacity-50"
             >
               {isSubmitting ? (isEditing ? 'Saving...' : 'Creating...') : (isEditing ? 'Save Changes' : 'Create Asset')}
             </button>
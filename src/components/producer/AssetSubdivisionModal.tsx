@@ -137,7 +137,7 @@ const AssetSubdivisionModal: React.FC<AssetSubdivisionModalProps> = ({
     <>
       {/* Backdrop */}
       <div
-        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        className="fixed inset-0 bg-ink bg-opacity-50 transition-opacity"
         onClick={onClose}
         aria-hidden="true"
         style={{ zIndex: 100000 }}
@@ -148,16 +148,16 @@ const AssetSubdivisionModal: React.FC<AssetSubdivisionModalProps> = ({
         <div className="flex min-h-full items-center justify-center p-4 sm:p-6 lg:p-8">
           {/* Modal Content */}
           <div
-            className="relative bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto"
+            className="relative bg-paper rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto"
             onClick={(e) => e.stopPropagation()}
           >
             {/* Header */}
-            <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 px-6 py-5 rounded-t-xl">
+            <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 text-on-accent px-6 py-5 rounded-t-xl">
               <div className="flex items-start justify-between">
                 <div className="flex-1 pr-4">
                   <div className="flex items-center gap-3 mb-2">
-                    <Copy className="w-6 h-6 text-white" />
-                    <h2 className="text-2xl font-bold text-white">
+                    <Copy className="w-6 h-6 text-on-accent" />
+                    <h2 className="text-2xl font-bold text-on-accent">
                       Subdivide Asset
                     </h2>
                   </div>
@@ -172,7 +172,7 @@ const AssetSubdivisionModal: React.FC<AssetSubdivisionModalProps> = ({
                   className="flex-shrink-0 p-2 hover:bg-white/20 rounded-lg transition-colors"
                   aria-label="Close modal"
                 >
-                  <X className="w-6 h-6 text-white" />
+                  <X className="w-6 h-6 text-on-accent" />
                 </button>
               </div>
             </div>
@@ -222,7 +222,7 @@ const AssetSubdivisionModal: React.FC<AssetSubdivisionModalProps> = ({
                     </button>
                     <button
                       onClick={addSubAsset}
-                      className="flex items-center gap-2 px-3 py-1.5 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                      className="flex items-center gap-2 px-3 py-1.5 text-sm bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 transition-colors"
                     >
                       <Plus className="w-4 h-4" />
                       Add Asset
@@ -232,7 +232,7 @@ const AssetSubdivisionModal: React.FC<AssetSubdivisionModalProps> = ({
 
                 <div className="space-y-4">
                   {subAssets.map((subAsset, index) => (
-                    <div key={index} className="bg-white border border-gray-200 rounded-lg p-4">
+                    <div key={index} className="bg-paper border border-gray-200 rounded-lg p-4">
                       <div className="flex items-center justify-between mb-4">
                         <h4 className="font-medium text-gray-900">Asset {index + 1}</h4>
                         {subAssets.length > 1 && (
@@ -302,14 +302,14 @@ const AssetSubdivisionModal: React.FC<AssetSubdivisionModalProps> = ({
               <div className="flex justify-between">
                 <button
                   onClick={onClose}
-                  className="px-5 py-2.5 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors font-medium shadow-sm"
+                  className="px-5 py-2.5 bg-gray-600 text-on-accent rounded-lg hover:bg-gray-700 transition-colors font-medium shadow-sm"
                 >
                   Cancel
                 </button>
                 <button
                   onClick={handleCreateAssets}
                   disabled={isCreating}
-                  className="flex items-center gap-2 px-5 py-2.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors font-medium shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  className="flex items-center gap-2 px-5 py-2.5 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 transition-colors font-medium shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isCreating ? (
                     <>
@@ -3,7 +3,8 @@ import { createPortal } from 'react-dom';
 import { Trash2, Tag, X, ChevronDown } from 'lucide-react';
 import type { Asset } from '@/lib/supabase';
 import type { InlineEditFields } from './AssetList';
-import { getTagColor, PREDEFINED_ASSET_TAGS, filterTags } from '@/utils/assetTags';
+import { getTagColor, filterTags } from '@/utils/assetTags';
+import { useAssetTagTaxonomy } from '@/contexts/AssetTagTaxonomyContext';
 
 interface AssetTableProps {
   assets: Asset[];
@@ -43,6 +44,7 @@ const AssetTable: React.FC<AssetTableProps> = ({
 }) => {
   const [openTagSelectorForAssetId, setOpenTagSelectorForAssetId] = useState<string | null>(null);
   const [tagSearchTerm, setTagSearchTerm] = useState('');
+  const { tags: taxonomyTags } = useAssetTagTaxonomy();
   const [tagDropdownPosition, setTagDropdownPosition] = useState<{
     top: number;
     left: number;
@@ -154,6 +156,7 @@ const AssetTable: React.FC<AssetTableProps> = ({
         return '#10B981'; // green-500
       case 'In Production':
       case 'Quoting':
+      case 'Reviewing':
         return '#F59E0B'; // amber-500
       case 'Pending':
         return '#6B7280'; // gray-500
@@ -207,25 +210,25 @@ const AssetTable: React.FC<AssetTableProps> = ({
           }}
         >
           <tr className="border-b border-white/20">
-            <th className="px-4 py-3 text-left text-sm font-semibold text-white">
+            <th className="px-density-cell-x py-density-cell-y text-left text-sm font-semibold text-white">
               Name
             </th>
-            <th className="px-4 py-3 text-left text-sm font-semibold text-white">
+            <th className="px-density-cell-x py-density-cell-y text-left text-sm font-semibold text-white">
               Quantity
             </th>
-            <th className="px-4 py-3 text-left text-sm font-semibold text-white">
+            <th className="px-density-cell-x py-density-cell-y text-left text-sm font-semibold text-white">
               Tags
             </th>
-            <th className="px-4 py-3 text-left text-sm font-semibold text-white">
+            <th className="px-density-cell-x py-density-cell-y text-left text-sm font-semibold text-white">
               Specifications
             </th>
-            <th className="px-4 py-3 text-left text-sm font-semibold text-white">
+            <th className="px-density-cell-x py-density-cell-y text-left text-sm font-semibold text-white">
               Supplier Status
             </th>
-            <th className="px-4 py-3 text-left text-sm font-semibold text-white">
+            <th className="px-density-cell-x py-density-cell-y text-left text-sm font-semibold text-white">
               Last Updated
             </th>
-            <th className="px-4 py-3 text-left text-sm font-semibold text-white">
+            <th className="px-density-cell-x py-density-cell-y text-left text-sm font-semibold text-white">
               Actions
             </th>
           </tr>
@@ -239,7 +242,7 @@ const AssetTable: React.FC<AssetTableProps> = ({
               <tr
                 key={asset.id}
                 className={`
-                  ${isEditMode ? 'min-h-[72px]' : 'h-[72px]'} bg-white/5 border-b border-white/10 
+                  ${isEditMode ? 'min-h-density-row' : 'h-density-row'} bg-white/5 border-b border-white/10 
                   hover:bg-white/10 hover:border-purple-400/30 
                   transition-all duration-200 ${isEditMode ? '' : 'cursor-pointer'}
                   ${isHighlighted ? 'ring-2 ring-purple-400/50 bg-white/15' : ''}
@@ -249,7 +252,7 @@ const AssetTable: React.FC<AssetTableProps> = ({
                 onMouseLeave={() => onAssetHover && onAssetHover(null)}
               >
                 {/* Name */}
-                <td className={`px-4 py-3 text-gray-200 ${!isEditMode ? 'whitespace-nowrap' : ''} ${isHighlighted ? 'bg-white/15' : 'bg-white/5'}`}>
+                <td className={`px-density-cell-x py-density-cell-y text-gray-200 ${!isEditMode ? 'whitespace-nowrap' : ''} ${isHighlighted ? 'bg-white/15' : 'bg-white/5'}`}>
                   {isEditMode && onEditChange ? (
                     <textarea
                       value={edits[asset.id]?.asset_name ?? asset.asset_name ?? ''}
@@ -267,7 +270,7 @@ const AssetTable: React.FC<AssetTableProps> = ({
                 </td>
 
                 {/* Quantity */}
-                <td className={`px-4 py-3 text-gray-200 ${!isEditMode ? 'whitespace-nowrap' : ''}`}>
+                <td className={`px-density-cell-x py-density-cell-y text-gray-200 ${!isEditMode ? 'whitespace-nowrap' : ''}`}>
                   {isEditMode && onEditChange ? (
                     <input
                       type="number"
@@ -295,7 +298,7 @@ const AssetTable: React.FC<AssetTableProps> = ({
                 </td>
 
                 {/* Tags */}
-                <td className={`px-4 py-3 ${isEditMode ? 'align-top overflow-visible' : 'whitespace-nowrap'}`}>
+                <td className={`px-density-cell-x py-density-cell-y ${isEditMode ? 'align-top overflow-visible' : 'whitespace-nowrap'}`}>
                   {isEditMode && onEditChange ? (
                     <div
                       className="min-w-[140px] max-w-[200px]"
@@ -303,7 +306,7 @@ const AssetTable: React.FC<AssetTableProps> = ({
                     >
                       {(() => {
                         const currentTags = edits[asset.id]?.tags ?? asset.tags ?? [];
-                        const filteredTagsList = filterTags(tagSearchTerm);
+                        const filteredTagsList = filterTags(tagSearchTerm, taxonomyTags);
                         const isOpen = openTagSelectorForAssetId === asset.id;
                         const position = isOpen ? tagDropdownPosition : null;
 
@@ -425,7 +428,7 @@ const AssetTable: React.FC<AssetTableProps> = ({
                 </td>
 
                 {/* Specifications */}
-                <td className={`px-4 py-3 text-gray-200 max-w-[220px] ${isEditMode ? 'align-top' : ''}`}>
+                <td className={`px-density-cell-x py-density-cell-y text-gray-200 max-w-[220px] ${isEditMode ? 'align-top' : ''}`}>
                   {isEditMode && onEditChange ? (
                     <textarea
                       value={edits[asset.id]?.specifications ?? asset.specifications ?? ''}
@@ -450,17 +453,17 @@ const AssetTable: React.FC<AssetTableProps> = ({
                 </td>
 
                 {/* Supplier Status */}
-                <td className="px-4 py-3 whitespace-nowrap">
+                <td className="px-density-cell-x py-density-cell-y whitespace-nowrap">
                   {getStatusBadge(asset.status)}
                 </td>
 
                 {/* Last Updated */}
-                <td className="px-4 py-3 text-gray-400 whitespace-nowrap">
+                <td className="px-density-cell-x py-density-cell-y text-gray-400 whitespace-nowrap">
                   <span className="text-sm">{formatLastUpdated(asset.updated_at)}</span>
                 </td>
 
                 {/* Actions */}
-                <td className="px-4 py-3 whitespace-nowrap">
+                <td className="px-density-cell-x py-density-cell-y whitespace-nowrap">
                   <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
                     {/* Delete Button */}
                     <button
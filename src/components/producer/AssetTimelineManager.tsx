@@ -1,85 +1,69 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Calendar, Plus, Edit2, Trash2, Check, X, Clock } from 'lucide-react';
+import { Calendar, Plus, Edit2, Trash2, Check, X, Clock, History, Loader2 } from 'lucide-react';
 import { useNotification } from '@/hooks/useNotification';
+import { AssetTimelineService } from '@/services/assetTimelineService';
+import {
+  ASSET_TIMELINE_EVENT_TYPES,
+  getTimelineEventTypeLabel,
+  getTimelineFieldChanges
+} from '@/utils/assetTimeline';
 import type { Asset } from '@/lib/supabase';
+import type { AssetTimelineEvent, AssetTimelineEventHistory, AssetTimelineEventType } from '@/types/database';
 
-interface TimelineEvent {
-  id: string;
-  asset_id: string;
+interface AssetTimelineManagerProps {
+  asset: Asset;
+  onTimelineUpdate?: () => void;
+}
+
+interface EventFormState {
   event_name: string;
+  event_type: AssetTimelineEventType;
   event_date: string;
   description: string;
-  created_at: string;
-  updated_at: string;
 }
 
-interface AssetTimelineManagerProps {
-  asset: Asset;
-  onTimelineUpdate?: () => void;
-}
+const EMPTY_FORM: EventFormState = {
+  event_name: '',
+  event_type: 'milestone',
+  event_date: '',
+  description: ''
+};
+
+const sortEvents = (events: AssetTimelineEvent[]): AssetTimelineEvent[] =>
+  [...events].sort((a, b) => new Date(a.event_date).getTime() - new Date(b.event_date).getTime());
 
 /**
  * AssetTimelineManager - Full CRUD for asset timeline events
- * 
+ *
  * Features:
- * - Create, read, update, delete timeline events
+ * - Create, read, update, delete timeline events persisted via AssetTimelineService
  * - Chronological display of events
- * - Date validation and formatting
+ * - Event types (proof approved, load-in, delivery, etc.)
  * - Inline editing capabilities
- * - Event status tracking
+ * - Per-event edit history
  */
 const AssetTimelineManager: React.FC<AssetTimelineManagerProps> = ({
   asset,
   onTimelineUpdate
 }) => {
   const { showSuccess, showError } = useNotification();
-  const [timelineEvents, setTimelineEvents] = useState<TimelineEvent[]>([]);
+  const [timelineEvents, setTimelineEvents] = useState<AssetTimelineEvent[]>([]);
   const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [isAddingEvent, setIsAddingEvent] = useState(false);
   const [editingEventId, setEditingEventId] = useState<string | null>(null);
-  const [newEvent, setNewEvent] = useState({
-    event_name: '',
-    event_date: '',
-    description: ''
-  });
-  const [editingEvent, setEditingEvent] = useState({
-    event_name: '',
-    event_date: '',
-    description: ''
-  });
+  const [newEvent, setNewEvent] = useState<EventFormState>(EMPTY_FORM);
+  const [editingEvent, setEditingEvent] = useState<EventFormState>(EMPTY_FORM);
+
+  // Edit history state (loaded lazily per event)
+  const [historyEventId, setHistoryEventId] = useState<string | null>(null);
+  const [history, setHistory] = useState<AssetTimelineEventHistory[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
 
   const loadTimelineEvents = useCallback(async () => {
     setLoading(true);
     try {
-      // For now, we'll simulate timeline events since we don't have a dedicated table
-      // In a real implementation, you'd create an asset_timeline_events table
-      const events: TimelineEvent[] = [
-        {
-          id: '1',
-          asset_id: asset.id,
-          event_name: 'Asset Created',
-          event_date: asset.created_at,
-          description: 'Initial asset creation',
-          created_at: asset.created_at,
-          updated_at: asset.created_at
-        }
-      ];
-
-      // Add timeline from asset if it exists
-      if (asset.timeline) {
-        events.push({
-          id: '2',
-          asset_id: asset.id,
-          event_name: 'Target Deadline',
-          event_date: asset.timeline,
-          description: 'Planned completion date',
-          created_at: asset.created_at,
-          updated_at: asset.updated_at
-        });
-      }
-
-      // Sort by date
-      events.sort((a, b) => new Date(a.event_date).getTime() - new Date(b.event_date).getTime());
+      const events = await AssetTimelineService.getEventsForAsset(asset.id);
       setTimelineEvents(events);
     } catch (err) {
       console.error('Error loading timeline events:', err);
@@ -101,39 +85,37 @@ const AssetTimelineManager: React.FC<AssetTimelineManagerProps> = ({
       return;
     }
 
+    setIsSubmitting(true);
     try {
-      // In a real implementation, you'd call a service method to create the event
-      const event: TimelineEvent = {
-        id: Date.now().toString(),
+      const event = await AssetTimelineService.createEvent({
         asset_id: asset.id,
-        event_name: newEvent.event_name.trim(),
+        event_type: newEvent.event_type,
+        event_name: newEvent.event_name,
         event_date: newEvent.event_date,
-        description: newEvent.description.trim(),
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
+        description: newEvent.description
+      });
 
-      setTimelineEvents(prev => [...prev, event].sort((a, b) => 
-        new Date(a.event_date).getTime() - new Date(b.event_date).getTime()
-      ));
-
-      setNewEvent({ event_name: '', event_date: '', description: '' });
+      setTimelineEvents(prev => sortEvents([...prev, event]));
+      setNewEvent(EMPTY_FORM);
       setIsAddingEvent(false);
       showSuccess('Timeline event added successfully');
       onTimelineUpdate?.();
     } catch (err) {
       console.error('Error adding timeline event:', err);
-      showError('Failed to add timeline event');
+      showError(err instanceof Error ? err.message : 'Failed to add timeline event');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
   // Start editing an event
-  const startEditing = (event: TimelineEvent) => {
+  const startEditing = (event: AssetTimelineEvent) => {
     setEditingEventId(event.id);
     setEditingEvent({
       event_name: event.event_name,
+      event_type: event.event_type,
       event_date: event.event_date.split('T')[0], // Convert to YYYY-MM-DD format
-      description: event.description
+      description: event.description || ''
     });
   };
 
@@ -144,33 +126,37 @@ const AssetTimelineManager: React.FC<AssetTimelineManagerProps> = ({
       return;
     }
 
+    setIsSubmitting(true);
     try {
-      setTimelineEvents(prev => prev.map(event => 
-        event.id === eventId 
-          ? {
-              ...event,
-              event_name: editingEvent.event_name.trim(),
-              event_date: editingEvent.event_date,
-              description: editingEvent.description.trim(),
-              updated_at: new Date().toISOString()
-            }
-          : event
-      ).sort((a, b) => new Date(a.event_date).getTime() - new Date(b.event_date).getTime()));
+      const updated = await AssetTimelineService.updateEvent(eventId, {
+        event_name: editingEvent.event_name,
+        event_type: editingEvent.event_type,
+        event_date: editingEvent.event_date,
+        description: editingEvent.description
+      });
 
+      setTimelineEvents(prev => sortEvents(prev.map(event => (event.id === eventId ? updated : event))));
       setEditingEventId(null);
-      setEditingEvent({ event_name: '', event_date: '', description: '' });
+      setEditingEvent(EMPTY_FORM);
+      // Drop cached history so it reloads with the new change
+      if (historyEventId === eventId) {
+        setHistoryEventId(null);
+        setHistory([]);
+      }
       showSuccess('Timeline event updated successfully');
       onTimelineUpdate?.();
     } catch (err) {
       console.error('Error updating timeline event:', err);
-      showError('Failed to update timeline event');
+      showError(err instanceof Error ? err.message : 'Failed to update timeline event');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
   // Cancel editing
   const cancelEdit = () => {
     setEditingEventId(null);
-    setEditingEvent({ event_name: '', event_date: '', description: '' });
+    setEditingEvent(EMPTY_FORM);
   };
 
   // Delete timeline event
@@ -180,12 +166,39 @@ const AssetTimelineManager: React.FC<AssetTimelineManagerProps> = ({
     }
 
     try {
+      await AssetTimelineService.deleteEvent(eventId);
       setTimelineEvents(prev => prev.filter(event => event.id !== eventId));
+      if (historyEventId === eventId) {
+        setHistoryEventId(null);
+        setHistory([]);
+      }
       showSuccess('Timeline event deleted successfully');
       onTimelineUpdate?.();
     } catch (err) {
       console.error('Error deleting timeline event:', err);
-      showError('Failed to delete timeline event');
+      showError(err instanceof Error ? err.message : 'Failed to delete timeline event');
+    }
+  };
+
+  // Toggle the edit history panel for an event
+  const toggleHistory = async (eventId: string) => {
+    if (historyEventId === eventId) {
+      setHistoryEventId(null);
+      setHistory([]);
+      return;
+    }
+
+    setHistoryEventId(eventId);
+    setHistoryLoading(true);
+    try {
+      const entries = await AssetTimelineService.getEventHistory(eventId);
+      setHistory(entries);
+    } catch (err) {
+      console.error('Error loading timeline event history:', err);
+      showError('Failed to load edit history');
+      setHistoryEventId(null);
+    } finally {
+      setHistoryLoading(false);
     }
   };
 
@@ -198,16 +211,88 @@ const AssetTimelineManager: React.FC<AssetTimelineManagerProps> = ({
     });
   };
 
+  // Format timestamp for history entries
+  const formatDateTime = (dateString: string): string => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
   // Check if event is in the past
   const isPastEvent = (dateString: string): boolean => {
     return new Date(dateString) < new Date();
   };
 
+  const renderEventFields = (
+    values: EventFormState,
+    onChange: React.Dispatch<React.SetStateAction<EventFormState>>
+  ) => (
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-200 mb-1">
+            Event Name *
+          </label>
+          <input
+            type="text"
+            value={values.event_name}
+            onChange={(e) => onChange(prev => ({ ...prev, event_name: e.target.value }))}
+            className="w-full px-3 py-2 bg-black/20 border border-white/20 text-white placeholder-gray-400 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            placeholder="e.g., Proof Approved, Load-In"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-200 mb-1">
+            Event Type
+          </label>
+          <select
+            value={values.event_type}
+            onChange={(e) => onChange(prev => ({ ...prev, event_type: e.target.value as AssetTimelineEventType }))}
+            className="w-full px-3 py-2 bg-black/20 border border-white/20 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            {ASSET_TIMELINE_EVENT_TYPES.map(type => (
+              <option key={type.value} value={type.value} className="bg-gray-900">
+                {type.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-200 mb-1">
+          Event Date *
+        </label>
+        <input
+          type="date"
+          value={values.event_date}
+          onChange={(e) => onChange(prev => ({ ...prev, event_date: e.target.value }))}
+          className="w-full px-3 py-2 bg-black/20 border border-white/20 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-200 mb-1">
+          Description
+        </label>
+        <textarea
+          value={values.description}
+          onChange={(e) => onChange(prev => ({ ...prev, description: e.target.value }))}
+          rows={2}
+          className="w-full px-3 py-2 bg-black/20 border border-white/20 text-white placeholder-gray-400 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          placeholder="Additional details about this event"
+        />
+      </div>
+    </>
+  );
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-8">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
-        <span className="ml-2 text-gray-600">Loading timeline...</span>
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400"></div>
+        <span className="ml-2 text-gray-300">Loading timeline...</span>
       </div>
     );
   }
@@ -217,15 +302,15 @@ const AssetTimelineManager: React.FC<AssetTimelineManagerProps> = ({
       {/* Header */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
-          <Calendar className="w-5 h-5 text-purple-600" />
-          <h3 className="text-lg font-semibold text-gray-900">Timeline Events</h3>
-          <span className="px-2 py-1 bg-purple-100 text-purple-700 text-sm font-semibold rounded-full">
+          <Calendar className="w-5 h-5 text-purple-300" />
+          <h3 className="text-lg font-semibold text-white">Timeline Events</h3>
+          <span className="px-2 py-1 bg-purple-500/20 text-purple-200 text-sm font-semibold rounded-full">
             {timelineEvents.length}
           </span>
         </div>
         <button
           onClick={() => setIsAddingEvent(true)}
-          className="flex items-center gap-2 px-3 py-1.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm font-medium"
+          className="flex items-center gap-2 px-3 py-1.5 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 transition-colors text-sm font-medium"
         >
           <Plus className="w-4 h-4" />
           Add Event
@@ -234,58 +319,25 @@ const AssetTimelineManager: React.FC<AssetTimelineManagerProps> = ({
 
       {/* Add New Event Form */}
       {isAddingEvent && (
-        <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
-          <h4 className="font-medium text-gray-900 mb-3">Add New Timeline Event</h4>
+        <div className="bg-purple-500/10 border border-purple-400/30 rounded-lg p-4">
+          <h4 className="font-medium text-white mb-3">Add New Timeline Event</h4>
           <div className="space-y-3">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Event Name *
-              </label>
-              <input
-                type="text"
-                value={newEvent.event_name}
-                onChange={(e) => setNewEvent(prev => ({ ...prev, event_name: e.target.value }))}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                placeholder="e.g., Design Review, Production Start"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Event Date *
-              </label>
-              <input
-                type="date"
-                value={newEvent.event_date}
-                onChange={(e) => setNewEvent(prev => ({ ...prev, event_date: e.target.value }))}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Description
-              </label>
-              <textarea
-                value={newEvent.description}
-                onChange={(e) => setNewEvent(prev => ({ ...prev, description: e.target.value }))}
-                rows={2}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                placeholder="Additional details about this event"
-              />
-            </div>
+            {renderEventFields(newEvent, setNewEvent)}
             <div className="flex items-center gap-2">
               <button
                 onClick={handleAddEvent}
-                className="flex items-center gap-2 px-3 py-1.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm font-medium"
+                disabled={isSubmitting}
+                className="flex items-center gap-2 px-3 py-1.5 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 disabled:opacity-60 transition-colors text-sm font-medium"
               >
-                <Check className="w-4 h-4" />
+                {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
                 Add Event
               </button>
               <button
                 onClick={() => {
                   setIsAddingEvent(false);
-                  setNewEvent({ event_name: '', event_date: '', description: '' });
+                  setNewEvent(EMPTY_FORM);
                 }}
-                className="flex items-center gap-2 px-3 py-1.5 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors text-sm font-medium"
+                className="flex items-center gap-2 px-3 py-1.5 bg-gray-600 text-on-accent rounded-lg hover:bg-gray-700 transition-colors text-sm font-medium"
               >
                 <X className="w-4 h-4" />
                 Cancel
@@ -298,68 +350,37 @@ const AssetTimelineManager: React.FC<AssetTimelineManagerProps> = ({
       {/* Timeline Events List */}
       <div className="space-y-3">
         {timelineEvents.length === 0 ? (
-          <div className="text-center py-8 text-gray-500">
+          <div className="text-center py-8 text-gray-300">
             <Calendar className="w-12 h-12 mx-auto mb-3 text-gray-400" />
             <p className="font-medium">No timeline events yet</p>
-            <p className="text-sm">Add events to track important milestones</p>
+            <p className="text-sm text-gray-400">Add events like proof approval or load-in to track this asset</p>
           </div>
         ) : (
           timelineEvents.map((event) => (
             <div
               key={event.id}
-              className={`bg-white border rounded-lg p-4 ${
-                isPastEvent(event.event_date) 
-                  ? 'border-green-200 bg-green-50' 
-                  : 'border-gray-200'
+              className={`border rounded-lg p-4 ${
+                isPastEvent(event.event_date)
+                  ? 'border-green-400/30 bg-green-500/10'
+                  : 'border-white/20 bg-white/5'
               }`}
             >
               {editingEventId === event.id ? (
                 // Edit Mode
                 <div className="space-y-3">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Event Name *
-                    </label>
-                    <input
-                      type="text"
-                      value={editingEvent.event_name}
-                      onChange={(e) => setEditingEvent(prev => ({ ...prev, event_name: e.target.value }))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Event Date *
-                    </label>
-                    <input
-                      type="date"
-                      value={editingEvent.event_date}
-                      onChange={(e) => setEditingEvent(prev => ({ ...prev, event_date: e.target.value }))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Description
-                    </label>
-                    <textarea
-                      value={editingEvent.description}
-                      onChange={(e) => setEditingEvent(prev => ({ ...prev, description: e.target.value }))}
-                      rows={2}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                    />
-                  </div>
+                  {renderEventFields(editingEvent, setEditingEvent)}
                   <div className="flex items-center gap-2">
                     <button
                       onClick={() => handleSaveEdit(event.id)}
-                      className="flex items-center gap-2 px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
+                      disabled={isSubmitting}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-green-600 text-on-accent rounded-lg hover:bg-green-700 disabled:opacity-60 transition-colors text-sm font-medium"
                     >
-                      <Check className="w-4 h-4" />
+                      {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
                       Save
                     </button>
                     <button
                       onClick={cancelEdit}
-                      className="flex items-center gap-2 px-3 py-1.5 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors text-sm font-medium"
+                      className="flex items-center gap-2 px-3 py-1.5 bg-gray-600 text-on-accent rounded-lg hover:bg-gray-700 transition-colors text-sm font-medium"
                     >
                       <X className="w-4 h-4" />
                       Cancel
@@ -368,42 +389,94 @@ const AssetTimelineManager: React.FC<AssetTimelineManagerProps> = ({
                 </div>
               ) : (
                 // Display Mode
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-1">
-                      <h4 className="font-semibold text-gray-900">{event.event_name}</h4>
-                      {isPastEvent(event.event_date) && (
-                        <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-green-100 text-green-800 text-xs font-medium rounded-full">
-                          <Check className="w-3 h-3" />
-                          Completed
+                <>
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1 flex-wrap">
+                        <h4 className="font-semibold text-white">{event.event_name}</h4>
+                        <span className="px-2 py-0.5 bg-purple-500/20 text-purple-200 text-xs font-medium rounded-full">
+                          {getTimelineEventTypeLabel(event.event_type)}
                         </span>
+                        {isPastEvent(event.event_date) && (
+                          <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-green-500/20 text-green-200 text-xs font-medium rounded-full">
+                            <Check className="w-3 h-3" />
+                            Completed
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 text-sm text-gray-300 mb-2">
+                        <Clock className="w-4 h-4" />
+                        <span>{formatDate(event.event_date)}</span>
+                      </div>
+                      {event.description && (
+                        <p className="text-sm text-gray-200">{event.description}</p>
                       )}
                     </div>
-                    <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
-                      <Clock className="w-4 h-4" />
-                      <span>{formatDate(event.event_date)}</span>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => toggleHistory(event.id)}
+                        className={`p-1.5 rounded transition-colors ${
+                          historyEventId === event.id ? 'bg-white/20 text-white' : 'text-gray-300 hover:bg-white/10'
+                        }`}
+                        title="Edit history"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => startEditing(event)}
+                        className="p-1.5 text-gray-300 hover:bg-white/10 rounded transition-colors"
+                        title="Edit event"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteEvent(event.id)}
+                        className="p-1.5 text-red-300 hover:bg-red-500/20 rounded transition-colors"
+                        title="Delete event"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
                     </div>
-                    {event.description && (
-                      <p className="text-sm text-gray-700">{event.description}</p>
-                    )}
-                  </div>
-                  <div className="flex items-center gap-1">
-                    <button
-                      onClick={() => startEditing(event)}
-                      className="p-1.5 text-gray-600 hover:bg-gray-100 rounded transition-colors"
-                      title="Edit event"
-                    >
-                      <Edit2 className="w-4 h-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDeleteEvent(event.id)}
-                      className="p-1.5 text-red-600 hover:bg-red-50 rounded transition-colors"
-                      title="Delete event"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
                   </div>
-                </div>
+
+                  {/* Edit History */}
+                  {historyEventId === event.id && (
+                    <div className="mt-3 pt-3 border-t border-white/10">
+                      {historyLoading ? (
+                        <div className="flex items-center gap-2 text-sm text-gray-300">
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          Loading history...
+                        </div>
+                      ) : history.length === 0 ? (
+                        <p className="text-sm text-gray-400">No changes recorded</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {history.map(entry => {
+                            const changes = getTimelineFieldChanges(entry);
+                            return (
+                              <li key={entry.id} className="text-sm">
+                                <span className="text-gray-400">{formatDateTime(entry.changed_at)}</span>
+                                <span className="ml-2 text-gray-200 capitalize">{entry.change_type}</span>
+                                {changes.length > 0 && (
+                                  <ul className="mt-1 ml-4 space-y-0.5">
+                                    {changes.map(change => (
+                                      <li key={change.field} className="text-gray-300">
+                                        {change.field}:{' '}
+                                        <span className="line-through text-gray-400">{change.from || '—'}</span>
+                                        {' → '}
+                                        <span className="text-white">{change.to || '—'}</span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </>
               )}
             </div>
           ))
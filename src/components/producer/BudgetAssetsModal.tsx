@@ -1,33 +1,66 @@
 import React, { useState, useEffect } from 'react';
-import { X, DollarSign, Package, Loader2, AlertCircle, TrendingUp } from 'lucide-react';
+import { X, DollarSign, Package, Loader2, AlertCircle, TrendingUp, Save } from 'lucide-react';
 import { ProducerService } from '@/services/producerService';
 import type { AssetWithAcceptedQuote } from '@/services/producerService';
+import { ExchangeRateService } from '@/services/exchangeRateService';
+import { BudgetAllocationService } from '@/services/budgetAllocationService';
+import { useNotification } from '@/hooks/useNotification';
+import { DEFAULT_CURRENCY, formatCurrency as formatAmount, sumInBaseCurrency } from '@/utils/currency';
+import type { ExchangeRate, BudgetAllocation, BudgetAllocationInput } from '@/types/database';
+import type { Asset, Quote } from '@/lib/supabase';
+import { getLineItemTotal } from '@/utils/quoteLineItems';
+import { calculateBudgetVariance, type BudgetVarianceRow } from '@/utils/budgetAllocations';
 
 interface BudgetAssetsModalProps {
   isOpen: boolean;
   onClose: () => void;
   projectId: string;
+  /** Project producer whose exchange rates convert the quotes */
+  producerId?: string;
+  /** Project base currency the total is converted into */
+  currency?: string;
 }
 
+const toDrafts = (allocations: BudgetAllocation[]): Record<string, string> =>
+  Object.fromEntries(
+    allocations.map(allocation => [
+      allocation.asset_id ? `asset:${allocation.asset_id}` : `tag:${allocation.tag}`,
+      String(allocation.amount)
+    ])
+  );
+
 /**
  * BudgetAssetsModal - Display all assets with accepted quotes contributing to budget spending
  * 
  * Features:
  * - Fetches and displays assets that have accepted quotes
  * - Shows asset name, cost, supplier, and acceptance date
- * - Calculates and displays total verified spending
+ * - Calculates and displays total verified spending, converted into the project currency
+ * - Allocations view: planned amount per tag and per asset vs quoted and accepted, with variance
  * - Shows loading, error, and empty states
  * - Follows the established modal design pattern
  */
 const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
   isOpen,
   onClose,
-  projectId
+  projectId,
+  producerId,
+  currency = DEFAULT_CURRENCY
 }) => {
   // State management
   const [assets, setAssets] = useState<AssetWithAcceptedQuote[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { showSuccess, showError } = useNotification();
+
+  // Allocations view state
+  const [view, setView] = useState<'spending' | 'allocations'>('spending');
+  const [projectAssets, setProjectAssets] = useState<Asset[]>([]);
+  const [projectQuotes, setProjectQuotes] = useState<Quote[]>([]);
+  // Planned amount inputs keyed by variance row key (`asset:<id>` / `tag:<name>`)
+  const [plannedDrafts, setPlannedDrafts] = useState<Record<string, string>>({});
+  const [savingAllocations, setSavingAllocations] = useState(false);
 
   // Fetch assets with accepted quotes when modal opens
   useEffect(() => {
@@ -40,8 +73,18 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
       try {
         setLoading(true);
         setError(null);
-        const fetchedAssets = await ProducerService.getAssetsWithAcceptedQuotes(projectId);
+        const [fetchedAssets, fetchedRates, fetchedProjectAssets, fetchedAllocations] = await Promise.all([
+          ProducerService.getAssetsWithAcceptedQuotes(projectId),
+          ExchangeRateService.getRates(producerId),
+          ProducerService.getAssetsByProjectId(projectId),
+          BudgetAllocationService.getAllocations(projectId)
+        ]);
+        const fetchedQuotes = await ProducerService.loadQuotesForAssets(fetchedProjectAssets.map(asset => asset.id));
         setAssets(fetchedAssets);
+        setExchangeRates(fetchedRates);
+        setProjectAssets(fetchedProjectAssets);
+        setProjectQuotes(fetchedQuotes);
+        setPlannedDrafts(toDrafts(fetchedAllocations));
       } catch (err) {
         console.error('Error fetching assets with accepted quotes:', err);
         const errorMessage = err instanceof Error ? err.message : 'Failed to load budget breakdown';
@@ -52,7 +95,45 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
     };
 
     fetchAssetsWithAcceptedQuotes();
-  }, [isOpen, projectId]);
+  }, [isOpen, projectId, producerId]);
+
+  // Allocations as entered, ignoring blank inputs
+  const draftAllocations: BudgetAllocationInput[] = Object.entries(plannedDrafts)
+    .filter(([, value]) => value.trim() !== '')
+    .map(([key, value]) => {
+      const [kind, ...rest] = key.split(':');
+      const target = rest.join(':');
+      return {
+        asset_id: kind === 'asset' ? target : null,
+        tag: kind === 'tag' ? target : null,
+        amount: parseFloat(value)
+      };
+    });
+
+  const variance = calculateBudgetVariance(projectAssets, projectQuotes, draftAllocations, {
+    baseCurrency: currency,
+    rates: exchangeRates
+  });
+  const totalAllocatedToAssets = variance.assets.reduce((sum, row) => sum + (row.planned ?? 0), 0);
+
+  const handleSaveAllocations = async () => {
+    if (draftAllocations.some(allocation => !(allocation.amount >= 0))) {
+      showError('Allocations must be 0 or more');
+      return;
+    }
+
+    setSavingAllocations(true);
+    try {
+      const saved = await BudgetAllocationService.saveAllocations(projectId, draftAllocations);
+      setPlannedDrafts(toDrafts(saved));
+      showSuccess('Budget allocations saved');
+    } catch (err) {
+      console.error('Error saving budget allocations:', err);
+      showError(err instanceof Error ? err.message : 'Failed to save budget allocations');
+    } finally {
+      setSavingAllocations(false);
+    }
+  };
 
   // Handle backdrop click - close modal
   const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -76,13 +157,11 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
   }, [isOpen, onClose]);
 
   // Format currency helper
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
+  const formatCurrency = (amount: number, amountCurrency: string = currency): string => {
+    return formatAmount(amount, amountCurrency, {
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
-    }).format(amount);
+    });
   };
 
   // Format date helper
@@ -94,18 +173,87 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
     });
   };
 
-  // Calculate total spending from all assets
-  const totalSpent = assets.reduce((sum, asset) => sum + asset.acceptedQuote.cost, 0);
+  // Calculate total spending from all assets in the project currency
+  const { total: totalSpent, missingRates } = sumInBaseCurrency(
+    assets.map(asset => ({ amount: asset.acceptedQuote.cost, currency: asset.acceptedQuote.currency })),
+    { baseCurrency: currency, rates: exchangeRates }
+  );
+
+  const renderVarianceTable = (title: string, rows: BudgetVarianceRow[]) => {
+    if (rows.length === 0) return null;
+
+    return (
+      <div>
+        <h4 className="font-semibold text-gray-900 mb-2">{title}</h4>
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Name</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-700">Planned</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-700">Quoted</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-700">Accepted</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-700">Variance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((row) => (
+                <tr key={row.key}>
+                  <td className="px-3 py-2 text-gray-900">
+                    {row.label}
+                    {row.unconvertedQuoteCount > 0 && (
+                      <span className="block text-xs text-yellow-700">
+                        {row.unconvertedQuoteCount} quote(s) without a rate to {currency}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={plannedDrafts[row.key] ?? ''}
+                      onChange={(e) => setPlannedDrafts(prev => ({ ...prev, [row.key]: e.target.value }))}
+                      placeholder="—"
+                      aria-label={`Planned budget for ${row.label}`}
+                      className="w-28 px-2 py-1 text-right border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700 whitespace-nowrap">
+                    {row.quoted === 0 && row.sealedQuoteCount > 0 ? 'Sealed' : formatCurrency(row.quoted)}
+                    {row.sealedQuoteCount > 0 && (
+                      <span className="block text-xs text-gray-500">
+                        {row.sealedQuoteCount} sealed bid(s) not counted
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-900 font-medium whitespace-nowrap">{formatCurrency(row.accepted)}</td>
+                  <td
+                    className={`px-3 py-2 text-right font-semibold whitespace-nowrap ${
+                      row.variance === null ? 'text-gray-400' : row.variance < 0 ? 'text-red-600' : 'text-green-600'
+                    }`}
+                    title="Planned minus accepted cost (or the lowest quote until one is accepted)"
+                  >
+                    {row.variance === null ? '—' : formatCurrency(row.variance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
 
   // Don't render if not open
   if (!isOpen) return null;
 
   return (
     <div 
-      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4"
+      className="fixed inset-0 z-50 flex items-center justify-center bg-ink bg-opacity-40 p-4"
       onClick={handleBackdropClick}
     >
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+      <div className="bg-paper rounded-lg shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
         {/* Header with close button */}
         <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-green-50 to-white flex-shrink-0">
           <div className="flex items-center gap-3">
@@ -114,9 +262,25 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
             </div>
             <div>
               <h3 className="text-xl font-bold text-gray-900">Budget Breakdown</h3>
-              <p className="text-sm text-gray-600">Assets with accepted quotes</p>
+              <p className="text-sm text-gray-600">
+                {view === 'spending' ? 'Assets with accepted quotes' : 'Planned vs quoted vs accepted'}
+              </p>
             </div>
           </div>
+          <div className="ml-auto mr-3 flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+            {(['spending', 'allocations'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`px-3 py-1.5 font-medium capitalize transition-colors ${
+                  view === option ? 'bg-green-600 text-on-accent' : 'bg-paper text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
           <button
             type="button"
             onClick={onClose}
@@ -148,15 +312,33 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
               <p className="text-gray-600 text-center mb-4">{error}</p>
               <button
                 onClick={() => window.location.reload()}
-                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                className="px-4 py-2 bg-green-600 text-on-accent rounded-lg hover:bg-green-700 transition-colors"
               >
                 Reload Page
               </button>
             </div>
           )}
 
+          {/* Allocations */}
+          {!loading && !error && view === 'allocations' && (
+            projectAssets.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12">
+                <div className="bg-gray-50 rounded-full p-4 mb-4">
+                  <Package className="w-10 h-10 text-gray-400" />
+                </div>
+                <h4 className="text-lg font-semibold text-gray-900 mb-2">No Assets</h4>
+                <p className="text-gray-600 text-center">Add assets to this project to plan its budget.</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {renderVarianceTable('Categories', variance.tags)}
+                {renderVarianceTable('Assets', variance.assets)}
+              </div>
+            )
+          )}
+
           {/* Empty State */}
-          {!loading && !error && assets.length === 0 && (
+          {!loading && !error && view === 'spending' && assets.length === 0 && (
             <div className="flex flex-col items-center justify-center py-12">
               <div className="bg-gray-50 rounded-full p-4 mb-4">
                 <Package className="w-10 h-10 text-gray-400" />
@@ -172,7 +354,7 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
           )}
 
           {/* Success State - Asset List */}
-          {!loading && !error && assets.length > 0 && (
+          {!loading && !error && view === 'spending' && assets.length > 0 && (
             <div className="space-y-4">
               {/* Info header */}
               <div className="mb-4">
@@ -185,7 +367,7 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
               {assets.map((asset) => (
                 <div
                   key={asset.id}
-                  className="rounded-lg border-2 border-gray-200 bg-white p-5 hover:border-green-300 hover:shadow-sm transition-all"
+                  className="rounded-lg border-2 border-gray-200 bg-paper p-5 hover:border-green-300 hover:shadow-sm transition-all"
                 >
                   {/* Asset header with cost */}
                   <div className="flex items-start justify-between mb-3">
@@ -201,7 +383,7 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
                     </div>
                     <div className="ml-4 text-right flex-shrink-0">
                       <p className="text-2xl font-bold text-green-600">
-                        {formatCurrency(asset.acceptedQuote.cost)}
+                        {formatCurrency(asset.acceptedQuote.cost, asset.acceptedQuote.currency)}
                       </p>
                       <p className="text-xs text-gray-500 mt-1">Quote Cost</p>
                     </div>
@@ -237,36 +419,23 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
                     </div>
                   </div>
 
-                  {/* Cost breakdown (if available) */}
-                  {asset.acceptedQuote.cost_breakdown && (
+                  {/* Line items (if itemised) */}
+                  {asset.acceptedQuote.line_items.length > 0 && (
                     <div className="mt-3 pt-3 border-t border-gray-100">
-                      <p className="text-xs text-gray-600 mb-2 font-medium">Cost Breakdown:</p>
-                      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
-                        {asset.acceptedQuote.cost_breakdown.labor > 0 && (
-                          <div>
-                            <span className="text-gray-500">Labor: </span>
-                            <span className="font-medium">{formatCurrency(asset.acceptedQuote.cost_breakdown.labor)}</span>
-                          </div>
-                        )}
-                        {asset.acceptedQuote.cost_breakdown.materials > 0 && (
-                          <div>
-                            <span className="text-gray-500">Materials: </span>
-                            <span className="font-medium">{formatCurrency(asset.acceptedQuote.cost_breakdown.materials)}</span>
-                          </div>
-                        )}
-                        {asset.acceptedQuote.cost_breakdown.equipment > 0 && (
-                          <div>
-                            <span className="text-gray-500">Equipment: </span>
-                            <span className="font-medium">{formatCurrency(asset.acceptedQuote.cost_breakdown.equipment)}</span>
-                          </div>
-                        )}
-                        {asset.acceptedQuote.cost_breakdown.other > 0 && (
-                          <div>
-                            <span className="text-gray-500">Other: </span>
-                            <span className="font-medium">{formatCurrency(asset.acceptedQuote.cost_breakdown.other)}</span>
-                          </div>
-                        )}
-                      </div>
+                      <p className="text-xs text-gray-600 mb-2 font-medium">Line Items:</p>
+                      <ul className="space-y-1 text-xs">
+                        {asset.acceptedQuote.line_items.map((item) => (
+                          <li key={item.id} className="flex justify-between gap-2">
+                            <span className={item.is_optional ? 'text-gray-400 italic' : 'text-gray-500'}>
+                              {Number(item.quantity)} {item.unit} × {item.description}
+                              {item.is_optional && ' (optional)'}
+                            </span>
+                            <span className="font-medium">
+                              {formatCurrency(getLineItemTotal(item), asset.acceptedQuote.currency)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
                     </div>
                   )}
                 </div>
@@ -275,8 +444,27 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
           )}
         </div>
 
+        {/* Allocations footer */}
+        {!loading && !error && view === 'allocations' && projectAssets.length > 0 && (
+          <div className="px-6 py-4 border-t-2 border-gray-200 bg-gradient-to-r from-green-50 to-gray-50 flex-shrink-0 flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600 font-medium">Allocated to assets</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalAllocatedToAssets)}</p>
+            </div>
+            <button
+              type="button"
+              onClick={handleSaveAllocations}
+              disabled={savingAllocations}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-on-accent rounded-lg hover:bg-green-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+            >
+              {savingAllocations ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save Allocations
+            </button>
+          </div>
+        )}
+
         {/* Summary Footer - Always visible when data is loaded */}
-        {!loading && !error && assets.length > 0 && (
+        {!loading && !error && view === 'spending' && assets.length > 0 && (
           <div className="px-6 py-4 border-t-2 border-gray-200 bg-gradient-to-r from-green-50 to-gray-50 flex-shrink-0">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
@@ -295,6 +483,11 @@ const BudgetAssetsModal: React.FC<BudgetAssetsModalProps> = ({
                 <p className="text-xs text-gray-500 mt-1">
                   Matches budget bar "Spent" value
                 </p>
+                {missingRates.length > 0 && (
+                  <p className="text-xs text-yellow-700 mt-1">
+                    Excludes {missingRates.join(', ')} quotes (no rate to {currency})
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,376 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, ShieldCheck, Send, Loader2, AlertCircle, History, Undo2, Lock } from 'lucide-react';
+import { ProducerService } from '@/services/producerService';
+import { ClientApprovalService, type ClientApprovalRequestItem } from '@/services/clientApprovalService';
+import { useNotification } from '@/hooks/useNotification';
+import { useEscapeKey } from '@/hooks/useEscapeKey';
+import { formatCurrency } from '@/utils/currency';
+import { isBidSealed, describeBidOpening } from '@/utils/sealedBids';
+import type { Project, Asset, Quote } from '@/lib/supabase';
+import type { ClientApproval, ClientApprovalHistoryEntry, ClientApprovalStatus } from '@/types/database';
+
+interface ClientApprovalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+  assets: Asset[];
+}
+
+const STATUS_STYLES: Record<ClientApprovalStatus, string> = {
+  pending: 'bg-amber-500/20 text-amber-200 border-amber-400/40',
+  approved: 'bg-green-500/20 text-green-200 border-green-400/40',
+  rejected: 'bg-red-500/20 text-red-200 border-red-400/40',
+  withdrawn: 'bg-gray-500/20 text-gray-300 border-gray-400/40'
+};
+
+const EVENT_LABELS: Record<ClientApprovalHistoryEntry['event'], string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn'
+};
+
+const itemKey = (assetId: string, quoteId?: string | null): string => `${assetId}:${quoteId ?? ''}`;
+
+/**
+ * ClientApprovalModal - Send quotes and assets to the client for approval
+ *
+ * Producers pick submitted quotes (approval before acceptance) or assets
+ * (sign-off), follow the client's decisions and read the audit trail.
+ */
+const ClientApprovalModal: React.FC<ClientApprovalModalProps> = ({ isOpen, onClose, project, assets }) => {
+  const { showSuccess, showError } = useNotification();
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [approvals, setApprovals] = useState<ClientApproval[]>([]);
+  const [history, setHistory] = useState<ClientApprovalHistoryEntry[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEscapeKey(isOpen, onClose, sending);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [projectQuotes, projectApprovals, projectHistory] = await Promise.all([
+        ProducerService.loadQuotesForAssets(assets.map(asset => asset.id)),
+        ClientApprovalService.getApprovalsForProject(project.id),
+        ClientApprovalService.getHistoryForProject(project.id)
+      ]);
+      setQuotes(projectQuotes.filter(quote => quote.status === 'Submitted'));
+      setApprovals(projectApprovals);
+      setHistory(projectHistory);
+    } catch (err) {
+      console.error('Error loading client approvals:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load client approvals');
+    } finally {
+      setLoading(false);
+    }
+  }, [assets, project.id]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelected(new Set());
+      setMessage('');
+      loadData();
+    }
+  }, [isOpen, loadData]);
+
+  const pendingKeys = new Set(
+    approvals
+      .filter(approval => approval.status === 'pending')
+      .map(approval => itemKey(approval.asset_id, approval.quote_id))
+  );
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleSend = async () => {
+    const items: ClientApprovalRequestItem[] = Array.from(selected).map((key) => {
+      const [assetId, quoteId] = key.split(':');
+      return { assetId, quoteId: quoteId || null };
+    });
+
+    setSending(true);
+    try {
+      const created = await ClientApprovalService.requestApprovals(project.id, items, message);
+      showSuccess(`Sent ${created.length} ${created.length === 1 ? 'item' : 'items'} to ${project.client_name} for approval`);
+      setSelected(new Set());
+      setMessage('');
+      await loadData();
+    } catch (err) {
+      console.error('Error requesting client approval:', err);
+      showError(err instanceof Error ? err.message : 'Failed to request client approval');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleWithdraw = async (approvalId: string) => {
+    try {
+      await ClientApprovalService.withdraw(approvalId);
+      showSuccess('Approval request withdrawn');
+      await loadData();
+    } catch (err) {
+      console.error('Error withdrawing approval request:', err);
+      showError(err instanceof Error ? err.message : 'Failed to withdraw approval request');
+    }
+  };
+
+  const describeApproval = (approval: ClientApproval): string => {
+    const assetName = approval.asset?.asset_name ?? 'Asset';
+    if (!approval.quote) return `${assetName} — sign-off`;
+    const supplierName = approval.quote.supplier?.supplier_name ?? 'Supplier';
+    const cost = isBidSealed(approval.asset) ? 'sealed' : formatCurrency(approval.quote.cost, approval.quote.currency);
+    return `${assetName} — ${supplierName} quote (${cost})`;
+  };
+
+  const formatDateTime = (value: string): string =>
+    new Date(value).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  if (!isOpen) return null;
+
+  const approvalsById = new Map(approvals.map(approval => [approval.id, approval]));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={(e) => e.target === e.currentTarget && !sending && onClose()}
+    >
+      <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-lg shadow-xl w-full max-w-3xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/20">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-teal-500/20 rounded-lg">
+              <ShieldCheck className="w-5 h-5 text-teal-300" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-white">Client Approvals</h3>
+              <p className="text-sm text-gray-300">
+                {project.client_name}
+                {project.requires_client_approval && ' · Quotes need client approval before acceptance'}
+              </p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={sending}
+            className="text-gray-300 hover:text-white transition-colors p-1 rounded-lg"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 max-h-[75vh] overflow-y-auto space-y-8">
+          {loading ? (
+            <div className="flex flex-col items-center justify-center py-12">
+              <Loader2 className="w-10 h-10 text-teal-400 animate-spin mb-4" />
+              <p className="text-gray-200">Loading approvals...</p>
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center justify-center py-12">
+              <AlertCircle className="w-10 h-10 text-red-400 mb-4" />
+              <p className="text-gray-200 text-center mb-4">{error}</p>
+              <button
+                onClick={loadData}
+                className="px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 transition-colors"
+              >
+                Try Again
+              </button>
+            </div>
+          ) : (
+            <>
+              {/* Send for approval */}
+              <section>
+                <h4 className="text-lg font-semibold text-white mb-3">Send for Approval</h4>
+                {assets.length === 0 ? (
+                  <p className="text-sm text-gray-300">This project has no assets yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {assets.map((asset) => {
+                      // Sealed bids can't go to the client until they open
+                      const sealed = isBidSealed(asset);
+                      const submittedQuotes = quotes.filter(quote => quote.asset_id === asset.id);
+                      const assetQuotes = sealed ? [] : submittedQuotes;
+                      const signOffKey = itemKey(asset.id);
+
+                      return (
+                        <div key={asset.id} className="bg-white/5 border border-white/10 rounded-lg p-3">
+                          <label className="flex items-center gap-2 text-white font-medium">
+                            <input
+                              type="checkbox"
+                              checked={selected.has(signOffKey)}
+                              onChange={() => toggle(signOffKey)}
+                              disabled={pendingKeys.has(signOffKey)}
+                              className="rounded border-white/20 bg-white/5 text-teal-500 focus:ring-teal-500"
+                            />
+                            {asset.asset_name}
+                            <span className="text-xs font-normal text-gray-400">sign-off</span>
+                            {pendingKeys.has(signOffKey) && (
+                              <span className={`text-xs px-2 py-0.5 rounded-full border ${STATUS_STYLES.pending}`}>
+                                Awaiting client
+                              </span>
+                            )}
+                          </label>
+                          {sealed && submittedQuotes.length > 0 && (
+                            <div className="mt-2 ml-6 flex items-center gap-1 text-xs text-amber-200">
+                              <Lock className="w-3 h-3" />
+                              <span>
+                                {submittedQuotes.length} sealed {submittedQuotes.length === 1 ? 'quote' : 'quotes'} ·{' '}
+                                {describeBidOpening(asset)}
+                              </span>
+                            </div>
+                          )}
+                          {assetQuotes.length > 0 && (
+                            <div className="mt-2 ml-6 space-y-1">
+                              {assetQuotes.map((quote) => {
+                                const key = itemKey(asset.id, quote.id);
+                                return (
+                                  <label key={quote.id} className="flex items-center gap-2 text-sm text-gray-200">
+                                    <input
+                                      type="checkbox"
+                                      checked={selected.has(key)}
+                                      onChange={() => toggle(key)}
+                                      disabled={pendingKeys.has(key)}
+                                      className="rounded border-white/20 bg-white/5 text-teal-500 focus:ring-teal-500"
+                                    />
+                                    {quote.supplier?.supplier_name ?? 'Supplier'} quote ·{' '}
+                                    {formatCurrency(quote.cost, quote.currency)}
+                                    {pendingKeys.has(key) && (
+                                      <span className={`text-xs px-2 py-0.5 rounded-full border ${STATUS_STYLES.pending}`}>
+                                        Awaiting client
+                                      </span>
+                                    )}
+                                  </label>
+                                );
+                              })}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  placeholder="Message to the client (optional)"
+                  rows={2}
+                  disabled={sending}
+                  className="mt-3 w-full px-4 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+                <div className="flex justify-end mt-3">
+                  <button
+                    type="button"
+                    onClick={handleSend}
+                    disabled={sending || selected.size === 0}
+                    className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                    Send {selected.size > 0 ? `(${selected.size})` : ''}
+                  </button>
+                </div>
+              </section>
+
+              {/* Requests */}
+              <section>
+                <h4 className="text-lg font-semibold text-white mb-3">Requests</h4>
+                {approvals.length === 0 ? (
+                  <p className="text-sm text-gray-300">Nothing has been sent to the client yet.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {approvals.map((approval) => (
+                      <li key={approval.id} className="bg-white/5 border border-white/10 rounded-lg p-3 text-sm">
+                        <div className="flex items-start justify-between gap-3">
+                          <div>
+                            <p className="text-white">{describeApproval(approval)}</p>
+                            <p className="text-xs text-gray-400">Sent {formatDateTime(approval.requested_at)}</p>
+                            {approval.decided_at && approval.status !== 'withdrawn' && (
+                              <p className="text-xs text-gray-300 mt-1">
+                                {approval.status === 'approved' ? 'Approved' : 'Rejected'} by{' '}
+                                {approval.decided_by_name || 'client'} on {formatDateTime(approval.decided_at)}
+                              </p>
+                            )}
+                            {approval.decision_comment && (
+                              <p className="text-xs text-gray-200 italic mt-1">"{approval.decision_comment}"</p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            <span className={`text-xs px-2 py-0.5 rounded-full border capitalize ${STATUS_STYLES[approval.status]}`}>
+                              {approval.status}
+                            </span>
+                            {approval.status === 'pending' && (
+                              <button
+                                type="button"
+                                onClick={() => handleWithdraw(approval.id)}
+                                className="p-1 text-gray-300 hover:text-white"
+                                title="Withdraw request"
+                              >
+                                <Undo2 className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              {/* Audit trail */}
+              {history.length > 0 && (
+                <section>
+                  <h4 className="text-lg font-semibold text-white mb-3 flex items-center gap-2">
+                    <History className="w-5 h-5 text-gray-300" />
+                    Audit Trail
+                  </h4>
+                  <ol className="space-y-1 text-xs text-gray-300">
+                    {history.map((entry) => {
+                      const approval = approvalsById.get(entry.approval_id);
+                      return (
+                        <li key={entry.id} className="flex gap-2">
+                          <span className="text-gray-400 whitespace-nowrap">{formatDateTime(entry.changed_at)}</span>
+                          <span>
+                            <span className="font-medium text-white">{EVENT_LABELS[entry.event]}</span>
+                            {' by '}
+                            {entry.actor_type === 'producer_for_client'
+                              ? `${entry.actor_name || 'client'} (recorded by producer)`
+                              : entry.actor_name || 'producer'}
+                            {approval && ` · ${describeApproval(approval)}`}
+                            {entry.comment && ` — "${entry.comment}"`}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClientApprovalModal;
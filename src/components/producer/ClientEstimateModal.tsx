@@ -0,0 +1,344 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { X, FileText, Download, Send, Loader2, AlertCircle, Paperclip } from 'lucide-react';
+import { ClientEstimateService, type ClientEstimateSource } from '@/services/clientEstimateService';
+import { ClientMessageService } from '@/services/clientMessageService';
+import { useNotification } from '@/hooks/useNotification';
+import { useEscapeKey } from '@/hooks/useEscapeKey';
+import { formatCurrency, DEFAULT_CURRENCY } from '@/utils/currency';
+import {
+  buildClientEstimate,
+  DEFAULT_CLIENT_ESTIMATE_OPTIONS,
+  type ClientEstimateOptions
+} from '@/utils/clientEstimate';
+import type { Project } from '@/lib/supabase';
+import type { ClientMessage } from '@/types/database';
+
+interface ClientEstimateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+}
+
+/**
+ * ClientEstimateModal - Build a client cost estimate from accepted quotes
+ *
+ * Producers set the markup and management fee, choose tag grouping and
+ * whether suppliers are named, then download the PDF or send it to the client.
+ */
+const ClientEstimateModal: React.FC<ClientEstimateModalProps> = ({ isOpen, onClose, project }) => {
+  const { showSuccess, showError } = useNotification();
+  const [source, setSource] = useState<ClientEstimateSource | null>(null);
+  const [sentMessages, setSentMessages] = useState<ClientMessage[]>([]);
+  const [options, setOptions] = useState<ClientEstimateOptions>(DEFAULT_CLIENT_ESTIMATE_OPTIONS);
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEscapeKey(isOpen, onClose, sending);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [estimateSource, messages] = await Promise.all([
+        ClientEstimateService.loadEstimateSource(project),
+        ClientMessageService.getMessagesForProject(project.id)
+      ]);
+      setSource(estimateSource);
+      setSentMessages(messages.filter(item => item.attachment_storage_path));
+    } catch (err) {
+      console.error('Error loading estimate data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load accepted quotes');
+    } finally {
+      setLoading(false);
+    }
+  }, [project]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMessage('');
+      loadData();
+    }
+  }, [isOpen, loadData]);
+
+  const estimate = useMemo(
+    () => source
+      ? buildClientEstimate(
+          source.assets,
+          { baseCurrency: project.base_currency || DEFAULT_CURRENCY, rates: source.rates },
+          options
+        )
+      : null,
+    [source, options, project.base_currency]
+  );
+
+  const updateOption = <K extends keyof ClientEstimateOptions>(key: K, value: ClientEstimateOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const parsePercent = (value: string): number => Math.max(0, Number(value) || 0);
+
+  const handleDownload = () => {
+    if (!source || !estimate) return;
+    try {
+      ClientEstimateService.download(project, estimate, source.branding);
+    } catch (err) {
+      console.error('Error generating estimate PDF:', err);
+      showError('Failed to generate the estimate PDF');
+    }
+  };
+
+  const handleSend = async () => {
+    if (!source || !estimate) return;
+    setSending(true);
+    try {
+      const sent = await ClientEstimateService.sendToClient(project, estimate, source.branding, message);
+      setSentMessages(prev => [sent, ...prev]);
+      setMessage('');
+      showSuccess(`Estimate sent to ${project.client_name}`);
+    } catch (err) {
+      console.error('Error sending estimate:', err);
+      showError(err instanceof Error ? err.message : 'Failed to send the estimate');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const money = (amount: number) => formatCurrency(amount, estimate?.currency);
+  const hasLines = !!estimate && estimate.groups.length > 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={(e) => e.target === e.currentTarget && !sending && onClose()}
+    >
+      <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-lg shadow-xl w-full max-w-4xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/20">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-teal-500/20 rounded-lg">
+              <FileText className="w-5 h-5 text-teal-300" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-white">Client Estimate</h3>
+              <p className="text-sm text-gray-300">{project.client_name} · from accepted quotes</p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={sending}
+            className="text-gray-300 hover:text-white transition-colors p-1 rounded-lg"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 max-h-[75vh] overflow-y-auto space-y-6">
+          {loading ? (
+            <div className="flex flex-col items-center justify-center py-12">
+              <Loader2 className="w-10 h-10 text-teal-400 animate-spin mb-4" />
+              <p className="text-gray-200">Loading accepted quotes...</p>
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center justify-center py-12">
+              <AlertCircle className="w-10 h-10 text-red-400 mb-4" />
+              <p className="text-gray-200 text-center mb-4">{error}</p>
+              <button
+                onClick={loadData}
+                className="px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 transition-colors"
+              >
+                Try Again
+              </button>
+            </div>
+          ) : estimate && (
+            <>
+              {/* Options */}
+              <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-200">Markup on each line (%)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={options.markupPercent}
+                    onChange={(e) => updateOption('markupPercent', parsePercent(e.target.value))}
+                    className="mt-1 w-full px-3 py-2 bg-black/20 border border-white/20 rounded-lg text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-200">Management fee (%)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={options.managementFeePercent}
+                    onChange={(e) => updateOption('managementFeePercent', parsePercent(e.target.value))}
+                    className="mt-1 w-full px-3 py-2 bg-black/20 border border-white/20 rounded-lg text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={options.groupByTag}
+                    onChange={(e) => updateOption('groupByTag', e.target.checked)}
+                    className="rounded border-white/20 bg-white/5 text-teal-500 focus:ring-teal-500"
+                  />
+                  Group by asset tag
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={options.hideSupplierNames}
+                    onChange={(e) => updateOption('hideSupplierNames', e.target.checked)}
+                    className="rounded border-white/20 bg-white/5 text-teal-500 focus:ring-teal-500"
+                  />
+                  Hide supplier names
+                </label>
+                <label className="block md:col-span-2">
+                  <span className="text-sm font-medium text-gray-200">Notes on the estimate</span>
+                  <textarea
+                    value={options.notes}
+                    onChange={(e) => updateOption('notes', e.target.value)}
+                    rows={2}
+                    placeholder="e.g. Prices exclude VAT. Valid for 30 days."
+                    className="mt-1 w-full px-4 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  />
+                </label>
+              </section>
+
+              {/* Preview */}
+              <section>
+                <h4 className="text-lg font-semibold text-white mb-3">Preview</h4>
+                {!hasLines ? (
+                  <p className="text-sm text-gray-300">
+                    No accepted quotes yet. Accept quotes to build the estimate.
+                  </p>
+                ) : (
+                  <div className="bg-white/5 border border-white/10 rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-white/5 text-gray-300">
+                        <tr>
+                          <th className="text-left px-4 py-2 font-medium">Item</th>
+                          {!options.hideSupplierNames && <th className="text-left px-4 py-2 font-medium">Supplier</th>}
+                          <th className="text-right px-4 py-2 font-medium">Qty</th>
+                          <th className="text-right px-4 py-2 font-medium">Cost</th>
+                          <th className="text-right px-4 py-2 font-medium">Client price</th>
+                        </tr>
+                      </thead>
+                      {estimate.groups.map(group => (
+                        <tbody key={group.label} className="divide-y divide-white/10">
+                          {options.groupByTag && (
+                            <tr className="bg-white/5">
+                              <td colSpan={options.hideSupplierNames ? 4 : 5} className="px-4 py-2 font-semibold text-teal-200">
+                                {group.label}
+                              </td>
+                            </tr>
+                          )}
+                          {group.lines.map(line => (
+                            <tr key={line.assetId}>
+                              <td className="px-4 py-2 text-white">{line.assetName}</td>
+                              {!options.hideSupplierNames && <td className="px-4 py-2 text-gray-300">{line.supplierName}</td>}
+                              <td className="px-4 py-2 text-right text-gray-300">{line.quantity ?? ''}</td>
+                              <td className="px-4 py-2 text-right text-gray-400">{money(line.cost)}</td>
+                              <td className="px-4 py-2 text-right text-white">{money(line.price)}</td>
+                            </tr>
+                          ))}
+                          {options.groupByTag && (
+                            <tr>
+                              <td colSpan={options.hideSupplierNames ? 3 : 4} className="px-4 py-2 text-right text-gray-400">
+                                {group.label} subtotal
+                              </td>
+                              <td className="px-4 py-2 text-right font-medium text-white">{money(group.subtotal)}</td>
+                            </tr>
+                          )}
+                        </tbody>
+                      ))}
+                    </table>
+                    <div className="border-t border-white/20 px-4 py-3 space-y-1 text-sm">
+                      <div className="flex justify-between text-gray-300">
+                        <span>Subtotal</span>
+                        <span>{money(estimate.subtotal)}</span>
+                      </div>
+                      {options.managementFeePercent > 0 && (
+                        <div className="flex justify-between text-gray-300">
+                          <span>Management fee ({options.managementFeePercent}%)</span>
+                          <span>{money(estimate.managementFee)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between text-base font-semibold text-white">
+                        <span>Total to client</span>
+                        <span>{money(estimate.total)}</span>
+                      </div>
+                      <div className="flex justify-between text-xs text-gray-400">
+                        <span>Supplier cost (not shown on the PDF)</span>
+                        <span>{money(estimate.costTotal)}</span>
+                      </div>
+                    </div>
+                  </div>
+                )}
+                {estimate.excludedAssets.length > 0 && (
+                  <p className="mt-2 text-sm text-yellow-300">
+                    Left out (no exchange rate to {estimate.currency}): {estimate.excludedAssets.join(', ')}
+                  </p>
+                )}
+              </section>
+
+              {/* Send */}
+              <section>
+                <h4 className="text-lg font-semibold text-white mb-3">Send to Client</h4>
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  placeholder="Message to the client (optional)"
+                  rows={2}
+                  disabled={sending}
+                  className="w-full px-4 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+                <div className="flex justify-end gap-3 mt-3">
+                  <button
+                    type="button"
+                    onClick={handleDownload}
+                    disabled={!hasLines}
+                    className="flex items-center gap-2 px-4 py-2 border border-white/20 text-gray-200 rounded-lg hover:bg-white/10 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                    Download PDF
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleSend}
+                    disabled={sending || !hasLines}
+                    className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                    Send with PDF
+                  </button>
+                </div>
+                {sentMessages.length > 0 && (
+                  <ul className="mt-4 space-y-2">
+                    {sentMessages.map(sent => (
+                      <li key={sent.id} className="flex items-start gap-2 text-sm text-gray-300">
+                        <Paperclip className="w-4 h-4 mt-0.5 text-gray-400" />
+                        <span>
+                          {sent.attachment_filename} sent {new Date(sent.created_at).toLocaleString()}
+                          {sent.body && <span className="block text-xs text-gray-400 italic">"{sent.body}"</span>}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClientEstimateModal;
@@ -103,7 +103,7 @@ const ClientProjectsModal: React.FC<ClientProjectsModalProps> = ({
 
   return (
     <div 
-      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4"
+      className="fixed inset-0 z-50 flex items-center justify-center bg-ink bg-opacity-40 p-4"
       onClick={handleBackdropClick}
     >
       <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-lg shadow-lg w-full max-w-2xl overflow-hidden">
@@ -149,7 +149,7 @@ const ClientProjectsModal: React.FC<ClientProjectsModalProps> = ({
               <p className="text-gray-300 text-center mb-4">{error}</p>
               <button
                 onClick={() => window.location.reload()}
-                className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors"
+                className="px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 transition-colors"
               >
                 Reload Page
               </button>
@@ -201,7 +201,7 @@ const ClientProjectsModal: React.FC<ClientProjectsModalProps> = ({
                     {/* Current project badge */}
                     {isCurrentProject && (
                       <div className="absolute top-3 right-3">
-                        <div className="flex items-center gap-1 px-2 py-1 bg-teal-600 text-white rounded-full text-xs font-semibold">
+                        <div className="flex items-center gap-1 px-2 py-1 bg-teal-600 text-on-accent rounded-full text-xs font-semibold">
                           <CheckCircle className="w-3 h-3" />
                           <span>Current</span>
                         </div>
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { useNavigate } from 'react-router-dom';
+import { Search, FileText, FolderOpen, Package, Users, User, MessageSquare, Loader2, CornerDownLeft } from 'lucide-react';
+import { GlobalSearchService } from '@/services/globalSearchService';
+import { useEscapeKey } from '@/hooks/useEscapeKey';
+import { useDebouncedCallback } from '@/hooks/useDebouncedCallback';
+import {
+  searchCommands,
+  type CommandAction,
+  type CommandResultType,
+  type CommandSearchIndex,
+  type MessageSearchHit
+} from '@/utils/commandSearch';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TYPE_ICONS: Record<CommandResultType, React.ElementType> = {
+  page: FileText,
+  project: FolderOpen,
+  asset: Package,
+  supplier: Users,
+  contact: User,
+  message: MessageSquare
+};
+
+const TYPE_LABELS: Record<CommandResultType, string> = {
+  page: 'Page',
+  project: 'Project',
+  asset: 'Asset',
+  supplier: 'Supplier',
+  contact: 'Contact',
+  message: 'Message'
+};
+
+const EMPTY_INDEX: CommandSearchIndex = { projects: [], assets: [], suppliers: [], latestQuoteIdBySupplier: {} };
+
+/**
+ * CommandPalette - Keyboard-driven search across the producer's workspace
+ *
+ * Features:
+ * - Searches projects, assets, suppliers, contact persons and chat messages
+ * - Ranked results, each with actions (open project, request quote, open chat...)
+ * - Up/Down picks a result, Left/Right picks an action, Enter runs it
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose }) => {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [index, setIndex] = useState<CommandSearchIndex>(EMPTY_INDEX);
+  const [indexLoading, setIndexLoading] = useState(false);
+  const [messageHits, setMessageHits] = useState<MessageSearchHit[]>([]);
+  const [messagesLoading, setMessagesLoading] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [selectedAction, setSelectedAction] = useState(0);
+
+  useEscapeKey(isOpen, onClose);
+
+  // Reload on every open so new projects and suppliers show up
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setQuery('');
+    setMessageHits([]);
+    setSelectedIndex(0);
+    setSelectedAction(0);
+    requestAnimationFrame(() => inputRef.current?.focus());
+
+    let cancelled = false;
+    setIndexLoading(true);
+    GlobalSearchService.loadIndex()
+      .then((loaded) => {
+        if (!cancelled) setIndex(loaded);
+      })
+      .catch((err) => {
+        console.error('Failed to load command palette search index:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setIndexLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const searchMessages = useDebouncedCallback(async (term: string, projectIds: string[]) => {
+    try {
+      setMessageHits(await GlobalSearchService.searchMessages(term, projectIds));
+    } catch (err) {
+      console.error('Failed to search messages:', err);
+      setMessageHits([]);
+    } finally {
+      setMessagesLoading(false);
+    }
+  }, 300);
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setSelectedIndex(0);
+    setSelectedAction(0);
+    if (value.trim().length >= 2) {
+      setMessagesLoading(true);
+      searchMessages(value, index.projects.map(project => project.id));
+    } else {
+      setMessageHits([]);
+      setMessagesLoading(false);
+    }
+  };
+
+  const results = useMemo(() => searchCommands(index, query, messageHits), [index, query, messageHits]);
+
+  const runAction = useCallback((action: CommandAction) => {
+    onClose();
+    if (action.to.startsWith('mailto:')) {
+      window.location.href = action.to;
+    } else {
+      navigate(action.to);
+    }
+  }, [navigate, onClose]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const current = results[selectedIndex];
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setSelectedIndex(prev => Math.min(prev + 1, results.length - 1));
+      setSelectedAction(0);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setSelectedIndex(prev => Math.max(prev - 1, 0));
+      setSelectedAction(0);
+    } else if (event.key === 'ArrowRight' && current && current.actions.length > 1) {
+      event.preventDefault();
+      setSelectedAction(prev => Math.min(prev + 1, current.actions.length - 1));
+    } else if (event.key === 'ArrowLeft' && current && current.actions.length > 1) {
+      event.preventDefault();
+      setSelectedAction(prev => Math.max(prev - 1, 0));
+    } else if (event.key === 'Enter' && current) {
+      event.preventDefault();
+      runAction(current.actions[selectedAction] ?? current.actions[0]);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const palette = (
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-black/60 backdrop-blur-sm p-4 pt-[12vh]"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl bg-gray-900/95 border border-white/20 rounded-xl shadow-2xl overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-white/10">
+          <Search className="w-5 h-5 text-gray-400" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => handleQueryChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search projects, assets, suppliers, contacts and messages..."
+            className="flex-1 bg-transparent text-white placeholder-gray-400 outline-none"
+            aria-label="Search"
+          />
+          {(indexLoading || messagesLoading) && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+          <kbd className="px-1.5 py-0.5 text-[10px] text-gray-400 border border-white/20 rounded">Esc</kbd>
+        </div>
+
+        <ul className="max-h-[60vh] overflow-y-auto py-2" role="listbox">
+          {results.length === 0 ? (
+            <li className="px-4 py-6 text-center text-sm text-gray-400">
+              {indexLoading ? 'Loading...' : `No results for "${query.trim()}"`}
+            </li>
+          ) : (
+            results.map((result, resultIndex) => {
+              const Icon = TYPE_ICONS[result.type];
+              const isSelected = resultIndex === selectedIndex;
+              return (
+                <li
+                  key={result.id}
+                  ref={isSelected ? (element) => element?.scrollIntoView({ block: 'nearest' }) : undefined}
+                  role="option"
+                  aria-selected={isSelected}
+                  onMouseEnter={() => {
+                    if (!isSelected) {
+                      setSelectedIndex(resultIndex);
+                      setSelectedAction(0);
+                    }
+                  }}
+                  onClick={() => runAction(result.actions[0])}
+                  className={`flex items-center gap-3 px-4 py-2 cursor-pointer ${isSelected ? 'bg-white/10' : ''}`}
+                >
+                  <Icon className="w-4 h-4 text-gray-300 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{result.title}</p>
+                    <p className="text-xs text-gray-400 truncate">
+                      {TYPE_LABELS[result.type]}
+                      {result.subtitle && ` · ${result.subtitle}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {result.actions.map((action, actionIndex) => {
+                      const isActive = isSelected && actionIndex === selectedAction;
+                      return (
+                        <button
+                          key={action.id}
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            runAction(action);
+                          }}
+                          className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${
+                            isActive
+                              ? 'bg-teal-600 text-on-accent'
+                              : 'text-gray-300 border border-white/10 hover:bg-white/10'
+                          }`}
+                        >
+                          {action.label}
+                          {isActive && <CornerDownLeft className="w-3 h-3" />}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </li>
+              );
+            })
+          )}
+        </ul>
+
+        <div className="flex items-center gap-4 px-4 py-2 border-t border-white/10 text-[11px] text-gray-400">
+          <span>↑↓ to choose</span>
+          <span>←→ to pick an action</span>
+          <span>Enter to run</span>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(palette, document.body);
+};
+
+export default CommandPalette;
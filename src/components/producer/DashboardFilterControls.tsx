@@ -62,7 +62,7 @@ const DashboardFilterControls: React.FC<DashboardFilterControlsProps> = ({
                 ${index === sortOptions.length - 1 ? 'rounded-r-lg' : ''}
                 ${index > 0 ? 'border-l border-white/20' : ''}
                 ${isActive
-                  ? 'bg-teal-600 text-white shadow-sm z-10'
+                  ? 'bg-teal-600 text-on-accent shadow-sm z-10'
                   : 'bg-transparent text-gray-200 hover:bg-white/10 hover:text-teal-300'
                 }
               `}
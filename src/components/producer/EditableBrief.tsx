@@ -671,7 +671,7 @@ const EditableBrief: React.FC<EditableBriefProps> = ({
                       font-medium transition-all duration-200
                       ${isSaving
                         ? 'bg-gray-400 cursor-not-allowed text-white'
-                        : 'bg-purple-600 hover:bg-purple-700 text-white shadow-sm hover:shadow'
+                        : 'bg-purple-600 hover:bg-purple-700 text-on-accent shadow-sm hover:shadow'
                       }
                     `}
                   >
@@ -1,14 +1,27 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { X, Building2, Mail, Tag, Loader2, ChevronLeft, ChevronRight, User, Phone, Star, Send, Paperclip, Trophy, CheckSquare, Square, Search } from 'lucide-react';
+import { X, Building2, Mail, Tag, Loader2, ChevronLeft, ChevronRight, User, Phone, Star, Send, Paperclip, Trophy, CheckSquare, Square, Search, FileText, Pencil, Plus, Clock, MapPin } from 'lucide-react';
 import { ProducerService } from '@/services/producerService';
 import { QuoteRequestService } from '@/services/quoteRequestService';
+import { RfqEmailTemplateService } from '@/services/rfqEmailTemplateService';
 import { getSupabase } from '@/lib/supabase';
 import { useNotification } from '@/hooks/useNotification';
 import type { Supplier, Quote, ContactPerson, Asset } from '@/lib/supabase';
 import { getSupplierRelevanceMetadata } from '@/utils/supplierRelevance';
 import { getSupplierPrimaryEmail } from '@/utils/supplierUtils';
 import { validateFile, formatFileSize } from '@/utils/fileValidation';
+import {
+  DEFAULT_RFQ_TEMPLATE,
+  buildMergeContext,
+  renderTemplate,
+  pickDefaultTemplate,
+  type MergeContext
+} from '@/utils/emailTemplates';
+import { getDefaultResponseDeadline, toDateTimeLocalValue } from '@/utils/quoteDeadlines';
+import { getSupplierLocationMatch, formatVenue, type ProjectVenue } from '@/utils/geoMatching';
+import type { RfqEmailTemplate, RfqEmailTemplateInput } from '@/types/database';
+import RfqTemplateEditor from './RfqTemplateEditor';
+import LocationMatchBadge from './LocationMatchBadge';
 
 interface RequestQuoteFlowProps {
   isOpen: boolean;
@@ -45,6 +58,7 @@ type FlowStep = 'selection' | 'preview';
  * - Step 2: Individual email customization for each supplier
  * - Email preview with navigation between suppliers
  * - CC/BCC fields
+ * - Email templates with merge fields, defaulted per asset tag
  * - Email signature auto-fill
  * - File attachments
  * - Contact person support
@@ -72,6 +86,11 @@ const EnhancedRequestQuoteFlow: React.FC<RequestQuoteFlowProps> = ({
   // Search and filter state
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [coveringVenueOnly, setCoveringVenueOnly] = useState(false);
+
+  // Project venue, used to badge and filter suppliers by the area they cover
+  const [venue, setVenue] = useState<ProjectVenue | null>(null);
+  const venueLabel = formatVenue(venue);
 
   // Email customization
   const [customizedEmails, setCustomizedEmails] = useState<CustomizedEmail[]>([]);
@@ -86,6 +105,17 @@ const EnhancedRequestQuoteFlow: React.FC<RequestQuoteFlowProps> = ({
     phone: ''
   });
 
+  // Email templates and the extra merge field data they need
+  const [templates, setTemplates] = useState<RfqEmailTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [templateEditor, setTemplateEditor] = useState<'edit' | 'new' | null>(null);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [project, setProject] = useState<{ project_name: string; event_date: string | null } | null>(null);
+  const [fromName, setFromName] = useState('');
+
+  // Response deadline for the round (datetime-local value, empty = no deadline)
+  const [responseDeadline, setResponseDeadline] = useState('');
+
   // Fetch suppliers and producer profile when modal opens
   useEffect(() => {
     if (isOpen) {
@@ -96,6 +126,19 @@ const EnhancedRequestQuoteFlow: React.FC<RequestQuoteFlowProps> = ({
       setCurrentSupplierIndex(0);
       setSearchTerm('');
       setSelectedCategories([]);
+      setCoveringVenueOnly(false);
+      setSelectedTemplateId('');
+      setTemplateEditor(null);
+      setResponseDeadline(toDateTimeLocalValue(getDefaultResponseDeadline()));
+
+      // Templates are optional - without them the standard email is used
+      RfqEmailTemplateService.getTemplates()
+        .then(setTemplates)
+        .catch(err => console.warn('Could not load email templates:', err));
+
+      ProducerService.loadProducerSettings()
+        .then(settings => setFromName(settings?.from_name ?? ''))
+        .catch(err => console.warn('Could not load producer settings:', err));
 
       const loadProducerSignature = async () => {
         const supabase = await getSupabase();
@@ -125,6 +168,31 @@ const EnhancedRequestQuoteFlow: React.FC<RequestQuoteFlowProps> = ({
     }
   }, [isOpen]);
 
+  // Project details for {{project.*}} merge fields
+  useEffect(() => {
+    if (!isOpen || !asset?.project_id) {
+      setProject(null);
+      return;
+    }
+
+    const loadProject = async () => {
+      const supabase = await getSupabase();
+      const { data, error } = await supabase
+        .from('projects')
+        .select('project_name, event_date')
+        .eq('id', asset.project_id)
+        .single();
+
+      if (error) {
+        console.warn('Could not load project for email templates:', error);
+        return;
+      }
+      setProject(data);
+    };
+
+    loadProject();
+  }, [isOpen, asset?.project_id]);
+
   // Get all unique service categories from suppliers
   const allCategories = useMemo(() => {
     const categories = new Set<string>();
@@ -168,8 +236,13 @@ const EnhancedRequestQuoteFlow: React.FC<RequestQuoteFlowProps> = ({
       );
     }
 
+    // Apply venue filter - only suppliers that serve or travel to the venue
+    if (coveringVenueOnly && venueLabel) {
+      filtered = filtered.filter(supplier => getSupplierLocationMatch(supplier, venue) !== null);
+    }
+
     return filtered;
-  }, [suppliers, searchTerm, selectedCategories]);
+  }, [suppliers, searchTerm, selectedCategories, coveringVenueOnly, venueLabel, venue]);
 
   // Calculate relevance metadata and split into recommended/other sections
   const { recommendedSuppliers, otherSuppliers, maxScore } = useMemo(() => {
@@ -178,7 +251,7 @@ const EnhancedRequestQuoteFlow: React.FC<RequestQuoteFlowProps> = ({
     // Calculate relevance for each filtered supplier
     const suppliersWithRelevance = filteredSuppliers.map(supplier => ({
       ...supplier,
-      relevance: getSupplierRelevanceMetadata(supplier, assetTags)
+      relevance: getSupplierRelevanceMetadata(supplier, assetTags, venue)
     }));
     
     // Split into recommended (score > 0) and other (score = 0)
@@ -191,7 +264,7 @@ const EnhancedRequestQuoteFlow: React.FC<RequestQuoteFlowProps> = ({
       : 0;
     
     return { recommendedSuppliers: recommended, otherSuppliers: other, maxScore: max };
-  }, [filteredSuppliers, asset?.tags]);
+  }, [filteredSuppliers, asset?.tags, venue]);
 
   const fetchSuppliers = async () => {
     setLoading(true);
@@ -200,6 +273,15 @@ const EnhancedRequestQuoteFlow: React.FC<RequestQuoteFlowProps> = ({
       const data = assetId
         ? await ProducerService.loadSuppliersForAsset(assetId)
         : await ProducerService.loadSuppliers();
+
+      // Without a venue the list simply isn't badged by location
+      const projectVenue = asset?.project_id
+        ? await ProducerService.getProjectVenue(asset.project_id).catch(err => {
+            console.warn('Could not load project venue:', err);
+            return null;
+          })
+        : null;
+      setVenue(projectVenue);
       
       // Mark suppliers who already have quotes for this asset
       const suppliersWithStatus: SupplierWithDetails[] = data.map(supplier => ({
@@ -241,6 +323,7 @@ const EnhancedRequestQuoteFlow: React.FC<RequestQuoteFlowProps> = ({
   const clearFilters = () => {
     setSearchTerm('');
     setSelectedCategories([]);
+    setCoveringVenueOnly(false);
   };
 
   // Select all recommended suppliers only
@@ -286,8 +369,24 @@ const EnhancedRequestQuoteFlow: React.FC<RequestQuoteFlowProps> = ({
     return Array.from(new Set(emails));
   };
 
-  // Generate default email content for a supplier
-  const generateDefaultEmail = (supplier: SupplierWithDetails): CustomizedEmail => {
+  const getMergeContext = (supplier: SupplierWithDetails): MergeContext => buildMergeContext({
+    supplier,
+    asset,
+    assetName,
+    project,
+    producer: {
+      fromName: fromName || signature.name,
+      company: signature.company,
+      email: signature.email,
+      phone: signature.phone
+    }
+  });
+
+  const getTemplateContent = (templateId: string) =>
+    templates.find(template => template.id === templateId) ?? DEFAULT_RFQ_TEMPLATE;
+
+  // Generate email content for a supplier from a template ('' = standard email)
+  const generateDefaultEmail = (supplier: SupplierWithDetails, templateId: string): CustomizedEmail => {
     const primaryContact = supplier.contact_persons?.find((p: ContactPerson) => p.is_primary) || 
                           supplier.contact_persons?.[0];
     
@@ -295,36 +394,16 @@ const EnhancedRequestQuoteFlow: React.FC<RequestQuoteFlowProps> = ({
     const contactEmail = getSupplierPrimaryEmail(supplier) || '';
     const ccEmails = getDefaultContactEmails(supplier, 'default_cc').join(', ');
     const bccEmails = getDefaultContactEmails(supplier, 'default_bcc').join(', ');
-    
-    const subject = `Quote Request: ${assetName}`;
-
-    const supplierContextLine = (asset?.supplier_context && asset.supplier_context.trim() !== '')
-      ? `\nSupplier & Logistics Context: ${asset.supplier_context}\n`
-      : '';
-
-    const body = `Dear ${contactName},
-
-We would like to request a quote for the following asset:
-
-Asset: ${assetName}
-Specifications: ${asset?.specifications || 'See project brief for details'}
-${supplierContextLine}${asset?.timeline ? `Timeline: ${new Date(asset.timeline).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}` : ''}
-
-Please provide your quote by visiting the link below.
-
-We appreciate your time and look forward to working with you.
 
-Best regards,
-
-${signature.name}
-${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n')}`;
+    const template = getTemplateContent(templateId);
+    const context = getMergeContext(supplier);
 
     return {
       supplierId: supplier.id,
       contactEmail,
       contactName,
-      subject,
-      body,
+      subject: renderTemplate(template.subject, context),
+      body: renderTemplate(template.body, context),
       ccEmails,
       bccEmails,
       attachments: []
@@ -335,11 +414,50 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
   const proceedToPreview = () => {
     // Generate default emails for all selected suppliers
     const selectedSuppliers = suppliers.filter(s => selectedSupplierIds.includes(s.id));
-    const emails = selectedSuppliers.map(generateDefaultEmail);
+    const templateId = pickDefaultTemplate(templates, asset?.tags || [])?.id ?? '';
+    const emails = selectedSuppliers.map(supplier => generateDefaultEmail(supplier, templateId));
+    setSelectedTemplateId(templateId);
     setCustomizedEmails(emails);
     setCurrentStep('preview');
   };
 
+  // Re-render subject and body for every supplier; recipients and attachments are kept
+  const applyTemplate = (templateId: string, templateList: RfqEmailTemplate[] = templates) => {
+    const template = templateList.find(t => t.id === templateId) ?? DEFAULT_RFQ_TEMPLATE;
+    setSelectedTemplateId(templateId);
+    setCustomizedEmails(prev => prev.map(email => {
+      const supplier = suppliers.find(s => s.id === email.supplierId);
+      if (!supplier) return email;
+      const context = getMergeContext(supplier);
+      return {
+        ...email,
+        subject: renderTemplate(template.subject, context),
+        body: renderTemplate(template.body, context)
+      };
+    }));
+  };
+
+  const handleSaveTemplate = async (input: RfqEmailTemplateInput) => {
+    setSavingTemplate(true);
+    try {
+      const saved = await RfqEmailTemplateService.saveTemplate(
+        input,
+        templateEditor === 'edit' && selectedTemplateId ? selectedTemplateId : undefined
+      );
+      const updatedTemplates = [...templates.filter(t => t.id !== saved.id), saved]
+        .sort((a, b) => a.name.localeCompare(b.name));
+      setTemplates(updatedTemplates);
+      applyTemplate(saved.id, updatedTemplates);
+      setTemplateEditor(null);
+      showSuccess(`Saved template "${saved.name}"`);
+    } catch (err) {
+      console.error('Error saving email template:', err);
+      showError(err instanceof Error ? err.message : 'Failed to save email template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
   // Navigate between suppliers in preview
   const nextSupplier = () => {
     setCurrentSupplierIndex(prev => 
@@ -444,6 +562,12 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
 
   // Send all quote requests
   const handleSendAllRequests = async () => {
+    const deadline = responseDeadline ? new Date(responseDeadline) : null;
+    if (deadline && deadline.getTime() <= Date.now()) {
+      showError('The response deadline must be in the future');
+      return;
+    }
+
     setSubmitting(true);
     try {
       // Get authenticated user's email for Reply-To header
@@ -518,7 +642,8 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
         assetId,
         supplierIds,
         backendCustomizedEmails,
-        from
+        from,
+        deadline?.toISOString()
       );
 
       // Extract created quotes from backend response
@@ -615,10 +740,10 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
               onClick={(e) => e.stopPropagation()}
             >
             {/* Header */}
-            <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 px-6 py-5">
+            <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 text-on-accent px-6 py-5">
               <div className="flex items-start justify-between">
                 <div className="flex-1 pr-4">
-                  <h2 className="text-2xl font-bold text-white mb-1">
+                  <h2 className="text-2xl font-bold text-on-accent mb-1">
                     {currentStep === 'selection' ? 'Select Suppliers' : 'Customize Quote Requests'}
                   </h2>
                   <p className="text-purple-100 text-sm">
@@ -635,7 +760,7 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
                   className="flex-shrink-0 p-2 hover:bg-white/20 rounded-lg transition-colors"
                   aria-label="Close modal"
                 >
-                  <X className="w-6 h-6 text-white" />
+                  <X className="w-6 h-6 text-on-accent" />
                 </button>
               </div>
             </div>
@@ -684,12 +809,25 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
                         </div>
                       </div>
 
+                      {venueLabel && (
+                        <label className="mb-4 flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={coveringVenueOnly}
+                            onChange={(e) => setCoveringVenueOnly(e.target.checked)}
+                            className="w-4 h-4 accent-purple-600 focus:ring-purple-500 border-white/30 rounded cursor-pointer"
+                          />
+                          <MapPin className="w-4 h-4 text-purple-300" />
+                          <span>Only suppliers covering {venueLabel}</span>
+                        </label>
+                      )}
+
                       {/* Tag Toggles - Always Visible, Below Search */}
                       {allCategories.length > 0 && (
                         <div className="mb-4 pb-4 border-b border-white/20">
                           <div className="flex items-center justify-between mb-3">
                             <h4 className="text-sm font-semibold text-gray-200">Filter by Service Category</h4>
-                            {(searchTerm.trim().length > 0 || selectedCategories.length > 0) && (
+                            {(searchTerm.trim().length > 0 || selectedCategories.length > 0 || coveringVenueOnly) && (
                               <button
                                 onClick={clearFilters}
                                 className="text-xs text-purple-300 hover:text-purple-200 font-medium transition-colors"
@@ -804,6 +942,10 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
                                         </div>
                                       )}
 
+                                      {supplier.relevance.locationMatch && (
+                                        <LocationMatchBadge match={supplier.relevance.locationMatch} className="mb-2" />
+                                      )}
+
                                       {supplier.service_categories && supplier.service_categories.length > 0 && (
                                         <div className="flex items-start gap-1.5">
                                           <Tag className="w-3.5 h-3.5 text-gray-300 mt-0.5" />
@@ -900,6 +1042,10 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
                                         </div>
                                       )}
 
+                                      {supplier.relevance.locationMatch && (
+                                        <LocationMatchBadge match={supplier.relevance.locationMatch} className="mb-2" />
+                                      )}
+
                                       {supplier.service_categories && supplier.service_categories.length > 0 && (
                                         <div className="flex items-start gap-1.5">
                                           <Tag className="w-3.5 h-3.5 text-gray-300 mt-0.5" />
@@ -965,6 +1111,68 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
 
                   {/* Email Editor - With Horizontal Padding for Arrows */}
                   <div className="flex-1 px-12 py-6 overflow-y-auto space-y-6">
+                    {/* Template */}
+                    <div className="flex flex-wrap items-center gap-3">
+                      <label htmlFor="rfq-template" className="flex items-center gap-2 text-sm font-medium text-gray-200">
+                        <FileText className="h-4 w-4 text-gray-400" />
+                        Template
+                      </label>
+                      <select
+                        id="rfq-template"
+                        value={selectedTemplateId}
+                        onChange={(e) => applyTemplate(e.target.value)}
+                        disabled={templateEditor !== null}
+                        className="px-3 py-1.5 bg-black/20 border border-white/20 text-white rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      >
+                        <option value="" className="bg-gray-800">Standard request</option>
+                        {templates.map(template => (
+                          <option key={template.id} value={template.id} className="bg-gray-800">
+                            {template.name}
+                            {template.default_for_tags.some(tag => asset?.tags?.includes(tag)) ? ' (default for this asset)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                      {templateEditor === null && (
+                        <>
+                          {selectedTemplateId && (
+                            <button
+                              type="button"
+                              onClick={() => setTemplateEditor('edit')}
+                              className="flex items-center gap-1 px-2 py-1 text-xs bg-white/10 text-gray-200 rounded hover:bg-white/20"
+                            >
+                              <Pencil className="h-3 w-3" />
+                              Edit template
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => setTemplateEditor('new')}
+                            className="flex items-center gap-1 px-2 py-1 text-xs bg-white/10 text-gray-200 rounded hover:bg-white/20"
+                          >
+                            <Plus className="h-3 w-3" />
+                            New template
+                          </button>
+                        </>
+                      )}
+                      <span className="text-xs text-gray-400">
+                        Changing the template replaces the subject and body for all suppliers.
+                      </span>
+                    </div>
+
+                    {templateEditor ? (
+                      <RfqTemplateEditor
+                        key={templateEditor === 'edit' ? selectedTemplateId : 'new'}
+                        template={templateEditor === 'edit' ? templates.find(t => t.id === selectedTemplateId) ?? null : null}
+                        previewContexts={customizedEmails.flatMap(email => {
+                          const supplier = suppliers.find(s => s.id === email.supplierId);
+                          return supplier ? [{ label: supplier.supplier_name, context: getMergeContext(supplier) }] : [];
+                        })}
+                        saving={savingTemplate}
+                        onSave={handleSaveTemplate}
+                        onCancel={() => setTemplateEditor(null)}
+                      />
+                    ) : (
+                    <>
                     {/* Subject */}
                     <div>
                       <label className="block text-sm font-medium text-gray-200 mb-2">
@@ -1113,6 +1321,8 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
                         </div>
                       </div>
                     )}
+                    </>
+                    )}
                   </div>
                 </div>
               ) : null}
@@ -1121,11 +1331,39 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
             {/* Footer */}
             <div className="sticky bottom-0 bg-white/10 backdrop-blur-md px-6 py-4 border-t border-white/20">
               <div className="flex items-center justify-between">
-                <div className="text-sm text-gray-300">
-                  {currentStep === 'selection' 
-                    ? `${selectedSupplierIds.length} supplier${selectedSupplierIds.length !== 1 ? 's' : ''} selected`
-                    : `${customizedEmails.length} email${customizedEmails.length !== 1 ? 's' : ''} will be sent`
-                  }
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+                  <span>
+                    {currentStep === 'selection' 
+                      ? `${selectedSupplierIds.length} supplier${selectedSupplierIds.length !== 1 ? 's' : ''} selected`
+                      : `${customizedEmails.length} email${customizedEmails.length !== 1 ? 's' : ''} will be sent`
+                    }
+                  </span>
+                  {currentStep === 'preview' && (
+                    <label className="flex items-center gap-2" title="Suppliers can't submit after this time unless you extend it for them">
+                      <Clock className="w-4 h-4 text-purple-300" />
+                      <span>Respond by</span>
+                      <input
+                        type="datetime-local"
+                        value={responseDeadline}
+                        min={toDateTimeLocalValue(new Date())}
+                        onChange={(e) => setResponseDeadline(e.target.value)}
+                        disabled={submitting}
+                        className="px-2 py-1 bg-black/20 border border-white/20 rounded-lg text-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
+                      />
+                      {responseDeadline ? (
+                        <button
+                          type="button"
+                          onClick={() => setResponseDeadline('')}
+                          disabled={submitting}
+                          className="text-xs text-gray-400 hover:text-white underline"
+                        >
+                          No deadline
+                        </button>
+                      ) : (
+                        <span className="text-xs text-gray-400">No deadline</span>
+                      )}
+                    </label>
+                  )}
                 </div>
                 
                 <div className="flex gap-3">
@@ -1155,7 +1393,7 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
                         px-5 py-2 rounded-lg font-medium transition-all duration-200
                         ${selectedSupplierIds.length === 0
                           ? 'bg-gray-500/50 cursor-not-allowed text-white'
-                          : 'bg-purple-600 hover:bg-purple-700 text-white shadow-sm hover:shadow'
+                          : 'bg-purple-600 hover:bg-purple-700 text-on-accent shadow-sm hover:shadow'
                         }
                       `}
                     >
@@ -1164,12 +1402,12 @@ ${[signature.company, signature.email, signature.phone].filter(Boolean).join('\n
                   ) : (
                     <button
                       onClick={handleSendAllRequests}
-                      disabled={submitting}
+                      disabled={submitting || templateEditor !== null}
                       className={`
                         px-5 py-2 rounded-lg font-medium transition-all duration-200 flex items-center gap-2
-                        ${submitting
+                        ${submitting || templateEditor !== null
                           ? 'bg-gray-500/50 cursor-not-allowed text-white'
-                          : 'bg-purple-600 hover:bg-purple-700 text-white shadow-sm hover:shadow'
+                          : 'bg-purple-600 hover:bg-purple-700 text-on-accent shadow-sm hover:shadow'
                         }
                       `}
                     >
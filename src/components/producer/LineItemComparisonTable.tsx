@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import type { Quote } from '@/services/quoteComparisonService';
+import { formatCurrency } from '@/utils/currency';
+import { alignLineItems, getLineItemTotal } from '@/utils/quoteLineItems';
+
+interface LineItemComparisonTableProps {
+  quotes: Quote[];
+}
+
+/**
+ * LineItemComparisonTable - Matching line items side by side across suppliers
+ *
+ * Lines are matched on their normalised description. The cheapest line in a row is
+ * highlighted only when every supplier quoting it used the same currency.
+ */
+const LineItemComparisonTable: React.FC<LineItemComparisonTableProps> = ({ quotes }) => {
+  const rows = useMemo(() => alignLineItems(quotes), [quotes]);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const getLowestQuoteId = (items: (typeof rows)[number]['items']): string | null => {
+    const quoted = quotes.filter(quote => items[quote.id]);
+    if (quoted.length < 2) return null;
+    if (new Set(quoted.map(quote => quote.currency)).size > 1) return null;
+
+    return quoted.reduce((lowest, quote) =>
+      getLineItemTotal(items[quote.id]!) < getLineItemTotal(items[lowest.id]!) ? quote : lowest
+    ).id;
+  };
+
+  return (
+    <div className="mb-6">
+      <h4 className="font-semibold text-gray-900 mb-2">Line Item Comparison</h4>
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">Item</th>
+              {quotes.map(quote => (
+                <th key={quote.id} className="px-3 py-2 text-right font-medium text-gray-700 whitespace-nowrap">
+                  {quote.supplier.supplier_name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map(row => {
+              const lowestQuoteId = getLowestQuoteId(row.items);
+
+              return (
+                <tr key={row.key}>
+                  <td className="px-3 py-2 text-gray-900">{row.description}</td>
+                  {quotes.map(quote => {
+                    const item = row.items[quote.id];
+                    if (!item) {
+                      return (
+                        <td key={quote.id} className="px-3 py-2 text-right text-gray-400">—</td>
+                      );
+                    }
+
+                    return (
+                      <td
+                        key={quote.id}
+                        className={`px-3 py-2 text-right whitespace-nowrap ${
+                          quote.id === lowestQuoteId ? 'bg-green-50 text-green-900 font-semibold' : 'text-gray-900'
+                        }`}
+                      >
+                        <div>
+                          {formatCurrency(getLineItemTotal(item), quote.currency)}
+                          {item.is_optional && (
+                            <span className="ml-1 px-1.5 py-0.5 text-xs font-normal bg-gray-100 text-gray-600 rounded">
+                              optional
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs font-normal text-gray-500">
+                          {Number(item.quantity)} {item.unit} × {formatCurrency(Number(item.unit_price), quote.currency)}
+                          {Number(item.tax_rate) > 0 && ` + ${Number(item.tax_rate)}% tax`}
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LineItemComparisonTable;
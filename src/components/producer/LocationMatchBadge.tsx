@@ -0,0 +1,28 @@
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { describeLocationMatch, type LocationMatch } from '@/utils/geoMatching';
+
+interface LocationMatchBadgeProps {
+  match: LocationMatch;
+  className?: string;
+}
+
+const LocationMatchBadge: React.FC<LocationMatchBadgeProps> = ({ match, className = '' }) => {
+  // Closer coverage gets the stronger colour
+  const tone =
+    match.kind === 'city' || match.kind === 'region'
+      ? 'bg-teal-500/20 text-teal-200 border-teal-400/50'
+      : 'bg-white/5 text-gray-300 border-white/20';
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full border ${tone} ${className}`}
+      title="Matched against the project venue"
+    >
+      <MapPin className="w-3 h-3" />
+      {describeLocationMatch(match)}
+    </span>
+  );
+};
+
+export default LocationMatchBadge;
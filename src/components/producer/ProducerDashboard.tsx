@@ -16,6 +16,7 @@ import TagSelectionModal from './TagSelectionModal';
 import SupplierSelectionModal from './SupplierSelectionModal';
 import AIAllocationModal from './AIAllocationModal';
 import { Eye } from 'lucide-react';
+import { toProjectVenue } from '@/utils/geoMatching';
 
 export interface ProducerDashboardProps {
   // Data
@@ -246,7 +247,7 @@ const ProducerDashboard: React.FC<ProducerDashboardProps> = ({
               />
             </div>
           ) : (
-            <div className="bg-white rounded-lg shadow p-6 text-center">
+            <div className="bg-paper rounded-lg shadow p-6 text-center">
               <Eye className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">Select a Project</h3>
               <p className="text-gray-600">Choose a project from the list to view details and manage assets</p>
@@ -297,6 +298,7 @@ const ProducerDashboard: React.FC<ProducerDashboardProps> = ({
         isOpen={showSupplierModal}
         asset={supplierSelectionAsset}
         suggestedSuppliers={suggestedSuppliers}
+        venue={selectedProject ? toProjectVenue(selectedProject) : null}
         selectedSupplierIds={selectedSupplierIds}
         loading={loadingSuppliers}
         onClose={closeSupplierModal}
@@ -319,6 +319,7 @@ const ProducerDashboardContainer: React.FC = () => {
       brief_description: selectedProject.brief_description || '',
       physical_parameters: selectedProject.physical_parameters || '',
       financial_parameters: selectedProject.financial_parameters,
+      base_currency: selectedProject.base_currency,
       timeline_deadline: selectedProject.timeline_deadline || '',
       event_date: selectedProject.event_date || ''
     });
@@ -856,6 +857,7 @@ const ProducerDashboardContainer: React.FC = () => {
       case 'In Progress':
       case 'In Production':
       case 'Quoting':
+      case 'Reviewing':
       case 'Submitted':
         return 'bg-yellow-100 text-yellow-800';
       case 'Cancelled':
@@ -889,7 +891,7 @@ const ProducerDashboardContainer: React.FC = () => {
               setError(null);
               loadProjects();
             }}
-            className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors"
+            className="px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 transition-colors"
           >
             Try Again
           </button>
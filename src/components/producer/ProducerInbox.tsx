@@ -0,0 +1,254 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Inbox, MessageCircle, RefreshCw, X } from 'lucide-react';
+import { InboxService } from '@/services/inboxService';
+import { useInbox } from '@/contexts/InboxContext';
+import { quoteChatPath } from '@/utils/commandSearch';
+import {
+  EMPTY_INBOX_FILTERS,
+  filterConversations,
+  getInboxFilterOptions,
+  getMessagePreview,
+  countUnread,
+  type InboxFilters,
+  type InboxFilterOption
+} from '@/utils/inbox';
+import type { InboxConversation } from '@/types/database';
+
+const formatMessageTime = (dateString: string): string => {
+  const date = new Date(dateString);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  }
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(date.getFullYear() !== now.getFullYear() ? { year: 'numeric' } : {})
+  });
+};
+
+interface FilterSelectProps {
+  label: string;
+  allLabel: string;
+  value: string;
+  options: InboxFilterOption[];
+  onChange: (value: string) => void;
+}
+
+const FilterSelect: React.FC<FilterSelectProps> = ({ label, allLabel, value, options, onChange }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    className="px-3 py-2 bg-black/20 border border-white/20 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+    aria-label={label}
+  >
+    <option value="" className="text-ink">{allLabel}</option>
+    {options.map(option => (
+      <option key={option.value} value={option.value} className="text-ink">
+        {option.label}
+      </option>
+    ))}
+  </select>
+);
+
+/**
+ * ProducerInbox - Every quote conversation across the producer's projects
+ *
+ * Features:
+ * - Last message preview and unread count per conversation
+ * - Filters by project, asset, supplier and unread
+ * - Opening a conversation goes to its chat, which marks it read
+ */
+const ProducerInbox: React.FC = () => {
+  const navigate = useNavigate();
+  const { refreshUnreadCount } = useInbox();
+  const [conversations, setConversations] = useState<InboxConversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<InboxFilters>(EMPTY_INBOX_FILTERS);
+
+  const loadConversations = useCallback(async () => {
+    try {
+      setLoading(true);
+      setConversations(await InboxService.getConversations());
+      setError(null);
+      // Keep the header badge in line with what the list shows
+      refreshUnreadCount();
+    } catch (err) {
+      console.error('Error loading inbox:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load inbox');
+    } finally {
+      setLoading(false);
+    }
+  }, [refreshUnreadCount]);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  const filterOptions = useMemo(
+    () => getInboxFilterOptions(conversations, filters.projectId),
+    [conversations, filters.projectId]
+  );
+  const visibleConversations = useMemo(
+    () => filterConversations(conversations, filters),
+    [conversations, filters]
+  );
+  const unreadTotal = countUnread(conversations);
+  const hasActiveFilters = Boolean(filters.projectId || filters.assetId || filters.supplierId || filters.unreadOnly);
+
+  const updateFilters = (changes: Partial<InboxFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  if (loading && conversations.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-teal-400"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Inbox</h1>
+          <p className="text-gray-200 mt-1">
+            {unreadTotal > 0
+              ? `${unreadTotal} unread message${unreadTotal === 1 ? '' : 's'} across your quotes`
+              : 'All supplier conversations across your projects'}
+          </p>
+        </div>
+        <button
+          onClick={loadConversations}
+          disabled={loading}
+          className="flex items-center space-x-2 px-4 py-2 bg-white/10 border border-white/20 text-gray-200 rounded-lg hover:bg-white/20 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 bg-white/10 backdrop-blur-md border border-white/20 rounded-lg p-4">
+        <FilterSelect
+          label="Filter by project"
+          allLabel="All projects"
+          value={filters.projectId}
+          options={filterOptions.projects}
+          // An asset from another project would hide everything
+          onChange={(projectId) => updateFilters({ projectId, assetId: '' })}
+        />
+        <FilterSelect
+          label="Filter by asset"
+          allLabel="All assets"
+          value={filters.assetId}
+          options={filterOptions.assets}
+          onChange={(assetId) => updateFilters({ assetId })}
+        />
+        <FilterSelect
+          label="Filter by supplier"
+          allLabel="All suppliers"
+          value={filters.supplierId}
+          options={filterOptions.suppliers}
+          onChange={(supplierId) => updateFilters({ supplierId })}
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={filters.unreadOnly}
+            onChange={(e) => updateFilters({ unreadOnly: e.target.checked })}
+            className="rounded border-white/20 bg-black/20 text-teal-500 focus:ring-teal-500"
+          />
+          Unread only
+        </label>
+        {hasActiveFilters && (
+          <button
+            onClick={() => setFilters(EMPTY_INBOX_FILTERS)}
+            className="flex items-center gap-1 px-3 py-2 text-sm text-gray-300 hover:text-white"
+          >
+            <X className="h-4 w-4" />
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {/* Conversations */}
+      <div className="bg-white/10 backdrop-blur-md rounded-lg shadow-lg">
+        <div className="p-6 border-b border-white/20">
+          <div className="flex items-center space-x-2">
+            <Inbox className="h-6 w-6 text-teal-300" />
+            <h2 className="text-xl font-semibold text-white">
+              Conversations
+              <span className="text-gray-200 font-normal">
+                {' '}({hasActiveFilters ? `${visibleConversations.length} of ${conversations.length}` : conversations.length})
+              </span>
+            </h2>
+          </div>
+        </div>
+
+        {visibleConversations.length === 0 ? (
+          <div className="p-12 text-center">
+            <MessageCircle className="h-12 w-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-300">
+              {conversations.length === 0
+                ? 'No conversations yet. Messages with suppliers will show up here.'
+                : 'No conversations match these filters.'}
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-white/10">
+            {visibleConversations.map(conversation => {
+              const isUnread = conversation.unread_count > 0;
+              return (
+                <button
+                  key={conversation.quote_id}
+                  type="button"
+                  onClick={() => navigate(quoteChatPath(conversation.quote_id))}
+                  className="w-full text-left p-4 sm:px-6 hover:bg-white/5 transition-colors flex items-start gap-4"
+                >
+                  <span
+                    className={`mt-2 h-2.5 w-2.5 rounded-full flex-shrink-0 ${isUnread ? 'bg-teal-400' : 'bg-transparent'}`}
+                    aria-hidden="true"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-3">
+                      <p className={`truncate ${isUnread ? 'text-white font-semibold' : 'text-gray-200 font-medium'}`}>
+                        {conversation.supplier_name}
+                        <span className="text-gray-400 font-normal"> · {conversation.asset_name}</span>
+                      </p>
+                      <span className="text-xs text-gray-400 flex-shrink-0">
+                        {formatMessageTime(conversation.last_message_at)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-400 truncate">
+                      {conversation.project_name} · {conversation.quote_status}
+                    </p>
+                    <div className="flex items-center justify-between gap-3 mt-1">
+                      <p className={`text-sm truncate ${isUnread ? 'text-gray-100' : 'text-gray-400'}`}>
+                        {getMessagePreview(conversation)}
+                      </p>
+                      {isUnread && (
+                        <span className="px-2 py-0.5 text-xs font-semibold bg-teal-600 text-on-accent rounded-full flex-shrink-0">
+                          {conversation.unread_count}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProducerInbox;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   ArrowLeft, 
   Calendar, 
@@ -15,19 +15,42 @@ import {
   Pencil,
   Trash2,
   X,
-  Loader2
+  Loader2,
+  ShieldCheck,
+  FileText,
+  MapPin,
+  Users,
+  Lock
 } from 'lucide-react';
 import { ProducerService } from '@/services/producerService';
+import { ProjectSummaryService } from '@/services/projectSummaryService';
+import { AssetTimelineService } from '@/services/assetTimelineService';
+import { AssetDependencyService } from '@/services/assetDependencyService';
+import { OrganisationService } from '@/services/organisationService';
+import { useAuth } from '@/contexts/AuthContext';
 import { useNotification } from '@/hooks/useNotification';
 import Button from '@/components/ui/Button';
 import AssetList from './AssetList';
 import EditableBrief from './EditableBrief';
 import ClientProjectsModal from './ClientProjectsModal';
+import ClientApprovalModal from './ClientApprovalModal';
+import ClientEstimateModal from './ClientEstimateModal';
+import BudgetAssetsModal from './BudgetAssetsModal';
 import AssetDetailModal from './AssetDetailModal';
 import AssetFormModal from './AssetFormModal';
+import TimelineWidget from './widgets/TimelineWidget';
 import ConfirmationModal from '@/components/shared/ConfirmationModal';
 import { toTitleCase } from '@/utils/textFormatters';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, formatCurrency as formatAmount } from '@/utils/currency';
+import { findPlace, formatVenue, toProjectVenue, VENUE_CITY_SUGGESTIONS } from '@/utils/geoMatching';
+import { canShareProject, getProjectAccess } from '@/utils/organisations';
 import type { Project, Asset } from '@/lib/supabase';
+import type {
+  ProjectMilestone,
+  AssetTimelineEvent,
+  AssetDependency,
+  OrganisationMembership
+} from '@/types/database';
 
 /**
  * ProjectDetailPage - Comprehensive page for displaying and managing project information
@@ -47,21 +70,29 @@ import type { Project, Asset } from '@/lib/supabase';
 const ProjectDetailPage: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { showError, showSuccess } = useNotification();
+  const { user } = useAuth();
 
   // State management - ALL hooks must be declared before any conditional returns
   const [project, setProject] = useState<Project | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeView, setActiveView] = useState<'assets' | 'brief'>('assets');
+  const [activeView, setActiveView] = useState<'assets' | 'brief' | 'timeline'>('assets');
   const [isClientModalOpen, setIsClientModalOpen] = useState(false);
+  const [isApprovalModalOpen, setIsApprovalModalOpen] = useState(false);
+  const [isEstimateModalOpen, setIsEstimateModalOpen] = useState(false);
+  const [isBudgetModalOpen, setIsBudgetModalOpen] = useState(false);
 
   // Interactive brief state
   const [hoveredAssetId, setHoveredAssetId] = useState<string | null>(null);
   const [viewingAsset, setViewingAsset] = useState<Asset | null>(null);
   const [isAssetDetailModalOpen, setIsAssetDetailModalOpen] = useState(false);
+  const [requestQuoteOnOpen, setRequestQuoteOnOpen] = useState(false);
   const [assets, setAssets] = useState<Asset[]>([]);
   const [assetsLoading, setAssetsLoading] = useState(false);
+  // Project whose assets are in `assets`, so links wait for the right project's assets
+  const [assetsLoadedFor, setAssetsLoadedFor] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isCreatingAsset, setIsCreatingAsset] = useState(false);
@@ -83,13 +114,27 @@ const ProjectDetailPage: React.FC = () => {
     project_name: '',
     client_name: '',
     financial_parameters: 0,
+    base_currency: DEFAULT_CURRENCY,
     event_date: '',
+    requires_client_approval: false,
+    venue_city: '',
+    venue_region: '',
+    venue_country: '',
   });
 
+  // Timeline tab state (milestones + asset timeline events)
+  const [milestones, setMilestones] = useState<ProjectMilestone[]>([]);
+  const [assetEvents, setAssetEvents] = useState<AssetTimelineEvent[]>([]);
+  const [assetDependencies, setAssetDependencies] = useState<AssetDependency[]>([]);
+
   // Delete project state
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Organisation sharing
+  const [membership, setMembership] = useState<OrganisationMembership | null>(null);
+  const [isSharingSaving, setIsSharingSaving] = useState(false);
+
 
 
   // Fetch project data
@@ -129,6 +174,17 @@ const ProjectDetailPage: React.FC = () => {
   }, [projectId, showError]);
 
 
+  // Load the producer's organisation to work out sharing and access
+  useEffect(() => {
+    OrganisationService.getMembership()
+      .then(setMembership)
+      .catch((err) => {
+        console.error('Error fetching organisation:', err);
+        setMembership(null);
+      });
+  }, []);
+
+
   // Fetch assets for interactive brief
   useEffect(() => {
     const fetchAssets = async () => {
@@ -144,6 +200,7 @@ const ProjectDetailPage: React.FC = () => {
         setAssets([]);
       } finally {
         setAssetsLoading(false);
+        setAssetsLoadedFor(projectId);
       }
     };
 
@@ -151,6 +208,55 @@ const ProjectDetailPage: React.FC = () => {
   }, [projectId]);
 
 
+  // Open an asset linked from elsewhere (?asset=<id>, optionally &action=request-quote)
+  useEffect(() => {
+    const assetId = searchParams.get('asset');
+    if (!assetId || assetsLoadedFor !== projectId) return;
+
+    const linkedAsset = assets.find(asset => asset.id === assetId);
+    if (linkedAsset) {
+      setViewingAsset(linkedAsset);
+      setRequestQuoteOnOpen(searchParams.get('action') === 'request-quote');
+      setIsAssetDetailModalOpen(true);
+    }
+
+    const next = new URLSearchParams(searchParams);
+    next.delete('asset');
+    next.delete('action');
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams, assets, assetsLoadedFor, projectId]);
+
+  // Fetch milestones and asset events when the timeline tab is opened
+  useEffect(() => {
+    if (!projectId || activeView !== 'timeline') return;
+
+    ProjectSummaryService.getProjectMilestones(projectId)
+      .then(setMilestones)
+      .catch((err) => {
+        console.error('Error fetching milestones:', err);
+        setMilestones([]);
+      });
+
+    AssetTimelineService.getEventsForProject(projectId)
+      .then(setAssetEvents)
+      .catch((err) => {
+        console.error('Error fetching asset timeline events:', err);
+        setAssetEvents([]);
+      });
+  }, [projectId, activeView]);
+
+  // Fetch asset dependencies for the timeline's critical-path schedule
+  useEffect(() => {
+    if (activeView !== 'timeline') return;
+
+    AssetDependencyService.getDependenciesForAssets(assets.map(asset => asset.id))
+      .then(setAssetDependencies)
+      .catch((err) => {
+        console.error('Error fetching asset dependencies:', err);
+        setAssetDependencies([]);
+      });
+  }, [assets, activeView]);
+
   // Log activeView changes for verification
   useEffect(() => {
     console.log('[ProjectDetailPage] activeView changed to:', activeView);
@@ -165,12 +271,10 @@ const ProjectDetailPage: React.FC = () => {
 
   // Format currency
   const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
+    return formatAmount(amount, project?.base_currency || DEFAULT_CURRENCY, {
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
-    }).format(amount);
+    });
   };
 
   // Format date
@@ -184,6 +288,14 @@ const ProjectDetailPage: React.FC = () => {
     });
   };
 
+  // Whole days from today until the given date (negative when overdue)
+  const getDaysUntil = (dateString: string | null): number | null => {
+    if (!dateString) return null;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return Math.ceil((new Date(dateString).getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+  };
+
   // ========================================
   // INTERACTIVE BRIEF FUNCTIONS
   // ========================================
@@ -411,7 +523,12 @@ const ProjectDetailPage: React.FC = () => {
       project_name: project.project_name,
       client_name: project.client_name,
       financial_parameters: project.financial_parameters ?? 0,
+      base_currency: project.base_currency || DEFAULT_CURRENCY,
       event_date: eventDateForInput,
+      requires_client_approval: project.requires_client_approval ?? false,
+      venue_city: project.venue_city ?? '',
+      venue_region: project.venue_region ?? '',
+      venue_country: project.venue_country ?? '',
     });
     setIsOverviewEditModalOpen(true);
   };
@@ -425,6 +542,12 @@ const ProjectDetailPage: React.FC = () => {
       return;
     }
 
+    const venue = {
+      venue_city: overviewEditForm.venue_city.trim() || null,
+      venue_region: overviewEditForm.venue_region.trim() || null,
+      venue_country: overviewEditForm.venue_country.trim() || null,
+    };
+
     setIsOverviewSaving(true);
     try {
       await ProducerService.updateProject(projectId, {
@@ -433,8 +556,11 @@ const ProjectDetailPage: React.FC = () => {
         brief_description: project.brief_description,
         physical_parameters: project.physical_parameters ?? '',
         financial_parameters: overviewEditForm.financial_parameters || undefined,
+        base_currency: overviewEditForm.base_currency,
         timeline_deadline: project.timeline_deadline ?? '',
         event_date: overviewEditForm.event_date.trim() || '',
+        requires_client_approval: overviewEditForm.requires_client_approval,
+        ...venue,
       });
 
       setProject((prev) =>
@@ -444,7 +570,10 @@ const ProjectDetailPage: React.FC = () => {
               project_name: trimmedName,
               client_name: overviewEditForm.client_name.trim(),
               financial_parameters: overviewEditForm.financial_parameters || undefined,
+              base_currency: overviewEditForm.base_currency,
               event_date: overviewEditForm.event_date.trim() || null,
+              requires_client_approval: overviewEditForm.requires_client_approval,
+              ...venue,
             }
           : null,
       );
@@ -476,6 +605,27 @@ const ProjectDetailPage: React.FC = () => {
     }
   };
 
+  const handleToggleSharing = async () => {
+    if (!project || !membership) return;
+
+    const organisationId = project.organisation_id ? null : membership.organisation.id;
+    setIsSharingSaving(true);
+    try {
+      await OrganisationService.setProjectOrganisation(project.id, organisationId);
+      setProject({ ...project, organisation_id: organisationId });
+      showSuccess(
+        organisationId
+          ? `Project shared with ${membership.organisation.name}`
+          : 'Project is now private'
+      );
+    } catch (err) {
+      console.error('Failed to update project sharing:', err);
+      showError(err instanceof Error ? err.message : 'Failed to update project sharing');
+    } finally {
+      setIsSharingSaving(false);
+    }
+  };
+
   // Loading state
   if (loading) {
     return (
@@ -504,7 +654,7 @@ const ProjectDetailPage: React.FC = () => {
           </p>
           <button
             onClick={() => navigate('/producer/projects')}
-            className="inline-flex items-center gap-2 px-6 py-3 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors shadow-sm"
+            className="inline-flex items-center gap-2 px-6 py-3 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 transition-colors shadow-sm"
           >
             <ArrowLeft className="w-5 h-5" />
             Back to Projects
@@ -514,6 +664,9 @@ const ProjectDetailPage: React.FC = () => {
     );
   }
 
+  const access = getProjectAccess(project, user?.id, membership);
+  const isShared = Boolean(project.organisation_id);
+
   // Main content
   return (
     <>
@@ -521,10 +674,24 @@ const ProjectDetailPage: React.FC = () => {
       <div className="bg-transparent border-b border-white/20">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Page title */}
-          <div>
+          <div className="flex flex-wrap items-center gap-3">
             <h1 className="text-3xl font-bold text-white">
               {project.project_name}
             </h1>
+            {isShared && (
+              <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-teal-500/20 border border-teal-400/40 text-xs font-medium text-teal-200">
+                <Users className="w-3.5 h-3.5" />
+                {membership && project.organisation_id === membership.organisation.id
+                  ? `Shared with ${membership.organisation.name}`
+                  : 'Shared'}
+              </span>
+            )}
+            {access === 'view' && (
+              <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-white/10 border border-white/20 text-xs font-medium text-gray-200">
+                <Eye className="w-3.5 h-3.5" />
+                View only
+              </span>
+            )}
           </div>
         </div>
       </div>
@@ -537,20 +704,57 @@ const ProjectDetailPage: React.FC = () => {
             <div className="flex items-center gap-1">
               <button
                 type="button"
-                onClick={openOverviewEditModal}
+                onClick={() => setIsApprovalModalOpen(true)}
                 className="p-2 text-white/90 hover:text-white bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
-                title="Edit"
+                title="Client approvals"
               >
-                <Pencil className="w-4 h-4" />
+                <ShieldCheck className="w-4 h-4" />
               </button>
               <button
                 type="button"
-                onClick={() => setIsDeleteConfirmOpen(true)}
-                className="p-2 text-red-200 hover:text-white bg-red-500/20 hover:bg-red-600/30 rounded-lg transition-colors"
-                title="Delete"
+                onClick={() => setIsEstimateModalOpen(true)}
+                className="p-2 text-white/90 hover:text-white bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
+                title="Client estimate"
               >
-                <Trash2 className="w-4 h-4" />
+                <FileText className="w-4 h-4" />
               </button>
+              {canShareProject(project, user?.id, membership) && membership && (
+                <button
+                  type="button"
+                  onClick={handleToggleSharing}
+                  disabled={isSharingSaving}
+                  className="p-2 text-white/90 hover:text-white bg-white/10 hover:bg-white/20 rounded-lg transition-colors disabled:opacity-60"
+                  title={isShared ? 'Make private' : `Share with ${membership.organisation.name}`}
+                >
+                  {isSharingSaving ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : isShared ? (
+                    <Lock className="w-4 h-4" />
+                  ) : (
+                    <Users className="w-4 h-4" />
+                  )}
+                </button>
+              )}
+              {access !== 'view' && (
+                <button
+                  type="button"
+                  onClick={openOverviewEditModal}
+                  className="p-2 text-white/90 hover:text-white bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
+                  title="Edit"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
+              {access === 'manage' && (
+                <button
+                  type="button"
+                  onClick={() => setIsDeleteConfirmOpen(true)}
+                  className="p-2 text-red-200 hover:text-white bg-red-500/20 hover:bg-red-600/30 rounded-lg transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
             </div>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -578,9 +782,13 @@ const ProjectDetailPage: React.FC = () => {
               </div>
               <div className="flex-1">
                 <p className="text-sm text-gray-300 mb-1">Budget</p>
-                <p className="text-lg font-semibold text-white">
+                <button
+                  onClick={() => setIsBudgetModalOpen(true)}
+                  className="text-lg font-semibold text-teal-300 hover:text-teal-200 hover:underline transition-colors text-left"
+                  title="View spending and allocations"
+                >
                   {formatCurrency(project.financial_parameters ?? 0)}
-                </p>
+                </button>
                 </div>
             </div>
 
@@ -596,6 +804,19 @@ const ProjectDetailPage: React.FC = () => {
                 </p>
               </div>
             </div>
+
+            {/* Venue */}
+            <div className="flex items-start gap-3">
+              <div className="p-2 bg-teal-500/20 rounded-lg">
+                <MapPin className="w-5 h-5 text-teal-300" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm text-gray-300 mb-1">Venue</p>
+                <p className="text-lg font-semibold text-white">
+                  {formatVenue(toProjectVenue(project)) ?? 'Not set'}
+                </p>
+              </div>
+            </div>
               
             {/* Created Date */}
             <div className="flex items-start gap-3">
@@ -651,6 +872,21 @@ const ProjectDetailPage: React.FC = () => {
                   >
                     Brief
                   </button>
+
+                  {/* Timeline Tab */}
+                  <button
+                    onClick={() => setActiveView('timeline')}
+                    className={`
+                      flex-1 px-6 py-3 rounded-md font-semibold text-sm transition-all duration-200
+                      ${
+                        activeView === 'timeline'
+                          ? 'bg-teal-600/30 text-white border border-teal-400/50 shadow-sm'
+                          : 'text-gray-300 hover:text-white hover:bg-white/5'
+                      }
+                    `}
+                  >
+                    Timeline
+                  </button>
                 </div>
 
                 {/* Actions Section - Show different actions based on active view */}
@@ -739,6 +975,7 @@ const ProjectDetailPage: React.FC = () => {
               <AssetList 
                 assets={assets}
                 isLoading={assetsLoading}
+                project={project}
                 hoveredAssetId={hoveredAssetId}
                 onAssetHover={setHoveredAssetId}
                 showFilters={showFilters}
@@ -778,6 +1015,17 @@ const ProjectDetailPage: React.FC = () => {
                 showHighlights={showHighlights}
               />
             )}
+
+            {activeView === 'timeline' && (
+              <TimelineWidget
+                deadline={project.event_date ?? project.timeline_deadline ?? null}
+                daysRemaining={getDaysUntil(project.event_date ?? project.timeline_deadline ?? null)}
+                milestones={milestones}
+                assetEvents={assetEvents}
+                assets={assets}
+                assetDependencies={assetDependencies}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -790,6 +1038,30 @@ const ProjectDetailPage: React.FC = () => {
         currentProjectId={project.id}
       />
 
+      {/* Budget Modal - spending and allocations */}
+      <BudgetAssetsModal
+        isOpen={isBudgetModalOpen}
+        onClose={() => setIsBudgetModalOpen(false)}
+        projectId={project.id}
+        producerId={project.producer_id}
+        currency={project.base_currency || DEFAULT_CURRENCY}
+      />
+
+      {/* Client Approval Modal */}
+      <ClientApprovalModal
+        isOpen={isApprovalModalOpen}
+        onClose={() => setIsApprovalModalOpen(false)}
+        project={project}
+        assets={assets}
+      />
+
+      {/* Client Estimate Modal */}
+      <ClientEstimateModal
+        isOpen={isEstimateModalOpen}
+        onClose={() => setIsEstimateModalOpen(false)}
+        project={project}
+      />
+
       {/* Asset Detail Modal (for clicking highlighted brief text) */}
       <AssetDetailModal
         isOpen={isAssetDetailModalOpen}
@@ -797,8 +1069,10 @@ const ProjectDetailPage: React.FC = () => {
         onClose={() => {
           setIsAssetDetailModalOpen(false);
           setViewingAsset(null);
+          setRequestQuoteOnOpen(false);
         }}
         onAssetUpdate={handleAssetUpdate}
+        openRequestOnOpen={requestQuoteOnOpen}
       />
 
       {/* Asset Form Modal (for adding new assets) */}
@@ -858,20 +1132,37 @@ const ProjectDetailPage: React.FC = () => {
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-200 mb-1">Budget</label>
-                <input
-                  type="number"
-                  min={0}
-                  step={1}
-                  value={overviewEditForm.financial_parameters || ''}
-                  onChange={(e) =>
-                    setOverviewEditForm((prev) => ({
-                      ...prev,
-                      financial_parameters: e.target.value === '' ? 0 : parseFloat(e.target.value) || 0,
-                    }))
-                  }
-                  className="w-full px-4 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
-                  placeholder="0"
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={overviewEditForm.financial_parameters || ''}
+                    onChange={(e) =>
+                      setOverviewEditForm((prev) => ({
+                        ...prev,
+                        financial_parameters: e.target.value === '' ? 0 : parseFloat(e.target.value) || 0,
+                      }))
+                    }
+                    className="w-full px-4 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    placeholder="0"
+                  />
+                  <select
+                    value={overviewEditForm.base_currency}
+                    onChange={(e) =>
+                      setOverviewEditForm((prev) => ({ ...prev, base_currency: e.target.value }))
+                    }
+                    className="px-3 py-2 bg-black/20 border border-white/20 rounded-lg text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    aria-label="Budget currency"
+                  >
+                    {SUPPORTED_CURRENCIES.map(({ code }) => (
+                      <option key={code} value={code} className="bg-gray-800">
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-gray-400 mt-1">Accepted quotes are converted into this currency.</p>
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-200 mb-1">Event Date</label>
@@ -884,6 +1175,68 @@ const ProjectDetailPage: React.FC = () => {
                   className="w-full px-4 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">Venue City</label>
+                <input
+                  type="text"
+                  list="venue-city-suggestions"
+                  value={overviewEditForm.venue_city}
+                  onChange={(e) => {
+                    const city = e.target.value;
+                    // Known cities fill in their region and country
+                    const place = findPlace(city);
+                    setOverviewEditForm((prev) => ({
+                      ...prev,
+                      venue_city: city,
+                      ...(place ? { venue_region: place.region, venue_country: place.country } : {}),
+                    }));
+                  }}
+                  className="w-full px-4 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  placeholder="e.g. Cape Town"
+                />
+                <datalist id="venue-city-suggestions">
+                  {VENUE_CITY_SUGGESTIONS.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+                <div className="grid grid-cols-2 gap-3 mt-2">
+                  <input
+                    type="text"
+                    value={overviewEditForm.venue_region}
+                    onChange={(e) =>
+                      setOverviewEditForm((prev) => ({ ...prev, venue_region: e.target.value }))
+                    }
+                    className="w-full px-4 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    placeholder="Province / region"
+                    aria-label="Venue region"
+                  />
+                  <input
+                    type="text"
+                    value={overviewEditForm.venue_country}
+                    onChange={(e) =>
+                      setOverviewEditForm((prev) => ({ ...prev, venue_country: e.target.value }))
+                    }
+                    className="w-full px-4 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    placeholder="Country"
+                    aria-label="Venue country"
+                  />
+                </div>
+                <p className="text-xs text-gray-400 mt-1">Suppliers serving this area are ranked first when requesting quotes.</p>
+              </div>
+              <label className="flex items-start gap-2 text-sm text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={overviewEditForm.requires_client_approval}
+                  onChange={(e) =>
+                    setOverviewEditForm((prev) => ({ ...prev, requires_client_approval: e.target.checked }))
+                  }
+                  className="mt-0.5 rounded border-white/20 bg-white/5 text-teal-500 focus:ring-teal-500"
+                />
+                <span>
+                  Require client approval before accepting quotes
+                  <span className="block text-xs text-gray-400">Quotes must be approved from the client dashboard first.</span>
+                </span>
+              </label>
             </div>
             <div className="flex justify-end gap-3 mt-6">
               <button
@@ -897,7 +1250,7 @@ const ProjectDetailPage: React.FC = () => {
                 type="button"
                 onClick={handleOverviewSave}
                 disabled={isOverviewSaving}
-                className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+                className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
               >
                 {isOverviewSaving ? (
                   <>
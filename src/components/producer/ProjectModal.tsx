@@ -5,6 +5,7 @@ import type { ProjectFormData } from '@/services/producerService';
 import { useEscapeKey } from '@/hooks/useEscapeKey';
 import Stepper, { Step } from '@/components/ui/Stepper';
 import UploadGuidelinesPanel from '@/components/shared/UploadGuidelinesPanel';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '@/utils/currency';
 
 interface ProjectModalProps {
   isOpen: boolean;
@@ -52,7 +53,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
   // Handle Escape key to close modal
   useEscapeKey(isOpen, onClose, isSubmitting || isAnalyzingBrief);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target as HTMLInputElement;
     onFormChange(name as keyof ProjectFormData, 
       name === 'financial_parameters' ? (value === '' ? undefined : parseFloat(value)) : value
@@ -105,7 +106,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
 
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-2 sm:p-4">
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink bg-opacity-40 p-2 sm:p-4">
       <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-lg shadow-lg w-full max-w-2xl max-h-[95vh] sm:max-h-[90vh] flex flex-col">
         {/* Modal Header - Fixed */}
         <div className="p-4 sm:p-6 pb-4 border-b border-white/20 flex-shrink-0 flex items-start justify-between">
@@ -298,15 +299,30 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                   Budget
                   {isAnalyzingBrief && <Loader2 className="w-3 h-3 text-purple-400 animate-spin" />}
                 </label>
-                <input
-                  name="financial_parameters"
-                  value={projectForm.financial_parameters ?? ''}
-                  onChange={handleInputChange}
-                  type="number"
-                  min="0"
-                  step="0.01"
-                  className="w-full px-3 py-2 bg-black/20 border border-white/20 rounded text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
-                />
+                <div className="flex gap-2">
+                  <input
+                    name="financial_parameters"
+                    value={projectForm.financial_parameters ?? ''}
+                    onChange={handleInputChange}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="w-full px-3 py-2 bg-black/20 border border-white/20 rounded text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  />
+                  <select
+                    name="base_currency"
+                    value={projectForm.base_currency || DEFAULT_CURRENCY}
+                    onChange={handleInputChange}
+                    aria-label="Budget currency"
+                    className="px-2 py-2 bg-black/20 border border-white/20 rounded text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                  >
+                    {SUPPORTED_CURRENCIES.map(({ code }) => (
+                      <option key={code} value={code} className="bg-gray-800">
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-200 mb-1 flex items-center gap-2">
@@ -459,7 +475,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                   type="button"
                   onClick={onAnalyzeBrief}
                   disabled={isAnalyzingBrief || !projectForm.brief_description || projectForm.brief_description.trim().length === 0}
-                  className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   {isAnalyzingBrief ? (
                     <>
@@ -499,15 +515,30 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                 Budget
                 {isAnalyzingBrief && <Loader2 className="w-3 h-3 text-purple-400 animate-spin" />}
               </label>
-              <input
-                name="financial_parameters"
-                value={projectForm.financial_parameters ?? ''}
-                onChange={handleInputChange}
-                type="number"
-                min="0"
-                step="0.01"
-                className="w-full px-3 py-2 bg-black/20 border border-white/20 rounded text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
-              />
+              <div className="flex gap-2">
+                <input
+                  name="financial_parameters"
+                  value={projectForm.financial_parameters ?? ''}
+                  onChange={handleInputChange}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  className="w-full px-3 py-2 bg-black/20 border border-white/20 rounded text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+                <select
+                  name="base_currency"
+                  value={projectForm.base_currency || DEFAULT_CURRENCY}
+                  onChange={handleInputChange}
+                  aria-label="Budget currency"
+                  className="px-2 py-2 bg-black/20 border border-white/20 rounded text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                >
+                  {SUPPORTED_CURRENCIES.map(({ code }) => (
+                    <option key={code} value={code} className="bg-gray-800">
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-200 mb-1 flex items-center gap-2">
@@ -598,7 +629,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                 type="button"
                 onClick={onSubmit}
                 disabled={isSubmitting}
-                className="w-full sm:w-auto px-4 py-2 rounded bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-50 transition-colors"
+                className="w-full sm:w-auto px-4 py-2 rounded bg-teal-600 text-on-accent hover:bg-teal-700 disabled:opacity-50 transition-colors"
               >
                 {isSubmitting ? 'Saving...' : 'Save Changes'}
               </button>
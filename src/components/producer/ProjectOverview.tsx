@@ -17,7 +17,7 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({
   onDelete
 }) => {
   return (
-    <div className="bg-white rounded-lg shadow p-6">
+    <div className="bg-paper rounded-lg shadow p-6">
       <div className="mb-4">
         <h2 className="text-xl font-semibold">{project.project_name}</h2>
       </div>
@@ -31,7 +31,7 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({
         </button>
         <button
           onClick={onDelete}
-          className="flex items-center space-x-1 px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-sm"
+          className="flex items-center space-x-1 px-3 py-1 bg-red-600 text-on-accent rounded hover:bg-red-700 text-sm"
         >
           <Trash className="h-4 w-4" />
           <span>Delete</span>
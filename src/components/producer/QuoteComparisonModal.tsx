@@ -1,11 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { X, DollarSign, Clock, Calendar, ChevronDown, ChevronUp, CheckCircle, XCircle, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { X, DollarSign, Clock, Calendar, ChevronDown, ChevronUp, CheckCircle, XCircle, TrendingUp, TrendingDown, Minus, Lock } from 'lucide-react';
 import { QuoteComparisonService, type Quote, type Asset, type ComparisonMetrics } from '@/services/quoteComparisonService';
 import { ProducerService } from '@/services/producerService';
+import { BudgetAllocationService } from '@/services/budgetAllocationService';
 import { useNotification } from '@/hooks/useNotification';
 import { getSupabase } from '@/lib/supabase';
 import { useEscapeKey } from '@/hooks/useEscapeKey';
 import { getSupplierPrimaryEmail } from '@/utils/supplierUtils';
+import { formatCurrency } from '@/utils/currency';
+import { getLineItemTotal } from '@/utils/quoteLineItems';
+import { describeAllocationOverrun } from '@/utils/budgetAllocations';
+import { describeBidOpening } from '@/utils/sealedBids';
+import LineItemComparisonTable from './LineItemComparisonTable';
 
 interface QuoteComparisonModalProps {
   isOpen: boolean;
@@ -25,6 +31,7 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
   const [asset, setAsset] = useState<Asset | null>(null);
   const [quotes, setQuotes] = useState<Quote[]>([]);
   const [comparisonMetrics, setComparisonMetrics] = useState<ComparisonMetrics | null>(null);
+  const [sealed, setSealed] = useState(false);
   const [expandedQuotes, setExpandedQuotes] = useState<Set<string>>(new Set());
   const [sortBy, setSortBy] = useState<'cost' | 'response_time' | 'validity'>('cost');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
@@ -47,6 +54,7 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
         setAsset(response.data.asset);
         setQuotes(response.data.quotes);
         setComparisonMetrics(response.data.comparison_metrics);
+        setSealed(Boolean(response.data.sealed));
       } else {
         showError(`Failed to load quote comparison: ${response.error?.message || 'Unknown error'}`);
       }
@@ -60,6 +68,18 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
 
   const handleAcceptQuote = async (quoteId: string) => {
     try {
+      // A failed budget check shouldn't block acceptance
+      const overruns = await BudgetAllocationService.getAcceptanceOverruns(quoteId).catch((overrunError) => {
+        console.error('Error checking budget allocations:', overrunError);
+        return [];
+      });
+      if (
+        overruns.length > 0 &&
+        !confirm(`${overruns.map(describeAllocationOverrun).join('\n')}\n\nAccept this quote anyway?`)
+      ) {
+        return;
+      }
+
       await ProducerService.acceptQuote(quoteId);
 
       showSuccess('Quote accepted successfully');
@@ -67,7 +87,7 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
       onQuoteUpdate(); // Update parent component
     } catch (error) {
       console.error('Error accepting quote:', error instanceof Error ? error.message : String(error));
-      showError('Failed to accept quote');
+      showError(error instanceof Error ? error.message : 'Failed to accept quote');
     }
   };
 
@@ -106,8 +126,8 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
 
     switch (sortBy) {
       case 'cost':
-        aValue = a.cost;
-        bValue = b.cost;
+        aValue = QuoteComparisonService.getComparableCost(a);
+        bValue = QuoteComparisonService.getComparableCost(b);
         break;
       case 'response_time':
         aValue = a.response_time_hours;
@@ -118,8 +138,8 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
         bValue = new Date(b.valid_until).getTime();
         break;
       default:
-        aValue = a.cost;
-        bValue = b.cost;
+        aValue = QuoteComparisonService.getComparableCost(a);
+        bValue = QuoteComparisonService.getComparableCost(b);
     }
 
     if (sortOrder === 'asc') {
@@ -132,9 +152,11 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
   const getCostComparisonIcon = (quote: Quote) => {
     if (!comparisonMetrics) return null;
     
-    if (quote.cost === comparisonMetrics.lowest_cost) {
+    if (quote.converted_cost === null) {
+      return null;
+    } else if (quote.converted_cost === comparisonMetrics.lowest_cost) {
       return <TrendingDown className="h-4 w-4 text-green-600" />;
-    } else if (quote.cost === comparisonMetrics.highest_cost) {
+    } else if (quote.converted_cost === comparisonMetrics.highest_cost) {
       return <TrendingUp className="h-4 w-4 text-red-600" />;
     } else {
       return <Minus className="h-4 w-4 text-gray-400" />;
@@ -144,8 +166,8 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
   if (!isOpen) return null;
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-7xl max-h-[90vh] overflow-hidden">
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink bg-opacity-50">
+      <div className="bg-paper rounded-lg shadow-xl w-full max-w-7xl max-h-[90vh] overflow-hidden">
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b">
           <div>
@@ -171,6 +193,26 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
               <span className="ml-3 text-gray-600">Loading quote comparison...</span>
             </div>
+          ) : asset && sealed ? (
+            <div className="text-center py-12">
+              <Lock className="h-12 w-12 text-amber-500 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Bids Are Sealed</h3>
+              <p className="text-gray-600 mb-6">
+                {describeBidOpening(asset)}. Costs can be compared once the bids are opened.
+              </p>
+              {quotes.length > 0 && (
+                <ul className="max-w-md mx-auto divide-y divide-gray-200 border border-gray-200 rounded-lg text-left">
+                  {quotes.map((quote) => (
+                    <li key={quote.id} className="flex items-center justify-between px-4 py-3">
+                      <span className="font-medium text-gray-900 truncate">{quote.supplier.supplier_name}</span>
+                      <span className="text-sm text-gray-500">
+                        Received {new Date(quote.created_at).toLocaleDateString()}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
           ) : asset && quotes.length > 0 ? (
             <>
               {/* Asset Details */}
@@ -193,6 +235,12 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
               </div>
 
               {/* Comparison Metrics */}
+              {comparisonMetrics && comparisonMetrics.unconverted_quote_count > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4 text-sm text-yellow-800">
+                  {comparisonMetrics.unconverted_quote_count} quote(s) could not be converted to {comparisonMetrics.currency} and are
+                  excluded from these metrics. Add the missing exchange rates in Settings → Currencies.
+                </div>
+              )}
               {comparisonMetrics && (
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
                   <div className="bg-green-50 rounded-lg p-4">
@@ -201,7 +249,7 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
                       <span className="ml-2 text-sm font-medium text-green-800">Lowest Cost</span>
                     </div>
                     <p className="text-2xl font-bold text-green-900 mt-1">
-                      ${comparisonMetrics.lowest_cost.toFixed(2)}
+                      {formatCurrency(comparisonMetrics.lowest_cost, comparisonMetrics.currency)}
                     </p>
                   </div>
                   <div className="bg-red-50 rounded-lg p-4">
@@ -210,7 +258,7 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
                       <span className="ml-2 text-sm font-medium text-red-800">Highest Cost</span>
                     </div>
                     <p className="text-2xl font-bold text-red-900 mt-1">
-                      ${comparisonMetrics.highest_cost.toFixed(2)}
+                      {formatCurrency(comparisonMetrics.highest_cost, comparisonMetrics.currency)}
                     </p>
                   </div>
                   <div className="bg-blue-50 rounded-lg p-4">
@@ -219,7 +267,7 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
                       <span className="ml-2 text-sm font-medium text-blue-800">Average Cost</span>
                     </div>
                     <p className="text-2xl font-bold text-blue-900 mt-1">
-                      ${comparisonMetrics.average_cost.toFixed(2)}
+                      {formatCurrency(comparisonMetrics.average_cost, comparisonMetrics.currency)}
                     </p>
                   </div>
                   <div className="bg-purple-50 rounded-lg p-4">
@@ -260,17 +308,20 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
                 </div>
               </div>
 
+              {/* Line Item Comparison */}
+              <LineItemComparisonTable quotes={sortedQuotes} />
+
               {/* Quotes Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
                 {sortedQuotes.map((quote) => (
                   <div
                     key={quote.id}
                     className={`border rounded-lg p-4 transition-all ${
-                      quote.cost === comparisonMetrics?.lowest_cost
+                      quote.converted_cost !== null && quote.converted_cost === comparisonMetrics?.lowest_cost
                         ? 'border-green-300 bg-green-50'
                         : quote.status === 'Accepted'
                         ? 'border-blue-300 bg-blue-50'
-                        : 'border-gray-200 bg-white'
+                        : 'border-gray-200 bg-paper'
                     }`}
                   >
                     {/* Quote Header */}
@@ -297,12 +348,19 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
                     <div className="mb-3">
                       <div className="flex items-center justify-between">
                         <span className="text-2xl font-bold text-gray-900">
-                          ${quote.cost.toFixed(2)}
+                          {formatCurrency(quote.cost, quote.currency)}
                         </span>
                         <span className="text-sm text-gray-500">
                           #{quote.cost_rank}
                         </span>
                       </div>
+                      {comparisonMetrics && quote.currency !== comparisonMetrics.currency && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {quote.converted_cost !== null
+                            ? `≈ ${formatCurrency(quote.converted_cost, comparisonMetrics.currency)}`
+                            : `No ${quote.currency} → ${comparisonMetrics.currency} rate set`}
+                        </p>
+                      )}
                       {quote.cost_percentage_of_lowest > 100 && (
                         <p className="text-xs text-gray-500 mt-1">
                           +{quote.cost_percentage_of_lowest - 100}% vs lowest
@@ -337,13 +395,23 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
 
                     {expandedQuotes.has(quote.id) && (
                       <div className="border-t pt-3 mb-3">
-                        {/* Cost Breakdown */}
-                        <div className="mb-3">
-                          <h5 className="font-medium text-gray-900 mb-2">Cost Breakdown</h5>
-                          <div className="text-sm text-gray-600">
-                            {QuoteComparisonService.formatCostBreakdown(quote.cost_breakdown)}
+                        {/* Line Items */}
+                        {quote.line_items.length > 0 && (
+                          <div className="mb-3">
+                            <h5 className="font-medium text-gray-900 mb-2">Line Items</h5>
+                            <ul className="text-sm text-gray-600 space-y-1">
+                              {quote.line_items.map((item) => (
+                                <li key={item.id} className="flex justify-between gap-2">
+                                  <span className={item.is_optional ? 'italic' : undefined}>
+                                    {Number(item.quantity)} × {item.description}
+                                    {item.is_optional && ' (optional)'}
+                                  </span>
+                                  <span>{formatCurrency(getLineItemTotal(item), quote.currency)}</span>
+                                </li>
+                              ))}
+                            </ul>
                           </div>
-                        </div>
+                        )}
 
                         {/* Supplier Notes */}
                         {quote.notes_capacity && (
@@ -382,14 +450,14 @@ const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({
                       <div className="flex space-x-2">
                         <button
                           onClick={() => handleAcceptQuote(quote.id)}
-                          className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+                          className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 bg-green-600 text-on-accent rounded-md hover:bg-green-700 transition-colors"
                         >
                           <CheckCircle className="h-4 w-4" />
                           <span className="text-sm">Accept</span>
                         </button>
                         <button
                           onClick={() => handleRejectQuote(quote.id)}
-                          className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+                          className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 bg-red-600 text-on-accent rounded-md hover:bg-red-700 transition-colors"
                         >
                           <XCircle className="h-4 w-4" />
                           <span className="text-sm">Reject</span>
@@ -1,19 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { X, DollarSign, FileText, Building2, Mail, Clock, AlertCircle, Loader2, CheckCircle, Paperclip } from 'lucide-react';
+import { X, DollarSign, FileText, Building2, Mail, Clock, AlertCircle, Loader2, CheckCircle, Paperclip, RotateCcw, Lock } from 'lucide-react';
 import { QuoteService } from '@/services/quoteService';
 import { ProducerService } from '@/services/producerService';
+import { BudgetAllocationService } from '@/services/budgetAllocationService';
 import { useNotification } from '@/hooks/useNotification';
 import QuoteChat from '@/components/shared/QuoteChat';
 import AttachmentSidePanel from '@/components/shared/AttachmentSidePanel';
+import QuoteVersionTimeline from './QuoteVersionTimeline';
 import type { Quote } from '@/lib/supabase';
+import type { QuoteVersion } from '@/types/database';
 import { getSupplierPrimaryEmail } from '@/utils/supplierUtils';
+import { DEFAULT_CURRENCY, formatCurrency } from '@/utils/currency';
+import { describeAllocationOverrun, type AllocationOverrun } from '@/utils/budgetAllocations';
 
 interface QuoteDetailModalProps {
   isOpen: boolean;
   quote: Quote | null;
   onClose: () => void;
   onQuoteUpdate?: () => void;
+  /** Set while bids are sealed; the offer is hidden and cannot be accepted */
+  sealedNotice?: string | null;
 }
 
 /**
@@ -23,6 +30,9 @@ interface QuoteDetailModalProps {
  * - Two-column layout (desktop): Quote details left, Chat right
  * - Stacked layout (mobile): Quote details top, Chat bottom
  * - Displays all quote information (cost, notes, PDF, status, supplier)
+ * - Version history with diffs between submissions; producers can request a revision
+ * - Warns when accepting would exceed a budget allocation
+ * - Hides the offer and acceptance while bids are sealed
  * - Integrated chat interface
  * - Portal rendering for proper z-index
  */
@@ -30,7 +40,8 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
   isOpen,
   quote,
   onClose,
-  onQuoteUpdate
+  onQuoteUpdate,
+  sealedNotice = null
 }) => {
   const { showError, showSuccess } = useNotification();
   const [quoteData, setQuoteData] = useState<{
@@ -44,6 +55,12 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
   const [isSidePanelOpen, setIsSidePanelOpen] = useState(false);
   const [selectedChatFiles, setSelectedChatFiles] = useState<Array<{ file: File; key: string }>>([]);
   const [attachmentNotes, setAttachmentNotes] = useState<Record<string, string>>({});
+  const [attachmentsRefreshKey, setAttachmentsRefreshKey] = useState(0);
+  const [versions, setVersions] = useState<QuoteVersion[]>([]);
+  const [isRevisionFormOpen, setIsRevisionFormOpen] = useState(false);
+  const [revisionReason, setRevisionReason] = useState('');
+  const [requestingRevision, setRequestingRevision] = useState(false);
+  const [budgetOverruns, setBudgetOverruns] = useState<AllocationOverrun[]>([]);
 
   // Load quote data when modal opens
   useEffect(() => {
@@ -58,6 +75,10 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
       setIsSidePanelOpen(false);
       setSelectedChatFiles([]);
       setAttachmentNotes({});
+      setVersions([]);
+      setIsRevisionFormOpen(false);
+      setRevisionReason('');
+      setBudgetOverruns([]);
     }
   }, [isOpen, quote?.id]);
 
@@ -91,6 +112,33 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
     }
   };
 
+  // Handle revision request - reopens the quote for the supplier
+  const handleRequestRevision = async () => {
+    const targetQuote = quoteData?.quote || quote;
+    if (!targetQuote || targetQuote.status !== 'Submitted' || !revisionReason.trim()) return;
+
+    setRequestingRevision(true);
+    try {
+      const response = await QuoteService.requestRevision(targetQuote.id, revisionReason);
+
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to request revision');
+      }
+
+      showSuccess('Revision requested. The supplier has been notified.');
+      setIsRevisionFormOpen(false);
+      setRevisionReason('');
+
+      await loadQuoteData();
+      onQuoteUpdate?.();
+    } catch (error) {
+      console.error('Error requesting revision:', error);
+      showError(error instanceof Error ? error.message : 'Failed to request revision. Please try again.');
+    } finally {
+      setRequestingRevision(false);
+    }
+  };
+
   const loadQuoteData = async () => {
     if (!quote?.id) return;
 
@@ -98,7 +146,10 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
     setError(null);
 
     try {
-      const response = await QuoteService.getQuoteMessages(quote.id);
+      const [response, versionsResponse] = await Promise.all([
+        QuoteService.getQuoteMessages(quote.id),
+        QuoteService.getQuoteVersions(quote.id)
+      ]);
       
       if (!response.success || !response.data) {
         setError(response.error?.message || 'Failed to load quote data');
@@ -110,6 +161,26 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
         asset: response.data.asset,
         supplier: response.data.supplier
       });
+
+      // Budget warnings are supplementary too
+      if (response.data.quote?.status === 'Submitted') {
+        BudgetAllocationService.getAcceptanceOverruns(quote.id)
+          .then(setBudgetOverruns)
+          .catch((overrunError) => {
+            console.error('Error checking budget allocations:', overrunError);
+            setBudgetOverruns([]);
+          });
+      } else {
+        setBudgetOverruns([]);
+      }
+
+      // Version history is supplementary; don't fail the modal if it can't load
+      if (versionsResponse.success && versionsResponse.data) {
+        setVersions(versionsResponse.data);
+      } else {
+        console.error('Error loading quote versions:', versionsResponse.error);
+        setVersions([]);
+      }
     } catch (err) {
       console.error('Error loading quote data:', err);
       setError('An unexpected error occurred');
@@ -130,11 +201,8 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
   };
 
   // Format cost as currency
-  const formatCost = (cost: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(cost);
+  const formatCost = (cost: number, currency?: string): string => {
+    return formatCurrency(cost, currency || DEFAULT_CURRENCY);
   };
 
   // Format date
@@ -207,12 +275,12 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
-        <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 px-6 py-5 rounded-t-xl">
+        <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 text-on-accent px-6 py-5 rounded-t-xl">
           <div className="flex items-start justify-between">
             <div className="flex-1 pr-4">
               <div className="flex items-center gap-3 mb-2">
-                <FileText className="w-6 h-6 text-white" />
-                <h2 className="text-2xl font-bold text-white">
+                <FileText className="w-6 h-6 text-on-accent" />
+                <h2 className="text-2xl font-bold text-on-accent">
                   Quote Details
                 </h2>
               </div>
@@ -229,7 +297,7 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
               className="flex-shrink-0 p-2 hover:bg-white/20 rounded-lg transition-colors"
               aria-label="Close modal"
             >
-              <X className="w-6 h-6 text-white" />
+              <X className="w-6 h-6 text-on-accent" />
             </button>
           </div>
         </div>
@@ -295,20 +363,28 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
                       </span>
                     </div>
 
+                    {/* Sealed bid */}
+                    {sealedNotice && (
+                      <div className="flex items-start gap-2 p-3 bg-amber-500/20 border border-amber-400/50 rounded-lg text-sm text-amber-100">
+                        <Lock className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        <span>Costs are hidden while bids are sealed. {sealedNotice}.</span>
+                      </div>
+                    )}
+
                     {/* Cost */}
-                    {currentQuote.cost > 0 && (
+                    {!sealedNotice && currentQuote.cost > 0 && (
                       <div>
                         <label className="block text-sm font-semibold text-gray-200 mb-1">
                           Quote Amount
                         </label>
                         <p className="text-2xl font-bold text-white">
-                          {formatCost(currentQuote.cost)}
+                          {formatCost(currentQuote.cost, currentQuote.currency)}
                         </p>
                       </div>
                     )}
 
                     {/* Notes */}
-                    {currentQuote.notes_capacity && currentQuote.notes_capacity.trim() && (
+                    {!sealedNotice && currentQuote.notes_capacity && currentQuote.notes_capacity.trim() && (
                       <div>
                         <label className="block text-sm font-semibold text-gray-200 mb-2">
                           Notes
@@ -320,7 +396,7 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
                     )}
 
                     {/* PDF Document */}
-                    {currentQuote.quote_document_url && (
+                    {!sealedNotice && currentQuote.quote_document_url && (
                       <div>
                         <label className="block text-sm font-semibold text-gray-200 mb-2">
                           Quote Document
@@ -329,7 +405,7 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
                           href={currentQuote.quote_document_url}
                           target="_blank"
                           rel="noopener noreferrer"
-                          className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+                          className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-on-accent rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
                           title="View quote PDF document"
                         >
                           <FileText className="w-4 h-4" />
@@ -375,13 +451,29 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
                   </div>
                 </section>
 
+                {/* Version History */}
+                {!sealedNotice && <QuoteVersionTimeline versions={versions} />}
+
                 {/* Accept Quote Button */}
-                {currentQuote.status === 'Submitted' && (
-                  <section>
+                {currentQuote.status === 'Submitted' && !sealedNotice && (
+                  <section className="space-y-3">
+                    {budgetOverruns.length > 0 && (
+                      <div className="p-3 bg-yellow-500/20 border border-yellow-400/50 rounded-lg flex items-start gap-2">
+                        <AlertCircle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+                        <div className="text-sm text-yellow-100">
+                          <p className="font-semibold">Accepting this quote exceeds the budget allocation</p>
+                          <ul className="mt-1 space-y-0.5 text-xs text-yellow-200">
+                            {budgetOverruns.map((overrun) => (
+                              <li key={`${overrun.kind}:${overrun.label}`}>{describeAllocationOverrun(overrun)}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    )}
                     <button
                       onClick={handleAcceptQuote}
                       disabled={accepting}
-                      className="w-full bg-gradient-to-r from-purple-600 to-purple-700 text-white rounded-lg px-6 py-4 font-semibold hover:from-purple-700 hover:to-purple-800 transition-all flex items-center justify-center space-x-2 disabled:bg-gray-600 disabled:cursor-not-allowed shadow-lg"
+                      className="w-full bg-gradient-to-r from-purple-600 to-purple-700 text-on-accent rounded-lg px-6 py-4 font-semibold hover:from-purple-700 hover:to-purple-800 transition-all flex items-center justify-center space-x-2 disabled:bg-gray-600 disabled:cursor-not-allowed shadow-lg"
                     >
                       {accepting ? (
                         <>
@@ -395,6 +487,60 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
                         </>
                       )}
                     </button>
+
+                    {/* Request Revision */}
+                    {isRevisionFormOpen ? (
+                      <div className="bg-black/20 rounded-lg p-4 border border-white/20 space-y-3">
+                        <label htmlFor="revision-reason" className="block text-sm font-semibold text-gray-200">
+                          What should the supplier revise?
+                        </label>
+                        <textarea
+                          id="revision-reason"
+                          value={revisionReason}
+                          onChange={(e) => setRevisionReason(e.target.value)}
+                          rows={3}
+                          placeholder="e.g. Can you bring labor down or quote without installation?"
+                          className="w-full px-3 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                          disabled={requestingRevision}
+                        />
+                        <div className="flex justify-end gap-2">
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setIsRevisionFormOpen(false);
+                              setRevisionReason('');
+                            }}
+                            disabled={requestingRevision}
+                            className="px-4 py-2 text-sm text-gray-200 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            type="button"
+                            onClick={handleRequestRevision}
+                            disabled={requestingRevision || !revisionReason.trim()}
+                            className="px-4 py-2 text-sm bg-amber-600 text-on-accent rounded-lg hover:bg-amber-700 transition-colors flex items-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+                          >
+                            {requestingRevision ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <RotateCcw className="w-4 h-4" />
+                            )}
+                            <span>{requestingRevision ? 'Sending...' : 'Send Request'}</span>
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setIsRevisionFormOpen(true)}
+                        disabled={accepting}
+                        className="w-full bg-white/10 border border-white/20 text-white rounded-lg px-6 py-3 font-medium hover:bg-white/20 transition-all flex items-center justify-center space-x-2 disabled:opacity-60 disabled:cursor-not-allowed"
+                      >
+                        <RotateCcw className="w-5 h-5" />
+                        <span>Request Revision</span>
+                      </button>
+                    )}
                   </section>
                 )}
               </div>
@@ -444,6 +590,7 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
                       onSelectedFilesChange={setSelectedChatFiles}
                       externalAttachmentNotes={attachmentNotes}
                       onAttachmentNotesChange={setAttachmentNotes}
+                      onAttachmentsChanged={() => setAttachmentsRefreshKey(prev => prev + 1)}
                     />
                   </div>
                   {isSidePanelOpen && (
@@ -454,6 +601,8 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
                         onClose={() => setIsSidePanelOpen(false)}
                         onUploadFiles={handlePanelUpload}
                         variant="inline"
+                        refreshKey={attachmentsRefreshKey}
+                        pollingEnabled={false}
                       />
                     </div>
                   )}
@@ -466,6 +615,8 @@ const QuoteDetailModal: React.FC<QuoteDetailModalProps> = ({
                       onClose={() => setIsSidePanelOpen(false)}
                       onUploadFiles={handlePanelUpload}
                       variant="overlay"
+                      refreshKey={attachmentsRefreshKey}
+                      pollingEnabled={false}
                     />
                   </div>
                 )}
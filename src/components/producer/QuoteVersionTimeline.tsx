@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { History, TrendingDown, TrendingUp, Minus, FileText, ChevronDown, ChevronUp } from 'lucide-react';
+import type { QuoteVersion } from '@/types/database';
+import { formatCurrency } from '@/utils/currency';
+import { diffLines, getQuoteVersionChanges, getQuoteVersionCostDelta } from '@/utils/quoteVersions';
+
+interface QuoteVersionTimelineProps {
+  versions: QuoteVersion[];
+}
+
+/**
+ * QuoteVersionTimeline - Submission history for a quote
+ *
+ * Shows every submitted version newest first, with the price movement and a
+ * line-by-line diff against the previous version so producers can follow a negotiation.
+ */
+const QuoteVersionTimeline: React.FC<QuoteVersionTimelineProps> = ({ versions }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (versions.length === 0) {
+    return null;
+  }
+
+  const formatDate = (dateString: string): string =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  const newestFirst = [...versions].sort((a, b) => b.version_number - a.version_number);
+
+  return (
+    <section>
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <History className="w-5 h-5 text-purple-300" />
+        Version History
+        <span className="text-sm font-normal text-gray-300">
+          ({versions.length} {versions.length === 1 ? 'submission' : 'submissions'})
+        </span>
+      </h3>
+      <ol className="relative border-l border-white/20 ml-2 space-y-4">
+        {newestFirst.map((version, index) => {
+          const previous = newestFirst[index + 1];
+          const isLatest = index === 0;
+          const isExpanded = expandedId === version.id || (expandedId === null && isLatest);
+          const delta = previous ? getQuoteVersionCostDelta(previous, version) : null;
+          const changes = previous ? getQuoteVersionChanges(previous, version) : [];
+          const notesDiff = previous ? diffLines(previous.notes_capacity, version.notes_capacity) : [];
+          const notesChanged = notesDiff.some(line => line.type !== 'unchanged');
+
+          return (
+            <li key={version.id} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white/40 ${
+                  isLatest ? 'bg-purple-400' : 'bg-gray-500'
+                }`}
+              />
+              <button
+                type="button"
+                onClick={() => setExpandedId(isExpanded ? '' : version.id)}
+                className="w-full text-left flex items-start justify-between gap-3"
+                aria-expanded={isExpanded}
+              >
+                <div>
+                  <p className="text-sm font-semibold text-white">
+                    Version {version.version_number}
+                    {isLatest && (
+                      <span className="ml-2 px-2 py-0.5 text-xs bg-purple-500/30 text-purple-200 rounded-full border border-purple-400/50">
+                        Latest
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-400">{formatDate(version.submitted_at)}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-white font-semibold">
+                    {formatCurrency(version.cost, version.currency)}
+                  </span>
+                  {delta && delta.amount !== 0 && (
+                    <span
+                      className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full border ${
+                        delta.amount < 0
+                          ? 'bg-green-500/20 text-green-300 border-green-400/40'
+                          : 'bg-red-500/20 text-red-300 border-red-400/40'
+                      }`}
+                    >
+                      {delta.amount < 0 ? <TrendingDown className="w-3 h-3" /> : <TrendingUp className="w-3 h-3" />}
+                      {delta.percentage !== null
+                        ? `${delta.amount > 0 ? '+' : ''}${delta.percentage.toFixed(1)}%`
+                        : formatCurrency(delta.amount, version.currency)}
+                    </span>
+                  )}
+                  {delta && delta.amount === 0 && <Minus className="w-3 h-3 text-gray-400" />}
+                  {isExpanded ? (
+                    <ChevronUp className="w-4 h-4 text-gray-400" />
+                  ) : (
+                    <ChevronDown className="w-4 h-4 text-gray-400" />
+                  )}
+                </div>
+              </button>
+
+              {isExpanded && (
+                <div className="mt-3 bg-black/20 rounded-lg p-3 border border-white/10 space-y-3 text-sm">
+                  {!previous ? (
+                    <p className="text-gray-300">Initial submission.</p>
+                  ) : changes.length === 0 && !notesChanged ? (
+                    <p className="text-gray-300">No changes from version {previous.version_number}.</p>
+                  ) : (
+                    <>
+                      {changes.length > 0 && (
+                        <table className="w-full text-xs">
+                          <tbody className="divide-y divide-white/10">
+                            {changes.map((change) => (
+                              <tr key={change.field}>
+                                <td className="py-1 pr-2 text-gray-300">{change.field}</td>
+                                <td className="py-1 pr-2 text-red-300 line-through">{change.from}</td>
+                                <td className="py-1 text-green-300">{change.to}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      {notesChanged && (
+                        <div>
+                          <p className="text-xs font-semibold text-gray-300 mb-1">Notes</p>
+                          <pre className="text-xs whitespace-pre-wrap font-mono bg-black/30 rounded p-2">
+                            {notesDiff.map((line, lineIndex) => (
+                              <div
+                                key={lineIndex}
+                                className={
+                                  line.type === 'added'
+                                    ? 'text-green-300 bg-green-500/10'
+                                    : line.type === 'removed'
+                                    ? 'text-red-300 bg-red-500/10'
+                                    : 'text-gray-400'
+                                }
+                              >
+                                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                                {line.text}
+                              </div>
+                            ))}
+                          </pre>
+                        </div>
+                      )}
+                    </>
+                  )}
+                  {version.quote_document_url && (
+                    <a
+                      href={version.quote_document_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs text-blue-300 hover:text-blue-200"
+                    >
+                      <FileText className="w-3 h-3" />
+                      Version {version.version_number} document
+                    </a>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+};
+
+export default QuoteVersionTimeline;
@@ -1,10 +1,11 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { FileText, Building2, Mail, DollarSign, Plus, Clock, AlertCircle, Loader2, BarChart3, MessageCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { FileText, Building2, Mail, DollarSign, Plus, Clock, AlertCircle, Loader2, BarChart3, MessageCircle, ChevronDown, ChevronUp, Lock } from 'lucide-react';
 import { ProducerService } from '@/services/producerService';
 import { useNotification } from '@/hooks/useNotification';
 import QuoteComparisonModal from './QuoteComparisonModal';
 import type { Quote } from '@/lib/supabase';
 import { getSupplierPrimaryEmail } from '@/utils/supplierUtils';
+import { DEFAULT_CURRENCY, formatCurrency } from '@/utils/currency';
 
 interface QuotesListProps {
   assetId: string;
@@ -13,6 +14,8 @@ interface QuotesListProps {
   onOpenRequestModal: () => void;
   refreshTrigger?: number;
   isVisible: boolean;
+  /** Set while bids are sealed; costs and offer details are hidden behind this notice */
+  sealedNotice?: string | null;
 }
 
 /**
@@ -23,6 +26,7 @@ interface QuotesListProps {
  * - Shows supplier details for each quote
  * - Color-coded status badges
  * - Cost display (or "Pending Response" indicator)
+ * - Costs, notes and PDFs hidden while bids are sealed
  * - "Request Quote" button to add new suppliers
  * - Loading and error states
  * - Empty state when no quotes exist
@@ -33,7 +37,8 @@ const QuotesList: React.FC<QuotesListProps> = ({
   onQuoteClick,
   onOpenRequestModal,
   refreshTrigger,
-  isVisible
+  isVisible,
+  sealedNotice = null
 }) => {
   const { showError } = useNotification();
   
@@ -184,11 +189,8 @@ const QuotesList: React.FC<QuotesListProps> = ({
   };
 
   // Format cost as currency
-  const formatCost = (cost: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(cost);
+  const formatCost = (cost: number, currency?: string): string => {
+    return formatCurrency(cost, currency || DEFAULT_CURRENCY);
   };
 
   // Format date
@@ -204,14 +206,14 @@ const QuotesList: React.FC<QuotesListProps> = ({
     const { isWinner = false, dimmed = false } = options || {};
     const badge = getStatusBadge(quote);
     const isPending = quote.status === 'Pending' || (quote.status === 'Submitted' && quote.cost === 0);
-    const hasResponseDetails = quote.status === 'Submitted' || quote.status === 'Accepted' || quote.status === 'Rejected';
+    const hasResponseDetails = !sealedNotice && (quote.status === 'Submitted' || quote.status === 'Accepted' || quote.status === 'Rejected');
     const supplierEmail = quote.supplier ? getSupplierPrimaryEmail(quote.supplier) : null;
 
     return (
       <div
         key={quote.id}
         className={[
-          'bg-white/10 backdrop-blur-md border rounded-lg p-4 hover:bg-white/20 transition-colors',
+          'bg-white/10 backdrop-blur-md border rounded-lg p-density-card hover:bg-white/20 transition-colors',
           isWinner ? 'border-green-500/80 bg-green-500/10' : 'border-white/20',
           dimmed ? 'opacity-75' : ''
         ].join(' ')}
@@ -251,11 +253,16 @@ const QuotesList: React.FC<QuotesListProps> = ({
                 <Clock className="w-4 h-4" />
                 <span className="text-sm font-medium">Awaiting supplier response</span>
               </div>
+            ) : sealedNotice ? (
+              <div className="flex items-center gap-2 text-amber-200" title={sealedNotice}>
+                <Lock className="w-4 h-4" />
+                <span className="text-sm font-medium">Bid received (sealed)</span>
+              </div>
             ) : quote.cost > 0 ? (
               <div className="flex items-center gap-2">
                 <DollarSign className="w-4 h-4 text-gray-300" />
                 <span className="text-lg font-bold text-white">
-                  {formatCost(quote.cost)}
+                  {formatCost(quote.cost, quote.currency)}
                 </span>
               </div>
             ) : null}
@@ -270,7 +277,7 @@ const QuotesList: React.FC<QuotesListProps> = ({
             {/* View Details Button */}
             <button
               onClick={() => onQuoteClick?.(quote)}
-              className="flex items-center gap-1.5 px-3 py-1.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm font-medium"
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 transition-colors text-sm font-medium"
               title="View quote details and chat"
             >
               <MessageCircle className="w-4 h-4" />
@@ -296,7 +303,7 @@ const QuotesList: React.FC<QuotesListProps> = ({
               href={quote.quote_document_url}
               target="_blank"
               rel="noopener noreferrer"
-              className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+              className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-on-accent rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
               title="View quote PDF document"
             >
               <FileText className="w-4 h-4" />
@@ -345,7 +352,7 @@ const QuotesList: React.FC<QuotesListProps> = ({
         <p className="text-gray-300 text-sm mb-4">{error}</p>
         <button
           onClick={fetchQuotes}
-          className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+          className="px-4 py-2 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 transition-colors"
         >
           Try Again
         </button>
@@ -378,7 +385,7 @@ const QuotesList: React.FC<QuotesListProps> = ({
           {hasMultipleSubmittedQuotes && (
             <button
               onClick={() => setIsComparisonModalOpen(true)}
-              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm font-medium text-sm"
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-on-accent rounded-lg hover:bg-blue-700 transition-colors shadow-sm font-medium text-sm"
             >
               <BarChart3 className="w-4 h-4" />
               Compare Quotes
@@ -388,7 +395,7 @@ const QuotesList: React.FC<QuotesListProps> = ({
           {/* Request Quote Button */}
           <button
             onClick={onOpenRequestModal}
-            className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors shadow-sm font-medium text-sm"
+            className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 transition-colors shadow-sm font-medium text-sm"
           >
             <Plus className="w-4 h-4" />
             Request Quote
@@ -407,7 +414,7 @@ const QuotesList: React.FC<QuotesListProps> = ({
           </p>
           <button
             onClick={onOpenRequestModal}
-            className="inline-flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors font-medium"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 transition-colors font-medium"
           >
             <Plus className="w-4 h-4" />
             Request Your First Quote
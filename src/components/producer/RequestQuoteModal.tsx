@@ -136,7 +136,7 @@ const RequestQuoteModal: React.FC<RequestQuoteModalProps> = ({
     <>
       {/* Backdrop */}
       <div
-        className="fixed inset-0 bg-black bg-opacity-50 z-40 transition-opacity"
+        className="fixed inset-0 bg-ink bg-opacity-50 z-40 transition-opacity"
         onClick={onClose}
         aria-hidden="true"
       />
@@ -146,14 +146,14 @@ const RequestQuoteModal: React.FC<RequestQuoteModalProps> = ({
         <div className="flex min-h-full items-center justify-center p-4 sm:p-6 lg:p-8">
           {/* Modal Content */}
           <div
-            className="relative bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] overflow-hidden"
+            className="relative bg-paper rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] overflow-hidden"
             onClick={(e) => e.stopPropagation()}
           >
             {/* Header */}
-            <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 px-6 py-5">
+            <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 text-on-accent px-6 py-5">
               <div className="flex items-start justify-between">
                 <div className="flex-1 pr-4">
-                  <h2 className="text-2xl font-bold text-white mb-1">
+                  <h2 className="text-2xl font-bold text-on-accent mb-1">
                     Request Quote
                   </h2>
                   <p className="text-purple-100 text-sm">
@@ -167,7 +167,7 @@ const RequestQuoteModal: React.FC<RequestQuoteModalProps> = ({
                   className="flex-shrink-0 p-2 hover:bg-white/20 rounded-lg transition-colors"
                   aria-label="Close modal"
                 >
-                  <X className="w-6 h-6 text-white" />
+                  <X className="w-6 h-6 text-on-accent" />
                 </button>
               </div>
             </div>
@@ -320,7 +320,7 @@ const RequestQuoteModal: React.FC<RequestQuoteModalProps> = ({
                     px-5 py-2 rounded-lg font-medium transition-all duration-200 flex items-center gap-2
                     ${!selectedSupplierId || submitting
                       ? 'bg-gray-400 cursor-not-allowed text-white'
-                      : 'bg-purple-600 hover:bg-purple-700 text-white shadow-sm hover:shadow'
+                      : 'bg-purple-600 hover:bg-purple-700 text-on-accent shadow-sm hover:shadow'
                     }
                   `}
                 >
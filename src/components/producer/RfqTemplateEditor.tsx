@@ -0,0 +1,250 @@
+import React, { useState, useRef } from 'react';
+import { Loader2, Save, AlertTriangle, Eye } from 'lucide-react';
+import type { RfqEmailTemplate, RfqEmailTemplateInput } from '@/types/database';
+import { getTagColor } from '@/utils/assetTags';
+import { useAssetTagTaxonomy } from '@/contexts/AssetTagTaxonomyContext';
+import {
+  MERGE_FIELDS,
+  DEFAULT_RFQ_TEMPLATE,
+  renderTemplate,
+  findUnknownMergeFields,
+  type MergeContext
+} from '@/utils/emailTemplates';
+
+export interface TemplatePreviewContext {
+  label: string;
+  context: MergeContext;
+}
+
+interface RfqTemplateEditorProps {
+  template: RfqEmailTemplate | null;
+  previewContexts: TemplatePreviewContext[];
+  saving: boolean;
+  onSave: (template: RfqEmailTemplateInput) => void;
+  onCancel: () => void;
+}
+
+type EditableField = 'subject' | 'body';
+
+/**
+ * RfqTemplateEditor - Edit a quote request template with a live preview
+ * Merge field buttons insert at the cursor of the last focused field; the preview
+ * renders the template for each of `previewContexts` (e.g. the selected suppliers).
+ */
+const RfqTemplateEditor: React.FC<RfqTemplateEditorProps> = ({
+  template,
+  previewContexts,
+  saving,
+  onSave,
+  onCancel
+}) => {
+  const [form, setForm] = useState<RfqEmailTemplateInput>(() => ({
+    name: template?.name ?? '',
+    subject: template?.subject ?? DEFAULT_RFQ_TEMPLATE.subject,
+    body: template?.body ?? DEFAULT_RFQ_TEMPLATE.body,
+    default_for_tags: template?.default_for_tags ?? []
+  }));
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const { tags: taxonomyTags } = useAssetTagTaxonomy();
+  // Keep tags the template already uses even if they were removed from the taxonomy
+  const tagNames = [
+    ...taxonomyTags.map(tag => tag.name),
+    ...form.default_for_tags.filter(tag => !taxonomyTags.some(t => t.name === tag))
+  ];
+  const subjectRef = useRef<HTMLInputElement>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const lastFocusedField = useRef<EditableField>('body');
+
+  const insertMergeField = (key: string) => {
+    const field = lastFocusedField.current;
+    const element = field === 'subject' ? subjectRef.current : bodyRef.current;
+    const placeholder = `{{${key}}}`;
+    const value = form[field];
+    const start = element?.selectionStart ?? value.length;
+    const end = element?.selectionEnd ?? value.length;
+
+    setForm(prev => ({ ...prev, [field]: value.slice(0, start) + placeholder + value.slice(end) }));
+
+    // Restore the cursor after the inserted field once React has re-rendered
+    requestAnimationFrame(() => {
+      element?.focus();
+      element?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const toggleTag = (tag: string) => {
+    setForm(prev => ({
+      ...prev,
+      default_for_tags: prev.default_for_tags.includes(tag)
+        ? prev.default_for_tags.filter(t => t !== tag)
+        : [...prev.default_for_tags, tag]
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(form);
+  };
+
+  const unknownFields = findUnknownMergeFields(`${form.subject}\n${form.body}`);
+  const preview = previewContexts[Math.min(previewIndex, previewContexts.length - 1)];
+
+  const inputClass =
+    'w-full px-3 py-2 bg-black/20 border border-white/20 text-white placeholder-gray-400 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none';
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="template-name" className="block text-sm font-medium text-gray-200 mb-2">
+            Template name
+          </label>
+          <input
+            id="template-name"
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            className={inputClass}
+            placeholder="e.g. AV hire request"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="template-subject" className="block text-sm font-medium text-gray-200 mb-2">
+            Subject
+          </label>
+          <input
+            id="template-subject"
+            ref={subjectRef}
+            type="text"
+            value={form.subject}
+            onFocus={() => { lastFocusedField.current = 'subject'; }}
+            onChange={(e) => setForm(prev => ({ ...prev, subject: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="template-body" className="block text-sm font-medium text-gray-200 mb-2">
+            Body
+          </label>
+          <textarea
+            id="template-body"
+            ref={bodyRef}
+            value={form.body}
+            onFocus={() => { lastFocusedField.current = 'body'; }}
+            onChange={(e) => setForm(prev => ({ ...prev, body: e.target.value }))}
+            rows={14}
+            className={`${inputClass} resize-none font-mono text-sm`}
+          />
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-200 mb-2">Insert merge field</p>
+          <div className="flex flex-wrap gap-2">
+            {MERGE_FIELDS.map(field => (
+              <button
+                key={field.key}
+                type="button"
+                onClick={() => insertMergeField(field.key)}
+                className="px-2 py-1 text-xs bg-white/10 text-gray-200 rounded hover:bg-white/20 border border-white/10"
+                title={`{{${field.key}}}`}
+              >
+                {field.label}
+              </button>
+            ))}
+          </div>
+          {unknownFields.length > 0 && (
+            <p className="mt-2 flex items-center gap-1 text-xs text-amber-300">
+              <AlertTriangle className="w-3 h-3" />
+              Unknown merge field{unknownFields.length !== 1 ? 's' : ''}: {unknownFields.map(key => `{{${key}}}`).join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-200 mb-1">Default for asset tags</p>
+          <p className="text-xs text-gray-400 mb-2">
+            Requests for assets with these tags start from this template.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {tagNames.map(tag => {
+              const active = form.default_for_tags.includes(tag);
+              return (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                    active ? 'text-white border-transparent' : 'text-gray-300 border-white/20 hover:bg-white/10'
+                  }`}
+                  style={active ? { backgroundColor: getTagColor(tag) } : undefined}
+                >
+                  {tag}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <p className="flex items-center gap-2 text-sm font-medium text-gray-200">
+            <Eye className="w-4 h-4" />
+            Preview
+          </p>
+          {previewContexts.length > 1 && (
+            <select
+              value={previewIndex}
+              onChange={(e) => setPreviewIndex(Number(e.target.value))}
+              className="px-2 py-1 bg-black/20 border border-white/20 rounded text-sm text-white"
+              aria-label="Preview for"
+            >
+              {previewContexts.map((item, index) => (
+                <option key={item.label} value={index} className="bg-gray-800">
+                  {item.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {preview ? (
+          <div className="flex-1 bg-black/20 border border-white/20 rounded-lg p-4 space-y-3">
+            <p className="text-sm text-white">
+              <span className="text-gray-400">Subject: </span>
+              {renderTemplate(form.subject, preview.context)}
+            </p>
+            <pre className="text-sm text-gray-200 whitespace-pre-wrap font-sans">
+              {renderTemplate(form.body, preview.context)}
+            </pre>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">Nothing to preview.</p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={saving}
+            className="px-4 py-2 rounded-lg border border-white/20 text-gray-200 hover:bg-white/10 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !form.name.trim()}
+            className="inline-flex items-center gap-2 px-5 py-2 rounded-lg bg-teal-600 text-on-accent font-medium hover:bg-teal-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            {saving ? 'Saving...' : 'Save Template'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default RfqTemplateEditor;
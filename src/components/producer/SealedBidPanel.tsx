@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Lock, Unlock, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import { SealedBidService } from '@/services/sealedBidService';
+import { useNotification } from '@/hooks/useNotification';
+import { isBidSealed, describeBidOpening, BID_SEAL_ACTION_LABELS } from '@/utils/sealedBids';
+import { toDateTimeLocalValue } from '@/utils/quoteDeadlines';
+import type { Asset } from '@/lib/supabase';
+import type { AssetBidSealHistory } from '@/types/database';
+
+interface SealedBidPanelProps {
+  asset: Asset;
+  onAssetUpdate: (updatedAsset: Asset) => void;
+}
+
+type SealHistoryEntry = AssetBidSealHistory & { changed_by_name: string | null };
+
+const formatDateTime = (dateString: string): string =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+/**
+ * SealedBidPanel - Sealed-bid setting for an asset
+ *
+ * Features:
+ * - Turn sealed bids on and set an optional bid-opening time
+ * - Explicit unseal, stamped with who did it and when
+ * - Seal history the producer can show the client
+ */
+const SealedBidPanel: React.FC<SealedBidPanelProps> = ({ asset, onAssetUpdate }) => {
+  const { showSuccess, showError } = useNotification();
+  const [openAt, setOpenAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [history, setHistory] = useState<SealHistoryEntry[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const sealed = isBidSealed(asset);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setHistory(await SealedBidService.getHistory(asset.id));
+    } catch (err) {
+      console.error('Failed to load bid seal history:', err);
+    }
+  }, [asset.id]);
+
+  useEffect(() => {
+    setOpenAt(asset.bids_open_at ? toDateTimeLocalValue(new Date(asset.bids_open_at)) : '');
+  }, [asset.id, asset.bids_open_at]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const applyUpdate = async (update: () => Promise<Asset>, successMessage: string) => {
+    setSaving(true);
+    try {
+      const updatedAsset = await update();
+      onAssetUpdate({ ...asset, ...updatedAsset });
+      showSuccess(successMessage);
+      await loadHistory();
+    } catch (err) {
+      console.error('Failed to update sealed bids:', err);
+      showError(err instanceof Error ? err.message : 'Failed to update sealed bids');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = () => {
+    const enable = !asset.sealed_bids;
+    // A new seal only keeps an opening time that is still ahead
+    const keepOpenAt = openAt && new Date(openAt).getTime() > Date.now();
+    applyUpdate(
+      () => SealedBidService.updateSeal(asset.id, {
+        sealed_bids: enable,
+        bids_open_at: enable
+          ? (keepOpenAt ? new Date(openAt).toISOString() : null)
+          : asset.bids_open_at ?? null
+      }),
+      enable ? 'Bids are now sealed' : 'Sealed bids turned off'
+    );
+  };
+
+  const handleSaveOpeningTime = () => {
+    if (openAt && new Date(openAt).getTime() <= Date.now()) {
+      showError('The bid opening time must be in the future');
+      return;
+    }
+    applyUpdate(
+      () => SealedBidService.updateSeal(asset.id, {
+        sealed_bids: true,
+        bids_open_at: openAt ? new Date(openAt).toISOString() : null
+      }),
+      openAt ? 'Bid opening time saved' : 'Bids will stay sealed until you unseal them'
+    );
+  };
+
+  const handleUnseal = () => {
+    if (!confirm('Unseal all bids for this asset now? This is recorded and cannot be undone.')) return;
+    applyUpdate(() => SealedBidService.unseal(asset.id), 'Bids unsealed');
+  };
+
+  const savedOpenAt = asset.bids_open_at ? toDateTimeLocalValue(new Date(asset.bids_open_at)) : '';
+  const unsealEntry = [...history].reverse().find((entry) => entry.action === 'unsealed');
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          {sealed ? <Lock className="w-5 h-5 text-amber-300" /> : <Unlock className="w-5 h-5 text-purple-300" />}
+          <h3 className="font-semibold text-white">Sealed bids</h3>
+          {saving && <Loader2 className="w-4 h-4 text-purple-300 animate-spin" />}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={Boolean(asset.sealed_bids)}
+            onChange={handleToggle}
+            disabled={saving || sealed}
+            className="rounded border-white/30 bg-black/20 text-purple-600 focus:ring-purple-500"
+          />
+          Hide costs until bids are opened
+        </label>
+      </div>
+
+      {asset.sealed_bids && (
+        <>
+          {sealed ? (
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label htmlFor="bids-open-at" className="block text-xs font-semibold text-gray-300 mb-1">
+                  Open bids at
+                </label>
+                <input
+                  id="bids-open-at"
+                  type="datetime-local"
+                  value={openAt}
+                  min={savedOpenAt || toDateTimeLocalValue(new Date())}
+                  onChange={(e) => setOpenAt(e.target.value)}
+                  disabled={saving}
+                  className="px-3 py-1.5 bg-black/20 border border-white/20 rounded-lg text-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
+                />
+              </div>
+              {openAt !== savedOpenAt && (
+                <button
+                  type="button"
+                  onClick={handleSaveOpeningTime}
+                  disabled={saving}
+                  className="px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-700 text-on-accent text-sm font-medium disabled:opacity-60"
+                >
+                  Save
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleUnseal}
+                disabled={saving}
+                className="ml-auto inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-amber-400/50 text-amber-200 hover:bg-amber-500/20 text-sm font-medium disabled:opacity-60"
+              >
+                <Unlock className="w-4 h-4" />
+                Unseal now
+              </button>
+              <p className="w-full text-xs text-gray-400">
+                {describeBidOpening(asset)}. The opening time can only be moved later while bids are sealed.
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-200">
+              {asset.bids_unsealed_at
+                ? `Bids unsealed by ${unsealEntry?.changed_by_name || 'the producer'} on ${formatDateTime(asset.bids_unsealed_at)}`
+                : asset.bids_open_at
+                  ? `Bids opened as scheduled on ${formatDateTime(asset.bids_open_at)}`
+                  : 'Bids are open'}
+            </p>
+          )}
+        </>
+      )}
+
+      {history.length > 0 && (
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowHistory((prev) => !prev)}
+            className="flex items-center gap-1 text-xs text-gray-300 hover:text-white"
+          >
+            {showHistory ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+            Seal history ({history.length})
+          </button>
+          {showHistory && (
+            <ul className="mt-2 space-y-1 text-xs text-gray-300">
+              {history.map((entry) => (
+                <li key={entry.id}>
+                  <span className="text-white">{BID_SEAL_ACTION_LABELS[entry.action]}</span>
+                  {' '}on {formatDateTime(entry.changed_at)}
+                  {entry.changed_by_name && ` by ${entry.changed_by_name}`}
+                  {(entry.action === 'sealed' || entry.action === 'rescheduled') && (
+                    entry.bids_open_at ? `, opening ${formatDateTime(entry.bids_open_at)}` : ', no opening time'
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SealedBidPanel;
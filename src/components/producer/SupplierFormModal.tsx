@@ -3,6 +3,7 @@ import { Plus, Tag, Trash2, X } from 'lucide-react';
 import { useEscapeKey } from '@/hooks/useEscapeKey';
 import { SupplierService, type CreateSupplierData } from '@/services/supplierService';
 import type { ContactPerson, Supplier } from '@/lib/supabase';
+import { SERVICE_AREA_SUGGESTIONS } from '@/utils/geoMatching';
 
 interface SupplierFormModalProps {
   isOpen: boolean;
@@ -24,6 +25,8 @@ interface SupplierFormState {
   service_categories: string[];
   address: string;
   cities_served: string[];
+  /** Kept as text while editing; empty means only the listed cities */
+  travel_radius_km: string;
 }
 
 const INITIAL_FORM_STATE: SupplierFormState = {
@@ -31,7 +34,8 @@ const INITIAL_FORM_STATE: SupplierFormState = {
   contact_email: '',
   service_categories: [],
   address: '',
-  cities_served: []
+  cities_served: [],
+  travel_radius_km: ''
 };
 
 const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
@@ -63,7 +67,8 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
         contact_email: initialData.contact_email ?? '',
         service_categories: initialData.service_categories ?? [],
         address: initialData.address ?? '',
-        cities_served: initialData.cities_served ?? []
+        cities_served: initialData.cities_served ?? [],
+        travel_radius_km: initialData.travel_radius_km != null ? String(initialData.travel_radius_km) : ''
       });
       setContactPersons(normalizedContacts);
       setCityInput('');
@@ -207,6 +212,10 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
     e.preventDefault();
     if (isSubmitting) return;
 
+    const travelRadius = formState.travel_radius_km.trim()
+      ? Math.max(0, Math.round(Number(formState.travel_radius_km)))
+      : null;
+
     setIsSubmitting(true);
     try {
       const payload: CreateSupplierData = {
@@ -215,6 +224,7 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
         service_categories: formState.service_categories,
         address: formState.address.trim(),
         cities_served: formState.cities_served,
+        travel_radius_km: Number.isFinite(travelRadius) ? travelRadius : null,
         contact_persons: contactPersons
       };
 
@@ -233,7 +243,7 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
 
   return (
     <div
-      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4"
+      className="fixed inset-0 z-50 flex items-center justify-center bg-ink bg-opacity-40 p-4"
       onClick={(e) => {
         if (e.target === e.currentTarget && !isSubmitting) {
           onClose();
@@ -318,8 +328,14 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
               onKeyDown={handleCityKeyDown}
               onBlur={handleCityBlur}
               placeholder="Type a city/region and press Enter"
+              list="service-area-suggestions"
               className="w-full px-3 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
             />
+            <datalist id="service-area-suggestions">
+              {SERVICE_AREA_SUGGESTIONS.map(name => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
             {sortedCities.length > 0 && (
               <div className="flex flex-wrap gap-2 mt-3">
                 {sortedCities.map(city => (
@@ -342,6 +358,25 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
             )}
           </div>
 
+          <div>
+            <label htmlFor="travel_radius_km" className="block text-sm font-medium text-gray-200 mb-1">
+              Willing to Travel (km)
+            </label>
+            <input
+              id="travel_radius_km"
+              type="number"
+              min={0}
+              step={10}
+              value={formState.travel_radius_km}
+              onChange={(e) => setFormState(prev => ({ ...prev, travel_radius_km: e.target.value }))}
+              placeholder="Only the cities above"
+              className="w-full px-3 py-2 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Also matches venues within this distance of the city in the address.
+            </p>
+          </div>
+
           <div>
             <div className="flex items-center justify-between mb-2">
               <h3 className="text-sm font-medium text-gray-200">Contact Persons</h3>
@@ -506,7 +541,7 @@ const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
             type="submit"
             form="supplier-form-modal"
             disabled={isSubmitting || !formState.supplier_name.trim()}
-            className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+            className="px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
           >
             {isSubmitting ? 'Saving...' : isEditing ? 'Update Supplier' : 'Add Supplier'}
           </button>
@@ -0,0 +1,459 @@
+import React, { useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { X, Upload, ArrowLeft, ArrowRight, Loader2, CheckCircle, AlertTriangle, XCircle, Copy } from 'lucide-react';
+import { SupplierService } from '@/services/supplierService';
+import { useEscapeKey } from '@/hooks/useEscapeKey';
+import { useNotification } from '@/hooks/useNotification';
+import {
+  parseCsv,
+  suggestSupplierImportMapping,
+  buildSupplierImportPreview,
+  summarizeSupplierImport,
+  SUPPLIER_IMPORT_TARGETS,
+  type SupplierImportMapping,
+  type SupplierImportTarget
+} from '@/utils/supplierImport';
+import type { Supplier } from '@/lib/supabase';
+
+interface SupplierImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingSuppliers: Supplier[];
+  availableCategories: string[];
+  onImported: () => Promise<void> | void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'done';
+
+const STEP_LABELS: { step: ImportStep; label: string }[] = [
+  { step: 'upload', label: 'Upload' },
+  { step: 'mapping', label: 'Map columns' },
+  { step: 'preview', label: 'Review' },
+  { step: 'done', label: 'Done' }
+];
+
+const SAMPLE_ROW_COUNT = 3;
+
+/**
+ * SupplierImportModal - Bulk import suppliers from a CSV
+ * Upload, map columns to supplier fields, review a dry run with validation and
+ * duplicates, then import. Nothing is written until the final step.
+ */
+const SupplierImportModal: React.FC<SupplierImportModalProps> = ({
+  isOpen,
+  onClose,
+  existingSuppliers,
+  availableCategories,
+  onImported
+}) => {
+  const { showSuccess, showError } = useNotification();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<SupplierImportMapping>({});
+  const [includedDuplicates, setIncludedDuplicates] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+
+  const preview = useMemo(
+    () => (step === 'preview'
+      ? buildSupplierImportPreview(dataRows, mapping, existingSuppliers, availableCategories)
+      : []),
+    [step, dataRows, mapping, existingSuppliers, availableCategories]
+  );
+  const summary = useMemo(() => summarizeSupplierImport(preview), [preview]);
+
+  const rowsToImport = preview.filter(
+    row => row.supplier && (!row.duplicateOf || includedDuplicates.has(row.rowNumber))
+  );
+
+  const mappedTargets = Object.values(mapping);
+  const hasNameColumn = mappedTargets.includes('supplier_name');
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setIncludedDuplicates(new Set());
+    setImportedCount(0);
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    reset();
+    onClose();
+  };
+
+  useEscapeKey(isOpen, handleClose, isImporting);
+
+  const handleFile = async (file: File) => {
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        showError('The file needs a header row and at least one supplier');
+        return;
+      }
+      const [headerRow, ...rest] = rows;
+      setFileName(file.name);
+      setHeaders(headerRow.map(header => header.trim()));
+      setDataRows(rest);
+      setMapping(suggestSupplierImportMapping(headerRow));
+      setIncludedDuplicates(new Set());
+      setStep('mapping');
+    } catch (err) {
+      console.error('Error reading CSV:', err);
+      showError('Could not read the CSV file');
+    }
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    accept: {
+      'text/csv': ['.csv']
+    },
+    maxFiles: 1,
+    maxSize: 5 * 1024 * 1024, // 5MB
+    onDrop: (acceptedFiles: File[]) => {
+      if (acceptedFiles.length > 0) {
+        handleFile(acceptedFiles[0]);
+      }
+    }
+  });
+
+  const handleMappingChange = (columnIndex: number, value: string) => {
+    setMapping(prev => {
+      const next: SupplierImportMapping = {};
+      Object.entries(prev).forEach(([index, target]) => {
+        // Each target can only be mapped from one column
+        if (Number(index) !== columnIndex && target !== value) {
+          next[Number(index)] = target;
+        }
+      });
+      if (value) {
+        next[columnIndex] = value as SupplierImportTarget;
+      }
+      return next;
+    });
+  };
+
+  const toggleDuplicate = (rowNumber: number) => {
+    setIncludedDuplicates(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) {
+        next.delete(rowNumber);
+      } else {
+        next.add(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (rowsToImport.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const created = await SupplierService.importSuppliers(rowsToImport.map(row => row.supplier!));
+      setImportedCount(created);
+      setStep('done');
+      showSuccess(`Imported ${created} supplier${created === 1 ? '' : 's'}`);
+      await onImported();
+    } catch (err) {
+      console.error('Error importing suppliers:', err);
+      showError(err instanceof Error ? err.message : 'Failed to import suppliers');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const currentStepIndex = STEP_LABELS.findIndex(item => item.step === step);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-ink bg-opacity-40 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          handleClose();
+        }
+      }}
+    >
+      <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-lg shadow-lg w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between p-6 border-b border-white/20">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Import Suppliers</h2>
+            <p className="text-sm text-gray-300 mt-1">
+              {fileName ? fileName : 'Upload a CSV, map its columns and review before importing.'}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={isImporting}
+            className="text-gray-300 hover:text-white transition-colors disabled:opacity-50"
+            aria-label="Close supplier import"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Step indicator */}
+        <div className="flex items-center gap-2 px-6 pt-4 text-xs">
+          {STEP_LABELS.map((item, index) => (
+            <React.Fragment key={item.step}>
+              <span
+                className={`px-2 py-1 rounded-full ${
+                  index === currentStepIndex
+                    ? 'bg-teal-600 text-on-accent'
+                    : index < currentStepIndex
+                      ? 'bg-teal-500/20 text-teal-200'
+                      : 'bg-white/10 text-gray-400'
+                }`}
+              >
+                {index + 1}. {item.label}
+              </span>
+              {index < STEP_LABELS.length - 1 && <span className="text-gray-500">›</span>}
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {step === 'upload' && (
+            <>
+              <div
+                {...getRootProps()}
+                className={`
+                  border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors
+                  ${isDragActive ? 'border-teal-400 bg-teal-500/20' : 'border-white/20 hover:border-teal-400/50 hover:bg-white/10'}
+                `}
+              >
+                <input {...getInputProps()} />
+                <div className="flex flex-col items-center gap-3">
+                  <Upload className="w-12 h-12 text-gray-300" />
+                  <p className="text-lg text-gray-200">
+                    {isDragActive ? 'Drop the CSV here' : 'Drag a CSV here, or click to browse'}
+                  </p>
+                  <p className="text-sm text-gray-400">One supplier per row, with a header row</p>
+                </div>
+              </div>
+              <div className="text-sm text-gray-300 space-y-1">
+                <p>Lists such as categories and cities can be separated with ";" or "|".</p>
+                <p>
+                  Contacts use columns like "Contact 1 Name", "Contact 1 Email" and "Contact 1 Flags" (primary, cc or bcc).
+                  The first contact is primary unless another is flagged.
+                </p>
+              </div>
+            </>
+          )}
+
+          {step === 'mapping' && (
+            <>
+              <p className="text-sm text-gray-300">
+                Choose the supplier field for each column. Unmapped columns are ignored.
+              </p>
+              <div className="border border-white/20 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-white/5 text-gray-300">
+                    <tr>
+                      <th className="text-left px-4 py-2 font-medium">Column</th>
+                      <th className="text-left px-4 py-2 font-medium">Sample values</th>
+                      <th className="text-left px-4 py-2 font-medium">Maps to</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/10">
+                    {headers.map((header, index) => (
+                      <tr key={index}>
+                        <td className="px-4 py-2 text-white">{header || `Column ${index + 1}`}</td>
+                        <td className="px-4 py-2 text-gray-400 truncate max-w-xs">
+                          {dataRows
+                            .slice(0, SAMPLE_ROW_COUNT)
+                            .map(row => row[index] ?? '')
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </td>
+                        <td className="px-4 py-2">
+                          <select
+                            value={mapping[index] ?? ''}
+                            onChange={(e) => handleMappingChange(index, e.target.value)}
+                            className="w-full px-3 py-1.5 bg-white/10 border border-white/20 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-teal-400"
+                          >
+                            <option value="" className="bg-gray-800">Don't import</option>
+                            {SUPPLIER_IMPORT_TARGETS.map(target => (
+                              <option key={target.value} value={target.value} className="bg-gray-800">
+                                {target.label}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {!hasNameColumn && (
+                <p className="text-sm text-yellow-300">Map a column to "Supplier name" to continue.</p>
+              )}
+            </>
+          )}
+
+          {step === 'done' && (
+            <div className="flex items-center gap-3 p-4 bg-green-500/10 border border-green-500/30 rounded-lg text-green-200">
+              <CheckCircle className="w-5 h-5" />
+              Imported {importedCount} supplier{importedCount === 1 ? '' : 's'} from {fileName}.
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="bg-white/5 border border-white/10 rounded-lg p-3">
+                  <p className="text-xs text-gray-400">Rows</p>
+                  <p className="text-xl font-semibold text-white">{summary.total}</p>
+                </div>
+                <div className="bg-white/5 border border-white/10 rounded-lg p-3">
+                  <p className="text-xs text-gray-400">Ready</p>
+                  <p className="text-xl font-semibold text-green-300">{summary.ready}</p>
+                </div>
+                <div className="bg-white/5 border border-white/10 rounded-lg p-3">
+                  <p className="text-xs text-gray-400">Duplicates</p>
+                  <p className="text-xl font-semibold text-yellow-300">{summary.duplicates}</p>
+                </div>
+                <div className="bg-white/5 border border-white/10 rounded-lg p-3">
+                  <p className="text-xs text-gray-400">Invalid</p>
+                  <p className="text-xl font-semibold text-red-300">{summary.invalid}</p>
+                </div>
+              </div>
+
+              <div className="border border-white/20 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-white/5 text-gray-300">
+                    <tr>
+                      <th className="text-left px-4 py-2 font-medium">Row</th>
+                      <th className="text-left px-4 py-2 font-medium">Supplier</th>
+                      <th className="text-left px-4 py-2 font-medium">Contacts</th>
+                      <th className="text-left px-4 py-2 font-medium">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/10">
+                    {preview.map(row => (
+                      <tr key={row.rowNumber} className="align-top">
+                        <td className="px-4 py-2 text-gray-400">{row.rowNumber}</td>
+                        <td className="px-4 py-2">
+                          <p className="text-white">{row.supplier?.supplier_name || dataRows[row.rowNumber - 2]?.join(', ')}</p>
+                          {row.supplier && row.supplier.service_categories.length > 0 && (
+                            <p className="text-xs text-gray-400">{row.supplier.service_categories.join(', ')}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-gray-300">
+                          {row.supplier?.contact_persons?.map(contact => (
+                            <p key={contact.email} className="text-xs">
+                              {contact.name || contact.email}
+                              {contact.is_primary && <span className="ml-1 text-teal-300">primary</span>}
+                              {contact.default_cc && <span className="ml-1 text-blue-300">cc</span>}
+                              {contact.default_bcc && <span className="ml-1 text-purple-300">bcc</span>}
+                            </p>
+                          ))}
+                        </td>
+                        <td className="px-4 py-2 space-y-1">
+                          {row.errors.map(error => (
+                            <p key={error} className="flex items-start gap-1 text-xs text-red-300">
+                              <XCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                              {error}
+                            </p>
+                          ))}
+                          {row.supplier && row.duplicateOf && (
+                            <label className="flex items-start gap-2 text-xs text-yellow-300">
+                              <Copy className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                              <span>
+                                Matches {row.duplicateOf.source === 'existing' ? 'existing supplier' : 'an earlier row'}{' '}
+                                "{row.duplicateOf.name}" by {row.duplicateOf.reason}
+                                <span className="flex items-center gap-1 mt-1 text-gray-300">
+                                  <input
+                                    type="checkbox"
+                                    checked={includedDuplicates.has(row.rowNumber)}
+                                    onChange={() => toggleDuplicate(row.rowNumber)}
+                                    className="rounded border-white/20 bg-white/10 text-teal-600 focus:ring-teal-400"
+                                  />
+                                  Import anyway
+                                </span>
+                              </span>
+                            </label>
+                          )}
+                          {row.supplier && row.warnings.map(warning => (
+                            <p key={warning} className="flex items-start gap-1 text-xs text-yellow-200/80">
+                              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                              {warning}
+                            </p>
+                          ))}
+                          {row.supplier && !row.duplicateOf && row.warnings.length === 0 && (
+                            <p className="flex items-center gap-1 text-xs text-green-300">
+                              <CheckCircle className="w-3.5 h-3.5" />
+                              Ready
+                            </p>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-6 border-t border-white/20">
+          <div>
+            {(step === 'mapping' || step === 'preview') && (
+              <button
+                type="button"
+                onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+                disabled={isImporting}
+                className="flex items-center gap-2 px-4 py-2 text-gray-200 hover:text-white disabled:opacity-50"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isImporting}
+              className="px-4 py-2 border border-white/20 text-gray-200 rounded-lg hover:bg-white/10 disabled:opacity-50"
+            >
+              {step === 'done' ? 'Close' : 'Cancel'}
+            </button>
+            {step === 'mapping' && (
+              <button
+                type="button"
+                onClick={() => setStep('preview')}
+                disabled={!hasNameColumn}
+                className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Preview import
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isImporting || rowsToImport.length === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Import {rowsToImport.length} supplier{rowsToImport.length === 1 ? '' : 's'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierImportModal;
@@ -1,12 +1,33 @@
-import React, { useMemo, useState } from 'react';
-import { Users, Mail, Plus, Tag, Edit, Trash2, User, Phone, Star } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Users, Mail, Plus, Tag, Edit, Trash2, User, Phone, Star, Upload } from 'lucide-react';
 import SupplierFilters from './supplier-filters/SupplierFilters';
+import SavedViews from './supplier-filters/SavedViews';
 import SupplierFormModal from './SupplierFormModal';
+import SupplierImportModal from './SupplierImportModal';
+import SupplierScorecardSummary from './SupplierScorecardSummary';
+import { SupplierScorecardService } from '@/services/supplierScorecardService';
 import { useSupplierManagement } from '@/hooks/useSupplierManagement';
+import { useSupplierFilterViews } from '@/hooks/useSupplierFilterViews';
+import { useNotification } from '@/hooks/useNotification';
 import type { Supplier } from '@/lib/supabase';
 import { getSupplierPrimaryEmail } from '@/utils/supplierUtils';
+import type { SupplierScorecard } from '@/utils/supplierScorecards';
+import {
+  toFilterCriteria,
+  fromFilterCriteria,
+  parseFilterCriteria,
+  filterCriteriaToSearchParams,
+  withoutFilterParams,
+  isSameFilterCriteria
+} from '@/utils/supplierFilterViews';
+import type { SupplierFilterView } from '@/types/database';
 
 const SupplierManagement: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Filters in the URL (a shared link or a reload) seed the page
+  const [initialCriteria] = useState(() => parseFilterCriteria(searchParams));
+
   const {
     // Data state
     suppliers,
@@ -29,11 +50,53 @@ const SupplierManagement: React.FC = () => {
     // Filter management
     setFilters,
     clearAllFilters
-  } = useSupplierManagement();
+  } = useSupplierManagement(fromFilterCriteria(initialCriteria).filters);
+  const { showSuccess, showError } = useNotification();
+  const { views, loading: viewsLoading, saveView, deleteView } = useSupplierFilterViews();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
-  const [selectedCity, setSelectedCity] = useState<string>('');
+  const [selectedCity, setSelectedCity] = useState<string>(initialCriteria.city);
+  const [scorecards, setScorecards] = useState<Map<string, SupplierScorecard>>(new Map());
+  const [sortBy, setSortBy] = useState<'name' | 'performance'>('name');
+
+  // Scorecards are supplementary: the list still works if they fail to load
+  useEffect(() => {
+    SupplierScorecardService.getScorecards()
+      .then(setScorecards)
+      .catch((error) => console.error('Error loading supplier scorecards:', error));
+  }, []);
+
+  const criteria = useMemo(() => toFilterCriteria(filters, selectedCity), [filters, selectedCity]);
+  const activeViewId = views.find((view) => isSameFilterCriteria(view.criteria, criteria))?.id ?? null;
+
+  // Keep the URL in step with the filters so the page can be bookmarked or shared
+  useEffect(() => {
+    const next = withoutFilterParams(searchParams);
+    filterCriteriaToSearchParams(criteria).forEach((value, key) => next.append(key, value));
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true });
+    }
+  }, [criteria, searchParams, setSearchParams]);
+
+  const handleApplyView = (view: SupplierFilterView) => {
+    const { filters: viewFilters, city } = fromFilterCriteria(view.criteria);
+    setFilters(viewFilters);
+    setSelectedCity(city);
+  };
+
+  const handleCopyLink = async () => {
+    const query = filterCriteriaToSearchParams(criteria).toString();
+    const url = `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ''}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      showSuccess('Link copied to clipboard');
+    } catch (error) {
+      console.error('Error copying filter link:', error);
+      showError('Failed to copy link');
+    }
+  };
 
   const availableCities = useMemo(() => {
     const cities = new Set<string>();
@@ -44,13 +107,22 @@ const SupplierManagement: React.FC = () => {
   }, [suppliers]);
 
   const cityFilteredSuppliers = useMemo(() => {
-    return filteredSuppliers.filter((supplier) => {
+    const visible = filteredSuppliers.filter((supplier) => {
       if (selectedCity && !supplier.cities_served?.includes(selectedCity)) {
         return false;
       }
       return true;
     });
-  }, [filteredSuppliers, selectedCity]);
+
+    if (sortBy !== 'performance') return visible;
+
+    // Highest score first, suppliers without a score last
+    return [...visible].sort((a, b) => {
+      const scoreA = scorecards.get(a.id)?.score ?? -1;
+      const scoreB = scorecards.get(b.id)?.score ?? -1;
+      return scoreB - scoreA || a.supplier_name.localeCompare(b.supplier_name);
+    });
+  }, [filteredSuppliers, selectedCity, sortBy, scorecards]);
 
   const handleAdd = () => {
     setSelectedSupplier(null);
@@ -84,13 +156,22 @@ const SupplierManagement: React.FC = () => {
           <h1 className="text-3xl font-bold text-white">Supplier Management</h1>
           <p className="text-gray-200 mt-1">Manage your supplier network and categories</p>
         </div>
-        <button
-          onClick={handleAdd}
-          className="flex items-center space-x-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
-        >
-          <Plus className="h-4 w-4" />
-          <span>Add Supplier</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setIsImportModalOpen(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-white/10 border border-white/20 text-gray-200 rounded-lg hover:bg-white/20"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import CSV</span>
+          </button>
+          <button
+            onClick={handleAdd}
+            className="flex items-center space-x-2 px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Supplier</span>
+          </button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -102,6 +183,18 @@ const SupplierManagement: React.FC = () => {
         selectedCity={selectedCity}
         onSelectedCityChange={setSelectedCity}
         availableCities={availableCities}
+        savedViews={
+          <SavedViews
+            views={views}
+            loading={viewsLoading}
+            activeViewId={activeViewId}
+            onApplyView={handleApplyView}
+            canSave={filterStats.hasActiveFilters || Boolean(selectedCity)}
+            onSaveView={(name) => saveView(name, criteria)}
+            onDeleteView={deleteView}
+            onCopyLink={handleCopyLink}
+          />
+        }
       />
 
       {/* Suppliers List */}
@@ -123,11 +216,22 @@ const SupplierManagement: React.FC = () => {
                 )}
               </h2>
             </div>
-            {(filterStats.isFiltered || Boolean(selectedCity)) && (
-              <div className="text-sm text-gray-300">
-                {cityFilteredSuppliers.length === 0 ? 'No suppliers match your filters' : 'Filtered results'}
-              </div>
-            )}
+            <div className="flex items-center space-x-4">
+              {(filterStats.isFiltered || Boolean(selectedCity)) && (
+                <div className="text-sm text-gray-300">
+                  {cityFilteredSuppliers.length === 0 ? 'No suppliers match your filters' : 'Filtered results'}
+                </div>
+              )}
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as 'name' | 'performance')}
+                className="px-3 py-1.5 bg-white/10 border border-white/20 rounded-md text-sm text-white focus:outline-none focus:ring-2 focus:ring-teal-400"
+                aria-label="Sort suppliers"
+              >
+                <option value="name" className="bg-gray-800">Sort by name</option>
+                <option value="performance" className="bg-gray-800">Sort by performance</option>
+              </select>
+            </div>
           </div>
         </div>
 
@@ -209,6 +313,10 @@ const SupplierManagement: React.FC = () => {
                       ))}
                     </div>
                   </div>
+
+                  <div className="mt-3">
+                    <SupplierScorecardSummary scorecard={scorecards.get(supplier.id)} />
+                  </div>
                 </div>
 
                   <div className="flex items-center space-x-2 ml-4">
@@ -248,7 +356,7 @@ const SupplierManagement: React.FC = () => {
                 <p className="text-gray-200 mb-4">Add your first supplier to start managing your network</p>
                 <button
                   onClick={handleAdd}
-                  className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors"
+                  className="px-4 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 transition-colors"
                 >
                   Add First Supplier
                 </button>
@@ -264,7 +372,7 @@ const SupplierManagement: React.FC = () => {
                     clearAllFilters();
                     setSelectedCity('');
                   }}
-                  className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                  className="px-4 py-2 bg-gray-600 text-on-accent rounded-lg hover:bg-gray-700 transition-colors"
                 >
                   Clear All Filters
                 </button>
@@ -283,6 +391,14 @@ const SupplierManagement: React.FC = () => {
         initialData={selectedSupplier}
         onSuccess={handleModalSuccess}
       />
+
+      <SupplierImportModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        existingSuppliers={suppliers}
+        availableCategories={availableCategories}
+        onImported={loadSuppliers}
+      />
     </div>
   );
 };
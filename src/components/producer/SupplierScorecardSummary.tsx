@@ -0,0 +1,79 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import type { SupplierScorecard } from '@/utils/supplierScorecards';
+
+interface SupplierScorecardSummaryProps {
+  scorecard?: SupplierScorecard;
+}
+
+const formatPercent = (value: number | null): string => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const formatHours = (hours: number | null): string => {
+  if (hours === null) return '—';
+  return hours < 48 ? `${Math.round(hours)}h` : `${Math.round(hours / 24)}d`;
+};
+
+const getScoreClass = (score: number): string => {
+  if (score >= 75) return 'bg-green-500/20 text-green-200 border-green-400/40';
+  if (score >= 50) return 'bg-amber-500/20 text-amber-200 border-amber-400/40';
+  return 'bg-red-500/20 text-red-200 border-red-400/40';
+};
+
+/**
+ * SupplierScorecardSummary - One-line performance summary for a supplier
+ * Shows the composite score and the measures behind it, with sample sizes in tooltips.
+ */
+const SupplierScorecardSummary: React.FC<SupplierScorecardSummaryProps> = ({ scorecard }) => {
+  if (!scorecard) {
+    return <p className="text-xs text-gray-400">No quote history yet</p>;
+  }
+
+  const metrics = [
+    {
+      label: 'Response',
+      value: formatPercent(scorecard.responseRate),
+      title: `${scorecard.quotesResponded} of ${scorecard.quotesRequested} requests answered`
+    },
+    {
+      label: 'Median reply',
+      value: formatHours(scorecard.medianResponseHours),
+      title: 'Median time from request to submitted quote'
+    },
+    {
+      label: 'Win rate',
+      value: formatPercent(scorecard.winRate),
+      title: `${scorecard.quotesWon} of ${scorecard.quotesDecided} decided quotes accepted`
+    },
+    {
+      label: 'Price vs lowest',
+      value: scorecard.averagePricePosition === null ? '—' : `${scorecard.averagePricePosition}%`,
+      title: `Average bid as % of the lowest bid, over ${scorecard.comparedBids} competitive bids`
+    },
+    {
+      label: 'On time',
+      value: formatPercent(scorecard.onTimeRate),
+      title: `${scorecard.onTimeDeliveries} of ${scorecard.deliveries} deliveries by the planned date`
+    }
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+      {scorecard.score !== null && (
+        <span
+          className={`flex items-center gap-1 px-2 py-0.5 rounded-full border ${getScoreClass(scorecard.score)}`}
+          title="Performance score (0-100)"
+        >
+          <Gauge className="h-3 w-3" />
+          {scorecard.score}
+        </span>
+      )}
+      {metrics.map(metric => (
+        <span key={metric.label} className="text-gray-300" title={metric.title}>
+          {metric.label}: <span className="text-white">{metric.value}</span>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default SupplierScorecardSummary;
@@ -1,14 +1,27 @@
 import React, { useState, useMemo } from 'react';
-import { Package, Search, CheckSquare, Square, X, Star, Trophy } from 'lucide-react';
+import { Package, Search, CheckSquare, Square, X, Star, Trophy, MapPin } from 'lucide-react';
 import type { Asset, SuggestedSupplier } from '@/lib/supabase';
 import { useEscapeKey } from '@/hooks/useEscapeKey';
 import { getSupplierRelevanceMetadata } from '@/utils/supplierRelevance';
 import { getSupplierPrimaryEmail } from '@/utils/supplierUtils';
+import { applyFilterCriteria, EMPTY_FILTER_CRITERIA } from '@/utils/supplierFilterViews';
+import { useSupplierFilterViews } from '@/hooks/useSupplierFilterViews';
+import SavedViews from './supplier-filters/SavedViews';
+import type { SupplierFilterView } from '@/types/database';
+import {
+  getSupplierLocationMatch,
+  getLocationMatchRank,
+  formatVenue,
+  type ProjectVenue
+} from '@/utils/geoMatching';
+import LocationMatchBadge from './LocationMatchBadge';
 
 interface SupplierSelectionModalProps {
   isOpen: boolean;
   asset: Asset | null;
   suggestedSuppliers: SuggestedSupplier[];
+  /** Project venue; suppliers are badged and can be filtered by whether they cover it */
+  venue?: ProjectVenue | null;
   selectedSupplierIds: string[];
   loading: boolean;
   onClose: () => void;
@@ -20,6 +33,7 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
   isOpen,
   asset,
   suggestedSuppliers,
+  venue,
   selectedSupplierIds,
   loading,
   onClose,
@@ -28,25 +42,36 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [activeView, setActiveView] = useState<SupplierFilterView | null>(null);
+  const [coveringVenueOnly, setCoveringVenueOnly] = useState(false);
+  const venueLabel = formatVenue(venue);
+  const { views, loading: viewsLoading, saveView, deleteView } = useSupplierFilterViews(isOpen);
 
   // Handle Escape key to close modal
   useEscapeKey(isOpen, onClose, loading);
 
-  // Get all unique service categories from suppliers
+  // Get all unique service categories from suppliers, plus any selected by a saved view
   const allCategories = useMemo(() => {
-    const categories = new Set<string>();
+    const categories = new Set<string>(selectedCategories);
     suggestedSuppliers.forEach(supplier => {
       if (supplier.service_categories) {
         supplier.service_categories.forEach(category => categories.add(category));
       }
     });
     return Array.from(categories).sort();
-  }, [suggestedSuppliers]);
+  }, [suggestedSuppliers, selectedCategories]);
+
+  // A saved view's search and categories drive the controls below; its other
+  // criteria (roles, contacts, added date, region) narrow the list underneath them
+  const viewSuppliers = useMemo(() => {
+    if (!activeView) return suggestedSuppliers;
+    return applyFilterCriteria(suggestedSuppliers, { ...activeView.criteria, searchTerm: '', categories: [] });
+  }, [suggestedSuppliers, activeView]);
 
   // Filter suppliers based on search and category filters
   // Search prioritizes supplier name, with fallback to email and categories
   const filteredSuppliers = useMemo(() => {
-    let filtered = suggestedSuppliers;
+    let filtered = viewSuppliers;
 
     // Apply search filter - prioritize name matching
     if (searchTerm.trim()) {
@@ -76,18 +101,27 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
       );
     }
 
+    // Apply venue filter - only suppliers that serve or travel to the venue
+    if (coveringVenueOnly && venueLabel) {
+      filtered = filtered.filter(supplier => getSupplierLocationMatch(supplier, venue) !== null);
+    }
+
     return filtered;
-  }, [suggestedSuppliers, searchTerm, selectedCategories]);
+  }, [viewSuppliers, searchTerm, selectedCategories, coveringVenueOnly, venueLabel, venue]);
 
   // Calculate relevance metadata and split into recommended/other sections
   const { recommendedSuppliers, otherSuppliers, maxScore } = useMemo(() => {
     const assetTags = asset?.tags || [];
     
-    // Calculate relevance for each filtered supplier
-    const suppliersWithRelevance = filteredSuppliers.map(supplier => ({
-      ...supplier,
-      relevance: getSupplierRelevanceMetadata(supplier, assetTags)
-    }));
+    // Calculate relevance for each filtered supplier, suppliers covering the venue first
+    const suppliersWithRelevance = filteredSuppliers
+      .map(supplier => ({
+        ...supplier,
+        relevance: getSupplierRelevanceMetadata(supplier, assetTags, venue)
+      }))
+      .sort((a, b) =>
+        getLocationMatchRank(b.relevance.locationMatch) - getLocationMatchRank(a.relevance.locationMatch)
+      );
     
     // Split into recommended (score > 0) and other (score = 0)
     const recommended = suppliersWithRelevance.filter(s => s.relevance.score > 0);
@@ -99,7 +133,7 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
       : 0;
     
     return { recommendedSuppliers: recommended, otherSuppliers: other, maxScore: max };
-  }, [filteredSuppliers, asset?.tags]);
+  }, [filteredSuppliers, asset?.tags, venue]);
 
   // Smart select all - only selects visible suppliers after filtering
   const handleSelectAll = () => {
@@ -157,6 +191,28 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
   const clearFilters = () => {
     setSearchTerm('');
     setSelectedCategories([]);
+    setActiveView(null);
+    setCoveringVenueOnly(false);
+  };
+
+  const handleApplyView = (view: SupplierFilterView) => {
+    setActiveView(view);
+    setSearchTerm(view.criteria.searchTerm);
+    setSelectedCategories(view.criteria.categories);
+  };
+
+  const handleSaveView = async (name: string) => {
+    const saved = await saveView(name, {
+      ...(activeView?.criteria ?? EMPTY_FILTER_CRITERIA),
+      searchTerm,
+      categories: selectedCategories
+    });
+    if (saved) setActiveView(saved);
+  };
+
+  const handleDeleteView = async (view: SupplierFilterView) => {
+    await deleteView(view);
+    if (activeView?.id === view.id) setActiveView(null);
   };
 
   // Toggle category filter
@@ -169,7 +225,8 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
   };
 
   // Check if any filters are active
-  const hasActiveFilters = searchTerm.trim().length > 0 || selectedCategories.length > 0;
+  const hasActiveFilters = searchTerm.trim().length > 0 || selectedCategories.length > 0 || activeView !== null;
+  const hasAnyFilters = hasActiveFilters || coveringVenueOnly;
 
   if (!isOpen) return null;
 
@@ -177,10 +234,10 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
       <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
         {/* Header - Purple gradient matching other modals */}
-        <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 px-6 py-5 rounded-t-xl">
+        <div className="sticky top-0 z-10 bg-gradient-to-r from-purple-600 to-purple-700 text-on-accent px-6 py-5 rounded-t-xl">
           <div className="flex items-start justify-between">
             <div className="flex-1 pr-4">
-              <h3 className="text-2xl font-bold text-white mb-1">Select Suppliers</h3>
+              <h3 className="text-2xl font-bold text-on-accent mb-1">Select Suppliers</h3>
               <p className="text-purple-100 text-sm">
                 Choose suppliers to request quotes for "{asset?.asset_name}"
               </p>
@@ -190,16 +247,16 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
               className="flex-shrink-0 p-2 hover:bg-white/20 rounded-lg transition-colors"
               aria-label="Close modal"
             >
-              <X className="w-6 h-6 text-white" />
+              <X className="w-6 h-6 text-on-accent" />
             </button>
           </div>
         </div>
 
         {/* Body - Scrollable content */}
         <div className="flex-1 overflow-y-auto p-6">
-          {/* Prominent Search Bar - At the very top */}
-          <div className="mb-4">
-            <div className="relative">
+          {/* Prominent Search Bar - At the very top, with saved views alongside */}
+          <div className="mb-4 flex items-center gap-3">
+            <div className="relative flex-1">
               <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-300" />
               <input
                 type="text"
@@ -219,14 +276,51 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
                 </button>
               )}
             </div>
+            <SavedViews
+              views={views}
+              loading={viewsLoading}
+              activeViewId={activeView?.id ?? null}
+              onApplyView={handleApplyView}
+              canSave={hasActiveFilters}
+              onSaveView={handleSaveView}
+              onDeleteView={handleDeleteView}
+            />
           </div>
 
+          {activeView && (
+            <div className="mb-4 flex items-center gap-2 text-sm text-gray-300">
+              <span>
+                Using saved view <span className="font-medium text-white">{activeView.name}</span>
+              </span>
+              <button
+                onClick={() => setActiveView(null)}
+                className="text-gray-300 hover:text-white transition-colors"
+                aria-label="Stop using saved view"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          {venueLabel && (
+            <label className="mb-4 flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={coveringVenueOnly}
+                onChange={(e) => setCoveringVenueOnly(e.target.checked)}
+                className="h-4 w-4 text-purple-400 focus:ring-purple-400 border-white/30 rounded bg-black/20"
+              />
+              <MapPin className="w-4 h-4 text-purple-300" />
+              <span>Only suppliers covering {venueLabel}</span>
+            </label>
+          )}
+
           {/* Tag Toggles - Always Visible, Below Search */}
           {allCategories.length > 0 && (
             <div className="mb-4 pb-4 border-b border-white/20">
               <div className="flex items-center justify-between mb-3">
                 <h4 className="text-sm font-semibold text-gray-200">Filter by Service Category</h4>
-                {hasActiveFilters && (
+                {hasAnyFilters && (
                   <button
                     onClick={clearFilters}
                     className="text-xs text-purple-300 hover:text-purple-200 font-medium transition-colors"
@@ -390,6 +484,9 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
                                     {getSupplierPrimaryEmail(supplier) && (
                                       <p className="text-sm text-gray-300">{getSupplierPrimaryEmail(supplier)}</p>
                                     )}
+                                    {supplier.relevance.locationMatch && (
+                                      <LocationMatchBadge match={supplier.relevance.locationMatch} className="mt-1" />
+                                    )}
                                     {supplier.service_categories && supplier.service_categories.length > 0 && (
                                       <div className="flex flex-wrap gap-1 mt-2">
                                         {supplier.service_categories.map((category, index) => {
@@ -468,6 +565,9 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
                                     {getSupplierPrimaryEmail(supplier) && (
                                       <p className="text-sm text-gray-300">{getSupplierPrimaryEmail(supplier)}</p>
                                     )}
+                                    {supplier.relevance.locationMatch && (
+                                      <LocationMatchBadge match={supplier.relevance.locationMatch} className="mt-1" />
+                                    )}
                                     {supplier.service_categories && supplier.service_categories.length > 0 && (
                                       <div className="flex flex-wrap gap-1 mt-2">
                                         {supplier.service_categories.map((category, index) => (
@@ -490,6 +590,7 @@ const SupplierSelectionModal: React.FC<SupplierSelectionModalProps> = ({
                     )}
                   </>
                 )}
+                </div>
               </div>
             </>
           )}
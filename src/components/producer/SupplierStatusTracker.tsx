@@ -1,9 +1,11 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { Building2, Mail, Clock, CheckCircle, AlertCircle } from 'lucide-react';
+import { Building2, Mail, Clock, CheckCircle, AlertCircle, BellRing, Hourglass, Loader2, Lock } from 'lucide-react';
 import { ProducerService } from '@/services/producerService';
 import { useNotification } from '@/hooks/useNotification';
 import type { Asset, Quote, Supplier } from '@/lib/supabase';
 import { getSupplierPrimaryEmail } from '@/utils/supplierUtils';
+import { getEffectiveDeadline, formatTimeRemaining, toDateTimeLocalValue } from '@/utils/quoteDeadlines';
+import { isBidSealed, describeBidOpening } from '@/utils/sealedBids';
 
 interface SupplierStatusTrackerProps {
   asset: Asset;
@@ -20,6 +22,15 @@ interface SupplierWithStatus {
   lastActivity: string;
 }
 
+// Hours-level precision is enough to tell whether a reminder just went out
+const formatLastChased = (dateString: string): string => {
+  const hours = Math.floor((Date.now() - new Date(dateString).getTime()) / (1000 * 60 * 60));
+  if (hours < 1) return 'just now';
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days !== 1 ? 's' : ''} ago`;
+};
+
 /**
  * SupplierStatusTracker - Organized view of suppliers by status
  * 
@@ -28,6 +39,9 @@ interface SupplierWithStatus {
  * - Dynamic status updates based on quote activity
  * - Visual status indicators and progress tracking
  * - Contact information and service categories
+ * - When pending requests were last chased by a follow-up reminder
+ * - Response deadline per request, with a per-supplier extension
+ * - Marks received quotes as sealed while bids are sealed
  * - Real-time status updates
  */
 const SupplierStatusTracker: React.FC<SupplierStatusTrackerProps> = ({
@@ -37,7 +51,7 @@ const SupplierStatusTracker: React.FC<SupplierStatusTrackerProps> = ({
   isVisible,
   refreshTrigger
 }) => {
-  const { showError } = useNotification();
+  const { showSuccess, showError } = useNotification();
   const [suppliersWithStatus, setSuppliersWithStatus] = useState<SupplierWithStatus[]>([]);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -45,6 +59,11 @@ const SupplierStatusTracker: React.FC<SupplierStatusTrackerProps> = ({
   const isFetchingRef = useRef(false);
   const hasLoadedOnceRef = useRef(false);
 
+  // Inline deadline extension for a single request
+  const [extendingQuoteId, setExtendingQuoteId] = useState<string | null>(null);
+  const [extendUntil, setExtendUntil] = useState('');
+  const [savingExtension, setSavingExtension] = useState(false);
+
   const loadSupplierStatus = useCallback(async (options?: { background?: boolean }) => {
     if (isFetchingRef.current) return;
     isFetchingRef.current = true;
@@ -143,6 +162,36 @@ const SupplierStatusTracker: React.FC<SupplierStatusTrackerProps> = ({
     };
   }, [isVisible, loadSupplierStatus]);
 
+  const startExtension = (quote: Quote) => {
+    const current = getEffectiveDeadline(quote);
+    const base = current && current.getTime() > Date.now() ? current : new Date();
+    setExtendUntil(toDateTimeLocalValue(new Date(base.getTime() + 24 * 60 * 60 * 1000)));
+    setExtendingQuoteId(quote.id);
+  };
+
+  const handleExtendDeadline = async (quote: Quote, supplierName: string) => {
+    const until = new Date(extendUntil);
+    if (!extendUntil || until.getTime() <= Date.now()) {
+      showError('The new deadline must be in the future');
+      return;
+    }
+
+    setSavingExtension(true);
+    try {
+      await ProducerService.extendResponseDeadline(quote.id, asset.id, until);
+      showSuccess(`Extended the deadline for ${supplierName}`);
+      setExtendingQuoteId(null);
+      await loadSupplierStatus({ background: true });
+    } catch (err) {
+      console.error('Error extending response deadline:', err);
+      showError('Failed to extend the response deadline');
+    } finally {
+      setSavingExtension(false);
+    }
+  };
+
+  const sealedNotice = isBidSealed(asset) ? describeBidOpening(asset) : null;
+
   // Group suppliers by status
   const suppliersByStatus = useMemo(() => {
     const groups = {
@@ -251,6 +300,8 @@ const SupplierStatusTracker: React.FC<SupplierStatusTrackerProps> = ({
                 ) : (
                   suppliers.map(({ supplier, quote }) => {
                     const supplierEmail = getSupplierPrimaryEmail(supplier);
+                    const deadline = status === 'Requested' && quote ? getEffectiveDeadline(quote) : null;
+                    const deadlineRemaining = deadline ? formatTimeRemaining(deadline) : null;
 
                     return (
                       <div
@@ -276,6 +327,74 @@ const SupplierStatusTracker: React.FC<SupplierStatusTrackerProps> = ({
                                 <span>{supplierEmail}</span>
                               </div>
                             )}
+                            {quote?.last_chased_at && (
+                              <div
+                                className="flex items-center gap-1 text-xs text-amber-200 mt-0.5"
+                                title={new Date(quote.last_chased_at).toLocaleString()}
+                              >
+                                <BellRing className="w-3 h-3" />
+                                <span>Last chased {formatLastChased(quote.last_chased_at)}</span>
+                              </div>
+                            )}
+                            {status === 'Quoted' && sealedNotice && (
+                              <div className="flex items-center gap-1 text-xs text-amber-200 mt-0.5" title={sealedNotice}>
+                                <Lock className="w-3 h-3" />
+                                <span>Cost sealed</span>
+                              </div>
+                            )}
+                            {quote && deadline && (
+                              <div className="mt-1" onClick={(e) => e.stopPropagation()}>
+                                <div
+                                  className={`flex items-center gap-1 text-xs ${deadlineRemaining ? 'text-gray-300' : 'text-red-300'}`}
+                                  title={deadline.toLocaleString()}
+                                >
+                                  <Hourglass className="w-3 h-3" />
+                                  <span>
+                                    {deadlineRemaining ? `Deadline: ${deadlineRemaining}` : 'Deadline passed'}
+                                    {quote.deadline_extended_until && ' (extended)'}
+                                  </span>
+                                  {extendingQuoteId !== quote.id && (
+                                    <button
+                                      type="button"
+                                      onClick={() => startExtension(quote)}
+                                      className="ml-1 text-purple-300 hover:text-purple-200 underline"
+                                    >
+                                      Extend
+                                    </button>
+                                  )}
+                                </div>
+                                {extendingQuoteId === quote.id && (
+                                  <div className="flex flex-wrap items-center gap-2 mt-1">
+                                    <input
+                                      type="datetime-local"
+                                      value={extendUntil}
+                                      min={toDateTimeLocalValue(new Date())}
+                                      onChange={(e) => setExtendUntil(e.target.value)}
+                                      disabled={savingExtension}
+                                      className="px-2 py-1 bg-black/20 border border-white/20 rounded text-white text-xs focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
+                                      aria-label={`New deadline for ${supplier.supplier_name}`}
+                                    />
+                                    <button
+                                      type="button"
+                                      onClick={() => handleExtendDeadline(quote, supplier.supplier_name)}
+                                      disabled={savingExtension}
+                                      className="inline-flex items-center gap-1 px-2 py-1 rounded bg-purple-600 hover:bg-purple-700 text-on-accent text-xs disabled:opacity-60"
+                                    >
+                                      {savingExtension && <Loader2 className="w-3 h-3 animate-spin" />}
+                                      Save
+                                    </button>
+                                    <button
+                                      type="button"
+                                      onClick={() => setExtendingQuoteId(null)}
+                                      disabled={savingExtension}
+                                      className="px-2 py-1 rounded border border-white/20 text-gray-200 hover:bg-white/10 text-xs"
+                                    >
+                                      Cancel
+                                    </button>
+                                  </div>
+                                )}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
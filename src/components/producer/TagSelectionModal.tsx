@@ -24,8 +24,8 @@ const TagSelectionModal: React.FC<TagSelectionModalProps> = ({
   useEscapeKey(isOpen, onClose);
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
-      <div className="bg-white rounded-lg shadow-lg w-full max-w-xl p-6">
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink bg-opacity-40">
+      <div className="bg-paper rounded-lg shadow-lg w-full max-w-xl p-6">
         <div className="mb-4">
           <h3 className="text-xl font-semibold">Filter Suppliers by Tags</h3>
           <p className="text-gray-600 text-sm">Select tags to filter suppliers who will receive this request.</p>
@@ -43,7 +43,7 @@ const TagSelectionModal: React.FC<TagSelectionModalProps> = ({
                   key={tag}
                   type="button"
                   onClick={() => onTagToggle(tag)}
-                  className={`px-3 py-1 rounded-full text-sm border ${active ? 'bg-teal-600 text-white border-teal-600' : 'bg-white text-gray-800 border-gray-300'}`}
+                  className={`px-3 py-1 rounded-full text-sm border ${active ? 'bg-teal-600 text-on-accent border-teal-600' : 'bg-paper text-gray-800 border-gray-300'}`}
                 >
                   {tag}
                 </button>
@@ -63,7 +63,7 @@ const TagSelectionModal: React.FC<TagSelectionModalProps> = ({
           <button
             type="button"
             onClick={onConfirm}
-            className="px-4 py-2 rounded bg-teal-600 text-white hover:bg-teal-700"
+            className="px-4 py-2 rounded bg-teal-600 text-on-accent hover:bg-teal-700"
           >
             Send Requests
           </button>
@@ -0,0 +1,154 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ChevronDown, Bookmark, Check, Trash2, Link2 } from 'lucide-react';
+import type { SupplierFilterView } from '@/types/database';
+
+interface SavedViewsProps {
+  views: SupplierFilterView[];
+  loading: boolean;
+  activeViewId: string | null;
+  onApplyView: (view: SupplierFilterView) => void;
+  canSave: boolean;
+  onSaveView: (name: string) => Promise<unknown>;
+  onDeleteView: (view: SupplierFilterView) => void;
+  onCopyLink?: () => void;
+}
+
+const SavedViews: React.FC<SavedViewsProps> = ({
+  views,
+  loading,
+  activeViewId,
+  onApplyView,
+  canSave,
+  onSaveView,
+  onDeleteView,
+  onCopyLink
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newViewName, setNewViewName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const activeView = views.find((view) => view.id === activeViewId) || null;
+
+  const handleSave = async () => {
+    if (!newViewName.trim()) return;
+    setSaving(true);
+    try {
+      await onSaveView(newViewName);
+      setNewViewName('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-3 py-2 bg-white/10 border border-white/20 rounded-lg hover:bg-white/20 focus:ring-2 focus:ring-teal-500 focus:border-transparent text-sm transition-colors md:cursor-pointer"
+      >
+        <Bookmark className="h-4 w-4 text-gray-300" />
+        <span className="text-gray-200 max-w-[10rem] truncate">
+          {activeView ? activeView.name : 'Saved Views'}
+        </span>
+        <ChevronDown className={`h-4 w-4 text-gray-300 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-72 bg-black/80 backdrop-blur-xl border border-white/20 rounded-lg shadow-xl z-50">
+          <div className="p-4 space-y-3">
+            <h4 className="text-sm font-medium text-white">Saved Views</h4>
+
+            {loading ? (
+              <p className="text-sm text-gray-300">Loading views...</p>
+            ) : views.length === 0 ? (
+              <p className="text-sm text-gray-300">No saved views yet. Set some filters and save them here.</p>
+            ) : (
+              <div className="space-y-1 max-h-56 overflow-y-auto">
+                {views.map((view) => (
+                  <div
+                    key={view.id}
+                    className="flex items-center justify-between p-2 hover:bg-white/20 rounded transition-colors"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onApplyView(view);
+                        setIsOpen(false);
+                      }}
+                      className="flex-1 flex items-center space-x-2 text-left text-sm text-gray-200 min-w-0"
+                    >
+                      <Check className={`h-3.5 w-3.5 flex-shrink-0 ${view.id === activeViewId ? 'text-teal-300' : 'invisible'}`} />
+                      <span className="truncate">{view.name}</span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDeleteView(view)}
+                      className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                      title={`Delete "${view.name}"`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="pt-3 border-t border-white/20 space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={newViewName}
+                  onChange={(e) => setNewViewName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleSave();
+                    }
+                  }}
+                  placeholder={canSave ? 'Name these filters' : 'Set filters to save a view'}
+                  disabled={!canSave || saving}
+                  className="flex-1 min-w-0 px-2 py-1.5 bg-black/20 border border-white/20 rounded text-sm text-white placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none disabled:opacity-60"
+                  aria-label="Saved view name"
+                />
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={!canSave || saving || !newViewName.trim()}
+                  className="px-3 py-1.5 bg-teal-600 text-on-accent rounded text-sm hover:bg-teal-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  Save
+                </button>
+              </div>
+              {onCopyLink && (
+                <button
+                  type="button"
+                  onClick={onCopyLink}
+                  className="flex items-center space-x-1.5 text-xs text-teal-300 hover:text-teal-200 transition-colors"
+                >
+                  <Link2 className="h-3.5 w-3.5" />
+                  <span>Copy link to these filters</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViews;
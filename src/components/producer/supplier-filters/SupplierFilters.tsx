@@ -23,6 +23,8 @@ interface SupplierFiltersProps {
   selectedCity: string;
   onSelectedCityChange: (city: string) => void;
   availableCities: string[];
+  /** Saved view controls shown at the end of the filter bar */
+  savedViews?: React.ReactNode;
 }
 
 const SupplierFilters: React.FC<SupplierFiltersProps> = ({
@@ -32,7 +34,8 @@ const SupplierFilters: React.FC<SupplierFiltersProps> = ({
   availableCategories,
   selectedCity,
   onSelectedCityChange,
-  availableCities
+  availableCities,
+  savedViews
 }) => {
   const updateFilter = <K extends keyof FilterState>(
     key: K,
@@ -91,9 +94,9 @@ const SupplierFilters: React.FC<SupplierFiltersProps> = ({
               className="appearance-none bg-transparent border-none text-sm text-gray-200 pr-5 focus:outline-none focus:ring-0 cursor-pointer"
               aria-label="Filter by region"
             >
-              <option value="" className="text-black">All Regions</option>
+              <option value="" className="text-ink">All Regions</option>
               {availableCities.map((city) => (
-                <option key={city} value={city} className="text-black">
+                <option key={city} value={city} className="text-ink">
                   {city}
                 </option>
               ))}
@@ -117,6 +120,8 @@ const SupplierFilters: React.FC<SupplierFiltersProps> = ({
               filters.dateRange.end !== null
             }
           />
+
+          {savedViews && <div className="ml-auto">{savedViews}</div>}
         </div>
       </div>
 
@@ -0,0 +1,179 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle, GitBranch } from 'lucide-react';
+import { calculateProjectSchedule, describeSlack, type ScheduleRisk } from '@/utils/criticalPath';
+import type { Asset } from '@/lib/supabase';
+import type { AssetDependency } from '@/types/database';
+
+interface AssetGanttChartProps {
+  assets: Asset[];
+  dependencies: AssetDependency[];
+  eventDate: string | null;
+}
+
+const RISK_STYLES: Record<ScheduleRisk, { bar: string; badge: string; label: string }> = {
+  late: { bar: 'bg-red-500', badge: 'bg-red-500/30 text-red-200', label: 'Late' },
+  critical: { bar: 'bg-orange-500', badge: 'bg-orange-500/30 text-orange-200', label: 'Critical' },
+  at_risk: { bar: 'bg-amber-400', badge: 'bg-amber-500/30 text-amber-200', label: 'At risk' },
+  on_track: { bar: 'bg-teal-500', badge: 'bg-teal-500/30 text-teal-200', label: 'On track' },
+  done: { bar: 'bg-green-600/60', badge: 'bg-green-500/30 text-green-200', label: 'Done' }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Schedule dates are calendar days; parse them as local dates so they don't shift a day
+const parseDay = (day: string): Date => new Date(`${day}T00:00:00`);
+
+const formatDay = (day: string): string =>
+  parseDay(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const todayString = (): string => {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+/**
+ * AssetGanttChart Component
+ *
+ * Gantt-style view of the project's assets, scheduled from their timeline dates,
+ * durations and dependencies. Bars are coloured by how much each asset can slip
+ * before the event date moves, and the critical path is highlighted.
+ */
+const AssetGanttChart: React.FC<AssetGanttChartProps> = ({ assets, dependencies, eventDate }) => {
+  const schedule = useMemo(
+    () => calculateProjectSchedule(assets, dependencies, eventDate),
+    [assets, dependencies, eventDate]
+  );
+
+  if (schedule.assets.length === 0) return null;
+
+  const today = todayString();
+  const rangeDays = [
+    today,
+    ...schedule.assets.flatMap(item => [item.start, item.finish]),
+    ...(schedule.eventDate ? [schedule.eventDate] : [])
+  ].map(day => parseDay(day).getTime());
+  const rangeStart = Math.min(...rangeDays);
+  // One extra day so bars and markers on the last date stay inside the chart
+  const rangeEnd = Math.max(...rangeDays) + DAY_MS;
+  const span = rangeEnd - rangeStart;
+  const offset = (day: string) => ((parseDay(day).getTime() - rangeStart) / span) * 100;
+
+  const names = new Map(schedule.assets.map(item => [item.assetId, item.assetName]));
+  const criticalIds = new Set(schedule.criticalPath);
+
+  const summary = (() => {
+    if (schedule.eventSlackDays === null || !schedule.projectedFinish) {
+      return 'Set an event date to see which assets put it at risk';
+    }
+    if (schedule.eventSlackDays < 0) {
+      const days = Math.abs(schedule.eventSlackDays);
+      return `Projected to finish ${formatDay(schedule.projectedFinish)}, ${days} day${days === 1 ? '' : 's'} after the event date`;
+    }
+    return `Projected to finish ${formatDay(schedule.projectedFinish)}, ${schedule.eventSlackDays} day${schedule.eventSlackDays === 1 ? '' : 's'} before the event date`;
+  })();
+
+  return (
+    <div className="mt-8 pt-6 border-t border-white/20">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <GitBranch className="w-5 h-5 text-purple-300" />
+          <div>
+            <h4 className="font-semibold text-white">Asset Schedule</h4>
+            <p className={`text-xs ${schedule.eventSlackDays !== null && schedule.eventSlackDays < 0 ? 'text-red-300' : 'text-gray-300'}`}>
+              {summary}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap justify-end gap-3 text-xs text-gray-300">
+          {(['late', 'critical', 'at_risk', 'on_track', 'done'] as ScheduleRisk[]).map(risk => (
+            <span key={risk} className="flex items-center gap-1">
+              <span className={`w-2.5 h-2.5 rounded-sm ${RISK_STYLES[risk].bar}`} />
+              {RISK_STYLES[risk].label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {schedule.hasCycle && (
+        <div className="flex items-center gap-2 mb-3 p-2 bg-red-500/20 border border-red-400/30 rounded-lg text-xs text-red-200">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          Some assets wait for each other in a loop. Remove one of those dependencies to schedule them properly.
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {schedule.assets.map(item => {
+          const style = RISK_STYLES[item.risk];
+          const isCritical = criticalIds.has(item.assetId);
+          const waitsFor = item.predecessors
+            .map(p => `${names.get(p.assetId)}${p.lagDays ? ` (${p.lagDays > 0 ? '+' : ''}${p.lagDays}d)` : ''}`)
+            .join(', ');
+          const title = [
+            `${formatDay(item.start)} – ${formatDay(item.finish)}`,
+            describeSlack(item),
+            item.delayDays > 0 ? `${item.delayDays} day${item.delayDays === 1 ? '' : 's'} behind its timeline date` : '',
+            waitsFor ? `Waits for ${waitsFor}` : ''
+          ].filter(Boolean).join(' · ');
+
+          return (
+            <div key={item.assetId} className="flex items-center gap-3" title={title}>
+              <div className="w-40 flex-shrink-0 min-w-0">
+                <p className={`text-sm truncate ${isCritical ? 'text-white font-semibold' : 'text-gray-200'}`}>
+                  {item.assetName}
+                </p>
+                {waitsFor && (
+                  <p className="text-[11px] text-gray-400 truncate">after {waitsFor}</p>
+                )}
+              </div>
+              <div className="relative flex-1 h-6 bg-white/5 rounded">
+                {schedule.eventDate && (
+                  <div
+                    className="absolute top-0 bottom-0 w-0.5 bg-red-400/70"
+                    style={{ left: `${offset(schedule.eventDate)}%` }}
+                  />
+                )}
+                <div
+                  className="absolute top-0 bottom-0 w-px bg-white/40"
+                  style={{ left: `${offset(today)}%` }}
+                />
+                <div
+                  className={`absolute top-1 bottom-1 rounded ${style.bar} ${isCritical ? 'ring-2 ring-white/70' : ''}`}
+                  style={{
+                    left: `${offset(item.start)}%`,
+                    // Zero-day assets (sign-offs) still get a visible marker
+                    width: `max(6px, ${(Math.max(item.durationDays, 0) * DAY_MS / span) * 100}%)`
+                  }}
+                />
+              </div>
+              <span className={`w-28 flex-shrink-0 text-center text-xs font-medium px-2 py-1 rounded ${style.badge}`}>
+                {describeSlack(item)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-4 mt-3 pl-[10.75rem] text-[11px] text-gray-400">
+        <span className="flex items-center gap-1">
+          <span className="w-px h-3 bg-white/40" />
+          Today
+        </span>
+        {schedule.eventDate && (
+          <span className="flex items-center gap-1">
+            <span className="w-0.5 h-3 bg-red-400/70" />
+            Event date ({formatDay(schedule.eventDate)})
+          </span>
+        )}
+        {schedule.criticalPath.length > 0 && (
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-2 rounded-sm ring-2 ring-white/70" />
+            Critical path
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssetGanttChart;
@@ -1,11 +1,18 @@
 import React from 'react';
 import { DollarSign, TrendingUp, AlertCircle } from 'lucide-react';
+import { DEFAULT_CURRENCY, formatCurrency as formatAmount } from '@/utils/currency';
 
 interface BudgetTrackingBarProps {
   total: number;
   spent: number;
   remaining: number;
   percentageUsed: number;
+  /** Project base currency; all amounts are already converted into it */
+  currency?: string;
+  /** Accepted quotes left out of `spent` because no exchange rate was available */
+  unconvertedQuoteCount?: number;
+  /** Total planned across per-asset allocations */
+  allocated?: number;
   onClick?: () => void;
 }
 
@@ -17,6 +24,8 @@ interface BudgetTrackingBarProps {
  * - Yellow: 70-90% used (warning)
  * - Red: > 90% used (critical)
  * 
+ * Amounts are shown in the project base currency. When assets have allocations,
+ * the allocated total is shown against the budget.
  * Optionally clickable to show detailed budget breakdown modal
  */
 const BudgetTrackingBar: React.FC<BudgetTrackingBarProps> = ({
@@ -24,6 +33,9 @@ const BudgetTrackingBar: React.FC<BudgetTrackingBarProps> = ({
   spent,
   remaining,
   percentageUsed,
+  currency = DEFAULT_CURRENCY,
+  unconvertedQuoteCount = 0,
+  allocated = 0,
   onClick
 }) => {
   
@@ -39,12 +51,10 @@ const BudgetTrackingBar: React.FC<BudgetTrackingBarProps> = ({
   
   // Format currency for display
   const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
+    return formatAmount(amount, currency, {
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
-    }).format(amount);
+    });
   };
 
   // Determine status color based on percentage used
@@ -154,6 +164,20 @@ const BudgetTrackingBar: React.FC<BudgetTrackingBarProps> = ({
         </div>
       </div>
 
+      {/* Allocation */}
+      {allocated > 0 && (
+        <div className="mt-4 pt-3 border-t border-white/10 flex items-center justify-between text-sm">
+          <span className="text-gray-300">
+            Allocated to assets: <span className="font-semibold text-white">{formatCurrency(allocated)}</span>
+          </span>
+          <span className={allocated > total ? 'text-red-300 font-semibold' : 'text-gray-300'}>
+            {allocated > total
+              ? `Over-allocated by ${formatCurrency(allocated - total)}`
+              : `${formatCurrency(total - allocated)} unallocated`}
+          </span>
+        </div>
+      )}
+
       {/* Over-budget warning */}
       {remaining < 0 && (
         <div className="mt-4 p-3 bg-red-500/20 border border-red-400/50 rounded-lg flex items-start gap-2">
@@ -168,11 +192,22 @@ const BudgetTrackingBar: React.FC<BudgetTrackingBarProps> = ({
         </div>
       )}
 
+      {/* Missing exchange rates */}
+      {unconvertedQuoteCount > 0 && (
+        <div className="mt-4 p-3 bg-yellow-500/20 border border-yellow-400/50 rounded-lg flex items-start gap-2">
+          <AlertCircle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+          <p className="text-xs text-yellow-200">
+            {unconvertedQuoteCount} accepted quote(s) are not included in Spent because no exchange rate
+            to {currency} is set. Add it in Settings → Currencies.
+          </p>
+        </div>
+      )}
+
       {/* Click prompt (if clickable) */}
       {isClickable && (
         <div className="mt-4 pt-3 border-t border-white/10">
           <p className="text-xs text-gray-300 font-medium text-center">
-            Click to view spending breakdown →
+            Click to view spending and allocations →
           </p>
         </div>
       )}
@@ -1,29 +1,45 @@
 import React from 'react';
-import { Calendar, CheckCircle2, Circle, Clock, AlertTriangle, Plus, Edit, Trash2 } from 'lucide-react';
-import type { ProjectMilestone } from '@/types/database';
+import { Calendar, CheckCircle2, Circle, Clock, AlertTriangle, Plus, Edit, Trash2, Package } from 'lucide-react';
+import type { ProjectMilestone, AssetTimelineEvent, AssetDependency } from '@/types/database';
+import type { Asset } from '@/lib/supabase';
+import { getTimelineEventTypeLabel } from '@/utils/assetTimeline';
+import AssetGanttChart from './AssetGanttChart';
 
 interface TimelineWidgetProps {
   deadline: string | null;
   daysRemaining: number | null;
   milestones: ProjectMilestone[];
+  assetEvents?: AssetTimelineEvent[];
+  /** Assets and their dependencies for the critical-path schedule (hidden when empty) */
+  assets?: Asset[];
+  assetDependencies?: AssetDependency[];
   onAddMilestone?: () => void;
   onEditMilestone?: (milestone: ProjectMilestone) => void;
   onDeleteMilestone?: (milestone: ProjectMilestone) => void;
 }
 
+type TimelineEntry =
+  | { kind: 'milestone'; date: string; milestone: ProjectMilestone }
+  | { kind: 'asset_event'; date: string; event: AssetTimelineEvent };
+
 /**
  * TimelineWidget Component
  * 
  * Horizontal timeline showing:
  * - Completed milestones (green checkmark)
  * - Pending milestones (gray circle)
+ * - Asset timeline events (proof approved, load-in, etc.) interleaved by date
  * - Final deadline with days remaining indicator
  * - Interactive CRUD controls for managing milestones (optional)
+ * - Gantt-style asset schedule flagging assets that put the deadline at risk (optional)
  */
 const TimelineWidget: React.FC<TimelineWidgetProps> = ({
   deadline,
   daysRemaining,
   milestones,
+  assetEvents = [],
+  assets = [],
+  assetDependencies = [],
   onAddMilestone,
   onEditMilestone,
   onDeleteMilestone
@@ -70,9 +86,11 @@ const TimelineWidget: React.FC<TimelineWidgetProps> = ({
   };
 
   const deadlineStatus = getDeadlineStatus();
-  const sortedMilestones = [...milestones].sort((a, b) => 
-    new Date(a.milestone_date).getTime() - new Date(b.milestone_date).getTime()
-  );
+  // Milestones and asset events share one chronological track
+  const timelineEntries: TimelineEntry[] = [
+    ...milestones.map(milestone => ({ kind: 'milestone' as const, date: milestone.milestone_date, milestone })),
+    ...assetEvents.map(event => ({ kind: 'asset_event' as const, date: event.event_date, event }))
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
   const completedCount = milestones.filter(m => m.status === 'completed').length;
   const totalCount = milestones.length;
@@ -91,6 +109,7 @@ const TimelineWidget: React.FC<TimelineWidgetProps> = ({
               {totalCount > 0 
                 ? `${completedCount} of ${totalCount} milestones completed`
                 : 'No milestones set'}
+              {assetEvents.length > 0 && ` · ${assetEvents.length} asset event${assetEvents.length !== 1 ? 's' : ''}`}
             </p>
           </div>
         </div>
@@ -102,7 +121,7 @@ const TimelineWidget: React.FC<TimelineWidgetProps> = ({
             <button
               type="button"
               onClick={onAddMilestone}
-              className="flex items-center gap-2 px-3 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors text-sm font-medium"
+              className="flex items-center gap-2 px-3 py-2 bg-teal-600 text-on-accent rounded-lg hover:bg-teal-700 transition-colors text-sm font-medium"
             >
               <Plus className="w-4 h-4" />
               <span>Add Milestone</span>
@@ -123,14 +142,47 @@ const TimelineWidget: React.FC<TimelineWidgetProps> = ({
       </div>
 
       {/* Timeline */}
-      {sortedMilestones.length > 0 ? (
+      {timelineEntries.length > 0 ? (
         <div className="relative">
           {/* Timeline line */}
           <div className="absolute left-4 top-0 bottom-0 w-0.5 bg-white/20" />
           
           {/* Milestones */}
           <div className="space-y-6">
-            {sortedMilestones.map((milestone) => {
+            {timelineEntries.map((entry) => {
+              if (entry.kind === 'asset_event') {
+                const { event } = entry;
+                const isPast = new Date(event.event_date) < new Date();
+                return (
+                  <div key={`asset-event-${event.id}`} className="relative flex items-start gap-4 pl-10">
+                    <div className="absolute left-0 z-10">
+                      <div className={`rounded-full p-1 border-2 ${
+                        isPast ? 'bg-purple-500 border-purple-500' : 'bg-purple-500/20 border-purple-400/50'
+                      }`}>
+                        <Package className="w-6 h-6 text-white" />
+                      </div>
+                    </div>
+                    <div className="flex-1 pb-2">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <h4 className="font-semibold text-gray-200">
+                            {event.event_name}
+                          </h4>
+                          <p className="text-sm text-gray-300 mt-1">
+                            {getTimelineEventTypeLabel(event.event_type)}
+                            {event.asset?.asset_name && ` · ${event.asset.asset_name}`}
+                          </p>
+                        </div>
+                        <span className="text-xs font-medium px-2 py-1 rounded bg-purple-500/30 text-purple-200">
+                          {formatDate(event.event_date)}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                );
+              }
+
+              const { milestone } = entry;
               const isCompleted = milestone.status === 'completed';
               const isCancelled = milestone.status === 'cancelled';
               const isPending = milestone.status === 'pending';
@@ -279,6 +331,10 @@ const TimelineWidget: React.FC<TimelineWidgetProps> = ({
           )}
         </div>
       )}
+
+      {assets.length > 0 && (
+        <AssetGanttChart assets={assets} dependencies={assetDependencies} eventDate={deadline} />
+      )}
     </div>
   );
 };
@@ -1,17 +1,97 @@
 import React from 'react';
+import { Check } from 'lucide-react';
+import { useNotification } from '@/hooks/useNotification';
+import { useAppearance } from '@/contexts/AppearanceContext';
+import {
+  THEME_OPTIONS,
+  DENSITY_OPTIONS,
+  FONT_SIZE_OPTIONS,
+  type AppearanceOption
+} from '@/utils/appearance';
+import type { AppearanceSettings as AppearanceSettingsValues } from '@/types/database';
 import SettingsSection from './SettingsSection';
 
+interface OptionGroupProps<T extends string> {
+  label: string;
+  options: AppearanceOption<T>[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+const OptionGroup = <T extends string>({ label, options, value, onChange }: OptionGroupProps<T>) => (
+  <fieldset>
+    <legend className="text-sm font-medium text-gray-200 mb-2">{label}</legend>
+    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+      {options.map((option) => {
+        const isSelected = option.value === value;
+        return (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange(option.value)}
+            aria-pressed={isSelected}
+            className={`flex items-start justify-between gap-2 p-4 rounded-lg border text-left transition-colors ${
+              isSelected
+                ? 'border-teal-400 bg-teal-500/10'
+                : 'border-white/20 bg-black/20 hover:bg-white/10'
+            }`}
+          >
+            <span>
+              <span className="block font-medium text-white">{option.label}</span>
+              <span className="block text-sm text-gray-300">{option.description}</span>
+            </span>
+            {isSelected && <Check className="w-4 h-4 text-teal-300 flex-shrink-0" />}
+          </button>
+        );
+      })}
+    </div>
+  </fieldset>
+);
+
 /**
- * Placeholder for Appearance settings (theme, density).
- * Will be expanded with theme selection and font size toggles.
+ * Theme, table density and text size for the signed-in user.
+ * Changes apply across the app immediately and are saved to the user's account.
  */
-const AppearanceSettings: React.FC = () => (
-  <SettingsSection
-    title="Appearance"
-    description="Customize how the app looks and feels."
-  >
-    <p className="text-gray-400 text-sm">Theme and density options coming soon.</p>
-  </SettingsSection>
-);
+const AppearanceSettings: React.FC = () => {
+  const { showError } = useNotification();
+  const { appearance, updateAppearance } = useAppearance();
+
+  const handleChange = async (changes: Partial<AppearanceSettingsValues>) => {
+    try {
+      await updateAppearance(changes);
+    } catch (err) {
+      console.error('Failed to save appearance settings:', err);
+      showError(err instanceof Error ? err.message : 'Failed to save appearance settings');
+    }
+  };
+
+  return (
+    <SettingsSection
+      title="Appearance"
+      description="Customize how the app looks and feels. Changes apply immediately."
+    >
+      <div className="space-y-6">
+        <OptionGroup
+          label="Theme"
+          options={THEME_OPTIONS}
+          value={appearance.theme}
+          onChange={(theme) => handleChange({ theme })}
+        />
+        <OptionGroup
+          label="Density"
+          options={DENSITY_OPTIONS}
+          value={appearance.density}
+          onChange={(density) => handleChange({ density })}
+        />
+        <OptionGroup
+          label="Text size"
+          options={FONT_SIZE_OPTIONS}
+          value={appearance.font_size}
+          onChange={(font_size) => handleChange({ font_size })}
+        />
+      </div>
+    </SettingsSection>
+  );
+};
 
 export default AppearanceSettings;
@@ -0,0 +1,419 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, Loader2, Save, GitMerge } from 'lucide-react';
+import { useNotification } from '@/hooks/useNotification';
+import { useAssetTagTaxonomy } from '@/contexts/AssetTagTaxonomyContext';
+import { AssetTagTaxonomyService } from '@/services/assetTagTaxonomyService';
+import type { AssetTagDefinition, AssetTagDefinitionInput } from '@/types/database';
+import SettingsSection from './SettingsSection';
+
+const AVAILABLE_CATEGORIES = [
+  'Printing', 'Graphics', 'Banners', 'Staging', 'Audio', 'Lighting',
+  'Catering', 'Food', 'Beverages', 'Design', 'Branding', 'Marketing',
+  'Transport', 'Logistics', 'Delivery', 'Photography', 'Video', 'Security',
+  'Staffing', 'Hospitality', 'Technical Services', 'Medical', 'Floral', 'Furniture', 'IT Services'
+];
+
+const inputClass =
+  'w-full px-3 py-2 bg-black/20 border border-white/20 text-white placeholder-gray-400 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none';
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+interface AssetTagFormProps {
+  tag: AssetTagDefinition | null;
+  otherTagNames: string[];
+  saving: boolean;
+  onSave: (input: AssetTagDefinitionInput) => void;
+  onCancel: () => void;
+}
+
+const AssetTagForm: React.FC<AssetTagFormProps> = ({ tag, otherTagNames, saving, onSave, onCancel }) => {
+  const [form, setForm] = useState<AssetTagDefinitionInput>(() => ({
+    name: tag?.name ?? '',
+    color: tag?.color ?? '#6B7280',
+    description: tag?.description ?? '',
+    supplier_categories: tag?.supplier_categories ?? [],
+    aliases: tag?.aliases ?? []
+  }));
+  const [aliasText, setAliasText] = useState(() => (tag?.aliases ?? []).join(', '));
+
+  // Renaming onto an existing tag is a merge, which has its own action
+  const nameTaken = otherTagNames.some(name => name.toLowerCase() === form.name.trim().toLowerCase());
+
+  const toggleCategory = (category: string) => {
+    setForm(prev => ({
+      ...prev,
+      supplier_categories: prev.supplier_categories.includes(category)
+        ? prev.supplier_categories.filter(c => c !== category)
+        : [...prev.supplier_categories, category]
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (nameTaken) return;
+    onSave({ ...form, aliases: splitList(aliasText) });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-4">
+        <div>
+          <label htmlFor="asset-tag-name" className="block text-sm font-medium text-gray-200 mb-2">
+            Tag name
+          </label>
+          <input
+            id="asset-tag-name"
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            className={inputClass}
+            placeholder="e.g. Special Effects"
+            required
+          />
+          {nameTaken ? (
+            <p className="text-xs text-red-400 mt-1">
+              A tag with this name already exists. Use Rename or merge to combine them.
+            </p>
+          ) : tag && form.name.trim() !== tag.name && (
+            <p className="text-xs text-amber-300 mt-1">
+              Assets and email templates tagged "{tag.name}" will be moved to the new name.
+            </p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="asset-tag-color" className="block text-sm font-medium text-gray-200 mb-2">
+            Color
+          </label>
+          <input
+            id="asset-tag-color"
+            type="color"
+            value={form.color}
+            onChange={(e) => setForm(prev => ({ ...prev, color: e.target.value.toUpperCase() }))}
+            className="h-10 w-16 bg-black/20 border border-white/20 rounded-lg cursor-pointer"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="asset-tag-description" className="block text-sm font-medium text-gray-200 mb-2">
+          Description
+        </label>
+        <input
+          id="asset-tag-description"
+          type="text"
+          value={form.description}
+          onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+          className={inputClass}
+          placeholder="What kind of assets get this tag"
+        />
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-200 mb-1">Supplier categories</p>
+        <p className="text-xs text-gray-400 mb-2">
+          Suppliers in these categories are suggested first for assets with this tag.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {AVAILABLE_CATEGORIES.map(category => {
+            const active = form.supplier_categories.includes(category);
+            return (
+              <button
+                key={category}
+                type="button"
+                onClick={() => toggleCategory(category)}
+                className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                  active ? 'bg-teal-600 text-on-accent border-transparent' : 'text-gray-300 border-white/20 hover:bg-white/10'
+                }`}
+                aria-pressed={active}
+              >
+                {category}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="asset-tag-aliases" className="block text-sm font-medium text-gray-200 mb-2">
+          Aliases
+        </label>
+        <input
+          id="asset-tag-aliases"
+          type="text"
+          value={aliasText}
+          onChange={(e) => setAliasText(e.target.value)}
+          className={inputClass}
+          placeholder="Old or alternative names, comma separated"
+        />
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 rounded-lg border border-white/20 text-gray-200 hover:bg-white/10 transition-colors font-medium"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || !form.name.trim() || nameTaken}
+          className="inline-flex items-center gap-2 px-5 py-2 rounded-lg bg-teal-600 text-on-accent font-medium hover:bg-teal-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save Tag
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * The producer's asset tag taxonomy: names, colors, supplier categories and aliases.
+ * Renaming or merging a tag also updates every asset and email template that uses it.
+ */
+const AssetTagSettings: React.FC = () => {
+  const { showSuccess, showError } = useNotification();
+  const { definitions, loading, refreshTags } = useAssetTagTaxonomy();
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  // null = list view, 'new' = creating, otherwise the tag being edited
+  const [editing, setEditing] = useState<AssetTagDefinition | 'new' | null>(null);
+  const [mergeFrom, setMergeFrom] = useState('');
+  const [mergeTo, setMergeTo] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+
+  const describeRename = (assetsUpdated: number, templatesUpdated: number) =>
+    `${assetsUpdated} asset${assetsUpdated === 1 ? '' : 's'} and ${templatesUpdated} template${templatesUpdated === 1 ? '' : 's'} updated`;
+
+  const handleSave = async (input: AssetTagDefinitionInput) => {
+    const tag = editing && editing !== 'new' ? editing : null;
+    const name = input.name.trim();
+    setIsSaving(true);
+    try {
+      const renamed = Boolean(tag && name !== tag.name);
+      if (tag && renamed) {
+        const result = await AssetTagTaxonomyService.renameTag(tag.name, name);
+        showSuccess(`Renamed "${tag.name}" to "${name}" (${describeRename(result.assets_updated, result.templates_updated)})`);
+      }
+      // Keep the old name as an alias, as the rename did, so older references still resolve
+      await AssetTagTaxonomyService.saveTag(
+        tag && renamed ? { ...input, aliases: [...input.aliases, tag.name] } : input,
+        tag?.id
+      );
+      if (!renamed) {
+        showSuccess(`Saved tag "${name}"`);
+      }
+      setEditing(null);
+      await refreshTags();
+    } catch (err) {
+      console.error('Failed to save asset tag:', err);
+      showError(err instanceof Error ? err.message : 'Failed to save asset tag');
+      await refreshTags();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (tag: AssetTagDefinition) => {
+    if (definitions.length <= 1) {
+      showError('Keep at least one tag. Add another tag before deleting this one.');
+      return;
+    }
+    if (!confirm(`Delete tag "${tag.name}"? Assets keep the tag, but it will no longer be suggested.`)) return;
+    setDeletingId(tag.id);
+    try {
+      await AssetTagTaxonomyService.deleteTag(tag.id);
+      showSuccess(`Deleted tag "${tag.name}"`);
+      await refreshTags();
+    } catch (err) {
+      console.error('Failed to delete asset tag:', err);
+      showError(err instanceof Error ? err.message : 'Failed to delete asset tag');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const from = mergeFrom.trim();
+    const to = mergeTo.trim();
+    if (!from || !to) return;
+
+    const targetExists = definitions.some(tag => tag.name === to);
+    const action = targetExists ? `Merge "${from}" into "${to}"` : `Rename "${from}" to "${to}"`;
+    if (!confirm(`${action} on all of your assets and email templates?`)) return;
+
+    setIsMerging(true);
+    try {
+      const result = await AssetTagTaxonomyService.renameTag(from, to);
+      showSuccess(
+        `${result.merged ? 'Merged' : 'Renamed'} "${from}" ${result.merged ? 'into' : 'to'} "${to}" (${describeRename(result.assets_updated, result.templates_updated)})`
+      );
+      setMergeFrom('');
+      setMergeTo('');
+      await refreshTags();
+    } catch (err) {
+      console.error('Failed to rename asset tag:', err);
+      showError(err instanceof Error ? err.message : 'Failed to rename asset tag');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (editing) {
+    const tag = editing === 'new' ? null : editing;
+    return (
+      <SettingsSection
+        title={tag ? `Edit "${tag.name}"` : 'New Asset Tag'}
+        description="Tags group assets and decide which suppliers are suggested for them."
+      >
+        <AssetTagForm
+          key={tag?.id ?? 'new'}
+          tag={tag}
+          otherTagNames={definitions.filter(t => t.id !== tag?.id).map(t => t.name)}
+          saving={isSaving}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      </SettingsSection>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <SettingsSection
+        title="Asset Tags"
+        description="Tags group assets and decide which suppliers are suggested for them. The AI brief analysis uses these tags too."
+      >
+        <div className="space-y-4">
+          <button
+            type="button"
+            onClick={() => setEditing('new')}
+            className="inline-flex items-center gap-2 px-5 py-2.5 rounded-lg bg-teal-600 text-on-accent font-medium hover:bg-teal-700 transition-all duration-200 shadow-md hover:shadow-lg"
+          >
+            <Plus className="w-4 h-4" />
+            New Tag
+          </button>
+
+          {loading && definitions.length === 0 ? (
+            <div className="flex items-center gap-2 text-gray-300 text-sm">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading asset tags...
+            </div>
+          ) : definitions.length === 0 ? (
+            <p className="text-gray-400 text-sm">
+              Your tags could not be loaded. The default tags are being used for now.
+            </p>
+          ) : (
+            <ul className="divide-y divide-white/10 rounded-lg border border-white/10">
+              {definitions.map((tag) => (
+                <li key={tag.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <span
+                      className="mt-1.5 w-3 h-3 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: tag.color }}
+                      aria-hidden="true"
+                    />
+                    <div className="min-w-0">
+                      <p className="text-white font-medium truncate">{tag.name}</p>
+                      {tag.description && (
+                        <p className="text-xs text-gray-400 truncate">{tag.description}</p>
+                      )}
+                      {tag.supplier_categories.length > 0 && (
+                        <p className="text-xs text-teal-300 mt-1">
+                          Suppliers: {tag.supplier_categories.join(', ')}
+                        </p>
+                      )}
+                      {tag.aliases.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          Also matches: {tag.aliases.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => setEditing(tag)}
+                      className="p-1.5 text-gray-400 hover:text-white hover:bg-white/10 rounded transition-colors"
+                      aria-label={`Edit ${tag.name}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(tag)}
+                      disabled={deletingId === tag.id}
+                      className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded transition-colors disabled:opacity-50"
+                      aria-label={`Delete ${tag.name}`}
+                    >
+                      {deletingId === tag.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-4 h-4" />
+                      )}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </SettingsSection>
+
+      <SettingsSection
+        title="Rename or Merge"
+        description="Move every asset and email template from one tag to another. Pick an existing tag as the new name to merge the two; the old name is kept as an alias."
+      >
+        <form onSubmit={handleMerge} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+          <div>
+            <label htmlFor="asset-tag-merge-from" className="block text-sm font-medium text-gray-200 mb-2">
+              Tag on assets
+            </label>
+            <input
+              id="asset-tag-merge-from"
+              type="text"
+              list="asset-tag-names"
+              value={mergeFrom}
+              onChange={(e) => setMergeFrom(e.target.value)}
+              className={inputClass}
+              placeholder="e.g. AV"
+            />
+          </div>
+          <div>
+            <label htmlFor="asset-tag-merge-to" className="block text-sm font-medium text-gray-200 mb-2">
+              New name or tag to merge into
+            </label>
+            <input
+              id="asset-tag-merge-to"
+              type="text"
+              list="asset-tag-names"
+              value={mergeTo}
+              onChange={(e) => setMergeTo(e.target.value)}
+              className={inputClass}
+              placeholder="e.g. Audio"
+            />
+          </div>
+          <datalist id="asset-tag-names">
+            {definitions.map(tag => (
+              <option key={tag.id} value={tag.name} />
+            ))}
+          </datalist>
+          <button
+            type="submit"
+            disabled={isMerging || !mergeFrom.trim() || !mergeTo.trim() || mergeFrom.trim() === mergeTo.trim()}
+            className="inline-flex items-center justify-center gap-2 px-5 py-2 rounded-lg bg-purple-600 text-on-accent font-medium hover:bg-purple-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {isMerging ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+            Apply
+          </button>
+        </form>
+      </SettingsSection>
+    </div>
+  );
+};
+
+export default AssetTagSettings;
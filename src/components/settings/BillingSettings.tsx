@@ -1,17 +1,313 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Check, Download, Loader2 } from 'lucide-react';
+import { useNotification } from '@/hooks/useNotification';
+import { BillingService } from '@/services/billingService';
+import ConfirmationModal from '@/components/shared/ConfirmationModal';
+import {
+  formatCents,
+  formatPlanPrice,
+  formatUsageLimit,
+  getUsageMeter,
+  isUpgrade
+} from '@/utils/billing';
+import type {
+  BillingInvoice,
+  BillingInvoiceStatus,
+  BillingPlan,
+  BillingSubscription,
+  BillingUsage
+} from '@/types/database';
 import SettingsSection from './SettingsSection';
 
+const INVOICE_STATUS_STYLES: Record<BillingInvoiceStatus, string> = {
+  paid: 'bg-green-500/20 text-green-200 border-green-400/40',
+  open: 'bg-amber-500/20 text-amber-200 border-amber-400/40',
+  failed: 'bg-red-500/20 text-red-200 border-red-400/40',
+  void: 'bg-gray-500/20 text-gray-300 border-gray-400/40'
+};
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+interface UsageBarProps {
+  label: string;
+  used: number;
+  limit: number | null;
+}
+
+const UsageBar: React.FC<UsageBarProps> = ({ label, used, limit }) => {
+  const meter = getUsageMeter(used, limit);
+  const barColor = meter.isAtLimit ? 'bg-red-500' : meter.isNearLimit ? 'bg-amber-500' : 'bg-teal-500';
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1.5 text-sm">
+        <span className="text-gray-200">{label}</span>
+        <span className={meter.isAtLimit ? 'text-red-300 font-medium' : 'text-gray-300'}>
+          {used} / {formatUsageLimit(limit)}
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-black/20 overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all ${barColor}`}
+          style={{ width: limit === null ? '0%' : `${meter.percent}%` }}
+        />
+      </div>
+      {meter.isAtLimit && (
+        <p className="mt-1 text-xs text-red-300">Limit reached. Upgrade to add more.</p>
+      )}
+    </div>
+  );
+};
+
 /**
- * Placeholder for Billing settings (demo view).
- * Will be expanded with plan card, invoices, payment history.
+ * Subscription plan, usage against the plan's limits, and invoice history.
+ * Plan changes are charged through the backend's payment provider; invoices download as PDFs.
  */
-const BillingSettings: React.FC = () => (
-  <SettingsSection
-    title="Billing"
-    description="Manage your subscription and payment history."
-  >
-    <p className="text-gray-400 text-sm">Billing and invoices coming soon.</p>
-  </SettingsSection>
-);
+const BillingSettings: React.FC = () => {
+  const { showSuccess, showError } = useNotification();
+  const [plans, setPlans] = useState<BillingPlan[]>([]);
+  const [subscription, setSubscription] = useState<BillingSubscription | null>(null);
+  const [usage, setUsage] = useState<BillingUsage | null>(null);
+  const [invoices, setInvoices] = useState<BillingInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingPlan, setPendingPlan] = useState<BillingPlan | null>(null);
+  const [isChangingPlan, setIsChangingPlan] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const loadBilling = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [nextPlans, nextSubscription, nextUsage, nextInvoices] = await Promise.all([
+        BillingService.getPlans(),
+        BillingService.getSubscription(),
+        BillingService.getUsage(),
+        BillingService.getInvoices()
+      ]);
+      setPlans(nextPlans);
+      setSubscription(nextSubscription);
+      setUsage(nextUsage);
+      setInvoices(nextInvoices);
+    } catch (err) {
+      console.error('Failed to load billing:', err);
+      showError(err instanceof Error ? err.message : 'Failed to load billing');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadBilling();
+  }, [loadBilling]);
+
+  const currentPlanId = usage?.plan_id ?? 'free';
+  const currentPlan = plans.find((plan) => plan.id === currentPlanId);
+
+  const handleConfirmPlanChange = async () => {
+    if (!pendingPlan) return;
+
+    setIsChangingPlan(true);
+    try {
+      await BillingService.changePlan(pendingPlan.id);
+      showSuccess(`You're now on the ${pendingPlan.name} plan`);
+      setPendingPlan(null);
+      await loadBilling();
+    } catch (err) {
+      console.error('Failed to change plan:', err);
+      showError(err instanceof Error ? err.message : 'Failed to change plan');
+      // A failed payment still records an invoice
+      await loadBilling();
+    } finally {
+      setIsChangingPlan(false);
+    }
+  };
+
+  const handleDownload = async (invoice: BillingInvoice) => {
+    setDownloadingId(invoice.id);
+    try {
+      await BillingService.downloadInvoice(invoice);
+    } catch (err) {
+      console.error('Failed to download invoice:', err);
+      showError(err instanceof Error ? err.message : 'Failed to download invoice');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  if (loading && !usage) {
+    return (
+      <SettingsSection title="Billing" description="Manage your subscription and payment history.">
+        <div className="flex items-center gap-2 text-gray-300 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading billing...
+        </div>
+      </SettingsSection>
+    );
+  }
+
+  const getPlanChangeMessage = (plan: BillingPlan): string => {
+    if (plan.monthly_price_cents === 0) {
+      return `Switch to the ${plan.name} plan? You won't be charged again, and new projects and quote requests will be limited to the ${plan.name} plan's allowance.`;
+    }
+    return `Switch to the ${plan.name} plan for ${formatPlanPrice(plan)}? You'll be charged ${formatCents(plan.monthly_price_cents, plan.currency)} now and a new monthly billing period starts today.`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <SettingsSection
+        title="Billing"
+        description="Manage your subscription and payment history."
+      >
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <p className="text-sm text-gray-300">Current plan</p>
+              <p className="text-2xl font-semibold text-white">{usage?.plan_name ?? 'Free'}</p>
+              {currentPlan && <p className="text-sm text-gray-300">{formatPlanPrice(currentPlan)}</p>}
+            </div>
+            {subscription && currentPlan && currentPlan.monthly_price_cents > 0 && (
+              <div className="text-right text-sm">
+                {subscription.status === 'past_due' ? (
+                  <p className="text-red-300">
+                    Renewal payment failed. We'll retry it automatically; you can also switch plans below.
+                  </p>
+                ) : (
+                  <p className="text-gray-300">Renews on {formatDate(subscription.current_period_end)}</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {usage && (
+            <div className="grid gap-6 sm:grid-cols-2">
+              <UsageBar label="Active projects" used={usage.active_projects} limit={usage.max_active_projects} />
+              <UsageBar
+                label={`Quote requests this month (resets ${formatDate(usage.usage_period_end)})`}
+                used={usage.rfqs_this_month}
+                limit={usage.max_rfqs_per_month}
+              />
+            </div>
+          )}
+        </div>
+      </SettingsSection>
+
+      <SettingsSection title="Plans" description="Limits apply to active projects and quote requests sent each calendar month.">
+        <div className="grid gap-4 md:grid-cols-3">
+          {plans.map((plan) => {
+            const isCurrent = plan.id === currentPlanId && subscription?.status !== 'past_due';
+            return (
+              <div
+                key={plan.id}
+                className={`flex flex-col rounded-lg border p-5 ${
+                  isCurrent ? 'border-teal-400 bg-teal-500/10' : 'border-white/20 bg-black/20'
+                }`}
+              >
+                <h3 className="text-lg font-semibold text-white">{plan.name}</h3>
+                <p className="text-sm text-gray-300">{plan.description}</p>
+                <p className="mt-3 text-xl font-semibold text-white">{formatPlanPrice(plan)}</p>
+                <ul className="mt-3 space-y-1.5 text-sm text-gray-200 flex-1">
+                  <li className="flex items-center gap-2">
+                    <Check className="w-4 h-4 text-teal-300" />
+                    {formatUsageLimit(plan.max_active_projects)} active projects
+                  </li>
+                  <li className="flex items-center gap-2">
+                    <Check className="w-4 h-4 text-teal-300" />
+                    {formatUsageLimit(plan.max_rfqs_per_month)} quote requests / month
+                  </li>
+                </ul>
+                {isCurrent ? (
+                  <span className="mt-4 text-center text-sm font-medium text-teal-300">Current plan</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setPendingPlan(plan)}
+                    disabled={isChangingPlan}
+                    className={`mt-4 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-60 ${
+                      isUpgrade(currentPlan, plan)
+                        ? 'bg-teal-600 text-on-accent hover:bg-teal-700'
+                        : 'border border-white/20 text-gray-200 hover:bg-white/10'
+                    }`}
+                  >
+                    {isUpgrade(currentPlan, plan) ? `Upgrade to ${plan.name}` : `Switch to ${plan.name}`}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </SettingsSection>
+
+      <SettingsSection title="Invoices">
+        {invoices.length === 0 ? (
+          <p className="text-gray-400 text-sm">No invoices yet. Invoices appear here when you're charged for a paid plan.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-white/10">
+            <table className="w-full text-sm">
+              <thead className="bg-black/20 text-left text-xs uppercase tracking-wide text-gray-400">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Invoice</th>
+                  <th className="px-4 py-2 font-medium">Date</th>
+                  <th className="px-4 py-2 font-medium">Description</th>
+                  <th className="px-4 py-2 font-medium text-right">Amount</th>
+                  <th className="px-4 py-2 font-medium">Status</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10">
+                {invoices.map((invoice) => (
+                  <tr key={invoice.id}>
+                    <td className="px-4 py-3 font-medium text-white whitespace-nowrap">{invoice.invoice_number}</td>
+                    <td className="px-4 py-3 text-gray-300 whitespace-nowrap">{formatDate(invoice.issued_at)}</td>
+                    <td className="px-4 py-3 text-gray-200">
+                      {invoice.description}
+                      {invoice.status === 'failed' && invoice.failure_reason && (
+                        <span className="block text-xs text-red-300">{invoice.failure_reason}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-white whitespace-nowrap">
+                      {formatCents(invoice.amount_cents, invoice.currency)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 rounded-full border text-xs font-medium capitalize ${INVOICE_STATUS_STYLES[invoice.status]}`}>
+                        {invoice.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleDownload(invoice)}
+                        disabled={downloadingId === invoice.id}
+                        className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded border border-white/20 text-gray-200 hover:bg-white/10 transition-colors disabled:opacity-60"
+                        aria-label={`Download ${invoice.invoice_number} as PDF`}
+                      >
+                        {downloadingId === invoice.id ? (
+                          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                        ) : (
+                          <Download className="w-3.5 h-3.5" />
+                        )}
+                        PDF
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </SettingsSection>
+
+      <ConfirmationModal
+        isOpen={pendingPlan !== null}
+        title={pendingPlan ? `Switch to ${pendingPlan.name}` : 'Switch plan'}
+        message={pendingPlan ? getPlanChangeMessage(pendingPlan) : ''}
+        confirmText={pendingPlan && pendingPlan.monthly_price_cents > 0 ? 'Pay and switch' : 'Switch plan'}
+        onConfirm={handleConfirmPlanChange}
+        onCancel={() => setPendingPlan(null)}
+        isConfirming={isChangingPlan}
+        variant={pendingPlan && isUpgrade(currentPlan, pendingPlan) ? 'info' : 'warning'}
+      />
+    </div>
+  );
+};
 
 export default BillingSettings;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2, Loader2, ArrowRight } from 'lucide-react';
+import { useNotification } from '@/hooks/useNotification';
+import { ExchangeRateService } from '@/services/exchangeRateService';
+import { SUPPORTED_CURRENCIES } from '@/utils/currency';
+import type { ExchangeRate } from '@/types/database';
+import SettingsSection from './SettingsSection';
+
+interface RateFormState {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: string;
+}
+
+const INITIAL_FORM: RateFormState = {
+  fromCurrency: 'EUR',
+  toCurrency: 'USD',
+  rate: '',
+};
+
+/**
+ * Exchange rate table used to convert supplier quotes into project budget currencies.
+ * Saving an existing pair overwrites its rate; the inverse pair is derived automatically.
+ */
+const CurrencySettings: React.FC = () => {
+  const { showSuccess, showError } = useNotification();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RateFormState>(INITIAL_FORM);
+
+  const loadRates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRates(await ExchangeRateService.getRates());
+    } catch (err) {
+      console.error('Failed to load exchange rates:', err);
+      showError(err instanceof Error ? err.message : 'Failed to load exchange rates');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rate = parseFloat(form.rate);
+    if (!(rate > 0)) {
+      showError('Enter a rate greater than 0');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await ExchangeRateService.upsertRate({
+        from_currency: form.fromCurrency,
+        to_currency: form.toCurrency,
+        rate,
+      });
+      showSuccess(`Saved ${form.fromCurrency} → ${form.toCurrency} rate`);
+      setForm((prev) => ({ ...prev, rate: '' }));
+      await loadRates();
+    } catch (err) {
+      console.error('Failed to save exchange rate:', err);
+      showError(err instanceof Error ? err.message : 'Failed to save exchange rate');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    setDeletingId(rate.id);
+    try {
+      await ExchangeRateService.deleteRate(rate.id);
+      setRates((prev) => prev.filter((r) => r.id !== rate.id));
+      showSuccess(`Removed ${rate.from_currency} → ${rate.to_currency} rate`);
+    } catch (err) {
+      console.error('Failed to delete exchange rate:', err);
+      showError(err instanceof Error ? err.message : 'Failed to delete exchange rate');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const selectClass =
+    'px-3 py-2.5 bg-black/20 border border-white/20 rounded-lg text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition-all duration-200';
+
+  return (
+    <SettingsSection
+      title="Currencies"
+      description="Exchange rates used to convert supplier quotes into each project's budget currency."
+    >
+      <div className="space-y-6">
+        {/* Add / update rate */}
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+          <div>
+            <label htmlFor="rate-from" className="block text-sm font-medium text-gray-200 mb-2">
+              From
+            </label>
+            <select
+              id="rate-from"
+              value={form.fromCurrency}
+              onChange={(e) => setForm((prev) => ({ ...prev, fromCurrency: e.target.value }))}
+              className={selectClass}
+            >
+              {SUPPORTED_CURRENCIES.map(({ code, label }) => (
+                <option key={code} value={code} className="bg-gray-800">
+                  {code} – {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <ArrowRight className="w-5 h-5 text-gray-400 mb-3" />
+          <div>
+            <label htmlFor="rate-to" className="block text-sm font-medium text-gray-200 mb-2">
+              To
+            </label>
+            <select
+              id="rate-to"
+              value={form.toCurrency}
+              onChange={(e) => setForm((prev) => ({ ...prev, toCurrency: e.target.value }))}
+              className={selectClass}
+            >
+              {SUPPORTED_CURRENCIES.map(({ code, label }) => (
+                <option key={code} value={code} className="bg-gray-800">
+                  {code} – {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="w-36">
+            <label htmlFor="rate-value" className="block text-sm font-medium text-gray-200 mb-2">
+              Rate
+            </label>
+            <input
+              id="rate-value"
+              type="number"
+              min="0"
+              step="any"
+              value={form.rate}
+              onChange={(e) => setForm((prev) => ({ ...prev, rate: e.target.value }))}
+              placeholder="1.08"
+              className="w-full px-4 py-2.5 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition-all duration-200"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving || form.fromCurrency === form.toCurrency}
+            className="inline-flex items-center gap-2 px-5 py-2.5 rounded-lg bg-teal-600 text-on-accent font-medium hover:bg-teal-700 focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 focus:ring-offset-transparent transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed shadow-md hover:shadow-lg"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            {isSaving ? 'Saving...' : 'Save Rate'}
+          </button>
+        </form>
+        <p className="text-xs text-gray-400">
+          1 {form.fromCurrency} = {form.rate || '?'} {form.toCurrency}
+        </p>
+
+        {/* Rate table */}
+        {loading ? (
+          <div className="flex items-center gap-2 text-gray-300 text-sm">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading exchange rates...
+          </div>
+        ) : rates.length === 0 ? (
+          <p className="text-gray-400 text-sm">
+            No exchange rates yet. Quotes in a currency other than the project budget currency are left out of
+            totals until a rate is added.
+          </p>
+        ) : (
+          <div className="overflow-hidden rounded-lg border border-white/10">
+            <table className="w-full text-sm">
+              <thead className="bg-white/5 text-gray-300">
+                <tr>
+                  <th className="text-left px-4 py-2 font-medium">Pair</th>
+                  <th className="text-right px-4 py-2 font-medium">Rate</th>
+                  <th className="text-right px-4 py-2 font-medium">Updated</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10">
+                {rates.map((rate) => (
+                  <tr key={rate.id} className="text-white">
+                    <td className="px-4 py-2">
+                      {rate.from_currency} → {rate.to_currency}
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono">{rate.rate}</td>
+                    <td className="px-4 py-2 text-right text-gray-400">
+                      {new Date(rate.updated_at).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(rate)}
+                        disabled={deletingId === rate.id}
+                        className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded transition-colors disabled:opacity-50"
+                        aria-label={`Delete ${rate.from_currency} to ${rate.to_currency} rate`}
+                      >
+                        {deletingId === rate.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="w-4 h-4" />
+                        )}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </SettingsSection>
+  );
+};
+
+export default CurrencySettings;
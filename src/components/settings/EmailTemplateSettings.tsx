@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { useNotification } from '@/hooks/useNotification';
+import { RfqEmailTemplateService } from '@/services/rfqEmailTemplateService';
+import { buildMergeContext } from '@/utils/emailTemplates';
+import type { RfqEmailTemplate, RfqEmailTemplateInput } from '@/types/database';
+import RfqTemplateEditor from '@/components/producer/RfqTemplateEditor';
+import SettingsSection from './SettingsSection';
+
+// Made-up request used to preview templates outside the quote request flow
+const SAMPLE_PREVIEW = [
+  {
+    label: 'Sample supplier',
+    context: buildMergeContext({
+      supplier: { supplier_name: 'Brightline AV', contact_persons: [{ name: 'Sam Carter', is_primary: true }] },
+      asset: {
+        quantity: 2,
+        specifications: '4m x 2m LED wall with processor and operator',
+        supplier_context: 'Outdoor, load-in via rear dock',
+        timeline: '2025-06-10'
+      },
+      assetName: 'LED Screen',
+      project: { project_name: 'Summer Launch', event_date: '2025-06-12' },
+      producer: { fromName: 'Alex Morgan', company: 'ProdBay Events', email: 'alex@example.com' }
+    })
+  }
+];
+
+/**
+ * Library of quote request email templates.
+ * Templates marked as the default for an asset tag are preselected when requesting quotes for assets with that tag.
+ */
+const EmailTemplateSettings: React.FC = () => {
+  const { showSuccess, showError } = useNotification();
+  const [templates, setTemplates] = useState<RfqEmailTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  // null = list view, 'new' = creating, otherwise the template being edited
+  const [editing, setEditing] = useState<RfqEmailTemplate | 'new' | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTemplates(await RfqEmailTemplateService.getTemplates());
+    } catch (err) {
+      console.error('Failed to load email templates:', err);
+      showError(err instanceof Error ? err.message : 'Failed to load email templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleSave = async (input: RfqEmailTemplateInput) => {
+    setIsSaving(true);
+    try {
+      await RfqEmailTemplateService.saveTemplate(input, editing && editing !== 'new' ? editing.id : undefined);
+      showSuccess(`Saved template "${input.name.trim()}"`);
+      setEditing(null);
+      await loadTemplates();
+    } catch (err) {
+      console.error('Failed to save email template:', err);
+      showError(err instanceof Error ? err.message : 'Failed to save email template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: RfqEmailTemplate) => {
+    if (!confirm(`Delete template "${template.name}"?`)) return;
+    setDeletingId(template.id);
+    try {
+      await RfqEmailTemplateService.deleteTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      showSuccess(`Deleted template "${template.name}"`);
+    } catch (err) {
+      console.error('Failed to delete email template:', err);
+      showError(err instanceof Error ? err.message : 'Failed to delete email template');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <SettingsSection
+      title="Email Templates"
+      description="Reusable quote request emails. Merge fields are filled in for each supplier when you send a request."
+    >
+      {editing ? (
+        <RfqTemplateEditor
+          key={editing === 'new' ? 'new' : editing.id}
+          template={editing === 'new' ? null : editing}
+          previewContexts={SAMPLE_PREVIEW}
+          saving={isSaving}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <div className="space-y-4">
+          <button
+            type="button"
+            onClick={() => setEditing('new')}
+            className="inline-flex items-center gap-2 px-5 py-2.5 rounded-lg bg-teal-600 text-on-accent font-medium hover:bg-teal-700 transition-all duration-200 shadow-md hover:shadow-lg"
+          >
+            <Plus className="w-4 h-4" />
+            New Template
+          </button>
+
+          {loading ? (
+            <div className="flex items-center gap-2 text-gray-300 text-sm">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading email templates...
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="text-gray-400 text-sm">
+              No templates yet. Quote requests use the standard email until you add one.
+            </p>
+          ) : (
+            <ul className="divide-y divide-white/10 rounded-lg border border-white/10">
+              {templates.map((template) => (
+                <li key={template.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="text-white font-medium truncate">{template.name}</p>
+                    <p className="text-xs text-gray-400 truncate">{template.subject}</p>
+                    {template.default_for_tags.length > 0 && (
+                      <p className="text-xs text-teal-300 mt-1">
+                        Default for: {template.default_for_tags.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => setEditing(template)}
+                      className="p-1.5 text-gray-400 hover:text-white hover:bg-white/10 rounded transition-colors"
+                      aria-label={`Edit ${template.name}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(template)}
+                      disabled={deletingId === template.id}
+                      className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded transition-colors disabled:opacity-50"
+                      aria-label={`Delete ${template.name}`}
+                    >
+                      {deletingId === template.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-4 h-4" />
+                      )}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </SettingsSection>
+  );
+};
+
+export default EmailTemplateSettings;
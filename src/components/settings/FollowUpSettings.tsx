@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2, Loader2 } from 'lucide-react';
+import { useNotification } from '@/hooks/useNotification';
+import { FollowUpRuleService } from '@/services/followUpRuleService';
+import type { QuoteFollowUpRule } from '@/types/database';
+import SettingsSection from './SettingsSection';
+
+interface RuleFormState {
+  delayHours: string;
+  message: string;
+}
+
+const SUGGESTED_RULES = [
+  {
+    delay_hours: 48,
+    message: 'Just checking in on the quote request we sent a couple of days ago. Let us know if you need any more details.'
+  },
+  {
+    delay_hours: 96,
+    message: "We're finalising suppliers for this item soon. If you'd like to be considered, please send your quote at your earliest convenience."
+  }
+];
+
+const INITIAL_FORM: RuleFormState = {
+  delayHours: '',
+  message: '',
+};
+
+/**
+ * Follow-up reminders for quote requests that are still unanswered.
+ * Each rule emails the supplier once, delay_hours after the request; reminders stop when the supplier replies or submits.
+ */
+const FollowUpSettings: React.FC = () => {
+  const { showSuccess, showError } = useNotification();
+  const [rules, setRules] = useState<QuoteFollowUpRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleFormState>(INITIAL_FORM);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRules(await FollowUpRuleService.getRules());
+    } catch (err) {
+      console.error('Failed to load follow-up rules:', err);
+      showError(err instanceof Error ? err.message : 'Failed to load follow-up rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      await FollowUpRuleService.saveRule({
+        delay_hours: Number(form.delayHours),
+        message: form.message,
+        is_active: true,
+      });
+      showSuccess(`Added reminder after ${form.delayHours}h`);
+      setForm(INITIAL_FORM);
+      await loadRules();
+    } catch (err) {
+      console.error('Failed to save follow-up rule:', err);
+      showError(err instanceof Error ? err.message : 'Failed to save follow-up rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddSuggested = async () => {
+    setIsSaving(true);
+    try {
+      for (const rule of SUGGESTED_RULES) {
+        await FollowUpRuleService.saveRule({ ...rule, is_active: true });
+      }
+      showSuccess('Added suggested reminders');
+      await loadRules();
+    } catch (err) {
+      console.error('Failed to add suggested follow-up rules:', err);
+      showError(err instanceof Error ? err.message : 'Failed to add suggested reminders');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: QuoteFollowUpRule) => {
+    setBusyId(rule.id);
+    try {
+      const updated = await FollowUpRuleService.saveRule({ ...rule, is_active: !rule.is_active }, rule.id);
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? updated : r)));
+    } catch (err) {
+      console.error('Failed to update follow-up rule:', err);
+      showError(err instanceof Error ? err.message : 'Failed to update follow-up rule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (rule: QuoteFollowUpRule) => {
+    setBusyId(rule.id);
+    try {
+      await FollowUpRuleService.deleteRule(rule.id);
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+      showSuccess(`Removed reminder after ${rule.delay_hours}h`);
+    } catch (err) {
+      console.error('Failed to delete follow-up rule:', err);
+      showError(err instanceof Error ? err.message : 'Failed to delete follow-up rule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2.5 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition-all duration-200';
+
+  return (
+    <SettingsSection
+      title="Follow-ups"
+      description="Automatic reminders for quote requests that are still pending. Reminders stop once the supplier replies or submits a quote."
+    >
+      <div className="space-y-6">
+        {/* Add rule */}
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="w-36">
+              <label htmlFor="follow-up-delay" className="block text-sm font-medium text-gray-200 mb-2">
+                After (hours)
+              </label>
+              <input
+                id="follow-up-delay"
+                type="number"
+                min="1"
+                step="1"
+                value={form.delayHours}
+                onChange={(e) => setForm((prev) => ({ ...prev, delayHours: e.target.value }))}
+                placeholder="48"
+                className={inputClass}
+              />
+            </div>
+            <div className="flex-1 min-w-[16rem]">
+              <label htmlFor="follow-up-message" className="block text-sm font-medium text-gray-200 mb-2">
+                Reminder message
+              </label>
+              <input
+                id="follow-up-message"
+                type="text"
+                value={form.message}
+                onChange={(e) => setForm((prev) => ({ ...prev, message: e.target.value }))}
+                placeholder="Just checking in on our quote request..."
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving || !form.delayHours || !form.message.trim()}
+              className="inline-flex items-center gap-2 px-5 py-2.5 rounded-lg bg-teal-600 text-on-accent font-medium hover:bg-teal-700 focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 focus:ring-offset-transparent transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed shadow-md hover:shadow-lg"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              {isSaving ? 'Saving...' : 'Add Reminder'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">
+            Hours are counted from when the request was sent. The link to the quote portal is added to every reminder.
+          </p>
+        </form>
+
+        {/* Rule list */}
+        {loading ? (
+          <div className="flex items-center gap-2 text-gray-300 text-sm">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading follow-up rules...
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <p className="text-gray-400">No reminders set up. Pending requests are never chased automatically.</p>
+            <button
+              type="button"
+              onClick={handleAddSuggested}
+              disabled={isSaving}
+              className="px-3 py-1.5 rounded-lg border border-white/20 text-gray-200 hover:bg-white/10 transition-colors disabled:opacity-60"
+            >
+              Add 48h reminder and 96h final nudge
+            </button>
+          </div>
+        ) : (
+          <ul className="divide-y divide-white/10 rounded-lg border border-white/10">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex items-start justify-between gap-4 px-4 py-3">
+                <div className="min-w-0">
+                  <p className={`font-medium ${rule.is_active ? 'text-white' : 'text-gray-500'}`}>
+                    After {rule.delay_hours}h
+                    {!rule.is_active && <span className="ml-2 text-xs font-normal">(paused)</span>}
+                  </p>
+                  <p className="text-sm text-gray-300 whitespace-pre-wrap">{rule.message}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={rule.is_active}
+                      onChange={() => handleToggle(rule)}
+                      disabled={busyId === rule.id}
+                      className="rounded border-white/30 bg-black/20 text-teal-600 focus:ring-teal-500"
+                    />
+                    Active
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(rule)}
+                    disabled={busyId === rule.id}
+                    className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded transition-colors disabled:opacity-50"
+                    aria-label={`Delete reminder after ${rule.delay_hours} hours`}
+                  >
+                    {busyId === rule.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="w-4 h-4" />
+                    )}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </SettingsSection>
+  );
+};
+
+export default FollowUpSettings;
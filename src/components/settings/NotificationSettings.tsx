@@ -1,17 +1,106 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useNotification } from '@/hooks/useNotification';
+import { NotificationCenterService } from '@/services/notificationCenterService';
+import { NOTIFICATION_EVENTS } from '@/utils/notificationEvents';
+import type { NotificationEventType, NotificationPreference } from '@/types/database';
 import SettingsSection from './SettingsSection';
 
+type Channel = 'in_app' | 'email';
+
 /**
- * Placeholder for Notification settings.
- * Will be expanded with Marketing Emails, Security Alerts, Product Updates toggles.
+ * Per-event delivery choices for the notification center.
+ * Each event can show in the bell menu, be emailed, both or neither; changes save as soon as a box is toggled.
  */
-const NotificationSettings: React.FC = () => (
-  <SettingsSection
-    title="Notifications"
-    description="Manage your email and in-app notifications."
-  >
-    <p className="text-gray-400 text-sm">Notification preferences coming soon.</p>
-  </SettingsSection>
-);
+const NotificationSettings: React.FC = () => {
+  const { showError } = useNotification();
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyType, setBusyType] = useState<NotificationEventType | null>(null);
+
+  const loadPreferences = useCallback(async () => {
+    try {
+      setLoading(true);
+      setPreferences(await NotificationCenterService.getPreferences());
+    } catch (err) {
+      console.error('Failed to load notification preferences:', err);
+      showError(err instanceof Error ? err.message : 'Failed to load notification preferences');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  const handleToggle = async (preference: NotificationPreference, channel: Channel) => {
+    const updated = { ...preference, [channel]: !preference[channel] };
+
+    setBusyType(preference.event_type);
+    setPreferences((prev) => prev.map((p) => (p.event_type === preference.event_type ? updated : p)));
+    try {
+      await NotificationCenterService.updatePreference(preference.event_type, {
+        in_app: updated.in_app,
+        email: updated.email,
+      });
+    } catch (err) {
+      console.error('Failed to update notification preference:', err);
+      showError(err instanceof Error ? err.message : 'Failed to update notification preference');
+      setPreferences((prev) => prev.map((p) => (p.event_type === preference.event_type ? preference : p)));
+    } finally {
+      setBusyType(null);
+    }
+  };
+
+  return (
+    <SettingsSection
+      title="Notifications"
+      description="Choose how you hear about activity on your projects. In-app notifications appear under the bell in the header."
+    >
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-300">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading preferences...
+        </div>
+      ) : (
+        <div className="rounded-lg border border-white/10 overflow-hidden">
+          <div className="grid grid-cols-[1fr_auto_auto] gap-4 px-4 py-2 bg-black/20 text-xs font-medium uppercase tracking-wide text-gray-400">
+            <span>Event</span>
+            <span className="w-16 text-center">In-app</span>
+            <span className="w-16 text-center">Email</span>
+          </div>
+          <ul className="divide-y divide-white/10">
+            {NOTIFICATION_EVENTS.map((event) => {
+              const preference = preferences.find((p) => p.event_type === event.type);
+              if (!preference) return null;
+
+              return (
+                <li key={event.type} className="grid grid-cols-[1fr_auto_auto] items-center gap-4 px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-white">{event.label}</p>
+                    <p className="text-sm text-gray-300">{event.description}</p>
+                  </div>
+                  {(['in_app', 'email'] as Channel[]).map((channel) => (
+                    <div key={channel} className="w-16 flex justify-center">
+                      <input
+                        type="checkbox"
+                        checked={preference[channel]}
+                        onChange={() => handleToggle(preference, channel)}
+                        disabled={busyType === event.type}
+                        className="rounded border-white/30 bg-black/20 text-teal-600 focus:ring-teal-500"
+                        aria-label={`${event.label}: ${channel === 'in_app' ? 'in-app' : 'email'}`}
+                      />
+                    </div>
+                  ))}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </SettingsSection>
+  );
+};
 
 export default NotificationSettings;
@@ -0,0 +1,462 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Copy, Loader2, LogOut, Plus, Trash2, UserPlus, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotification } from '@/hooks/useNotification';
+import { OrganisationService } from '@/services/organisationService';
+import ConfirmationModal from '@/components/shared/ConfirmationModal';
+import {
+  ORGANISATION_ROLES,
+  buildInvitationLink,
+  canManageMembers,
+  getRoleLabel
+} from '@/utils/organisations';
+import type {
+  OrganisationInvitation,
+  OrganisationMember,
+  OrganisationMembership,
+  OrganisationRole
+} from '@/types/database';
+import SettingsSection from './SettingsSection';
+
+const inputClass =
+  'w-full px-4 py-2.5 bg-black/20 border border-white/20 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition-all duration-200';
+const selectClass =
+  'px-3 py-2.5 bg-black/20 border border-white/20 rounded-lg text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition-all duration-200';
+const primaryButtonClass =
+  'inline-flex items-center gap-2 px-5 py-2.5 rounded-lg bg-teal-600 text-on-accent font-medium hover:bg-teal-700 transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed shadow-md';
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * The producer's organisation: members and their roles, invitations, and
+ * creating or leaving an organisation. Projects are shared from the project page.
+ */
+const OrganisationSettings: React.FC = () => {
+  const { user } = useAuth();
+  const { showSuccess, showError } = useNotification();
+  const [membership, setMembership] = useState<OrganisationMembership | null>(null);
+  const [members, setMembers] = useState<OrganisationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganisationInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [organisationName, setOrganisationName] = useState('');
+  const [isSavingName, setIsSavingName] = useState(false);
+  const [inviteForm, setInviteForm] = useState<{ email: string; role: OrganisationRole }>({
+    email: '',
+    role: 'coordinator'
+  });
+  const [isInviting, setIsInviting] = useState(false);
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+  const [memberToRemove, setMemberToRemove] = useState<OrganisationMember | null>(null);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  const isOwner = canManageMembers(membership?.role);
+
+  const loadOrganisation = useCallback(async () => {
+    try {
+      setLoading(true);
+      const nextMembership = await OrganisationService.getMembership();
+      setMembership(nextMembership);
+      setOrganisationName(nextMembership?.organisation.name ?? '');
+
+      if (nextMembership) {
+        const [nextMembers, nextInvitations] = await Promise.all([
+          OrganisationService.getMembers(),
+          canManageMembers(nextMembership.role)
+            ? OrganisationService.getPendingInvitations(nextMembership.organisation.id)
+            : Promise.resolve([])
+        ]);
+        setMembers(nextMembers);
+        setInvitations(nextInvitations);
+      } else {
+        setMembers([]);
+        setInvitations([]);
+      }
+    } catch (err) {
+      console.error('Failed to load organisation:', err);
+      showError(err instanceof Error ? err.message : 'Failed to load organisation');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadOrganisation();
+  }, [loadOrganisation]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organisationName.trim()) return;
+
+    setIsSavingName(true);
+    try {
+      const organisation = await OrganisationService.createOrganisation(organisationName);
+      showSuccess(`Created ${organisation.name}`);
+      await loadOrganisation();
+    } catch (err) {
+      console.error('Failed to create organisation:', err);
+      showError(err instanceof Error ? err.message : 'Failed to create organisation');
+    } finally {
+      setIsSavingName(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!membership || !organisationName.trim()) return;
+
+    setIsSavingName(true);
+    try {
+      await OrganisationService.renameOrganisation(membership.organisation.id, organisationName);
+      setMembership({ ...membership, organisation: { ...membership.organisation, name: organisationName.trim() } });
+      showSuccess('Organisation renamed');
+    } catch (err) {
+      console.error('Failed to rename organisation:', err);
+      showError(err instanceof Error ? err.message : 'Failed to rename organisation');
+    } finally {
+      setIsSavingName(false);
+    }
+  };
+
+  const copyInvitationLink = async (invitation: OrganisationInvitation) => {
+    try {
+      await navigator.clipboard.writeText(buildInvitationLink(invitation.token));
+      showSuccess(`Invitation link for ${invitation.email} copied to clipboard`);
+    } catch (err) {
+      console.error('Error copying invitation link:', err);
+      showError('Failed to copy link');
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!membership || !inviteForm.email.trim()) return;
+
+    setIsInviting(true);
+    try {
+      const invitation = await OrganisationService.inviteMember(
+        membership.organisation.id,
+        inviteForm.email,
+        inviteForm.role
+      );
+      setInvitations((prev) => [invitation, ...prev]);
+      setInviteForm((prev) => ({ ...prev, email: '' }));
+      await copyInvitationLink(invitation);
+    } catch (err) {
+      console.error('Failed to invite member:', err);
+      showError(err instanceof Error ? err.message : 'Failed to invite member');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: OrganisationInvitation) => {
+    try {
+      await OrganisationService.revokeInvitation(invitation.id);
+      setInvitations((prev) => prev.filter((item) => item.id !== invitation.id));
+      showSuccess(`Invitation for ${invitation.email} revoked`);
+    } catch (err) {
+      console.error('Failed to revoke invitation:', err);
+      showError(err instanceof Error ? err.message : 'Failed to revoke invitation');
+    }
+  };
+
+  const handleRoleChange = async (member: OrganisationMember, role: OrganisationRole) => {
+    setUpdatingUserId(member.user_id);
+    try {
+      await OrganisationService.updateMemberRole(member.user_id, role);
+      showSuccess(`${member.full_name || member.email} is now ${getRoleLabel(role).toLowerCase()}`);
+      await loadOrganisation();
+    } catch (err) {
+      console.error('Failed to change role:', err);
+      showError(err instanceof Error ? err.message : 'Failed to change role');
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const handleConfirmRemove = async () => {
+    if (!memberToRemove) return;
+
+    const isLeaving = memberToRemove.user_id === user?.id;
+    setIsRemoving(true);
+    try {
+      await OrganisationService.removeMember(memberToRemove.user_id);
+      showSuccess(isLeaving ? 'You left the organisation' : `${memberToRemove.full_name || memberToRemove.email} removed`);
+      setMemberToRemove(null);
+      await loadOrganisation();
+    } catch (err) {
+      console.error('Failed to remove member:', err);
+      showError(err instanceof Error ? err.message : 'Failed to remove member');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  if (loading && !membership) {
+    return (
+      <SettingsSection title="Organisation" description="Work on projects together with your team.">
+        <div className="flex items-center gap-2 text-gray-300 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading organisation...
+        </div>
+      </SettingsSection>
+    );
+  }
+
+  if (!membership) {
+    return (
+      <SettingsSection title="Organisation" description="Work on projects together with your team.">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-300">
+            Create an organisation to invite your team, share projects with them and keep one supplier list
+            for everyone. To join an existing organisation, ask one of its owners for an invitation link.
+          </p>
+          <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[16rem]">
+              <label htmlFor="organisation-name" className="block text-sm font-medium text-gray-200 mb-2">
+                Organisation name
+              </label>
+              <input
+                id="organisation-name"
+                type="text"
+                value={organisationName}
+                onChange={(e) => setOrganisationName(e.target.value)}
+                placeholder="Acme Productions"
+                className={inputClass}
+              />
+            </div>
+            <button type="submit" disabled={isSavingName || !organisationName.trim()} className={primaryButtonClass}>
+              {isSavingName ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Create organisation
+            </button>
+          </form>
+        </div>
+      </SettingsSection>
+    );
+  }
+
+  const currentMember = members.find((member) => member.user_id === user?.id);
+
+  return (
+    <div className="space-y-6">
+      <SettingsSection
+        title="Organisation"
+        description="Projects you share and suppliers you add are visible to everyone in your organisation."
+      >
+        <div className="space-y-4">
+          {isOwner ? (
+            <form onSubmit={handleRename} className="flex flex-wrap items-end gap-3">
+              <div className="flex-1 min-w-[16rem]">
+                <label htmlFor="organisation-name" className="block text-sm font-medium text-gray-200 mb-2">
+                  Organisation name
+                </label>
+                <input
+                  id="organisation-name"
+                  type="text"
+                  value={organisationName}
+                  onChange={(e) => setOrganisationName(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={
+                  isSavingName
+                  || !organisationName.trim()
+                  || organisationName.trim() === membership.organisation.name
+                }
+                className={primaryButtonClass}
+              >
+                {isSavingName && <Loader2 className="w-4 h-4 animate-spin" />}
+                Save
+              </button>
+            </form>
+          ) : (
+            <p className="text-2xl font-semibold text-white">{membership.organisation.name}</p>
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-300">
+              Your role: <span className="font-medium text-white">{getRoleLabel(membership.role)}</span>
+              {' - '}
+              {ORGANISATION_ROLES.find((option) => option.value === membership.role)?.description}
+            </p>
+            {currentMember && (
+              <button
+                type="button"
+                onClick={() => setMemberToRemove(currentMember)}
+                className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-white/20 text-gray-200 hover:bg-white/10 transition-colors text-sm"
+              >
+                <LogOut className="w-4 h-4" />
+                Leave organisation
+              </button>
+            )}
+          </div>
+        </div>
+      </SettingsSection>
+
+      <SettingsSection title="Members" description={`${members.length} ${members.length === 1 ? 'member' : 'members'}`}>
+        <div className="overflow-x-auto rounded-lg border border-white/10">
+          <table className="w-full text-sm">
+            <thead className="bg-black/20 text-left text-xs uppercase tracking-wide text-gray-400">
+              <tr>
+                <th className="px-4 py-2 font-medium">Name</th>
+                <th className="px-4 py-2 font-medium">Role</th>
+                <th className="px-4 py-2 font-medium">Joined</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {members.map((member) => {
+                const isSelf = member.user_id === user?.id;
+                return (
+                  <tr key={member.user_id}>
+                    <td className="px-4 py-3">
+                      <span className="block font-medium text-white">
+                        {member.full_name || member.email}
+                        {isSelf && <span className="ml-2 text-xs font-normal text-gray-400">(you)</span>}
+                      </span>
+                      {member.full_name && <span className="block text-xs text-gray-400">{member.email}</span>}
+                    </td>
+                    <td className="px-4 py-3">
+                      {isOwner ? (
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleRoleChange(member, e.target.value as OrganisationRole)}
+                            disabled={updatingUserId === member.user_id}
+                            aria-label={`Role for ${member.full_name || member.email}`}
+                            className={selectClass}
+                          >
+                            {ORGANISATION_ROLES.map((option) => (
+                              <option key={option.value} value={option.value} className="bg-gray-800">
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                          {updatingUserId === member.user_id && <Loader2 className="w-4 h-4 animate-spin text-gray-300" />}
+                        </div>
+                      ) : (
+                        <span className="text-gray-200">{getRoleLabel(member.role)}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-300 whitespace-nowrap">{formatDate(member.joined_at)}</td>
+                    <td className="px-4 py-3 text-right">
+                      {isOwner && !isSelf && (
+                        <button
+                          type="button"
+                          onClick={() => setMemberToRemove(member)}
+                          className="p-1.5 rounded text-red-300 hover:text-red-200 hover:bg-red-500/20 transition-colors"
+                          aria-label={`Remove ${member.full_name || member.email}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </SettingsSection>
+
+      {isOwner && (
+        <SettingsSection
+          title="Invitations"
+          description="Invite someone by email, then send them the link. They join once they sign in with that address."
+        >
+          <div className="space-y-6">
+            <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-3">
+              <div className="flex-1 min-w-[16rem]">
+                <label htmlFor="invite-email" className="block text-sm font-medium text-gray-200 mb-2">
+                  Email
+                </label>
+                <input
+                  id="invite-email"
+                  type="email"
+                  value={inviteForm.email}
+                  onChange={(e) => setInviteForm((prev) => ({ ...prev, email: e.target.value }))}
+                  placeholder="colleague@example.com"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="invite-role" className="block text-sm font-medium text-gray-200 mb-2">
+                  Role
+                </label>
+                <select
+                  id="invite-role"
+                  value={inviteForm.role}
+                  onChange={(e) => setInviteForm((prev) => ({ ...prev, role: e.target.value as OrganisationRole }))}
+                  className={selectClass}
+                >
+                  {ORGANISATION_ROLES.map((option) => (
+                    <option key={option.value} value={option.value} className="bg-gray-800">
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button type="submit" disabled={isInviting || !inviteForm.email.trim()} className={primaryButtonClass}>
+                {isInviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                Invite
+              </button>
+            </form>
+
+            {invitations.length === 0 ? (
+              <p className="text-gray-400 text-sm">No pending invitations.</p>
+            ) : (
+              <ul className="divide-y divide-white/10 rounded-lg border border-white/10">
+                {invitations.map((invitation) => (
+                  <li key={invitation.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm">
+                    <div>
+                      <span className="block font-medium text-white">{invitation.email}</span>
+                      <span className="block text-xs text-gray-400">
+                        {getRoleLabel(invitation.role)} - expires {formatDate(invitation.expires_at)}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => copyInvitationLink(invitation)}
+                        className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded border border-white/20 text-gray-200 hover:bg-white/10 transition-colors"
+                      >
+                        <Copy className="w-3.5 h-3.5" />
+                        Copy link
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(invitation)}
+                        className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded border border-white/20 text-red-300 hover:bg-red-500/20 transition-colors"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                        Revoke
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </SettingsSection>
+      )}
+
+      <ConfirmationModal
+        isOpen={memberToRemove !== null}
+        title={memberToRemove?.user_id === user?.id ? 'Leave organisation' : 'Remove member'}
+        message={
+          memberToRemove?.user_id === user?.id
+            ? `Leave ${membership.organisation.name}? You'll lose access to projects shared with it. Projects you created stay yours.`
+            : `Remove ${memberToRemove?.full_name || memberToRemove?.email} from ${membership.organisation.name}? They'll lose access to shared projects. Projects they created stay theirs.`
+        }
+        confirmText={memberToRemove?.user_id === user?.id ? 'Leave' : 'Remove'}
+        onConfirm={handleConfirmRemove}
+        onCancel={() => setMemberToRemove(null)}
+        isConfirming={isRemoving}
+      />
+    </div>
+  );
+};
+
+export default OrganisationSettings;
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronRight } from 'lucide-react';
 
-export type SettingsTabId = 'profile' | 'appearance' | 'notifications' | 'billing';
+export type SettingsTabId = 'profile' | 'appearance' | 'notifications' | 'currencies' | 'asset-tags' | 'email-templates' | 'follow-ups' | 'organisation' | 'billing';
 
 export interface SettingsTab {
   id: SettingsTabId;
@@ -64,7 +64,7 @@ const SettingsLayout: React.FC<SettingsLayoutProps> = ({
                         font-medium transition-all duration-200
                         ${
                           isActive
-                            ? 'bg-teal-600/80 text-white shadow-md'
+                            ? 'bg-teal-600/80 text-on-accent shadow-md'
                             : 'text-gray-200 hover:bg-white/10 hover:text-white'
                         }
                       `}
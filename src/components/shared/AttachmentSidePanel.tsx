@@ -11,6 +11,10 @@ interface AttachmentSidePanelProps {
   onUploadFiles?: (files: File[]) => void;
   uploadDisabled?: boolean;
   variant?: 'overlay' | 'inline';
+  /** Changes whenever the chat's realtime channel reports new attachments */
+  refreshKey?: number;
+  /** Poll every 8 seconds; disable when the parent chat has a live realtime channel */
+  pollingEnabled?: boolean;
 }
 
 const AttachmentSidePanel: React.FC<AttachmentSidePanelProps> = ({
@@ -19,7 +23,9 @@ const AttachmentSidePanel: React.FC<AttachmentSidePanelProps> = ({
   onClose,
   onUploadFiles,
   uploadDisabled = false,
-  variant = 'overlay'
+  variant = 'overlay',
+  refreshKey,
+  pollingEnabled = true
 }) => {
   const { token } = useParams<{ token?: string }>();
   const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
@@ -77,6 +83,16 @@ const AttachmentSidePanel: React.FC<AttachmentSidePanelProps> = ({
   useEffect(() => {
     if (!isOpen) return;
     fetchAttachments(true);
+  }, [fetchAttachments, isOpen]);
+
+  // Quiet refresh when the parent chat signals new attachments
+  useEffect(() => {
+    if (!isOpen || refreshKey === undefined || refreshKey === 0) return;
+    fetchAttachments(false);
+  }, [refreshKey, isOpen, fetchAttachments]);
+
+  useEffect(() => {
+    if (!isOpen || !pollingEnabled) return;
     pollingRef.current = setInterval(() => {
       fetchAttachments(false);
     }, 8000);
@@ -86,7 +102,7 @@ const AttachmentSidePanel: React.FC<AttachmentSidePanelProps> = ({
         clearInterval(pollingRef.current);
       }
     };
-  }, [fetchAttachments, isOpen]);
+  }, [fetchAttachments, isOpen, pollingEnabled]);
 
   const formatDate = (dateString: string) => {
     try {
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Wifi, WifiOff, Loader2 } from 'lucide-react';
+import type { ChatConnectionStatus } from '@/hooks/useQuoteChatRealtime';
+
+interface ChatPresenceIndicatorProps {
+  counterpartName: string;
+  connectionStatus: ChatConnectionStatus;
+  counterpartOnline: boolean;
+  counterpartTyping: boolean;
+}
+
+/**
+ * ChatPresenceIndicator - Connection and presence status for quote chat headers
+ * Shows whether the other party is online/typing and whether the chat is live or polling
+ */
+const ChatPresenceIndicator: React.FC<ChatPresenceIndicatorProps> = ({
+  counterpartName,
+  connectionStatus,
+  counterpartOnline,
+  counterpartTyping
+}) => {
+  return (
+    <div className="flex items-center gap-3 text-xs">
+      {connectionStatus === 'live' && (
+        <span className="flex items-center gap-1.5 text-gray-300">
+          <span
+            className={`w-2 h-2 rounded-full ${counterpartOnline ? 'bg-green-400' : 'bg-gray-500'}`}
+          />
+          {counterpartTyping
+            ? `${counterpartName} is typing...`
+            : counterpartOnline
+            ? `${counterpartName} is online`
+            : `${counterpartName} is offline`}
+        </span>
+      )}
+      <span
+        className={`flex items-center gap-1 px-2 py-0.5 rounded-full border ${
+          connectionStatus === 'live'
+            ? 'bg-green-500/10 border-green-500/30 text-green-300'
+            : connectionStatus === 'polling'
+            ? 'bg-amber-500/10 border-amber-500/30 text-amber-300'
+            : 'bg-white/5 border-white/20 text-gray-300'
+        }`}
+        title={connectionStatus === 'polling' ? 'Realtime connection lost. Checking for new messages periodically.' : undefined}
+      >
+        {connectionStatus === 'live' && <Wifi className="w-3 h-3" />}
+        {connectionStatus === 'polling' && <WifiOff className="w-3 h-3" />}
+        {connectionStatus === 'connecting' && <Loader2 className="w-3 h-3 animate-spin" />}
+        {connectionStatus === 'live' ? 'Live' : connectionStatus === 'polling' ? 'Reconnecting' : 'Connecting'}
+      </span>
+    </div>
+  );
+};
+
+export default ChatPresenceIndicator;
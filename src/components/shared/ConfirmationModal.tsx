@@ -89,10 +89,10 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
   // Render modal content via portal to document.body for viewport-centered positioning
   const modalContent = (
     <div 
-      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4"
+      className="fixed inset-0 z-50 flex items-center justify-center bg-ink bg-opacity-40 p-4"
       onClick={handleBackdropClick}
     >
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md overflow-hidden">
+      <div className="bg-paper rounded-lg shadow-xl w-full max-w-md overflow-hidden">
         {/* Header with close button */}
         <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
           <h3 className="text-xl font-bold text-gray-900">{title}</h3>
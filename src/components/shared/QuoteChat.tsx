@@ -2,8 +2,11 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { MessageCircle, Send, User, Loader2, Paperclip, X, FileText } from 'lucide-react';
 import { QuoteService, type Message } from '@/services/quoteService';
 import { useNotification } from '@/hooks/useNotification';
+import { useQuoteChatRealtime } from '@/hooks/useQuoteChatRealtime';
 import { createInitialRequestMessage, isInitialRequestMessage } from '@/utils/quoteRequestMessage';
+import SystemChatMessage from '@/components/shared/SystemChatMessage';
 import MessageAttachments from './MessageAttachments';
+import ChatPresenceIndicator from './ChatPresenceIndicator';
 
 interface QuoteChatProps {
   quoteId: string;
@@ -14,6 +17,8 @@ interface QuoteChatProps {
   onSelectedFilesChange?: (files: Array<{ file: File; key: string }>) => void;
   externalAttachmentNotes?: Record<string, string>;
   onAttachmentNotesChange?: (notes: Record<string, string>) => void;
+  /** Called when the realtime channel reports new attachments on this quote */
+  onAttachmentsChanged?: () => void;
 }
 
 /**
@@ -21,7 +26,7 @@ interface QuoteChatProps {
  * 
  * Features:
  * - Chat interface with message history
- * - Real-time message polling (every 8 seconds)
+ * - Realtime message updates with typing/presence indicators (polling fallback)
  * - Optimistic UI for message sending
  * - Auto-scroll to bottom
  * - Loading and error states
@@ -34,7 +39,8 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
   externalSelectedFiles,
   onSelectedFilesChange,
   externalAttachmentNotes,
-  onAttachmentNotesChange
+  onAttachmentNotesChange,
+  onAttachmentsChanged
 }) => {
   const { showSuccess, showError } = useNotification();
 
@@ -90,9 +96,6 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
     return `Attachment notes:\n${noteLines.join('\n')}`;
   }, [attachmentNotes, selectedFiles]);
 
-  // Polling interval ref
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
   // Scroll to bottom of messages
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -134,8 +137,8 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
     }
   }, [quoteId]);
 
-  // Poll for new messages
-  const pollMessages = useCallback(async () => {
+  // Refresh messages (triggered by realtime events or fallback polling)
+  const refreshMessages = useCallback(async () => {
     if (!quoteId) return;
 
     try {
@@ -152,18 +155,45 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
         
         // Only update if messages have changed (avoid unnecessary re-renders)
         // Compare without the synthetic message ID (which includes timestamp)
-        const currentMessagesWithoutSynthetic = messages.filter(m => !isInitialRequestMessage(m.id));
         const newMessagesWithoutSynthetic = newMessages.filter(m => !isInitialRequestMessage(m.id));
-        
-        if (JSON.stringify(newMessagesWithoutSynthetic) !== JSON.stringify(currentMessagesWithoutSynthetic)) {
-          setMessages(newMessages);
-        }
+        setMessages(prev => {
+          const currentMessagesWithoutSynthetic = prev.filter(m => !isInitialRequestMessage(m.id));
+          return JSON.stringify(newMessagesWithoutSynthetic) !== JSON.stringify(currentMessagesWithoutSynthetic)
+            ? newMessages
+            : prev;
+        });
       }
     } catch (err) {
-      console.error('Error polling messages:', err);
-      // Don't show error for polling failures - just log
+      console.error('Error refreshing messages:', err);
+      // Don't show error for background refresh failures - just log
     }
-  }, [quoteId, messages]);
+  }, [quoteId]);
+
+  const {
+    connectionStatus,
+    counterpartOnline,
+    counterpartTyping,
+    attachmentsVersion,
+    notifyTyping,
+    announceMessage
+  } = useQuoteChatRealtime({
+    quoteId,
+    participant: 'PRODUCER',
+    onRefresh: refreshMessages,
+    enabled: !loading && !error
+  });
+
+  // Let a sibling attachment panel refresh alongside the chat
+  const onAttachmentsChangedRef = useRef(onAttachmentsChanged);
+  useEffect(() => {
+    onAttachmentsChangedRef.current = onAttachmentsChanged;
+  }, [onAttachmentsChanged]);
+
+  useEffect(() => {
+    if (attachmentsVersion > 0) {
+      onAttachmentsChangedRef.current?.();
+    }
+  }, [attachmentsVersion]);
 
   // Send message
   const sendMessage = useCallback(async () => {
@@ -205,6 +235,7 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
       setMessages(prev => 
         prev.map(m => m.id === optimisticMessage.id ? response.data! : m)
       );
+      announceMessage({ hasAttachments: selectedFiles.length > 0 });
       
       setMessageInput('');
       updateSelectedFiles([]);
@@ -222,7 +253,7 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
         messageInputRef.current?.focus();
       }, 0);
     }
-  }, [quoteId, messageInput, selectedFiles, sendingMessage, scrollToBottom, showSuccess, showError, onMessageSent, buildAttachmentNotes, updateAttachmentNotes, updateSelectedFiles]);
+  }, [quoteId, messageInput, selectedFiles, sendingMessage, scrollToBottom, showSuccess, showError, onMessageSent, buildAttachmentNotes, updateAttachmentNotes, updateSelectedFiles, announceMessage]);
 
   // Handle Enter key in message input
   const handleMessageKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -275,19 +306,6 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
     loadMessages();
   }, [loadMessages]);
 
-  // Set up polling (every 8 seconds)
-  useEffect(() => {
-    if (!loading && !error) {
-      pollingIntervalRef.current = setInterval(pollMessages, 8000);
-    }
-
-    return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-      }
-    };
-  }, [loading, error, pollMessages]);
-
   // Scroll to bottom when messages change
   useEffect(() => {
     scrollToBottom();
@@ -297,14 +315,24 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
     <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-lg flex flex-col h-full min-h-0 shadow-lg">
       {/* Chat Header */}
       <div className="border-b border-white/20 p-4 bg-white/5">
-        <div className="flex items-center gap-3">
-          <MessageCircle className="w-5 h-5 text-purple-300" />
-          <div>
-            <h2 className="text-lg font-semibold text-white">Conversation</h2>
-            <p className="text-sm text-gray-300">
-              {supplierName} • {assetName}
-            </p>
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <MessageCircle className="w-5 h-5 text-purple-300" />
+            <div>
+              <h2 className="text-lg font-semibold text-white">Conversation</h2>
+              <p className="text-sm text-gray-300">
+                {supplierName} • {assetName}
+              </p>
+            </div>
           </div>
+          {!loading && !error && (
+            <ChatPresenceIndicator
+              counterpartName={supplierName}
+              connectionStatus={connectionStatus}
+              counterpartOnline={counterpartOnline}
+              counterpartTyping={counterpartTyping}
+            />
+          )}
         </div>
       </div>
 
@@ -336,6 +364,17 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
             </div>
           ) : (
             messages.map((message) => {
+              if (message.sender_type === 'SYSTEM') {
+                return (
+                  <SystemChatMessage
+                    key={message.id}
+                    id={message.id}
+                    content={message.content}
+                    timestamp={formatTime(message.created_at)}
+                  />
+                );
+              }
+
               const isProducer = message.sender_type === 'PRODUCER';
               const isInitialRequest = isInitialRequestMessage(message.id);
               
@@ -348,9 +387,9 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
                   <div
                     className={`max-w-[75%] rounded-lg p-3 ${
                       isInitialRequest
-                        ? 'bg-purple-600/80 border-2 border-purple-400 text-white'
+                        ? 'bg-purple-600/80 border-2 border-purple-400 text-on-accent'
                         : isProducer
-                        ? 'bg-blue-600 text-white'
+                        ? 'bg-blue-600 text-on-accent'
                         : 'bg-gray-700 text-gray-100'
                     }`}
                   >
@@ -467,7 +506,10 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
           <textarea
             ref={messageInputRef}
             value={messageInput}
-            onChange={(e) => setMessageInput(e.target.value)}
+            onChange={(e) => {
+              setMessageInput(e.target.value);
+              notifyTyping();
+            }}
             onKeyDown={handleMessageKeyDown}
             placeholder="Type your message..."
             className="flex-1 resize-none bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
@@ -477,7 +519,7 @@ const QuoteChat: React.FC<QuoteChatProps> = ({
           <button
             onClick={sendMessage}
             disabled={(!messageInput.trim() && selectedFiles.length === 0) || sendingMessage || loading}
-            className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+            className="px-6 py-2 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
           >
             {sendingMessage ? (
               <Loader2 className="h-4 w-4 animate-spin" />
@@ -44,6 +44,8 @@ const StatusSelect: React.FC<StatusSelectProps> = ({
         return 'bg-slate-500';
       case 'Quoting':
         return 'bg-amber-500';
+      case 'Reviewing':
+        return 'bg-orange-500';
       case 'Approved':
         return 'bg-green-500';
       case 'In Production':
@@ -59,6 +61,7 @@ const StatusSelect: React.FC<StatusSelectProps> = ({
   const statusOptions: AssetStatus[] = [
     'Pending',
     'Quoting',
+    'Reviewing',
     'Approved',
     'In Production',
     'Delivered'
@@ -68,7 +71,7 @@ const StatusSelect: React.FC<StatusSelectProps> = ({
   const baseClasses = `
     w-full px-3 py-2.5 
     border border-gray-300 rounded-lg 
-    bg-white text-gray-900
+    bg-paper text-gray-900
     focus:ring-2 focus:ring-purple-500 focus:border-transparent
     transition-all duration-200
     ${disabled ? 'opacity-60 cursor-not-allowed bg-gray-50' : 'cursor-pointer hover:border-gray-400'}
@@ -0,0 +1,27 @@
+import React from 'react';
+import { BellRing } from 'lucide-react';
+
+interface SystemChatMessageProps {
+  id: string;
+  content: string;
+  timestamp: string;
+}
+
+/**
+ * SystemChatMessage - Centered note for automated chat entries (e.g. follow-up reminders)
+ * Rendered the same way in the producer chat and the supplier portal
+ */
+const SystemChatMessage: React.FC<SystemChatMessageProps> = ({ id, content, timestamp }) => (
+  <div id={`msg-${id}`} className="flex justify-center">
+    <div className="max-w-[85%] rounded-lg px-3 py-2 bg-amber-500/10 border border-amber-400/30 text-amber-100">
+      <div className="flex items-center gap-2 mb-1 text-xs text-amber-200">
+        <BellRing className="h-3.5 w-3.5" />
+        <span className="font-medium">Automatic reminder</span>
+        <span className="text-amber-200/70">{timestamp}</span>
+      </div>
+      <p className="text-xs whitespace-pre-wrap">{content}</p>
+    </div>
+  </div>
+);
+
+export default SystemChatMessage;
@@ -158,7 +158,7 @@ const QuoteSubmission: React.FC = () => {
   if (!quote || !asset || !supplier) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <div className="bg-white rounded-lg shadow-lg p-8 max-w-md w-full text-center">
+        <div className="bg-paper rounded-lg shadow-lg p-8 max-w-md w-full text-center">
           <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Quote Not Found</h2>
           <p className="text-gray-600">
@@ -172,7 +172,7 @@ const QuoteSubmission: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
-      <div className="bg-orange-600 text-white shadow-lg">
+      <div className="bg-orange-600 text-on-accent shadow-lg">
         <div className="max-w-4xl mx-auto px-4 py-6">
           <div 
             className="flex items-center space-x-3 cursor-pointer hover:opacity-80 transition-opacity"
@@ -191,7 +191,7 @@ const QuoteSubmission: React.FC = () => {
       <div className="max-w-4xl mx-auto px-4 py-8">
         {submitted ? (
           // Success State
-          <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <div className="bg-paper rounded-lg shadow-lg p-8 text-center">
             <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-6" />
             <h2 className="text-2xl font-bold text-gray-900 mb-4">Quote Submitted Successfully!</h2>
             <p className="text-gray-600 mb-6">
@@ -212,7 +212,7 @@ const QuoteSubmission: React.FC = () => {
           // Quote Form
           <div className="space-y-6">
             {/* Project Information */}
-            <div className="bg-white rounded-lg shadow p-6">
+            <div className="bg-paper rounded-lg shadow p-6">
               <div className="flex items-center space-x-3 mb-4">
                 <Building2 className="h-6 w-6 text-orange-600" />
                 <h2 className="text-xl font-semibold">Project Information</h2>
@@ -242,7 +242,7 @@ const QuoteSubmission: React.FC = () => {
             </div>
 
             {/* Asset Requirements */}
-            <div className="bg-white rounded-lg shadow p-6">
+            <div className="bg-paper rounded-lg shadow p-6">
               <div className="flex items-center space-x-3 mb-4">
                 <Package className="h-6 w-6 text-orange-600" />
                 <h2 className="text-xl font-semibold">Asset Requirements</h2>
@@ -267,7 +267,7 @@ const QuoteSubmission: React.FC = () => {
             </div>
 
             {/* Quote Submission Form */}
-            <div className="bg-white rounded-lg shadow p-6">
+            <div className="bg-paper rounded-lg shadow p-6">
               <div className="flex items-center space-x-3 mb-6">
                 <DollarSign className="h-6 w-6 text-orange-600" />
                 <h2 className="text-xl font-semibold">Submit Your Quote</h2>
@@ -337,7 +337,7 @@ const QuoteSubmission: React.FC = () => {
                   <button
                     type="submit"
                     disabled={submitting || formData.cost <= 0 || !ownershipValidated}
-                    className="flex items-center space-x-2 px-8 py-3 bg-orange-600 text-white rounded-lg font-medium hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    className="flex items-center space-x-2 px-8 py-3 bg-orange-600 text-on-accent rounded-lg font-medium hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   >
                     <Send className="h-4 w-4" />
                     <span>{submitting ? 'Submitting...' : 'Submit Quote'}</span>
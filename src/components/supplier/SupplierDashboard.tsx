@@ -44,7 +44,7 @@ const SupplierDashboard: React.FC<SupplierDashboardProps> = ({
         </div>
       </div>
 
-      <div className="bg-white rounded-lg shadow">
+      <div className="bg-paper rounded-lg shadow">
         {quotes.length === 0 ? (
           <div className="p-12 text-center">
             <Eye className="h-12 w-12 text-gray-400 mx-auto mb-4" />
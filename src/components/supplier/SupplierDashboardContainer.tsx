@@ -222,7 +222,7 @@ const SupplierDashboardContainer: React.FC = () => {
           <p className="text-gray-600 mb-4">{error}</p>
           <button
             onClick={refreshQuotes}
-            className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+            className="px-4 py-2 bg-orange-600 text-on-accent rounded-lg hover:bg-orange-700 transition-colors"
           >
             Try Again
           </button>
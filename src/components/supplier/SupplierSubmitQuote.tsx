@@ -168,7 +168,7 @@ const SupplierSubmitQuote: React.FC = () => {
 
   return (
     <div className="max-w-3xl mx-auto">
-      <div className="bg-white rounded-lg shadow p-8">
+      <div className="bg-paper rounded-lg shadow p-8">
         <div className="flex items-center space-x-3 mb-6">
           <FileText className="h-6 w-6 text-orange-600" />
           <h1 className="text-2xl font-bold text-gray-900">Submit Quote</h1>
@@ -302,7 +302,7 @@ const SupplierSubmitQuote: React.FC = () => {
                 !impersonatedSupplier ||
                 assets.length === 0
               }
-              className="flex items-center space-x-2 px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              className="flex items-center space-x-2 px-6 py-3 bg-orange-600 text-on-accent rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {submitting ? (
                 <>
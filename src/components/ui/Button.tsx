@@ -71,17 +71,17 @@ const Button: React.FC<ButtonProps> = ({
   const getVariantStyles = () => {
     switch (variant) {
       case 'primary':
-        return 'bg-purple-600 text-white hover:bg-purple-700 focus:ring-purple-500 shadow-sm';
+        return 'bg-purple-600 text-on-accent hover:bg-purple-700 focus:ring-purple-500 shadow-sm';
       case 'secondary':
         return 'bg-purple-100 text-purple-700 hover:bg-purple-200 focus:ring-purple-500';
       case 'outline':
-        return 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 focus:ring-purple-500';
+        return 'bg-paper border border-gray-300 text-gray-700 hover:bg-gray-50 focus:ring-purple-500';
       case 'ghost':
         return 'bg-transparent text-gray-700 hover:bg-gray-100 focus:ring-purple-500';
       case 'teal':
         return 'bg-teal-100 text-teal-700 hover:bg-teal-200 focus:ring-teal-500';
       default:
-        return 'bg-purple-600 text-white hover:bg-purple-700 focus:ring-purple-500 shadow-sm';
+        return 'bg-purple-600 text-on-accent hover:bg-purple-700 focus:ring-purple-500 shadow-sm';
     }
   };
 
@@ -0,0 +1,100 @@
+import React, { createContext, useContext, useState, useEffect, useLayoutEffect, useCallback, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppearanceService } from '@/services/appearanceService';
+import {
+  DEFAULT_APPEARANCE,
+  applyAppearance,
+  cacheAppearance,
+  normalizeAppearance,
+  readCachedAppearance
+} from '@/utils/appearance';
+import type { AppearanceSettings } from '@/types/database';
+
+interface AppearanceContextType {
+  // State
+  /** Settings currently applied to the app */
+  appearance: AppearanceSettings;
+  loading: boolean;
+
+  // Actions
+  /** Apply a change immediately and save it for the signed-in user */
+  updateAppearance: (changes: Partial<AppearanceSettings>) => Promise<void>;
+}
+
+const AppearanceContext = createContext<AppearanceContextType | undefined>(undefined);
+
+interface AppearanceProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Applies the user's theme, density and text size app-wide via data
+ * attributes on <html>. Starts from the locally cached settings so there is
+ * no flash of the wrong theme, then loads the signed-in user's saved ones.
+ */
+export const AppearanceProvider: React.FC<AppearanceProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [appearance, setAppearance] = useState<AppearanceSettings>(readCachedAppearance);
+  const [loading, setLoading] = useState(false);
+
+  useLayoutEffect(() => {
+    applyAppearance(appearance);
+    cacheAppearance(appearance);
+  }, [appearance]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    setLoading(true);
+    AppearanceService.getSettings()
+      .then((saved) => {
+        if (!cancelled) setAppearance(saved ? normalizeAppearance(saved) : DEFAULT_APPEARANCE);
+      })
+      .catch((err) => {
+        console.warn('Could not load appearance settings, keeping current ones:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const updateAppearance = useCallback(async (changes: Partial<AppearanceSettings>) => {
+    const previous = appearance;
+    const next = { ...appearance, ...changes };
+    setAppearance(next);
+
+    if (!user) return;
+
+    try {
+      await AppearanceService.saveSettings(next);
+    } catch (err) {
+      setAppearance(previous);
+      throw err;
+    }
+  }, [appearance, user]);
+
+  const value: AppearanceContextType = {
+    appearance,
+    loading,
+    updateAppearance,
+  };
+
+  return (
+    <AppearanceContext.Provider value={value}>
+      {children}
+    </AppearanceContext.Provider>
+  );
+};
+
+export const useAppearance = (): AppearanceContextType => {
+  const context = useContext(AppearanceContext);
+  if (context === undefined) {
+    throw new Error('useAppearance must be used within an AppearanceProvider');
+  }
+  return context;
+};
@@ -0,0 +1,92 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { AssetTagTaxonomyService } from '@/services/assetTagTaxonomyService';
+import { DEFAULT_ASSET_TAGS, setAssetTagTaxonomy, type AssetTag } from '@/utils/assetTags';
+import type { AssetTagDefinition } from '@/types/database';
+
+interface AssetTagTaxonomyContextType {
+  // State
+  /** Active taxonomy: the producer's tags, or the defaults until they load */
+  tags: AssetTag[];
+  /** The producer's stored tags (empty when signed out or not a producer) */
+  definitions: AssetTagDefinition[];
+  loading: boolean;
+
+  // Actions
+  refreshTags: () => Promise<void>;
+}
+
+const AssetTagTaxonomyContext = createContext<AssetTagTaxonomyContextType | undefined>(undefined);
+
+interface AssetTagTaxonomyProviderProps {
+  children: ReactNode;
+}
+
+const toAssetTag = ({ name, color, description, supplier_categories, aliases }: AssetTagDefinition): AssetTag => ({
+  name,
+  color,
+  description,
+  supplier_categories,
+  aliases
+});
+
+/**
+ * Loads the signed-in producer's asset tag taxonomy and makes it the one
+ * used by the tag helpers in utils/assetTags
+ */
+export const AssetTagTaxonomyProvider: React.FC<AssetTagTaxonomyProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [definitions, setDefinitions] = useState<AssetTagDefinition[]>([]);
+  const [tags, setTags] = useState<AssetTag[]>(DEFAULT_ASSET_TAGS);
+  const [loading, setLoading] = useState(false);
+
+  const applyDefinitions = (next: AssetTagDefinition[]) => {
+    const nextTags = next.map(toAssetTag);
+    setAssetTagTaxonomy(nextTags);
+    setDefinitions(next);
+    setTags(nextTags.length > 0 ? nextTags : DEFAULT_ASSET_TAGS);
+  };
+
+  const refreshTags = useCallback(async () => {
+    if (!user) {
+      applyDefinitions([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      applyDefinitions(await AssetTagTaxonomyService.getOrSeedTags());
+    } catch (err) {
+      // Clients and suppliers have no taxonomy of their own; they see the defaults
+      console.warn('Could not load asset tags, using defaults:', err);
+      applyDefinitions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshTags();
+  }, [refreshTags]);
+
+  const value: AssetTagTaxonomyContextType = {
+    tags,
+    definitions,
+    loading,
+    refreshTags,
+  };
+
+  return (
+    <AssetTagTaxonomyContext.Provider value={value}>
+      {children}
+    </AssetTagTaxonomyContext.Provider>
+  );
+};
+
+export const useAssetTagTaxonomy = (): AssetTagTaxonomyContextType => {
+  const context = useContext(AssetTagTaxonomyContext);
+  if (context === undefined) {
+    throw new Error('useAssetTagTaxonomy must be used within an AssetTagTaxonomyProvider');
+  }
+  return context;
+};
@@ -0,0 +1,115 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getSupabase } from '@/lib/supabase';
+import { InboxService } from '@/services/inboxService';
+
+interface InboxContextType {
+  // State
+  /** Unread supplier messages across the producer's quotes */
+  unreadCount: number;
+
+  // Actions
+  refreshUnreadCount: () => Promise<void>;
+  /** Mark a quote conversation read and update the count */
+  markConversationRead: (quoteId: string) => Promise<void>;
+}
+
+const InboxContext = createContext<InboxContextType | undefined>(undefined);
+
+interface InboxProviderProps {
+  children: ReactNode;
+}
+
+// Fallback for when the realtime channel misses an insert
+const UNREAD_POLL_INTERVAL_MS = 60000;
+
+/**
+ * Keeps the signed-in producer's unread message count up to date for the
+ * header badge and the inbox
+ */
+export const InboxProvider: React.FC<InboxProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!user) {
+      setUnreadCount(0);
+      return;
+    }
+
+    try {
+      setUnreadCount(await InboxService.getUnreadCount());
+    } catch (err) {
+      console.warn('Could not load unread message count:', err);
+    }
+  }, [user]);
+
+  const markConversationRead = useCallback(async (quoteId: string) => {
+    try {
+      const updated = await InboxService.markConversationRead(quoteId);
+      if (updated > 0) {
+        await refreshUnreadCount();
+      }
+    } catch (err) {
+      console.error('Failed to mark conversation as read:', err);
+    }
+  }, [refreshUnreadCount]);
+
+  useEffect(() => {
+    refreshUnreadCount();
+    if (!user) return;
+
+    const interval = setInterval(refreshUnreadCount, UNREAD_POLL_INTERVAL_MS);
+    let cancelled = false;
+    let cleanupChannel: (() => void) | null = null;
+
+    getSupabase()
+      .then((supabase) => {
+        if (cancelled) return;
+        const channel = supabase
+          .channel(`inbox-unread:${user.id}`)
+          .on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'messages' },
+            (payload) => {
+              // Only supplier replies count as unread
+              if ((payload.new as { sender_type?: string })?.sender_type !== 'SUPPLIER') return;
+              refreshUnreadCount();
+            }
+          )
+          .subscribe();
+        cleanupChannel = () => {
+          supabase.removeChannel(channel);
+        };
+      })
+      .catch((err) => {
+        console.error('Failed to subscribe to new messages:', err);
+      });
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      cleanupChannel?.();
+    };
+  }, [user, refreshUnreadCount]);
+
+  const value: InboxContextType = {
+    unreadCount,
+    refreshUnreadCount,
+    markConversationRead,
+  };
+
+  return (
+    <InboxContext.Provider value={value}>
+      {children}
+    </InboxContext.Provider>
+  );
+};
+
+export const useInbox = (): InboxContextType => {
+  const context = useContext(InboxContext);
+  if (context === undefined) {
+    throw new Error('useInbox must be used within an InboxProvider');
+  }
+  return context;
+};
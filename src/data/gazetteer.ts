@@ -0,0 +1,130 @@
+/**
+ * Bundled gazetteer for matching project venues to the areas suppliers serve
+ * Kept in the app so matching works offline and without a geocoding service.
+ * Coordinates are city centres, accurate enough for travel-radius checks.
+ */
+
+export interface GazetteerPlace {
+  name: string;
+  region: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+}
+
+export interface GazetteerArea {
+  name: string;
+  aliases?: string[];
+}
+
+export interface GazetteerRegion extends GazetteerArea {
+  country: string;
+}
+
+export const GAZETTEER_COUNTRIES: GazetteerArea[] = [
+  { name: 'South Africa', aliases: ['SA', 'RSA', 'ZA'] },
+  { name: 'Namibia', aliases: ['NA'] },
+  { name: 'Botswana', aliases: ['BW'] },
+  { name: 'Mozambique', aliases: ['MZ'] },
+  { name: 'Lesotho', aliases: ['LS'] },
+  { name: 'Eswatini', aliases: ['Swaziland', 'SZ'] }
+];
+
+export const GAZETTEER_REGIONS: GazetteerRegion[] = [
+  { name: 'Western Cape', country: 'South Africa', aliases: ['WC'] },
+  { name: 'Gauteng', country: 'South Africa', aliases: ['GP', 'GT'] },
+  { name: 'KwaZulu-Natal', country: 'South Africa', aliases: ['KZN'] },
+  { name: 'Eastern Cape', country: 'South Africa', aliases: ['EC'] },
+  { name: 'Free State', country: 'South Africa', aliases: ['FS'] },
+  { name: 'Limpopo', country: 'South Africa', aliases: ['LP'] },
+  { name: 'Mpumalanga', country: 'South Africa', aliases: ['MP'] },
+  { name: 'North West', country: 'South Africa', aliases: ['NW'] },
+  { name: 'Northern Cape', country: 'South Africa', aliases: ['NC'] },
+  { name: 'Khomas', country: 'Namibia' },
+  { name: 'South-East', country: 'Botswana' },
+  { name: 'Maputo City', country: 'Mozambique' },
+  { name: 'Maseru', country: 'Lesotho' },
+  { name: 'Hhohho', country: 'Eswatini' }
+];
+
+export const GAZETTEER_PLACES: GazetteerPlace[] = [
+  // Western Cape
+  { name: 'Cape Town', region: 'Western Cape', country: 'South Africa', latitude: -33.9249, longitude: 18.4241, aliases: ['CPT', 'Kaapstad'] },
+  { name: 'Stellenbosch', region: 'Western Cape', country: 'South Africa', latitude: -33.9321, longitude: 18.8602 },
+  { name: 'Paarl', region: 'Western Cape', country: 'South Africa', latitude: -33.7342, longitude: 18.9621 },
+  { name: 'Franschhoek', region: 'Western Cape', country: 'South Africa', latitude: -33.9133, longitude: 19.1169 },
+  { name: 'Somerset West', region: 'Western Cape', country: 'South Africa', latitude: -34.0757, longitude: 18.8433 },
+  { name: 'Hermanus', region: 'Western Cape', country: 'South Africa', latitude: -34.4187, longitude: 19.2345 },
+  { name: 'Worcester', region: 'Western Cape', country: 'South Africa', latitude: -33.6465, longitude: 19.4485 },
+  { name: 'Saldanha', region: 'Western Cape', country: 'South Africa', latitude: -33.0117, longitude: 17.9442 },
+  { name: 'George', region: 'Western Cape', country: 'South Africa', latitude: -33.9630, longitude: 22.4617 },
+  { name: 'Mossel Bay', region: 'Western Cape', country: 'South Africa', latitude: -34.1831, longitude: 22.1460 },
+  { name: 'Knysna', region: 'Western Cape', country: 'South Africa', latitude: -34.0363, longitude: 23.0471 },
+  { name: 'Plettenberg Bay', region: 'Western Cape', country: 'South Africa', latitude: -34.0527, longitude: 23.3716, aliases: ['Plett'] },
+
+  // Gauteng
+  { name: 'Johannesburg', region: 'Gauteng', country: 'South Africa', latitude: -26.2041, longitude: 28.0473, aliases: ['JHB', 'Joburg', 'Jozi'] },
+  { name: 'Sandton', region: 'Gauteng', country: 'South Africa', latitude: -26.1076, longitude: 28.0567 },
+  { name: 'Randburg', region: 'Gauteng', country: 'South Africa', latitude: -26.0936, longitude: 28.0064 },
+  { name: 'Roodepoort', region: 'Gauteng', country: 'South Africa', latitude: -26.1625, longitude: 27.8725 },
+  { name: 'Soweto', region: 'Gauteng', country: 'South Africa', latitude: -26.2485, longitude: 27.8540 },
+  { name: 'Midrand', region: 'Gauteng', country: 'South Africa', latitude: -25.9992, longitude: 28.1262 },
+  { name: 'Centurion', region: 'Gauteng', country: 'South Africa', latitude: -25.8603, longitude: 28.1894 },
+  { name: 'Pretoria', region: 'Gauteng', country: 'South Africa', latitude: -25.7479, longitude: 28.2293, aliases: ['PTA', 'Tshwane'] },
+  { name: 'Kempton Park', region: 'Gauteng', country: 'South Africa', latitude: -26.1000, longitude: 28.2333 },
+  { name: 'Germiston', region: 'Gauteng', country: 'South Africa', latitude: -26.2178, longitude: 28.1672 },
+  { name: 'Boksburg', region: 'Gauteng', country: 'South Africa', latitude: -26.2125, longitude: 28.2625 },
+  { name: 'Benoni', region: 'Gauteng', country: 'South Africa', latitude: -26.1885, longitude: 28.3208 },
+  { name: 'Krugersdorp', region: 'Gauteng', country: 'South Africa', latitude: -26.0854, longitude: 27.7749 },
+  { name: 'Vereeniging', region: 'Gauteng', country: 'South Africa', latitude: -26.6731, longitude: 27.9261 },
+
+  // KwaZulu-Natal
+  { name: 'Durban', region: 'KwaZulu-Natal', country: 'South Africa', latitude: -29.8587, longitude: 31.0218, aliases: ['DBN', 'eThekwini'] },
+  { name: 'Umhlanga', region: 'KwaZulu-Natal', country: 'South Africa', latitude: -29.7277, longitude: 31.0820, aliases: ['Umhlanga Rocks'] },
+  { name: 'Ballito', region: 'KwaZulu-Natal', country: 'South Africa', latitude: -29.5389, longitude: 31.2144 },
+  { name: 'Pietermaritzburg', region: 'KwaZulu-Natal', country: 'South Africa', latitude: -29.6006, longitude: 30.3794, aliases: ['PMB'] },
+  { name: 'Richards Bay', region: 'KwaZulu-Natal', country: 'South Africa', latitude: -28.7807, longitude: 32.0383 },
+  { name: 'Newcastle', region: 'KwaZulu-Natal', country: 'South Africa', latitude: -27.7580, longitude: 29.9318 },
+
+  // Eastern Cape
+  { name: 'Gqeberha', region: 'Eastern Cape', country: 'South Africa', latitude: -33.9608, longitude: 25.6022, aliases: ['Port Elizabeth', 'PE'] },
+  { name: 'East London', region: 'Eastern Cape', country: 'South Africa', latitude: -33.0153, longitude: 27.9116 },
+  { name: 'Makhanda', region: 'Eastern Cape', country: 'South Africa', latitude: -33.3042, longitude: 26.5328, aliases: ['Grahamstown'] },
+  { name: 'Mthatha', region: 'Eastern Cape', country: 'South Africa', latitude: -31.5889, longitude: 28.7844 },
+
+  // Free State
+  { name: 'Bloemfontein', region: 'Free State', country: 'South Africa', latitude: -29.0852, longitude: 26.1596, aliases: ['Bloem', 'Mangaung'] },
+  { name: 'Welkom', region: 'Free State', country: 'South Africa', latitude: -27.9774, longitude: 26.7351 },
+
+  // Limpopo
+  { name: 'Polokwane', region: 'Limpopo', country: 'South Africa', latitude: -23.9045, longitude: 29.4689 },
+  { name: 'Tzaneen', region: 'Limpopo', country: 'South Africa', latitude: -23.8332, longitude: 30.1635 },
+
+  // Mpumalanga
+  { name: 'Mbombela', region: 'Mpumalanga', country: 'South Africa', latitude: -25.4753, longitude: 30.9694, aliases: ['Nelspruit'] },
+  { name: 'White River', region: 'Mpumalanga', country: 'South Africa', latitude: -25.3319, longitude: 31.0112 },
+  { name: 'Emalahleni', region: 'Mpumalanga', country: 'South Africa', latitude: -25.8713, longitude: 29.2332, aliases: ['Witbank'] },
+
+  // North West
+  { name: 'Rustenburg', region: 'North West', country: 'South Africa', latitude: -25.6676, longitude: 27.2421 },
+  { name: 'Sun City', region: 'North West', country: 'South Africa', latitude: -25.3346, longitude: 27.0928 },
+  { name: 'Potchefstroom', region: 'North West', country: 'South Africa', latitude: -26.7145, longitude: 27.0970 },
+  { name: 'Mahikeng', region: 'North West', country: 'South Africa', latitude: -25.8560, longitude: 25.6403, aliases: ['Mafikeng'] },
+
+  // Northern Cape
+  { name: 'Kimberley', region: 'Northern Cape', country: 'South Africa', latitude: -28.7282, longitude: 24.7499 },
+  { name: 'Upington', region: 'Northern Cape', country: 'South Africa', latitude: -28.4478, longitude: 21.2561 },
+
+  // Neighbouring capitals
+  { name: 'Windhoek', region: 'Khomas', country: 'Namibia', latitude: -22.5609, longitude: 17.0658 },
+  { name: 'Gaborone', region: 'South-East', country: 'Botswana', latitude: -24.6282, longitude: 25.9231 },
+  { name: 'Maputo', region: 'Maputo City', country: 'Mozambique', latitude: -25.9692, longitude: 32.5732 },
+  { name: 'Maseru', region: 'Maseru', country: 'Lesotho', latitude: -29.3151, longitude: 27.4869 },
+  { name: 'Mbabane', region: 'Hhohho', country: 'Eswatini', latitude: -26.3054, longitude: 31.1367 }
+];
+
+/**
+ * Entries in cities_served that mean a supplier works anywhere
+ */
+export const NATIONWIDE_AREA_NAMES = ['Nationwide', 'National', 'All regions'];
@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+
+/**
+ * Custom hook to toggle the command palette with Cmd+K (macOS) or Ctrl+K
+ *
+ * @param onToggle - Function to call when the shortcut is pressed
+ * @param disabled - Optional flag to disable the shortcut
+ */
+export const useCommandPaletteShortcut = (
+  onToggle: () => void,
+  disabled: boolean = false
+) => {
+  useEffect(() => {
+    if (disabled) return;
+
+    const handleShortcut = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && !event.altKey && event.key.toLowerCase() === 'k') {
+        // Stop the browser focusing its own search bar
+        event.preventDefault();
+        onToggle();
+      }
+    };
+
+    document.addEventListener('keydown', handleShortcut);
+
+    return () => {
+      document.removeEventListener('keydown', handleShortcut);
+    };
+  }, [onToggle, disabled]);
+};
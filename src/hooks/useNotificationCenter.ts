@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getSupabase } from '@/lib/supabase';
+import { NotificationCenterService } from '@/services/notificationCenterService';
+import type { ProducerNotification } from '@/types/database';
+
+// Fallback for when the realtime channel misses a change
+const POLL_INTERVAL_MS = 60000;
+
+/**
+ * Custom hook for the producer's stored notification feed
+ *
+ * Loads the recent notifications and unread count, keeps them current via a
+ * realtime subscription on the producer's notifications (with a slow polling
+ * fallback), and marks notifications read.
+ *
+ * @param enabled - Set to false for signed-out users and non-producer pages
+ */
+export const useNotificationCenter = (enabled: boolean = true) => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<ProducerNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const active = enabled && !!user;
+
+  const refresh = useCallback(async () => {
+    if (!active) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [latest, count] = await Promise.all([
+        NotificationCenterService.getNotifications(),
+        NotificationCenterService.getUnreadCount()
+      ]);
+      setNotifications(latest);
+      setUnreadCount(count);
+    } catch (err) {
+      console.warn('Could not load notifications:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [active]);
+
+  useEffect(() => {
+    refresh();
+    if (!active || !user) return;
+
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    let cancelled = false;
+    let cleanupChannel: (() => void) | null = null;
+
+    getSupabase()
+      .then((supabase) => {
+        if (cancelled) return;
+        const channel = supabase
+          .channel(`notifications:${user.id}`)
+          .on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table: 'notifications', filter: `producer_id=eq.${user.id}` },
+            () => refresh()
+          )
+          .subscribe();
+        cleanupChannel = () => {
+          supabase.removeChannel(channel);
+        };
+      })
+      .catch((err) => {
+        console.error('Failed to subscribe to notifications:', err);
+      });
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      cleanupChannel?.();
+    };
+  }, [active, user, refresh]);
+
+  const markRead = useCallback(async (notificationId: string) => {
+    const target = notifications.find(notification => notification.id === notificationId);
+    if (!target || target.read_at) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(notification =>
+      notification.id === notificationId ? { ...notification, read_at: readAt } : notification
+    ));
+    setUnreadCount(prev => Math.max(prev - 1, 0));
+
+    try {
+      await NotificationCenterService.markRead(notificationId);
+    } catch (err) {
+      console.error('Failed to mark notification as read:', err);
+      refresh();
+    }
+  }, [notifications, refresh]);
+
+  const markAllRead = useCallback(async () => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(notification =>
+      notification.read_at ? notification : { ...notification, read_at: readAt }
+    ));
+    setUnreadCount(0);
+
+    try {
+      await NotificationCenterService.markAllRead();
+    } catch (err) {
+      console.error('Failed to mark notifications as read:', err);
+      refresh();
+    }
+  }, [refresh]);
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    refresh,
+    markRead,
+    markAllRead
+  };
+};
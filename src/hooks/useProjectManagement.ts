@@ -107,6 +107,7 @@ export const useProjectManagement = (): UseProjectManagementReturn => {
       brief_description: currentProject.brief_description || '',
       physical_parameters: currentProject.physical_parameters || '',
       financial_parameters: currentProject.financial_parameters,
+      base_currency: currentProject.base_currency,
       timeline_deadline: currentProject.timeline_deadline || '',
       event_date: currentProject.event_date || ''
     });
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { getSupabase } from '@/lib/supabase';
+
+export type ChatParticipant = 'PRODUCER' | 'SUPPLIER';
+
+/**
+ * 'connecting' - channel is being opened
+ * 'live'       - realtime channel subscribed; no polling
+ * 'polling'    - socket dropped or unavailable; falling back to interval polling
+ */
+export type ChatConnectionStatus = 'connecting' | 'live' | 'polling';
+
+interface UseQuoteChatRealtimeOptions {
+  quoteId: string | null | undefined;
+  participant: ChatParticipant;
+  /** Re-fetch messages from the API. Called on remote changes and on every fallback poll. */
+  onRefresh: () => void | Promise<void>;
+  /** Set to false while the initial load is still running or has failed */
+  enabled?: boolean;
+  /** Fallback poll interval in milliseconds (default: 8000ms) */
+  pollInterval?: number;
+}
+
+interface UseQuoteChatRealtimeResult {
+  connectionStatus: ChatConnectionStatus;
+  counterpartOnline: boolean;
+  counterpartTyping: boolean;
+  /** Increments whenever the other side may have added attachments */
+  attachmentsVersion: number;
+  /** Call on every keystroke in the message input; throttled internally */
+  notifyTyping: () => void;
+  /** Tell the other side a message was persisted so it can refresh immediately */
+  announceMessage: (options?: { hasAttachments?: boolean }) => void;
+}
+
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_EXPIRY_MS = 4000;
+
+/**
+ * Shared realtime layer for producer and supplier quote chats
+ *
+ * Opens one Supabase channel per quote carrying:
+ * - broadcast 'message' / 'typing' events between the two chat surfaces
+ * - presence so each side can see whether the other is viewing the chat
+ * - postgres_changes on messages and message_attachments (delivered to producers via RLS)
+ *
+ * Messages themselves are still loaded through the API via `onRefresh`, so
+ * anonymous portal sessions keep going through the Railway backend. When the
+ * channel errors, times out or closes, the hook polls `onRefresh` instead.
+ *
+ * @example
+ * const { connectionStatus, counterpartTyping, notifyTyping, announceMessage } =
+ *   useQuoteChatRealtime({ quoteId, participant: 'PRODUCER', onRefresh: refreshMessages });
+ */
+export const useQuoteChatRealtime = ({
+  quoteId,
+  participant,
+  onRefresh,
+  enabled = true,
+  pollInterval = 8000
+}: UseQuoteChatRealtimeOptions): UseQuoteChatRealtimeResult => {
+  const [connectionStatus, setConnectionStatus] = useState<ChatConnectionStatus>('connecting');
+  const [counterpartOnline, setCounterpartOnline] = useState(false);
+  const [counterpartTyping, setCounterpartTyping] = useState(false);
+  const [attachmentsVersion, setAttachmentsVersion] = useState(0);
+
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const pollingRef = useRef<NodeJS.Timeout | null>(null);
+  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const lastTypingSentRef = useRef(0);
+  // Store the latest refresh callback in a ref so the channel isn't rebuilt on every render
+  const onRefreshRef = useRef(onRefresh);
+
+  useEffect(() => {
+    onRefreshRef.current = onRefresh;
+  }, [onRefresh]);
+
+  const refresh = useCallback(() => {
+    Promise.resolve(onRefreshRef.current()).catch((err) => {
+      console.error('Error refreshing chat messages:', err);
+    });
+  }, []);
+
+  const stopPolling = useCallback(() => {
+    if (pollingRef.current) {
+      clearInterval(pollingRef.current);
+      pollingRef.current = null;
+    }
+  }, []);
+
+  const startPolling = useCallback(() => {
+    if (pollingRef.current) return;
+    pollingRef.current = setInterval(() => {
+      refresh();
+      setAttachmentsVersion(v => v + 1);
+    }, pollInterval);
+  }, [pollInterval, refresh]);
+
+  useEffect(() => {
+    if (!quoteId || !enabled) return;
+
+    let cancelled = false;
+    let hasSubscribed = false;
+    const counterpart: ChatParticipant = participant === 'PRODUCER' ? 'SUPPLIER' : 'PRODUCER';
+
+    const handleRemoteChange = (hasAttachments: boolean) => {
+      refresh();
+      if (hasAttachments) {
+        setAttachmentsVersion(v => v + 1);
+      }
+    };
+
+    const setupChannel = async () => {
+      try {
+        const supabase = await getSupabase();
+        if (cancelled) return;
+
+        const channel = supabase
+          .channel(`quote-chat:${quoteId}`, {
+            config: {
+              broadcast: { self: false },
+              presence: { key: participant }
+            }
+          })
+          .on('broadcast', { event: 'message' }, ({ payload }) => {
+            setCounterpartTyping(false);
+            handleRemoteChange(Boolean(payload?.hasAttachments));
+          })
+          .on('broadcast', { event: 'typing' }, ({ payload }) => {
+            if (payload?.participant !== counterpart) return;
+            setCounterpartTyping(true);
+            if (typingTimeoutRef.current) {
+              clearTimeout(typingTimeoutRef.current);
+            }
+            typingTimeoutRef.current = setTimeout(() => setCounterpartTyping(false), TYPING_EXPIRY_MS);
+          })
+          .on('presence', { event: 'sync' }, () => {
+            const state = channel.presenceState();
+            setCounterpartOnline(Array.isArray(state[counterpart]) && state[counterpart].length > 0);
+          })
+          .on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'messages', filter: `quote_id=eq.${quoteId}` },
+            (payload) => {
+              // Our own sends are already in local state
+              if ((payload.new as { sender_type?: string })?.sender_type === participant) return;
+              handleRemoteChange(false);
+            }
+          )
+          .on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'message_attachments', filter: `quote_id=eq.${quoteId}` },
+            () => handleRemoteChange(true)
+          )
+          .subscribe(async (status) => {
+            if (cancelled) return;
+
+            if (status === 'SUBSCRIBED') {
+              stopPolling();
+              setConnectionStatus('live');
+              await channel.track({ participant, online_at: new Date().toISOString() });
+              // Catch up on anything sent while we were reconnecting
+              if (hasSubscribed) {
+                handleRemoteChange(true);
+              }
+              hasSubscribed = true;
+            } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+              console.error('Quote chat realtime channel unavailable:', status);
+              setConnectionStatus('polling');
+              setCounterpartOnline(false);
+              setCounterpartTyping(false);
+              startPolling();
+            }
+          });
+
+        channelRef.current = channel;
+      } catch (error) {
+        console.error('Failed to setup quote chat realtime channel:', error);
+        if (!cancelled) {
+          setConnectionStatus('polling');
+          startPolling();
+        }
+      }
+    };
+
+    setConnectionStatus('connecting');
+    setupChannel();
+
+    return () => {
+      cancelled = true;
+      stopPolling();
+      if (typingTimeoutRef.current) {
+        clearTimeout(typingTimeoutRef.current);
+      }
+      if (channelRef.current) {
+        channelRef.current.unsubscribe();
+        channelRef.current = null;
+      }
+    };
+  }, [quoteId, participant, enabled, refresh, startPolling, stopPolling]);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (!channelRef.current || now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+    lastTypingSentRef.current = now;
+    channelRef.current.send({ type: 'broadcast', event: 'typing', payload: { participant } });
+  }, [participant]);
+
+  const announceMessage = useCallback((options?: { hasAttachments?: boolean }) => {
+    lastTypingSentRef.current = 0;
+    channelRef.current?.send({
+      type: 'broadcast',
+      event: 'message',
+      payload: { participant, hasAttachments: Boolean(options?.hasAttachments) }
+    });
+  }, [participant]);
+
+  return {
+    connectionStatus,
+    counterpartOnline,
+    counterpartTyping,
+    attachmentsVersion,
+    notifyTyping,
+    announceMessage
+  };
+};
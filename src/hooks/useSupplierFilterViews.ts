@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNotification } from './useNotification';
+import { SupplierFilterViewService } from '@/services/supplierFilterViewService';
+import { normalizeFilterCriteria } from '@/utils/supplierFilterViews';
+import type { SupplierFilterCriteria, SupplierFilterView } from '@/types/database';
+
+export interface UseSupplierFilterViewsReturn {
+  views: SupplierFilterView[];
+  loading: boolean;
+  saveView: (name: string, criteria: SupplierFilterCriteria) => Promise<SupplierFilterView | null>;
+  deleteView: (view: SupplierFilterView) => Promise<void>;
+}
+
+/**
+ * The signed-in producer's saved supplier filter views
+ * Loads while `enabled` so modals only fetch once they are opened.
+ */
+export const useSupplierFilterViews = (enabled = true): UseSupplierFilterViewsReturn => {
+  const { showSuccess, showError, showConfirm } = useNotification();
+  const [views, setViews] = useState<SupplierFilterView[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    setLoading(true);
+    SupplierFilterViewService.getViews()
+      .then((data) => {
+        if (cancelled) return;
+        setViews(data.map((view) => ({ ...view, criteria: normalizeFilterCriteria(view.criteria) })));
+      })
+      .catch((error) => console.error('Error loading saved supplier views:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  const saveView = useCallback(async (name: string, criteria: SupplierFilterCriteria): Promise<SupplierFilterView | null> => {
+    // Saving under an existing name replaces that view's filters
+    const existing = views.find((view) => view.name.toLowerCase() === name.trim().toLowerCase());
+
+    try {
+      const saved = await SupplierFilterViewService.saveView({ name, criteria }, existing?.id);
+      const view = { ...saved, criteria: normalizeFilterCriteria(saved.criteria) };
+      setViews((prev) =>
+        [...prev.filter((item) => item.id !== view.id), view].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      showSuccess(existing ? `Updated view "${view.name}"` : `Saved view "${view.name}"`);
+      return view;
+    } catch (error) {
+      console.error('Error saving supplier view:', error);
+      showError(error instanceof Error ? error.message : 'Failed to save view');
+      return null;
+    }
+  }, [views, showSuccess, showError]);
+
+  const deleteView = useCallback(async (view: SupplierFilterView): Promise<void> => {
+    const confirmed = await showConfirm({
+      title: 'Delete Saved View',
+      message: `Delete the saved view "${view.name}"?`,
+      variant: 'danger',
+      confirmText: 'Delete',
+      cancelText: 'Cancel'
+    });
+
+    if (!confirmed) return;
+
+    try {
+      await SupplierFilterViewService.deleteView(view.id);
+      setViews((prev) => prev.filter((item) => item.id !== view.id));
+      showSuccess(`Deleted view "${view.name}"`);
+    } catch (error) {
+      console.error('Error deleting supplier view:', error);
+      showError(error instanceof Error ? error.message : 'Failed to delete view');
+    }
+  }, [showConfirm, showSuccess, showError]);
+
+  return { views, loading, saveView, deleteView };
+};
@@ -78,7 +78,7 @@ const INITIAL_FILTERS: FilterState = {
   dateRange: { start: null, end: null }
 };
 
-export const useSupplierManagement = (): UseSupplierManagementReturn => {
+export const useSupplierManagement = (initialFilters: FilterState = INITIAL_FILTERS): UseSupplierManagementReturn => {
   const { showSuccess, showError, showConfirm } = useNotification();
   
   // Core data state
@@ -91,7 +91,7 @@ export const useSupplierManagement = (): UseSupplierManagementReturn => {
   const [formData, setFormData] = useState<SupplierFormData>(INITIAL_FORM_DATA);
   
   // Filter state
-  const [filters, setFilters] = useState<FilterState>(INITIAL_FILTERS);
+  const [filters, setFilters] = useState<FilterState>(initialFilters);
   
   // Computed state
   const filteredSuppliers = useMemo(() => {
@@ -2,6 +2,7 @@ import React from 'react';
 import { Outlet, Link } from 'react-router-dom';
 import { Package } from 'lucide-react';
 import DarkVeil from '@/components/DarkVeil';
+import { useAppearance } from '@/contexts/AppearanceContext';
 import Footer from '@/components/Footer';
 
 /**
@@ -10,18 +11,24 @@ import Footer from '@/components/Footer';
  * Simple header with branding and clean design
  */
 const GuestLayout: React.FC = () => {
+  const { appearance } = useAppearance();
+
   return (
     <div className="relative min-h-screen flex flex-col">
-      {/* Dark Veil Background */}
+      {/* Background: Dark Veil, or a plain light backdrop for the light theme */}
       <div className="fixed inset-0 w-full h-full z-0">
-        <DarkVeil
-          speed={0.04}
-          hueShift={0}
-          noiseIntensity={0}
-          scanlineFrequency={1.8}
-          scanlineIntensity={0.16}
-          warpAmount={5}
-        />
+        {appearance.theme === 'dark' ? (
+          <DarkVeil
+            speed={0.04}
+            hueShift={0}
+            noiseIntensity={0}
+            scanlineFrequency={1.8}
+            scanlineIntensity={0.16}
+            warpAmount={5}
+          />
+        ) : (
+          <div className="w-full h-full bg-gradient-to-br from-slate-100 via-slate-50 to-teal-50" />
+        )}
       </div>
 
       {/* Content Layer */}
@@ -85,8 +85,18 @@ export interface Project {
   timeline_deadline?: string;
   event_date: string | null;
   project_status: 'New' | 'In Progress' | 'Quoting' | 'Completed' | 'Cancelled';
+  /** ISO 4217 code the budget is expressed in (defaults to USD) */
+  base_currency?: string;
+  /** Quotes need the client's approval before they can be accepted */
+  requires_client_approval?: boolean;
+  /** Structured venue location used to match suppliers by area */
+  venue_city?: string | null;
+  venue_region?: string | null;
+  venue_country?: string | null;
   ai_allocation_completed_at?: string;
   producer_id: string;
+  /** Organisation the project is shared with; null = private to producer_id */
+  organisation_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -97,13 +107,25 @@ export interface Asset {
   asset_name: string;
   specifications?: string;
   timeline?: string;
-  status: 'Pending' | 'Quoting' | 'Approved' | 'In Production' | 'Delivered';
+  status: 'Pending' | 'Quoting' | 'Reviewing' | 'Approved' | 'In Production' | 'Delivered';
   assigned_supplier_id?: string;
   source_text?: string;
   quantity?: number;
   tags?: string[];
   /** Operational/vendor context: indoor-outdoor, installation, delivery, operator needs */
   supplier_context?: string | null;
+  /** When the asset last moved to Delivered (set by trigger) */
+  delivered_at?: string | null;
+  /** When the latest quoting round closed and the asset moved to Reviewing */
+  quoting_closed_at?: string | null;
+  /** Hide submitted costs until bids_open_at passes or the producer unseals */
+  sealed_bids?: boolean;
+  bids_open_at?: string | null;
+  /** When and by whom the bids were unsealed early (set by trigger) */
+  bids_unsealed_at?: string | null;
+  bids_unsealed_by?: string | null;
+  /** Working days ending on the timeline date, used for critical-path scheduling */
+  duration_days?: number;
   created_at: string;
   updated_at: string;
   assigned_supplier?: Supplier;
@@ -128,8 +150,12 @@ export interface Supplier {
   contact_email?: string | null;
   address?: string;
   cities_served?: string[];
+  /** Willing-to-travel distance from the supplier's address, for venues outside cities_served */
+  travel_radius_km?: number | null;
   service_categories: string[];
   contact_persons: ContactPerson[];
+  /** Organisation that owns the supplier; null = open directory */
+  organisation_id?: string | null;
   created_at: string;
 }
 
@@ -161,6 +187,8 @@ export interface Quote {
   supplier_id: string;
   asset_id: string;
   cost: number;
+  /** ISO 4217 code of `cost` (defaults to USD) */
+  currency?: string;
   notes_capacity?: string;
   status: 'Pending' | 'Submitted' | 'Accepted' | 'Rejected';
   quote_token: string;
@@ -168,20 +196,39 @@ export interface Quote {
   quote_document_url?: string;
   request_email_body?: string;
   request_attachments?: QuoteRequestAttachment[];
-  cost_breakdown?: {
-    labor: number;
-    materials: number;
-    equipment: number;
-    other: number;
-  };
+  /** Itemised lines; `cost` is derived from the non-optional ones on submission */
+  line_items?: QuoteLineItem[];
   valid_until?: string;
   response_time_hours?: number;
+  /** When the supplier was last sent an automatic follow-up reminder */
+  last_chased_at?: string | null;
+  /** Deadline for the supplier's response, shared by every request in the round */
+  response_deadline?: string | null;
+  /** Per-supplier extension; replaces response_deadline when set */
+  deadline_extended_until?: string | null;
+  /** When the producer last reopened the quote for revision */
+  revision_requested_at?: string | null;
   created_at: string;
   updated_at: string;
   supplier?: Supplier;
   asset?: Asset;
 }
 
+export interface QuoteLineItem {
+  id: string;
+  quote_id: string;
+  position: number;
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  /** Tax percentage, e.g. 15 for 15% */
+  tax_rate: number;
+  /** Optional extras are excluded from the quote total */
+  is_optional: boolean;
+  created_at: string;
+}
+
 export interface ProducerSettings {
   id: string;
   from_name: string;
@@ -13,23 +13,29 @@ import {
 } from 'lucide-react';
 import { QuoteService, type Message } from '@/services/quoteService';
 import { useNotification } from '@/hooks/useNotification';
+import { useInbox } from '@/contexts/InboxContext';
+import { useQuoteChatRealtime } from '@/hooks/useQuoteChatRealtime';
 import { createInitialRequestMessage, isInitialRequestMessage } from '@/utils/quoteRequestMessage';
+import SystemChatMessage from '@/components/shared/SystemChatMessage';
 import MessageAttachments from '@/components/shared/MessageAttachments';
 import AttachmentSidePanel from '@/components/shared/AttachmentSidePanel';
+import ChatPresenceIndicator from '@/components/shared/ChatPresenceIndicator';
 
 /**
  * ProducerQuoteChat Component
  * Producer-side chat interface for communicating with suppliers about quotes
  * Features:
  * - Chat interface with message history
- * - Real-time message polling
+ * - Realtime message updates with typing/presence indicators (polling fallback)
  * - Optimistic UI for message sending
+ * - Marks supplier messages read while the chat is open
  * - Back button to return to previous page
  */
 const ProducerQuoteChat: React.FC = () => {
   const { quoteId } = useParams<{ quoteId: string }>();
   const navigate = useNavigate();
   const { showSuccess, showError } = useNotification();
+  const { markConversationRead } = useInbox();
 
   // Session state
   const [quoteData, setQuoteData] = useState<{
@@ -51,9 +57,6 @@ const ProducerQuoteChat: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isAttachmentPanelOpen, setIsAttachmentPanelOpen] = useState(false);
 
-  // Polling interval ref
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
   // Scroll to bottom of messages
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -107,9 +110,9 @@ const ProducerQuoteChat: React.FC = () => {
     }
   }, [quoteId]);
 
-  // Poll for new messages
-  const pollMessages = useCallback(async () => {
-    if (!quoteId || !quoteData) return;
+  // Refresh messages (triggered by realtime events or fallback polling)
+  const refreshMessages = useCallback(async () => {
+    if (!quoteId) return;
 
     try {
       const response = await QuoteService.getQuoteMessages(quoteId);
@@ -125,18 +128,33 @@ const ProducerQuoteChat: React.FC = () => {
 
         // Only update if messages have changed (avoid unnecessary re-renders)
         // Compare without the synthetic message ID (which includes timestamp)
-        const currentMessagesWithoutSynthetic = messages.filter(m => !isInitialRequestMessage(m.id));
         const newMessagesWithoutSynthetic = newMessages.filter(m => !isInitialRequestMessage(m.id));
-
-        if (JSON.stringify(newMessagesWithoutSynthetic) !== JSON.stringify(currentMessagesWithoutSynthetic)) {
-          setMessages(newMessages);
-        }
+        setMessages(prev => {
+          const currentMessagesWithoutSynthetic = prev.filter(m => !isInitialRequestMessage(m.id));
+          return JSON.stringify(newMessagesWithoutSynthetic) !== JSON.stringify(currentMessagesWithoutSynthetic)
+            ? newMessages
+            : prev;
+        });
       }
     } catch (err) {
-      console.error('Error polling messages:', err);
-      // Don't show error for polling failures - just log
+      console.error('Error refreshing messages:', err);
+      // Don't show error for background refresh failures - just log
     }
-  }, [quoteId, quoteData, messages]);
+  }, [quoteId]);
+
+  const {
+    connectionStatus,
+    counterpartOnline,
+    counterpartTyping,
+    attachmentsVersion,
+    notifyTyping,
+    announceMessage
+  } = useQuoteChatRealtime({
+    quoteId,
+    participant: 'PRODUCER',
+    onRefresh: refreshMessages,
+    enabled: Boolean(quoteData) && !error
+  });
 
   const getFileKey = (file: File) => `${file.name}-${file.size}-${file.lastModified}-${crypto.randomUUID()}`;
 
@@ -196,6 +214,7 @@ const ProducerQuoteChat: React.FC = () => {
       setMessages(prev =>
         prev.map(m => m.id === optimisticMessage.id ? response.data! : m)
       );
+      announceMessage({ hasAttachments: files.length > 0 });
 
       if (options.clearInput) {
         setMessageInput('');
@@ -220,7 +239,7 @@ const ProducerQuoteChat: React.FC = () => {
         }, 0);
       }
     }
-  }, [quoteId, sendingMessage, scrollToBottom, showSuccess, showError]);
+  }, [quoteId, sendingMessage, scrollToBottom, showSuccess, showError, announceMessage]);
 
   // Send message
   const sendMessage = useCallback(async () => {
@@ -296,18 +315,20 @@ const ProducerQuoteChat: React.FC = () => {
     loadQuoteData();
   }, [loadQuoteData]);
 
-  // Set up polling (every 8 seconds)
+  // Anything the supplier sends while the chat is open counts as read
+  const hasUnreadMessages = messages.some(
+    message => !message.is_read && message.sender_type !== 'PRODUCER' && !isInitialRequestMessage(message.id)
+  );
+
   useEffect(() => {
-    if (quoteData && !error) {
-      pollingIntervalRef.current = setInterval(pollMessages, 8000);
-    }
+    if (!quoteId || !hasUnreadMessages) return;
 
-    return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-      }
-    };
-  }, [quoteData, error, pollMessages]);
+    markConversationRead(quoteId).then(() => {
+      setMessages(prev => prev.map(message =>
+        message.sender_type !== 'PRODUCER' && !message.is_read ? { ...message, is_read: true } : message
+      ));
+    });
+  }, [quoteId, hasUnreadMessages, markConversationRead]);
 
   // Scroll to bottom when messages change
   useEffect(() => {
@@ -389,14 +410,22 @@ const ProducerQuoteChat: React.FC = () => {
                       </p>
                     </div>
                   </div>
-                  <button
-                    type="button"
-                    onClick={() => setIsAttachmentPanelOpen(prev => !prev)}
-                    className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white/80 hover:text-white hover:bg-white/20 transition-colors"
-                    aria-label="View attachments"
-                  >
-                    <Paperclip className="h-4 w-4" />
-                  </button>
+                  <div className="flex items-center gap-3">
+                    <ChatPresenceIndicator
+                      counterpartName={quoteData.supplier?.supplier_name || 'Supplier'}
+                      connectionStatus={connectionStatus}
+                      counterpartOnline={counterpartOnline}
+                      counterpartTyping={counterpartTyping}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setIsAttachmentPanelOpen(prev => !prev)}
+                      className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white/80 hover:text-white hover:bg-white/20 transition-colors"
+                      aria-label="View attachments"
+                    >
+                      <Paperclip className="h-4 w-4" />
+                    </button>
+                  </div>
                 </div>
               </div>
 
@@ -408,6 +437,17 @@ const ProducerQuoteChat: React.FC = () => {
                   </div>
                 ) : (
                   messages.map((message) => {
+                    if (message.sender_type === 'SYSTEM') {
+                      return (
+                        <SystemChatMessage
+                          key={message.id}
+                          id={message.id}
+                          content={message.content}
+                          timestamp={formatTime(message.created_at)}
+                        />
+                      );
+                    }
+
                     const isProducer = message.sender_type === 'PRODUCER';
                     const isInitialRequest = isInitialRequestMessage(message.id);
 
@@ -420,9 +460,9 @@ const ProducerQuoteChat: React.FC = () => {
                         <div
                           className={`max-w-[75%] rounded-lg p-3 ${
                             isInitialRequest
-                              ? 'bg-purple-600/80 border-2 border-purple-400 text-white'
+                              ? 'bg-purple-600/80 border-2 border-purple-400 text-on-accent'
                               : isProducer
-                              ? 'bg-blue-600 text-white'
+                              ? 'bg-blue-600 text-on-accent'
                               : 'bg-gray-700 text-gray-100'
                           }`}
                         >
@@ -538,7 +578,10 @@ const ProducerQuoteChat: React.FC = () => {
                   <textarea
                     ref={messageInputRef}
                     value={messageInput}
-                    onChange={(e) => setMessageInput(e.target.value)}
+                    onChange={(e) => {
+                      setMessageInput(e.target.value);
+                      notifyTyping();
+                    }}
                     onKeyDown={handleMessageKeyDown}
                     placeholder="Type your message..."
                     className="flex-1 resize-none bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
@@ -548,7 +591,7 @@ const ProducerQuoteChat: React.FC = () => {
                   <button
                     onClick={sendMessage}
                     disabled={(!messageInput.trim() && selectedFiles.length === 0) || sendingMessage}
-                    className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                    className="px-6 py-2 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
                   >
                     {sendingMessage ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
@@ -569,6 +612,8 @@ const ProducerQuoteChat: React.FC = () => {
                   onUploadFiles={handlePanelUpload}
                   uploadDisabled={sendingMessage}
                   variant="inline"
+                  refreshKey={attachmentsVersion}
+                  pollingEnabled={false}
                 />
               </div>
             )}
@@ -584,6 +629,8 @@ const ProducerQuoteChat: React.FC = () => {
             onUploadFiles={handlePanelUpload}
             uploadDisabled={sendingMessage}
             variant="overlay"
+            refreshKey={attachmentsVersion}
+            pollingEnabled={false}
           />
         </div>
       )}
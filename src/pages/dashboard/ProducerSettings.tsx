@@ -1,9 +1,15 @@
 import React from 'react';
-import { User, Palette, Bell, CreditCard } from 'lucide-react';
-import SettingsLayout, { SettingsTab } from '@/components/settings/SettingsLayout';
+import { useSearchParams } from 'react-router-dom';
+import { User, Palette, Bell, Coins, Tag, Mail, AlarmClock, Users, CreditCard } from 'lucide-react';
+import SettingsLayout, { SettingsTab, SettingsTabId } from '@/components/settings/SettingsLayout';
 import ProfileSettings from '@/components/settings/ProfileSettings';
 import AppearanceSettings from '@/components/settings/AppearanceSettings';
 import NotificationSettings from '@/components/settings/NotificationSettings';
+import CurrencySettings from '@/components/settings/CurrencySettings';
+import AssetTagSettings from '@/components/settings/AssetTagSettings';
+import EmailTemplateSettings from '@/components/settings/EmailTemplateSettings';
+import FollowUpSettings from '@/components/settings/FollowUpSettings';
+import OrganisationSettings from '@/components/settings/OrganisationSettings';
 import BillingSettings from '@/components/settings/BillingSettings';
 
 const settingsTabs: SettingsTab[] = [
@@ -25,6 +31,36 @@ const settingsTabs: SettingsTab[] = [
     icon: Bell,
     content: <NotificationSettings />,
   },
+  {
+    id: 'currencies',
+    label: 'Currencies',
+    icon: Coins,
+    content: <CurrencySettings />,
+  },
+  {
+    id: 'asset-tags',
+    label: 'Asset Tags',
+    icon: Tag,
+    content: <AssetTagSettings />,
+  },
+  {
+    id: 'email-templates',
+    label: 'Email Templates',
+    icon: Mail,
+    content: <EmailTemplateSettings />,
+  },
+  {
+    id: 'follow-ups',
+    label: 'Follow-ups',
+    icon: AlarmClock,
+    content: <FollowUpSettings />,
+  },
+  {
+    id: 'organisation',
+    label: 'Organisation',
+    icon: Users,
+    content: <OrganisationSettings />,
+  },
   {
     id: 'billing',
     label: 'Billing',
@@ -33,8 +69,13 @@ const settingsTabs: SettingsTab[] = [
   },
 ];
 
-const ProducerSettings: React.FC = () => (
-  <SettingsLayout tabs={settingsTabs} defaultTab="profile" />
-);
+// Links can open a specific tab, e.g. /producer/settings?tab=notifications
+const ProducerSettings: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const requestedTab = searchParams.get('tab');
+  const defaultTab = settingsTabs.find((tab) => tab.id === requestedTab)?.id ?? 'profile';
+
+  return <SettingsLayout key={defaultTab} tabs={settingsTabs} defaultTab={defaultTab as SettingsTabId} />;
+};
 
 export default ProducerSettings;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Loader2, Users } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotification } from '@/hooks/useNotification';
+import { OrganisationService } from '@/services/organisationService';
+import { ORGANISATION_ROLES, getRoleLabel } from '@/utils/organisations';
+import type { OrganisationInvitationDetails } from '@/types/database';
+
+/**
+ * AcceptInvitationPage - Landing page for organisation invitation links (/invite/:token)
+ * Shows who invited the producer and with which role, and joins the
+ * organisation once they are signed in with the invited email address.
+ */
+const AcceptInvitationPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const { showSuccess } = useNotification();
+  const [invitation, setInvitation] = useState<OrganisationInvitationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  // The lookup needs a session, so wait for sign-in before loading
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user || !token) {
+      setLoading(false);
+      return;
+    }
+
+    const loadInvitation = async () => {
+      try {
+        setLoading(true);
+        const details = await OrganisationService.getInvitation(token);
+        setInvitation(details);
+        if (!details) {
+          setError('This invitation link is not valid.');
+        }
+      } catch (err) {
+        console.error('Failed to load invitation:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load invitation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvitation();
+  }, [authLoading, user, token]);
+
+  const handleAccept = async () => {
+    if (!token || !invitation) return;
+
+    setIsAccepting(true);
+    setError(null);
+    try {
+      await OrganisationService.acceptInvitation(token);
+      showSuccess(`You joined ${invitation.organisation_name}`);
+      navigate('/producer/settings?tab=organisation');
+    } catch (err) {
+      console.error('Failed to accept invitation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const isExpired = invitation ? new Date(invitation.expires_at) < new Date() : false;
+  const isWrongAccount = Boolean(
+    invitation && user?.email && invitation.email.toLowerCase() !== user.email.toLowerCase()
+  );
+
+  const renderContent = () => {
+    if (authLoading || loading) {
+      return (
+        <div className="flex items-center gap-2 text-gray-300 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading invitation...
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <>
+          <p className="text-gray-200">
+            Sign in with the email address the invitation was sent to. If you don't have an account yet,
+            sign up first and then open this link again.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <Link
+              to={`/login?redirect=${encodeURIComponent(`/invite/${token}`)}`}
+              className="px-5 py-2.5 rounded-lg bg-teal-600 text-on-accent font-medium hover:bg-teal-700 transition-colors"
+            >
+              Sign in
+            </Link>
+            <Link
+              to="/signup"
+              className="px-5 py-2.5 rounded-lg border border-white/20 text-gray-200 hover:bg-white/10 transition-colors"
+            >
+              Sign up
+            </Link>
+          </div>
+        </>
+      );
+    }
+
+    if (!invitation) {
+      return (
+        <p className="flex items-center gap-2 text-red-300">
+          <AlertCircle className="w-4 h-4" />
+          {error ?? 'This invitation link is not valid.'}
+        </p>
+      );
+    }
+
+    const roleDescription = ORGANISATION_ROLES.find((option) => option.value === invitation.role)?.description;
+
+    return (
+      <>
+        <p className="text-gray-200">
+          {invitation.invited_by_name ?? 'An owner'} invited <span className="font-medium text-white">{invitation.email}</span>{' '}
+          to join <span className="font-medium text-white">{invitation.organisation_name}</span> as{' '}
+          <span className="font-medium text-white">{getRoleLabel(invitation.role).toLowerCase()}</span>.
+        </p>
+        {roleDescription && <p className="text-sm text-gray-300">{roleDescription}.</p>}
+
+        {invitation.status !== 'pending' ? (
+          <p className="text-amber-300">
+            This invitation has already been {invitation.status === 'accepted' ? 'accepted' : 'revoked'}.
+          </p>
+        ) : isExpired ? (
+          <p className="text-amber-300">This invitation has expired. Ask an owner to send you a new one.</p>
+        ) : isWrongAccount ? (
+          <p className="text-amber-300">
+            You're signed in as {user.email}. Sign in as {invitation.email} to accept this invitation.
+          </p>
+        ) : (
+          <button
+            type="button"
+            onClick={handleAccept}
+            disabled={isAccepting}
+            className="inline-flex items-center gap-2 px-5 py-2.5 rounded-lg bg-teal-600 text-on-accent font-medium hover:bg-teal-700 transition-colors disabled:opacity-60"
+          >
+            {isAccepting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Join {invitation.organisation_name}
+          </button>
+        )}
+
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-red-300">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="max-w-xl mx-auto px-4 py-16">
+      <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-lg shadow-lg p-8 space-y-5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-teal-500/20 rounded-lg">
+            <Users className="w-6 h-6 text-teal-300" />
+          </div>
+          <h1 className="text-2xl font-bold text-white">Organisation invitation</h1>
+        </div>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitationPage;
@@ -153,7 +153,7 @@ const OnboardingPage: React.FC = () => {
           {allDone && (
             <Link
               to="/producer/dashboard"
-              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-teal-600 text-white font-medium hover:bg-teal-700 transition-colors"
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-teal-600 text-on-accent font-medium hover:bg-teal-700 transition-colors"
             >
               Go to Dashboard
               <ArrowRight className="w-4 h-4" />
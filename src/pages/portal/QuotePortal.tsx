@@ -11,22 +11,28 @@ import {
   MapPin,
   Paperclip,
   Truck,
+  Clock,
   X
 } from 'lucide-react';
 import { PortalService, type PortalSession, type Message, type Quote } from '@/services/portalService';
 import { useNotification } from '@/hooks/useNotification';
+import { useQuoteChatRealtime } from '@/hooks/useQuoteChatRealtime';
 import SupplierQuoteModal from '@/components/portal/SupplierQuoteModal';
 import OriginalRequestCard from '@/components/portal/OriginalRequestCard';
+import SystemChatMessage from '@/components/shared/SystemChatMessage';
 import AttachmentSidePanel from '@/components/shared/AttachmentSidePanel';
+import ChatPresenceIndicator from '@/components/shared/ChatPresenceIndicator';
+import { formatTimeRemaining } from '@/utils/quoteDeadlines';
 
 /**
  * QuotePortal Component
  * Booking.com-style supplier portal for quote requests
  * Features:
  * - Two-column layout (Context | Conversation)
- * - Real-time message polling
+ * - Realtime message updates with typing/presence indicators (polling fallback)
  * - Optimistic UI for message sending
  * - Quote submission UI skeleton
+ * - Response deadline countdown; submission is blocked once it passes
  */
 const QuotePortal: React.FC = () => {
   const { token } = useParams<{ token: string }>();
@@ -51,8 +57,8 @@ const QuotePortal: React.FC = () => {
   // Modal state
   const [showSubmitModal, setShowSubmitModal] = useState<boolean>(false);
 
-  // Polling interval ref
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Clock for the response deadline countdown
+  const [now, setNow] = useState(() => new Date());
 
   // Scroll to bottom of messages
   const scrollToBottom = useCallback(() => {
@@ -96,24 +102,36 @@ const QuotePortal: React.FC = () => {
     }
   }, [token]);
 
-  // Poll for new messages
-  const pollMessages = useCallback(async () => {
-    if (!token || !session) return;
+  // Refresh messages (triggered by realtime events or fallback polling)
+  const refreshMessages = useCallback(async () => {
+    if (!token) return;
 
     try {
       const response = await PortalService.getSession(token);
       if (response.success && response.data) {
         // Only update if messages have changed (avoid unnecessary re-renders)
         const newMessages = response.data.messages || [];
-        if (JSON.stringify(newMessages) !== JSON.stringify(messages)) {
-          setMessages(newMessages);
-        }
+        setMessages(prev => JSON.stringify(newMessages) !== JSON.stringify(prev) ? newMessages : prev);
       }
     } catch (err) {
-      console.error('Error polling messages:', err);
-      // Don't show error for polling failures - just log
+      console.error('Error refreshing messages:', err);
+      // Don't show error for background refresh failures - just log
     }
-  }, [token, session, messages]);
+  }, [token]);
+
+  const {
+    connectionStatus,
+    counterpartOnline,
+    counterpartTyping,
+    attachmentsVersion,
+    notifyTyping,
+    announceMessage
+  } = useQuoteChatRealtime({
+    quoteId: session?.quote.id,
+    participant: 'SUPPLIER',
+    onRefresh: refreshMessages,
+    enabled: Boolean(session) && !error
+  });
 
   const getFileKey = (file: File) => `${file.name}-${file.size}-${file.lastModified}-${crypto.randomUUID()}`;
 
@@ -176,6 +194,7 @@ const QuotePortal: React.FC = () => {
       setMessages(prev =>
         prev.map(m => m.id === optimisticMessage.id ? response.data! : m)
       );
+      announceMessage({ hasAttachments: files.length > 0 });
 
       if (options.clearInput) {
         setMessageInput('');
@@ -201,7 +220,7 @@ const QuotePortal: React.FC = () => {
         }, 0);
       }
     }
-  }, [token, sendingMessage, session, scrollToBottom, showSuccess, showError]);
+  }, [token, sendingMessage, session, scrollToBottom, showSuccess, showError, announceMessage]);
 
   // Send message
   const sendMessage = useCallback(async () => {
@@ -291,24 +310,18 @@ const QuotePortal: React.FC = () => {
     setShowSubmitModal(false);
   }, []);
 
+  // Minute precision is enough for the countdown
+  useEffect(() => {
+    if (!session?.quote.response_deadline) return;
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [session?.quote.response_deadline]);
+
   // Load session on mount
   useEffect(() => {
     loadSession();
   }, [loadSession]);
 
-  // Set up polling (every 8 seconds)
-  useEffect(() => {
-    if (session && !error) {
-      pollingIntervalRef.current = setInterval(pollMessages, 8000);
-    }
-
-    return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-      }
-    };
-  }, [session, error, pollMessages]);
-
   // Scroll to bottom when messages change
   useEffect(() => {
     scrollToBottom();
@@ -364,6 +377,12 @@ const QuotePortal: React.FC = () => {
 
   const { quote, asset, project } = session;
 
+  const responseDeadline = quote.response_deadline ? new Date(quote.response_deadline) : null;
+  const timeRemaining = responseDeadline ? formatTimeRemaining(responseDeadline, now) : null;
+  // A quote reopened for revision isn't held to the deadline
+  const isRevision = quote.status === 'Pending' && Boolean(quote.revision_requested_at);
+  const isDeadlinePassed = responseDeadline !== null && timeRemaining === null && !isRevision;
+
   return (
     <div className="relative text-white p-4 sm:p-6 lg:p-8">
       <div className="max-w-7xl mx-auto space-y-6">
@@ -482,6 +501,31 @@ const QuotePortal: React.FC = () => {
             </div>
           )}
 
+          {/* Response Deadline */}
+          {responseDeadline && quote.status === 'Pending' && (
+            <div className={`border rounded-xl p-6 ${isDeadlinePassed ? 'bg-red-500/10 border-red-400/30' : 'bg-white/5 border-white/10'}`}>
+              <div className="flex items-center space-x-2 mb-4">
+                <Clock className="h-5 w-5 text-purple-300" />
+                <h2 className="text-lg font-semibold text-white">Response Deadline</h2>
+              </div>
+              <div className="space-y-2 text-sm">
+                <p className="text-white font-medium">
+                  {formatDate(responseDeadline.toISOString())} at {formatTime(responseDeadline.toISOString())}
+                  {quote.deadline_extended && <span className="ml-2 text-xs text-purple-200">(extended)</span>}
+                </p>
+                {isDeadlinePassed ? (
+                  <p className="text-red-200">
+                    The deadline has passed. Message the producer if you would like more time.
+                  </p>
+                ) : timeRemaining ? (
+                  <span className="inline-block px-3 py-1 rounded-full text-xs font-medium bg-purple-500/30 text-purple-100 border border-purple-400/50">
+                    {timeRemaining}
+                  </span>
+                ) : null}
+              </div>
+            </div>
+          )}
+
           {/* Quote Status */}
           <div className="bg-white/5 border border-white/10 rounded-xl p-6">
             <div className="flex items-center space-x-2 mb-4">
@@ -512,14 +556,22 @@ const QuotePortal: React.FC = () => {
                     <h2 className="text-lg font-semibold text-white">Conversation</h2>
                     <p className="text-sm text-gray-400">Chat with the producer about this quote</p>
                   </div>
-                  <button
-                    type="button"
-                    onClick={() => setIsAttachmentPanelOpen(true)}
-                    className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white/80 hover:text-white hover:bg-white/20 transition-colors"
-                    aria-label="View attachments"
-                  >
-                    <Paperclip className="h-4 w-4" />
-                  </button>
+                  <div className="flex items-center gap-3">
+                    <ChatPresenceIndicator
+                      counterpartName="Producer"
+                      connectionStatus={connectionStatus}
+                      counterpartOnline={counterpartOnline}
+                      counterpartTyping={counterpartTyping}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setIsAttachmentPanelOpen(true)}
+                      className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white/80 hover:text-white hover:bg-white/20 transition-colors"
+                      aria-label="View attachments"
+                    >
+                      <Paperclip className="h-4 w-4" />
+                    </button>
+                  </div>
                 </div>
               </div>
 
@@ -531,6 +583,17 @@ const QuotePortal: React.FC = () => {
                   </div>
                 ) : (
                   messages.map((message) => {
+                    if (message.sender_type === 'SYSTEM') {
+                      return (
+                        <SystemChatMessage
+                          key={message.id}
+                          id={message.id}
+                          content={message.content}
+                          timestamp={formatTime(message.created_at)}
+                        />
+                      );
+                    }
+
                     const isSupplier = message.sender_type === 'SUPPLIER';
                     return (
                       <div
@@ -541,7 +604,7 @@ const QuotePortal: React.FC = () => {
                         <div
                           className={`max-w-[75%] rounded-lg p-3 ${
                             isSupplier
-                              ? 'bg-purple-600 text-white'
+                              ? 'bg-purple-600 text-on-accent'
                               : 'bg-white/10 text-gray-100 border border-white/20'
                           }`}
                         >
@@ -647,7 +710,10 @@ const QuotePortal: React.FC = () => {
                   <textarea
                     ref={messageInputRef}
                     value={messageInput}
-                    onChange={(e) => setMessageInput(e.target.value)}
+                    onChange={(e) => {
+                      setMessageInput(e.target.value);
+                      notifyTyping();
+                    }}
                     onKeyDown={handleMessageKeyDown}
                     placeholder="Type your message..."
                     className="flex-1 resize-none bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
@@ -657,7 +723,7 @@ const QuotePortal: React.FC = () => {
                   <button
                     onClick={sendMessage}
                     disabled={(!messageInput.trim() && selectedFiles.length === 0) || sendingMessage}
-                    className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                    className="px-6 py-2 bg-purple-600 text-on-accent rounded-lg hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
                   >
                     <Send className="h-4 w-4" />
                     <span>Send</span>
@@ -674,6 +740,8 @@ const QuotePortal: React.FC = () => {
                   onUploadFiles={handlePanelUpload}
                   uploadDisabled={sendingMessage}
                   variant="inline"
+                  refreshKey={attachmentsVersion}
+                  pollingEnabled={false}
                 />
               </div>
             )}
@@ -683,14 +751,18 @@ const QuotePortal: React.FC = () => {
 
       {/* Submit Quote Button */}
       {quote.status !== 'Submitted' && (
-        <div className="mt-6 flex justify-center">
+        <div className="mt-6 flex flex-col items-center gap-2">
           <button
             onClick={() => setShowSubmitModal(true)}
-            className="bg-purple-600 text-white rounded-lg px-8 py-3 font-semibold hover:bg-purple-700 transition-colors flex items-center space-x-2 shadow-lg"
+            disabled={isDeadlinePassed}
+            className="bg-purple-600 text-on-accent rounded-lg px-8 py-3 font-semibold hover:bg-purple-700 transition-colors flex items-center space-x-2 shadow-lg disabled:bg-gray-500/50 disabled:cursor-not-allowed"
           >
             <Package className="h-5 w-5" />
-            <span>Submit Quote</span>
+            <span>{isRevision ? 'Submit Revised Quote' : 'Submit Quote'}</span>
           </button>
+          {isDeadlinePassed && (
+            <p className="text-sm text-gray-400">Submissions closed when the response deadline passed.</p>
+          )}
         </div>
       )}
 
@@ -711,6 +783,8 @@ const QuotePortal: React.FC = () => {
             onUploadFiles={handlePanelUpload}
             uploadDisabled={sendingMessage}
             variant="overlay"
+            refreshKey={attachmentsVersion}
+            pollingEnabled={false}
           />
         </div>
       )}
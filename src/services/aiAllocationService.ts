@@ -3,6 +3,8 @@
  * Handles communication with Railway backend for AI-powered allocation features
  */
 
+import { getAvailableTagNames } from '@/utils/assetTags';
+
 const RAILWAY_API_URL = import.meta.env.VITE_RAILWAY_API_URL || '';
 
 export interface AIAssetSuggestion {
@@ -40,6 +42,8 @@ export interface ProjectContext {
   financial_parameters?: number;
   timeline_deadline?: string;
   physical_parameters?: string;
+  /** Tag names the AI may assign; defaults to the active taxonomy */
+  asset_tags?: string[];
 }
 
 export interface AIHealthData {
@@ -72,7 +76,7 @@ export class AIAllocationService {
         },
         body: JSON.stringify({
           briefDescription,
-          projectContext
+          projectContext: { ...projectContext, asset_tags: projectContext.asset_tags ?? getAvailableTagNames() }
         })
       });
 
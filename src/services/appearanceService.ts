@@ -0,0 +1,41 @@
+import { getSupabase } from '@/lib/supabase';
+import type { AppearanceSettings } from '@/types/database';
+
+const APPEARANCE_COLUMNS = 'theme, density, font_size';
+
+export class AppearanceService {
+  /**
+   * Get the signed-in user's saved appearance, or null if they never changed it
+   */
+  static async getSettings(): Promise<AppearanceSettings | null> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('user_appearance_settings')
+      .select(APPEARANCE_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch appearance settings: ${error.message}`);
+    }
+
+    return data as AppearanceSettings | null;
+  }
+
+  static async saveSettings(settings: AppearanceSettings): Promise<AppearanceSettings> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('user_appearance_settings')
+      .upsert(
+        { theme: settings.theme, density: settings.density, font_size: settings.font_size },
+        { onConflict: 'user_id' }
+      )
+      .select(APPEARANCE_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save appearance settings: ${error.message}`);
+    }
+
+    return data as AppearanceSettings;
+  }
+}
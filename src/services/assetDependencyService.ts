@@ -0,0 +1,101 @@
+import { getSupabase } from '@/lib/supabase';
+import type { AssetDependency, AssetDependencyInput } from '@/types/database';
+
+export class AssetDependencyService {
+  /**
+   * Get the dependencies between the given assets (normally all assets in one project)
+   */
+  static async getDependenciesForAssets(assetIds: string[]): Promise<AssetDependency[]> {
+    if (assetIds.length === 0) return [];
+
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('asset_dependencies')
+      .select('*')
+      .in('successor_asset_id', assetIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch asset dependencies: ${error.message}`);
+    }
+
+    return (data || []) as AssetDependency[];
+  }
+
+  /**
+   * Make one asset wait for another to finish
+   * The database rejects links across projects and links that would form a cycle.
+   */
+  static async createDependency(dependency: AssetDependencyInput): Promise<AssetDependency> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('asset_dependencies')
+      .insert({
+        predecessor_asset_id: dependency.predecessor_asset_id,
+        successor_asset_id: dependency.successor_asset_id,
+        lag_days: Math.round(dependency.lag_days) || 0
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('This dependency already exists');
+      }
+      throw new Error(`Failed to add dependency: ${error.message}`);
+    }
+    if (!data) throw new Error('Failed to add dependency');
+
+    return data as AssetDependency;
+  }
+
+  /**
+   * Change the lag between two dependent assets
+   */
+  static async updateLag(dependencyId: string, lagDays: number): Promise<AssetDependency> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('asset_dependencies')
+      .update({ lag_days: Math.round(lagDays) || 0 })
+      .eq('id', dependencyId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update dependency: ${error.message}`);
+    }
+    if (!data) throw new Error('Failed to update dependency');
+
+    return data as AssetDependency;
+  }
+
+  /**
+   * Remove a dependency by ID
+   */
+  static async deleteDependency(dependencyId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('asset_dependencies')
+      .delete()
+      .eq('id', dependencyId);
+
+    if (error) {
+      throw new Error(`Failed to remove dependency: ${error.message}`);
+    }
+  }
+
+  /**
+   * Set how many days an asset takes to produce
+   */
+  static async updateDuration(assetId: string, durationDays: number): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('assets')
+      .update({ duration_days: Math.max(0, Math.round(durationDays) || 0) })
+      .eq('id', assetId);
+
+    if (error) {
+      throw new Error(`Failed to update asset duration: ${error.message}`);
+    }
+  }
+}
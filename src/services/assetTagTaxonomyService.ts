@@ -0,0 +1,138 @@
+import { getSupabase } from '@/lib/supabase';
+import { DEFAULT_ASSET_TAGS } from '@/utils/assetTags';
+import type { AssetTagDefinition, AssetTagDefinitionInput, AssetTagRenameResult } from '@/types/database';
+
+const cleanList = (values: string[]): string[] =>
+  Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+
+export class AssetTagTaxonomyService {
+  /**
+   * Get a producer's asset tags (e.g. a shared project's owner), or the signed-in producer's,
+   * in display order
+   */
+  static async getTags(producerId?: string): Promise<AssetTagDefinition[]> {
+    const supabase = await getSupabase();
+    let ownerId = producerId;
+    if (!ownerId) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user?.id) return [];
+      ownerId = user.id;
+    }
+
+    const { data, error } = await supabase
+      .from('asset_tags')
+      .select('*')
+      .eq('producer_id', ownerId)
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch asset tags: ${error.message}`);
+    }
+
+    return (data || []) as AssetTagDefinition[];
+  }
+
+  /**
+   * Get the producer's asset tags, creating the default taxonomy the first time
+   */
+  static async getOrSeedTags(): Promise<AssetTagDefinition[]> {
+    const tags = await this.getTags();
+    if (tags.length > 0) return tags;
+
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('asset_tags')
+      .upsert(
+        DEFAULT_ASSET_TAGS.map((tag, index) => ({ ...tag, sort_order: index })),
+        { onConflict: 'producer_id,name', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw new Error(`Failed to create default asset tags: ${error.message}`);
+    }
+
+    return this.getTags();
+  }
+
+  /**
+   * Create a tag, or update it when `tagId` is given
+   * Renaming goes through renameTag so existing assets follow the new name.
+   */
+  static async saveTag(tag: AssetTagDefinitionInput, tagId?: string): Promise<AssetTagDefinition> {
+    const name = tag.name.trim();
+    if (!name) {
+      throw new Error('Tag name is required');
+    }
+
+    const values = {
+      color: tag.color,
+      description: tag.description.trim(),
+      supplier_categories: cleanList(tag.supplier_categories),
+      aliases: cleanList(tag.aliases).filter(alias => alias.toLowerCase() !== name.toLowerCase())
+    };
+
+    const supabase = await getSupabase();
+    let query;
+    if (tagId) {
+      query = supabase.from('asset_tags').update(values).eq('id', tagId);
+    } else {
+      // New tags go to the end of the list
+      const { data: last } = await supabase
+        .from('asset_tags')
+        .select('sort_order')
+        .order('sort_order', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      query = supabase.from('asset_tags').insert({ ...values, name, sort_order: (last?.sort_order ?? -1) + 1 });
+    }
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`A tag named "${name}" already exists`);
+      }
+      throw new Error(`Failed to save asset tag: ${error.message}`);
+    }
+    if (!data) throw new Error('Failed to save asset tag');
+
+    return data as AssetTagDefinition;
+  }
+
+  /**
+   * Delete a tag from the taxonomy
+   * Assets keep the tag name; it just shows without a color until re-added.
+   */
+  static async deleteTag(tagId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('asset_tags')
+      .delete()
+      .eq('id', tagId);
+
+    if (error) {
+      throw new Error(`Failed to delete asset tag: ${error.message}`);
+    }
+  }
+
+  /**
+   * Rename a tag, or merge it into an existing one, across the taxonomy,
+   * all of the producer's assets and their RFQ email template defaults
+   */
+  static async renameTag(from: string, to: string): Promise<AssetTagRenameResult> {
+    const target = to.trim();
+    if (!target) {
+      throw new Error('New tag name is required');
+    }
+
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('rename_asset_tag', { p_from: from, p_to: target });
+
+    if (error) {
+      throw new Error(`Failed to rename tag: ${error.message}`);
+    }
+
+    return data as AssetTagRenameResult;
+  }
+}
@@ -0,0 +1,142 @@
+import { getSupabase } from '@/lib/supabase';
+import type {
+  AssetTimelineEvent,
+  AssetTimelineEventHistory,
+  AssetTimelineEventInsert,
+  AssetTimelineEventUpdate
+} from '@/types/database';
+
+/**
+ * Sort timeline events chronologically (earliest first)
+ * Events on the same date keep creation order
+ */
+const sortByEventDate = (events: AssetTimelineEvent[]): AssetTimelineEvent[] =>
+  [...events].sort((a, b) => {
+    const byDate = new Date(a.event_date).getTime() - new Date(b.event_date).getTime();
+    return byDate !== 0 ? byDate : new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  });
+
+export class AssetTimelineService {
+  /**
+   * Get all timeline events for an asset, ordered by event date
+   */
+  static async getEventsForAsset(assetId: string): Promise<AssetTimelineEvent[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('asset_timeline_events')
+      .select('*')
+      .eq('asset_id', assetId)
+      .order('event_date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch timeline events: ${error.message}`);
+    }
+
+    return sortByEventDate((data || []) as AssetTimelineEvent[]);
+  }
+
+  /**
+   * Get timeline events for every asset in a project
+   * Each event includes a minimal asset reference so it can be labelled in project timelines
+   */
+  static async getEventsForProject(projectId: string): Promise<AssetTimelineEvent[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('asset_timeline_events')
+      .select(`
+        *,
+        asset:assets!inner(id, asset_name, project_id)
+      `)
+      .eq('asset.project_id', projectId)
+      .order('event_date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch project timeline events: ${error.message}`);
+    }
+
+    return sortByEventDate((data || []) as AssetTimelineEvent[]);
+  }
+
+  /**
+   * Create a new timeline event
+   */
+  static async createEvent(eventData: AssetTimelineEventInsert): Promise<AssetTimelineEvent> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('asset_timeline_events')
+      .insert({
+        asset_id: eventData.asset_id,
+        event_type: eventData.event_type,
+        event_name: eventData.event_name.trim(),
+        event_date: eventData.event_date,
+        description: eventData.description?.trim() || ''
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create timeline event: ${error.message}`);
+    }
+    if (!data) throw new Error('Failed to create timeline event');
+
+    return data as AssetTimelineEvent;
+  }
+
+  /**
+   * Update an existing timeline event
+   * The previous values are captured in the history table by a database trigger
+   */
+  static async updateEvent(eventId: string, updates: AssetTimelineEventUpdate): Promise<AssetTimelineEvent> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('asset_timeline_events')
+      .update({
+        ...updates,
+        ...(updates.event_name !== undefined && { event_name: updates.event_name.trim() }),
+        ...(updates.description !== undefined && { description: updates.description.trim() })
+      })
+      .eq('id', eventId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update timeline event: ${error.message}`);
+    }
+    if (!data) throw new Error('Failed to update timeline event');
+
+    return data as AssetTimelineEvent;
+  }
+
+  /**
+   * Delete a timeline event by ID
+   */
+  static async deleteEvent(eventId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('asset_timeline_events')
+      .delete()
+      .eq('id', eventId);
+
+    if (error) {
+      throw new Error(`Failed to delete timeline event: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the edit history for a single timeline event (newest change first)
+   */
+  static async getEventHistory(eventId: string): Promise<AssetTimelineEventHistory[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('asset_timeline_event_history')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch timeline event history: ${error.message}`);
+    }
+
+    return (data || []) as AssetTimelineEventHistory[];
+  }
+}
@@ -2,6 +2,7 @@ import { getSupabase } from '@/lib/supabase';
 import type { Project, Asset, Supplier } from '@/lib/supabase';
 import type { QuoteInsert, AssetUpdate, QuoteUpdate } from '@/types/database';
 import { getSupplierPrimaryEmail } from '@/utils/supplierUtils';
+import { ClientApprovalService } from './clientApprovalService';
 
 export class AutomationService {
   // Note: Brief processing functions have been migrated to Railway backend
@@ -109,8 +110,10 @@ export class AutomationService {
       .eq('id', asset.id);
   }
 
-  // Process quote acceptance
+  // Process quote acceptance (throws when the client approval state blocks it)
   static async acceptQuote(quoteId: string): Promise<void> {
+    await ClientApprovalService.assertQuoteCanBeAccepted(quoteId);
+
     const supabase = await getSupabase();
     const { data: quote } = await supabase
       .from('quotes')
@@ -164,7 +167,7 @@ export class AutomationService {
       newStatus = 'Completed';
     } else if (statuses.some(status => status === 'In Production' || status === 'Approved')) {
       newStatus = 'In Progress';
-    } else if (statuses.some(status => status === 'Quoting')) {
+    } else if (statuses.some(status => status === 'Quoting' || status === 'Reviewing')) {
       newStatus = 'Quoting';
     }
 
@@ -0,0 +1,240 @@
+import { getSupabase } from '@/lib/supabase';
+import type {
+  BillingInvoice,
+  BillingPlan,
+  BillingSubscription,
+  BillingUsage
+} from '@/types/database';
+import { formatCents } from '@/utils/billing';
+import {
+  createPdfDocument,
+  PDF_PAGE_WIDTH,
+  PDF_PAGE_HEIGHT,
+  type PdfColor
+} from '@/utils/pdfDocument';
+import { downloadBlob } from '@/utils/spreadsheetExport';
+
+/** Who the invoice is billed to */
+export interface InvoiceRecipient {
+  name: string;
+  companyName: string;
+  email: string;
+}
+
+const MARGIN = 40;
+const CONTENT_RIGHT = PDF_PAGE_WIDTH - MARGIN;
+
+const ACCENT: PdfColor = [0.05, 0.58, 0.53];
+const TEXT: PdfColor = [0.12, 0.12, 0.14];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const BAND: PdfColor = [0.94, 0.96, 0.96];
+
+const STATUS_LABELS: Record<BillingInvoice['status'], string> = {
+  open: 'DUE',
+  paid: 'PAID',
+  failed: 'PAYMENT FAILED',
+  void: 'VOID'
+};
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+export class BillingService {
+  static async getPlans(): Promise<BillingPlan[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('billing_plans')
+      .select('*')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch plans: ${error.message}`);
+    }
+
+    return (data || []) as BillingPlan[];
+  }
+
+  /**
+   * Get the producer's subscription, or null when they are on the Free plan by default
+   */
+  static async getSubscription(): Promise<BillingSubscription | null> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('billing_subscriptions')
+      .select('producer_id, plan_id, status, provider, current_period_start, current_period_end')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch subscription: ${error.message}`);
+    }
+
+    return data as BillingSubscription | null;
+  }
+
+  static async getUsage(): Promise<BillingUsage> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('get_billing_usage');
+
+    if (error) {
+      throw new Error(`Failed to fetch plan usage: ${error.message}`);
+    }
+
+    const usage = (data || [])[0];
+    if (!usage) {
+      throw new Error('Failed to fetch plan usage: no usage returned');
+    }
+    return usage as BillingUsage;
+  }
+
+  /**
+   * Get the producer's invoices, newest first
+   */
+  static async getInvoices(): Promise<BillingInvoice[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('billing_invoices')
+      .select('*')
+      .order('issued_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch invoices: ${error.message}`);
+    }
+
+    return (data || []) as BillingInvoice[];
+  }
+
+  /**
+   * Move to another plan; paid plans are charged by the backend's payment provider
+   */
+  static async changePlan(planId: string): Promise<BillingSubscription> {
+    const supabase = await getSupabase();
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('Authentication required. Please log in.');
+    }
+
+    const RAILWAY_API_URL = import.meta.env.VITE_RAILWAY_API_URL || '';
+    if (!RAILWAY_API_URL) {
+      throw new Error('Railway API URL not configured. Please set VITE_RAILWAY_API_URL environment variable.');
+    }
+
+    const response = await fetch(`${RAILWAY_API_URL.replace(/\/$/, '')}/api/billing/subscription`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ planId })
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error?.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return data.data as BillingSubscription;
+  }
+
+  /**
+   * Render an invoice as a PDF
+   */
+  static renderInvoicePdf(invoice: BillingInvoice, recipient: InvoiceRecipient): Blob {
+    const pdf = createPdfDocument();
+    const money = (cents: number) => formatCents(cents, invoice.currency);
+    let y = 0;
+
+    // Header
+    pdf.rect(0, 0, PDF_PAGE_WIDTH, 90, ACCENT);
+    pdf.text(MARGIN, 50, 'ProdBay', { size: 20, bold: true, color: [1, 1, 1] });
+    pdf.text(CONTENT_RIGHT, 50, 'INVOICE', { size: 12, bold: true, color: [1, 1, 1], align: 'right' });
+    pdf.text(CONTENT_RIGHT, 68, invoice.invoice_number, { size: 9, color: [1, 1, 1], align: 'right' });
+    y = 124;
+
+    // Billed to / invoice details
+    pdf.text(MARGIN, y, 'Billed to', { size: 9, color: MUTED });
+    [recipient.companyName, recipient.name, recipient.email].filter(Boolean).forEach((line, index) => {
+      pdf.text(MARGIN, y + 16 + index * 14, line, { size: 10, color: TEXT });
+    });
+
+    const details: [string, string][] = [
+      ['Invoice date', formatDate(invoice.issued_at)],
+      ['Status', STATUS_LABELS[invoice.status]],
+      ...(invoice.paid_at ? [['Paid on', formatDate(invoice.paid_at)] as [string, string]] : [])
+    ];
+    details.forEach(([label, value], index) => {
+      pdf.text(CONTENT_RIGHT - 150, y + index * 16, label, { size: 9, color: MUTED });
+      pdf.text(CONTENT_RIGHT, y + index * 16, value, { size: 10, color: TEXT, align: 'right' });
+    });
+    y += 80;
+
+    // Line item
+    pdf.rect(MARGIN, y, CONTENT_RIGHT - MARGIN, 20, ACCENT);
+    pdf.text(MARGIN + 8, y + 13, 'Description', { size: 9, bold: true, color: [1, 1, 1] });
+    pdf.text(CONTENT_RIGHT - 8, y + 13, 'Amount', { size: 9, bold: true, color: [1, 1, 1], align: 'right' });
+    y += 36;
+
+    pdf.text(MARGIN + 8, y, invoice.description, { size: 10, color: TEXT });
+    pdf.text(CONTENT_RIGHT - 8, y, money(invoice.amount_cents), { size: 10, color: TEXT, align: 'right' });
+    pdf.text(MARGIN + 8, y + 14, `${formatDate(invoice.period_start)} - ${formatDate(invoice.period_end)}`, {
+      size: 9,
+      color: MUTED
+    });
+    y += 34;
+
+    // Total
+    pdf.line(CONTENT_RIGHT - 200, y, CONTENT_RIGHT, y, TEXT, 0.75);
+    y += 10;
+    pdf.rect(CONTENT_RIGHT - 200, y, 200, 24, BAND);
+    pdf.text(CONTENT_RIGHT - 120, y + 16, 'Total', { size: 12, bold: true, color: TEXT, align: 'right' });
+    pdf.text(CONTENT_RIGHT - 8, y + 16, money(invoice.amount_cents), { size: 12, bold: true, color: ACCENT, align: 'right' });
+
+    if (invoice.status === 'failed' && invoice.failure_reason) {
+      pdf.text(MARGIN, y + 56, `Payment failed: ${invoice.failure_reason}`, { size: 9, color: [0.75, 0.15, 0.15] });
+    }
+
+    // Footer
+    const footerY = PDF_PAGE_HEIGHT - 30;
+    pdf.line(MARGIN, footerY - 12, CONTENT_RIGHT, footerY - 12);
+    pdf.text(MARGIN, footerY, 'ProdBay - Production Management Platform', { size: 8, color: MUTED });
+    if (invoice.provider_payment_id) {
+      pdf.text(CONTENT_RIGHT, footerY, `Payment reference ${invoice.provider_payment_id}`, {
+        size: 8,
+        color: MUTED,
+        align: 'right'
+      });
+    }
+
+    return pdf.toBlob();
+  }
+
+  /**
+   * Download an invoice PDF, billed to the signed-in producer
+   */
+  static async downloadInvoice(invoice: BillingInvoice): Promise<void> {
+    const recipient = await this.getRecipient();
+    downloadBlob(this.renderInvoicePdf(invoice, recipient), `prodbay-${invoice.invoice_number.toLowerCase()}.pdf`);
+  }
+
+  private static async getRecipient(): Promise<InvoiceRecipient> {
+    const supabase = await getSupabase();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      return { name: '', companyName: '', email: '' };
+    }
+
+    const { data: producer } = await supabase
+      .from('producers')
+      .select('full_name, email, company_name')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    return {
+      name: producer?.full_name || '',
+      companyName: producer?.company_name || '',
+      email: producer?.email || user.email || ''
+    };
+  }
+}
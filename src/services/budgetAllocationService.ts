@@ -0,0 +1,111 @@
+import { getSupabase } from '@/lib/supabase';
+import type { BudgetAllocation, BudgetAllocationInput } from '@/types/database';
+import { ExchangeRateService } from './exchangeRateService';
+import { DEFAULT_CURRENCY } from '@/utils/currency';
+import { getAcceptanceOverruns, type AllocationOverrun } from '@/utils/budgetAllocations';
+
+export class BudgetAllocationService {
+  /**
+   * Get every allocation (per asset and per tag) for a project
+   */
+  static async getAllocations(projectId: string): Promise<BudgetAllocation[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('budget_allocations')
+      .select('*')
+      .eq('project_id', projectId);
+
+    if (error) {
+      throw new Error(`Failed to fetch budget allocations: ${error.message}`);
+    }
+
+    return (data || []) as BudgetAllocation[];
+  }
+
+  /**
+   * Replace a project's allocations
+   * Entries without an amount are removed; amounts are in the project base currency
+   */
+  static async saveAllocations(projectId: string, allocations: BudgetAllocationInput[]): Promise<BudgetAllocation[]> {
+    const invalid = allocations.find(allocation => !(allocation.amount >= 0));
+    if (invalid) {
+      throw new Error('Allocations must be 0 or more');
+    }
+
+    const supabase = await getSupabase();
+    const { error: deleteError } = await supabase
+      .from('budget_allocations')
+      .delete()
+      .eq('project_id', projectId);
+
+    if (deleteError) {
+      throw new Error(`Failed to save budget allocations: ${deleteError.message}`);
+    }
+
+    if (allocations.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('budget_allocations')
+      .insert(allocations.map(allocation => ({
+        project_id: projectId,
+        asset_id: allocation.asset_id,
+        tag: allocation.asset_id ? null : allocation.tag,
+        amount: allocation.amount
+      })))
+      .select('*');
+
+    if (error) {
+      throw new Error(`Failed to save budget allocations: ${error.message}`);
+    }
+
+    return (data || []) as BudgetAllocation[];
+  }
+
+  /**
+   * Allocations (for the quote's asset and its tags) that accepting the quote would exceed
+   */
+  static async getAcceptanceOverruns(quoteId: string): Promise<AllocationOverrun[]> {
+    const supabase = await getSupabase();
+    const { data: quote, error: quoteError } = await supabase
+      .from('quotes')
+      .select('id, asset:assets(project:projects(id, base_currency, producer_id))')
+      .eq('id', quoteId)
+      .single();
+
+    if (quoteError) {
+      throw new Error(`Failed to fetch quote: ${quoteError.message}`);
+    }
+
+    const project = (quote as { asset?: { project?: { id: string; base_currency?: string; producer_id?: string } | null } | null })
+      ?.asset?.project;
+    if (!project) return [];
+
+    const allocations = await this.getAllocations(project.id);
+    if (allocations.length === 0) return [];
+
+    const { data: assets, error: assetsError } = await supabase
+      .from('assets')
+      .select('id, asset_name, tags, sealed_bids, bids_open_at, bids_unsealed_at')
+      .eq('project_id', project.id);
+
+    if (assetsError) {
+      throw new Error(`Failed to fetch assets: ${assetsError.message}`);
+    }
+
+    const { data: quotes, error: quotesError } = await supabase
+      .from('quotes')
+      .select('id, asset_id, cost, currency, status')
+      .in('asset_id', (assets || []).map(asset => asset.id));
+
+    if (quotesError) {
+      throw new Error(`Failed to fetch quotes: ${quotesError.message}`);
+    }
+
+    const rates = await ExchangeRateService.getRates(project.producer_id);
+
+    return getAcceptanceOverruns(quoteId, assets || [], quotes || [], allocations, {
+      baseCurrency: project.base_currency || DEFAULT_CURRENCY,
+      rates
+    });
+  }
+}
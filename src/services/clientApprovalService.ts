@@ -0,0 +1,208 @@
+import { getSupabase } from '@/lib/supabase';
+import type { Asset, ClientApproval, ClientApprovalHistoryEntry } from '@/types/database';
+import { getQuoteApprovalBlocker } from '@/utils/clientApprovals';
+import { isBidSealed } from '@/utils/sealedBids';
+
+export interface ClientApprovalRequestItem {
+  assetId: string;
+  /** Omit for an asset sign-off */
+  quoteId?: string | null;
+}
+
+const APPROVAL_SELECT = `
+  *,
+  asset:assets(id, asset_name, sealed_bids, bids_open_at, bids_unsealed_at),
+  quote:quotes(id, cost, currency, status, supplier:suppliers(id, supplier_name))
+`;
+
+export class ClientApprovalService {
+  /**
+   * Get every approval request for a project, newest first
+   */
+  static async getApprovalsForProject(projectId: string): Promise<ClientApproval[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('client_approvals')
+      .select(APPROVAL_SELECT)
+      .eq('project_id', projectId)
+      .order('requested_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch client approvals: ${error.message}`);
+    }
+
+    return (data || []) as ClientApproval[];
+  }
+
+  /**
+   * Get the audit trail for a project's approvals, oldest first
+   */
+  static async getHistoryForProject(projectId: string): Promise<ClientApprovalHistoryEntry[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('client_approval_history')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('changed_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch client approval history: ${error.message}`);
+    }
+
+    return (data || []) as ClientApprovalHistoryEntry[];
+  }
+
+  /**
+   * Send quotes and/or assets to the client for approval
+   * Items that already have a pending request are skipped; sealed quotes are refused
+   * @returns The approvals that were created
+   */
+  static async requestApprovals(
+    projectId: string,
+    items: ClientApprovalRequestItem[],
+    message: string = ''
+  ): Promise<ClientApproval[]> {
+    if (items.length === 0) return [];
+
+    const supabase = await getSupabase();
+    const quoteIds = items.map(item => item.quoteId).filter((id): id is string => Boolean(id));
+    if (quoteIds.length > 0) {
+      const { data: quotes, error: quotesError } = await supabase
+        .from('quotes')
+        .select('id, asset:assets(sealed_bids, bids_open_at, bids_unsealed_at)')
+        .in('id', quoteIds);
+
+      if (quotesError) {
+        throw new Error(`Failed to fetch quotes: ${quotesError.message}`);
+      }
+
+      const sealed = (quotes || []).some(quote =>
+        isBidSealed((quote as { asset?: Pick<Asset, 'sealed_bids' | 'bids_open_at' | 'bids_unsealed_at'> | null }).asset)
+      );
+      if (sealed) {
+        throw new Error('Sealed bids can\'t be sent to the client until the bids open');
+      }
+    }
+
+    const { data: pending, error: pendingError } = await supabase
+      .from('client_approvals')
+      .select('asset_id, quote_id')
+      .eq('project_id', projectId)
+      .eq('status', 'pending');
+
+    if (pendingError) {
+      throw new Error(`Failed to fetch client approvals: ${pendingError.message}`);
+    }
+
+    const pendingKeys = new Set((pending || []).map(row => `${row.asset_id}:${row.quote_id ?? ''}`));
+    const rows = items
+      .filter(item => !pendingKeys.has(`${item.assetId}:${item.quoteId ?? ''}`))
+      .map(item => ({
+        project_id: projectId,
+        asset_id: item.assetId,
+        quote_id: item.quoteId ?? null,
+        request_message: message.trim()
+      }));
+
+    if (rows.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('client_approvals')
+      .insert(rows)
+      .select(APPROVAL_SELECT);
+
+    if (error) {
+      throw new Error(`Failed to request client approval: ${error.message}`);
+    }
+
+    return (data || []) as ClientApproval[];
+  }
+
+  /**
+   * Record the client's decision on a pending request
+   */
+  static async decide(
+    approvalId: string,
+    decision: 'approved' | 'rejected',
+    decidedByName: string,
+    comment: string = ''
+  ): Promise<ClientApproval> {
+    if (!decidedByName.trim()) {
+      throw new Error('Please enter your name to record the decision');
+    }
+    if (decision === 'rejected' && !comment.trim()) {
+      throw new Error('Please add a comment explaining the rejection');
+    }
+
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('client_approvals')
+      .update({
+        status: decision,
+        decided_by_name: decidedByName.trim(),
+        decision_comment: comment.trim() || null
+      })
+      .eq('id', approvalId)
+      .eq('status', 'pending')
+      .select(APPROVAL_SELECT)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record client decision: ${error.message}`);
+    }
+    if (!data) throw new Error('Approval request is no longer pending');
+
+    return data as ClientApproval;
+  }
+
+  /**
+   * Withdraw a pending request (producer side)
+   */
+  static async withdraw(approvalId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('client_approvals')
+      .update({ status: 'withdrawn' })
+      .eq('id', approvalId)
+      .eq('status', 'pending');
+
+    if (error) {
+      throw new Error(`Failed to withdraw approval request: ${error.message}`);
+    }
+  }
+
+  /**
+   * Throw when the quote's client approval state does not allow acceptance
+   */
+  static async assertQuoteCanBeAccepted(quoteId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const [{ data: quote, error: quoteError }, { data: approvals, error: approvalsError }] = await Promise.all([
+      supabase
+        .from('quotes')
+        .select('id, asset:assets(project:projects(requires_client_approval))')
+        .eq('id', quoteId)
+        .single(),
+      supabase
+        .from('client_approvals')
+        .select('status')
+        .eq('quote_id', quoteId)
+        .neq('status', 'withdrawn')
+        .order('requested_at', { ascending: false })
+        .limit(1)
+    ]);
+
+    if (quoteError) {
+      throw new Error(`Failed to fetch quote: ${quoteError.message}`);
+    }
+    if (approvalsError) {
+      throw new Error(`Failed to fetch client approval: ${approvalsError.message}`);
+    }
+
+    const project = (quote as { asset?: { project?: { requires_client_approval?: boolean } | null } | null })
+      ?.asset?.project;
+    const blocker = getQuoteApprovalBlocker(approvals?.[0], Boolean(project?.requires_client_approval));
+    if (blocker) {
+      throw new Error(blocker);
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { getSupabase } from '@/lib/supabase';
+import type { Project } from '@/lib/supabase';
+import type { ClientMessage, ExchangeRate } from '@/types/database';
+import { ProducerService, type AssetWithAcceptedQuote } from './producerService';
+import { ExchangeRateService } from './exchangeRateService';
+import { ClientMessageService } from './clientMessageService';
+import { formatCurrency } from '@/utils/currency';
+import type { ClientEstimate } from '@/utils/clientEstimate';
+import {
+  createPdfDocument,
+  wrapPdfText,
+  PDF_PAGE_WIDTH,
+  PDF_PAGE_HEIGHT,
+  type PdfColor
+} from '@/utils/pdfDocument';
+import { downloadBlob, toFileSlug } from '@/utils/spreadsheetExport';
+
+/** Producer details printed on the estimate */
+export interface EstimateBranding {
+  companyName: string;
+  contactName: string;
+  email: string;
+  phone: string;
+}
+
+export interface ClientEstimateSource {
+  assets: AssetWithAcceptedQuote[];
+  rates: ExchangeRate[];
+  branding: EstimateBranding;
+}
+
+const MARGIN = 40;
+const CONTENT_RIGHT = PDF_PAGE_WIDTH - MARGIN;
+const FOOTER_Y = PDF_PAGE_HEIGHT - 30;
+const BOTTOM_LIMIT = PDF_PAGE_HEIGHT - 70;
+
+const ACCENT: PdfColor = [0.05, 0.58, 0.53];
+const TEXT: PdfColor = [0.12, 0.12, 0.14];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const BAND: PdfColor = [0.94, 0.96, 0.96];
+
+const formatDate = (value: string | Date): string =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+export class ClientEstimateService {
+  /**
+   * Load the accepted quotes, exchange rates and producer details for a project's estimate
+   */
+  static async loadEstimateSource(project: Project): Promise<ClientEstimateSource> {
+    const [assets, rates, branding] = await Promise.all([
+      ProducerService.getAssetsWithAcceptedQuotes(project.id),
+      ExchangeRateService.getRates(project.producer_id),
+      this.getBranding()
+    ]);
+
+    return { assets, rates, branding };
+  }
+
+  /**
+   * Render the estimate as a PDF
+   */
+  static renderPdf(project: Project, estimate: ClientEstimate, branding: EstimateBranding): Blob {
+    const pdf = createPdfDocument();
+    const money = (amount: number) => formatCurrency(amount, estimate.currency);
+    const showSupplier = !estimate.options.hideSupplierNames;
+    const columns = {
+      item: MARGIN + 8,
+      supplier: 300,
+      quantity: showSupplier ? 450 : 420,
+      amount: CONTENT_RIGHT - 8
+    };
+    const itemWidth = (showSupplier ? columns.supplier : columns.quantity - 40) - columns.item - 10;
+    let y = 0;
+
+    const drawFooter = () => {
+      const contact = [branding.contactName, branding.email, branding.phone].filter(Boolean).join('  |  ');
+      pdf.line(MARGIN, FOOTER_Y - 12, CONTENT_RIGHT, FOOTER_Y - 12);
+      pdf.text(MARGIN, FOOTER_Y, contact, { size: 8, color: MUTED });
+      pdf.text(CONTENT_RIGHT, FOOTER_Y, `Page ${pdf.pageCount()}`, { size: 8, color: MUTED, align: 'right' });
+    };
+
+    const drawTableHeader = () => {
+      pdf.rect(MARGIN, y, CONTENT_RIGHT - MARGIN, 20, ACCENT);
+      pdf.text(columns.item, y + 13, 'Item', { size: 9, bold: true, color: [1, 1, 1] });
+      if (showSupplier) {
+        pdf.text(columns.supplier, y + 13, 'Supplier', { size: 9, bold: true, color: [1, 1, 1] });
+      }
+      pdf.text(columns.quantity, y + 13, 'Qty', { size: 9, bold: true, color: [1, 1, 1], align: 'right' });
+      pdf.text(columns.amount, y + 13, 'Amount', { size: 9, bold: true, color: [1, 1, 1], align: 'right' });
+      y += 28;
+    };
+
+    // Start a new page when the next block would run into the footer
+    const ensureSpace = (height: number, withTableHeader = true) => {
+      if (y + height <= BOTTOM_LIMIT) return;
+      drawFooter();
+      pdf.addPage();
+      y = MARGIN;
+      if (withTableHeader) drawTableHeader();
+    };
+
+    // Branded header
+    pdf.rect(0, 0, PDF_PAGE_WIDTH, 90, ACCENT);
+    pdf.text(MARGIN, 50, branding.companyName || branding.contactName || 'Cost Estimate', {
+      size: 20,
+      bold: true,
+      color: [1, 1, 1]
+    });
+    pdf.text(CONTENT_RIGHT, 50, 'COST ESTIMATE', { size: 12, bold: true, color: [1, 1, 1], align: 'right' });
+    pdf.text(CONTENT_RIGHT, 68, formatDate(new Date()), { size: 9, color: [1, 1, 1], align: 'right' });
+    y = 120;
+
+    // Project details
+    const details: [string, string][] = [
+      ['Project', project.project_name],
+      ['Client', project.client_name],
+      ...(project.event_date ? [['Event date', formatDate(project.event_date)] as [string, string]] : []),
+      ['Currency', estimate.currency]
+    ];
+    details.forEach(([label, value]) => {
+      pdf.text(MARGIN, y, label, { size: 9, color: MUTED });
+      pdf.text(MARGIN + 80, y, value, { size: 10, color: TEXT });
+      y += 16;
+    });
+    y += 14;
+
+    drawTableHeader();
+
+    estimate.groups.forEach((group) => {
+      if (estimate.options.groupByTag) {
+        ensureSpace(40);
+        pdf.rect(MARGIN, y - 12, CONTENT_RIGHT - MARGIN, 18, BAND);
+        pdf.text(columns.item, y, group.label, { size: 10, bold: true, color: TEXT });
+        y += 18;
+      }
+
+      group.lines.forEach((line) => {
+        const nameLines = wrapPdfText(line.assetName, 10, itemWidth);
+        ensureSpace(nameLines.length * 13 + 6);
+        nameLines.forEach((text, index) => {
+          pdf.text(columns.item, y + index * 13, text, { size: 10, color: TEXT });
+        });
+        if (showSupplier && line.supplierName) {
+          pdf.text(columns.supplier, y, wrapPdfText(line.supplierName, 9, columns.quantity - columns.supplier - 40)[0], {
+            size: 9,
+            color: MUTED
+          });
+        }
+        if (line.quantity !== null) {
+          pdf.text(columns.quantity, y, String(line.quantity), { size: 10, color: TEXT, align: 'right' });
+        }
+        pdf.text(columns.amount, y, money(line.price), { size: 10, color: TEXT, align: 'right' });
+        y += nameLines.length * 13 + 6;
+      });
+
+      if (estimate.options.groupByTag) {
+        ensureSpace(20);
+        pdf.text(columns.quantity, y, `${group.label} subtotal`, { size: 9, color: MUTED, align: 'right' });
+        pdf.text(columns.amount, y, money(group.subtotal), { size: 10, bold: true, color: TEXT, align: 'right' });
+        y += 22;
+      }
+    });
+
+    // Totals
+    ensureSpace(80, false);
+    pdf.line(columns.quantity - 120, y, CONTENT_RIGHT, y, TEXT, 0.75);
+    y += 16;
+    const totals: [string, number][] = [['Subtotal', estimate.subtotal]];
+    if (estimate.options.managementFeePercent > 0) {
+      totals.push([`Management fee (${estimate.options.managementFeePercent}%)`, estimate.managementFee]);
+    }
+    totals.forEach(([label, amount]) => {
+      pdf.text(columns.quantity, y, label, { size: 10, color: TEXT, align: 'right' });
+      pdf.text(columns.amount, y, money(amount), { size: 10, color: TEXT, align: 'right' });
+      y += 16;
+    });
+    pdf.rect(columns.quantity - 120, y - 10, CONTENT_RIGHT - columns.quantity + 120, 24, BAND);
+    pdf.text(columns.quantity, y + 6, 'Total', { size: 12, bold: true, color: TEXT, align: 'right' });
+    pdf.text(columns.amount, y + 6, money(estimate.total), { size: 12, bold: true, color: ACCENT, align: 'right' });
+    y += 40;
+
+    if (estimate.options.notes.trim()) {
+      const noteLines = wrapPdfText(estimate.options.notes.trim(), 9, CONTENT_RIGHT - MARGIN);
+      ensureSpace(24, false);
+      pdf.text(MARGIN, y, 'Notes', { size: 10, bold: true, color: TEXT });
+      y += 14;
+      noteLines.forEach((text) => {
+        ensureSpace(12, false);
+        pdf.text(MARGIN, y, text, { size: 9, color: MUTED });
+        y += 12;
+      });
+    }
+
+    drawFooter();
+    return pdf.toBlob();
+  }
+
+  static getFilename(project: Project): string {
+    return `${toFileSlug(project.project_name)}-estimate.pdf`;
+  }
+
+  /**
+   * Download the estimate PDF
+   */
+  static download(project: Project, estimate: ClientEstimate, branding: EstimateBranding): void {
+    downloadBlob(this.renderPdf(project, estimate, branding), this.getFilename(project));
+  }
+
+  /**
+   * Send the estimate PDF to the client as a message attachment
+   */
+  static async sendToClient(
+    project: Project,
+    estimate: ClientEstimate,
+    branding: EstimateBranding,
+    message: string
+  ): Promise<ClientMessage> {
+    return ClientMessageService.sendMessage(project.id, message, {
+      blob: this.renderPdf(project, estimate, branding),
+      filename: this.getFilename(project)
+    });
+  }
+
+  /**
+   * Current producer's company and contact details
+   */
+  private static async getBranding(): Promise<EstimateBranding> {
+    const supabase = await getSupabase();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      return { companyName: '', contactName: '', email: '', phone: '' };
+    }
+
+    const { data: producer } = await supabase
+      .from('producers')
+      .select('full_name, email, company_name, phone_number')
+      .eq('id', user.id)
+      .single();
+
+    const metadata = user.user_metadata ?? {};
+    const firstName = typeof metadata.first_name === 'string' ? metadata.first_name : '';
+    const lastName = typeof metadata.last_name === 'string' ? metadata.last_name : '';
+
+    return {
+      companyName: producer?.company_name ?? '',
+      contactName: [firstName, lastName].filter(Boolean).join(' ') || producer?.full_name || '',
+      email: producer?.email ?? user.email ?? '',
+      phone: producer?.phone_number ?? ''
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { getSupabase } from '@/lib/supabase';
+import type { ClientMessage } from '@/types/database';
+
+const ATTACHMENT_BUCKET = 'quote-attachments';
+// Signed download links stay valid for an hour
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+
+export interface ClientMessageAttachment {
+  blob: Blob;
+  filename: string;
+}
+
+export class ClientMessageService {
+  /**
+   * Get a project's client messages, newest first
+   */
+  static async getMessagesForProject(projectId: string): Promise<ClientMessage[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('client_messages')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch client messages: ${error.message}`);
+    }
+
+    return (data || []) as ClientMessage[];
+  }
+
+  /**
+   * Send a message to the client, uploading the attachment first when given
+   */
+  static async sendMessage(
+    projectId: string,
+    body: string,
+    attachment?: ClientMessageAttachment
+  ): Promise<ClientMessage> {
+    if (!body.trim() && !attachment) {
+      throw new Error('Please write a message or attach a document');
+    }
+
+    const supabase = await getSupabase();
+    let storagePath: string | null = null;
+
+    if (attachment) {
+      const safeName = attachment.filename.replace(/[^a-zA-Z0-9._-]/g, '_');
+      storagePath = `client-messages/${projectId}/${Date.now()}-${safeName}`;
+      const { error: uploadError } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .upload(storagePath, attachment.blob, {
+          contentType: attachment.blob.type || 'application/octet-stream',
+          upsert: false
+        });
+
+      if (uploadError) {
+        throw new Error(`Failed to upload attachment: ${uploadError.message}`);
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('client_messages')
+      .insert({
+        project_id: projectId,
+        body: body.trim(),
+        attachment_filename: attachment?.filename ?? null,
+        attachment_storage_path: storagePath,
+        attachment_content_type: attachment ? attachment.blob.type || null : null,
+        attachment_size_bytes: attachment?.blob.size ?? null
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to send client message: ${error.message}`);
+    }
+
+    return data as ClientMessage;
+  }
+
+  /**
+   * Get a temporary download link for a message attachment
+   */
+  static async getAttachmentUrl(message: ClientMessage): Promise<string> {
+    if (!message.attachment_storage_path) {
+      throw new Error('This message has no attachment');
+    }
+
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrl(message.attachment_storage_path, DOWNLOAD_URL_TTL_SECONDS, {
+        download: message.attachment_filename ?? true
+      });
+
+    if (error || !data?.signedUrl) {
+      throw new Error(`Failed to get attachment link: ${error?.message ?? 'no URL returned'}`);
+    }
+
+    return data.signedUrl;
+  }
+}
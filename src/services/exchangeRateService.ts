@@ -0,0 +1,90 @@
+import { getSupabase } from '@/lib/supabase';
+import type { ExchangeRate, ExchangeRateInsert } from '@/types/database';
+
+export class ExchangeRateService {
+  /**
+   * Get a producer's exchange rates (e.g. a project's owner), or the signed-in producer's
+   * RLS also shows the rates of producers whose projects are shared with the caller's organisation
+   */
+  static async getRates(producerId?: string): Promise<ExchangeRate[]> {
+    const supabase = await getSupabase();
+    let ownerId = producerId;
+    if (!ownerId) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user?.id) return [];
+      ownerId = user.id;
+    }
+
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .eq('producer_id', ownerId)
+      .order('from_currency', { ascending: true })
+      .order('to_currency', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch exchange rates: ${error.message}`);
+    }
+
+    return (data || []) as ExchangeRate[];
+  }
+
+  /**
+   * Create or update the rate for a currency pair
+   * A pair is unique per producer, so saving an existing pair overwrites its rate
+   */
+  static async upsertRate(rateData: ExchangeRateInsert): Promise<ExchangeRate> {
+    const fromCurrency = rateData.from_currency.trim().toUpperCase();
+    const toCurrency = rateData.to_currency.trim().toUpperCase();
+
+    if (fromCurrency === toCurrency) {
+      throw new Error('Choose two different currencies');
+    }
+    if (!(rateData.rate > 0)) {
+      throw new Error('Exchange rate must be greater than 0');
+    }
+
+    const supabase = await getSupabase();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      throw new Error('You must be logged in to manage exchange rates');
+    }
+
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        {
+          producer_id: user.id,
+          from_currency: fromCurrency,
+          to_currency: toCurrency,
+          rate: rateData.rate
+        },
+        { onConflict: 'producer_id,from_currency,to_currency' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save exchange rate: ${error.message}`);
+    }
+    if (!data) throw new Error('Failed to save exchange rate');
+
+    return data as ExchangeRate;
+  }
+
+  /**
+   * Delete an exchange rate by ID
+   */
+  static async deleteRate(rateId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('id', rateId);
+
+    if (error) {
+      throw new Error(`Failed to delete exchange rate: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { getSupabase } from '@/lib/supabase';
+import type { QuoteFollowUpRule, QuoteFollowUpRuleInput } from '@/types/database';
+
+export class FollowUpRuleService {
+  /**
+   * Get the signed-in producer's follow-up rules, earliest step first
+   */
+  static async getRules(): Promise<QuoteFollowUpRule[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('quote_follow_up_rules')
+      .select('*')
+      .order('delay_hours', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch follow-up rules: ${error.message}`);
+    }
+
+    return (data || []) as QuoteFollowUpRule[];
+  }
+
+  /**
+   * Create a rule, or update it when `ruleId` is given
+   */
+  static async saveRule(rule: QuoteFollowUpRuleInput, ruleId?: string): Promise<QuoteFollowUpRule> {
+    if (!Number.isInteger(rule.delay_hours) || rule.delay_hours <= 0) {
+      throw new Error('Delay must be a whole number of hours greater than 0');
+    }
+    const message = rule.message.trim();
+    if (!message) {
+      throw new Error('Reminder message is required');
+    }
+
+    const values = { delay_hours: rule.delay_hours, message, is_active: rule.is_active };
+
+    const supabase = await getSupabase();
+    const query = ruleId
+      ? supabase.from('quote_follow_up_rules').update(values).eq('id', ruleId)
+      : supabase.from('quote_follow_up_rules').insert(values);
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`There is already a reminder after ${rule.delay_hours}h`);
+      }
+      throw new Error(`Failed to save follow-up rule: ${error.message}`);
+    }
+    if (!data) throw new Error('Failed to save follow-up rule');
+
+    return data as QuoteFollowUpRule;
+  }
+
+  /**
+   * Delete a rule by ID
+   * Reminders already sent stay in the quote chat.
+   */
+  static async deleteRule(ruleId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('quote_follow_up_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      throw new Error(`Failed to delete follow-up rule: ${error.message}`);
+    }
+  }
+}
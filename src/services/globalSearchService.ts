@@ -0,0 +1,111 @@
+import { getSupabase } from '@/lib/supabase';
+import { ProducerService } from './producerService';
+import type { CommandSearchIndex, MessageSearchHit, SearchableAsset } from '@/utils/commandSearch';
+
+const MESSAGE_SEARCH_LIMIT = 10;
+
+// Escape LIKE wildcards so the term is matched literally
+const escapeLikePattern = (term: string): string => term.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+interface MessageSearchRow {
+  id: string;
+  quote_id: string;
+  content: string;
+  created_at: string;
+  quote: {
+    supplier: { supplier_name: string } | null;
+    asset: { asset_name: string; project_id: string } | null;
+  } | null;
+}
+
+export class GlobalSearchService {
+  /**
+   * Load the producer's projects, assets and suppliers for the command palette
+   * Message text is searched separately (searchMessages) since it is too large to preload.
+   */
+  static async loadIndex(): Promise<CommandSearchIndex> {
+    const [projects, suppliers] = await Promise.all([
+      ProducerService.loadProjects(),
+      ProducerService.loadSuppliers()
+    ]);
+    const projectIds = projects.map(project => project.id);
+    if (projectIds.length === 0) {
+      return { projects, assets: [], suppliers, latestQuoteIdBySupplier: {} };
+    }
+
+    const supabase = await getSupabase();
+    const [assetsResult, quotesResult] = await Promise.all([
+      supabase
+        .from('assets')
+        .select('id, project_id, asset_name, specifications, status, tags')
+        .in('project_id', projectIds)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('quotes')
+        .select('id, supplier_id, asset:assets!inner(project_id)')
+        .in('asset.project_id', projectIds)
+        .order('created_at', { ascending: false })
+    ]);
+
+    if (assetsResult.error) {
+      throw new Error(`Failed to load assets for search: ${assetsResult.error.message}`);
+    }
+    if (quotesResult.error) {
+      throw new Error(`Failed to load quotes for search: ${quotesResult.error.message}`);
+    }
+
+    // Quotes are newest first, so the first one seen per supplier is the latest
+    const latestQuoteIdBySupplier: Record<string, string> = {};
+    (quotesResult.data || []).forEach((quote: { id: string; supplier_id: string }) => {
+      if (!latestQuoteIdBySupplier[quote.supplier_id]) {
+        latestQuoteIdBySupplier[quote.supplier_id] = quote.id;
+      }
+    });
+
+    return {
+      projects,
+      assets: (assetsResult.data || []) as SearchableAsset[],
+      suppliers,
+      latestQuoteIdBySupplier
+    };
+  }
+
+  /**
+   * Find chat messages containing the term in the given projects, newest first
+   */
+  static async searchMessages(searchTerm: string, projectIds: string[]): Promise<MessageSearchHit[]> {
+    const term = searchTerm.trim();
+    if (term.length < 2 || projectIds.length === 0) return [];
+
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('messages')
+      .select(`
+        id,
+        quote_id,
+        content,
+        created_at,
+        quote:quotes!inner(
+          supplier:suppliers(supplier_name),
+          asset:assets!inner(asset_name, project_id)
+        )
+      `)
+      .ilike('content', `%${escapeLikePattern(term)}%`)
+      .in('quote.asset.project_id', projectIds)
+      .order('created_at', { ascending: false })
+      .limit(MESSAGE_SEARCH_LIMIT);
+
+    if (error) {
+      throw new Error(`Failed to search messages: ${error.message}`);
+    }
+
+    return ((data || []) as unknown as MessageSearchRow[]).map(row => ({
+      id: row.id,
+      quote_id: row.quote_id,
+      content: row.content,
+      created_at: row.created_at,
+      supplier_name: row.quote?.supplier?.supplier_name ?? null,
+      asset_name: row.quote?.asset?.asset_name ?? null
+    }));
+  }
+}
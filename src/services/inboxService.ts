@@ -0,0 +1,47 @@
+import { getSupabase } from '@/lib/supabase';
+import type { InboxConversation } from '@/types/database';
+
+export class InboxService {
+  /**
+   * Get every quote conversation on the producer's projects, most recent first
+   */
+  static async getConversations(): Promise<InboxConversation[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('get_producer_inbox');
+
+    if (error) {
+      throw new Error(`Failed to fetch inbox: ${error.message}`);
+    }
+
+    return (data || []) as InboxConversation[];
+  }
+
+  /**
+   * Get the number of unread supplier messages across all conversations
+   */
+  static async getUnreadCount(): Promise<number> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('get_producer_unread_message_count');
+
+    if (error) {
+      throw new Error(`Failed to fetch unread message count: ${error.message}`);
+    }
+
+    return (data as number | null) ?? 0;
+  }
+
+  /**
+   * Mark the supplier messages in one conversation as read
+   * Returns how many messages were newly marked.
+   */
+  static async markConversationRead(quoteId: string): Promise<number> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('mark_quote_messages_read', { p_quote_id: quoteId });
+
+    if (error) {
+      throw new Error(`Failed to mark conversation as read: ${error.message}`);
+    }
+
+    return (data as number | null) ?? 0;
+  }
+}
@@ -0,0 +1,98 @@
+import { getSupabase } from '@/lib/supabase';
+import type { NotificationEventType, NotificationPreference, ProducerNotification } from '@/types/database';
+
+const NOTIFICATION_COLUMNS = 'id, producer_id, event_type, title, body, link_path, project_id, asset_id, quote_id, read_at, created_at';
+
+export class NotificationCenterService {
+  /**
+   * Get the producer's most recent in-app notifications, newest first
+   */
+  static async getNotifications(limit: number = 30): Promise<ProducerNotification[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('notifications')
+      .select(NOTIFICATION_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch notifications: ${error.message}`);
+    }
+
+    return (data || []) as ProducerNotification[];
+  }
+
+  static async getUnreadCount(): Promise<number> {
+    const supabase = await getSupabase();
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .is('read_at', null);
+
+    if (error) {
+      throw new Error(`Failed to fetch unread notification count: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+
+  static async markRead(notificationId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId)
+      .is('read_at', null);
+
+    if (error) {
+      throw new Error(`Failed to mark notification as read: ${error.message}`);
+    }
+  }
+
+  static async markAllRead(): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .is('read_at', null);
+
+    if (error) {
+      throw new Error(`Failed to mark notifications as read: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the producer's in-app / email choice for every event type, defaults included
+   */
+  static async getPreferences(): Promise<NotificationPreference[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('get_notification_preferences');
+
+    if (error) {
+      throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+    }
+
+    return (data || []) as NotificationPreference[];
+  }
+
+  static async updatePreference(
+    eventType: NotificationEventType,
+    channels: Pick<NotificationPreference, 'in_app' | 'email'>
+  ): Promise<NotificationPreference> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .upsert(
+        { event_type: eventType, in_app: channels.in_app, email: channels.email },
+        { onConflict: 'producer_id,event_type' }
+      )
+      .select('event_type, in_app, email')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update notification preference: ${error.message}`);
+    }
+
+    return data as NotificationPreference;
+  }
+}
@@ -0,0 +1,202 @@
+import { getSupabase } from '@/lib/supabase';
+import type {
+  Organisation,
+  OrganisationInvitation,
+  OrganisationInvitationDetails,
+  OrganisationMember,
+  OrganisationMembership,
+  OrganisationRole
+} from '@/types/database';
+
+export class OrganisationService {
+  /**
+   * Get the signed-in producer's organisation and role, or null when they are not in one
+   */
+  static async getMembership(): Promise<OrganisationMembership | null> {
+    const supabase = await getSupabase();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('organisation_members')
+      .select('role, organisation:organisations(*)')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch organisation: ${error.message}`);
+    }
+
+    const membership = data as { role: OrganisationRole; organisation: Organisation | null } | null;
+    if (!membership?.organisation) {
+      return null;
+    }
+    return { organisation: membership.organisation, role: membership.role };
+  }
+
+  /**
+   * Create an organisation with the signed-in producer as its owner
+   */
+  static async createOrganisation(name: string): Promise<Organisation> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('create_organisation', { p_name: name.trim() });
+
+    if (error) {
+      throw new Error(`Failed to create organisation: ${error.message}`);
+    }
+
+    return data as Organisation;
+  }
+
+  static async renameOrganisation(organisationId: string, name: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('organisations')
+      .update({ name: name.trim() })
+      .eq('id', organisationId);
+
+    if (error) {
+      throw new Error(`Failed to rename organisation: ${error.message}`);
+    }
+  }
+
+  static async getMembers(): Promise<OrganisationMember[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('get_organisation_members');
+
+    if (error) {
+      throw new Error(`Failed to fetch members: ${error.message}`);
+    }
+
+    return (data || []) as OrganisationMember[];
+  }
+
+  static async updateMemberRole(userId: string, role: OrganisationRole): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase.rpc('update_organisation_member_role', { p_user_id: userId, p_role: role });
+
+    if (error) {
+      throw new Error(`Failed to change role: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remove a member, or leave the organisation when given the signed-in producer's own id
+   */
+  static async removeMember(userId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase.rpc('remove_organisation_member', { p_user_id: userId });
+
+    if (error) {
+      throw new Error(`Failed to remove member: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the organisation's pending invitations, newest first (owners only)
+   */
+  static async getPendingInvitations(organisationId: string): Promise<OrganisationInvitation[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('organisation_invitations')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch invitations: ${error.message}`);
+    }
+
+    return (data || []) as OrganisationInvitation[];
+  }
+
+  /**
+   * Invite someone by email; share the returned invitation's link with them
+   */
+  static async inviteMember(
+    organisationId: string,
+    email: string,
+    role: OrganisationRole
+  ): Promise<OrganisationInvitation> {
+    const supabase = await getSupabase();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('You must be logged in to invite members');
+    }
+
+    const { data, error } = await supabase
+      .from('organisation_invitations')
+      .insert({
+        organisation_id: organisationId,
+        email: email.trim().toLowerCase(),
+        role,
+        invited_by: user.id
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`${email.trim()} already has a pending invitation`);
+      }
+      throw new Error(`Failed to invite member: ${error.message}`);
+    }
+
+    return data as OrganisationInvitation;
+  }
+
+  static async revokeInvitation(invitationId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('organisation_invitations')
+      .update({ status: 'revoked' })
+      .eq('id', invitationId);
+
+    if (error) {
+      throw new Error(`Failed to revoke invitation: ${error.message}`);
+    }
+  }
+
+  static async getInvitation(token: string): Promise<OrganisationInvitationDetails | null> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('get_organisation_invitation', { p_token: token });
+
+    if (error) {
+      throw new Error(`Failed to fetch invitation: ${error.message}`);
+    }
+
+    return ((data || [])[0] ?? null) as OrganisationInvitationDetails | null;
+  }
+
+  /**
+   * Join the invitation's organisation; returns the organisation id
+   */
+  static async acceptInvitation(token: string): Promise<string> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('accept_organisation_invitation', { p_token: token });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as string;
+  }
+
+  /**
+   * Share a project with an organisation, or make it private again with null
+   */
+  static async setProjectOrganisation(projectId: string, organisationId: string | null): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('projects')
+      .update({ organisation_id: organisationId })
+      .eq('id', projectId);
+
+    if (error) {
+      throw new Error(`Failed to update project sharing: ${error.message}`);
+    }
+  }
+}
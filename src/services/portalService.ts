@@ -4,12 +4,15 @@
  * Token-based authentication (no Supabase Auth required)
  */
 
+import type { QuoteLineItem, QuoteLineItemInput } from '@/types/database';
+
 const RAILWAY_API_URL = import.meta.env.VITE_RAILWAY_API_URL || '';
 
 export interface Message {
   id: string;
   quote_id: string;
-  sender_type: 'PRODUCER' | 'SUPPLIER';
+  // SYSTEM = automated note, e.g. a follow-up reminder
+  sender_type: 'PRODUCER' | 'SUPPLIER' | 'SYSTEM';
   content: string;
   created_at: string;
   is_read: boolean;
@@ -46,11 +49,18 @@ export interface Quote {
   supplier_id: string;
   asset_id: string;
   cost: number;
+  currency?: string;
+  line_items?: QuoteLineItem[];
   notes_capacity: string;
   status: 'Pending' | 'Submitted' | 'Accepted' | 'Rejected';
   access_token: string;
   quote_document_url?: string;
   request_email_body?: string;
+  /** Effective deadline for this supplier (extension applied), null when none was set */
+  response_deadline?: string | null;
+  deadline_extended?: boolean;
+  /** Set when the producer reopened the quote for revision */
+  revision_requested_at?: string | null;
   request_attachments?: QuoteRequestAttachment[];
   created_at: string;
   updated_at: string;
@@ -72,6 +82,7 @@ export interface Project {
   event_date: string | null;
   location: string | null;
   timeline_deadline: string | null;
+  base_currency?: string;
 }
 
 export interface Supplier {
@@ -343,13 +354,17 @@ export class PortalService {
    * @param cost - Quote price
    * @param notes - Optional notes/capacity details
    * @param fileUrl - Optional file URL (for future file upload support)
+   * @param currency - ISO 4217 code the price is quoted in (defaults to the project base currency)
+   * @param lineItems - Itemised lines; when present the backend derives the cost from them
    * @returns Promise with updated quote data
    */
   static async submitQuote(
     token: string,
     cost: number,
     notes: string = '',
-    fileUrl?: string
+    fileUrl?: string,
+    currency?: string,
+    lineItems: QuoteLineItemInput[] = []
   ): Promise<SubmitQuoteResponse> {
     if (!RAILWAY_API_URL) {
       return {
@@ -390,8 +405,10 @@ export class PortalService {
         body: JSON.stringify({
           token,
           cost,
+          currency: currency || null,
           notes: notes || '',
-          fileUrl: fileUrl || null
+          fileUrl: fileUrl || null,
+          lineItems
         })
       });
 
@@ -1,6 +1,9 @@
 import { getSupabase } from '@/lib/supabase';
-import type { Project, Asset, Quote, Supplier } from '@/lib/supabase';
+import type { Project, Asset, Quote, Supplier, QuoteLineItem } from '@/lib/supabase';
 import { sortSuppliersByRelevance } from '@/utils/supplierRelevance';
+import { toProjectVenue, type ProjectVenue } from '@/utils/geoMatching';
+import { DEFAULT_CURRENCY } from '@/utils/currency';
+import { SupplierScorecardService } from './supplierScorecardService';
 
 export interface ProjectFormData {
   project_name: string;
@@ -8,6 +11,14 @@ export interface ProjectFormData {
   brief_description: string;
   physical_parameters: string;
   financial_parameters: number | undefined;
+  /** ISO 4217 code the budget is expressed in; defaults to USD on create, unchanged on update */
+  base_currency?: string;
+  /** Quotes need the client's approval before acceptance; unchanged on update when omitted */
+  requires_client_approval?: boolean;
+  /** Structured venue location for supplier matching; unchanged on update when omitted */
+  venue_city?: string | null;
+  venue_region?: string | null;
+  venue_country?: string | null;
   timeline_deadline: string;
   event_date: string;
 }
@@ -33,19 +44,15 @@ export interface ProducerSettings {
  * AssetWithAcceptedQuote Interface
  * Represents an asset that has an accepted quote, combining data from:
  * - Asset (name, specs, status, etc.)
- * - Quote (cost, cost breakdown, dates)
+ * - Quote (cost, line items, dates)
  * - Supplier (who provided the accepted quote)
  */
 export interface AssetWithAcceptedQuote extends Asset {
   acceptedQuote: {
     id: string;
     cost: number;
-    cost_breakdown?: {
-      labor: number;
-      materials: number;
-      equipment: number;
-      other: number;
-    };
+    currency?: string;
+    line_items: QuoteLineItem[];
     notes_capacity?: string;
     created_at: string;
     updated_at: string;
@@ -93,6 +100,21 @@ export class ProducerService {
     return this.loadProject(projectId);
   }
 
+  /**
+   * Get the structured venue of a project, used to match suppliers by area
+   */
+  static async getProjectVenue(projectId: string): Promise<ProjectVenue> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('projects')
+      .select('venue_city, venue_region, venue_country')
+      .eq('id', projectId)
+      .single();
+
+    if (error) throw error;
+    return toProjectVenue(data as unknown as Pick<Project, 'venue_city' | 'venue_region' | 'venue_country'>);
+  }
+
   /**
    * Get all projects for a specific client by client name
    * Returns projects ordered by creation date (newest first)
@@ -132,6 +154,10 @@ export class ProducerService {
         brief_description: projectData.brief_description,
         physical_parameters: projectData.physical_parameters,
         financial_parameters: projectData.financial_parameters ?? 0,
+        base_currency: projectData.base_currency || DEFAULT_CURRENCY,
+        venue_city: projectData.venue_city || null,
+        venue_region: projectData.venue_region || null,
+        venue_country: projectData.venue_country || null,
         timeline_deadline: projectData.timeline_deadline || null,
         event_date: projectData.event_date || null,
         project_status: 'New',
@@ -160,6 +186,13 @@ export class ProducerService {
         brief_description: projectData.brief_description,
         physical_parameters: projectData.physical_parameters,
         financial_parameters: projectData.financial_parameters ?? null,
+        ...(projectData.base_currency ? { base_currency: projectData.base_currency } : {}),
+        ...(projectData.requires_client_approval !== undefined
+          ? { requires_client_approval: projectData.requires_client_approval }
+          : {}),
+        ...(projectData.venue_city !== undefined ? { venue_city: projectData.venue_city || null } : {}),
+        ...(projectData.venue_region !== undefined ? { venue_region: projectData.venue_region || null } : {}),
+        ...(projectData.venue_country !== undefined ? { venue_country: projectData.venue_country || null } : {}),
         timeline_deadline: projectData.timeline_deadline || null,
         event_date: projectData.event_date || null
       })
@@ -277,10 +310,11 @@ export class ProducerService {
         quotes!inner(
           id,
           cost,
-          cost_breakdown,
+          currency,
           notes_capacity,
           created_at,
           updated_at,
+          line_items:quote_line_items(*),
           supplier:suppliers(*)
         )
       `)
@@ -309,7 +343,10 @@ export class ProducerService {
         acceptedQuote: {
           id: acceptedQuote.id,
           cost: acceptedQuote.cost,
-          cost_breakdown: acceptedQuote.cost_breakdown,
+          currency: acceptedQuote.currency,
+          line_items: (acceptedQuote.line_items || []).sort(
+            (a: QuoteLineItem, b: QuoteLineItem) => a.position - b.position
+          ),
           notes_capacity: acceptedQuote.notes_capacity,
           created_at: acceptedQuote.created_at,
           updated_at: acceptedQuote.updated_at,
@@ -455,6 +492,28 @@ export class ProducerService {
     if (error) throw error;
   }
 
+  /**
+   * Give one supplier more time to respond to a quote request
+   * Reopens the asset's quoting round if it already closed; it closes again once the extension passes.
+   */
+  static async extendResponseDeadline(quoteId: string, assetId: string, until: Date): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('quotes')
+      .update({ deadline_extended_until: until.toISOString() })
+      .eq('id', quoteId);
+
+    if (error) throw error;
+
+    const { error: assetError } = await supabase
+      .from('assets')
+      .update({ status: 'Quoting', quoting_closed_at: null })
+      .eq('id', assetId)
+      .eq('status', 'Reviewing');
+
+    if (assetError) throw assetError;
+  }
+
   // ===== SUPPLIER OPERATIONS =====
 
   /**
@@ -476,21 +535,43 @@ export class ProducerService {
    * 
    * Fetches the asset to get its tags, then loads all suppliers and sorts them
    * by relevance score (suppliers with matching service categories appear first).
-   * Falls back to alphabetical sorting if the asset has no tags.
+   * Suppliers with equal relevance are ranked by how well they cover the
+   * project venue, then by their performance scorecard unless `usePerformance`
+   * is false. Falls back to alphabetical sorting if the asset has no tags.
    * 
    * @param assetId - UUID of the asset to match suppliers against
+   * @param options.usePerformance - Rank tied suppliers by scorecard (default true)
    * @returns Promise with suppliers sorted by relevance (most relevant first)
    */
-  static async loadSuppliersForAsset(assetId: string): Promise<Supplier[]> {
+  static async loadSuppliersForAsset(
+    assetId: string,
+    options: { usePerformance?: boolean } = {}
+  ): Promise<Supplier[]> {
+    const { usePerformance = true } = options;
+
     // Fetch the asset to get its tags
     const asset = await this.getAssetById(assetId);
     const assetTags = asset.tags || [];
     
     // Fetch all suppliers (alphabetically sorted from DB)
     const suppliers = await this.loadSuppliers();
+
+    // The venue only refines the order, so a failure falls back to ignoring location
+    const venue = await this.getProjectVenue(asset.project_id).catch((error) => {
+      console.error('Error loading project venue:', error);
+      return undefined;
+    });
+
+    // Scorecards only refine the order, so a failure falls back to relevance alone
+    const scorecards = usePerformance
+      ? await SupplierScorecardService.getScorecards().catch((error) => {
+          console.error('Error loading supplier scorecards:', error);
+          return undefined;
+        })
+      : undefined;
     
     // Apply relevance sorting based on asset tags
-    return sortSuppliersByRelevance(suppliers, assetTags);
+    return sortSuppliersByRelevance(suppliers, assetTags, { scorecards, venue });
   }
 
   /**
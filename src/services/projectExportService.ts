@@ -0,0 +1,87 @@
+import { getSupabase } from '@/lib/supabase';
+import type { Project, Asset, Quote } from '@/lib/supabase';
+import { ExchangeRateService } from './exchangeRateService';
+import { BudgetAllocationService } from './budgetAllocationService';
+import { DEFAULT_CURRENCY } from '@/utils/currency';
+import { buildAssetRows, buildQuoteRows, buildBudgetRows, type ProjectExportDataset } from '@/utils/projectExport';
+import { buildCsvBlob, buildXlsxBlob, downloadBlob, toFileSlug, type SpreadsheetCell } from '@/utils/spreadsheetExport';
+
+export type ProjectExportFormat = 'csv' | 'xlsx';
+
+export class ProjectExportService {
+  /**
+   * Download a project's assets, quotes and budget
+   * `assets` are exported in the order given, so pass the filtered and sorted table rows.
+   * XLSX holds all three datasets as sheets; CSV holds the one `dataset`.
+   */
+  static async exportProject(
+    project: Project,
+    assets: Asset[],
+    format: ProjectExportFormat,
+    dataset: ProjectExportDataset = 'assets'
+  ): Promise<void> {
+    const datasets: ProjectExportDataset[] = format === 'xlsx' ? ['assets', 'quotes', 'budget'] : [dataset];
+    const needsQuotes = datasets.some(name => name !== 'assets');
+    const needsBudget = datasets.includes('budget');
+
+    const [quotes, allocations, rates] = await Promise.all([
+      needsQuotes ? this.getQuotesWithLineItems(assets.map(asset => asset.id)) : Promise.resolve([]),
+      needsBudget ? BudgetAllocationService.getAllocations(project.id) : Promise.resolve([]),
+      needsBudget ? ExchangeRateService.getRates(project.producer_id) : Promise.resolve([])
+    ]);
+
+    const buildRows = (name: ProjectExportDataset): SpreadsheetCell[][] => {
+      switch (name) {
+        case 'quotes':
+          return buildQuoteRows(assets, quotes);
+        case 'budget':
+          return buildBudgetRows(project, assets, quotes, allocations, {
+            baseCurrency: project.base_currency || DEFAULT_CURRENCY,
+            rates
+          });
+        default:
+          return buildAssetRows(assets);
+      }
+    };
+
+    const slug = toFileSlug(project.project_name);
+
+    if (format === 'xlsx') {
+      downloadBlob(
+        buildXlsxBlob([
+          { name: 'Assets', rows: buildRows('assets') },
+          { name: 'Quotes', rows: buildRows('quotes') },
+          { name: 'Budget', rows: buildRows('budget') }
+        ]),
+        `${slug}.xlsx`
+      );
+      return;
+    }
+
+    downloadBlob(buildCsvBlob(buildRows(dataset)), `${slug}-${dataset}.csv`);
+  }
+
+  /**
+   * Quotes for the assets with supplier names and ordered line items
+   */
+  private static async getQuotesWithLineItems(assetIds: string[]): Promise<Quote[]> {
+    if (assetIds.length === 0) return [];
+
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('quotes')
+      .select(`
+        *,
+        supplier:suppliers(id, supplier_name),
+        line_items:quote_line_items(*)
+      `)
+      .in('asset_id', assetIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch quotes: ${error.message}`);
+    }
+
+    return (data || []) as unknown as Quote[];
+  }
+}
@@ -3,14 +3,9 @@
  * Handles communication with Railway backend for quote comparison features
  */
 
-const RAILWAY_API_URL = import.meta.env.VITE_RAILWAY_API_URL || '';
+import type { QuoteLineItem } from '@/types/database';
 
-export interface CostBreakdown {
-  labor: number;
-  materials: number;
-  equipment: number;
-  other: number;
-}
+const RAILWAY_API_URL = import.meta.env.VITE_RAILWAY_API_URL || '';
 
 export interface Supplier {
   id: string;
@@ -29,7 +24,12 @@ export interface Supplier {
 export interface Quote {
   id: string;
   cost: number;
-  cost_breakdown: CostBreakdown;
+  /** Currency the supplier quoted in */
+  currency: string;
+  /** Cost in the project base currency; null when no exchange rate is available */
+  converted_cost: number | null;
+  /** Itemised lines ordered by position; empty for lump-sum quotes */
+  line_items: QuoteLineItem[];
   notes_capacity: string;
   status: 'Submitted' | 'Accepted' | 'Rejected';
   valid_until: string;
@@ -46,27 +46,36 @@ export interface Asset {
   specifications: string;
   timeline: string;
   status: string;
+  /** Scheduled bid opening when bids are sealed */
+  bids_open_at?: string | null;
   project: {
     id: string;
     project_name: string;
     client_name: string;
+    base_currency?: string;
   };
 }
 
+/** Cost metrics are expressed in `currency` (the project base currency) */
 export interface ComparisonMetrics {
   lowest_cost: number;
   highest_cost: number;
   average_cost: number;
   quote_count: number;
   cost_range: number;
+  currency: string;
+  /** Quotes left out of the metrics because no exchange rate was available */
+  unconverted_quote_count: number;
 }
 
 export interface QuoteComparisonResponse {
   success: boolean;
   data?: {
     asset: Asset;
+    /** True while bids are sealed: quotes carry no cost, notes or line items and metrics are null */
+    sealed: boolean;
     quotes: Quote[];
-    comparison_metrics: ComparisonMetrics;
+    comparison_metrics: ComparisonMetrics | null;
   };
   message?: string;
   error?: {
@@ -83,8 +92,12 @@ export interface QuoteSummaryResponse {
     lowest_cost: number;
     highest_cost: number;
     average_cost: number;
+    currency: string;
+    unconverted_quote_count: number;
     status_counts: Record<string, number>;
     has_multiple_quotes: boolean;
+    /** True while bids are sealed; cost fields are zero */
+    sealed: boolean;
   };
   message?: string;
   error?: {
@@ -174,17 +187,13 @@ export class QuoteComparisonService {
   }
 
   /**
-   * Format cost breakdown for display
-   * @param breakdown - Cost breakdown object
-   * @returns Formatted breakdown string
+   * Cost used to compare quotes across currencies
+   * Quotes without an exchange rate sort after every converted quote
+   * @param quote - Quote from the comparison endpoint
+   * @returns Cost in the project base currency
    */
-  static formatCostBreakdown(breakdown: CostBreakdown): string {
-    const parts = [];
-    if (breakdown.labor > 0) parts.push(`Labor: $${breakdown.labor.toFixed(2)}`);
-    if (breakdown.materials > 0) parts.push(`Materials: $${breakdown.materials.toFixed(2)}`);
-    if (breakdown.equipment > 0) parts.push(`Equipment: $${breakdown.equipment.toFixed(2)}`);
-    if (breakdown.other > 0) parts.push(`Other: $${breakdown.other.toFixed(2)}`);
-    return parts.join(' • ');
+  static getComparableCost(quote: Quote): number {
+    return quote.converted_cost ?? Number.POSITIVE_INFINITY;
   }
 
   /**
@@ -85,18 +85,21 @@ export class QuoteRequestService {
 
   /**
    * Send quote requests with customized emails
+   * @param responseDeadline - ISO timestamp suppliers must respond by (optional)
    */
   static async sendQuoteRequests(
     assetId: string,
     supplierIds: string[],
     customizedEmails: CustomizedEmail[],
-    from?: { name: string; email: string }
+    from?: { name: string; email: string },
+    responseDeadline?: string
   ): Promise<SendQuoteRequestsResponse> {
     const response = await RailwayApiService.post('/api/suppliers/send-quote-requests', {
       assetId,
       supplierIds,
       from,
-      customizedEmails
+      customizedEmails,
+      responseDeadline
     });
 
     if (!response.success) {
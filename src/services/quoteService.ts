@@ -5,13 +5,15 @@
  */
 
 import { getSyncSupabase } from '@/lib/supabase';
+import type { QuoteVersion } from '@/types/database';
 
 const RAILWAY_API_URL = import.meta.env.VITE_RAILWAY_API_URL || '';
 
 export interface Message {
   id: string;
   quote_id: string;
-  sender_type: 'PRODUCER' | 'SUPPLIER';
+  // SYSTEM = automated note, e.g. a follow-up reminder
+  sender_type: 'PRODUCER' | 'SUPPLIER' | 'SYSTEM';
   content: string;
   created_at: string;
   is_read: boolean;
@@ -128,6 +130,31 @@ export interface MessageAttachmentsResponse {
   };
 }
 
+export interface QuoteVersionsResponse {
+  success: boolean;
+  data?: QuoteVersion[];
+  message?: string;
+  error?: {
+    code: string;
+    message: string;
+    details?: string;
+  };
+}
+
+export interface RequestRevisionResponse {
+  success: boolean;
+  data?: {
+    quote: Quote;
+    actionItem: { id: string };
+  };
+  message?: string;
+  error?: {
+    code: string;
+    message: string;
+    details?: string;
+  };
+}
+
 /**
  * Get JWT token from Supabase session
  * Uses the synchronous client for immediate access to the session
@@ -392,5 +419,159 @@ export class QuoteService {
       };
     }
   }
-}
 
+  /**
+   * Get the submission history of a quote (oldest first)
+   * @param quoteId - Quote ID
+   * @returns Promise with quote versions
+   */
+  static async getQuoteVersions(quoteId: string): Promise<QuoteVersionsResponse> {
+    if (!RAILWAY_API_URL) {
+      return {
+        success: false,
+        error: {
+          code: 'CONFIG_ERROR',
+          message: 'Railway API URL not configured. Please set VITE_RAILWAY_API_URL environment variable.'
+        }
+      };
+    }
+
+    if (!quoteId) {
+      return {
+        success: false,
+        error: {
+          code: 'MISSING_QUOTE_ID',
+          message: 'Quote ID is required'
+        }
+      };
+    }
+
+    try {
+      const token = await getAuthToken();
+      if (!token) {
+        return {
+          success: false,
+          error: {
+            code: 'AUTH_ERROR',
+            message: 'Authentication required. Please log in.'
+          }
+        };
+      }
+
+      const response = await fetch(
+        `${RAILWAY_API_URL.replace(/\/$/, '')}/api/quotes/${quoteId}/versions`,
+        {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+          }
+        }
+      );
+
+      const data: QuoteVersionsResponse = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: {
+            code: data.error?.code || 'API_ERROR',
+            message: data.error?.message || `HTTP ${response.status}: ${response.statusText}`,
+            details: data.error?.details
+          }
+        };
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Quote service error:', error);
+      return {
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+          details: error instanceof Error ? error.stack : undefined
+        }
+      };
+    }
+  }
+
+  /**
+   * Ask the supplier to revise a submitted quote
+   * Reopens the quote, raises a supplier_revise_quote action item and posts the reason in chat
+   * @param quoteId - Quote ID
+   * @param reason - What the supplier should change
+   * @returns Promise with the reopened quote
+   */
+  static async requestRevision(quoteId: string, reason: string): Promise<RequestRevisionResponse> {
+    if (!RAILWAY_API_URL) {
+      return {
+        success: false,
+        error: {
+          code: 'CONFIG_ERROR',
+          message: 'Railway API URL not configured. Please set VITE_RAILWAY_API_URL environment variable.'
+        }
+      };
+    }
+
+    if (!quoteId || !reason.trim()) {
+      return {
+        success: false,
+        error: {
+          code: 'MISSING_PARAMETERS',
+          message: 'Quote ID and revision reason are required'
+        }
+      };
+    }
+
+    try {
+      const token = await getAuthToken();
+      if (!token) {
+        return {
+          success: false,
+          error: {
+            code: 'AUTH_ERROR',
+            message: 'Authentication required. Please log in.'
+          }
+        };
+      }
+
+      const response = await fetch(
+        `${RAILWAY_API_URL.replace(/\/$/, '')}/api/quotes/${quoteId}/request-revision`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+          },
+          body: JSON.stringify({ reason: reason.trim() })
+        }
+      );
+
+      const data: RequestRevisionResponse = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: {
+            code: data.error?.code || 'API_ERROR',
+            message: data.error?.message || `HTTP ${response.status}: ${response.statusText}`,
+            details: data.error?.details
+          }
+        };
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Quote service error:', error);
+      return {
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+          details: error instanceof Error ? error.stack : undefined
+        }
+      };
+    }
+  }
+}
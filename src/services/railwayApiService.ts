@@ -4,6 +4,7 @@
  */
 
 import type { Asset } from '@/lib/supabase';
+import { getAvailableTagNames } from '@/utils/assetTags';
 
 const RAILWAY_API_URL = import.meta.env.VITE_RAILWAY_API_URL || '';
 
@@ -11,6 +12,8 @@ export interface ProjectContext {
   financial_parameters?: number;
   timeline_deadline?: string;
   physical_parameters?: string;
+  /** Tag names the AI may assign; defaults to the active taxonomy */
+  asset_tags?: string[];
 }
 
 export interface ProcessBriefRequest {
@@ -71,7 +74,10 @@ export class RailwayApiService {
           briefDescription,
           useAI: options.useAI || false, // Legacy parameter
           allocationMethod: options.allocationMethod, // New parameter
-          projectContext: options.projectContext || {}
+          projectContext: {
+            ...options.projectContext,
+            asset_tags: options.projectContext?.asset_tags ?? getAvailableTagNames()
+          }
         })
       });
 
@@ -0,0 +1,70 @@
+import { getSupabase } from '@/lib/supabase';
+import type { RfqEmailTemplate, RfqEmailTemplateInput } from '@/types/database';
+
+export class RfqEmailTemplateService {
+  /**
+   * Get the signed-in producer's quote request templates
+   */
+  static async getTemplates(): Promise<RfqEmailTemplate[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('rfq_email_templates')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch email templates: ${error.message}`);
+    }
+
+    return (data || []) as RfqEmailTemplate[];
+  }
+
+  /**
+   * Create a template, or update it when `templateId` is given
+   */
+  static async saveTemplate(template: RfqEmailTemplateInput, templateId?: string): Promise<RfqEmailTemplate> {
+    const name = template.name.trim();
+    if (!name) {
+      throw new Error('Template name is required');
+    }
+
+    const values = {
+      name,
+      subject: template.subject,
+      body: template.body,
+      default_for_tags: Array.from(new Set(template.default_for_tags))
+    };
+
+    const supabase = await getSupabase();
+    const query = templateId
+      ? supabase.from('rfq_email_templates').update(values).eq('id', templateId)
+      : supabase.from('rfq_email_templates').insert(values);
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`A template named "${name}" already exists`);
+      }
+      throw new Error(`Failed to save email template: ${error.message}`);
+    }
+    if (!data) throw new Error('Failed to save email template');
+
+    return data as RfqEmailTemplate;
+  }
+
+  /**
+   * Delete a template by ID
+   */
+  static async deleteTemplate(templateId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('rfq_email_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      throw new Error(`Failed to delete email template: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { getSupabase } from '@/lib/supabase';
+import type { Asset } from '@/lib/supabase';
+import type { AssetBidSealHistory } from '@/types/database';
+
+export class SealedBidService {
+  /**
+   * Turn sealed bids on or off, or change the bid-opening time
+   * The database refuses to open sealed bids early this way; use unseal instead.
+   */
+  static async updateSeal(
+    assetId: string,
+    seal: { sealed_bids: boolean; bids_open_at: string | null }
+  ): Promise<Asset> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('assets')
+      .update(seal)
+      .eq('id', assetId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update sealed bids: ${error.message}`);
+    }
+
+    return data as Asset;
+  }
+
+  /**
+   * Open sealed bids now
+   * The time and the signed-in producer are stamped by the database, not taken from the client.
+   */
+  static async unseal(assetId: string): Promise<Asset> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('assets')
+      .update({ bids_unsealed_at: new Date().toISOString() })
+      .eq('id', assetId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to unseal bids: ${error.message}`);
+    }
+
+    return data as Asset;
+  }
+
+  /**
+   * Seal history for an asset, oldest first
+   * Each entry carries the name of the producer who made the change when it can be resolved.
+   */
+  static async getHistory(assetId: string): Promise<Array<AssetBidSealHistory & { changed_by_name: string | null }>> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('asset_bid_seal_history')
+      .select('*')
+      .eq('asset_id', assetId)
+      .order('changed_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch bid seal history: ${error.message}`);
+    }
+
+    const history = (data || []) as AssetBidSealHistory[];
+    const producerIds = [...new Set(history.map((entry) => entry.changed_by).filter((id): id is string => Boolean(id)))];
+
+    const names = new Map<string, string>();
+    if (producerIds.length > 0) {
+      const { data: producers } = await supabase
+        .from('producers')
+        .select('id, full_name, email')
+        .in('id', producerIds);
+
+      (producers || []).forEach((producer: { id: string; full_name: string | null; email: string }) => {
+        names.set(producer.id, producer.full_name || producer.email);
+      });
+    }
+
+    return history.map((entry) => ({
+      ...entry,
+      changed_by_name: entry.changed_by ? names.get(entry.changed_by) || null : null
+    }));
+  }
+}
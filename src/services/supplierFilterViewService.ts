@@ -0,0 +1,65 @@
+import { getSupabase } from '@/lib/supabase';
+import type { SupplierFilterView, SupplierFilterViewInput } from '@/types/database';
+
+export class SupplierFilterViewService {
+  /**
+   * Get the signed-in producer's saved supplier filter views
+   */
+  static async getViews(): Promise<SupplierFilterView[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('supplier_filter_views')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch saved views: ${error.message}`);
+    }
+
+    return (data || []) as SupplierFilterView[];
+  }
+
+  /**
+   * Create a view, or update it when `viewId` is given
+   */
+  static async saveView(view: SupplierFilterViewInput, viewId?: string): Promise<SupplierFilterView> {
+    const name = view.name.trim();
+    if (!name) {
+      throw new Error('View name is required');
+    }
+
+    const values = { name, criteria: view.criteria };
+
+    const supabase = await getSupabase();
+    const query = viewId
+      ? supabase.from('supplier_filter_views').update(values).eq('id', viewId)
+      : supabase.from('supplier_filter_views').insert(values);
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`A view named "${name}" already exists`);
+      }
+      throw new Error(`Failed to save view: ${error.message}`);
+    }
+    if (!data) throw new Error('Failed to save view');
+
+    return data as SupplierFilterView;
+  }
+
+  /**
+   * Delete a view by ID
+   */
+  static async deleteView(viewId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('supplier_filter_views')
+      .delete()
+      .eq('id', viewId);
+
+    if (error) {
+      throw new Error(`Failed to delete view: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { getSupabase } from '@/lib/supabase';
+import { ExchangeRateService } from './exchangeRateService';
+import { DEFAULT_CURRENCY } from '@/utils/currency';
+import {
+  calculateSupplierScorecards,
+  type ScorecardAsset,
+  type ScorecardQuote,
+  type SupplierScorecard
+} from '@/utils/supplierScorecards';
+
+interface ScorecardQuoteRow extends ScorecardQuote {
+  asset: {
+    id: string;
+    status: string;
+    delivered_at: string | null;
+    project: { base_currency: string | null; event_date: string | null } | null;
+  } | null;
+}
+
+export class SupplierScorecardService {
+  /**
+   * Build scorecards for every supplier from the producer's quote history
+   * The planned delivery date is the asset's earliest delivery timeline event,
+   * falling back to the project event date.
+   */
+  static async getScorecards(): Promise<Map<string, SupplierScorecard>> {
+    const supabase = await getSupabase();
+
+    const [quotesResult, deliveryEventsResult, rates] = await Promise.all([
+      supabase
+        .from('quotes')
+        .select(`
+          supplier_id,
+          asset_id,
+          status,
+          cost,
+          currency,
+          response_time_hours,
+          asset:assets(id, status, delivered_at, project:projects(base_currency, event_date))
+        `),
+      supabase
+        .from('asset_timeline_events')
+        .select('asset_id, event_date')
+        .eq('event_type', 'delivery'),
+      ExchangeRateService.getRates()
+    ]);
+
+    if (quotesResult.error) {
+      throw new Error(`Failed to fetch quote history: ${quotesResult.error.message}`);
+    }
+    if (deliveryEventsResult.error) {
+      throw new Error(`Failed to fetch delivery dates: ${deliveryEventsResult.error.message}`);
+    }
+
+    const plannedDelivery = new Map<string, string>();
+    (deliveryEventsResult.data || []).forEach((event) => {
+      const current = plannedDelivery.get(event.asset_id);
+      if (!current || event.event_date < current) {
+        plannedDelivery.set(event.asset_id, event.event_date);
+      }
+    });
+
+    const quotes = (quotesResult.data || []) as unknown as ScorecardQuoteRow[];
+    const assets = new Map<string, ScorecardAsset>();
+    quotes.forEach(({ asset }) => {
+      if (!asset || assets.has(asset.id)) return;
+      assets.set(asset.id, {
+        id: asset.id,
+        status: asset.status,
+        delivered_at: asset.delivered_at,
+        baseCurrency: asset.project?.base_currency || DEFAULT_CURRENCY,
+        dueDate: plannedDelivery.get(asset.id) ?? asset.project?.event_date?.slice(0, 10) ?? null
+      });
+    });
+
+    return calculateSupplierScorecards(quotes, Array.from(assets.values()), rates);
+  }
+}
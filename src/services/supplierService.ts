@@ -6,6 +6,7 @@ export interface CreateSupplierData {
   contact_email?: string | null;
   address?: string;
   cities_served?: string[];
+  travel_radius_km?: number | null;
   service_categories: string[];
   contact_persons?: ContactPerson[];
 }
@@ -46,6 +47,29 @@ export class SupplierService {
     }
   }
 
+  /**
+   * Create several suppliers at once, in batches
+   * Returns how many were created; stops at the first failed batch.
+   */
+  static async importSuppliers(suppliers: CreateSupplierData[], batchSize = 100): Promise<number> {
+    const supabase = await getSupabase();
+    let created = 0;
+
+    for (let start = 0; start < suppliers.length; start += batchSize) {
+      const batch = suppliers.slice(start, start + batchSize);
+      const { error } = await supabase
+        .from('suppliers')
+        .insert(batch);
+
+      if (error) {
+        throw new Error(`Failed to import suppliers (${created} of ${suppliers.length} imported): ${error.message}`);
+      }
+      created += batch.length;
+    }
+
+    return created;
+  }
+
   /**
    * Update an existing supplier
    */
@@ -4,12 +4,17 @@
  */
 
 export type ProjectStatus = 'New' | 'In Progress' | 'Quoting' | 'Completed' | 'Cancelled';
-export type AssetStatus = 'Pending' | 'Quoting' | 'Approved' | 'In Production' | 'Delivered';
+export type AssetStatus = 'Pending' | 'Quoting' | 'Reviewing' | 'Approved' | 'In Production' | 'Delivered';
 export type QuoteStatus = 'Pending' | 'Submitted' | 'Accepted' | 'Rejected';
 export type MilestoneStatus = 'pending' | 'completed' | 'cancelled';
 export type ActionType = 'producer_review_quote' | 'producer_approve_asset' | 'producer_assign_supplier' | 'supplier_submit_quote' | 'supplier_revise_quote' | 'client_approval' | 'other';
 export type ActionStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
 export type ActionAssignee = 'producer' | 'supplier' | 'client';
+export type AssetTimelineEventType = 'milestone' | 'proof_approved' | 'production_start' | 'delivery' | 'load_in' | 'load_out' | 'other';
+export type AssetTimelineChangeType = 'created' | 'updated' | 'deleted';
+export type BidSealAction = 'sealed' | 'rescheduled' | 'unsealed' | 'seal_removed';
+export type ClientApprovalStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+export type ClientApprovalEvent = 'requested' | 'approved' | 'rejected' | 'withdrawn';
 
 export interface Project {
   id: string;
@@ -21,6 +26,11 @@ export interface Project {
   timeline_deadline: string | null;
   event_date: string | null;
   project_status: ProjectStatus;
+  base_currency: string;
+  requires_client_approval: boolean;
+  venue_city?: string | null;
+  venue_region?: string | null;
+  venue_country?: string | null;
   producer_id: string;
   created_at: string;
   updated_at: string;
@@ -36,6 +46,13 @@ export interface Asset {
   assigned_supplier_id: string | null;
   quantity: number | null;
   tags: string[];
+  delivered_at?: string | null;
+  quoting_closed_at?: string | null;
+  sealed_bids?: boolean;
+  bids_open_at?: string | null;
+  bids_unsealed_at?: string | null;
+  bids_unsealed_by?: string | null;
+  duration_days?: number;
   created_at: string;
   updated_at: string;
 }
@@ -46,6 +63,7 @@ export interface Supplier {
   contact_email: string | null;
   address?: string;
   cities_served?: string[];
+  travel_radius_km?: number | null;
   service_categories: string[];
   contact_persons?: ContactPerson[];
   created_at: string;
@@ -69,15 +87,48 @@ export interface Quote {
   supplier_id: string;
   asset_id: string;
   cost: number;
+  currency: string;
   notes_capacity: string;
   status: QuoteStatus;
   quote_token: string;
   access_token?: string; // UUID token for supplier portal access
   quote_document_url?: string;
+  last_chased_at?: string | null;
+  response_deadline?: string | null;
+  deadline_extended_until?: string | null;
+  revision_requested_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface QuoteLineItem {
+  id: string;
+  quote_id: string;
+  position: number;
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  tax_rate: number; // Percentage, e.g. 15 for 15%
+  is_optional: boolean; // Shown to producer but excluded from the total
+  created_at: string;
+}
+
+// Immutable snapshot of one quote submission (written by trigger)
+export interface QuoteVersion {
+  id: string;
+  quote_id: string;
+  version_number: number;
+  cost: number;
+  currency: string;
+  cost_breakdown: Record<string, number> | null; // Legacy versions only
+  line_items: QuoteLineItemInput[];
+  valid_until: string | null;
+  notes_capacity: string;
+  quote_document_url: string | null;
+  submitted_at: string;
+}
+
 export interface MessageAttachment {
   id: string;
   message_id: string;
@@ -101,6 +152,221 @@ export interface ProjectMilestone {
   updated_at: string;
 }
 
+export interface AssetTimelineEvent {
+  id: string;
+  asset_id: string;
+  event_type: AssetTimelineEventType;
+  event_name: string;
+  event_date: string;
+  description: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  // Populated by project-level queries so events can be labelled with their asset
+  asset?: Pick<Asset, 'id' | 'asset_name' | 'project_id'>;
+}
+
+export interface AssetTimelineEventHistory {
+  id: string;
+  event_id: string;
+  asset_id: string;
+  change_type: AssetTimelineChangeType;
+  previous_values: Partial<AssetTimelineEvent> | null;
+  new_values: Partial<AssetTimelineEvent> | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+// Finish-to-start link: the successor asset starts lag_days after the predecessor finishes
+export interface AssetDependency {
+  id: string;
+  predecessor_asset_id: string;
+  successor_asset_id: string;
+  lag_days: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type NotificationEventType =
+  | 'supplier_message'
+  | 'quote_submitted'
+  | 'quote_expiring'
+  | 'milestone_due'
+  | 'action_item_assigned';
+
+// Stored notification in the producer's notification center (written by notify_producer)
+export interface ProducerNotification {
+  id: string;
+  producer_id: string;
+  event_type: NotificationEventType;
+  title: string;
+  body: string;
+  // App path to open: project, asset or quote chat
+  link_path: string | null;
+  project_id: string | null;
+  asset_id: string | null;
+  quote_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Effective in-app / email choice for one event type (defaults included)
+export interface NotificationPreference {
+  event_type: NotificationEventType;
+  in_app: boolean;
+  email: boolean;
+}
+
+export type AppearanceTheme = 'dark' | 'light';
+export type AppearanceDensity = 'comfortable' | 'compact';
+export type AppearanceFontSize = 'normal' | 'large' | 'extra-large';
+
+// A user's theme, density and text size (user_appearance_settings)
+export interface AppearanceSettings {
+  theme: AppearanceTheme;
+  density: AppearanceDensity;
+  font_size: AppearanceFontSize;
+}
+
+// Subscription tier; null limits mean unlimited
+export interface BillingPlan {
+  id: string;
+  name: string;
+  description: string;
+  monthly_price_cents: number;
+  currency: string;
+  max_active_projects: number | null;
+  max_rfqs_per_month: number | null;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export type BillingSubscriptionStatus = 'active' | 'past_due' | 'canceled';
+
+// A producer's plan and billing period (written by the backend billing service)
+export interface BillingSubscription {
+  producer_id: string;
+  plan_id: string;
+  status: BillingSubscriptionStatus;
+  provider: string;
+  current_period_start: string;
+  current_period_end: string;
+}
+
+export type BillingInvoiceStatus = 'open' | 'paid' | 'failed' | 'void';
+
+// One invoice in the producer's billing history
+export interface BillingInvoice {
+  id: string;
+  producer_id: string;
+  invoice_number: string;
+  plan_id: string;
+  description: string;
+  amount_cents: number;
+  currency: string;
+  status: BillingInvoiceStatus;
+  period_start: string;
+  period_end: string;
+  provider: string;
+  provider_payment_id: string | null;
+  failure_reason: string | null;
+  issued_at: string;
+  paid_at: string | null;
+}
+
+// Plan limits and current usage (from get_billing_usage)
+export interface BillingUsage {
+  plan_id: string;
+  plan_name: string;
+  max_active_projects: number | null;
+  max_rfqs_per_month: number | null;
+  active_projects: number;
+  rfqs_this_month: number;
+  usage_period_start: string;
+  usage_period_end: string;
+}
+
+// Role of a producer within their organisation
+export type OrganisationRole = 'owner' | 'producer' | 'coordinator' | 'finance';
+
+// A team of producers sharing projects and suppliers
+export interface Organisation {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// The signed-in producer's organisation and their role in it
+export interface OrganisationMembership {
+  organisation: Organisation;
+  role: OrganisationRole;
+}
+
+// A member of the caller's organisation (from get_organisation_members)
+export interface OrganisationMember {
+  user_id: string;
+  full_name: string | null;
+  email: string;
+  role: OrganisationRole;
+  joined_at: string;
+}
+
+export type OrganisationInvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+// An invitation to join an organisation, accepted by token
+export interface OrganisationInvitation {
+  id: string;
+  organisation_id: string;
+  email: string;
+  role: OrganisationRole;
+  token: string;
+  status: OrganisationInvitationStatus;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+// What the invitation page shows before accepting (from get_organisation_invitation)
+export interface OrganisationInvitationDetails {
+  organisation_name: string;
+  email: string;
+  role: OrganisationRole;
+  status: OrganisationInvitationStatus;
+  expires_at: string;
+  invited_by_name: string | null;
+}
+
+// One quote conversation in the producer inbox (from get_producer_inbox)
+export interface InboxConversation {
+  quote_id: string;
+  quote_status: QuoteStatus;
+  project_id: string;
+  project_name: string;
+  asset_id: string;
+  asset_name: string;
+  supplier_id: string;
+  supplier_name: string;
+  last_message_content: string;
+  last_message_sender: 'PRODUCER' | 'SUPPLIER' | 'SYSTEM';
+  last_message_at: string;
+  message_count: number;
+  // Supplier messages the producer has not opened yet
+  unread_count: number;
+}
+
+// Append-only record of sealed-bid changes on an asset (written by trigger)
+export interface AssetBidSealHistory {
+  id: string;
+  asset_id: string;
+  action: BidSealAction;
+  bids_open_at: string | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
 export interface ActionItem {
   id: string;
   project_id: string;
@@ -120,10 +386,148 @@ export interface ActionItem {
 export interface ProjectBudgetSummary {
   project_id: string;
   project_name: string;
+  base_currency: string;
   total_budget: number;
   total_spent: number;
   budget_remaining: number;
   budget_used_percentage: number;
+  unconverted_quote_count: number;
+}
+
+// Quote (or asset, when quote_id is null) sent to the client for approval
+export interface ClientApproval {
+  id: string;
+  project_id: string;
+  asset_id: string;
+  quote_id: string | null;
+  status: ClientApprovalStatus;
+  request_message: string;
+  requested_by: string | null;
+  requested_at: string;
+  decision_comment: string | null;
+  decided_by_name: string | null;
+  decided_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Populated by project-level queries so requests can be labelled
+  asset?: Pick<Asset, 'id' | 'asset_name' | 'sealed_bids' | 'bids_open_at' | 'bids_unsealed_at'>;
+  quote?: (Pick<Quote, 'id' | 'cost' | 'currency' | 'status'> & { supplier?: Pick<Supplier, 'id' | 'supplier_name'> }) | null;
+}
+
+// Audit trail entry for a client approval (written by trigger)
+export interface ClientApprovalHistoryEntry {
+  id: string;
+  approval_id: string;
+  project_id: string;
+  event: ClientApprovalEvent;
+  /** producer_for_client: a client decision recorded in the producer's session */
+  actor_type: 'producer' | 'producer_for_client';
+  /** Name the client gave for a decision */
+  actor_name: string | null;
+  comment: string | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+// Message from the producer to the client, optionally with a document attached
+export interface ClientMessage {
+  id: string;
+  project_id: string;
+  body: string;
+  attachment_filename: string | null;
+  attachment_storage_path: string | null;
+  attachment_content_type: string | null;
+  attachment_size_bytes: number | null;
+  sent_by: string | null;
+  created_at: string;
+}
+
+// Producer-maintained exchange rate: 1 from_currency = rate to_currency
+export interface ExchangeRate {
+  id: string;
+  producer_id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Supplier filters as saved in a view and in share links; dates are local YYYY-MM-DD
+export interface SupplierFilterCriteria {
+  searchTerm: string;
+  categories: string[];
+  roles: string[];
+  hasContactPersons: boolean | null;
+  addedFrom: string | null;
+  addedTo: string | null;
+  city: string;
+}
+
+// Named supplier filter a producer can reapply on the suppliers page or when picking RFQ recipients
+export interface SupplierFilterView {
+  id: string;
+  producer_id: string;
+  name: string;
+  criteria: SupplierFilterCriteria;
+  created_at: string;
+  updated_at: string;
+}
+
+// Producer-managed asset tag; assets store the tag name in assets.tags
+export interface AssetTagDefinition {
+  id: string;
+  producer_id: string;
+  name: string;
+  color: string;
+  description: string;
+  supplier_categories: string[];
+  aliases: string[];
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Result of renaming or merging a tag across a producer's assets and templates
+export interface AssetTagRenameResult {
+  assets_updated: number;
+  templates_updated: number;
+  merged: boolean;
+}
+
+// Reusable quote request email; subject and body may contain {{merge.fields}}
+export interface RfqEmailTemplate {
+  id: string;
+  producer_id: string;
+  name: string;
+  subject: string;
+  body: string;
+  default_for_tags: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Reminder step for quote requests still Pending delay_hours after they were sent
+export interface QuoteFollowUpRule {
+  id: string;
+  producer_id: string;
+  delay_hours: number;
+  message: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Planned spend for one asset or one tag category, in the project base currency
+// Exactly one of asset_id / tag is set
+export interface BudgetAllocation {
+  id: string;
+  project_id: string;
+  asset_id: string | null;
+  tag: string | null;
+  amount: number;
+  created_at: string;
+  updated_at: string;
 }
 
 // Aggregated project summary for tracking widgets
@@ -134,6 +538,11 @@ export interface ProjectTrackingSummary {
     spent: number;
     remaining: number;
     percentageUsed: number;
+    currency: string;
+    /** Accepted quotes whose currency has no exchange rate to the base currency */
+    unconvertedQuoteCount: number;
+    /** Sum of per-asset allocations */
+    allocated: number;
   };
   timeline: {
     deadline: string | null;
@@ -147,9 +556,10 @@ export interface ProjectTrackingSummary {
 }
 
 // Insert types (for creating new records)
-export type QuoteInsert = Omit<Quote, 'id' | 'created_at' | 'updated_at' | 'quote_token'> & {
+export type QuoteInsert = Omit<Quote, 'id' | 'created_at' | 'updated_at' | 'quote_token' | 'currency'> & {
   id?: string;
   quote_token?: string;
+  currency?: string;
   created_at?: string;
   updated_at?: string;
 };
@@ -160,8 +570,10 @@ export type AssetInsert = Omit<Asset, 'id' | 'created_at' | 'updated_at'> & {
   updated_at?: string;
 };
 
-export type ProjectInsert = Omit<Project, 'id' | 'created_at' | 'updated_at'> & {
+export type ProjectInsert = Omit<Project, 'id' | 'created_at' | 'updated_at' | 'base_currency' | 'requires_client_approval'> & {
   id?: string;
+  base_currency?: string;
+  requires_client_approval?: boolean;
   created_at?: string;
   updated_at?: string;
 };
@@ -185,6 +597,28 @@ export type ActionItemInsert = Omit<ActionItem, 'id' | 'created_at' | 'updated_a
   completed_at?: string;
 };
 
+export type ExchangeRateInsert = Pick<ExchangeRate, 'from_currency' | 'to_currency' | 'rate'>;
+
+export type SupplierFilterViewInput = Pick<SupplierFilterView, 'name' | 'criteria'>;
+
+export type AssetTagDefinitionInput = Pick<AssetTagDefinition, 'name' | 'color' | 'description' | 'supplier_categories' | 'aliases'>;
+
+export type RfqEmailTemplateInput = Pick<RfqEmailTemplate, 'name' | 'subject' | 'body' | 'default_for_tags'>;
+
+export type QuoteFollowUpRuleInput = Pick<QuoteFollowUpRule, 'delay_hours' | 'message' | 'is_active'>;
+
+export type BudgetAllocationInput = Pick<BudgetAllocation, 'asset_id' | 'tag' | 'amount'>;
+
+export type QuoteLineItemInput = Pick<QuoteLineItem, 'description' | 'quantity' | 'unit' | 'unit_price' | 'tax_rate' | 'is_optional'>;
+
+export type AssetDependencyInput = Pick<AssetDependency, 'predecessor_asset_id' | 'successor_asset_id' | 'lag_days'>;
+
+export type AssetTimelineEventInsert = Omit<AssetTimelineEvent, 'id' | 'created_at' | 'updated_at' | 'created_by' | 'asset'> & {
+  id?: string;
+  created_at?: string;
+  updated_at?: string;
+};
+
 // Update types (for updating existing records)
 export type QuoteUpdate = Partial<Omit<Quote, 'id' | 'created_at' | 'updated_at'>>;
 export type AssetUpdate = Partial<Omit<Asset, 'id' | 'created_at' | 'updated_at'>>;
@@ -192,4 +626,5 @@ export type ProjectUpdate = Partial<Omit<Project, 'id' | 'created_at' | 'updated
 export type SupplierUpdate = Partial<Omit<Supplier, 'id' | 'created_at'>>;
 export type MilestoneUpdate = Partial<Omit<ProjectMilestone, 'id' | 'created_at' | 'updated_at'>>;
 export type ActionItemUpdate = Partial<Omit<ActionItem, 'id' | 'created_at' | 'updated_at'>>;
+export type AssetTimelineEventUpdate = Partial<Omit<AssetTimelineEvent, 'id' | 'asset_id' | 'created_at' | 'updated_at' | 'created_by' | 'asset'>>;
 
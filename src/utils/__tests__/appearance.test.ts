@@ -0,0 +1,29 @@
+/**
+ * Unit tests for appearance settings helpers
+ */
+
+import { DEFAULT_APPEARANCE, normalizeAppearance } from '../appearance';
+
+describe('normalizeAppearance', () => {
+  it('keeps valid settings', () => {
+    const settings = { theme: 'light', density: 'compact', font_size: 'extra-large' };
+    expect(normalizeAppearance(settings)).toEqual(settings);
+  });
+
+  it('falls back to defaults for missing input', () => {
+    expect(normalizeAppearance(null)).toEqual(DEFAULT_APPEARANCE);
+    expect(normalizeAppearance('light')).toEqual(DEFAULT_APPEARANCE);
+  });
+
+  it('replaces only the unrecognised values', () => {
+    expect(normalizeAppearance({ theme: 'light', density: 'cosy', font_size: 42 })).toEqual({
+      theme: 'light',
+      density: 'comfortable',
+      font_size: 'normal'
+    });
+  });
+
+  it('ignores extra fields', () => {
+    expect(normalizeAppearance({ ...DEFAULT_APPEARANCE, user_id: 'u1' })).toEqual(DEFAULT_APPEARANCE);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Unit tests for billing helpers
+ */
+
+import { formatPlanPrice, getUsageMeter, isUpgrade } from '../billing';
+
+describe('getUsageMeter', () => {
+  it('reports usage below the limit', () => {
+    expect(getUsageMeter(1, 10)).toEqual({ used: 1, limit: 10, percent: 10, isNearLimit: false, isAtLimit: false });
+  });
+
+  it('flags usage near the limit', () => {
+    const meter = getUsageMeter(8, 10);
+    expect(meter.isNearLimit).toBe(true);
+    expect(meter.isAtLimit).toBe(false);
+  });
+
+  it('caps the percentage once over the limit', () => {
+    const meter = getUsageMeter(25, 20);
+    expect(meter.percent).toBe(100);
+    expect(meter.isAtLimit).toBe(true);
+    expect(meter.isNearLimit).toBe(false);
+  });
+
+  it('treats a zero limit as reached', () => {
+    expect(getUsageMeter(0, 0).isAtLimit).toBe(true);
+  });
+
+  it('never flags unlimited plans', () => {
+    expect(getUsageMeter(500, null)).toEqual({ used: 500, limit: null, percent: 0, isNearLimit: false, isAtLimit: false });
+  });
+});
+
+describe('formatPlanPrice', () => {
+  it('formats free and paid plans', () => {
+    expect(formatPlanPrice({ monthly_price_cents: 0, currency: 'USD' })).toBe('Free');
+    expect(formatPlanPrice({ monthly_price_cents: 4900, currency: 'USD' })).toBe('$49.00/month');
+  });
+});
+
+describe('isUpgrade', () => {
+  it('compares monthly prices', () => {
+    expect(isUpgrade({ monthly_price_cents: 0 }, { monthly_price_cents: 4900 })).toBe(true);
+    expect(isUpgrade({ monthly_price_cents: 14900 }, { monthly_price_cents: 4900 })).toBe(false);
+    expect(isUpgrade(undefined, { monthly_price_cents: 4900 })).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for budget allocation utilities
+ */
+
+import { calculateBudgetVariance, getAcceptanceOverruns } from '../budgetAllocations';
+
+const conversion = {
+  baseCurrency: 'USD',
+  rates: [{ from_currency: 'EUR', to_currency: 'USD', rate: 2 }]
+};
+
+const assets = [
+  { id: 'stage', asset_name: 'Main stage', tags: ['Staging'] },
+  { id: 'lights', asset_name: 'Wash lights', tags: ['Lighting', 'Staging'] }
+];
+
+const quotes = [
+  { id: 'q1', asset_id: 'stage', cost: 1000, currency: 'USD', status: 'Accepted' },
+  { id: 'q2', asset_id: 'lights', cost: 300, currency: 'EUR', status: 'Submitted' },
+  { id: 'q3', asset_id: 'lights', cost: 500, currency: 'USD', status: 'Submitted' },
+  { id: 'q4', asset_id: 'lights', cost: 900, currency: 'GBP', status: 'Submitted' }
+];
+
+describe('budgetAllocations', () => {
+  describe('calculateBudgetVariance', () => {
+    it('should compare planned with the accepted cost or the lowest quote', () => {
+      const variance = calculateBudgetVariance(
+        assets,
+        quotes,
+        [
+          { asset_id: 'stage', tag: null, amount: 1200 },
+          { asset_id: null, tag: 'Staging', amount: 1500 }
+        ],
+        conversion
+      );
+
+      const stage = variance.assets.find(row => row.key === 'asset:stage')!;
+      expect(stage.accepted).toBe(1000);
+      expect(stage.variance).toBe(200);
+
+      const lights = variance.assets.find(row => row.key === 'asset:lights')!;
+      expect(lights.quoted).toBe(500);
+      expect(lights.planned).toBeNull();
+      expect(lights.unconvertedQuoteCount).toBe(1);
+
+      const staging = variance.tags.find(row => row.key === 'tag:Staging')!;
+      expect(staging.forecast).toBe(1500);
+      expect(staging.variance).toBe(0);
+      expect(variance.tags.map(row => row.label)).toEqual(['Lighting', 'Staging']);
+    });
+    it('should leave submitted quotes on sealed assets out of the quoted and forecast totals', () => {
+      const sealedAssets = [
+        { ...assets[0] },
+        { ...assets[1], sealed_bids: true, bids_open_at: '2025-03-20T12:00:00Z', bids_unsealed_at: null }
+      ];
+
+      const sealed = calculateBudgetVariance(sealedAssets, quotes, [], conversion, new Date('2025-03-19T12:00:00Z'));
+      const lights = sealed.assets.find(row => row.key === 'asset:lights')!;
+      expect(lights.quoted).toBe(0);
+      expect(lights.forecast).toBe(0);
+      expect(lights.sealedQuoteCount).toBe(3);
+      expect(lights.unconvertedQuoteCount).toBe(0);
+      expect(sealed.tags.find(row => row.key === 'tag:Staging')!.forecast).toBe(1000);
+
+      const opened = calculateBudgetVariance(sealedAssets, quotes, [], conversion, new Date('2025-03-21T12:00:00Z'));
+      const openedLights = opened.assets.find(row => row.key === 'asset:lights')!;
+      expect(openedLights.quoted).toBe(500);
+      expect(openedLights.sealedQuoteCount).toBe(0);
+    });
+  });
+
+  describe('getAcceptanceOverruns', () => {
+    it('should report the asset and tag allocations the quote would exceed', () => {
+      const overruns = getAcceptanceOverruns(
+        'q3',
+        assets,
+        quotes,
+        [
+          { asset_id: 'lights', tag: null, amount: 600 },
+          { asset_id: null, tag: 'Staging', amount: 1400 }
+        ],
+        conversion
+      );
+
+      expect(overruns).toEqual([
+        { kind: 'tag', label: 'Staging', planned: 1400, projected: 1500, overBy: 100, currency: 'USD' }
+      ]);
+    });
+  });
+});
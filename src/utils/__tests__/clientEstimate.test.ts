@@ -0,0 +1,86 @@
+/**
+ * Unit tests for client estimate utilities
+ */
+
+import { buildClientEstimate } from '../clientEstimate';
+import type { AssetWithAcceptedQuote } from '@/services/producerService';
+
+const conversion = {
+  baseCurrency: 'USD',
+  rates: [{ from_currency: 'EUR', to_currency: 'USD', rate: 2 }]
+};
+
+const timestamp = '2025-03-01T00:00:00Z';
+
+const acceptedAsset = (id: string, tags: string[], cost: number, currency: string): AssetWithAcceptedQuote => ({
+  id,
+  project_id: 'project-1',
+  asset_name: `Asset ${id}`,
+  status: 'Approved',
+  tags,
+  quantity: 1,
+  created_at: timestamp,
+  updated_at: timestamp,
+  acceptedQuote: {
+    id: `q-${id}`,
+    cost,
+    currency,
+    line_items: [],
+    created_at: timestamp,
+    updated_at: timestamp,
+    supplier: {
+      id: `s-${id}`,
+      supplier_name: `Supplier ${id}`,
+      service_categories: [],
+      contact_persons: [],
+      created_at: timestamp
+    }
+  }
+});
+
+const assets = [
+  acceptedAsset('a', ['Staging'], 1000, 'USD'),
+  acceptedAsset('b', ['Lighting', 'Staging'], 100, 'EUR'),
+  acceptedAsset('c', [], 50, 'USD'),
+  acceptedAsset('d', ['Lighting'], 10, 'GBP')
+];
+
+describe('clientEstimate', () => {
+  describe('buildClientEstimate', () => {
+    it('should apply markup per line, add the management fee and group by first tag', () => {
+      const estimate = buildClientEstimate(assets, conversion, {
+        markupPercent: 10,
+        managementFeePercent: 5,
+        groupByTag: true,
+        hideSupplierNames: true,
+        notes: ''
+      });
+
+      expect(estimate.groups.map(group => [group.label, group.subtotal])).toEqual([
+        ['Lighting', 220],
+        ['Staging', 1100],
+        ['Other', 55]
+      ]);
+      expect(estimate.subtotal).toBe(1375);
+      expect(estimate.managementFee).toBe(68.75);
+      expect(estimate.total).toBe(1443.75);
+      expect(estimate.costTotal).toBe(1250);
+      expect(estimate.excludedAssets).toEqual(['Asset d']);
+      expect(estimate.groups[0].lines[0].supplierName).toBeNull();
+    });
+
+    it('should list every line in one group with supplier names when asked', () => {
+      const estimate = buildClientEstimate(assets.slice(0, 2), conversion, {
+        markupPercent: 0,
+        managementFeePercent: 0,
+        groupByTag: false,
+        hideSupplierNames: false,
+        notes: ''
+      });
+
+      expect(estimate.groups).toHaveLength(1);
+      expect(estimate.groups[0].lines.map(line => line.supplierName)).toEqual(['Supplier a', 'Supplier b']);
+      expect(estimate.total).toBe(1200);
+    });
+  });
+});
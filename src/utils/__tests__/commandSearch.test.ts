@@ -0,0 +1,123 @@
+/**
+ * Unit tests for command palette search
+ */
+
+import {
+  scoreMatch,
+  searchCommands,
+  assetPath,
+  quoteChatPath,
+  type CommandSearchIndex
+} from '../commandSearch';
+import type { Project, Supplier } from '@/lib/supabase';
+
+const createProject = (id: string, name: string, client = 'Acme'): Project => ({
+  id,
+  project_name: name,
+  client_name: client,
+  brief_description: '',
+  event_date: null,
+  project_status: 'In Progress',
+  producer_id: 'producer-1',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z'
+});
+
+const createSupplier = (id: string, name: string, overrides: Partial<Supplier> = {}): Supplier => ({
+  id,
+  supplier_name: name,
+  contact_email: `${id}@example.com`,
+  service_categories: [],
+  contact_persons: [],
+  created_at: '2025-01-01T00:00:00Z',
+  ...overrides
+});
+
+const index: CommandSearchIndex = {
+  projects: [createProject('p1', 'Summer Launch'), createProject('p2', 'Launch Party', 'Summit Co')],
+  assets: [
+    { id: 'a1', project_id: 'p1', asset_name: 'Stage Banner', specifications: '3m vinyl', status: 'Pending', tags: ['Printing'] }
+  ],
+  suppliers: [
+    createSupplier('s1', 'Banner Works', {
+      service_categories: ['Printing'],
+      contact_persons: [{ name: 'Dana Reyes', email: 'dana@bannerworks.com', role: 'Account Manager', is_primary: true }]
+    }),
+    createSupplier('s2', 'Sound Co', { service_categories: ['Audio'] })
+  ],
+  latestQuoteIdBySupplier: { s1: 'q1' }
+};
+
+describe('commandSearch', () => {
+  describe('scoreMatch', () => {
+    it('ranks exact, prefix, word prefix and substring matches in that order', () => {
+      expect(scoreMatch('Launch', 'launch')).toBe(100);
+      expect(scoreMatch('Launch Party', 'launch')).toBe(80);
+      expect(scoreMatch('Summer Launch', 'launch')).toBe(60);
+      expect(scoreMatch('Relaunched', 'launch')).toBe(40);
+      expect(scoreMatch('Stage', 'launch')).toBe(0);
+    });
+
+    it('returns 0 for empty values or terms', () => {
+      expect(scoreMatch(null, 'launch')).toBe(0);
+      expect(scoreMatch('Launch', '   ')).toBe(0);
+    });
+  });
+
+  describe('searchCommands', () => {
+    it('ranks a name prefix match above a word prefix match', () => {
+      const projects = searchCommands(index, 'launch').filter(result => result.type === 'project');
+
+      expect(projects.map(result => result.title)).toEqual(['Launch Party', 'Summer Launch']);
+    });
+
+    it('offers open and request-quote actions for assets', () => {
+      const asset = searchCommands(index, 'stage').find(result => result.type === 'asset');
+
+      expect(asset?.actions.map(action => action.to)).toEqual([
+        assetPath('p1', 'a1'),
+        assetPath('p1', 'a1', 'request-quote')
+      ]);
+      expect(assetPath('p1', 'a1', 'request-quote')).toBe('/producer/projects/p1?asset=a1&action=request-quote');
+    });
+
+    it('only offers a chat action for suppliers with a quote', () => {
+      const banner = searchCommands(index, 'banner works').find(result => result.id === 'supplier-s1');
+      const sound = searchCommands(index, 'sound').find(result => result.id === 'supplier-s2');
+
+      expect(banner?.actions.map(action => action.id)).toEqual(['open', 'chat']);
+      expect(banner?.actions[1].to).toBe(quoteChatPath('q1'));
+      expect(sound?.actions.map(action => action.id)).toEqual(['open']);
+    });
+
+    it('finds contact persons with an email action', () => {
+      const contact = searchCommands(index, 'dana').find(result => result.type === 'contact');
+
+      expect(contact?.title).toBe('Dana Reyes');
+      expect(contact?.subtitle).toBe('Account Manager · Banner Works');
+      expect(contact?.actions[0].to).toBe('mailto:dana@bannerworks.com');
+    });
+
+    it('includes message hits with a snippet and a chat action', () => {
+      const results = searchCommands(index, 'proof', [{
+        id: 'm1',
+        quote_id: 'q1',
+        content: 'Please send the proof by Friday',
+        created_at: '2025-01-02T00:00:00Z',
+        supplier_name: 'Banner Works',
+        asset_name: 'Stage Banner'
+      }]);
+      const message = results.find(result => result.type === 'message');
+
+      expect(message?.title).toContain('proof');
+      expect(message?.actions[0].to).toBe(quoteChatPath('q1'));
+    });
+
+    it('returns pages and recent projects for an empty term', () => {
+      const results = searchCommands(index, '');
+
+      expect(results.some(result => result.id === 'page-dashboard')).toBe(true);
+      expect(results.filter(result => result.type === 'project')).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for critical-path scheduling
+ */
+
+import {
+  calculateProjectSchedule,
+  wouldCreateCycle,
+  describeSlack
+} from '../criticalPath';
+import type { Asset } from '@/lib/supabase';
+
+const today = new Date(2025, 5, 1); // 1 June 2025
+
+const createAsset = (overrides: Partial<Asset> & { id: string }): Asset => ({
+  project_id: 'project-1',
+  asset_name: overrides.id,
+  status: 'Pending',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides
+});
+
+const link = (predecessor: string, successor: string, lag = 0) => ({
+  predecessor_asset_id: predecessor,
+  successor_asset_id: successor,
+  lag_days: lag
+});
+
+describe('criticalPath', () => {
+  describe('calculateProjectSchedule', () => {
+    it('should use timeline dates and durations when nothing pushes them back', () => {
+      const schedule = calculateProjectSchedule(
+        [createAsset({ id: 'staging', timeline: '2025-06-10', duration_days: 4 })],
+        [],
+        '2025-06-15',
+        today
+      );
+      const [staging] = schedule.assets;
+      expect(staging.start).toBe('2025-06-06');
+      expect(staging.finish).toBe('2025-06-10');
+      expect(staging.slackDays).toBe(5);
+      expect(staging.risk).toBe('on_track');
+      expect(schedule.eventSlackDays).toBe(5);
+    });
+
+    it('should push successors back behind their predecessors plus lag', () => {
+      const schedule = calculateProjectSchedule(
+        [
+          createAsset({ id: 'staging', timeline: '2025-06-10', duration_days: 3 }),
+          createAsset({ id: 'lighting', timeline: '2025-06-11', duration_days: 2 })
+        ],
+        [link('staging', 'lighting', 1)],
+        '2025-06-13',
+        today
+      );
+      const lighting = schedule.assets.find(item => item.assetId === 'lighting')!;
+      expect(lighting.start).toBe('2025-06-11');
+      expect(lighting.finish).toBe('2025-06-13');
+      expect(lighting.delayDays).toBe(2);
+      expect(lighting.risk).toBe('critical');
+
+      // Staging must finish 3 days (2 duration + 1 lag) before the event
+      const staging = schedule.assets.find(item => item.assetId === 'staging')!;
+      expect(staging.latestFinish).toBe('2025-06-10');
+      expect(staging.slackDays).toBe(0);
+      expect(schedule.criticalPath).toEqual(['staging', 'lighting']);
+    });
+
+    it('should flag assets that already overrun the event date', () => {
+      const schedule = calculateProjectSchedule(
+        [
+          createAsset({ id: 'print-files', timeline: '2025-06-12', duration_days: 2 }),
+          createAsset({ id: 'printing', duration_days: 5 })
+        ],
+        [link('print-files', 'printing')],
+        '2025-06-14',
+        today
+      );
+      const printing = schedule.assets.find(item => item.assetId === 'printing')!;
+      expect(printing.finish).toBe('2025-06-17');
+      expect(printing.risk).toBe('late');
+      expect(describeSlack(printing)).toBe('3 days late');
+      expect(schedule.assets.find(item => item.assetId === 'print-files')!.risk).toBe('late');
+      expect(schedule.eventSlackDays).toBe(-3);
+    });
+
+    it('should not schedule work that has not started before today', () => {
+      const schedule = calculateProjectSchedule(
+        [
+          createAsset({ id: 'banners', timeline: '2025-05-20', duration_days: 2 }),
+          createAsset({ id: 'stage', timeline: '2025-05-20', duration_days: 2, status: 'In Production' })
+        ],
+        [],
+        null,
+        today
+      );
+      expect(schedule.assets.find(item => item.assetId === 'banners')!.finish).toBe('2025-06-03');
+      expect(schedule.assets.find(item => item.assetId === 'stage')!.finish).toBe('2025-06-01');
+      expect(schedule.assets.every(item => item.slackDays === null)).toBe(true);
+      expect(schedule.criticalPath).toEqual([]);
+    });
+
+    it('should treat delivered assets as done', () => {
+      const schedule = calculateProjectSchedule(
+        [createAsset({ id: 'signage', status: 'Delivered', delivered_at: '2025-05-28T09:00:00Z', timeline: '2025-05-30' })],
+        [],
+        '2025-06-10',
+        today
+      );
+      expect(schedule.assets[0].finish).toBe('2025-05-28');
+      expect(schedule.assets[0].risk).toBe('done');
+    });
+
+    it('should still schedule assets caught in a cycle', () => {
+      const schedule = calculateProjectSchedule(
+        [createAsset({ id: 'a', timeline: '2025-06-05' }), createAsset({ id: 'b', timeline: '2025-06-06' })],
+        [link('a', 'b'), link('b', 'a')],
+        '2025-06-10',
+        today
+      );
+      expect(schedule.hasCycle).toBe(true);
+      expect(schedule.assets).toHaveLength(2);
+    });
+  });
+
+  describe('wouldCreateCycle', () => {
+    const dependencies = [link('staging', 'lighting'), link('lighting', 'programming')];
+
+    it('should detect direct and indirect cycles', () => {
+      expect(wouldCreateCycle(dependencies, 'programming', 'staging')).toBe(true);
+      expect(wouldCreateCycle(dependencies, 'lighting', 'staging')).toBe(true);
+      expect(wouldCreateCycle(dependencies, 'staging', 'staging')).toBe(true);
+    });
+
+    it('should allow links that keep the graph acyclic', () => {
+      expect(wouldCreateCycle(dependencies, 'staging', 'programming')).toBe(false);
+      expect(wouldCreateCycle(dependencies, 'catering', 'staging')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for currency conversion utilities
+ */
+
+import { getExchangeRate, convertAmount, sumInBaseCurrency } from '../currency';
+
+const rates = [
+  { from_currency: 'EUR', to_currency: 'USD', rate: 1.1 },
+  { from_currency: 'USD', to_currency: 'ZAR', rate: 18 }
+];
+
+describe('currency', () => {
+  describe('getExchangeRate', () => {
+    it('should return 1 for the same currency', () => {
+      expect(getExchangeRate('GBP', 'GBP', [])).toBe(1);
+    });
+
+    it('should use the direct rate when stored', () => {
+      expect(getExchangeRate('EUR', 'USD', rates)).toBe(1.1);
+    });
+
+    it('should derive the inverse of the reverse pair', () => {
+      expect(getExchangeRate('ZAR', 'USD', rates)).toBeCloseTo(1 / 18);
+    });
+
+    it('should return null when no rate is available', () => {
+      expect(getExchangeRate('GBP', 'USD', rates)).toBeNull();
+    });
+  });
+
+  describe('convertAmount', () => {
+    it('should convert using the rate table', () => {
+      expect(convertAmount(100, 'EUR', 'USD', rates)).toBeCloseTo(110);
+    });
+
+    it('should return null for an unknown pair', () => {
+      expect(convertAmount(100, 'CAD', 'USD', rates)).toBeNull();
+    });
+  });
+
+  describe('sumInBaseCurrency', () => {
+    it('should convert mixed currencies and treat missing currency as base', () => {
+      const result = sumInBaseCurrency(
+        [
+          { amount: 100, currency: 'USD' },
+          { amount: 100, currency: 'EUR' },
+          { amount: 50 }
+        ],
+        { baseCurrency: 'USD', rates }
+      );
+
+      expect(result.total).toBeCloseTo(260);
+      expect(result.currency).toBe('USD');
+      expect(result.missingRates).toEqual([]);
+    });
+
+    it('should exclude and report amounts without a rate', () => {
+      const result = sumInBaseCurrency(
+        [
+          { amount: 100, currency: 'USD' },
+          { amount: 100, currency: 'GBP' },
+          { amount: 20, currency: 'GBP' }
+        ],
+        { baseCurrency: 'USD', rates }
+      );
+
+      expect(result.total).toBe(100);
+      expect(result.missingRates).toEqual(['GBP']);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for RFQ email template utilities
+ */
+
+import {
+  DEFAULT_RFQ_TEMPLATE,
+  buildMergeContext,
+  renderTemplate,
+  findUnknownMergeFields,
+  pickDefaultTemplate
+} from '../emailTemplates';
+
+const context = buildMergeContext({
+  supplier: {
+    supplier_name: 'Brightline AV',
+    contact_persons: [
+      { name: 'Jo Smith' },
+      { name: 'Sam Carter', is_primary: true }
+    ]
+  },
+  asset: { quantity: 3, specifications: '', supplier_context: null, timeline: '2025-06-10' },
+  assetName: 'LED Screen',
+  project: { project_name: 'Summer Launch', event_date: null },
+  producer: { fromName: 'Alex Morgan', company: 'ProdBay Events', email: 'alex@example.com' }
+});
+
+describe('emailTemplates', () => {
+  describe('buildMergeContext', () => {
+    it('should use the primary contact and fall back for missing specifications', () => {
+      expect(context['supplier.contact_name']).toBe('Sam Carter');
+      expect(context['asset.quantity']).toBe('3');
+      expect(context['asset.specifications']).toBe('See project brief for details');
+      expect(context['asset.timeline']).toBe('June 10, 2025');
+      expect(context['producer.signature']).toBe('Alex Morgan\nProdBay Events\nalex@example.com');
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should fill merge fields and tolerate spaces inside the braces', () => {
+      expect(renderTemplate('Hi {{ supplier.contact_name }}, {{asset.quantity}} x {{asset.name}}', context))
+        .toBe('Hi Sam Carter, 3 x LED Screen');
+    });
+
+    it('should drop lines whose merge fields are all empty', () => {
+      const rendered = renderTemplate('Asset: {{asset.name}}\nEvent: {{project.event_date}}\nThanks', context);
+      expect(rendered).toBe('Asset: LED Screen\nThanks');
+    });
+
+    it('should leave unknown merge fields in place', () => {
+      expect(renderTemplate('Ref {{asset.nme}}', context)).toBe('Ref {{asset.nme}}');
+      expect(findUnknownMergeFields('{{asset.nme}} {{asset.name}} {{asset.nme}}')).toEqual(['asset.nme']);
+    });
+
+    it('should render the standard template without leftover fields', () => {
+      const body = renderTemplate(DEFAULT_RFQ_TEMPLATE.body, context);
+      expect(body).not.toContain('{{');
+      expect(body).not.toContain('Supplier & Logistics Context');
+      expect(body).toContain('Quantity: 3');
+    });
+  });
+
+  describe('pickDefaultTemplate', () => {
+    const templates = [
+      { id: 'av', default_for_tags: ['Audio'] },
+      { id: 'av-video', default_for_tags: ['Audio', 'Video & Display'] },
+      { id: 'none', default_for_tags: [] }
+    ];
+
+    it('should pick the template matching the most asset tags', () => {
+      expect(pickDefaultTemplate(templates, ['Audio', 'Video & Display'])?.id).toBe('av-video');
+      expect(pickDefaultTemplate(templates, ['Audio'])?.id).toBe('av');
+    });
+
+    it('should return null when no template is a default for the tags', () => {
+      expect(pickDefaultTemplate(templates, ['Catering'])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for geographic supplier matching
+ */
+
+import {
+  findPlace,
+  resolveVenue,
+  formatVenue,
+  distanceKm,
+  getSupplierBasePlace,
+  getSupplierLocationMatch,
+  getLocationMatchRank,
+  describeLocationMatch
+} from '../geoMatching';
+import { sortSuppliersByRelevance } from '../supplierRelevance';
+import type { Supplier } from '@/lib/supabase';
+
+const createSupplier = (overrides: Partial<Supplier>): Supplier => ({
+  id: overrides.supplier_name || 'supplier',
+  supplier_name: 'Supplier',
+  service_categories: [],
+  contact_persons: [],
+  created_at: '2025-01-01T00:00:00Z',
+  ...overrides
+});
+
+describe('geoMatching', () => {
+  const capeTownVenue = { city: 'Cape Town' };
+
+  describe('gazetteer lookup', () => {
+    it('should resolve aliases and ignore case and punctuation', () => {
+      expect(findPlace('joburg')?.name).toBe('Johannesburg');
+      expect(findPlace('Port Elizabeth')?.name).toBe('Gqeberha');
+      expect(findPlace('Atlantis')).toBe(null);
+    });
+
+    it('should fill in region and country from the venue city', () => {
+      const resolved = resolveVenue({ city: 'CPT' });
+      expect(resolved.city).toBe('Cape Town');
+      expect(resolved.region).toBe('Western Cape');
+      expect(resolved.country).toBe('South Africa');
+      expect(formatVenue({ city: 'CPT' })).toBe('Cape Town, Western Cape');
+      expect(formatVenue({ region: 'KZN' })).toBe('KwaZulu-Natal');
+    });
+
+    it('should measure distances between cities', () => {
+      const distance = distanceKm(findPlace('Stellenbosch')!, findPlace('Cape Town')!);
+      expect(Math.round(distance)).toBe(40);
+    });
+
+    it('should pick the supplier base out of the address', () => {
+      const supplier = createSupplier({ address: '12 Dorp Street, Stellenbosch, 7600', cities_served: ['Durban'] });
+      expect(getSupplierBasePlace(supplier)?.name).toBe('Stellenbosch');
+      expect(getSupplierBasePlace({ address: 'Unit 4, Industrial Park', cities_served: ['Durban'] })?.name).toBe('Durban');
+    });
+  });
+
+  describe('getSupplierLocationMatch', () => {
+    it('should match the venue city first', () => {
+      const supplier = createSupplier({ cities_served: ['Kaapstad', 'Western Cape'] });
+      expect(getSupplierLocationMatch(supplier, capeTownVenue)).toEqual({ kind: 'city', label: 'Cape Town' });
+    });
+
+    it('should match the venue region', () => {
+      const supplier = createSupplier({ cities_served: ['WC'] });
+      expect(getSupplierLocationMatch(supplier, capeTownVenue)).toEqual({ kind: 'region', label: 'Western Cape' });
+    });
+
+    it('should match venues within the travel radius', () => {
+      const supplier = createSupplier({ address: 'Paarl', cities_served: [], travel_radius_km: 100 });
+      const match = getSupplierLocationMatch(supplier, capeTownVenue);
+      expect(match?.kind).toBe('travel_radius');
+      expect(match && describeLocationMatch(match)).toBe(`Travels from Paarl (${match?.distanceKm} km)`);
+      expect(getSupplierLocationMatch({ ...supplier, travel_radius_km: 20 }, capeTownVenue)).toBe(null);
+    });
+
+    it('should treat nationwide suppliers as covering the country', () => {
+      const supplier = createSupplier({ cities_served: ['Nationwide'] });
+      expect(getSupplierLocationMatch(supplier, capeTownVenue)).toEqual({ kind: 'country', label: 'South Africa' });
+    });
+
+    it('should return null without a venue or coverage', () => {
+      const supplier = createSupplier({ cities_served: ['Durban'] });
+      expect(getSupplierLocationMatch(supplier, null)).toBe(null);
+      expect(getSupplierLocationMatch(supplier, capeTownVenue)).toBe(null);
+      expect(getLocationMatchRank(null)).toBe(0);
+    });
+
+    it('should match unknown towns by name', () => {
+      const supplier = createSupplier({ cities_served: ['Riebeek Kasteel'] });
+      expect(getSupplierLocationMatch(supplier, { city: 'riebeek kasteel' })?.kind).toBe('city');
+    });
+  });
+
+  describe('sortSuppliersByRelevance', () => {
+    it('should rank suppliers covering the venue first within the same category score', () => {
+      const suppliers = [
+        createSupplier({ supplier_name: 'A Durban Sound', service_categories: ['Audio'], cities_served: ['Durban'] }),
+        createSupplier({ supplier_name: 'B National Sound', service_categories: ['Audio'], cities_served: ['Nationwide'] }),
+        createSupplier({ supplier_name: 'C Cape Sound', service_categories: ['Audio'], cities_served: ['Cape Town'] }),
+        createSupplier({ supplier_name: 'D Cape Catering', service_categories: ['Catering'], cities_served: ['Cape Town'] })
+      ];
+
+      const sorted = sortSuppliersByRelevance(suppliers, ['Audio'], { venue: capeTownVenue });
+      expect(sorted.map((supplier) => supplier.supplier_name)).toEqual([
+        'C Cape Sound',
+        'B National Sound',
+        'A Durban Sound',
+        'D Cape Catering'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for producer inbox utilities
+ */
+
+import {
+  EMPTY_INBOX_FILTERS,
+  filterConversations,
+  getInboxFilterOptions,
+  getMessagePreview,
+  countUnread
+} from '../inbox';
+import type { InboxConversation } from '@/types/database';
+
+const createConversation = (overrides: Partial<InboxConversation> & { quote_id: string }): InboxConversation => ({
+  quote_status: 'Pending',
+  project_id: 'p1',
+  project_name: 'Summer Launch',
+  asset_id: 'a1',
+  asset_name: 'Stage Banner',
+  supplier_id: 's1',
+  supplier_name: 'Banner Works',
+  last_message_content: 'Hello',
+  last_message_sender: 'SUPPLIER',
+  last_message_at: '2025-06-01T10:00:00Z',
+  message_count: 1,
+  unread_count: 0,
+  ...overrides
+});
+
+const conversations = [
+  createConversation({ quote_id: 'q1', unread_count: 2, last_message_at: '2025-06-01T10:00:00Z' }),
+  createConversation({
+    quote_id: 'q2',
+    asset_id: 'a2',
+    asset_name: 'Lighting Rig',
+    supplier_id: 's2',
+    supplier_name: 'Bright Lights',
+    last_message_at: '2025-06-03T10:00:00Z'
+  }),
+  createConversation({
+    quote_id: 'q3',
+    project_id: 'p2',
+    project_name: 'Autumn Gala',
+    asset_id: 'a3',
+    asset_name: 'Catering',
+    unread_count: 1,
+    last_message_at: '2025-06-02T10:00:00Z'
+  })
+];
+
+describe('inbox', () => {
+  describe('filterConversations', () => {
+    it('returns every conversation, most recent first, with no filters', () => {
+      const result = filterConversations(conversations, EMPTY_INBOX_FILTERS);
+
+      expect(result.map(c => c.quote_id)).toEqual(['q2', 'q3', 'q1']);
+    });
+
+    it('filters by project, asset and supplier together', () => {
+      expect(filterConversations(conversations, { ...EMPTY_INBOX_FILTERS, projectId: 'p1' })).toHaveLength(2);
+      expect(filterConversations(conversations, { ...EMPTY_INBOX_FILTERS, projectId: 'p1', supplierId: 's1' })
+        .map(c => c.quote_id)).toEqual(['q1']);
+      expect(filterConversations(conversations, { ...EMPTY_INBOX_FILTERS, assetId: 'a3' })
+        .map(c => c.quote_id)).toEqual(['q3']);
+    });
+
+    it('keeps only conversations with unread messages when unreadOnly is set', () => {
+      const result = filterConversations(conversations, { ...EMPTY_INBOX_FILTERS, unreadOnly: true });
+
+      expect(result.map(c => c.quote_id)).toEqual(['q3', 'q1']);
+    });
+  });
+
+  describe('getInboxFilterOptions', () => {
+    it('lists unique projects and suppliers sorted by name', () => {
+      const options = getInboxFilterOptions(conversations);
+
+      expect(options.projects).toEqual([
+        { value: 'p2', label: 'Autumn Gala' },
+        { value: 'p1', label: 'Summer Launch' }
+      ]);
+      expect(options.suppliers.map(s => s.value)).toEqual(['s1', 's2']);
+    });
+
+    it('limits assets to the selected project', () => {
+      const options = getInboxFilterOptions(conversations, 'p1');
+
+      expect(options.assets.map(a => a.label)).toEqual(['Lighting Rig', 'Stage Banner']);
+    });
+  });
+
+  describe('countUnread', () => {
+    it('sums unread messages across conversations', () => {
+      expect(countUnread(conversations)).toBe(3);
+      expect(countUnread([])).toBe(0);
+    });
+  });
+
+  describe('getMessagePreview', () => {
+    it('prefixes the producer\'s own messages', () => {
+      const conversation = createConversation({ quote_id: 'q4', last_message_sender: 'PRODUCER', last_message_content: 'Any update?' });
+
+      expect(getMessagePreview(conversation)).toBe('You: Any update?');
+    });
+
+    it('collapses whitespace and truncates long messages', () => {
+      const conversation = createConversation({ quote_id: 'q5', last_message_content: `Line one\n\nline two ${'x'.repeat(200)}` });
+      const preview = getMessagePreview(conversation);
+
+      expect(preview.startsWith('Line one line two')).toBe(true);
+      expect(preview).toHaveLength(120);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Unit tests for notification center event helpers
+ */
+
+import { NOTIFICATION_EVENTS, formatNotificationAge, getNotificationEventLabel } from '../notificationEvents';
+
+describe('NOTIFICATION_EVENTS', () => {
+  it('lists each event type once', () => {
+    const types = NOTIFICATION_EVENTS.map(event => event.type);
+    expect(new Set(types).size).toBe(types.length);
+    expect(types).toEqual([
+      'supplier_message',
+      'quote_submitted',
+      'quote_expiring',
+      'milestone_due',
+      'action_item_assigned'
+    ]);
+  });
+});
+
+describe('getNotificationEventLabel', () => {
+  it('returns the label for a known event type', () => {
+    expect(getNotificationEventLabel('milestone_due')).toBe('Milestone due');
+  });
+});
+
+describe('formatNotificationAge', () => {
+  const now = new Date('2025-06-10T12:00:00Z');
+
+  it('shows "just now" for the last minute', () => {
+    expect(formatNotificationAge('2025-06-10T11:59:30Z', now)).toBe('just now');
+  });
+
+  it('shows minutes, hours and days', () => {
+    expect(formatNotificationAge('2025-06-10T11:45:00Z', now)).toBe('15m');
+    expect(formatNotificationAge('2025-06-10T09:00:00Z', now)).toBe('3h');
+    expect(formatNotificationAge('2025-06-08T12:00:00Z', now)).toBe('2d');
+  });
+
+  it('falls back to a date after a week', () => {
+    expect(formatNotificationAge('2025-05-20T12:00:00Z', now)).toBe('May 20');
+  });
+});
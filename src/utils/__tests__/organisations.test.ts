@@ -0,0 +1,65 @@
+/**
+ * Unit tests for organisation helpers
+ */
+
+import { buildInvitationLink, canShareProject, getProjectAccess } from '../organisations';
+import type { OrganisationMembership, OrganisationRole } from '@/types/database';
+
+const membership = (role: OrganisationRole, organisationId = 'org-1'): OrganisationMembership => ({
+  organisation: {
+    id: organisationId,
+    name: 'Studio',
+    created_by: 'owner-1',
+    created_at: '2025-03-18T00:00:00Z',
+    updated_at: '2025-03-18T00:00:00Z'
+  },
+  role
+});
+
+const sharedProject = { producer_id: 'producer-1', organisation_id: 'org-1' };
+const privateProject = { producer_id: 'producer-1', organisation_id: null };
+
+describe('getProjectAccess', () => {
+  it('gives the project producer full access, shared or not', () => {
+    expect(getProjectAccess(privateProject, 'producer-1', null)).toBe('manage');
+    expect(getProjectAccess(sharedProject, 'producer-1', membership('finance'))).toBe('manage');
+  });
+
+  it('grants shared projects by role', () => {
+    expect(getProjectAccess(sharedProject, 'user-2', membership('owner'))).toBe('manage');
+    expect(getProjectAccess(sharedProject, 'user-2', membership('producer'))).toBe('manage');
+    expect(getProjectAccess(sharedProject, 'user-2', membership('coordinator'))).toBe('edit');
+    expect(getProjectAccess(sharedProject, 'user-2', membership('finance'))).toBe('view');
+  });
+
+  it('hides private projects and other organisations', () => {
+    expect(getProjectAccess(privateProject, 'user-2', membership('owner'))).toBe('none');
+    expect(getProjectAccess(sharedProject, 'user-2', membership('owner', 'org-2'))).toBe('none');
+    expect(getProjectAccess(sharedProject, 'user-2', null)).toBe('none');
+  });
+});
+
+describe('canShareProject', () => {
+  it('lets the producer share their own project with their organisation', () => {
+    expect(canShareProject(privateProject, 'producer-1', membership('coordinator'))).toBe(true);
+  });
+
+  it('does not let finance members share, even their own projects', () => {
+    expect(canShareProject(privateProject, 'producer-1', membership('finance'))).toBe(false);
+  });
+
+  it('lets organisation owners and producers unshare projects', () => {
+    expect(canShareProject(sharedProject, 'user-2', membership('producer'))).toBe(true);
+    expect(canShareProject(sharedProject, 'user-2', membership('coordinator'))).toBe(false);
+  });
+
+  it('requires an organisation', () => {
+    expect(canShareProject(privateProject, 'producer-1', null)).toBe(false);
+  });
+});
+
+describe('buildInvitationLink', () => {
+  it('points at the invitation page', () => {
+    expect(buildInvitationLink('abc', 'https://app.prodbay.com/')).toBe('https://app.prodbay.com/invite/abc');
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for project export rows
+ */
+
+import { buildQuoteRows, buildBudgetRows } from '../projectExport';
+import type { Project, Asset, Quote, QuoteLineItem } from '@/lib/supabase';
+
+const timestamp = '2025-03-01T10:00:00Z';
+const now = new Date('2025-03-10T12:00:00Z');
+
+const conversion = {
+  baseCurrency: 'USD',
+  rates: [{ from_currency: 'EUR', to_currency: 'USD', rate: 2 }]
+};
+
+const project: Project = {
+  id: 'p1',
+  project_name: 'Summer Gala',
+  client_name: 'Acme',
+  brief_description: '',
+  financial_parameters: 5000,
+  event_date: null,
+  project_status: 'Quoting',
+  base_currency: 'USD',
+  producer_id: 'producer-1',
+  created_at: timestamp,
+  updated_at: timestamp
+};
+
+const asset = (id: string, tags: string[], overrides: Partial<Asset> = {}): Asset => ({
+  id,
+  project_id: 'p1',
+  asset_name: `Asset ${id}`,
+  status: 'Quoting',
+  tags,
+  created_at: timestamp,
+  updated_at: timestamp,
+  ...overrides
+});
+
+const lineItem = (quoteId: string, position: number, overrides: Partial<QuoteLineItem> = {}): QuoteLineItem => ({
+  id: `${quoteId}-li${position}`,
+  quote_id: quoteId,
+  position,
+  description: `Item ${position}`,
+  quantity: 2,
+  unit: 'each',
+  unit_price: 100,
+  tax_rate: 10,
+  is_optional: false,
+  created_at: timestamp,
+  ...overrides
+});
+
+const quote = (id: string, assetId: string, status: Quote['status'], cost: number, overrides: Partial<Quote> = {}): Quote => ({
+  id,
+  supplier_id: `s-${id}`,
+  asset_id: assetId,
+  cost,
+  currency: 'USD',
+  status,
+  quote_token: `token-${id}`,
+  supplier: {
+    id: `s-${id}`,
+    supplier_name: `Supplier ${id}`,
+    service_categories: [],
+    contact_persons: [],
+    created_at: timestamp
+  },
+  created_at: timestamp,
+  updated_at: '2025-03-05T08:30:00Z',
+  ...overrides
+});
+
+const stage = asset('stage', ['Staging']);
+const lights = asset('lights', ['Lighting']);
+const sealedScreen = asset('screen', ['Staging'], { sealed_bids: true, bids_open_at: '2025-03-20T12:00:00Z' });
+
+const quotes: Quote[] = [
+  quote('q1', 'stage', 'Accepted', 1000, { valid_until: '2025-04-01', line_items: [lineItem('q1', 2), lineItem('q1', 1, { is_optional: true })] }),
+  quote('q2', 'lights', 'Submitted', 300, { currency: 'EUR' }),
+  quote('q3', 'lights', 'Pending', 0),
+  quote('q4', 'screen', 'Submitted', 800, { line_items: [lineItem('q4', 1)] })
+];
+
+describe('projectExport', () => {
+  describe('buildQuoteRows', () => {
+    const rows = buildQuoteRows([lights, stage, sealedScreen], quotes, now);
+
+    it('should write one row per line item in position order, following the asset order', () => {
+      expect(rows[0]).toEqual([
+        'Asset', 'Supplier', 'Status', 'Currency', 'Quote Total', 'Valid Until', 'Last Updated',
+        'Line Item', 'Quantity', 'Unit', 'Unit Price', 'Tax %', 'Line Total', 'Optional'
+      ]);
+      expect(rows.slice(1).map(row => [row[0], row[7]])).toEqual([
+        ['Asset lights', undefined],
+        ['Asset lights', undefined],
+        ['Asset stage', 'Item 1'],
+        ['Asset stage', 'Item 2'],
+        ['Asset screen', undefined]
+      ]);
+      expect(rows[3]).toEqual([
+        'Asset stage', 'Supplier q1', 'Accepted', 'USD', 1000, '2025-04-01', '2025-03-05',
+        'Item 1', 2, 'each', 100, 10, 220, true
+      ]);
+    });
+
+    it('should leave the total of pending quotes empty', () => {
+      expect(rows[2].slice(0, 5)).toEqual(['Asset lights', 'Supplier q3', 'Pending', 'USD', null]);
+    });
+
+    it('should hide the total and line items of sealed bids', () => {
+      expect(rows[5]).toEqual(['Asset screen', 'Supplier q4', 'Submitted', 'USD', 'Sealed', '', '2025-03-05']);
+    });
+
+    it('should show sealed bids once they open', () => {
+      const opened = buildQuoteRows([sealedScreen], quotes, new Date('2025-03-21T00:00:00Z'));
+      expect(opened.slice(1).map(row => [row[4], row[7]])).toEqual([[800, 'Item 1']]);
+    });
+  });
+
+  describe('buildBudgetRows', () => {
+    const rows = buildBudgetRows(
+      project,
+      [stage, lights, sealedScreen],
+      quotes,
+      [{ asset_id: 'stage', tag: null, amount: 1200 }, { asset_id: null, tag: 'Staging', amount: 2000 }],
+      conversion,
+      now
+    );
+
+    it('should summarise the budget against accepted spend in the base currency', () => {
+      expect(rows.slice(0, 9)).toEqual([
+        ['Item', 'Value'],
+        ['Project', 'Summer Gala'],
+        ['Client', 'Acme'],
+        ['Currency', 'USD'],
+        ['Total Budget', 5000],
+        ['Accepted Spend', 1000],
+        ['Remaining', 4000],
+        ['Budget Used %', 20],
+        ['Assets Exported', 3]
+      ]);
+    });
+
+    it('should list tag and asset variance, with sealed bids counted but not priced', () => {
+      expect(rows.slice(9)).toEqual([
+        [],
+        ['Type', 'Name', 'Planned', 'Quoted (lowest)', 'Accepted', 'Variance', 'Sealed Bids'],
+        ['Tag', 'Lighting', null, 600, 0, null, 0],
+        ['Tag', 'Staging', 2000, 1000, 1000, 1000, 1],
+        ['Asset', 'Asset stage', 1200, 1000, 1000, 200, 0],
+        ['Asset', 'Asset lights', null, 600, 0, null, 0],
+        ['Asset', 'Asset screen', null, 'Sealed', 0, null, 1]
+      ]);
+    });
+
+    it('should note currencies without an exchange rate', () => {
+      const gbpRows = buildBudgetRows(
+        project,
+        [stage],
+        [quote('q5', 'stage', 'Accepted', 100, { currency: 'GBP' })],
+        [],
+        conversion,
+        now
+      );
+      expect(gbpRows[5]).toEqual(['Accepted Spend', 0]);
+      expect(gbpRows[9]).toEqual(['Excluded (no exchange rate)', 'GBP']);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Unit tests for quote response deadline utilities
+ */
+
+import { getEffectiveDeadline, formatTimeRemaining, toDateTimeLocalValue } from '../quoteDeadlines';
+
+describe('quoteDeadlines', () => {
+  describe('getEffectiveDeadline', () => {
+    it('should prefer the per-supplier extension over the round deadline', () => {
+      const deadline = getEffectiveDeadline({
+        response_deadline: '2025-03-10T17:00:00Z',
+        deadline_extended_until: '2025-03-12T17:00:00Z'
+      });
+      expect(deadline?.toISOString()).toBe('2025-03-12T17:00:00.000Z');
+    });
+
+    it('should return null without a deadline', () => {
+      expect(getEffectiveDeadline({ response_deadline: null })).toBe(null);
+    });
+  });
+
+  describe('formatTimeRemaining', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+
+    it('should show days and hours when more than a day is left', () => {
+      expect(formatTimeRemaining(new Date('2025-03-12T16:30:00Z'), now)).toBe('2d 4h left');
+    });
+
+    it('should show hours and minutes on the last day', () => {
+      expect(formatTimeRemaining(new Date('2025-03-10T15:20:00Z'), now)).toBe('3h 20m left');
+    });
+
+    it('should round the final seconds up to a minute', () => {
+      expect(formatTimeRemaining(new Date('2025-03-10T12:00:30Z'), now)).toBe('1m left');
+    });
+
+    it('should return null once the deadline has passed', () => {
+      expect(formatTimeRemaining(new Date('2025-03-10T12:00:00Z'), now)).toBe(null);
+    });
+  });
+
+  describe('toDateTimeLocalValue', () => {
+    it('should format local time for datetime-local inputs', () => {
+      expect(toDateTimeLocalValue(new Date(2025, 2, 7, 9, 5))).toBe('2025-03-07T09:05');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for quote line item utilities
+ */
+
+import { calculateLineItemTotals, validateLineItem, alignLineItems } from '../quoteLineItems';
+import type { QuoteLineItemInput } from '@/types/database';
+
+const line = (overrides: Partial<QuoteLineItemInput>): QuoteLineItemInput => ({
+  description: 'Item',
+  quantity: 1,
+  unit: 'each',
+  unit_price: 0,
+  tax_rate: 0,
+  is_optional: false,
+  ...overrides
+});
+
+describe('quoteLineItems', () => {
+  describe('calculateLineItemTotals', () => {
+    it('should apply tax per line and exclude optional lines from the total', () => {
+      const totals = calculateLineItemTotals([
+        line({ quantity: 2, unit_price: 100, tax_rate: 15 }),
+        line({ quantity: 1, unit_price: 50 }),
+        line({ quantity: 1, unit_price: 40, is_optional: true })
+      ]);
+
+      expect(totals.subtotal).toBe(250);
+      expect(totals.tax).toBeCloseTo(30);
+      expect(totals.total).toBeCloseTo(280);
+      expect(totals.optionalTotal).toBe(40);
+    });
+
+    it('should return zeros for no lines', () => {
+      expect(calculateLineItemTotals([])).toEqual({ subtotal: 0, tax: 0, total: 0, optionalTotal: 0 });
+    });
+  });
+
+  describe('validateLineItem', () => {
+    it('should require a description and a positive quantity', () => {
+      expect(validateLineItem(line({ description: '  ' }))).toBe('Description is required');
+      expect(validateLineItem(line({ quantity: 0 }))).toBe('Quantity must be greater than 0');
+      expect(validateLineItem(line({ unit_price: 10 }))).toBeNull();
+    });
+  });
+
+  describe('alignLineItems', () => {
+    it('should match lines across quotes ignoring case and plurals', () => {
+      const rows = alignLineItems([
+        { id: 'a', line_items: [line({ description: 'Wireless Microphones' }), line({ description: 'Stage lighting' })] },
+        { id: 'b', line_items: [line({ description: 'wireless microphone' }), line({ description: 'Truss' })] }
+      ]);
+
+      expect(rows.map(row => row.description)).toEqual(['Wireless Microphones', 'Stage lighting', 'Truss']);
+      expect(rows[0].items.a).toBeDefined();
+      expect(rows[0].items.b).toBeDefined();
+      expect(rows[1].items.b).toBeUndefined();
+    });
+
+    it('should keep repeated descriptions from one supplier as separate rows', () => {
+      const rows = alignLineItems([
+        { id: 'a', line_items: [line({ description: 'Crew' }), line({ description: 'Crew' })] }
+      ]);
+
+      expect(rows).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Unit tests for sealed bid utilities
+ */
+
+import { isBidSealed } from '../sealedBids';
+
+describe('sealedBids', () => {
+  describe('isBidSealed', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+
+    it('should not seal assets without sealed bids', () => {
+      expect(isBidSealed({ sealed_bids: false }, now)).toBe(false);
+      expect(isBidSealed(null, now)).toBe(false);
+    });
+
+    it('should stay sealed without an opening time until unsealed', () => {
+      expect(isBidSealed({ sealed_bids: true, bids_open_at: null }, now)).toBe(true);
+      expect(isBidSealed({ sealed_bids: true, bids_open_at: null, bids_unsealed_at: '2025-03-09T09:00:00Z' }, now)).toBe(false);
+    });
+
+    it('should open once the opening time has passed', () => {
+      expect(isBidSealed({ sealed_bids: true, bids_open_at: '2025-03-10T17:00:00Z' }, now)).toBe(true);
+      expect(isBidSealed({ sealed_bids: true, bids_open_at: '2025-03-10T12:00:00Z' }, now)).toBe(false);
+    });
+  });
+});
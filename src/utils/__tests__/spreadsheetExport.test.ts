@@ -0,0 +1,107 @@
+/**
+ * Unit tests for spreadsheet export utilities
+ */
+
+import { toCsv, buildZip, getSheetNames } from '../spreadsheetExport';
+
+const readUint16 = (bytes: Uint8Array, offset: number): number =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint16(offset, true);
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true);
+
+const readText = (bytes: Uint8Array, offset: number, length: number): string =>
+  new TextDecoder().decode(bytes.slice(offset, offset + length));
+
+const sheet = (name: string) => ({ name, rows: [] });
+
+describe('spreadsheetExport', () => {
+  describe('toCsv', () => {
+    it('should quote fields with commas, quotes and line breaks and use CRLF rows', () => {
+      expect(toCsv([
+        ['Name', 'Notes'],
+        ['Smith, Co', 'Says "hi"'],
+        ['Multi\nline', null]
+      ])).toBe('Name,Notes\r\n"Smith, Co","Says ""hi"""\r\n"Multi\nline",');
+    });
+
+    it('should prefix text that spreadsheets would run as a formula', () => {
+      expect(toCsv([['=SUM(A1:A2)', '+1', '-1', '@cmd', '\tTab', 'a=b']])).toBe("'=SUM(A1:A2),'+1,'-1,'@cmd,'\tTab,a=b");
+    });
+
+    it('should write numbers and booleans as values, not escaped text', () => {
+      expect(toCsv([[-5, 2.5, true, false, Number.POSITIVE_INFINITY, undefined]])).toBe('-5,2.5,Yes,No,,');
+    });
+  });
+
+  describe('buildZip', () => {
+    const zip = buildZip([
+      { path: 'a.txt', content: '123456789' },
+      { path: 'empty', content: '' },
+      { path: 'abc', content: 'abc' }
+    ]);
+
+    it('should write a stored local header before each file', () => {
+      expect(readUint32(zip, 0)).toBe(0x04034b50);
+      expect(readUint16(zip, 4)).toBe(20);
+      expect(readUint16(zip, 6)).toBe(0x0800);
+      expect(readUint16(zip, 8)).toBe(0);
+      expect(readUint32(zip, 18)).toBe(9);
+      expect(readUint32(zip, 22)).toBe(9);
+      expect(readUint16(zip, 26)).toBe(5);
+      expect(readText(zip, 30, 5)).toBe('a.txt');
+      expect(readText(zip, 35, 9)).toBe('123456789');
+
+      expect(readUint32(zip, 44)).toBe(0x04034b50);
+      expect(readText(zip, 74, 5)).toBe('empty');
+      expect(readUint32(zip, 79)).toBe(0x04034b50);
+      expect(readText(zip, 109, 3)).toBe('abc');
+    });
+
+    it('should store the standard CRC-32 of each file', () => {
+      expect(readUint32(zip, 14)).toBe(0xcbf43926);
+      expect(readUint32(zip, 44 + 14)).toBe(0);
+      expect(readUint32(zip, 79 + 14)).toBe(0x352441c2);
+    });
+
+    it('should point each central directory header at its local header', () => {
+      const centralStart = 115;
+      expect(readUint32(zip, centralStart)).toBe(0x02014b50);
+      expect(readUint32(zip, centralStart + 16)).toBe(0xcbf43926);
+      expect(readUint32(zip, centralStart + 20)).toBe(9);
+      expect(readUint16(zip, centralStart + 28)).toBe(5);
+      expect(readUint32(zip, centralStart + 42)).toBe(0);
+      expect(readText(zip, centralStart + 46, 5)).toBe('a.txt');
+
+      expect(readUint32(zip, centralStart + 51)).toBe(0x02014b50);
+      expect(readUint32(zip, centralStart + 51 + 42)).toBe(44);
+      expect(readUint32(zip, centralStart + 102)).toBe(0x02014b50);
+      expect(readUint32(zip, centralStart + 102 + 42)).toBe(79);
+    });
+
+    it('should end with a record of the entry count, directory size and offset', () => {
+      const end = zip.length - 22;
+      expect(end).toBe(115 + 51 + 51 + 49);
+      expect(readUint32(zip, end)).toBe(0x06054b50);
+      expect(readUint16(zip, end + 8)).toBe(3);
+      expect(readUint16(zip, end + 10)).toBe(3);
+      expect(readUint32(zip, end + 12)).toBe(151);
+      expect(readUint32(zip, end + 16)).toBe(115);
+    });
+  });
+
+  describe('getSheetNames', () => {
+    it('should replace characters Excel does not allow', () => {
+      expect(getSheetNames([sheet('Budget: Q1/Q2'), sheet('[Draft] *?\\')])).toEqual(['Budget  Q1 Q2', 'Draft']);
+    });
+
+    it('should truncate to 31 characters and name empty sheets by position', () => {
+      expect(getSheetNames([sheet('A'.repeat(40)), sheet('  ')])).toEqual(['A'.repeat(31), 'Sheet2']);
+    });
+
+    it('should number duplicates case-insensitively within the length limit', () => {
+      expect(getSheetNames([sheet('Quotes'), sheet('quotes'), sheet('QUOTES')])).toEqual(['Quotes', 'quotes 2', 'QUOTES 3']);
+      expect(getSheetNames([sheet('B'.repeat(40)), sheet('B'.repeat(35))])).toEqual(['B'.repeat(31), `${'B'.repeat(29)} 2`]);
+    });
+  });
+});
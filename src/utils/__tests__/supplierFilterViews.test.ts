@@ -0,0 +1,67 @@
+/**
+ * Unit tests for saved supplier filter view utilities
+ */
+
+import {
+  toFilterCriteria,
+  fromFilterCriteria,
+  filterCriteriaToSearchParams,
+  parseFilterCriteria,
+  normalizeFilterCriteria,
+  isSameFilterCriteria,
+  EMPTY_FILTER_CRITERIA
+} from '../supplierFilterViews';
+
+describe('supplierFilterViews', () => {
+  const criteria = {
+    searchTerm: 'sound',
+    categories: ['Audio', 'Lighting'],
+    roles: ['Technician'],
+    hasContactPersons: true,
+    addedFrom: '2025-01-01',
+    addedTo: null,
+    city: 'Cape Town'
+  };
+
+  describe('share links', () => {
+    it('should round-trip criteria through query parameters', () => {
+      const params = filterCriteriaToSearchParams(criteria);
+      expect(parseFilterCriteria(new URLSearchParams(params.toString()))).toEqual(criteria);
+    });
+
+    it('should leave empty filters out of the link', () => {
+      expect(filterCriteriaToSearchParams(EMPTY_FILTER_CRITERIA).toString()).toBe('');
+    });
+
+    it('should ignore malformed dates', () => {
+      const parsed = parseFilterCriteria(new URLSearchParams('added_from=yesterday&contacts=maybe'));
+      expect(parsed.addedFrom).toBe(null);
+      expect(parsed.hasContactPersons).toBe(null);
+    });
+  });
+
+  describe('filter bar state', () => {
+    it('should convert dates as local calendar days', () => {
+      const { filters, city } = fromFilterCriteria(criteria);
+      expect(filters.dateRange.start?.getDate()).toBe(1);
+      expect(city).toBe('Cape Town');
+      expect(toFilterCriteria(filters, city)).toEqual(criteria);
+    });
+  });
+
+  describe('normalizeFilterCriteria', () => {
+    it('should fill in fields missing from older views', () => {
+      expect(normalizeFilterCriteria({ categories: ['Catering'] })).toEqual({
+        ...EMPTY_FILTER_CRITERIA,
+        categories: ['Catering']
+      });
+    });
+  });
+
+  describe('isSameFilterCriteria', () => {
+    it('should ignore the order of categories and roles', () => {
+      expect(isSameFilterCriteria(criteria, { ...criteria, categories: ['Lighting', 'Audio'] })).toBe(true);
+      expect(isSameFilterCriteria(criteria, { ...criteria, city: '' })).toBe(false);
+    });
+  });
+});
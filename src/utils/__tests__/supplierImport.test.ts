@@ -0,0 +1,98 @@
+/**
+ * Unit tests for supplier CSV import utilities
+ */
+
+import { parseCsv, suggestSupplierImportMapping, buildSupplierImportPreview } from '../supplierImport';
+import type { Supplier } from '@/lib/supabase';
+
+const existingSuppliers: Supplier[] = [
+  {
+    id: 's1',
+    supplier_name: 'Acme Staging Ltd',
+    contact_email: 'hello@acme.test',
+    service_categories: ['Staging'],
+    contact_persons: [{ name: 'Ann', email: 'ann@acme.test', role: 'Sales', is_primary: true }],
+    created_at: '2025-02-01T00:00:00Z'
+  }
+];
+
+describe('supplierImport', () => {
+  describe('parseCsv', () => {
+    it('should handle quoted fields, escaped quotes and CRLF', () => {
+      const rows = parseCsv('\uFEFFName,Notes\r\n"Smith, Co","Says ""hi""\nthere"\r\n\r\nSolo,\n');
+
+      expect(rows).toEqual([
+        ['Name', 'Notes'],
+        ['Smith, Co', 'Says "hi"\nthere'],
+        ['Solo', '']
+      ]);
+    });
+  });
+
+  describe('suggestSupplierImportMapping', () => {
+    it('should map known headers and numbered contact columns', () => {
+      expect(suggestSupplierImportMapping(['Company', 'Categories', 'Contact 2 Email', 'Contact Name', 'Notes'])).toEqual({
+        0: 'supplier_name',
+        1: 'service_categories',
+        2: 'contact:2:email',
+        3: 'contact:1:name'
+      });
+    });
+  });
+
+  describe('buildSupplierImportPreview', () => {
+    const mapping = {
+      0: 'supplier_name',
+      1: 'service_categories',
+      2: 'contact:1:name',
+      3: 'contact:1:email',
+      4: 'contact:2:email',
+      5: 'contact:2:flags'
+    } as const;
+
+    it('should build suppliers, default the primary contact and flag unknown categories', () => {
+      const [row] = buildSupplierImportPreview(
+        [['Bright Lights', 'lighting; Drones', 'Bo', 'bo@bright.test', 'ops@bright.test', 'cc']],
+        mapping,
+        existingSuppliers,
+        ['Lighting', 'Staging']
+      );
+
+      expect(row.errors).toEqual([]);
+      expect(row.duplicateOf).toBeNull();
+      expect(row.warnings).toEqual(['Unknown category "Drones"']);
+      expect(row.supplier!.service_categories).toEqual(['Lighting', 'Drones']);
+      expect(row.supplier!.contact_email).toBe('bo@bright.test');
+      expect(row.supplier!.contact_persons!.map(contact => [contact.is_primary, contact.default_cc])).toEqual([
+        [true, false],
+        [false, true]
+      ]);
+    });
+
+    it('should reject invalid rows and detect duplicates by name or email', () => {
+      const rows = buildSupplierImportPreview(
+        [
+          ['', 'Staging', 'No Name', 'nn@test.test', '', ''],
+          ['ACME staging ltd.', 'Staging', '', 'new@acme2.test', '', ''],
+          ['Other Co', 'Staging', 'Ann', 'ann@acme.test', '', ''],
+          ['Fresh Co', 'Staging', 'F', 'f@fresh.test', 'bad-email', ''],
+          ['Fresh Co', 'Staging', 'F', 'f@fresh.test', 'x@fresh.test', 'cc bcc'],
+          ['New Co', 'Staging', 'N', 'n@new.test', '', ''],
+          ['New Co', 'Staging', 'N', 'n2@new.test', '', '']
+        ],
+        mapping,
+        existingSuppliers,
+        ['Staging']
+      );
+
+      expect(rows[0].errors).toEqual(['Supplier name is required']);
+      expect(rows[1].duplicateOf).toEqual({ source: 'existing', name: 'Acme Staging Ltd', reason: 'name' });
+      expect(rows[2].duplicateOf).toEqual({ source: 'existing', name: 'Acme Staging Ltd', reason: 'email' });
+      expect(rows[3].errors).toEqual(['Contact 2 email "bad-email" is not valid']);
+      expect(rows[4].errors).toEqual(['Contact 2 cannot be both CC and BCC']);
+      expect(rows[5].duplicateOf).toBeNull();
+      expect(rows[6].duplicateOf).toEqual({ source: 'file', name: 'New Co', reason: 'name' });
+      expect(rows.map(row => row.rowNumber)).toEqual([2, 3, 4, 5, 6, 7, 8]);
+    });
+  });
+});
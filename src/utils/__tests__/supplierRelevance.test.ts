@@ -3,38 +3,55 @@
  */
 
 import {
-  ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP,
   mapAssetTagsToSupplierCategories,
   calculateSupplierRelevanceScore,
   sortSuppliersByRelevance,
-  getMatchingCategories,
-  validateAssetTagMapKeys
+  getMatchingCategories
 } from '../supplierRelevance';
+import {
+  DEFAULT_ASSET_TAGS,
+  getTagSupplierCategories,
+  setAssetTagTaxonomy
+} from '../assetTags';
 import type { Supplier } from '@/lib/supabase';
+import type { SupplierScorecard } from '../supplierScorecards';
 
 describe('supplierRelevance', () => {
-  describe('ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP', () => {
-    it('should have mapping for every tag in config (validateAssetTagMapKeys)', () => {
-      const { valid, missing } = validateAssetTagMapKeys();
-      expect(valid).toBe(true);
+  describe('default tag taxonomy', () => {
+    it('should give every default tag at least one supplier category', () => {
+      const missing = DEFAULT_ASSET_TAGS.filter(tag => tag.supplier_categories.length === 0).map(tag => tag.name);
       expect(missing).toEqual([]);
     });
 
     it('should map Audio tag to Audio category', () => {
-      expect(ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP['Audio']).toEqual(['Audio']);
+      expect(getTagSupplierCategories('Audio')).toEqual(['Audio']);
     });
 
     it('should map multi-category tags correctly', () => {
-      expect(ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP['Video & Display']).toEqual(['Graphics', 'Video']);
-      expect(ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP['Graphics & Signage']).toEqual(['Printing', 'Graphics', 'Banners']);
+      expect(getTagSupplierCategories('Video & Display')).toEqual(['Graphics', 'Video']);
+      expect(getTagSupplierCategories('Graphics & Signage')).toEqual(['Printing', 'Graphics', 'Banners']);
     });
 
     it('should map staff and service tags correctly', () => {
-      expect(ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP['Staffing']).toEqual(['Staffing', 'Security', 'Hospitality', 'Technical Services']);
-      expect(ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP['Floral & Decor']).toEqual(['Floral', 'Design']);
-      expect(ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP['Furniture']).toEqual(['Furniture']);
-      expect(ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP['Medical']).toEqual(['Medical']);
-      expect(ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP['Technology']).toEqual(['IT Services', 'Design', 'Marketing']);
+      expect(getTagSupplierCategories('Staffing')).toEqual(['Staffing', 'Security', 'Hospitality', 'Technical Services']);
+      expect(getTagSupplierCategories('Floral & Decor')).toEqual(['Floral', 'Design']);
+      expect(getTagSupplierCategories('Furniture')).toEqual(['Furniture']);
+      expect(getTagSupplierCategories('Medical')).toEqual(['Medical']);
+      expect(getTagSupplierCategories('Technology')).toEqual(['IT Services', 'Design', 'Marketing']);
+    });
+  });
+
+  describe('custom tag taxonomy', () => {
+    it('should use the producer taxonomy and resolve aliases', () => {
+      setAssetTagTaxonomy([
+        { name: 'Sound', color: '#8B5CF6', description: '', supplier_categories: ['Audio', 'Technical Services'], aliases: ['Audio'] }
+      ]);
+      try {
+        expect(Array.from(mapAssetTagsToSupplierCategories(['Sound'])).sort()).toEqual(['Audio', 'Technical Services']);
+        expect(Array.from(mapAssetTagsToSupplierCategories(['Audio'])).sort()).toEqual(['Audio', 'Technical Services']);
+      } finally {
+        setAssetTagTaxonomy([]);
+      }
     });
   });
 
@@ -196,6 +213,24 @@ describe('supplierRelevance', () => {
       expect(sorted[1].supplier_name).toBe('Zebra Supplier');
     });
 
+    it('should rank tied suppliers by performance score when scorecards are given', () => {
+      const suppliers = [
+        createSupplier('Alpha Audio', ['Audio']),
+        createSupplier('Beta Audio', ['Audio']),
+        createSupplier('Gamma Audio', ['Audio']),
+        createSupplier('Print Co', ['Printing']),
+      ];
+      const scorecards = new Map([
+        ['id-Beta Audio', { score: 90 } as SupplierScorecard],
+        ['id-Gamma Audio', { score: 60 } as SupplierScorecard],
+        ['id-Print Co', { score: 100 } as SupplierScorecard],
+      ]);
+
+      const sorted = sortSuppliersByRelevance(suppliers, ['Audio'], { scorecards });
+
+      expect(sorted.map(s => s.supplier_name)).toEqual(['Beta Audio', 'Gamma Audio', 'Alpha Audio', 'Print Co']);
+    });
+
     it('should not mutate original array', () => {
       const suppliers = [
         createSupplier('Supplier A', ['Printing']),
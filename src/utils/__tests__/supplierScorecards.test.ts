@@ -0,0 +1,65 @@
+/**
+ * Unit tests for supplier scorecard utilities
+ */
+
+import { calculateSupplierScorecards, calculateCompositeScore } from '../supplierScorecards';
+
+const rates = [{ from_currency: 'EUR', to_currency: 'USD', rate: 2 }];
+
+const assets = [
+  { id: 'stage', status: 'Delivered', delivered_at: '2025-03-01T10:00:00Z', baseCurrency: 'USD', dueDate: '2025-03-02' },
+  { id: 'lights', status: 'Delivered', delivered_at: '2025-03-05T10:00:00Z', baseCurrency: 'USD', dueDate: '2025-03-02' },
+  { id: 'audio', status: 'Quoting', delivered_at: null, baseCurrency: 'USD', dueDate: null }
+];
+
+const quotes = [
+  { supplier_id: 'acme', asset_id: 'stage', status: 'Accepted', cost: 1000, currency: 'USD', response_time_hours: 10 },
+  { supplier_id: 'acme', asset_id: 'lights', status: 'Accepted', cost: 250, currency: 'EUR', response_time_hours: 30 },
+  { supplier_id: 'acme', asset_id: 'audio', status: 'Pending', cost: 0, currency: 'USD', response_time_hours: null },
+  { supplier_id: 'bolt', asset_id: 'stage', status: 'Rejected', cost: 1500, currency: 'USD', response_time_hours: 50 },
+  { supplier_id: 'bolt', asset_id: 'lights', status: 'Rejected', cost: 1000, currency: 'USD', response_time_hours: 70 }
+] as const;
+
+describe('supplierScorecards', () => {
+  describe('calculateSupplierScorecards', () => {
+    it('should measure response, wins, price position and on-time delivery', () => {
+      const scorecards = calculateSupplierScorecards([...quotes], assets, rates);
+      const acme = scorecards.get('acme')!;
+
+      expect(acme.quotesRequested).toBe(3);
+      expect(acme.responseRate).toBeCloseTo(2 / 3);
+      expect(acme.medianResponseHours).toBe(20);
+      expect(acme.winRate).toBe(1);
+      expect(acme.averagePricePosition).toBe(100);
+      expect(acme.deliveries).toBe(2);
+      expect(acme.onTimeRate).toBe(0.5);
+
+      const bolt = scorecards.get('bolt')!;
+      expect(bolt.winRate).toBe(0);
+      // 1500 / 1000 and 1000 / 500 (the EUR bid converted)
+      expect(bolt.averagePricePosition).toBe(175);
+      expect(bolt.onTimeRate).toBeNull();
+      expect(bolt.score! < acme.score!).toBe(true);
+    });
+  });
+
+  describe('calculateCompositeScore', () => {
+    it('should re-weight over the measures that have data', () => {
+      expect(calculateCompositeScore({
+        supplierId: 's',
+        quotesRequested: 2,
+        quotesResponded: 1,
+        responseRate: 0.5,
+        medianResponseHours: null,
+        quotesWon: 0,
+        quotesDecided: 0,
+        winRate: null,
+        averagePricePosition: null,
+        comparedBids: 0,
+        deliveries: 0,
+        onTimeDeliveries: 0,
+        onTimeRate: null
+      })).toBe(50);
+    });
+  });
+});
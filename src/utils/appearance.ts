@@ -0,0 +1,85 @@
+/**
+ * Appearance settings
+ * Options for the theme, density and text size pickers, plus the helpers
+ * AppearanceProvider uses to validate, cache and apply a user's choice
+ */
+
+import type {
+  AppearanceDensity,
+  AppearanceFontSize,
+  AppearanceSettings,
+  AppearanceTheme
+} from '@/types/database';
+
+export interface AppearanceOption<T extends string> {
+  value: T;
+  label: string;
+  description: string;
+}
+
+export const DEFAULT_APPEARANCE: AppearanceSettings = {
+  theme: 'dark',
+  density: 'comfortable',
+  font_size: 'normal'
+};
+
+export const THEME_OPTIONS: AppearanceOption<AppearanceTheme>[] = [
+  { value: 'dark', label: 'Dark', description: 'Animated dark backdrop with glass panels' },
+  { value: 'light', label: 'Light', description: 'High contrast for bright venues and printouts' }
+];
+
+export const DENSITY_OPTIONS: AppearanceOption<AppearanceDensity>[] = [
+  { value: 'comfortable', label: 'Comfortable', description: 'Roomy rows in asset tables and quote lists' },
+  { value: 'compact', label: 'Compact', description: 'Tighter rows so more fit on screen' }
+];
+
+export const FONT_SIZE_OPTIONS: AppearanceOption<AppearanceFontSize>[] = [
+  { value: 'normal', label: 'Normal', description: 'Default text size' },
+  { value: 'large', label: 'Large', description: 'Text and spacing 12.5% larger' },
+  { value: 'extra-large', label: 'Extra large', description: 'Text and spacing 25% larger' }
+];
+
+// Local copy of the last applied settings, so the first paint already uses them
+export const APPEARANCE_STORAGE_KEY = 'prodbay.appearance';
+
+const pick = <T extends string>(options: AppearanceOption<T>[], value: unknown, fallback: T): T =>
+  options.some(option => option.value === value) ? (value as T) : fallback;
+
+/**
+ * Fill in defaults for anything missing or unrecognised (old cache entries,
+ * hand-edited localStorage)
+ */
+export const normalizeAppearance = (value: unknown): AppearanceSettings => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof AppearanceSettings, unknown>>;
+  return {
+    theme: pick(THEME_OPTIONS, raw.theme, DEFAULT_APPEARANCE.theme),
+    density: pick(DENSITY_OPTIONS, raw.density, DEFAULT_APPEARANCE.density),
+    font_size: pick(FONT_SIZE_OPTIONS, raw.font_size, DEFAULT_APPEARANCE.font_size)
+  };
+};
+
+export const readCachedAppearance = (): AppearanceSettings => {
+  try {
+    const cached = localStorage.getItem(APPEARANCE_STORAGE_KEY);
+    return normalizeAppearance(cached ? JSON.parse(cached) : null);
+  } catch {
+    return DEFAULT_APPEARANCE;
+  }
+};
+
+export const cacheAppearance = (settings: AppearanceSettings): void => {
+  try {
+    localStorage.setItem(APPEARANCE_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // localStorage unavailable — the settings still apply for this session
+  }
+};
+
+/**
+ * Apply settings to <html>; the data attributes drive the CSS variables in index.css
+ */
+export const applyAppearance = (settings: AppearanceSettings, root: HTMLElement = document.documentElement): void => {
+  root.dataset.theme = settings.theme;
+  root.dataset.density = settings.density;
+  root.dataset.fontSize = settings.font_size;
+};
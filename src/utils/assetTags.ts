@@ -1,66 +1,77 @@
 /**
  * Asset Tag Management System
- * Provides predefined tags with unique colors for asset categorization
- * Tag names: single source of truth in config/assetTagNames.json (shared with backend)
- * Colors/descriptions: UI-only metadata in this file
+ * Tags, colors, descriptions, supplier categories and aliases come from the
+ * producer's taxonomy (asset_tags table), loaded by AssetTagTaxonomyProvider.
+ * Until it loads - and for anyone without a taxonomy - the defaults in
+ * config/defaultAssetTags.json (shared with backend) are used.
  */
 
-import assetTagNames from '../../config/assetTagNames.json';
-
-export interface AssetTag {
-  name: string;
-  color: string;
-  description: string;
-}
-
-/** Tag names from config/assetTagNames.json (single source of truth, shared with backend) */
-export const ASSET_TAG_NAMES: string[] = assetTagNames as string[];
-
-// UI-only metadata: color and description per tag name
-const TAG_METADATA: Record<string, { color: string; description: string }> = {
-  'Audio': { color: '#8B5CF6', description: 'Speakers, microphones, sound systems, wireless, recording' },
-  'Branding & Marketing': { color: '#EC4899', description: 'Print, promotional items, social media, brand identity' },
-  'Catering': { color: '#EF4444', description: 'Food service, beverages, tableware, bar service' },
-  'Floral & Decor': { color: '#F472B6', description: 'Floral arrangements, decorations, linens, draping' },
-  'Furniture': { color: '#8B5A2B', description: 'Rental furniture, tables, chairs, lounge seating' },
-  'Graphics & Signage': { color: '#059669', description: 'Banners, signage, wayfinding, exhibition displays, print materials' },
-  'Lighting': { color: '#F59E0B', description: 'Stage lighting, atmospheric, LED, special effects, power' },
-  'Logistics': { color: '#0891B2', description: 'Transport, loading, storage, delivery, waste management' },
-  'Medical': { color: '#DC2626', description: 'First aid, medical personnel' },
-  'Photography': { color: '#10B981', description: 'Event photography, photo booths, cameras' },
-  'Scenic & Props': { color: '#16A34A', description: 'Set construction, backdrops, scenic elements, props' },
-  'Staffing': { color: '#F97316', description: 'Event staff, security, hospitality, technical crew' },
-  'Staging': { color: '#84CC16', description: 'Stages, rigging, platforms, risers, tents, structures' },
-  'Technology': { color: '#60A5FA', description: 'WiFi, digital assets, registration systems, IT support' },
-  'Video & Display': { color: '#3B82F6', description: 'LED screens, projection, video production, digital displays' }
+import defaultAssetTags from '../../config/defaultAssetTags.json';
+import type { AssetTagDefinitionInput } from '@/types/database';
+
+export type AssetTag = AssetTagDefinitionInput;
+
+const FALLBACK_TAG_COLOR = '#6B7280';
+
+/** Taxonomy new producers start with (config/defaultAssetTags.json) */
+export const DEFAULT_ASSET_TAGS: AssetTag[] = (defaultAssetTags as Array<Omit<AssetTag, 'aliases'> & { aliases?: string[] }>)
+  .map(tag => ({ ...tag, aliases: tag.aliases ?? [] }));
+
+const normalizeTagKey = (name: string): string => name.trim().toLowerCase();
+
+let currentTags: AssetTag[] = DEFAULT_ASSET_TAGS;
+let tagIndex = new Map<string, AssetTag>();
+
+const buildTagIndex = (tags: AssetTag[]): Map<string, AssetTag> => {
+  const index = new Map<string, AssetTag>();
+  // Aliases first so a tag's own name always wins over another tag's alias
+  tags.forEach(tag => tag.aliases.forEach(alias => index.set(normalizeTagKey(alias), tag)));
+  tags.forEach(tag => index.set(normalizeTagKey(tag.name), tag));
+  return index;
+};
+
+tagIndex = buildTagIndex(currentTags);
+
+/**
+ * Replace the active taxonomy (an empty list restores the defaults)
+ */
+export const setAssetTagTaxonomy = (tags: AssetTag[]): void => {
+  currentTags = tags.length > 0 ? tags : DEFAULT_ASSET_TAGS;
+  tagIndex = buildTagIndex(currentTags);
 };
 
-// Derive full tag list from config + metadata
-export const PREDEFINED_ASSET_TAGS: AssetTag[] = ASSET_TAG_NAMES.map(name => ({
-  name,
-  color: TAG_METADATA[name]?.color ?? '#6B7280',
-  description: TAG_METADATA[name]?.description ?? ''
-}));
+// Get the active taxonomy in display order
+export const getAssetTags = (): AssetTag[] => currentTags;
 
-// Get tag by name
+// Get tag by name or alias
 export const getTagByName = (name: string): AssetTag | undefined => {
-  return PREDEFINED_ASSET_TAGS.find(tag => tag.name.toLowerCase() === name.toLowerCase());
+  return tagIndex.get(normalizeTagKey(name));
+};
+
+// Current name for a tag, following aliases (unknown tags are returned unchanged)
+export const resolveTagName = (name: string): string => {
+  return getTagByName(name)?.name ?? name;
 };
 
 // Get tag color by name
 export const getTagColor = (name: string): string => {
   const tag = getTagByName(name);
-  return tag?.color || '#6B7280'; // Default gray color
+  return tag?.color || FALLBACK_TAG_COLOR; // Default gray color
+};
+
+// Get the supplier service categories for a tag (empty for unknown tags)
+export const getTagSupplierCategories = (name: string): string[] => {
+  return getTagByName(name)?.supplier_categories ?? [];
 };
 
 // Get all available tag names
 export const getAvailableTagNames = (): string[] => {
-  return PREDEFINED_ASSET_TAGS.map(tag => tag.name);
+  return currentTags.map(tag => tag.name);
 };
 
-// Validate if a tag name is predefined
+// Validate if a tag name is in the taxonomy (by name or alias)
 export const isPredefinedTag = (name: string): boolean => {
-  return PREDEFINED_ASSET_TAGS.some(tag => tag.name.toLowerCase() === name.toLowerCase());
+  return tagIndex.has(normalizeTagKey(name));
 };
 
 // Get tags with their colors for display
@@ -77,12 +88,13 @@ export const sortTags = (tags: string[]): string[] => {
 };
 
 // Filter tags by search term
-export const filterTags = (searchTerm: string): AssetTag[] => {
-  if (!searchTerm.trim()) return PREDEFINED_ASSET_TAGS;
-  
+export const filterTags = (searchTerm: string, tags: AssetTag[] = currentTags): AssetTag[] => {
+  if (!searchTerm.trim()) return tags;
+
   const term = searchTerm.toLowerCase();
-  return PREDEFINED_ASSET_TAGS.filter(tag => 
-    tag.name.toLowerCase().includes(term) || 
-    tag.description.toLowerCase().includes(term)
+  return tags.filter(tag =>
+    tag.name.toLowerCase().includes(term) ||
+    tag.description.toLowerCase().includes(term) ||
+    tag.aliases.some(alias => alias.toLowerCase().includes(term))
   );
 };
@@ -0,0 +1,56 @@
+/**
+ * Asset timeline utility functions
+ * Labels and change summaries shared by the asset and project timelines
+ */
+
+import type { AssetTimelineEventHistory, AssetTimelineEventType } from '@/types/database';
+
+export const ASSET_TIMELINE_EVENT_TYPES: { value: AssetTimelineEventType; label: string }[] = [
+  { value: 'milestone', label: 'Milestone' },
+  { value: 'proof_approved', label: 'Proof Approved' },
+  { value: 'production_start', label: 'Production Start' },
+  { value: 'delivery', label: 'Delivery' },
+  { value: 'load_in', label: 'Load-In' },
+  { value: 'load_out', label: 'Load-Out' },
+  { value: 'other', label: 'Other' }
+];
+
+/**
+ * Get the display label for a timeline event type
+ */
+export const getTimelineEventTypeLabel = (type: AssetTimelineEventType): string =>
+  ASSET_TIMELINE_EVENT_TYPES.find(t => t.value === type)?.label ?? 'Other';
+
+const TRACKED_FIELDS: { key: 'event_name' | 'event_type' | 'event_date' | 'description'; label: string }[] = [
+  { key: 'event_name', label: 'Name' },
+  { key: 'event_type', label: 'Type' },
+  { key: 'event_date', label: 'Date' },
+  { key: 'description', label: 'Description' }
+];
+
+export interface TimelineFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * List the user-visible fields that changed in a history entry
+ * Only meaningful for 'updated' entries; created/deleted entries return an empty list
+ */
+export const getTimelineFieldChanges = (entry: AssetTimelineEventHistory): TimelineFieldChange[] => {
+  if (entry.change_type !== 'updated' || !entry.previous_values || !entry.new_values) {
+    return [];
+  }
+
+  const previous = entry.previous_values;
+  const next = entry.new_values;
+
+  return TRACKED_FIELDS
+    .filter(({ key }) => (previous[key] ?? '') !== (next[key] ?? ''))
+    .map(({ key, label }) => {
+      const format = (value: unknown) =>
+        key === 'event_type' && value ? getTimelineEventTypeLabel(value as AssetTimelineEventType) : String(value ?? '');
+      return { field: label, from: format(previous[key]), to: format(next[key]) };
+    });
+};
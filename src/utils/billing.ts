@@ -0,0 +1,52 @@
+/**
+ * Billing helpers
+ * Usage meters and price formatting for the Billing settings tab
+ */
+
+import { formatCurrency } from '@/utils/currency';
+import type { BillingPlan } from '@/types/database';
+
+// Meters turn amber from this share of the limit
+const NEAR_LIMIT_RATIO = 0.8;
+
+export interface UsageMeter {
+  used: number;
+  /** null when the plan has no limit */
+  limit: number | null;
+  /** 0-100, capped; 0 for unlimited plans */
+  percent: number;
+  isNearLimit: boolean;
+  isAtLimit: boolean;
+}
+
+export const getUsageMeter = (used: number, limit: number | null): UsageMeter => {
+  if (limit === null) {
+    return { used, limit, percent: 0, isNearLimit: false, isAtLimit: false };
+  }
+
+  const ratio = limit > 0 ? used / limit : 1;
+  return {
+    used,
+    limit,
+    percent: Math.min(Math.round(ratio * 100), 100),
+    isNearLimit: ratio >= NEAR_LIMIT_RATIO && used < limit,
+    isAtLimit: used >= limit
+  };
+};
+
+export const formatUsageLimit = (limit: number | null): string =>
+  limit === null ? 'Unlimited' : String(limit);
+
+export const formatCents = (cents: number, currency: string): string =>
+  formatCurrency(cents / 100, currency);
+
+export const formatPlanPrice = (plan: Pick<BillingPlan, 'monthly_price_cents' | 'currency'>): string =>
+  plan.monthly_price_cents === 0 ? 'Free' : `${formatCents(plan.monthly_price_cents, plan.currency)}/month`;
+
+/**
+ * Whether moving from `current` to `target` raises the price
+ */
+export const isUpgrade = (
+  current: Pick<BillingPlan, 'monthly_price_cents'> | undefined,
+  target: Pick<BillingPlan, 'monthly_price_cents'>
+): boolean => target.monthly_price_cents > (current?.monthly_price_cents ?? 0);
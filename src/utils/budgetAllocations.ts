@@ -0,0 +1,222 @@
+/**
+ * Budget allocation utilities
+ * Compares planned spend per asset and per tag category with quoted and accepted costs.
+ * All amounts are converted into the project base currency.
+ */
+
+import type { BudgetAllocationInput } from '@/types/database';
+import { convertAmount, formatCurrency, type CurrencyConversion } from './currency';
+import { isBidSealed } from './sealedBids';
+
+type AllocationAsset = {
+  id: string;
+  asset_name: string;
+  tags?: string[];
+  sealed_bids?: boolean;
+  bids_open_at?: string | null;
+  bids_unsealed_at?: string | null;
+};
+type AllocationQuote = { id: string; asset_id: string; cost: number; currency?: string | null; status: string };
+
+export interface BudgetVarianceRow {
+  /** `asset:<id>` or `tag:<name>` */
+  key: string;
+  kind: 'asset' | 'tag';
+  label: string;
+  assetIds: string[];
+  /** Allocated amount, null when nothing was planned */
+  planned: number | null;
+  /** Lowest submitted or accepted quote per asset; sealed bids are left out */
+  quoted: number;
+  accepted: number;
+  /** Accepted cost where a quote was accepted, otherwise the lowest quote */
+  forecast: number;
+  /** planned - forecast; negative means over the allocation */
+  variance: number | null;
+  /** Quotes left out because no exchange rate was available */
+  unconvertedQuoteCount: number;
+  /** Submitted quotes left out because the asset's bids are still sealed */
+  sealedQuoteCount: number;
+}
+
+export interface BudgetVariance {
+  assets: BudgetVarianceRow[];
+  tags: BudgetVarianceRow[];
+}
+
+export interface AllocationOverrun {
+  kind: 'asset' | 'tag';
+  label: string;
+  planned: number;
+  projected: number;
+  overBy: number;
+  /** Project base currency of the amounts */
+  currency: string;
+}
+
+interface AssetCosts {
+  quoted: number | null;
+  accepted: number | null;
+  unconverted: number;
+  sealed: number;
+}
+
+const getAssetCosts = (
+  asset: AllocationAsset,
+  quotes: AllocationQuote[],
+  { baseCurrency, rates }: CurrencyConversion,
+  now: Date
+): AssetCosts => {
+  const sealed = isBidSealed(asset, now);
+  let quoted: number | null = null;
+  let accepted: number | null = null;
+  let unconverted = 0;
+  let sealedCount = 0;
+
+  quotes
+    .filter(quote => quote.asset_id === asset.id && (quote.status === 'Submitted' || quote.status === 'Accepted'))
+    .forEach((quote) => {
+      // Sealed amounts must not leak into budget figures before bids open
+      if (sealed && quote.status === 'Submitted') {
+        sealedCount += 1;
+        return;
+      }
+
+      const converted = convertAmount(Number(quote.cost) || 0, quote.currency || baseCurrency, baseCurrency, rates);
+      if (converted === null) {
+        unconverted += 1;
+        return;
+      }
+      quoted = quoted === null ? converted : Math.min(quoted, converted);
+      if (quote.status === 'Accepted') {
+        accepted = converted;
+      }
+    });
+
+  return { quoted, accepted, unconverted, sealed: sealedCount };
+};
+
+const buildRow = (
+  kind: BudgetVarianceRow['kind'],
+  label: string,
+  assetIds: string[],
+  planned: number | null,
+  costs: Map<string, AssetCosts>
+): BudgetVarianceRow => {
+  let quoted = 0;
+  let accepted = 0;
+  let forecast = 0;
+  let unconvertedQuoteCount = 0;
+  let sealedQuoteCount = 0;
+
+  assetIds.forEach((assetId) => {
+    const assetCosts = costs.get(assetId);
+    if (!assetCosts) return;
+    quoted += assetCosts.quoted ?? 0;
+    accepted += assetCosts.accepted ?? 0;
+    forecast += assetCosts.accepted ?? assetCosts.quoted ?? 0;
+    unconvertedQuoteCount += assetCosts.unconverted;
+    sealedQuoteCount += assetCosts.sealed;
+  });
+
+  return {
+    key: kind === 'asset' ? `asset:${assetIds[0]}` : `tag:${label}`,
+    kind,
+    label,
+    assetIds,
+    planned,
+    quoted,
+    accepted,
+    forecast,
+    variance: planned === null ? null : planned - forecast,
+    unconvertedQuoteCount,
+    sealedQuoteCount
+  };
+};
+
+/**
+ * Planned vs quoted vs accepted per asset and per tag
+ * An asset with several tags counts towards each of them. Tags are listed when an asset
+ * uses them or when they have an allocation. Submitted quotes on assets whose bids are
+ * still sealed are counted in sealedQuoteCount instead of quoted and forecast.
+ */
+export const calculateBudgetVariance = (
+  assets: AllocationAsset[],
+  quotes: AllocationQuote[],
+  allocations: BudgetAllocationInput[],
+  conversion: CurrencyConversion,
+  now: Date = new Date()
+): BudgetVariance => {
+  const costs = new Map(assets.map(asset => [asset.id, getAssetCosts(asset, quotes, conversion, now)]));
+  const assetPlans = new Map<string, number>();
+  const tagPlans = new Map<string, number>();
+
+  allocations.forEach((allocation) => {
+    if (allocation.asset_id) {
+      assetPlans.set(allocation.asset_id, Number(allocation.amount));
+    } else if (allocation.tag) {
+      tagPlans.set(allocation.tag, Number(allocation.amount));
+    }
+  });
+
+  const tagNames = new Set<string>(tagPlans.keys());
+  assets.forEach(asset => (asset.tags || []).forEach(tag => tagNames.add(tag)));
+
+  return {
+    assets: assets.map(asset =>
+      buildRow('asset', asset.asset_name, [asset.id], assetPlans.get(asset.id) ?? null, costs)
+    ),
+    tags: Array.from(tagNames)
+      .sort((a, b) => a.localeCompare(b))
+      .map(tag =>
+        buildRow(
+          'tag',
+          tag,
+          assets.filter(asset => (asset.tags || []).includes(tag)).map(asset => asset.id),
+          tagPlans.get(tag) ?? null,
+          costs
+        )
+      )
+  };
+};
+
+/**
+ * One-line description of an overrun for warnings
+ */
+export const describeAllocationOverrun = (overrun: AllocationOverrun): string =>
+  `${overrun.kind === 'tag' ? 'Category' : 'Asset'} "${overrun.label}" would be ` +
+  `${formatCurrency(overrun.overBy, overrun.currency)} over its ${formatCurrency(overrun.planned, overrun.currency)} allocation`;
+
+/**
+ * Allocations that would be exceeded by accepting `quoteId`
+ * Accepting a quote rejects the asset's other quotes, so they are left out of the projection.
+ */
+export const getAcceptanceOverruns = (
+  quoteId: string,
+  assets: AllocationAsset[],
+  quotes: AllocationQuote[],
+  allocations: BudgetAllocationInput[],
+  conversion: CurrencyConversion
+): AllocationOverrun[] => {
+  const quote = quotes.find(candidate => candidate.id === quoteId);
+  if (!quote) return [];
+
+  const projectedQuotes = quotes.map((candidate) => {
+    if (candidate.id === quoteId) return { ...candidate, status: 'Accepted' };
+    if (candidate.asset_id === quote.asset_id) return { ...candidate, status: 'Rejected' };
+    return candidate;
+  });
+
+  const { assets: assetRows, tags: tagRows } = calculateBudgetVariance(assets, projectedQuotes, allocations, conversion);
+
+  return [...assetRows, ...tagRows]
+    .filter(row => row.assetIds.includes(quote.asset_id) && row.planned !== null && row.accepted > row.planned)
+    .map(row => ({
+      kind: row.kind,
+      label: row.label,
+      planned: row.planned as number,
+      projected: row.accepted,
+      overBy: row.accepted - (row.planned as number),
+      currency: conversion.baseCurrency
+    }));
+};
@@ -1,14 +1,35 @@
 import type { Quote, Asset } from '@/lib/supabase';
+import { sumInBaseCurrency, type ConvertedTotal, type CurrencyConversion } from './currency';
 
 /**
  * Centralized business calculation utilities
  * Provides consistent calculation logic across the application
  */
 
+/**
+ * Calculate total cost from accepted quotes, converted into the base currency
+ * Quotes whose currency has no exchange rate are left out and listed in `missingRates`
+ */
+export const calculateAcceptedCostInBaseCurrency = (
+  quotes: Quote[],
+  conversion: CurrencyConversion
+): ConvertedTotal => {
+  return sumInBaseCurrency(
+    quotes
+      .filter(quote => quote.status === 'Accepted')
+      .map(quote => ({ amount: quote.cost || 0, currency: quote.currency })),
+    conversion
+  );
+};
+
 /**
  * Calculate total cost from accepted quotes
+ * Without a conversion, quotes are assumed to share the default currency
  */
-export const calculateTotalCost = (quotes: Quote[]): number => {
+export const calculateTotalCost = (quotes: Quote[], conversion?: CurrencyConversion): number => {
+  if (conversion) {
+    return calculateAcceptedCostInBaseCurrency(quotes, conversion).total;
+  }
   return quotes
     .filter(quote => quote.status === 'Accepted')
     .reduce((total, quote) => total + (quote.cost || 0), 0);
@@ -33,17 +54,17 @@ export const getAcceptedQuoteForAsset = (quotes: Quote[], assetId: string): Quot
 /**
  * Calculate project statistics
  */
-export const calculateProjectStats = (assets: Asset[], quotes: Quote[]) => {
+export const calculateProjectStats = (assets: Asset[], quotes: Quote[], conversion?: CurrencyConversion) => {
   const totalAssets = assets.length;
   const completedAssets = assets.filter(asset => asset.status === 'Delivered').length;
   const inProgressAssets = assets.filter(asset => 
     asset.status === 'In Production' || asset.status === 'Approved'
   ).length;
   const pendingAssets = assets.filter(asset => 
-    asset.status === 'Pending' || asset.status === 'Quoting'
+    asset.status === 'Pending' || asset.status === 'Quoting' || asset.status === 'Reviewing'
   ).length;
 
-  const totalCost = calculateTotalCost(quotes);
+  const totalCost = calculateTotalCost(quotes, conversion);
   const progressPercentage = getProgressPercentage(assets);
 
   return {
@@ -0,0 +1,49 @@
+/**
+ * Client approval utility functions
+ * Decides whether a quote may be accepted given its client approval state
+ */
+
+import type { ClientApproval } from '@/types/database';
+
+/**
+ * Latest approval request per quote, ignoring withdrawn requests
+ * @param approvals - Approvals in any order
+ */
+export const getLatestApprovalByQuote = (approvals: ClientApproval[]): Map<string, ClientApproval> => {
+  const latest = new Map<string, ClientApproval>();
+
+  approvals
+    .filter(approval => approval.quote_id && approval.status !== 'withdrawn')
+    .forEach((approval) => {
+      const current = latest.get(approval.quote_id!);
+      if (!current || new Date(approval.requested_at) > new Date(current.requested_at)) {
+        latest.set(approval.quote_id!, approval);
+      }
+    });
+
+  return latest;
+};
+
+/**
+ * Reason a quote can't be accepted yet, or null when acceptance is allowed
+ * A pending or rejected request always blocks; on projects that require client
+ * approval the quote must also have been approved.
+ * Mirrored in railway-backend/utils/clientApprovals.js
+ */
+export const getQuoteApprovalBlocker = (
+  latestApproval: Pick<ClientApproval, 'status'> | null | undefined,
+  requiresClientApproval: boolean
+): string | null => {
+  switch (latestApproval?.status) {
+    case 'approved':
+      return null;
+    case 'pending':
+      return 'Client approval required: the client has not decided on this quote yet';
+    case 'rejected':
+      return 'Client approval required: the client rejected this quote';
+    default:
+      return requiresClientApproval
+        ? 'Client approval required: send this quote to the client before accepting it'
+        : null;
+  }
+};
@@ -0,0 +1,129 @@
+/**
+ * Client cost estimate
+ * Prices a project's accepted quotes for the client: converts to the project base
+ * currency, applies the producer's markup and management fee, and groups lines by tag.
+ */
+
+import type { AssetWithAcceptedQuote } from '@/services/producerService';
+import { convertAmount, type CurrencyConversion } from './currency';
+
+export interface ClientEstimateOptions {
+  /** Added to every line price, e.g. 15 for +15% */
+  markupPercent: number;
+  /** Shown as its own line on the subtotal */
+  managementFeePercent: number;
+  groupByTag: boolean;
+  hideSupplierNames: boolean;
+  notes: string;
+}
+
+export interface ClientEstimateLine {
+  assetId: string;
+  assetName: string;
+  quantity: number | null;
+  /** Null when supplier names are hidden */
+  supplierName: string | null;
+  /** Accepted quote in the base currency, before markup */
+  cost: number;
+  /** Price to the client, after markup */
+  price: number;
+}
+
+export interface ClientEstimateGroup {
+  label: string;
+  lines: ClientEstimateLine[];
+  subtotal: number;
+}
+
+export interface ClientEstimate {
+  currency: string;
+  groups: ClientEstimateGroup[];
+  subtotal: number;
+  managementFee: number;
+  total: number;
+  /** Supplier cost before markup and fee, for the producer's reference */
+  costTotal: number;
+  /** Assets left out because their quote currency has no exchange rate */
+  excludedAssets: string[];
+  options: ClientEstimateOptions;
+}
+
+export const DEFAULT_CLIENT_ESTIMATE_OPTIONS: ClientEstimateOptions = {
+  markupPercent: 0,
+  managementFeePercent: 0,
+  groupByTag: true,
+  hideSupplierNames: true,
+  notes: ''
+};
+
+export const UNTAGGED_GROUP_LABEL = 'Other';
+const UNGROUPED_LABEL = 'Items';
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Build the estimate from assets with accepted quotes
+ * Each asset is listed once, under its first tag, so group subtotals add up to the total.
+ */
+export const buildClientEstimate = (
+  assets: AssetWithAcceptedQuote[],
+  conversion: CurrencyConversion,
+  options: ClientEstimateOptions = DEFAULT_CLIENT_ESTIMATE_OPTIONS
+): ClientEstimate => {
+  const groups = new Map<string, ClientEstimateLine[]>();
+  const excludedAssets: string[] = [];
+  let costTotal = 0;
+
+  assets.forEach((asset) => {
+    const quote = asset.acceptedQuote;
+    const cost = convertAmount(
+      Number(quote.cost) || 0,
+      quote.currency || conversion.baseCurrency,
+      conversion.baseCurrency,
+      conversion.rates
+    );
+    if (cost === null) {
+      excludedAssets.push(asset.asset_name);
+      return;
+    }
+
+    const label = options.groupByTag ? asset.tags?.[0] || UNTAGGED_GROUP_LABEL : UNGROUPED_LABEL;
+    const lines = groups.get(label) ?? [];
+    lines.push({
+      assetId: asset.id,
+      assetName: asset.asset_name,
+      quantity: asset.quantity ?? null,
+      supplierName: options.hideSupplierNames ? null : quote.supplier?.supplier_name ?? null,
+      cost: roundAmount(cost),
+      price: roundAmount(cost * (1 + options.markupPercent / 100))
+    });
+    groups.set(label, lines);
+    costTotal += cost;
+  });
+
+  const sortedGroups = Array.from(groups.entries())
+    .sort(([a], [b]) => {
+      if (a === UNTAGGED_GROUP_LABEL) return 1;
+      if (b === UNTAGGED_GROUP_LABEL) return -1;
+      return a.localeCompare(b);
+    })
+    .map(([label, lines]) => ({
+      label,
+      lines,
+      subtotal: roundAmount(lines.reduce((sum, line) => sum + line.price, 0))
+    }));
+
+  const subtotal = roundAmount(sortedGroups.reduce((sum, group) => sum + group.subtotal, 0));
+  const managementFee = roundAmount(subtotal * (options.managementFeePercent / 100));
+
+  return {
+    currency: conversion.baseCurrency,
+    groups: sortedGroups,
+    subtotal,
+    managementFee,
+    total: roundAmount(subtotal + managementFee),
+    costTotal: roundAmount(costTotal),
+    excludedAssets,
+    options
+  };
+};
@@ -0,0 +1,241 @@
+/**
+ * Command palette search
+ * Ranks projects, assets, suppliers, contact persons, chat messages and producer
+ * pages for a search term and attaches the actions each result offers.
+ */
+
+import { filterBySearchTerm } from './arrayUtils';
+import { EMPTY_FILTER_CRITERIA, filterCriteriaToSearchParams } from './supplierFilterViews';
+import type { Project, Asset, Supplier } from '@/lib/supabase';
+
+export type CommandResultType = 'page' | 'project' | 'asset' | 'supplier' | 'contact' | 'message';
+
+export interface CommandAction {
+  id: string;
+  label: string;
+  /** App path, or a mailto: link for contact persons */
+  to: string;
+}
+
+export interface CommandResult {
+  id: string;
+  type: CommandResultType;
+  title: string;
+  subtitle?: string;
+  score: number;
+  /** The first action is the default (Enter) */
+  actions: CommandAction[];
+}
+
+export type SearchableAsset = Pick<Asset, 'id' | 'project_id' | 'asset_name' | 'specifications' | 'status' | 'tags'>;
+
+/** Chat message matched by the server-side text search */
+export interface MessageSearchHit {
+  id: string;
+  quote_id: string;
+  content: string;
+  created_at: string;
+  supplier_name: string | null;
+  asset_name: string | null;
+}
+
+export interface CommandSearchIndex {
+  projects: Project[];
+  assets: SearchableAsset[];
+  suppliers: Supplier[];
+  /** Most recent quote per supplier, used to open the chat with them */
+  latestQuoteIdBySupplier: Record<string, string>;
+}
+
+// Producer pages (keep in sync with the /producer routes in App.tsx)
+export const PRODUCER_PAGES: Array<{ id: string; title: string; to: string; keywords: string }> = [
+  { id: 'dashboard', title: 'Dashboard', to: '/producer/dashboard', keywords: 'home active projects overview' },
+  { id: 'projects', title: 'All Projects', to: '/producer/projects', keywords: 'projects list archive' },
+  { id: 'inbox', title: 'Inbox', to: '/producer/inbox', keywords: 'messages conversations unread chat replies' },
+  { id: 'suppliers', title: 'Suppliers', to: '/producer/suppliers', keywords: 'vendors contacts directory' },
+  { id: 'settings', title: 'Settings', to: '/producer/settings', keywords: 'profile preferences templates tags billing' },
+  { id: 'releases', title: 'Release Notes', to: '/releases', keywords: 'changelog whats new' }
+];
+
+// Order of result types when scores tie
+const TYPE_ORDER: CommandResultType[] = ['page', 'project', 'asset', 'supplier', 'contact', 'message'];
+
+const MAX_RESULTS_PER_TYPE = 5;
+export const MAX_COMMAND_RESULTS = 20;
+
+export const projectPath = (projectId: string): string => `/producer/projects/${projectId}`;
+
+/**
+ * Project page with an asset opened, optionally straight into the quote request flow
+ */
+export const assetPath = (projectId: string, assetId: string, action?: 'request-quote'): string => {
+  const params = new URLSearchParams({ asset: assetId });
+  if (action) params.set('action', action);
+  return `${projectPath(projectId)}?${params.toString()}`;
+};
+
+export const quoteChatPath = (quoteId: string): string => `/dashboard/quotes/${quoteId}/chat`;
+
+export const supplierSearchPath = (searchTerm: string): string =>
+  `/producer/suppliers?${filterCriteriaToSearchParams({ ...EMPTY_FILTER_CRITERIA, searchTerm }).toString()}`;
+
+/**
+ * How well a value matches the term: exact 100, prefix 80, word prefix 60, substring 40, none 0
+ */
+export const scoreMatch = (value: string | null | undefined, term: string): number => {
+  const query = term.trim().toLowerCase();
+  if (!value || !query) return 0;
+
+  const text = value.toLowerCase();
+  if (text === query) return 100;
+  if (text.startsWith(query)) return 80;
+  if (text.split(/[\s\-_/.,()&@]+/).some(word => word.startsWith(query))) return 60;
+  if (text.includes(query)) return 40;
+  return 0;
+};
+
+// Best score across fields; secondary fields count for half
+const bestScore = (term: string, primary: Array<string | null | undefined>, secondary: Array<string | null | undefined> = []): number =>
+  Math.max(
+    0,
+    ...primary.map(value => scoreMatch(value, term)),
+    ...secondary.map(value => scoreMatch(value, term) / 2)
+  );
+
+const topResults = (results: CommandResult[]): CommandResult[] =>
+  results
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS_PER_TYPE);
+
+const snippet = (content: string, term: string, radius = 40): string => {
+  const index = content.toLowerCase().indexOf(term.trim().toLowerCase());
+  if (index < 0) return content.slice(0, radius * 2);
+  const start = Math.max(0, index - radius);
+  const end = Math.min(content.length, index + term.trim().length + radius);
+  return `${start > 0 ? '…' : ''}${content.slice(start, end)}${end < content.length ? '…' : ''}`;
+};
+
+/**
+ * Search everything in the index (plus any message hits) and return ranked results
+ * With an empty term, returns the producer pages and the most recent projects.
+ */
+export const searchCommands = (
+  index: CommandSearchIndex,
+  searchTerm: string,
+  messages: MessageSearchHit[] = []
+): CommandResult[] => {
+  const term = searchTerm.trim();
+  const projectNames = new Map(index.projects.map(project => [project.id, project.project_name]));
+
+  const toProjectResult = (project: Project, score: number): CommandResult => ({
+    id: `project-${project.id}`,
+    type: 'project',
+    title: project.project_name,
+    subtitle: [project.client_name, project.project_status].filter(Boolean).join(' · '),
+    score,
+    actions: [{ id: 'open', label: 'Open project', to: projectPath(project.id) }]
+  });
+
+  if (!term) {
+    return [
+      ...PRODUCER_PAGES.map(page => ({
+        id: `page-${page.id}`,
+        type: 'page' as const,
+        title: page.title,
+        score: 1,
+        actions: [{ id: 'open', label: 'Go to page', to: page.to }]
+      })),
+      ...index.projects.slice(0, MAX_RESULTS_PER_TYPE).map(project => toProjectResult(project, 1))
+    ];
+  }
+
+  const pages = topResults(
+    filterBySearchTerm(PRODUCER_PAGES, term, ['title', 'keywords']).map(page => ({
+      id: `page-${page.id}`,
+      type: 'page',
+      title: page.title,
+      score: bestScore(term, [page.title], [page.keywords]),
+      actions: [{ id: 'open', label: 'Go to page', to: page.to }]
+    }))
+  );
+
+  const projects = topResults(
+    filterBySearchTerm(index.projects, term, ['project_name', 'client_name', 'brief_description']).map(project =>
+      toProjectResult(project, bestScore(term, [project.project_name], [project.client_name, project.brief_description]))
+    )
+  );
+
+  const assets = topResults(
+    index.assets
+      .filter(asset =>
+        filterBySearchTerm([asset], term, ['asset_name', 'specifications']).length > 0 ||
+        (asset.tags ?? []).some(tag => scoreMatch(tag, term) > 0)
+      )
+      .map(asset => ({
+        id: `asset-${asset.id}`,
+        type: 'asset',
+        title: asset.asset_name,
+        subtitle: [projectNames.get(asset.project_id), asset.status].filter(Boolean).join(' · '),
+        score: bestScore(term, [asset.asset_name], [asset.specifications, ...(asset.tags ?? [])]),
+        actions: [
+          { id: 'open', label: 'Open asset', to: assetPath(asset.project_id, asset.id) },
+          { id: 'request-quote', label: 'Request quote', to: assetPath(asset.project_id, asset.id, 'request-quote') }
+        ]
+      }))
+  );
+
+  const suppliers = topResults(
+    index.suppliers
+      .filter(supplier =>
+        filterBySearchTerm([supplier], term, ['supplier_name', 'contact_email']).length > 0 ||
+        supplier.service_categories.some(category => scoreMatch(category, term) > 0)
+      )
+      .map(supplier => {
+        const chatQuoteId = index.latestQuoteIdBySupplier[supplier.id];
+        return {
+          id: `supplier-${supplier.id}`,
+          type: 'supplier',
+          title: supplier.supplier_name,
+          subtitle: supplier.service_categories.join(', '),
+          score: bestScore(term, [supplier.supplier_name], [supplier.contact_email, ...supplier.service_categories]),
+          actions: [
+            { id: 'open', label: 'Show supplier', to: supplierSearchPath(supplier.supplier_name) },
+            ...(chatQuoteId ? [{ id: 'chat', label: 'Open chat', to: quoteChatPath(chatQuoteId) }] : [])
+          ]
+        };
+      })
+  );
+
+  const contacts = topResults(
+    index.suppliers.flatMap(supplier =>
+      filterBySearchTerm(supplier.contact_persons ?? [], term, ['name', 'email', 'role']).map((contact, position) => ({
+        id: `contact-${supplier.id}-${position}-${contact.email}`,
+        type: 'contact' as const,
+        title: contact.name || contact.email,
+        subtitle: [contact.role, supplier.supplier_name].filter(Boolean).join(' · '),
+        score: bestScore(term, [contact.name], [contact.email, contact.role]),
+        actions: [
+          ...(contact.email ? [{ id: 'email', label: 'Email', to: `mailto:${contact.email}` }] : []),
+          { id: 'supplier', label: 'Show supplier', to: supplierSearchPath(supplier.supplier_name) }
+        ]
+      }))
+    )
+  );
+
+  const messageResults = topResults(
+    messages.map(message => ({
+      id: `message-${message.id}`,
+      type: 'message',
+      title: snippet(message.content, term),
+      subtitle: [message.supplier_name, message.asset_name].filter(Boolean).join(' · '),
+      // Message text only ever matches as a secondary field
+      score: Math.max(bestScore(term, [], [message.content]), 1),
+      actions: [{ id: 'chat', label: 'Open chat', to: quoteChatPath(message.quote_id) }]
+    }))
+  );
+
+  return [...pages, ...projects, ...assets, ...suppliers, ...contacts, ...messageResults]
+    .sort((a, b) => b.score - a.score || TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type))
+    .slice(0, MAX_COMMAND_RESULTS);
+};
@@ -0,0 +1,262 @@
+/**
+ * Critical-path scheduling for project assets
+ * Projects each asset's finish date from its timeline, duration and finish-to-start
+ * dependencies, then measures how much each one can slip before the event date moves.
+ */
+
+import type { Asset } from '@/lib/supabase';
+import type { AssetDependency } from '@/types/database';
+
+type SchedulableAsset = Pick<Asset, 'id' | 'asset_name' | 'status' | 'timeline' | 'duration_days' | 'delivered_at'>;
+type DependencyLink = Pick<AssetDependency, 'predecessor_asset_id' | 'successor_asset_id' | 'lag_days'>;
+
+/**
+ * done - delivered, no longer affects the event date
+ * late - already projected to finish after the latest date the event allows
+ * critical - no slack left; any slip moves the event date
+ * at_risk - a few days of slack (AT_RISK_SLACK_DAYS or fewer)
+ */
+export type ScheduleRisk = 'done' | 'late' | 'critical' | 'at_risk' | 'on_track';
+
+export interface ScheduledAsset {
+  assetId: string;
+  assetName: string;
+  durationDays: number;
+  /** Projected start and finish (YYYY-MM-DD) */
+  start: string;
+  finish: string;
+  /** The asset's own timeline date, if set */
+  plannedFinish: string | null;
+  /** Latest finish that still lets every dependent asset finish by the event date */
+  latestFinish: string | null;
+  /** Days the asset can slip before the event date is at risk (null without an event date) */
+  slackDays: number | null;
+  /** Days the projected finish is behind the asset's timeline date, because of dependencies or today's date */
+  delayDays: number;
+  risk: ScheduleRisk;
+  predecessors: Array<{ assetId: string; lagDays: number }>;
+}
+
+export interface ProjectSchedule {
+  /** Scheduled assets ordered by projected start */
+  assets: ScheduledAsset[];
+  /** IDs of the open assets with the least slack, ordered by start */
+  criticalPath: string[];
+  projectedFinish: string | null;
+  eventDate: string | null;
+  /** Days between the last projected finish and the event date (negative = overrun) */
+  eventSlackDays: number | null;
+  /** Dependencies form a loop; the links closing it are ignored */
+  hasCycle: boolean;
+}
+
+export const DEFAULT_DURATION_DAYS = 1;
+export const AT_RISK_SLACK_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar day number for a date or timestamp string (time of day is ignored)
+const toDay = (value: string): number => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+};
+
+const toDayFromDate = (date: Date): number =>
+  Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+
+const fromDay = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+const isValidDate = (value: string | null | undefined): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}/.test(value);
+
+// Statuses where production has not begun, so work cannot start before today
+const NOT_STARTED_STATUSES: Asset['status'][] = ['Pending', 'Quoting', 'Reviewing', 'Approved'];
+
+/**
+ * Order assets so every predecessor comes before its successors
+ * Assets caught in a cycle are appended in their original order.
+ */
+const sortTopologically = (
+  assetIds: string[],
+  links: DependencyLink[]
+): { order: string[]; hasCycle: boolean } => {
+  const inDegree = new Map(assetIds.map(id => [id, 0]));
+  links.forEach(link => inDegree.set(link.successor_asset_id, (inDegree.get(link.successor_asset_id) ?? 0) + 1));
+
+  const queue = assetIds.filter(id => inDegree.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    links
+      .filter(link => link.predecessor_asset_id === id)
+      .forEach(link => {
+        const remaining = (inDegree.get(link.successor_asset_id) ?? 0) - 1;
+        inDegree.set(link.successor_asset_id, remaining);
+        if (remaining === 0) queue.push(link.successor_asset_id);
+      });
+  }
+
+  const hasCycle = order.length < assetIds.length;
+  if (hasCycle) {
+    assetIds.filter(id => !order.includes(id)).forEach(id => order.push(id));
+  }
+  return { order, hasCycle };
+};
+
+/**
+ * Whether adding predecessor -> successor would make an asset (indirectly) wait for itself
+ */
+export const wouldCreateCycle = (
+  dependencies: DependencyLink[],
+  predecessorId: string,
+  successorId: string
+): boolean => {
+  if (predecessorId === successorId) return true;
+
+  const visited = new Set<string>();
+  const stack = [successorId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === predecessorId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    dependencies
+      .filter(dependency => dependency.predecessor_asset_id === current)
+      .forEach(dependency => stack.push(dependency.successor_asset_id));
+  }
+  return false;
+};
+
+const getRisk = (slackDays: number | null, isDone: boolean): ScheduleRisk => {
+  if (isDone) return 'done';
+  if (slackDays === null) return 'on_track';
+  if (slackDays < 0) return 'late';
+  if (slackDays === 0) return 'critical';
+  if (slackDays <= AT_RISK_SLACK_DAYS) return 'at_risk';
+  return 'on_track';
+};
+
+/**
+ * Schedule a project's assets against its event date
+ *
+ * Forward pass: an asset finishes on its timeline date, or later if its predecessors
+ * (plus lag) or today's date push it back. Backward pass: the latest finish is the
+ * event date, pulled earlier by whatever its successors need. Slack is the gap.
+ */
+export const calculateProjectSchedule = (
+  assets: SchedulableAsset[],
+  dependencies: DependencyLink[],
+  eventDate: string | null | undefined,
+  today: Date = new Date()
+): ProjectSchedule => {
+  const assetIds = new Set(assets.map(asset => asset.id));
+  // Ignore links to assets outside this set (e.g. deleted or in another project)
+  const links = dependencies.filter(
+    link => assetIds.has(link.predecessor_asset_id) && assetIds.has(link.successor_asset_id)
+  );
+  const { order, hasCycle } = sortTopologically(assets.map(asset => asset.id), links);
+  const assetsById = new Map(assets.map(asset => [asset.id, asset]));
+  const todayDay = toDayFromDate(today);
+  const eventDay = isValidDate(eventDate) ? toDay(eventDate) : null;
+
+  const finishDays = new Map<string, number>();
+  const durations = new Map<string, number>();
+
+  // Forward pass: projected finish dates
+  order.forEach(id => {
+    const asset = assetsById.get(id)!;
+    const duration = Math.max(0, asset.duration_days ?? DEFAULT_DURATION_DAYS);
+    durations.set(id, duration);
+
+    const plannedDay = isValidDate(asset.timeline) ? toDay(asset.timeline) : null;
+    if (asset.status === 'Delivered') {
+      const deliveredDay = isValidDate(asset.delivered_at) ? toDay(asset.delivered_at) : plannedDay;
+      finishDays.set(id, deliveredDay ?? todayDay);
+      return;
+    }
+
+    // Predecessors not yet scheduled can only be part of a cycle; those links are skipped
+    const readyDays = links
+      .filter(link => link.successor_asset_id === id && finishDays.has(link.predecessor_asset_id))
+      .map(link => finishDays.get(link.predecessor_asset_id)! + link.lag_days);
+    const earliestStart = Math.max(
+      ...readyDays,
+      NOT_STARTED_STATUSES.includes(asset.status) ? todayDay : -Infinity
+    );
+
+    const candidates = [earliestStart + duration, todayDay];
+    if (plannedDay !== null) candidates.push(plannedDay);
+    finishDays.set(id, Math.max(...candidates.filter(Number.isFinite)));
+  });
+
+  // Backward pass: latest finish that keeps the event date
+  const latestFinishDays = new Map<string, number | null>();
+  [...order].reverse().forEach(id => {
+    const limits = links
+      .filter(link => link.predecessor_asset_id === id && latestFinishDays.get(link.successor_asset_id) != null)
+      .map(link => latestFinishDays.get(link.successor_asset_id)! - durations.get(link.successor_asset_id)! - link.lag_days);
+    if (eventDay !== null) limits.push(eventDay);
+    latestFinishDays.set(id, limits.length > 0 ? Math.min(...limits) : null);
+  });
+
+  const scheduled: ScheduledAsset[] = order.map(id => {
+    const asset = assetsById.get(id)!;
+    const finish = finishDays.get(id)!;
+    const duration = durations.get(id)!;
+    const latestFinish = latestFinishDays.get(id) ?? null;
+    const plannedFinish = isValidDate(asset.timeline) ? asset.timeline.slice(0, 10) : null;
+    const isDone = asset.status === 'Delivered';
+    const slackDays = latestFinish !== null && !isDone ? latestFinish - finish : null;
+
+    return {
+      assetId: id,
+      assetName: asset.asset_name,
+      durationDays: duration,
+      start: fromDay(finish - duration),
+      finish: fromDay(finish),
+      plannedFinish,
+      latestFinish: latestFinish !== null ? fromDay(latestFinish) : null,
+      slackDays,
+      delayDays: plannedFinish && !isDone ? Math.max(0, finish - toDay(plannedFinish)) : 0,
+      risk: getRisk(slackDays, isDone),
+      predecessors: links
+        .filter(link => link.successor_asset_id === id)
+        .map(link => ({ assetId: link.predecessor_asset_id, lagDays: link.lag_days }))
+    };
+  });
+
+  scheduled.sort((a, b) => a.start.localeCompare(b.start) || a.finish.localeCompare(b.finish));
+
+  const openSlacks = scheduled
+    .filter(item => item.slackDays !== null)
+    .map(item => item.slackDays!);
+  const minSlack = openSlacks.length > 0 ? Math.min(...openSlacks) : null;
+  const criticalPath = minSlack === null
+    ? []
+    : scheduled.filter(item => item.slackDays === minSlack).map(item => item.assetId);
+
+  const lastFinish = scheduled.length > 0 ? Math.max(...scheduled.map(item => toDay(item.finish))) : null;
+
+  return {
+    assets: scheduled,
+    criticalPath,
+    projectedFinish: lastFinish !== null ? fromDay(lastFinish) : null,
+    eventDate: eventDay !== null ? fromDay(eventDay) : null,
+    eventSlackDays: eventDay !== null && lastFinish !== null ? eventDay - lastFinish : null,
+    hasCycle
+  };
+};
+
+/**
+ * Short description of an asset's slack, e.g. "2 days of slack" or "4 days late"
+ */
+export const describeSlack = (item: ScheduledAsset): string => {
+  if (item.risk === 'done') return 'Delivered';
+  if (item.slackDays === null) return 'No event date';
+  const days = Math.abs(item.slackDays);
+  const unit = `day${days === 1 ? '' : 's'}`;
+  if (item.slackDays < 0) return `${days} ${unit} late`;
+  if (item.slackDays === 0) return 'No slack';
+  return `${days} ${unit} of slack`;
+};
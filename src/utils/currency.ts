@@ -0,0 +1,109 @@
+/**
+ * Currency utility functions
+ * Formatting and conversion of quote costs into a project's base currency
+ */
+
+import type { ExchangeRate } from '@/types/database';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES: { code: string; label: string }[] = [
+  { code: 'USD', label: 'US Dollar' },
+  { code: 'EUR', label: 'Euro' },
+  { code: 'GBP', label: 'British Pound' },
+  { code: 'ZAR', label: 'South African Rand' },
+  { code: 'CAD', label: 'Canadian Dollar' }
+];
+
+/** Minimal shape needed to convert: a producer's exchange rate rows */
+export type ExchangeRateLike = Pick<ExchangeRate, 'from_currency' | 'to_currency' | 'rate'>;
+
+/**
+ * Format an amount in the given currency
+ * Falls back to the plain number with the code prefixed if Intl rejects the code
+ */
+export const formatCurrency = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+  options: { minimumFractionDigits?: number; maximumFractionDigits?: number } = {}
+): string => {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      ...options
+    }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(options.maximumFractionDigits ?? 2)}`;
+  }
+};
+
+/**
+ * Find the multiplier that converts `from` into `to`
+ * Uses the direct rate when stored, otherwise the inverse of the reverse pair.
+ * Returns null when the producer has no rate for this pair.
+ */
+export const getExchangeRate = (
+  from: string,
+  to: string,
+  rates: ExchangeRateLike[]
+): number | null => {
+  if (from === to) return 1;
+
+  const direct = rates.find(r => r.from_currency === from && r.to_currency === to);
+  if (direct && direct.rate > 0) return direct.rate;
+
+  const inverse = rates.find(r => r.from_currency === to && r.to_currency === from);
+  if (inverse && inverse.rate > 0) return 1 / inverse.rate;
+
+  return null;
+};
+
+/**
+ * Convert an amount between currencies using the producer's rate table
+ * Returns null when no rate is available
+ */
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRateLike[]
+): number | null => {
+  const rate = getExchangeRate(from, to, rates);
+  return rate === null ? null : amount * rate;
+};
+
+export interface CurrencyConversion {
+  baseCurrency: string;
+  rates: ExchangeRateLike[];
+}
+
+export interface ConvertedTotal {
+  total: number;
+  currency: string;
+  /** Currencies that had no rate to the base currency and were left out of the total */
+  missingRates: string[];
+}
+
+/**
+ * Sum amounts in mixed currencies into the base currency
+ * Amounts without a usable rate are excluded and reported in `missingRates`
+ */
+export const sumInBaseCurrency = (
+  items: { amount: number; currency?: string | null }[],
+  { baseCurrency, rates }: CurrencyConversion
+): ConvertedTotal => {
+  const missing = new Set<string>();
+
+  const total = items.reduce((sum, item) => {
+    const currency = item.currency || baseCurrency;
+    const converted = convertAmount(item.amount || 0, currency, baseCurrency, rates);
+    if (converted === null) {
+      missing.add(currency);
+      return sum;
+    }
+    return sum + converted;
+  }, 0);
+
+  return { total, currency: baseCurrency, missingRates: Array.from(missing) };
+};
@@ -0,0 +1,172 @@
+/**
+ * RFQ email templates
+ * Templates are plain text with {{merge.fields}} that are filled in per supplier
+ * when quote requests are prepared. A line whose merge fields all come out empty
+ * is dropped, so optional details (quantity, event date, ...) don't leave
+ * dangling labels behind.
+ */
+
+export type MergeFieldKey =
+  | 'supplier.name'
+  | 'supplier.contact_name'
+  | 'asset.name'
+  | 'asset.quantity'
+  | 'asset.specifications'
+  | 'asset.supplier_context'
+  | 'asset.timeline'
+  | 'project.name'
+  | 'project.event_date'
+  | 'producer.from_name'
+  | 'producer.signature';
+
+export interface MergeField {
+  key: MergeFieldKey;
+  label: string;
+}
+
+export const MERGE_FIELDS: MergeField[] = [
+  { key: 'supplier.name', label: 'Supplier name' },
+  { key: 'supplier.contact_name', label: 'Contact name' },
+  { key: 'asset.name', label: 'Asset name' },
+  { key: 'asset.quantity', label: 'Quantity' },
+  { key: 'asset.specifications', label: 'Specifications' },
+  { key: 'asset.supplier_context', label: 'Logistics context' },
+  { key: 'asset.timeline', label: 'Asset deadline' },
+  { key: 'project.name', label: 'Project name' },
+  { key: 'project.event_date', label: 'Event date' },
+  { key: 'producer.from_name', label: 'Your name' },
+  { key: 'producer.signature', label: 'Signature block' }
+];
+
+export type MergeContext = Record<MergeFieldKey, string>;
+
+export interface MergeContextSource {
+  supplier: {
+    supplier_name: string;
+    contact_persons?: { name: string; is_primary?: boolean }[];
+  };
+  asset: {
+    quantity?: number | null;
+    specifications?: string | null;
+    supplier_context?: string | null;
+    timeline?: string | null;
+  } | null;
+  assetName: string;
+  project: { project_name: string; event_date: string | null } | null;
+  producer: {
+    fromName: string;
+    company?: string;
+    email?: string;
+    phone?: string;
+  };
+}
+
+/** Template used when the producer has no template of their own for the asset */
+export const DEFAULT_RFQ_TEMPLATE = {
+  subject: 'Quote Request: {{asset.name}}',
+  body: `Dear {{supplier.contact_name}},
+
+We would like to request a quote for the following asset:
+
+Asset: {{asset.name}}
+Quantity: {{asset.quantity}}
+Specifications: {{asset.specifications}}
+Supplier & Logistics Context: {{asset.supplier_context}}
+Timeline: {{asset.timeline}}
+
+Please provide your quote by visiting the link below.
+
+We appreciate your time and look forward to working with you.
+
+Best regards,
+
+{{producer.signature}}`
+};
+
+const MERGE_FIELD_PATTERN = /\{\{\s*([a-z_]+\.[a-z_]+)\s*\}\}/g;
+
+const formatLongDate = (value: string | null | undefined): string => {
+  if (!value) return '';
+  // Date-only values are parsed as local dates so they don't shift a day
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+};
+
+const isMergeFieldKey = (key: string): key is MergeFieldKey =>
+  MERGE_FIELDS.some(field => field.key === key);
+
+/**
+ * Resolve every merge field for one supplier
+ */
+export const buildMergeContext = ({ supplier, asset, assetName, project, producer }: MergeContextSource): MergeContext => {
+  const primaryContact = supplier.contact_persons?.find(person => person.is_primary) || supplier.contact_persons?.[0];
+
+  return {
+    'supplier.name': supplier.supplier_name,
+    'supplier.contact_name': primaryContact?.name || supplier.supplier_name,
+    'asset.name': assetName,
+    'asset.quantity': asset?.quantity ? String(asset.quantity) : '',
+    'asset.specifications': asset?.specifications?.trim() || 'See project brief for details',
+    'asset.supplier_context': asset?.supplier_context?.trim() || '',
+    'asset.timeline': formatLongDate(asset?.timeline),
+    'project.name': project?.project_name || '',
+    'project.event_date': formatLongDate(project?.event_date),
+    'producer.from_name': producer.fromName,
+    'producer.signature': [producer.fromName, producer.company, producer.email, producer.phone]
+      .filter(Boolean)
+      .join('\n')
+  };
+};
+
+/**
+ * Merge fields used in `text` that aren't known, e.g. typos like {{asset.nme}}
+ */
+export const findUnknownMergeFields = (text: string): string[] => {
+  const unknown = new Set<string>();
+  for (const match of text.matchAll(MERGE_FIELD_PATTERN)) {
+    if (!isMergeFieldKey(match[1])) unknown.add(match[1]);
+  }
+  return Array.from(unknown);
+};
+
+/**
+ * Fill in the merge fields in `text`
+ * Unknown fields are left as written so they stand out in the preview.
+ */
+export const renderTemplate = (text: string, context: MergeContext): string => {
+  const lines = text.split('\n').flatMap((line) => {
+    let fieldCount = 0;
+    let emptyCount = 0;
+    const rendered = line.replace(MERGE_FIELD_PATTERN, (placeholder, key: string) => {
+      if (!isMergeFieldKey(key)) return placeholder;
+      fieldCount += 1;
+      const value = context[key];
+      if (!value) emptyCount += 1;
+      return value;
+    });
+    return fieldCount > 0 && fieldCount === emptyCount ? [] : [rendered];
+  });
+  return lines.join('\n');
+};
+
+/**
+ * Pick the template to start from for an asset
+ * The template marked default for the most of the asset's tags wins; ties go to
+ * the template listed first.
+ */
+export const pickDefaultTemplate = <T extends { default_for_tags: string[] }>(
+  templates: T[],
+  assetTags: string[]
+): T | null => {
+  let best: T | null = null;
+  let bestMatches = 0;
+  for (const template of templates) {
+    const matches = template.default_for_tags.filter(tag => assetTags.includes(tag)).length;
+    if (matches > bestMatches) {
+      best = template;
+      bestMatches = matches;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,260 @@
+/**
+ * Geographic supplier matching
+ * Matches a project venue against the cities and regions a supplier serves,
+ * and against the supplier's willing-to-travel radius from their address.
+ * Uses the bundled gazetteer only, so it works offline.
+ */
+
+import type { Project, Supplier } from '@/lib/supabase';
+import {
+  GAZETTEER_PLACES,
+  GAZETTEER_REGIONS,
+  GAZETTEER_COUNTRIES,
+  NATIONWIDE_AREA_NAMES,
+  type GazetteerPlace,
+  type GazetteerArea
+} from '@/data/gazetteer';
+
+export interface ProjectVenue {
+  city?: string | null;
+  region?: string | null;
+  country?: string | null;
+}
+
+/**
+ * How a supplier covers the venue, most specific first:
+ * - city: serves the venue city
+ * - region: serves the venue's province/region
+ * - travel_radius: the venue is within the supplier's travel radius of their address
+ * - country: serves the whole country (or lists itself as nationwide)
+ */
+export type LocationMatchKind = 'city' | 'region' | 'travel_radius' | 'country';
+
+export interface LocationMatch {
+  kind: LocationMatchKind;
+  /** City, region or country that matched */
+  label: string;
+  /** Distance from the supplier's base to the venue, for travel-radius matches */
+  distanceKm?: number;
+}
+
+const LOCATION_MATCH_RANK: Record<LocationMatchKind, number> = {
+  city: 4,
+  region: 3,
+  travel_radius: 2,
+  country: 1
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Lower-case, accent-free, punctuation-free form used to compare place names
+ */
+export const normalizePlaceName = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const buildIndex = <T extends GazetteerArea>(areas: T[]): Map<string, T> => {
+  const index = new Map<string, T>();
+  areas.forEach((area) => {
+    [area.name, ...(area.aliases || [])].forEach((name) => index.set(normalizePlaceName(name), area));
+  });
+  return index;
+};
+
+const PLACE_INDEX = buildIndex(GAZETTEER_PLACES);
+const REGION_INDEX = buildIndex(GAZETTEER_REGIONS);
+const COUNTRY_INDEX = buildIndex(GAZETTEER_COUNTRIES);
+const NATIONWIDE_NAMES = new Set(NATIONWIDE_AREA_NAMES.map(normalizePlaceName));
+
+/**
+ * Gazetteer city for a name or alias (e.g. "Joburg" → Johannesburg)
+ */
+export const findPlace = (name: string | null | undefined): GazetteerPlace | null =>
+  name ? PLACE_INDEX.get(normalizePlaceName(name)) ?? null : null;
+
+/**
+ * Canonical region name for a name or alias (e.g. "KZN" → KwaZulu-Natal)
+ */
+export const findRegionName = (name: string | null | undefined): string | null =>
+  name ? REGION_INDEX.get(normalizePlaceName(name))?.name ?? null : null;
+
+/**
+ * Canonical country name for a name or alias (e.g. "RSA" → South Africa)
+ */
+export const findCountryName = (name: string | null | undefined): string | null =>
+  name ? COUNTRY_INDEX.get(normalizePlaceName(name))?.name ?? null : null;
+
+/**
+ * Great-circle distance between two gazetteer places in kilometres
+ */
+export const distanceKm = (
+  a: Pick<GazetteerPlace, 'latitude' | 'longitude'>,
+  b: Pick<GazetteerPlace, 'latitude' | 'longitude'>
+): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Venue from a project's venue_* columns
+ */
+export const toProjectVenue = (
+  project: Pick<Project, 'venue_city' | 'venue_region' | 'venue_country'>
+): ProjectVenue => ({
+  city: project.venue_city ?? null,
+  region: project.venue_region ?? null,
+  country: project.venue_country ?? null
+});
+
+/**
+ * Venue with region and country filled in from the gazetteer where the producer left them blank
+ */
+export const resolveVenue = (venue: ProjectVenue | null | undefined) => {
+  const city = venue?.city?.trim() || null;
+  const place = findPlace(city);
+  const region = findRegionName(venue?.region) || venue?.region?.trim() || place?.region || null;
+  const country =
+    findCountryName(venue?.country) ||
+    venue?.country?.trim() ||
+    place?.country ||
+    GAZETTEER_REGIONS.find((item) => item.name === region)?.country ||
+    null;
+
+  return { city: place?.name ?? city, place, region, country };
+};
+
+/**
+ * Short venue label such as "Cape Town, Western Cape", or null without a venue
+ */
+export const formatVenue = (venue: ProjectVenue | null | undefined): string | null => {
+  const { city, region, country } = resolveVenue(venue);
+  const parts = [city, region].filter(Boolean);
+  if (parts.length === 0 && country) parts.push(country);
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
+/**
+ * Where a supplier is based: the first gazetteer city named in their address,
+ * otherwise the first city they serve that the gazetteer knows
+ */
+export const getSupplierBasePlace = (supplier: Pick<Supplier, 'address' | 'cities_served'>): GazetteerPlace | null => {
+  if (supplier.address) {
+    const address = ` ${normalizePlaceName(supplier.address)} `;
+    let best: GazetteerPlace | null = null;
+    let bestLength = 0;
+    for (const [name, place] of PLACE_INDEX) {
+      // Two-letter aliases like "PE" are too ambiguous to pick out of free text
+      if (name.length > 2 && name.length > bestLength && address.includes(` ${name} `)) {
+        best = place;
+        bestLength = name.length;
+      }
+    }
+    if (best) return best;
+  }
+
+  for (const entry of supplier.cities_served || []) {
+    const place = findPlace(entry);
+    if (place) return place;
+  }
+  return null;
+};
+
+/**
+ * How a supplier covers the venue, or null when they don't (or there is no venue)
+ */
+export const getSupplierLocationMatch = (
+  supplier: Pick<Supplier, 'address' | 'cities_served' | 'travel_radius_km'>,
+  venue: ProjectVenue | null | undefined
+): LocationMatch | null => {
+  const resolved = resolveVenue(venue);
+  if (!resolved.city && !resolved.region && !resolved.country) return null;
+
+  const served = supplier.cities_served || [];
+  const venueCityKey = resolved.city ? normalizePlaceName(resolved.city) : null;
+
+  const sameArea = (entry: string, canonical: string | null, area: string) =>
+    normalizePlaceName(canonical || entry) === normalizePlaceName(area);
+
+  const servesCity = served.some((entry) => {
+    const place = findPlace(entry);
+    return resolved.place ? place === resolved.place : normalizePlaceName(entry) === venueCityKey;
+  });
+  if (servesCity && resolved.city) {
+    return { kind: 'city', label: resolved.city };
+  }
+
+  const region = resolved.region;
+  if (region && served.some((entry) => sameArea(entry, findRegionName(entry), region))) {
+    return { kind: 'region', label: region };
+  }
+
+  if (supplier.travel_radius_km != null && resolved.place) {
+    const base = getSupplierBasePlace(supplier);
+    if (base) {
+      const distance = Math.round(distanceKm(base, resolved.place));
+      if (distance <= supplier.travel_radius_km) {
+        return { kind: 'travel_radius', label: base.name, distanceKm: distance };
+      }
+    }
+  }
+
+  const country = resolved.country;
+  const servesCountry = served.some((entry) =>
+    NATIONWIDE_NAMES.has(normalizePlaceName(entry)) ||
+    (country !== null && sameArea(entry, findCountryName(entry), country))
+  );
+  if (servesCountry) {
+    return { kind: 'country', label: country || 'Nationwide' };
+  }
+
+  return null;
+};
+
+/**
+ * Rank used when sorting suppliers; 0 when the supplier doesn't cover the venue
+ */
+export const getLocationMatchRank = (match: LocationMatch | null): number =>
+  match ? LOCATION_MATCH_RANK[match.kind] : 0;
+
+/**
+ * Badge text for a location match
+ */
+export const describeLocationMatch = (match: LocationMatch): string => {
+  switch (match.kind) {
+    case 'city':
+      return `Serves ${match.label}`;
+    case 'region':
+      return `Covers ${match.label}`;
+    case 'travel_radius':
+      return `Travels from ${match.label} (${match.distanceKm} km)`;
+    case 'country':
+      return `Nationwide (${match.label})`;
+  }
+};
+
+/**
+ * Gazetteer city names for venue autocomplete
+ */
+export const VENUE_CITY_SUGGESTIONS: string[] = GAZETTEER_PLACES
+  .map((place) => place.name)
+  .sort((a, b) => a.localeCompare(b));
+
+/**
+ * Cities, regions and countries for the areas a supplier serves
+ */
+export const SERVICE_AREA_SUGGESTIONS: string[] = Array.from(new Set([
+  NATIONWIDE_AREA_NAMES[0],
+  ...GAZETTEER_COUNTRIES.map((country) => country.name),
+  ...GAZETTEER_REGIONS.map((region) => region.name),
+  ...VENUE_CITY_SUGGESTIONS
+]));
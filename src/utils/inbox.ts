@@ -0,0 +1,82 @@
+/**
+ * Producer inbox utilities
+ * Filters quote conversations and derives the project, asset and supplier filter options
+ */
+
+import type { InboxConversation } from '@/types/database';
+
+export interface InboxFilters {
+  projectId: string;
+  assetId: string;
+  supplierId: string;
+  unreadOnly: boolean;
+}
+
+export const EMPTY_INBOX_FILTERS: InboxFilters = {
+  projectId: '',
+  assetId: '',
+  supplierId: '',
+  unreadOnly: false
+};
+
+export interface InboxFilterOption {
+  value: string;
+  label: string;
+}
+
+export interface InboxFilterOptions {
+  projects: InboxFilterOption[];
+  /** Limited to the selected project, if any */
+  assets: InboxFilterOption[];
+  suppliers: InboxFilterOption[];
+}
+
+const PREVIEW_LENGTH = 120;
+
+const byLabel = (a: InboxFilterOption, b: InboxFilterOption) => a.label.localeCompare(b.label);
+
+const uniqueOptions = (entries: Array<[string, string]>): InboxFilterOption[] =>
+  Array.from(new Map(entries).entries())
+    .map(([value, label]) => ({ value, label }))
+    .sort(byLabel);
+
+/**
+ * Apply the inbox filters, keeping the most recent conversation first
+ */
+export const filterConversations = (
+  conversations: InboxConversation[],
+  filters: InboxFilters
+): InboxConversation[] =>
+  conversations
+    .filter(conversation =>
+      (!filters.projectId || conversation.project_id === filters.projectId) &&
+      (!filters.assetId || conversation.asset_id === filters.assetId) &&
+      (!filters.supplierId || conversation.supplier_id === filters.supplierId) &&
+      (!filters.unreadOnly || conversation.unread_count > 0)
+    )
+    .sort((a, b) => new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime());
+
+export const getInboxFilterOptions = (
+  conversations: InboxConversation[],
+  projectId: string = ''
+): InboxFilterOptions => ({
+  projects: uniqueOptions(conversations.map(c => [c.project_id, c.project_name])),
+  assets: uniqueOptions(
+    conversations
+      .filter(c => !projectId || c.project_id === projectId)
+      .map(c => [c.asset_id, c.asset_name])
+  ),
+  suppliers: uniqueOptions(conversations.map(c => [c.supplier_id, c.supplier_name]))
+});
+
+export const countUnread = (conversations: InboxConversation[]): number =>
+  conversations.reduce((total, conversation) => total + conversation.unread_count, 0);
+
+/**
+ * One-line preview of the last message, prefixed "You: " for the producer's own
+ */
+export const getMessagePreview = (conversation: InboxConversation): string => {
+  const text = conversation.last_message_content.replace(/\s+/g, ' ').trim();
+  const preview = text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+  return conversation.last_message_sender === 'PRODUCER' ? `You: ${preview}` : preview;
+};
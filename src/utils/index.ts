@@ -14,11 +14,24 @@ export {
 // Business calculation utilities
 export {
   calculateTotalCost,
+  calculateAcceptedCostInBaseCurrency,
   getProgressPercentage,
   getAcceptedQuoteForAsset,
   calculateProjectStats
 } from './businessCalculations';
 
+// Currency utilities
+export {
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  formatCurrency,
+  getExchangeRate,
+  convertAmount,
+  sumInBaseCurrency,
+  type CurrencyConversion,
+  type ConvertedTotal
+} from './currency';
+
 // Array processing utilities
 export {
   getUniqueValues,
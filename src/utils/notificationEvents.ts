@@ -0,0 +1,58 @@
+/**
+ * Notification center event types
+ * Labels and descriptions shown in the bell menu and notification settings
+ */
+
+import type { NotificationEventType } from '@/types/database';
+
+export interface NotificationEventInfo {
+  type: NotificationEventType;
+  label: string;
+  description: string;
+}
+
+// Same order as notification_event_defaults() in the database
+export const NOTIFICATION_EVENTS: NotificationEventInfo[] = [
+  {
+    type: 'supplier_message',
+    label: 'New supplier message',
+    description: 'A supplier replies in a quote conversation'
+  },
+  {
+    type: 'quote_submitted',
+    label: 'Quote submitted',
+    description: 'A supplier submits or revises a quote'
+  },
+  {
+    type: 'quote_expiring',
+    label: 'Quote request expiring',
+    description: 'A quote request is within 24 hours of its response deadline'
+  },
+  {
+    type: 'milestone_due',
+    label: 'Milestone due',
+    description: 'A project milestone is due today or tomorrow'
+  },
+  {
+    type: 'action_item_assigned',
+    label: 'Action item assigned',
+    description: 'An action item is assigned to you, e.g. reviewing quotes after a round closes'
+  }
+];
+
+export const getNotificationEventLabel = (type: NotificationEventType): string =>
+  NOTIFICATION_EVENTS.find(event => event.type === type)?.label ?? type;
+
+/**
+ * Short age for the bell menu: "just now", "5m", "3h", "2d", then a date
+ */
+export const formatNotificationAge = (createdAt: string, now: Date = new Date()): string => {
+  const minutes = Math.floor((now.getTime() - new Date(createdAt).getTime()) / (1000 * 60));
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d`;
+  return new Date(createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
@@ -0,0 +1,71 @@
+/**
+ * Organisation helpers
+ * Role labels and the project access rules enforced by the database
+ * (see can_access_project in 20250318000000_add_organisations.sql)
+ */
+
+import type { Project } from '@/lib/supabase';
+import type { OrganisationMembership, OrganisationRole } from '@/types/database';
+
+export type ProjectAccess = 'none' | 'view' | 'edit' | 'manage';
+
+export interface OrganisationRoleOption {
+  value: OrganisationRole;
+  label: string;
+  description: string;
+}
+
+export const ORGANISATION_ROLES: OrganisationRoleOption[] = [
+  { value: 'owner', label: 'Owner', description: 'Everything, plus members, roles and invitations' },
+  { value: 'producer', label: 'Producer', description: 'Edit, share and delete shared projects' },
+  { value: 'coordinator', label: 'Coordinator', description: 'Edit shared projects' },
+  { value: 'finance', label: 'Finance', description: 'View shared projects, budgets and quotes' }
+];
+
+const EDIT_ROLES: OrganisationRole[] = ['owner', 'producer', 'coordinator'];
+const MANAGE_ROLES: OrganisationRole[] = ['owner', 'producer'];
+
+export const getRoleLabel = (role: OrganisationRole): string =>
+  ORGANISATION_ROLES.find((option) => option.value === role)?.label ?? role;
+
+export const canManageMembers = (role: OrganisationRole | null | undefined): boolean => role === 'owner';
+
+/**
+ * What the signed-in producer can do with a project
+ * Its own producer has full access; organisation members get access by role
+ * once the project is shared with their organisation.
+ */
+export const getProjectAccess = (
+  project: Pick<Project, 'producer_id' | 'organisation_id'>,
+  userId: string | null | undefined,
+  membership: OrganisationMembership | null
+): ProjectAccess => {
+  if (userId && project.producer_id === userId) {
+    return 'manage';
+  }
+  if (!membership || !project.organisation_id || project.organisation_id !== membership.organisation.id) {
+    return 'none';
+  }
+  if (MANAGE_ROLES.includes(membership.role)) {
+    return 'manage';
+  }
+  return EDIT_ROLES.includes(membership.role) ? 'edit' : 'view';
+};
+
+/**
+ * Whether the producer can share or unshare a project with their organisation
+ */
+export const canShareProject = (
+  project: Pick<Project, 'producer_id' | 'organisation_id'>,
+  userId: string | null | undefined,
+  membership: OrganisationMembership | null
+): boolean =>
+  membership !== null
+  && EDIT_ROLES.includes(membership.role)
+  && getProjectAccess(project, userId, membership) === 'manage';
+
+/**
+ * Link that opens the invitation page for a token
+ */
+export const buildInvitationLink = (token: string, origin = window.location.origin): string =>
+  `${origin.replace(/\/$/, '')}/invite/${token}`;
@@ -0,0 +1,214 @@
+/**
+ * PDF document builder
+ * Writes simple A4 documents (text, lines and filled boxes) in the browser without a PDF library.
+ * Text uses the standard Helvetica fonts with WinAnsi encoding, so no fonts are embedded;
+ * characters outside that set are replaced with "?".
+ */
+
+/** RGB, each channel 0-1 */
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  /** `x` is the left edge, right edge or centre of the text */
+  align?: 'left' | 'right' | 'center';
+}
+
+/** A4 in points */
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+const PDF_MIME_TYPE = 'application/pdf';
+
+const BLACK: PdfColor = [0, 0, 0];
+const LIGHT_GRAY: PdfColor = [0.8, 0.8, 0.8];
+
+// Advance widths (1/1000 em) for characters 32-126 from the Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Unicode characters that WinAnsi places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+/**
+ * Map a string to WinAnsi byte values
+ */
+const toWinAnsiCodes = (text: string): number[] =>
+  Array.from(text).map((char) => {
+    if (WIN_ANSI_EXTRAS[char] !== undefined) return WIN_ANSI_EXTRAS[char];
+    // Intl uses narrow and thin spaces in some currency formats
+    if (char === '\u202F' || char === '\u2009') return 0x20;
+    const code = char.charCodeAt(0);
+    if (code === 0x09) return 0x20;
+    return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) ? code : 0x3f;
+  });
+
+/**
+ * Width of `text` in points
+ * Characters outside ASCII are measured as an average glyph.
+ */
+export const measurePdfText = (text: string, size: number, bold = false): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = toWinAnsiCodes(text).reduce(
+    (sum, code) => sum + (code >= 32 && code <= 126 ? widths[code - 32] : 556),
+    0
+  );
+  return (units * size) / 1000;
+};
+
+/**
+ * Split text into lines that fit `maxWidth`, breaking at spaces (or mid-word when a word is too long)
+ */
+export const wrapPdfText = (text: string, size: number, maxWidth: number, bold = false): string[] => {
+  const lines: string[] = [];
+
+  text.split('\n').forEach((paragraph) => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measurePdfText(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (measurePdfText(line, size, bold) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && measurePdfText(line.slice(0, cut), size, bold) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+const encodePdfString = (text: string): string =>
+  toWinAnsiCodes(text)
+    .map((code) => {
+      if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`;
+      if (code > 0x7e) return `\\${code.toString(8).padStart(3, '0')}`;
+      return String.fromCharCode(code);
+    })
+    .join('');
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const formatColor = ([r, g, b]: PdfColor): string => `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)}`;
+
+export interface PdfDocument {
+  /** Start a new page; drawing goes to the newest page */
+  addPage: () => void;
+  pageCount: () => number;
+  /** Draw text with its baseline at `y`, measured from the top of the page */
+  text: (x: number, y: number, value: string, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, color?: PdfColor, width?: number) => void;
+  /** Filled rectangle with its top-left corner at (x, y) */
+  rect: (x: number, y: number, width: number, height: number, color: PdfColor) => void;
+  toBlob: () => Blob;
+}
+
+/**
+ * Create an empty document with one page
+ * Coordinates are in points from the top-left corner of the page.
+ */
+export const createPdfDocument = (): PdfDocument => {
+  const pages: string[][] = [[]];
+  const current = () => pages[pages.length - 1];
+  const flipY = (y: number) => formatNumber(PDF_PAGE_HEIGHT - y);
+
+  return {
+    addPage: () => {
+      pages.push([]);
+    },
+
+    pageCount: () => pages.length,
+
+    text: (x, y, value, { size = 10, bold = false, color = BLACK, align = 'left' } = {}) => {
+      const width = measurePdfText(value, size, bold);
+      const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+      current().push(
+        `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${formatColor(color)} rg ${formatNumber(left)} ${flipY(y)} Td (${encodePdfString(value)}) Tj ET`
+      );
+    },
+
+    line: (x1, y1, x2, y2, color = LIGHT_GRAY, width = 0.5) => {
+      current().push(
+        `${formatColor(color)} RG ${formatNumber(width)} w ${formatNumber(x1)} ${flipY(y1)} m ${formatNumber(x2)} ${flipY(y2)} l S`
+      );
+    },
+
+    rect: (x, y, width, height, color) => {
+      current().push(
+        `${formatColor(color)} rg ${formatNumber(x)} ${flipY(y + height)} ${formatNumber(width)} ${formatNumber(height)} re f`
+      );
+    },
+
+    toBlob: () => new Blob([serializePdf(pages)], { type: PDF_MIME_TYPE })
+  };
+};
+
+/**
+ * Serialise pages of content-stream operators into a PDF file
+ * Every byte is ASCII, so string length equals byte length for the xref offsets.
+ */
+const serializePdf = (pages: string[][]): string => {
+  const objects: string[] = [];
+  const pageRefs: string[] = [];
+  // 1: catalog, 2: page tree, 3-4: fonts, then a page and content object per page
+  const firstPageObject = 5;
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  pages.forEach((_, index) => pageRefs.push(`${firstPageObject + index * 2} 0 R`));
+  objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((operations, index) => {
+    const contentObject = firstPageObject + index * 2 + 1;
+    const stream = operations.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentObject} 0 R >>`
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach((offset) => {
+    output += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  });
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return output;
+};
@@ -0,0 +1,148 @@
+/**
+ * Project export rows
+ * Turns a project's assets, quotes and budget into spreadsheet rows.
+ * Asset order is kept as given so exports match the table's filters and sort.
+ */
+
+import type { Project, Asset, Quote } from '@/lib/supabase';
+import type { BudgetAllocationInput } from '@/types/database';
+import type { SpreadsheetCell } from './spreadsheetExport';
+import { sumInBaseCurrency, type CurrencyConversion } from './currency';
+import { getLineItemTotal } from './quoteLineItems';
+import { calculateBudgetVariance } from './budgetAllocations';
+import { isBidSealed } from './sealedBids';
+
+export type ProjectExportDataset = 'assets' | 'quotes' | 'budget';
+
+const formatExportDate = (value?: string | null): string => (value ? value.split('T')[0] : '');
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const SEALED_CELL = 'Sealed';
+
+/**
+ * One row per asset, with the AssetTable columns
+ */
+export const buildAssetRows = (assets: Asset[]): SpreadsheetCell[][] => [
+  ['Name', 'Quantity', 'Tags', 'Specifications', 'Supplier Status', 'Assigned Supplier', 'Last Updated'],
+  ...assets.map(asset => [
+    asset.asset_name,
+    asset.quantity ?? null,
+    (asset.tags || []).join(', '),
+    asset.specifications ?? '',
+    asset.status,
+    asset.assigned_supplier?.supplier_name ?? '',
+    formatExportDate(asset.updated_at)
+  ])
+];
+
+/**
+ * One row per quote line item (one row for quotes without line items)
+ * Quotes follow the order of `assets`. While an asset's bids are sealed its quotes
+ * show "Sealed" instead of a total and leave out their line items.
+ */
+export const buildQuoteRows = (assets: Asset[], quotes: Quote[], now: Date = new Date()): SpreadsheetCell[][] => {
+  const rows: SpreadsheetCell[][] = [[
+    'Asset', 'Supplier', 'Status', 'Currency', 'Quote Total', 'Valid Until', 'Last Updated',
+    'Line Item', 'Quantity', 'Unit', 'Unit Price', 'Tax %', 'Line Total', 'Optional'
+  ]];
+
+  assets.forEach((asset) => {
+    const sealed = isBidSealed(asset, now);
+
+    quotes
+      .filter(quote => quote.asset_id === asset.id)
+      .forEach((quote) => {
+        let total: SpreadsheetCell = Number(quote.cost);
+        if (quote.status === 'Pending') {
+          total = null;
+        } else if (sealed) {
+          total = SEALED_CELL;
+        }
+
+        const quoteCells: SpreadsheetCell[] = [
+          asset.asset_name,
+          quote.supplier?.supplier_name ?? '',
+          quote.status,
+          quote.currency ?? '',
+          total,
+          formatExportDate(quote.valid_until),
+          formatExportDate(quote.updated_at)
+        ];
+        const lineItems = sealed ? [] : [...(quote.line_items || [])].sort((a, b) => a.position - b.position);
+
+        if (lineItems.length === 0) {
+          rows.push(quoteCells);
+          return;
+        }
+
+        lineItems.forEach((item) => {
+          rows.push([
+            ...quoteCells,
+            item.description,
+            Number(item.quantity),
+            item.unit,
+            Number(item.unit_price),
+            Number(item.tax_rate),
+            roundAmount(getLineItemTotal(item)),
+            item.is_optional
+          ]);
+        });
+      });
+  });
+
+  return rows;
+};
+
+/**
+ * Budget totals for the exported assets, followed by planned vs quoted vs accepted per asset and tag
+ * Amounts are in the project base currency; sealed bids are counted but not priced
+ */
+export const buildBudgetRows = (
+  project: Project,
+  assets: Asset[],
+  quotes: Quote[],
+  allocations: BudgetAllocationInput[],
+  conversion: CurrencyConversion,
+  now: Date = new Date()
+): SpreadsheetCell[][] => {
+  const acceptedQuotes = quotes.filter(quote => quote.status === 'Accepted');
+  const { total: spent, missingRates } = sumInBaseCurrency(
+    acceptedQuotes.map(quote => ({ amount: Number(quote.cost), currency: quote.currency })),
+    conversion
+  );
+  const budget = Number(project.financial_parameters) || 0;
+  const variance = calculateBudgetVariance(assets, quotes, allocations, conversion, now);
+
+  const rows: SpreadsheetCell[][] = [
+    ['Item', 'Value'],
+    ['Project', project.project_name],
+    ['Client', project.client_name],
+    ['Currency', conversion.baseCurrency],
+    ['Total Budget', budget],
+    ['Accepted Spend', roundAmount(spent)],
+    ['Remaining', roundAmount(budget - spent)],
+    ['Budget Used %', budget > 0 ? roundAmount((spent / budget) * 100) : null],
+    ['Assets Exported', assets.length]
+  ];
+
+  if (missingRates.length > 0) {
+    rows.push(['Excluded (no exchange rate)', missingRates.join(', ')]);
+  }
+
+  rows.push([]);
+  rows.push(['Type', 'Name', 'Planned', 'Quoted (lowest)', 'Accepted', 'Variance', 'Sealed Bids']);
+  [...variance.tags, ...variance.assets].forEach((row) => {
+    rows.push([
+      row.kind === 'tag' ? 'Tag' : 'Asset',
+      row.label,
+      row.planned,
+      row.quoted === 0 && row.sealedQuoteCount > 0 ? SEALED_CELL : roundAmount(row.quoted),
+      roundAmount(row.accepted),
+      row.variance === null ? null : roundAmount(row.variance),
+      row.sealedQuoteCount
+    ]);
+  });
+
+  return rows;
+};
@@ -0,0 +1,55 @@
+/**
+ * Quote response deadline utilities
+ * Shared by the RFQ flow, the supplier portal countdown and the producer's status tracker
+ */
+
+interface DeadlineFields {
+  response_deadline?: string | null;
+  deadline_extended_until?: string | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Deadline that applies to a quote; a per-supplier extension replaces the round deadline
+ */
+export const getEffectiveDeadline = (quote: DeadlineFields): Date | null => {
+  const value = quote.deadline_extended_until || quote.response_deadline;
+  return value ? new Date(value) : null;
+};
+
+/**
+ * Countdown text such as "2d 4h left", or null once the deadline has passed
+ */
+export const formatTimeRemaining = (deadline: Date, now: Date = new Date()): string | null => {
+  const remaining = deadline.getTime() - now.getTime();
+  if (remaining <= 0) return null;
+
+  const days = Math.floor(remaining / DAY_MS);
+  const hours = Math.floor((remaining % DAY_MS) / HOUR_MS);
+  const minutes = Math.floor((remaining % HOUR_MS) / MINUTE_MS);
+
+  if (days > 0) return `${days}d ${hours}h left`;
+  if (hours > 0) return `${hours}h ${minutes}m left`;
+  return `${Math.max(minutes, 1)}m left`;
+};
+
+/**
+ * Format a date for a datetime-local input (local time, minute precision)
+ */
+export const toDateTimeLocalValue = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Suggested deadline for a new round: end of the working day, `days` days from now
+ */
+export const getDefaultResponseDeadline = (now: Date = new Date(), days = 3): Date => {
+  const deadline = new Date(now);
+  deadline.setDate(deadline.getDate() + days);
+  deadline.setHours(17, 0, 0, 0);
+  return deadline;
+};
@@ -0,0 +1,119 @@
+/**
+ * Quote line item utility functions
+ * Totals derived from line items and alignment of matching lines across suppliers
+ */
+
+import type { QuoteLineItemInput } from '@/types/database';
+
+export const LINE_ITEM_UNITS = ['each', 'hour', 'day', 'person', 'm²', 'lot'] as const;
+
+export interface LineItemTotals {
+  /** Sum of quantity * unit_price over required lines */
+  subtotal: number;
+  /** Tax over required lines */
+  tax: number;
+  /** subtotal + tax; this becomes the quote cost */
+  total: number;
+  /** Total (incl. tax) of optional lines, excluded from `total` */
+  optionalTotal: number;
+}
+
+/**
+ * Quantity * unit price, before tax
+ */
+export const getLineItemSubtotal = (item: Pick<QuoteLineItemInput, 'quantity' | 'unit_price'>): number =>
+  (Number(item.quantity) || 0) * (Number(item.unit_price) || 0);
+
+/**
+ * Line total including tax
+ */
+export const getLineItemTotal = (item: QuoteLineItemInput): number =>
+  getLineItemSubtotal(item) * (1 + (Number(item.tax_rate) || 0) / 100);
+
+/**
+ * Derive quote totals from its line items
+ * Optional lines are reported separately and never count towards the total
+ */
+export const calculateLineItemTotals = (items: QuoteLineItemInput[]): LineItemTotals =>
+  items.reduce<LineItemTotals>(
+    (totals, item) => {
+      const subtotal = getLineItemSubtotal(item);
+      const tax = subtotal * ((Number(item.tax_rate) || 0) / 100);
+
+      if (item.is_optional) {
+        return { ...totals, optionalTotal: totals.optionalTotal + subtotal + tax };
+      }
+
+      return {
+        ...totals,
+        subtotal: totals.subtotal + subtotal,
+        tax: totals.tax + tax,
+        total: totals.total + subtotal + tax
+      };
+    },
+    { subtotal: 0, tax: 0, total: 0, optionalTotal: 0 }
+  );
+
+/**
+ * Validate a line item before submission
+ * @returns Error message, or null when the line is valid
+ */
+export const validateLineItem = (item: QuoteLineItemInput): string | null => {
+  if (!item.description.trim()) return 'Description is required';
+  if (!(Number(item.quantity) > 0)) return 'Quantity must be greater than 0';
+  if (!(Number(item.unit_price) >= 0)) return 'Unit price cannot be negative';
+  if (!(Number(item.tax_rate) >= 0 && Number(item.tax_rate) <= 100)) return 'Tax rate must be between 0 and 100';
+  return null;
+};
+
+/**
+ * Normalise a description for matching across suppliers
+ * Case, punctuation, extra whitespace and a trailing plural "s" are ignored
+ */
+export const normalizeLineItemDescription = (description: string): string =>
+  description
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ');
+
+export interface AlignedLineItemRow<T extends QuoteLineItemInput = QuoteLineItemInput> {
+  key: string;
+  /** Description as first written by any supplier */
+  description: string;
+  /** Matching line per quote ID; missing when that supplier didn't quote it */
+  items: Record<string, T | undefined>;
+}
+
+/**
+ * Align matching line items across quotes so they can be compared like for like
+ * Rows keep the order in which lines first appear across the quotes
+ */
+export const alignLineItems = <T extends QuoteLineItemInput>(
+  quotes: { id: string; line_items?: T[] | null }[]
+): AlignedLineItemRow<T>[] => {
+  const rows = new Map<string, AlignedLineItemRow<T>>();
+
+  quotes.forEach((quote) => {
+    (quote.line_items ?? []).forEach((item) => {
+      const baseKey = normalizeLineItemDescription(item.description);
+      if (!baseKey) return;
+
+      // A supplier may list the same description twice; keep both as separate rows
+      let key = baseKey;
+      let duplicate = 1;
+      while (rows.get(key)?.items[quote.id]) {
+        duplicate += 1;
+        key = `${baseKey}#${duplicate}`;
+      }
+
+      const row = rows.get(key) ?? { key, description: item.description, items: {} };
+      row.items[quote.id] = item;
+      rows.set(key, row);
+    });
+  });
+
+  return Array.from(rows.values());
+};
@@ -0,0 +1,172 @@
+/**
+ * Quote version utility functions
+ * Field and line diffs between consecutive quote submissions
+ */
+
+import type { QuoteVersion } from '@/types/database';
+import { formatCurrency } from './currency';
+import { alignLineItems } from './quoteLineItems';
+
+export interface QuoteVersionFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+const BREAKDOWN_LABELS: Record<string, string> = {
+  labor: 'Labor',
+  materials: 'Materials',
+  equipment: 'Equipment',
+  other: 'Other'
+};
+
+const getBreakdownLabel = (key: string): string =>
+  BREAKDOWN_LABELS[key] ?? key.charAt(0).toUpperCase() + key.slice(1);
+
+/**
+ * List the offer fields that changed between two versions
+ * Line items are matched by description (legacy versions compare their cost breakdown);
+ * notes are diffed separately with diffLines
+ */
+export const getQuoteVersionChanges = (
+  previous: QuoteVersion,
+  current: QuoteVersion
+): QuoteVersionFieldChange[] => {
+  const changes: QuoteVersionFieldChange[] = [];
+
+  if (previous.cost !== current.cost || previous.currency !== current.currency) {
+    changes.push({
+      field: 'Total',
+      from: formatCurrency(previous.cost, previous.currency),
+      to: formatCurrency(current.cost, current.currency)
+    });
+  }
+
+  const previousBreakdown = previous.cost_breakdown ?? {};
+  const currentBreakdown = current.cost_breakdown ?? {};
+  const breakdownKeys = Array.from(
+    new Set([...Object.keys(previousBreakdown), ...Object.keys(currentBreakdown)])
+  );
+
+  breakdownKeys.forEach((key) => {
+    const before = Number(previousBreakdown[key] ?? 0);
+    const after = Number(currentBreakdown[key] ?? 0);
+    if (before !== after) {
+      changes.push({
+        field: getBreakdownLabel(key),
+        from: formatCurrency(before, previous.currency),
+        to: formatCurrency(after, current.currency)
+      });
+    }
+  });
+
+  // Match lines across the two versions by description
+  const lineItemRows = alignLineItems([
+    { id: 'previous', line_items: previous.line_items },
+    { id: 'current', line_items: current.line_items }
+  ]);
+
+  lineItemRows.forEach(({ description, items }) => {
+    const before = items.previous;
+    const after = items.current;
+    const describe = (item: NonNullable<typeof before>, currency: string): string =>
+      `${Number(item.quantity)} ${item.unit} × ${formatCurrency(Number(item.unit_price), currency)}` +
+      (item.is_optional ? ' (optional)' : '');
+
+    if (!before && after) {
+      changes.push({ field: description, from: 'Not quoted', to: describe(after, current.currency) });
+    } else if (before && !after) {
+      changes.push({ field: description, from: describe(before, previous.currency), to: 'Removed' });
+    } else if (
+      before && after && (
+        Number(before.quantity) !== Number(after.quantity) ||
+        Number(before.unit_price) !== Number(after.unit_price) ||
+        Number(before.tax_rate) !== Number(after.tax_rate) ||
+        before.unit !== after.unit ||
+        before.is_optional !== after.is_optional
+      )
+    ) {
+      changes.push({
+        field: description,
+        from: describe(before, previous.currency),
+        to: describe(after, current.currency)
+      });
+    }
+  });
+
+  if ((previous.valid_until ?? '') !== (current.valid_until ?? '')) {
+    changes.push({
+      field: 'Valid until',
+      from: previous.valid_until ?? 'Not set',
+      to: current.valid_until ?? 'Not set'
+    });
+  }
+
+  if ((previous.quote_document_url ?? '') !== (current.quote_document_url ?? '')) {
+    changes.push({
+      field: 'Document',
+      from: previous.quote_document_url ? 'Attached' : 'None',
+      to: current.quote_document_url ? (previous.quote_document_url ? 'Replaced' : 'Attached') : 'Removed'
+    });
+  }
+
+  return changes;
+};
+
+/**
+ * Price movement between two versions
+ * Returns null when the versions are in different currencies (not directly comparable)
+ */
+export const getQuoteVersionCostDelta = (
+  previous: QuoteVersion,
+  current: QuoteVersion
+): { amount: number; percentage: number | null } | null => {
+  if (previous.currency !== current.currency) return null;
+
+  const amount = current.cost - previous.cost;
+  const percentage = previous.cost > 0 ? (amount / previous.cost) * 100 : null;
+  return { amount, percentage };
+};
+
+/**
+ * Line-by-line diff of two texts (longest common subsequence)
+ * Used for quote notes, which are short enough for the O(n*m) table
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', text: b[j] });
+      j++;
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+
+  return result;
+};
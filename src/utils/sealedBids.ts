@@ -0,0 +1,41 @@
+/**
+ * Sealed bid utilities
+ * Submitted costs stay hidden until the bid-opening time passes or the producer unseals
+ */
+
+import type { BidSealAction } from '@/types/database';
+
+interface SealFields {
+  sealed_bids?: boolean;
+  bids_open_at?: string | null;
+  bids_unsealed_at?: string | null;
+}
+
+/**
+ * Whether an asset's bids are still sealed
+ */
+export const isBidSealed = (asset: SealFields | null | undefined, now: Date = new Date()): boolean => {
+  if (!asset?.sealed_bids || asset.bids_unsealed_at) return false;
+  if (!asset.bids_open_at) return true;
+  return new Date(asset.bids_open_at).getTime() > now.getTime();
+};
+
+/**
+ * Short explanation of when sealed bids will open, for placeholders where a cost would be
+ */
+export const describeBidOpening = (asset: SealFields): string => {
+  if (!asset.bids_open_at) return 'Sealed until unsealed by the producer';
+  return `Sealed until ${new Date(asset.bids_open_at).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })}`;
+};
+
+export const BID_SEAL_ACTION_LABELS: Record<BidSealAction, string> = {
+  sealed: 'Bids sealed',
+  rescheduled: 'Opening time moved',
+  unsealed: 'Bids unsealed',
+  seal_removed: 'Sealed bids turned off'
+};
@@ -0,0 +1,301 @@
+/**
+ * Spreadsheet export utilities
+ * Builds CSV and XLSX files in the browser, without a server round trip or a spreadsheet library.
+ * XLSX output is a minimal Office Open XML workbook (inline strings, bold header row)
+ * in an uncompressed zip, which Excel, Numbers, LibreOffice and Google Sheets all open.
+ */
+
+export type SpreadsheetCell = string | number | boolean | null | undefined;
+
+export interface SpreadsheetSheet {
+  name: string;
+  /** First row is treated as the header */
+  rows: SpreadsheetCell[][];
+}
+
+const CSV_MIME_TYPE = 'text/csv;charset=utf-8';
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Spreadsheet apps run text starting with these as formulas (CSV injection)
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+const cellToText = (cell: SpreadsheetCell): string => {
+  if (cell === null || cell === undefined) return '';
+  if (typeof cell === 'boolean') return cell ? 'Yes' : 'No';
+  if (typeof cell === 'number') return Number.isFinite(cell) ? String(cell) : '';
+  return cell;
+};
+
+// XLSX inline strings are never evaluated, so only CSV needs the guard
+const escapeCsvFormula = (text: string): string =>
+  FORMULA_PREFIXES.some(prefix => text.startsWith(prefix)) ? `'${text}` : text;
+
+/**
+ * Serialise rows as RFC 4180 CSV (CRLF line endings)
+ */
+export const toCsv = (rows: SpreadsheetCell[][]): string =>
+  rows
+    .map(row =>
+      row
+        .map((cell) => {
+          const text = typeof cell === 'string' ? escapeCsvFormula(cell) : cellToText(cell);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(',')
+    )
+    .join('\r\n');
+
+/**
+ * CSV file as a Blob; the byte order mark makes Excel read it as UTF-8
+ */
+export const buildCsvBlob = (rows: SpreadsheetCell[][]): Blob =>
+  new Blob(['\uFEFF', toCsv(rows)], { type: CSV_MIME_TYPE });
+
+// ===== XLSX =====
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const getColumnName = (index: number): string => {
+  let name = '';
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    name = String.fromCharCode(65 + offset) + name;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return name;
+};
+
+/**
+ * Excel sheet names: at most 31 characters, none of : \ / ? * [ ], unique within the workbook
+ */
+export const getSheetNames = (sheets: SpreadsheetSheet[]): string[] => {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = sheet.name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || `Sheet${index + 1}`;
+    let name = base;
+    let suffix = 2;
+    while (used.has(name.toLowerCase())) {
+      name = `${base.slice(0, 31 - String(suffix).length - 1)} ${suffix}`;
+      suffix += 1;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const buildWorksheetXml = (rows: SpreadsheetCell[][]): string => {
+  const rowsXml = rows
+    .map((row, rowIndex) => {
+      const cellsXml = row
+        .map((cell, columnIndex) => {
+          if (cell === null || cell === undefined || cell === '') return '';
+          const ref = `${getColumnName(columnIndex)}${rowIndex + 1}`;
+          const style = rowIndex === 0 ? ' s="1"' : '';
+          if (typeof cell === 'number' && Number.isFinite(cell)) {
+            return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+          }
+          return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cellToText(cell))}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${rowIndex + 1}">${cellsXml}</row>`;
+    })
+    .join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    (rows.length > 1 ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' : '') +
+    `<sheetData>${rowsXml}</sheetData></worksheet>`;
+};
+
+const buildWorkbookFiles = (sheets: SpreadsheetSheet[]): { path: string; content: string }[] => {
+  const names = getSheetNames(sheets);
+
+  return [
+    {
+      path: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets.map((_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '</Types>'
+    },
+    {
+      path: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      path: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        '<sheets>' +
+        names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+        '</sheets></workbook>'
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets.map((_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        ).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      path: 'xl/styles.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>'
+    },
+    ...sheets.map((sheet, index) => ({
+      path: `xl/worksheets/sheet${index + 1}.xml`,
+      content: buildWorksheetXml(sheet.rows)
+    }))
+  ];
+};
+
+// ===== ZIP (stored, no compression) =====
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Bytes of a zip archive holding `files` uncompressed
+ */
+export const buildZip = (files: { path: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.path);
+    const data = encoder.encode(file.content);
+    const checksum = crc32(data);
+
+    // Local file header (30 bytes) + name
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // version needed
+    localView.setUint16(6, 0x0800, true); // UTF-8 names
+    localView.setUint16(8, 0, true); // stored
+    localView.setUint16(10, 0, true); // time
+    localView.setUint16(12, 0x21, true); // date: 1980-01-01
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    // Central directory header (46 bytes) + name
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // version made by
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, 0, true);
+    centralView.setUint16(14, 0x21, true);
+    centralView.setUint32(16, checksum, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach((part) => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+};
+
+/**
+ * XLSX workbook with one worksheet per sheet
+ */
+export const buildXlsxBlob = (sheets: SpreadsheetSheet[]): Blob =>
+  new Blob([buildZip(buildWorkbookFiles(sheets))], { type: XLSX_MIME_TYPE });
+
+// ===== Download =====
+
+/**
+ * File-name-safe version of a label, e.g. "Summer Gala 2025" -> "summer-gala-2025"
+ */
+export const toFileSlug = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'export';
+
+/**
+ * Trigger a browser download for a generated file
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
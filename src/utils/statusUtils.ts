@@ -20,6 +20,7 @@ export const getStatusIconProps = (status: string): StatusIconProps => {
     case 'In Progress':
     case 'In Production':
     case 'Quoting':
+    case 'Reviewing':
       return { icon: 'Clock', className: 'h-5 w-5 text-yellow-500' };
     case 'Cancelled':
       return { icon: 'XCircle', className: 'h-5 w-5 text-red-500' };
@@ -40,6 +41,7 @@ export const getStatusColor = (status: string): string => {
     case 'In Progress':
     case 'In Production':
     case 'Quoting':
+    case 'Reviewing':
       return 'bg-yellow-100 text-yellow-800';
     case 'Cancelled':
       return 'bg-red-100 text-red-800';
@@ -57,6 +59,7 @@ export const getStatusPriority = (status: string): number => {
     case 'In Production':
       return 1;
     case 'Quoting':
+    case 'Reviewing':
       return 2;
     case 'Pending':
       return 3;
@@ -0,0 +1,154 @@
+/**
+ * Saved supplier filter view utilities
+ * Converts between the filter bar state, stored view criteria and share-link query parameters
+ */
+
+import type { Supplier } from '@/lib/supabase';
+import type { SupplierFilterCriteria } from '@/types/database';
+import type { FilterState } from '@/components/producer/supplier-filters/SupplierFilters';
+import { filterSuppliers } from './supplierFiltering';
+
+export const EMPTY_FILTER_CRITERIA: SupplierFilterCriteria = {
+  searchTerm: '',
+  categories: [],
+  roles: [],
+  hasContactPersons: null,
+  addedFrom: null,
+  addedTo: null,
+  city: ''
+};
+
+// Query parameter names used in share links
+const PARAMS = {
+  search: 'q',
+  category: 'category',
+  role: 'role',
+  contacts: 'contacts',
+  addedFrom: 'added_from',
+  addedTo: 'added_to',
+  city: 'city'
+} as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDateValue = (date: Date | null): string | null => {
+  if (!date) return null;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateValue = (value: string | null): Date | null => {
+  if (!value || !DATE_PATTERN.test(value)) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const uniqueValues = (values: unknown): string[] =>
+  Array.isArray(values)
+    ? Array.from(new Set(values.filter((value): value is string => typeof value === 'string' && value.trim() !== '')))
+    : [];
+
+/**
+ * Fill in missing or malformed fields, e.g. from a view saved before a filter existed
+ */
+export const normalizeFilterCriteria = (raw: Partial<SupplierFilterCriteria> | null | undefined): SupplierFilterCriteria => ({
+  searchTerm: typeof raw?.searchTerm === 'string' ? raw.searchTerm : '',
+  categories: uniqueValues(raw?.categories),
+  roles: uniqueValues(raw?.roles),
+  hasContactPersons: typeof raw?.hasContactPersons === 'boolean' ? raw.hasContactPersons : null,
+  addedFrom: typeof raw?.addedFrom === 'string' && DATE_PATTERN.test(raw.addedFrom) ? raw.addedFrom : null,
+  addedTo: typeof raw?.addedTo === 'string' && DATE_PATTERN.test(raw.addedTo) ? raw.addedTo : null,
+  city: typeof raw?.city === 'string' ? raw.city : ''
+});
+
+/**
+ * Criteria for the current filter bar state and region
+ */
+export const toFilterCriteria = (filters: FilterState, city: string): SupplierFilterCriteria => ({
+  searchTerm: filters.searchTerm,
+  categories: [...filters.selectedCategories],
+  roles: [...filters.selectedRoles],
+  hasContactPersons: filters.hasContactPersons,
+  addedFrom: toDateValue(filters.dateRange.start),
+  addedTo: toDateValue(filters.dateRange.end),
+  city
+});
+
+/**
+ * Filter bar state and region for saved criteria
+ */
+export const fromFilterCriteria = (criteria: SupplierFilterCriteria): { filters: FilterState; city: string } => ({
+  filters: {
+    searchTerm: criteria.searchTerm,
+    selectedCategories: [...criteria.categories],
+    selectedRoles: [...criteria.roles],
+    hasContactPersons: criteria.hasContactPersons,
+    dateRange: { start: fromDateValue(criteria.addedFrom), end: fromDateValue(criteria.addedTo) }
+  },
+  city: criteria.city
+});
+
+/**
+ * Query parameters for a share link; empty filters are left out
+ */
+export const filterCriteriaToSearchParams = (criteria: SupplierFilterCriteria): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (criteria.searchTerm) params.set(PARAMS.search, criteria.searchTerm);
+  criteria.categories.forEach((category) => params.append(PARAMS.category, category));
+  criteria.roles.forEach((role) => params.append(PARAMS.role, role));
+  if (criteria.hasContactPersons !== null) params.set(PARAMS.contacts, criteria.hasContactPersons ? 'with' : 'without');
+  if (criteria.addedFrom) params.set(PARAMS.addedFrom, criteria.addedFrom);
+  if (criteria.addedTo) params.set(PARAMS.addedTo, criteria.addedTo);
+  if (criteria.city) params.set(PARAMS.city, criteria.city);
+  return params;
+};
+
+/**
+ * Criteria from share-link query parameters; unknown parameters are ignored
+ */
+export const parseFilterCriteria = (params: URLSearchParams): SupplierFilterCriteria => {
+  const contacts = params.get(PARAMS.contacts);
+  return normalizeFilterCriteria({
+    searchTerm: params.get(PARAMS.search) || '',
+    categories: params.getAll(PARAMS.category),
+    roles: params.getAll(PARAMS.role),
+    hasContactPersons: contacts === 'with' ? true : contacts === 'without' ? false : null,
+    addedFrom: params.get(PARAMS.addedFrom),
+    addedTo: params.get(PARAMS.addedTo),
+    city: params.get(PARAMS.city) || ''
+  });
+};
+
+/**
+ * Remove filter parameters, keeping any others on the URL
+ */
+export const withoutFilterParams = (params: URLSearchParams): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  Object.values(PARAMS).forEach((key) => next.delete(key));
+  return next;
+};
+
+/**
+ * Whether two sets of criteria select the same suppliers (ignoring list order)
+ */
+export const isSameFilterCriteria = (a: SupplierFilterCriteria, b: SupplierFilterCriteria): boolean => {
+  const key = (criteria: SupplierFilterCriteria) => {
+    const params = filterCriteriaToSearchParams({
+      ...criteria,
+      categories: [...criteria.categories].sort(),
+      roles: [...criteria.roles].sort()
+    });
+    return params.toString();
+  };
+  return key(a) === key(b);
+};
+
+/**
+ * Apply saved criteria to a supplier list, including the region filter
+ */
+export const applyFilterCriteria = <T extends Supplier>(suppliers: T[], criteria: SupplierFilterCriteria): T[] => {
+  const { filters, city } = fromFilterCriteria(criteria);
+  return filterSuppliers(suppliers, filters).filter((supplier) =>
+    !city || Boolean(supplier.cities_served?.includes(city))
+  ) as T[];
+};
@@ -0,0 +1,380 @@
+/**
+ * Supplier CSV import
+ * Parses a CSV, maps its columns onto supplier fields and validates each row against
+ * existing suppliers, so the wizard can show a dry run before anything is written.
+ */
+
+import type { Supplier, ContactPerson } from '@/lib/supabase';
+import type { CreateSupplierData } from '@/services/supplierService';
+
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Contacts per row the wizard can map (contact 1 … contact N) */
+export const MAX_IMPORT_CONTACTS = 5;
+
+export type ContactImportProperty = 'name' | 'email' | 'role' | 'phone' | 'flags';
+
+/**
+ * Column mapping target
+ * `contact:<n>:<property>` maps to the nth contact person (1-based); `flags` holds
+ * any of "primary", "cc", "bcc".
+ */
+export type SupplierImportTarget =
+  | 'supplier_name'
+  | 'contact_email'
+  | 'address'
+  | 'service_categories'
+  | 'cities_served'
+  | `contact:${number}:${ContactImportProperty}`;
+
+/** Column index -> target; unmapped columns are omitted */
+export type SupplierImportMapping = Record<number, SupplierImportTarget>;
+
+const CONTACT_PROPERTY_LABELS: Record<ContactImportProperty, string> = {
+  name: 'name',
+  email: 'email',
+  role: 'role',
+  phone: 'phone',
+  flags: 'flags (primary/cc/bcc)'
+};
+
+export const SUPPLIER_IMPORT_TARGETS: { value: SupplierImportTarget; label: string }[] = [
+  { value: 'supplier_name', label: 'Supplier name' },
+  { value: 'contact_email', label: 'Supplier email' },
+  { value: 'address', label: 'Address' },
+  { value: 'service_categories', label: 'Service categories' },
+  { value: 'cities_served', label: 'Cities served' },
+  ...Array.from({ length: MAX_IMPORT_CONTACTS }, (_, index) =>
+    (Object.keys(CONTACT_PROPERTY_LABELS) as ContactImportProperty[]).map(property => ({
+      value: `contact:${index + 1}:${property}` as SupplierImportTarget,
+      label: `Contact ${index + 1} ${CONTACT_PROPERTY_LABELS[property]}`
+    }))
+  ).flat()
+];
+
+export interface SupplierImportRow {
+  /** 1-based line in the file, counting the header */
+  rowNumber: number;
+  supplier: CreateSupplierData | null;
+  errors: string[];
+  warnings: string[];
+  /** Existing supplier or earlier row this one duplicates */
+  duplicateOf: { source: 'existing' | 'file'; name: string; reason: 'name' | 'email' } | null;
+}
+
+export interface SupplierImportSummary {
+  total: number;
+  ready: number;
+  duplicates: number;
+  invalid: number;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF)
+ * Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const HEADER_ALIASES: Record<string, SupplierImportTarget> = {
+  'supplier name': 'supplier_name',
+  'supplier': 'supplier_name',
+  'name': 'supplier_name',
+  'company': 'supplier_name',
+  'company name': 'supplier_name',
+  'vendor': 'supplier_name',
+  'vendor name': 'supplier_name',
+  'email': 'contact_email',
+  'contact email': 'contact_email',
+  'supplier email': 'contact_email',
+  'address': 'address',
+  'categories': 'service_categories',
+  'service categories': 'service_categories',
+  'services': 'service_categories',
+  'cities': 'cities_served',
+  'cities served': 'cities_served',
+  'locations': 'cities_served'
+};
+
+const CONTACT_PROPERTY_ALIASES: Record<string, ContactImportProperty> = {
+  name: 'name',
+  email: 'email',
+  role: 'role',
+  title: 'role',
+  phone: 'phone',
+  tel: 'phone',
+  flags: 'flags',
+  type: 'flags'
+};
+
+/**
+ * Guess a mapping from the header row, e.g. "Contact 2 Email" -> contact:2:email
+ */
+export const suggestSupplierImportMapping = (headers: string[]): SupplierImportMapping => {
+  const mapping: SupplierImportMapping = {};
+  const used = new Set<SupplierImportTarget>();
+
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    let target: SupplierImportTarget | undefined = HEADER_ALIASES[normalized];
+
+    const contactMatch = normalized.match(/^contact\s*(\d+)?\s+(\w+)$/);
+    if (!target && contactMatch) {
+      const contactNumber = Number(contactMatch[1] || 1);
+      const property = CONTACT_PROPERTY_ALIASES[contactMatch[2]];
+      if (property && contactNumber >= 1 && contactNumber <= MAX_IMPORT_CONTACTS) {
+        target = `contact:${contactNumber}:${property}`;
+      }
+    }
+
+    if (target && !used.has(target)) {
+      mapping[index] = target;
+      used.add(target);
+    }
+  });
+
+  return mapping;
+};
+
+const splitList = (value: string): string[] =>
+  value
+    .split(/[;|\n]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+
+const normalizeSupplierName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+const getSupplierEmails = (supplier: Pick<Supplier, 'contact_email' | 'contact_persons'>): string[] =>
+  [supplier.contact_email, ...(supplier.contact_persons || []).map(person => person.email)]
+    .filter((email): email is string => Boolean(email))
+    .map(email => email.trim().toLowerCase());
+
+const buildContacts = (
+  contactCells: Map<number, Partial<Record<ContactImportProperty, string>>>,
+  errors: string[]
+): ContactPerson[] => {
+  const contacts: ContactPerson[] = [];
+
+  Array.from(contactCells.keys())
+    .sort((a, b) => a - b)
+    .forEach((contactNumber) => {
+      const cells = contactCells.get(contactNumber) || {};
+      const name = cells.name?.trim() ?? '';
+      const email = cells.email?.trim() ?? '';
+      const flags = (cells.flags ?? '').toLowerCase().split(/[\s,;/]+/).filter(Boolean);
+
+      if (!name && !email && !cells.role?.trim() && !cells.phone?.trim()) return;
+
+      if (!email) {
+        errors.push(`Contact ${contactNumber} has no email`);
+        return;
+      }
+      if (!EMAIL_REGEX.test(email)) {
+        errors.push(`Contact ${contactNumber} email "${email}" is not valid`);
+        return;
+      }
+
+      const unknownFlags = flags.filter(flag => !['primary', 'cc', 'bcc'].includes(flag));
+      if (unknownFlags.length > 0) {
+        errors.push(`Contact ${contactNumber} has unknown flag "${unknownFlags.join(', ')}" (use primary, cc or bcc)`);
+        return;
+      }
+      if (flags.includes('cc') && flags.includes('bcc')) {
+        errors.push(`Contact ${contactNumber} cannot be both CC and BCC`);
+        return;
+      }
+
+      contacts.push({
+        name,
+        email,
+        role: cells.role?.trim() ?? '',
+        phone: cells.phone?.trim() ?? '',
+        is_primary: flags.includes('primary'),
+        default_cc: flags.includes('cc'),
+        default_bcc: flags.includes('bcc')
+      });
+    });
+
+  const primaryCount = contacts.filter(contact => contact.is_primary).length;
+  if (primaryCount > 1) {
+    errors.push('Only one contact can be primary');
+  } else if (primaryCount === 0 && contacts.length > 0) {
+    contacts[0].is_primary = true;
+  }
+
+  return contacts;
+};
+
+/**
+ * Validate every data row and flag duplicates (dry run)
+ * Duplicates match an existing supplier, or an earlier row, by name or by any email.
+ * Categories are matched case-insensitively to `availableCategories`; unknown ones are kept with a warning.
+ */
+export const buildSupplierImportPreview = (
+  rows: string[][],
+  mapping: SupplierImportMapping,
+  existingSuppliers: Supplier[],
+  availableCategories: string[]
+): SupplierImportRow[] => {
+  const seenNames = new Map<string, string>();
+  const seenEmails = new Map<string, string>();
+  existingSuppliers.forEach((supplier) => {
+    seenNames.set(normalizeSupplierName(supplier.supplier_name), supplier.supplier_name);
+    getSupplierEmails(supplier).forEach(email => seenEmails.set(email, supplier.supplier_name));
+  });
+  const existingNames = new Set(seenNames.keys());
+  const existingEmails = new Set(seenEmails.keys());
+
+  return rows.map((cells, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const values: Partial<Record<SupplierImportTarget, string>> = {};
+    const contactCells = new Map<number, Partial<Record<ContactImportProperty, string>>>();
+
+    Object.entries(mapping).forEach(([columnIndex, target]) => {
+      const value = (cells[Number(columnIndex)] ?? '').trim();
+      const contactTarget = target.match(/^contact:(\d+):(\w+)$/);
+      if (contactTarget) {
+        const contactNumber = Number(contactTarget[1]);
+        contactCells.set(contactNumber, {
+          ...contactCells.get(contactNumber),
+          [contactTarget[2]]: value
+        });
+      } else {
+        values[target] = value;
+      }
+    });
+
+    const supplierName = values.supplier_name ?? '';
+    if (!supplierName) {
+      errors.push('Supplier name is required');
+    }
+
+    const contactPersons = buildContacts(contactCells, errors);
+
+    let contactEmail = values.contact_email ?? '';
+    if (contactEmail && !EMAIL_REGEX.test(contactEmail)) {
+      errors.push(`Supplier email "${contactEmail}" is not valid`);
+    }
+    if (!contactEmail) {
+      contactEmail = contactPersons.find(contact => contact.is_primary)?.email ?? '';
+    }
+
+    const serviceCategories = splitList(values.service_categories ?? '').map((category) => {
+      const match = availableCategories.find(available => available.toLowerCase() === category.toLowerCase());
+      if (!match) warnings.push(`Unknown category "${category}"`);
+      return match ?? category;
+    });
+    if (serviceCategories.length === 0) {
+      warnings.push('No service categories');
+    }
+
+    const citiesServed = Array.from(
+      new Map(splitList(values.cities_served ?? '').map(city => [city.toLowerCase(), city])).values()
+    );
+
+    // Duplicate detection: name first, then any email
+    let duplicateOf: SupplierImportRow['duplicateOf'] = null;
+    const nameKey = normalizeSupplierName(supplierName);
+    const emails = Array.from(new Set(
+      [contactEmail, ...contactPersons.map(contact => contact.email)]
+        .filter(Boolean)
+        .map(email => email.toLowerCase())
+    ));
+
+    if (nameKey && seenNames.has(nameKey)) {
+      duplicateOf = {
+        source: existingNames.has(nameKey) ? 'existing' : 'file',
+        name: seenNames.get(nameKey)!,
+        reason: 'name'
+      };
+    } else {
+      const matchedEmail = emails.find(email => seenEmails.has(email));
+      if (matchedEmail) {
+        duplicateOf = {
+          source: existingEmails.has(matchedEmail) ? 'existing' : 'file',
+          name: seenEmails.get(matchedEmail)!,
+          reason: 'email'
+        };
+      }
+    }
+
+    if (errors.length === 0) {
+      if (nameKey && !seenNames.has(nameKey)) seenNames.set(nameKey, supplierName);
+      emails.forEach((email) => {
+        if (!seenEmails.has(email)) seenEmails.set(email, supplierName);
+      });
+    }
+
+    return {
+      rowNumber: index + 2,
+      supplier: errors.length === 0
+        ? {
+            supplier_name: supplierName,
+            contact_email: contactEmail || null,
+            address: values.address ?? '',
+            service_categories: serviceCategories,
+            cities_served: citiesServed,
+            contact_persons: contactPersons
+          }
+        : null,
+      errors,
+      warnings,
+      duplicateOf
+    };
+  });
+};
+
+export const summarizeSupplierImport = (rows: SupplierImportRow[]): SupplierImportSummary => ({
+  total: rows.length,
+  ready: rows.filter(row => row.supplier && !row.duplicateOf).length,
+  duplicates: rows.filter(row => row.supplier && row.duplicateOf).length,
+  invalid: rows.filter(row => !row.supplier).length
+});
@@ -7,48 +7,19 @@
  * This enables relevance-based sorting in the RFQ workflow, where suppliers
  * with matching service categories appear first in the selection list.
  * 
- * Asset tag names: single source of truth in config/assetTagNames.json
- * Map keys below must match tag names from that config.
+ * Tag → category mappings come from the producer's tag taxonomy
+ * (see utils/assetTags), so new tags need no code change.
  */
 
 import type { Supplier } from '@/lib/supabase';
-import { ASSET_TAG_NAMES } from './assetTags';
-
-/**
- * Maps asset tags (from config/assetTagNames.json) to broad supplier service categories
- * Keys must match tag names in config. When adding a new tag to config, add its mapping here.
- *
- * Supplier Categories: 'Printing', 'Graphics', 'Banners', 'Staging', 'Audio', 'Lighting',
- * 'Catering', 'Food', 'Beverages', 'Design', 'Branding', 'Marketing', 'Transport',
- * 'Logistics', 'Delivery', 'Photography', 'Video', 'Security', 'Staffing', 'Hospitality',
- * 'Technical Services', 'Medical', 'Floral', 'Furniture', 'IT Services'
- */
-export const ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP: Record<string, string[]> = {
-  'Audio': ['Audio'],
-  'Video & Display': ['Graphics', 'Video'],
-  'Photography': ['Photography'],
-  'Graphics & Signage': ['Printing', 'Graphics', 'Banners'],
-  'Lighting': ['Lighting'],
-  'Staging': ['Staging'],
-  'Catering': ['Catering', 'Food', 'Beverages'],
-  'Staffing': ['Staffing', 'Security', 'Hospitality', 'Technical Services'],
-  'Logistics': ['Transport', 'Logistics', 'Delivery'],
-  'Branding & Marketing': ['Design', 'Branding', 'Marketing', 'Printing'],
-  'Floral & Decor': ['Floral', 'Design'],
-  'Furniture': ['Furniture'],
-  'Technology': ['IT Services', 'Design', 'Marketing'],
-  'Medical': ['Medical'],
-  'Scenic & Props': ['Staging', 'Design']
-};
-
-/**
- * Validates that ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP has an entry for every tag in config.
- * Call in tests or dev to catch drift when adding new tags to config.
- */
-export const validateAssetTagMapKeys = (): { valid: boolean; missing: string[] } => {
-  const missing = ASSET_TAG_NAMES.filter(name => !(name in ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP));
-  return { valid: missing.length === 0, missing };
-};
+import { getTagByName } from './assetTags';
+import type { SupplierScorecard } from './supplierScorecards';
+import {
+  getSupplierLocationMatch,
+  getLocationMatchRank,
+  type LocationMatch,
+  type ProjectVenue
+} from './geoMatching';
 
 /**
  * Legacy tag mappings for backward compatibility with existing assets
@@ -81,7 +52,7 @@ const LEGACY_TAG_TO_SUPPLIER_CATEGORY_MAP: Record<string, string[]> = {
 
 /**
  * Maps asset tags to relevant supplier categories
- * Checks both current and legacy tag maps for backward compatibility
+ * Checks the tag taxonomy (names and aliases), then the legacy tag map for backward compatibility
  *
  * @param assetTags - Array of asset tag names
  * @returns Set of supplier categories that match the asset tags
@@ -91,7 +62,7 @@ export const mapAssetTagsToSupplierCategories = (assetTags: string[]): Set<strin
 
   assetTags.forEach(tag => {
     const categories =
-      ASSET_TAG_TO_SUPPLIER_CATEGORY_MAP[tag] ?? LEGACY_TAG_TO_SUPPLIER_CATEGORY_MAP[tag] ?? [];
+      getTagByName(tag)?.supplier_categories ?? LEGACY_TAG_TO_SUPPLIER_CATEGORY_MAP[tag] ?? [];
     categories.forEach(category => relevantCategories.add(category));
   });
 
@@ -157,20 +128,31 @@ export const getMatchingCategories = (
   );
 };
 
+export interface SupplierRelevanceMetadata {
+  score: number;
+  matchingCategories: string[];
+  /** How the supplier covers the project venue; null without a venue or when they don't */
+  locationMatch: LocationMatch | null;
+}
+
 /**
  * Gets relevance metadata for a supplier
  * 
  * @param supplier - Supplier to analyze
  * @param assetTags - Asset tags to match against
- * @returns Object with score and matching categories
+ * @param venue - Project venue to match the supplier's service area against
+ * @returns Object with score, matching categories and location match
  */
 export const getSupplierRelevanceMetadata = (
   supplier: Supplier,
-  assetTags: string[]
-): { score: number; matchingCategories: string[] } => {
+  assetTags: string[],
+  venue?: ProjectVenue | null
+): SupplierRelevanceMetadata => {
+  const locationMatch = supplier ? getSupplierLocationMatch(supplier, venue) : null;
+
   // Handle edge cases
   if (!supplier || !assetTags || assetTags.length === 0) {
-    return { score: 0, matchingCategories: [] };
+    return { score: 0, matchingCategories: [], locationMatch };
   }
   
   // Map asset tags to relevant supplier categories
@@ -178,7 +160,7 @@ export const getSupplierRelevanceMetadata = (
   
   // If no relevant categories found, return zero score
   if (relevantCategories.size === 0) {
-    return { score: 0, matchingCategories: [] };
+    return { score: 0, matchingCategories: [], locationMatch };
   }
   
   // Calculate score
@@ -187,28 +169,63 @@ export const getSupplierRelevanceMetadata = (
   // Get matching categories
   const matchingCategories = getMatchingCategories(supplier, assetTags);
   
-  return { score, matchingCategories };
+  return { score, matchingCategories, locationMatch };
+};
+
+/**
+ * Compares suppliers by performance score (high → low), unscored suppliers last
+ * Returns 0 when no scorecards are given or both scores are equal
+ */
+const comparePerformance = (
+  a: Supplier,
+  b: Supplier,
+  scorecards?: Map<string, SupplierScorecard>
+): number => {
+  if (!scorecards) return 0;
+  const scoreA = scorecards.get(a.id)?.score ?? null;
+  const scoreB = scorecards.get(b.id)?.score ?? null;
+  if (scoreA === scoreB) return 0;
+  if (scoreA === null) return 1;
+  if (scoreB === null) return -1;
+  return scoreB - scoreA;
 };
 
 /**
  * Sorts suppliers by relevance to asset tags
  * 
  * Primary sort: High relevance score → Low relevance score
- * Secondary sort: Alphabetical by supplier_name (for ties)
+ * Secondary sort (optional): City → region → travel radius → nationwide → no coverage, when a venue is given
+ * Then (optional): High performance score → Low, when scorecards are given
+ * Final sort: Alphabetical by supplier_name (for ties)
  * 
  * @param suppliers - Array of suppliers to sort
  * @param assetTags - Array of asset tag names
+ * @param options.scorecards - Supplier scorecards by supplier ID, to rank proven suppliers first
+ * @param options.venue - Project venue, to rank suppliers that serve it first
  * @returns Sorted array of suppliers (most relevant first)
  */
 export const sortSuppliersByRelevance = (
   suppliers: Supplier[],
-  assetTags: string[]
+  assetTags: string[],
+  options: { scorecards?: Map<string, SupplierScorecard>; venue?: ProjectVenue | null } = {}
 ): Supplier[] => {
+  const { scorecards, venue } = options;
+
+  // Location ranks are computed once per supplier rather than per comparison
+  const locationRanks = new Map(
+    suppliers.map((supplier) => [supplier.id, getLocationMatchRank(getSupplierLocationMatch(supplier, venue))])
+  );
+  const byLocation = (a: Supplier, b: Supplier) =>
+    (locationRanks.get(b.id) ?? 0) - (locationRanks.get(a.id) ?? 0);
+
+  const byLocationThenPerformance = (a: Supplier, b: Supplier) =>
+    byLocation(a, b) ||
+    comparePerformance(a, b, scorecards) ||
+    a.supplier_name.localeCompare(b.supplier_name);
+
   // If no asset tags, return suppliers sorted alphabetically (fallback)
   if (!assetTags || assetTags.length === 0) {
-    return [...suppliers].sort((a, b) => 
-      a.supplier_name.localeCompare(b.supplier_name)
-    );
+    return [...suppliers].sort(byLocationThenPerformance);
   }
   
   // Map asset tags to relevant supplier categories
@@ -216,15 +233,13 @@ export const sortSuppliersByRelevance = (
   
   // If no relevant categories found, return alphabetical sort
   if (relevantCategories.size === 0) {
-    return [...suppliers].sort((a, b) => 
-      a.supplier_name.localeCompare(b.supplier_name)
-    );
+    return [...suppliers].sort(byLocationThenPerformance);
   }
   
   // Create a copy to avoid mutating the original array
   const sortedSuppliers = [...suppliers];
   
-  // Sort by relevance score (high → low), then alphabetically
+  // Sort by relevance score (high → low), then location, performance, then alphabetically
   sortedSuppliers.sort((a, b) => {
     const scoreA = calculateSupplierRelevanceScore(a, relevantCategories);
     const scoreB = calculateSupplierRelevanceScore(b, relevantCategories);
@@ -234,8 +249,8 @@ export const sortSuppliersByRelevance = (
       return scoreB - scoreA;
     }
     
-    // Secondary sort: Alphabetical (for ties)
-    return a.supplier_name.localeCompare(b.supplier_name);
+    // Secondary sort: location, performance, then alphabetical (for ties)
+    return byLocationThenPerformance(a, b);
   });
   
   return sortedSuppliers;
@@ -0,0 +1,192 @@
+/**
+ * Supplier performance scorecards
+ * Summarises each supplier's quote history: how often and how fast they respond,
+ * how often they win, where their prices sit against competing bids, and whether
+ * their accepted work was delivered on time. The composite score (0-100) can be
+ * used as a ranking factor in sortSuppliersByRelevance.
+ */
+
+import type { QuoteStatus } from '@/types/database';
+import { convertAmount, type ExchangeRateLike } from './currency';
+
+export interface ScorecardQuote {
+  supplier_id: string;
+  asset_id: string;
+  status: QuoteStatus;
+  cost: number;
+  currency?: string | null;
+  response_time_hours?: number | null;
+}
+
+export interface ScorecardAsset {
+  id: string;
+  status: string;
+  delivered_at?: string | null;
+  /** Currency bids on this asset are compared in (the project base currency) */
+  baseCurrency: string;
+  /** Planned delivery date (YYYY-MM-DD); deliveries without one are not scored */
+  dueDate: string | null;
+}
+
+export interface SupplierScorecard {
+  supplierId: string;
+  quotesRequested: number;
+  quotesResponded: number;
+  /** 0-1, null without requests */
+  responseRate: number | null;
+  medianResponseHours: number | null;
+  quotesWon: number;
+  quotesDecided: number;
+  /** Accepted / (accepted + rejected), 0-1 */
+  winRate: number | null;
+  /** Average bid as a percentage of the lowest bid on the same asset (100 = always lowest) */
+  averagePricePosition: number | null;
+  comparedBids: number;
+  deliveries: number;
+  onTimeDeliveries: number;
+  onTimeRate: number | null;
+  /** Weighted 0-100 composite of the available measures, null without history */
+  score: number | null;
+}
+
+const RESPONDED_STATUSES: QuoteStatus[] = ['Submitted', 'Accepted', 'Rejected'];
+
+// Composite weights; measures without data are left out and the rest re-weighted
+const SCORE_WEIGHTS = {
+  responseRate: 0.25,
+  responseSpeed: 0.15,
+  winRate: 0.2,
+  pricePosition: 0.2,
+  onTime: 0.2
+};
+
+// Responses within a day score full marks, a week or slower scores nothing
+const FAST_RESPONSE_HOURS = 24;
+const SLOW_RESPONSE_HOURS = 168;
+// Bids at the lowest price score full marks, 50% above it or more score nothing
+const PRICE_POSITION_RANGE = 50;
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const average = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const ratio = (part: number, whole: number): number | null => (whole > 0 ? part / whole : null);
+
+/**
+ * Combine the measures into a 0-100 score
+ */
+export const calculateCompositeScore = (
+  scorecard: Omit<SupplierScorecard, 'score'>
+): number | null => {
+  const parts: [number | null, number][] = [
+    [scorecard.responseRate, SCORE_WEIGHTS.responseRate],
+    [
+      scorecard.medianResponseHours === null
+        ? null
+        : clamp01(1 - (scorecard.medianResponseHours - FAST_RESPONSE_HOURS) / (SLOW_RESPONSE_HOURS - FAST_RESPONSE_HOURS)),
+      SCORE_WEIGHTS.responseSpeed
+    ],
+    [scorecard.winRate, SCORE_WEIGHTS.winRate],
+    [
+      scorecard.averagePricePosition === null
+        ? null
+        : clamp01(1 - (scorecard.averagePricePosition - 100) / PRICE_POSITION_RANGE),
+      SCORE_WEIGHTS.pricePosition
+    ],
+    [scorecard.onTimeRate, SCORE_WEIGHTS.onTime]
+  ];
+
+  const available = parts.filter((part): part is [number, number] => part[0] !== null);
+  const totalWeight = available.reduce((sum, [, weight]) => sum + weight, 0);
+  if (totalWeight === 0) return null;
+
+  return Math.round((available.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight) * 100);
+};
+
+/**
+ * Build a scorecard for every supplier that appears in `quotes`
+ */
+export const calculateSupplierScorecards = (
+  quotes: ScorecardQuote[],
+  assets: ScorecardAsset[],
+  rates: ExchangeRateLike[]
+): Map<string, SupplierScorecard> => {
+  const assetsById = new Map(assets.map(asset => [asset.id, asset]));
+
+  // Lowest converted bid per asset, for the price position
+  const convertedCosts = new Map<ScorecardQuote, number>();
+  const lowestByAsset = new Map<string, { cost: number; bids: number }>();
+  quotes.forEach((quote) => {
+    const asset = assetsById.get(quote.asset_id);
+    if (!asset || !RESPONDED_STATUSES.includes(quote.status)) return;
+    const cost = convertAmount(Number(quote.cost) || 0, quote.currency || asset.baseCurrency, asset.baseCurrency, rates);
+    if (cost === null || cost <= 0) return;
+    convertedCosts.set(quote, cost);
+    const current = lowestByAsset.get(quote.asset_id);
+    lowestByAsset.set(quote.asset_id, {
+      cost: current ? Math.min(current.cost, cost) : cost,
+      bids: (current?.bids ?? 0) + 1
+    });
+  });
+
+  const bySupplier = new Map<string, ScorecardQuote[]>();
+  quotes.forEach((quote) => {
+    bySupplier.set(quote.supplier_id, [...(bySupplier.get(quote.supplier_id) ?? []), quote]);
+  });
+
+  const scorecards = new Map<string, SupplierScorecard>();
+  bySupplier.forEach((supplierQuotes, supplierId) => {
+    const responded = supplierQuotes.filter(quote => RESPONDED_STATUSES.includes(quote.status));
+    const won = supplierQuotes.filter(quote => quote.status === 'Accepted');
+    const decided = supplierQuotes.filter(quote => quote.status === 'Accepted' || quote.status === 'Rejected');
+
+    const responseHours = responded
+      .map(quote => quote.response_time_hours)
+      .filter((hours): hours is number => typeof hours === 'number' && hours >= 0);
+
+    // Only bids that had competition say anything about price
+    const pricePositions = responded
+      .map((quote) => {
+        const cost = convertedCosts.get(quote);
+        const lowest = lowestByAsset.get(quote.asset_id);
+        return cost !== undefined && lowest && lowest.bids > 1 ? (cost / lowest.cost) * 100 : null;
+      })
+      .filter((position): position is number => position !== null);
+
+    const deliveries = won
+      .map(quote => assetsById.get(quote.asset_id))
+      .filter((asset): asset is ScorecardAsset =>
+        !!asset && asset.status === 'Delivered' && !!asset.delivered_at && !!asset.dueDate
+      );
+    const onTime = deliveries.filter(asset => asset.delivered_at!.slice(0, 10) <= asset.dueDate!);
+
+    const averagePosition = average(pricePositions);
+    const scorecard: Omit<SupplierScorecard, 'score'> = {
+      supplierId,
+      quotesRequested: supplierQuotes.length,
+      quotesResponded: responded.length,
+      responseRate: ratio(responded.length, supplierQuotes.length),
+      medianResponseHours: median(responseHours),
+      quotesWon: won.length,
+      quotesDecided: decided.length,
+      winRate: ratio(won.length, decided.length),
+      averagePricePosition: averagePosition === null ? null : Math.round(averagePosition),
+      comparedBids: pricePositions.length,
+      deliveries: deliveries.length,
+      onTimeDeliveries: onTime.length,
+      onTimeRate: ratio(onTime.length, deliveries.length)
+    };
+
+    scorecards.set(supplierId, { ...scorecard, score: calculateCompositeScore(scorecard) });
+  });
+
+  return scorecards;
+};
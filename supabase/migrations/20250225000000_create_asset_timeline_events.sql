@@ -0,0 +1,152 @@
+-- ============================================
+-- Create Asset Timeline Events
+-- ============================================
+-- Persists per-asset timeline events (proof approved, load-in, delivery, etc.)
+-- that were previously simulated in memory by AssetTimelineManager.
+--
+-- Every insert/update/delete is recorded in asset_timeline_event_history
+-- by a trigger so producers can see how an event's date moved over time.
+--
+-- Migration: 20250225000000_create_asset_timeline_events.sql
+-- ============================================
+
+-- ============================================
+-- 1. CREATE ENUM AND TABLES
+-- ============================================
+
+CREATE TYPE asset_timeline_event_type_enum AS ENUM (
+  'milestone',
+  'proof_approved',
+  'production_start',
+  'delivery',
+  'load_in',
+  'load_out',
+  'other'
+);
+
+CREATE TABLE IF NOT EXISTS public.asset_timeline_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  asset_id uuid NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  event_type asset_timeline_event_type_enum NOT NULL DEFAULT 'milestone',
+  event_name text NOT NULL,
+  event_date date NOT NULL,
+  description text DEFAULT '',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.asset_timeline_event_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL,
+  asset_id uuid NOT NULL,
+  change_type text NOT NULL CHECK (change_type IN ('created', 'updated', 'deleted')),
+  previous_values jsonb,
+  new_values jsonb,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_timeline_events_asset_id_date
+ON public.asset_timeline_events(asset_id, event_date);
+
+CREATE INDEX IF NOT EXISTS idx_asset_timeline_event_history_event_id
+ON public.asset_timeline_event_history(event_id, changed_at);
+
+CREATE INDEX IF NOT EXISTS idx_asset_timeline_event_history_asset_id
+ON public.asset_timeline_event_history(asset_id);
+
+COMMENT ON TABLE public.asset_timeline_events IS 'Dated events on an asset timeline (proof approval, production start, load-in, etc.).';
+COMMENT ON COLUMN public.asset_timeline_events.event_type IS 'Category of the event. Drives icons and labels in the asset and project timelines.';
+COMMENT ON TABLE public.asset_timeline_event_history IS 'Append-only audit log of changes to asset_timeline_events. Written by trigger.';
+COMMENT ON COLUMN public.asset_timeline_event_history.event_id IS 'ID of the timeline event. Not a foreign key so history survives event deletion.';
+COMMENT ON COLUMN public.asset_timeline_event_history.asset_id IS 'ID of the asset. Not a foreign key so cascading asset deletes can still log the removed events.';
+
+-- ============================================
+-- 2. TRIGGERS
+-- ============================================
+
+CREATE TRIGGER update_asset_timeline_events_updated_at
+  BEFORE UPDATE ON public.asset_timeline_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Records every change to a timeline event in the history table.
+-- SECURITY DEFINER so history rows are written regardless of the caller's RLS.
+CREATE OR REPLACE FUNCTION public.log_asset_timeline_event_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.asset_timeline_event_history (event_id, asset_id, change_type, previous_values, new_values, changed_by)
+    VALUES (NEW.id, NEW.asset_id, 'created', NULL, to_jsonb(NEW), auth.uid());
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    INSERT INTO public.asset_timeline_event_history (event_id, asset_id, change_type, previous_values, new_values, changed_by)
+    VALUES (NEW.id, NEW.asset_id, 'updated', to_jsonb(OLD), to_jsonb(NEW), auth.uid());
+    RETURN NEW;
+  ELSE
+    INSERT INTO public.asset_timeline_event_history (event_id, asset_id, change_type, previous_values, new_values, changed_by)
+    VALUES (OLD.id, OLD.asset_id, 'deleted', to_jsonb(OLD), NULL, auth.uid());
+    RETURN OLD;
+  END IF;
+END;
+$$;
+
+CREATE TRIGGER log_asset_timeline_event_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.asset_timeline_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_asset_timeline_event_change();
+
+-- ============================================
+-- 3. ENABLE ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.asset_timeline_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.asset_timeline_event_history ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 4. CREATE RLS POLICIES
+-- ============================================
+
+-- Producers can manage timeline events on assets in projects they own
+CREATE POLICY "Producers can manage timeline events for owned assets"
+  ON public.asset_timeline_events
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.assets a
+      JOIN public.projects p ON p.id = a.project_id
+      WHERE a.id = asset_timeline_events.asset_id
+        AND p.producer_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.assets a
+      JOIN public.projects p ON p.id = a.project_id
+      WHERE a.id = asset_timeline_events.asset_id
+        AND p.producer_id = auth.uid()
+    )
+  );
+
+-- History is read-only for producers; rows are written by the trigger only
+CREATE POLICY "Producers can view timeline history for owned assets"
+  ON public.asset_timeline_event_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.assets a
+      JOIN public.projects p ON p.id = a.project_id
+      WHERE a.id = asset_timeline_event_history.asset_id
+        AND p.producer_id = auth.uid()
+    )
+  );
@@ -0,0 +1,27 @@
+-- ============================================
+-- Enable Realtime for Quote Messages
+-- ============================================
+-- Adds messages and message_attachments to the supabase_realtime publication
+-- so producer chats receive INSERTs over the quote chat channel instead of
+-- polling every 8 seconds. RLS still applies to postgres_changes delivery;
+-- anonymous portal sessions rely on channel broadcasts and refetch via the API.
+--
+-- Migration: 20250226000000_enable_realtime_for_quote_messages.sql
+-- ============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'message_attachments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.message_attachments;
+  END IF;
+END $$;
@@ -0,0 +1,138 @@
+-- ============================================
+-- Multi-Currency Quotes and Exchange Rates
+-- ============================================
+-- Suppliers quote in ZAR, USD, EUR, etc. Until now quotes.cost was a bare
+-- number and every total assumed a single currency.
+--
+-- 1. quotes.currency      - ISO 4217 code the supplier quoted in
+-- 2. projects.base_currency - currency the project budget is expressed in
+-- 3. exchange_rates       - producer-maintained conversion table
+-- 4. convert_currency_amount() and a currency-aware project_budget_summary
+--
+-- Migration: 20250227000000_add_multi_currency_quotes.sql
+-- ============================================
+
+-- ============================================
+-- 1. CURRENCY COLUMNS
+-- ============================================
+
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD'
+  CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS base_currency text NOT NULL DEFAULT 'USD'
+  CHECK (base_currency ~ '^[A-Z]{3}$');
+
+COMMENT ON COLUMN public.quotes.currency IS 'ISO 4217 currency code of quotes.cost, as submitted by the supplier.';
+COMMENT ON COLUMN public.projects.base_currency IS 'ISO 4217 currency code of the project budget. Quote totals are converted into this currency.';
+
+-- ============================================
+-- 2. EXCHANGE RATES TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  producer_id uuid NOT NULL REFERENCES public.producers(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  from_currency text NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency text NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate numeric NOT NULL CHECK (rate > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT exchange_rates_distinct_currencies CHECK (from_currency <> to_currency),
+  CONSTRAINT exchange_rates_producer_pair_unique UNIQUE (producer_id, from_currency, to_currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_producer_id
+ON public.exchange_rates(producer_id);
+
+COMMENT ON TABLE public.exchange_rates IS 'Producer-maintained exchange rates. 1 unit of from_currency = rate units of to_currency.';
+COMMENT ON COLUMN public.exchange_rates.rate IS 'Multiplier from from_currency into to_currency. The inverse pair is derived when not stored.';
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON public.exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can manage their own exchange rates"
+  ON public.exchange_rates
+  FOR ALL
+  TO authenticated
+  USING (producer_id = auth.uid())
+  WITH CHECK (producer_id = auth.uid());
+
+-- ============================================
+-- 3. CONVERSION FUNCTION
+-- ============================================
+
+-- Converts an amount using the producer's rate table.
+-- Uses the direct pair when present, otherwise the inverse of the reverse pair.
+-- Returns NULL when no rate is available so callers can flag unconverted quotes.
+CREATE OR REPLACE FUNCTION public.convert_currency_amount(
+  p_amount numeric,
+  p_from_currency text,
+  p_to_currency text,
+  p_producer_id uuid
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_amount IS NULL THEN NULL
+    WHEN p_from_currency = p_to_currency THEN p_amount
+    ELSE COALESCE(
+      (
+        SELECT p_amount * r.rate
+        FROM public.exchange_rates r
+        WHERE r.producer_id = p_producer_id
+          AND r.from_currency = p_from_currency
+          AND r.to_currency = p_to_currency
+      ),
+      (
+        SELECT p_amount / r.rate
+        FROM public.exchange_rates r
+        WHERE r.producer_id = p_producer_id
+          AND r.from_currency = p_to_currency
+          AND r.to_currency = p_from_currency
+      )
+    )
+  END;
+$$;
+
+-- ============================================
+-- 4. CURRENCY-AWARE BUDGET SUMMARY VIEW
+-- ============================================
+
+DROP VIEW IF EXISTS project_budget_summary;
+
+CREATE VIEW project_budget_summary AS
+WITH accepted AS (
+  SELECT
+    a.project_id,
+    public.convert_currency_amount(q.cost, q.currency, p.base_currency, p.producer_id) AS converted_cost
+  FROM quotes q
+  JOIN assets a ON a.id = q.asset_id
+  JOIN projects p ON p.id = a.project_id
+  WHERE q.status = 'Accepted'
+)
+SELECT
+  p.id AS project_id,
+  p.project_name,
+  p.base_currency,
+  p.financial_parameters AS total_budget,
+  COALESCE(SUM(acc.converted_cost), 0) AS total_spent,
+  p.financial_parameters - COALESCE(SUM(acc.converted_cost), 0) AS budget_remaining,
+  CASE
+    WHEN p.financial_parameters > 0 THEN
+      ROUND((COALESCE(SUM(acc.converted_cost), 0) / p.financial_parameters * 100)::numeric, 2)
+    ELSE 0
+  END AS budget_used_percentage,
+  COUNT(acc.project_id) FILTER (WHERE acc.converted_cost IS NULL) AS unconverted_quote_count
+FROM projects p
+LEFT JOIN accepted acc ON acc.project_id = p.id
+GROUP BY p.id, p.project_name, p.base_currency, p.financial_parameters;
+
+COMMENT ON VIEW project_budget_summary IS 'Aggregated budget tracking data for all projects, with accepted quotes converted into the project base currency';
@@ -0,0 +1,162 @@
+-- ============================================
+-- Quote Versions and Revision Requests
+-- ============================================
+-- Resubmitting a quote (portal, supplier dashboard or backend) overwrote the
+-- quotes row, so the supplier's original offer was lost.
+--
+-- 1. quote_versions - immutable snapshot of every submission
+-- 2. Snapshot trigger on quotes (covers every submission path)
+-- 3. Resubmission completes open supplier_revise_quote action items
+-- 4. Backfill existing submitted quotes as version 1
+--
+-- Migration: 20250228000000_add_quote_versions.sql
+-- ============================================
+
+-- ============================================
+-- 1. CREATE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.quote_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id uuid NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  version_number integer NOT NULL CHECK (version_number >= 1),
+  cost numeric NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'USD',
+  cost_breakdown jsonb DEFAULT '{}',
+  valid_until date,
+  notes_capacity text DEFAULT '',
+  quote_document_url text,
+  submitted_at timestamptz DEFAULT now(),
+  CONSTRAINT quote_versions_quote_version_unique UNIQUE (quote_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_versions_quote_id
+ON public.quote_versions(quote_id, version_number);
+
+COMMENT ON TABLE public.quote_versions IS 'Immutable snapshot of each quote submission. Written by trigger; never updated.';
+COMMENT ON COLUMN public.quote_versions.version_number IS 'Submission sequence per quote, starting at 1.';
+
+-- ============================================
+-- 2. SNAPSHOT TRIGGER
+-- ============================================
+
+-- Records a new version whenever a quote is submitted, or when a submitted
+-- quote's offer changes. Producer-side status changes (Accepted/Rejected)
+-- do not create versions.
+-- SECURITY DEFINER so versions are written regardless of the caller's RLS.
+CREATE OR REPLACE FUNCTION public.record_quote_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'Submitted' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.status = 'Submitted'
+    AND OLD.cost IS NOT DISTINCT FROM NEW.cost
+    AND OLD.currency IS NOT DISTINCT FROM NEW.currency
+    AND OLD.cost_breakdown IS NOT DISTINCT FROM NEW.cost_breakdown
+    AND OLD.valid_until IS NOT DISTINCT FROM NEW.valid_until
+    AND OLD.notes_capacity IS NOT DISTINCT FROM NEW.notes_capacity
+    AND OLD.quote_document_url IS NOT DISTINCT FROM NEW.quote_document_url
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.quote_versions (
+    quote_id, version_number, cost, currency, cost_breakdown,
+    valid_until, notes_capacity, quote_document_url
+  )
+  SELECT
+    NEW.id,
+    COALESCE(MAX(v.version_number), 0) + 1,
+    COALESCE(NEW.cost, 0),
+    NEW.currency,
+    COALESCE(NEW.cost_breakdown, '{}'::jsonb),
+    NEW.valid_until,
+    COALESCE(NEW.notes_capacity, ''),
+    NEW.quote_document_url
+  FROM public.quote_versions v
+  WHERE v.quote_id = NEW.id;
+
+  -- A resubmission answers any outstanding revision request
+  UPDATE public.action_items
+  SET status = 'completed',
+      completed_at = now()
+  WHERE quote_id = NEW.id
+    AND action_type = 'supplier_revise_quote'
+    AND status IN ('pending', 'in_progress');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_quote_version
+  AFTER INSERT OR UPDATE ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_quote_version();
+
+-- Versions are append-only, including for the service role
+CREATE OR REPLACE FUNCTION public.prevent_quote_version_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'quote_versions rows are immutable';
+END;
+$$;
+
+CREATE TRIGGER prevent_quote_version_update
+  BEFORE UPDATE ON public.quote_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_quote_version_update();
+
+-- ============================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.quote_versions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for producers; rows are written by the trigger only
+CREATE POLICY "Producers can view quote versions for owned assets"
+  ON public.quote_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.quotes q
+      JOIN public.assets a ON a.id = q.asset_id
+      JOIN public.projects p ON p.id = a.project_id
+      WHERE q.id = quote_versions.quote_id
+        AND p.producer_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- 4. BACKFILL
+-- ============================================
+
+-- Existing submissions become version 1 so the history starts from today's offer
+INSERT INTO public.quote_versions (
+  quote_id, version_number, cost, currency, cost_breakdown,
+  valid_until, notes_capacity, quote_document_url, submitted_at
+)
+SELECT
+  q.id,
+  1,
+  COALESCE(q.cost, 0),
+  q.currency,
+  COALESCE(q.cost_breakdown, '{}'::jsonb),
+  q.valid_until,
+  COALESCE(q.notes_capacity, ''),
+  q.quote_document_url,
+  COALESCE(q.updated_at, q.created_at, now())
+FROM public.quotes q
+WHERE q.status IN ('Submitted', 'Accepted', 'Rejected')
+  AND q.cost > 0
+ON CONFLICT (quote_id, version_number) DO NOTHING;
@@ -0,0 +1,275 @@
+-- ============================================
+-- Quote Line Items
+-- ============================================
+-- quotes.cost_breakdown only held four fixed buckets (labor, materials,
+-- equipment, other), which can't represent a real AV or catering quote.
+--
+-- 1. quote_line_items - structured lines captured in the supplier portal
+-- 2. Backfill existing cost_breakdown buckets as line items
+-- 3. Drop quotes.cost_breakdown
+-- 4. Snapshot line items in quote_versions
+-- 5. submit_quote_with_line_items() - portal submission in one transaction
+--
+-- quotes.cost stays the stored total; on submission it is derived from the
+-- non-optional lines: SUM(quantity * unit_price * (1 + tax_rate / 100)).
+--
+-- Migration: 20250301000000_add_quote_line_items.sql
+-- ============================================
+
+-- ============================================
+-- 1. CREATE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.quote_line_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id uuid NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  description text NOT NULL CHECK (length(trim(description)) > 0),
+  quantity numeric NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit text NOT NULL DEFAULT 'each',
+  unit_price numeric NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  tax_rate numeric NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  is_optional boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_line_items_quote_id
+ON public.quote_line_items(quote_id, position);
+
+COMMENT ON TABLE public.quote_line_items IS 'Itemised lines of a supplier quote. Replaced as a set on each submission.';
+COMMENT ON COLUMN public.quote_line_items.tax_rate IS 'Tax percentage applied to quantity * unit_price (e.g. 15 for 15%).';
+COMMENT ON COLUMN public.quote_line_items.is_optional IS 'Optional extras are shown to the producer but excluded from the quote total.';
+
+ALTER TABLE public.quote_line_items ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for producers; suppliers write through the portal backend (service role)
+CREATE POLICY "Producers can view line items for owned assets"
+  ON public.quote_line_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.quotes q
+      JOIN public.assets a ON a.id = q.asset_id
+      JOIN public.projects p ON p.id = a.project_id
+      WHERE q.id = quote_line_items.quote_id
+        AND p.producer_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- 2. BACKFILL FROM cost_breakdown
+-- ============================================
+
+INSERT INTO public.quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT
+  q.id,
+  bucket.position,
+  bucket.label,
+  1,
+  'lot',
+  (q.cost_breakdown ->> bucket.key)::numeric
+FROM public.quotes q
+CROSS JOIN (
+  VALUES
+    (0, 'labor', 'Labor'),
+    (1, 'materials', 'Materials'),
+    (2, 'equipment', 'Equipment'),
+    (3, 'other', 'Other')
+) AS bucket(position, key, label)
+WHERE q.cost_breakdown IS NOT NULL
+  AND COALESCE((q.cost_breakdown ->> bucket.key)::numeric, 0) > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM public.quote_line_items li WHERE li.quote_id = q.id
+  );
+
+-- ============================================
+-- 3. SNAPSHOT LINE ITEMS IN VERSIONS
+-- ============================================
+
+ALTER TABLE public.quote_versions
+ADD COLUMN IF NOT EXISTS line_items jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.quote_versions.cost_breakdown IS 'Legacy four-bucket breakdown. Only set on versions recorded before line items existed.';
+COMMENT ON COLUMN public.quote_versions.line_items IS 'Line items as submitted in this version, ordered by position.';
+
+-- Current line items of a quote as a JSON array (same shape as the table rows)
+CREATE OR REPLACE FUNCTION public.get_quote_line_items_json(p_quote_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'description', li.description,
+        'quantity', li.quantity,
+        'unit', li.unit,
+        'unit_price', li.unit_price,
+        'tax_rate', li.tax_rate,
+        'is_optional', li.is_optional
+      )
+      ORDER BY li.position
+    ),
+    '[]'::jsonb
+  )
+  FROM public.quote_line_items li
+  WHERE li.quote_id = p_quote_id;
+$$;
+
+-- Same rules as before, minus cost_breakdown and plus line items.
+-- Line items are written before the quote row, so they are in place when this fires.
+CREATE OR REPLACE FUNCTION public.record_quote_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line_items jsonb;
+  v_latest_line_items jsonb;
+BEGIN
+  IF NEW.status <> 'Submitted' THEN
+    RETURN NEW;
+  END IF;
+
+  v_line_items := public.get_quote_line_items_json(NEW.id);
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.status = 'Submitted'
+    AND OLD.cost IS NOT DISTINCT FROM NEW.cost
+    AND OLD.currency IS NOT DISTINCT FROM NEW.currency
+    AND OLD.valid_until IS NOT DISTINCT FROM NEW.valid_until
+    AND OLD.notes_capacity IS NOT DISTINCT FROM NEW.notes_capacity
+    AND OLD.quote_document_url IS NOT DISTINCT FROM NEW.quote_document_url
+  THEN
+    SELECT v.line_items INTO v_latest_line_items
+    FROM public.quote_versions v
+    WHERE v.quote_id = NEW.id
+    ORDER BY v.version_number DESC
+    LIMIT 1;
+
+    IF v_latest_line_items IS NOT DISTINCT FROM v_line_items THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.quote_versions (
+    quote_id, version_number, cost, currency, cost_breakdown, line_items,
+    valid_until, notes_capacity, quote_document_url
+  )
+  SELECT
+    NEW.id,
+    COALESCE(MAX(v.version_number), 0) + 1,
+    COALESCE(NEW.cost, 0),
+    NEW.currency,
+    NULL,
+    v_line_items,
+    NEW.valid_until,
+    COALESCE(NEW.notes_capacity, ''),
+    NEW.quote_document_url
+  FROM public.quote_versions v
+  WHERE v.quote_id = NEW.id;
+
+  -- A resubmission answers any outstanding revision request
+  UPDATE public.action_items
+  SET status = 'completed',
+      completed_at = now()
+  WHERE quote_id = NEW.id
+    AND action_type = 'supplier_revise_quote'
+    AND status IN ('pending', 'in_progress');
+
+  RETURN NEW;
+END;
+$$;
+
+-- Existing versions get the backfilled lines so diffs against the next submission work
+ALTER TABLE public.quote_versions DISABLE TRIGGER prevent_quote_version_update;
+
+UPDATE public.quote_versions v
+SET line_items = public.get_quote_line_items_json(v.quote_id)
+WHERE v.line_items = '[]'::jsonb
+  AND v.version_number = (
+    SELECT MAX(v2.version_number) FROM public.quote_versions v2 WHERE v2.quote_id = v.quote_id
+  );
+
+ALTER TABLE public.quote_versions ENABLE TRIGGER prevent_quote_version_update;
+
+-- ============================================
+-- 4. DROP LEGACY COLUMN
+-- ============================================
+
+ALTER TABLE public.quotes DROP COLUMN IF EXISTS cost_breakdown;
+
+-- ============================================
+-- 5. ATOMIC PORTAL SUBMISSION
+-- ============================================
+-- Replaces the line items and submits the quote in one transaction, so a
+-- failed write can't leave the old offer with new (or no) line items.
+-- Lines go in first so the version snapshot trigger sees them.
+-- Called by the portal backend with already validated lines and cost.
+
+CREATE OR REPLACE FUNCTION public.submit_quote_with_line_items(
+  p_quote_id uuid,
+  p_cost numeric,
+  p_currency text,
+  p_notes text,
+  p_document_url text,
+  p_line_items jsonb DEFAULT '[]'::jsonb
+)
+RETURNS public.quotes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes;
+BEGIN
+  DELETE FROM public.quote_line_items WHERE quote_id = p_quote_id;
+
+  INSERT INTO public.quote_line_items (
+    quote_id, position, description, quantity, unit, unit_price, tax_rate, is_optional
+  )
+  SELECT
+    p_quote_id,
+    item.position,
+    item.description,
+    item.quantity,
+    COALESCE(item.unit, 'each'),
+    item.unit_price,
+    COALESCE(item.tax_rate, 0),
+    COALESCE(item.is_optional, false)
+  FROM jsonb_to_recordset(COALESCE(p_line_items, '[]'::jsonb)) AS item(
+    position integer,
+    description text,
+    quantity numeric,
+    unit text,
+    unit_price numeric,
+    tax_rate numeric,
+    is_optional boolean
+  );
+
+  UPDATE public.quotes
+  SET
+    cost = p_cost,
+    currency = p_currency,
+    notes_capacity = COALESCE(p_notes, ''),
+    quote_document_url = COALESCE(p_document_url, quote_document_url),
+    status = 'Submitted',
+    updated_at = now()
+  WHERE id = p_quote_id
+  RETURNING * INTO v_quote;
+
+  IF v_quote.id IS NULL THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  RETURN v_quote;
+END;
+$$;
+
+COMMENT ON FUNCTION public.submit_quote_with_line_items(uuid, numeric, text, text, text, jsonb) IS 'Replaces a quote''s line items and marks it Submitted atomically. Backend (service role) only.';
+
+REVOKE EXECUTE ON FUNCTION public.submit_quote_with_line_items(uuid, numeric, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_quote_with_line_items(uuid, numeric, text, text, text, jsonb) TO service_role;
@@ -0,0 +1,236 @@
+-- ============================================
+-- Client Approvals
+-- ============================================
+-- Producers send quotes (before accepting them) or assets (for sign-off) to
+-- the client, who approves or rejects them with a comment from the client
+-- dashboard.
+--
+-- 1. projects.requires_client_approval - quotes need an approval before acceptance
+-- 2. client_approvals - one request per quote or asset, with the client's decision
+-- 3. client_approval_history - append-only audit trail, written by trigger.
+--    The client dashboard runs in the producer's session, so decisions are
+--    recorded as the producer acting for the client (producer_for_client)
+--    with the name the client gave, never as the client themselves.
+-- 4. client_approval action items are opened on request and closed on decision
+--
+-- Acceptance is gated in the quote services: a pending or rejected approval
+-- always blocks acceptance, and on projects that require client approval a
+-- quote must have been approved.
+--
+-- Migration: 20250302000000_add_client_approvals.sql
+-- ============================================
+
+-- ============================================
+-- 1. PROJECT SETTING
+-- ============================================
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS requires_client_approval boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.projects.requires_client_approval IS 'When true, a quote can only be accepted after the client approved it.';
+
+-- ============================================
+-- 2. CREATE ENUM AND TABLES
+-- ============================================
+
+CREATE TYPE client_approval_status_enum AS ENUM (
+  'pending',
+  'approved',
+  'rejected',
+  'withdrawn'
+);
+
+CREATE TABLE IF NOT EXISTS public.client_approvals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  asset_id uuid NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  quote_id uuid REFERENCES public.quotes(id) ON DELETE CASCADE,
+  status client_approval_status_enum NOT NULL DEFAULT 'pending',
+  request_message text NOT NULL DEFAULT '',
+  requested_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  decision_comment text,
+  decided_by_name text,
+  decided_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.client_approval_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  approval_id uuid NOT NULL,
+  project_id uuid NOT NULL,
+  event text NOT NULL CHECK (event IN ('requested', 'approved', 'rejected', 'withdrawn')),
+  actor_type text NOT NULL CHECK (actor_type IN ('producer', 'producer_for_client')),
+  actor_name text,
+  comment text,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_approvals_project_id
+ON public.client_approvals(project_id, requested_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_client_approvals_quote_id
+ON public.client_approvals(quote_id, requested_at DESC);
+
+-- Only one open request per quote (or per asset sign-off)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_client_approvals_one_pending
+ON public.client_approvals(asset_id, COALESCE(quote_id, '00000000-0000-0000-0000-000000000000'::uuid))
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_client_approval_history_project_id
+ON public.client_approval_history(project_id, changed_at);
+
+COMMENT ON TABLE public.client_approvals IS 'Quotes and assets sent to the client for approval. quote_id is NULL for asset sign-off.';
+COMMENT ON COLUMN public.client_approvals.decided_by_name IS 'Name the client gave when deciding.';
+COMMENT ON TABLE public.client_approval_history IS 'Append-only audit log of client approval requests and decisions. Written by trigger.';
+COMMENT ON COLUMN public.client_approval_history.actor_type IS 'producer, or producer_for_client when the producer''s session recorded the client''s decision.';
+COMMENT ON COLUMN public.client_approval_history.actor_name IS 'Name the client gave for a decision; changed_by is the signed-in producer who recorded it.';
+COMMENT ON COLUMN public.client_approval_history.approval_id IS 'ID of the approval. Not a foreign key so the audit trail survives deletion.';
+
+-- ============================================
+-- 3. TRIGGERS
+-- ============================================
+
+CREATE TRIGGER update_client_approvals_updated_at
+  BEFORE UPDATE ON public.client_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Decisions are final: only a pending request can be approved, rejected or withdrawn
+CREATE OR REPLACE FUNCTION public.enforce_client_approval_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status <> 'pending' THEN
+      RAISE EXCEPTION 'Client approval has already been %', OLD.status;
+    END IF;
+    NEW.decided_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_client_approval_transition
+  BEFORE UPDATE ON public.client_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_client_approval_transition();
+
+-- Writes the audit trail and keeps the client_approval action items in step.
+-- SECURITY DEFINER so history and action items are written regardless of the caller's RLS.
+CREATE OR REPLACE FUNCTION public.log_client_approval_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_asset_name text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.client_approval_history (approval_id, project_id, event, actor_type, comment, changed_by)
+    VALUES (NEW.id, NEW.project_id, 'requested', 'producer', NULLIF(NEW.request_message, ''), auth.uid());
+
+    SELECT asset_name INTO v_asset_name FROM public.assets WHERE id = NEW.asset_id;
+
+    INSERT INTO public.action_items (
+      project_id, asset_id, quote_id, action_type, action_description, assigned_to, priority
+    )
+    VALUES (
+      NEW.project_id,
+      NEW.asset_id,
+      NEW.quote_id,
+      'client_approval',
+      CASE
+        WHEN NEW.quote_id IS NULL THEN 'Sign off asset: ' || COALESCE(v_asset_name, 'asset')
+        ELSE 'Approve quote for ' || COALESCE(v_asset_name, 'asset')
+      END,
+      'client',
+      2
+    );
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.client_approval_history (approval_id, project_id, event, actor_type, actor_name, comment, changed_by)
+    VALUES (
+      NEW.id,
+      NEW.project_id,
+      NEW.status::text,
+      CASE WHEN NEW.status = 'withdrawn' THEN 'producer' ELSE 'producer_for_client' END,
+      NEW.decided_by_name,
+      NEW.decision_comment,
+      auth.uid()
+    );
+
+    UPDATE public.action_items
+    SET status = CASE WHEN NEW.status = 'withdrawn' THEN 'cancelled' ELSE 'completed' END,
+        completed_at = now()
+    WHERE action_type = 'client_approval'
+      AND asset_id = NEW.asset_id
+      AND quote_id IS NOT DISTINCT FROM NEW.quote_id
+      AND status IN ('pending', 'in_progress');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_client_approval_change
+  AFTER INSERT OR UPDATE ON public.client_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_client_approval_change();
+
+-- ============================================
+-- 4. ENABLE ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.client_approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.client_approval_history ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 5. CREATE RLS POLICIES
+-- ============================================
+
+-- Approvals are managed within the owning producer's session (the client
+-- dashboard runs in the same session, like the rest of its project data)
+CREATE POLICY "Producers can manage client approvals for owned projects"
+  ON public.client_approvals
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.projects p
+      WHERE p.id = client_approvals.project_id
+        AND p.producer_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.projects p
+      WHERE p.id = client_approvals.project_id
+        AND p.producer_id = auth.uid()
+    )
+  );
+
+-- History is read-only; rows are written by the trigger only
+CREATE POLICY "Producers can view client approval history for owned projects"
+  ON public.client_approval_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.projects p
+      WHERE p.id = client_approval_history.project_id
+        AND p.producer_id = auth.uid()
+    )
+  );
@@ -0,0 +1,114 @@
+-- ============================================
+-- Budget Allocations
+-- ============================================
+-- Producers split the project budget into planned amounts per asset and
+-- per tag category. Amounts are in the project base currency.
+--
+-- 1. budget_allocations - one row per asset or per tag, never both
+-- 2. project_budget_summary exposes the total allocated to assets
+--
+-- Variance (planned vs quoted vs accepted) is calculated in the app.
+--
+-- Migration: 20250303000000_add_budget_allocations.sql
+-- ============================================
+
+-- ============================================
+-- 1. CREATE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.budget_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  asset_id uuid REFERENCES public.assets(id) ON DELETE CASCADE,
+  tag text,
+  amount numeric(12,2) NOT NULL CHECK (amount >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT budget_allocations_target_check CHECK ((asset_id IS NULL) <> (tag IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budget_allocations_asset
+ON public.budget_allocations(project_id, asset_id)
+WHERE asset_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budget_allocations_tag
+ON public.budget_allocations(project_id, tag)
+WHERE tag IS NOT NULL;
+
+COMMENT ON TABLE public.budget_allocations IS 'Planned spend per asset or per tag category, in the project base currency.';
+COMMENT ON COLUMN public.budget_allocations.tag IS 'Asset tag name. Set for category allocations, NULL for asset allocations.';
+
+CREATE TRIGGER update_budget_allocations_updated_at
+  BEFORE UPDATE ON public.budget_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. ENABLE ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.budget_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can manage budget allocations for owned projects"
+  ON public.budget_allocations
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.projects p
+      WHERE p.id = budget_allocations.project_id
+        AND p.producer_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.projects p
+      WHERE p.id = budget_allocations.project_id
+        AND p.producer_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- 3. BUDGET SUMMARY VIEW
+-- ============================================
+
+DROP VIEW IF EXISTS project_budget_summary;
+
+CREATE VIEW project_budget_summary AS
+WITH accepted AS (
+  SELECT
+    a.project_id,
+    public.convert_currency_amount(q.cost, q.currency, p.base_currency, p.producer_id) AS converted_cost
+  FROM quotes q
+  JOIN assets a ON a.id = q.asset_id
+  JOIN projects p ON p.id = a.project_id
+  WHERE q.status = 'Accepted'
+),
+allocated AS (
+  SELECT project_id, SUM(amount) AS total_allocated
+  FROM public.budget_allocations
+  WHERE asset_id IS NOT NULL
+  GROUP BY project_id
+)
+SELECT
+  p.id AS project_id,
+  p.project_name,
+  p.base_currency,
+  p.financial_parameters AS total_budget,
+  COALESCE(SUM(acc.converted_cost), 0) AS total_spent,
+  p.financial_parameters - COALESCE(SUM(acc.converted_cost), 0) AS budget_remaining,
+  CASE
+    WHEN p.financial_parameters > 0 THEN
+      ROUND((COALESCE(SUM(acc.converted_cost), 0) / p.financial_parameters * 100)::numeric, 2)
+    ELSE 0
+  END AS budget_used_percentage,
+  COUNT(acc.project_id) FILTER (WHERE acc.converted_cost IS NULL) AS unconverted_quote_count,
+  COALESCE(al.total_allocated, 0) AS total_allocated
+FROM projects p
+LEFT JOIN accepted acc ON acc.project_id = p.id
+LEFT JOIN allocated al ON al.project_id = p.id
+GROUP BY p.id, p.project_name, p.base_currency, p.financial_parameters, al.total_allocated;
+
+COMMENT ON VIEW project_budget_summary IS 'Aggregated budget tracking data for all projects, with accepted quotes converted into the project base currency and the total allocated to assets';
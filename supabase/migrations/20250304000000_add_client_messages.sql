@@ -0,0 +1,101 @@
+-- ============================================
+-- Client Messages
+-- ============================================
+-- Producers send messages to the client about a project, optionally with a
+-- document attached (e.g. the generated PDF cost estimate). The client reads
+-- them on the client dashboard.
+--
+-- 1. client_messages - one row per message, with optional attachment metadata
+-- 2. Storage policies for the client-messages folder of quote-attachments
+--
+-- Migration: 20250304000000_add_client_messages.sql
+-- ============================================
+
+-- ============================================
+-- 1. CREATE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.client_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  body text NOT NULL DEFAULT '',
+  attachment_filename text,
+  attachment_storage_path text,
+  attachment_content_type text,
+  attachment_size_bytes bigint,
+  sent_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT client_messages_content_check CHECK (body <> '' OR attachment_storage_path IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_messages_project_id
+ON public.client_messages(project_id, created_at DESC);
+
+COMMENT ON TABLE public.client_messages IS 'Messages from the producer to the client about a project.';
+COMMENT ON COLUMN public.client_messages.attachment_storage_path IS 'Path in the quote-attachments bucket (client-messages/{projectId}/{timestamp}-{filename}).';
+
+-- ============================================
+-- 2. ENABLE ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.client_messages ENABLE ROW LEVEL SECURITY;
+
+-- Like client approvals, the client dashboard runs in the producer's session
+CREATE POLICY "Producers can manage client messages for owned projects"
+  ON public.client_messages
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.projects p
+      WHERE p.id = client_messages.project_id
+        AND p.producer_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.projects p
+      WHERE p.id = client_messages.project_id
+        AND p.producer_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- 3. STORAGE POLICIES FOR CLIENT MESSAGE ATTACHMENTS
+-- ============================================
+
+DROP POLICY IF EXISTS "Allow producers to upload client message attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Allow producers to read client message attachments" ON storage.objects;
+
+-- The second folder segment is the project ID
+CREATE POLICY "Allow producers to upload client message attachments"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'quote-attachments' AND
+  (storage.foldername(name))[1] = 'client-messages' AND
+  EXISTS (
+    SELECT 1
+    FROM public.projects p
+    WHERE p.id::text = (storage.foldername(name))[2]
+      AND p.producer_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Allow producers to read client message attachments"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'quote-attachments' AND
+  (storage.foldername(name))[1] = 'client-messages' AND
+  EXISTS (
+    SELECT 1
+    FROM public.projects p
+    WHERE p.id::text = (storage.foldername(name))[2]
+      AND p.producer_id = auth.uid()
+  )
+);
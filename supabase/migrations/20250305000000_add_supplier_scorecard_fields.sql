@@ -0,0 +1,81 @@
+-- ============================================
+-- Supplier Scorecard Fields
+-- ============================================
+-- Records the two timestamps supplier scorecards need that the app did not
+-- keep until now:
+--
+-- 1. assets.delivered_at - when the asset last moved to Delivered, so
+--    deliveries can be compared with the planned delivery date
+-- 2. quotes.response_time_hours - filled in when a supplier first submits a
+--    pending quote (previously only set by seed data)
+--
+-- Scores themselves are calculated in the app from quote history.
+--
+-- Migration: 20250305000000_add_supplier_scorecard_fields.sql
+-- ============================================
+
+-- ============================================
+-- 1. ASSET DELIVERY TIMESTAMP
+-- ============================================
+
+ALTER TABLE public.assets
+ADD COLUMN IF NOT EXISTS delivered_at timestamptz;
+
+COMMENT ON COLUMN public.assets.delivered_at IS 'When the asset status last changed to Delivered. NULL while not delivered.';
+
+-- Best available value for assets delivered before this migration
+UPDATE public.assets
+SET delivered_at = updated_at
+WHERE status = 'Delivered'
+  AND delivered_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_asset_delivered_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'Delivered' AND OLD.status IS DISTINCT FROM 'Delivered' THEN
+    NEW.delivered_at := now();
+  ELSIF NEW.status <> 'Delivered' THEN
+    NEW.delivered_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_asset_delivered_at ON public.assets;
+CREATE TRIGGER set_asset_delivered_at
+  BEFORE UPDATE OF status ON public.assets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_asset_delivered_at();
+
+-- ============================================
+-- 2. QUOTE RESPONSE TIME
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.set_quote_response_time()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'Pending'
+     AND NEW.status = 'Submitted'
+     AND NEW.response_time_hours IS NULL THEN
+    NEW.response_time_hours := GREATEST(
+      0,
+      CEIL(EXTRACT(EPOCH FROM (now() - OLD.created_at)) / 3600)
+    )::integer;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_quote_response_time ON public.quotes;
+CREATE TRIGGER set_quote_response_time
+  BEFORE UPDATE OF status ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_quote_response_time();
@@ -0,0 +1,54 @@
+-- ============================================
+-- RFQ Email Templates
+-- ============================================
+-- Producers keep a library of quote request emails with merge fields
+-- such as {{supplier.contact_name}} and {{asset.name}}, rendered per
+-- supplier in the request flow.
+--
+-- 1. rfq_email_templates - one row per template, owned by a producer
+-- 2. default_for_tags picks the template for assets carrying those tags
+--
+-- Merge fields are rendered in the app; the database stores raw text.
+--
+-- Migration: 20250306000000_add_rfq_email_templates.sql
+-- ============================================
+
+-- ============================================
+-- 1. CREATE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.rfq_email_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  producer_id uuid NOT NULL REFERENCES public.producers(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  subject text NOT NULL DEFAULT '',
+  body text NOT NULL DEFAULT '',
+  default_for_tags text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT rfq_email_templates_producer_name_unique UNIQUE (producer_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfq_email_templates_producer_id
+ON public.rfq_email_templates(producer_id);
+
+COMMENT ON TABLE public.rfq_email_templates IS 'Reusable quote request emails. Subject and body may contain {{merge.fields}}.';
+COMMENT ON COLUMN public.rfq_email_templates.default_for_tags IS 'Asset tags this template is the default for. The template matching the most tags wins.';
+
+CREATE TRIGGER update_rfq_email_templates_updated_at
+  BEFORE UPDATE ON public.rfq_email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. ENABLE ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.rfq_email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can manage their own RFQ email templates"
+  ON public.rfq_email_templates
+  FOR ALL
+  TO authenticated
+  USING (producer_id = auth.uid())
+  WITH CHECK (producer_id = auth.uid());
@@ -0,0 +1,111 @@
+-- ============================================
+-- Quote Follow-up Reminders
+-- ============================================
+-- Producers configure follow-up rules (e.g. remind after 48h, final nudge
+-- after 96h). The backend scheduler emails suppliers whose quotes are still
+-- Pending once a rule is due, and stops as soon as the supplier replies in
+-- chat or submits.
+--
+-- 1. quote_follow_up_rules - per-producer reminder steps
+-- 2. quote_follow_ups      - log of reminders sent, one per quote and step
+-- 3. quotes.last_chased_at - when the supplier was last reminded
+-- 4. messages.sender_type  - allows SYSTEM messages in the quote chat
+--
+-- Migration: 20250307000000_add_quote_follow_ups.sql
+-- ============================================
+
+-- ============================================
+-- 1. FOLLOW-UP RULES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.quote_follow_up_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  producer_id uuid NOT NULL REFERENCES public.producers(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  delay_hours integer NOT NULL CHECK (delay_hours > 0),
+  message text NOT NULL CHECK (length(trim(message)) > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT quote_follow_up_rules_producer_delay_unique UNIQUE (producer_id, delay_hours)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_follow_up_rules_producer_id
+ON public.quote_follow_up_rules(producer_id);
+
+COMMENT ON TABLE public.quote_follow_up_rules IS 'Reminder steps for unanswered quote requests. A step is due delay_hours after the request was sent.';
+COMMENT ON COLUMN public.quote_follow_up_rules.message IS 'Text of the reminder email. The quote portal link is appended when sending.';
+
+CREATE TRIGGER update_quote_follow_up_rules_updated_at
+  BEFORE UPDATE ON public.quote_follow_up_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.quote_follow_up_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can manage their own follow-up rules"
+  ON public.quote_follow_up_rules
+  FOR ALL
+  TO authenticated
+  USING (producer_id = auth.uid())
+  WITH CHECK (producer_id = auth.uid());
+
+-- ============================================
+-- 2. FOLLOW-UP LOG
+-- ============================================
+
+-- Written by the backend (service role). delay_hours is copied from the rule
+-- so editing or deleting a rule never re-sends a step that already went out.
+CREATE TABLE IF NOT EXISTS public.quote_follow_ups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id uuid NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  rule_id uuid REFERENCES public.quote_follow_up_rules(id) ON DELETE SET NULL,
+  delay_hours integer NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+  error text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT quote_follow_ups_quote_delay_unique UNIQUE (quote_id, delay_hours)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_follow_ups_quote_id
+ON public.quote_follow_ups(quote_id);
+
+COMMENT ON TABLE public.quote_follow_ups IS 'One row per quote and follow-up step. skipped = an earlier step that was overtaken by a later one.';
+
+ALTER TABLE public.quote_follow_ups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can view follow-ups for owned projects"
+  ON public.quote_follow_ups
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.quotes q
+      JOIN public.assets a ON a.id = q.asset_id
+      JOIN public.projects p ON p.id = a.project_id
+      WHERE q.id = quote_follow_ups.quote_id
+        AND p.producer_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- 3. LAST CHASED TIMESTAMP
+-- ============================================
+
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS last_chased_at timestamptz;
+
+COMMENT ON COLUMN public.quotes.last_chased_at IS 'When the supplier was last sent a follow-up reminder. NULL if never chased.';
+
+-- ============================================
+-- 4. SYSTEM MESSAGES
+-- ============================================
+
+ALTER TABLE public.messages
+DROP CONSTRAINT IF EXISTS messages_sender_type_check;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_sender_type_check
+CHECK (sender_type IN ('PRODUCER', 'SUPPLIER', 'SYSTEM'));
+
+COMMENT ON COLUMN public.messages.sender_type IS 'Type of sender: PRODUCER, SUPPLIER, or SYSTEM for automated notes such as follow-up reminders';
@@ -0,0 +1,61 @@
+-- ============================================
+-- Quote Response Deadlines
+-- ============================================
+-- Producers set a response deadline when sending quote requests. Suppliers
+-- can't submit after the deadline unless the producer extends it for them.
+-- Once every outstanding request is past its deadline the backend closes the
+-- quoting round: the asset moves from Quoting to Reviewing and the producer
+-- gets a producer_review_quote action item.
+--
+-- 1. quotes.response_deadline       - deadline shared by the whole round
+-- 2. quotes.deadline_extended_until - per-supplier extension
+--    quotes.revision_requested_at   - revisions aren't held to the deadline
+-- 3. assets.quoting_closed_at       - when the round was closed
+-- 4. asset_status_enum              - adds Reviewing
+--
+-- Migration: 20250308000000_add_quote_response_deadlines.sql
+-- ============================================
+
+-- ============================================
+-- 1. RESPONSE DEADLINE
+-- ============================================
+
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS response_deadline timestamptz;
+
+COMMENT ON COLUMN public.quotes.response_deadline IS 'When the supplier must respond by. Same value for every request sent in one round. NULL = no deadline.';
+
+-- ============================================
+-- 2. PER-SUPPLIER EXTENSION
+-- ============================================
+
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS deadline_extended_until timestamptz;
+
+COMMENT ON COLUMN public.quotes.deadline_extended_until IS 'Extension granted to this supplier. Replaces response_deadline when set.';
+
+-- The producer asked for the revision, so a Pending quote reopened this way
+-- can be resubmitted after the round deadline
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS revision_requested_at timestamptz;
+
+COMMENT ON COLUMN public.quotes.revision_requested_at IS 'When the producer last reopened this quote for revision. A Pending quote with this set is not held to its deadline.';
+
+CREATE INDEX IF NOT EXISTS idx_quotes_pending_deadline
+ON public.quotes(asset_id)
+WHERE status = 'Pending' AND response_deadline IS NOT NULL;
+
+-- ============================================
+-- 3. ROUND CLOSED TIMESTAMP
+-- ============================================
+
+ALTER TABLE public.assets
+ADD COLUMN IF NOT EXISTS quoting_closed_at timestamptz;
+
+COMMENT ON COLUMN public.assets.quoting_closed_at IS 'When the latest quoting round was closed and the asset moved to Reviewing. NULL while quoting is open.';
+
+-- ============================================
+-- 4. REVIEWING STATUS
+-- ============================================
+
+ALTER TYPE asset_status_enum ADD VALUE IF NOT EXISTS 'Reviewing' AFTER 'Quoting';
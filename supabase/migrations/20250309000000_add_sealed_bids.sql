@@ -0,0 +1,154 @@
+-- ============================================
+-- Sealed Bids
+-- ============================================
+-- Producers can seal an asset's bids so no submitted cost is visible until a
+-- bid-opening time passes or the producer explicitly unseals. Unsealing is
+-- stamped with who did it and when, and every change to the seal is written
+-- to an append-only history so the producer can show the client the process
+-- was fair.
+--
+-- 1. assets.sealed_bids / bids_open_at / bids_unsealed_at / bids_unsealed_by
+-- 2. enforce_bid_seal - stamps the unsealer and stops bids being opened early
+--    by any other route (turning the seal off, moving the opening time earlier)
+-- 3. asset_bid_seal_history - append-only audit trail, written by trigger
+--
+-- Migration: 20250309000000_add_sealed_bids.sql
+-- ============================================
+
+-- ============================================
+-- 1. SEAL COLUMNS
+-- ============================================
+
+ALTER TABLE public.assets
+ADD COLUMN IF NOT EXISTS sealed_bids boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS bids_open_at timestamptz,
+ADD COLUMN IF NOT EXISTS bids_unsealed_at timestamptz,
+ADD COLUMN IF NOT EXISTS bids_unsealed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.assets.sealed_bids IS 'Hide submitted costs until bids_open_at passes or the producer unseals.';
+COMMENT ON COLUMN public.assets.bids_open_at IS 'Scheduled bid opening. NULL = bids stay sealed until unsealed by hand.';
+COMMENT ON COLUMN public.assets.bids_unsealed_at IS 'When the producer unsealed the bids early. Set by trigger; NULL if never unsealed.';
+COMMENT ON COLUMN public.assets.bids_unsealed_by IS 'Who unsealed the bids. Set by trigger from auth.uid().';
+
+-- ============================================
+-- 2. SEAL ENFORCEMENT
+-- ============================================
+
+-- While bids are sealed they can only be opened by setting bids_unsealed_at,
+-- which is always stamped with now() and the caller. Re-sealing starts a new seal.
+CREATE OR REPLACE FUNCTION public.enforce_bid_seal()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  was_sealed boolean := OLD.sealed_bids
+    AND OLD.bids_unsealed_at IS NULL
+    AND (OLD.bids_open_at IS NULL OR OLD.bids_open_at > now());
+BEGIN
+  IF NEW.sealed_bids AND NOT OLD.sealed_bids THEN
+    NEW.bids_unsealed_at := NULL;
+    NEW.bids_unsealed_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF was_sealed THEN
+    IF NOT NEW.sealed_bids THEN
+      RAISE EXCEPTION 'Bids are sealed. Unseal them instead of turning sealed bids off';
+    END IF;
+    IF NEW.bids_open_at IS NOT NULL AND (OLD.bids_open_at IS NULL OR NEW.bids_open_at < OLD.bids_open_at) THEN
+      RAISE EXCEPTION 'The bid opening time can only be moved later while bids are sealed';
+    END IF;
+  END IF;
+
+  IF NEW.bids_unsealed_at IS DISTINCT FROM OLD.bids_unsealed_at
+    OR NEW.bids_unsealed_by IS DISTINCT FROM OLD.bids_unsealed_by THEN
+    IF NOT was_sealed OR NEW.bids_unsealed_at IS NULL THEN
+      RAISE EXCEPTION 'Only sealed bids can be unsealed, and unsealing cannot be undone';
+    END IF;
+    NEW.bids_unsealed_at := now();
+    NEW.bids_unsealed_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_bid_seal
+  BEFORE UPDATE OF sealed_bids, bids_open_at, bids_unsealed_at, bids_unsealed_by ON public.assets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_bid_seal();
+
+-- ============================================
+-- 3. SEAL HISTORY
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.asset_bid_seal_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  asset_id uuid NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  action text NOT NULL CHECK (action IN ('sealed', 'rescheduled', 'unsealed', 'seal_removed')),
+  bids_open_at timestamptz,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_bid_seal_history_asset_id
+ON public.asset_bid_seal_history(asset_id, changed_at);
+
+COMMENT ON TABLE public.asset_bid_seal_history IS 'Append-only audit log of sealed-bid changes on an asset. Written by trigger.';
+COMMENT ON COLUMN public.asset_bid_seal_history.bids_open_at IS 'Scheduled opening time after the change.';
+
+-- SECURITY DEFINER so history rows are written regardless of the caller's RLS.
+CREATE OR REPLACE FUNCTION public.log_bid_seal_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  seal_action text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT NEW.sealed_bids THEN
+      RETURN NEW;
+    END IF;
+    seal_action := 'sealed';
+  ELSIF NEW.sealed_bids AND NOT OLD.sealed_bids THEN
+    seal_action := 'sealed';
+  ELSIF OLD.sealed_bids AND NOT NEW.sealed_bids THEN
+    seal_action := 'seal_removed';
+  ELSIF NEW.bids_unsealed_at IS NOT NULL AND OLD.bids_unsealed_at IS NULL THEN
+    seal_action := 'unsealed';
+  ELSIF NEW.sealed_bids AND NEW.bids_open_at IS DISTINCT FROM OLD.bids_open_at THEN
+    seal_action := 'rescheduled';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.asset_bid_seal_history (asset_id, action, bids_open_at, changed_by)
+  VALUES (NEW.id, seal_action, NEW.bids_open_at, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_bid_seal_change
+  AFTER INSERT OR UPDATE OF sealed_bids, bids_open_at, bids_unsealed_at ON public.assets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_bid_seal_change();
+
+ALTER TABLE public.asset_bid_seal_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can view bid seal history for owned projects"
+  ON public.asset_bid_seal_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.assets a
+      JOIN public.projects p ON p.id = a.project_id
+      WHERE a.id = asset_bid_seal_history.asset_id
+        AND p.producer_id = auth.uid()
+    )
+  );
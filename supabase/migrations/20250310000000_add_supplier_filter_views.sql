@@ -0,0 +1,50 @@
+-- ============================================
+-- Supplier Filter Views
+-- ============================================
+-- Producers save named supplier filters (e.g. "Cape Town AV crews") and
+-- reapply them on the suppliers page or when choosing who receives an RFQ.
+--
+-- 1. supplier_filter_views - one row per view, owned by a producer
+-- 2. criteria holds search, categories, roles, contact, added-date and
+--    region filters in the same shape as the share-link query parameters
+--
+-- Migration: 20250310000000_add_supplier_filter_views.sql
+-- ============================================
+
+-- ============================================
+-- 1. CREATE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.supplier_filter_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  producer_id uuid NOT NULL REFERENCES public.producers(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  criteria jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(criteria) = 'object'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT supplier_filter_views_producer_name_unique UNIQUE (producer_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_filter_views_producer_id
+ON public.supplier_filter_views(producer_id);
+
+COMMENT ON TABLE public.supplier_filter_views IS 'Named supplier filters saved by a producer.';
+COMMENT ON COLUMN public.supplier_filter_views.criteria IS 'searchTerm, categories, roles, hasContactPersons, addedFrom, addedTo (YYYY-MM-DD) and city.';
+
+CREATE TRIGGER update_supplier_filter_views_updated_at
+  BEFORE UPDATE ON public.supplier_filter_views
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. ENABLE ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.supplier_filter_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can manage their own supplier filter views"
+  ON public.supplier_filter_views
+  FOR ALL
+  TO authenticated
+  USING (producer_id = auth.uid())
+  WITH CHECK (producer_id = auth.uid());
@@ -0,0 +1,44 @@
+-- ============================================
+-- Geographic Supplier Matching
+-- ============================================
+-- Captures where a project takes place and how far a supplier will travel,
+-- so suppliers can be filtered and ranked by whether they cover the venue:
+--
+-- 1. projects.venue_city / venue_region / venue_country - structured venue
+--    location (physical_parameters stays free text)
+-- 2. suppliers.travel_radius_km - willing-to-travel distance from the
+--    supplier's address, on top of the cities they list in cities_served
+--
+-- Matching itself runs in the app against a bundled city/region gazetteer.
+--
+-- Migration: 20250311000000_add_geographic_supplier_matching.sql
+-- ============================================
+
+-- ============================================
+-- 1. PROJECT VENUE
+-- ============================================
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS venue_city text,
+ADD COLUMN IF NOT EXISTS venue_region text,
+ADD COLUMN IF NOT EXISTS venue_country text;
+
+COMMENT ON COLUMN public.projects.venue_city IS 'City or town the project takes place in. NULL when no venue has been set.';
+COMMENT ON COLUMN public.projects.venue_region IS 'Province/region of the venue, e.g. Western Cape.';
+COMMENT ON COLUMN public.projects.venue_country IS 'Country of the venue, e.g. South Africa.';
+
+-- ============================================
+-- 2. SUPPLIER TRAVEL RADIUS
+-- ============================================
+
+ALTER TABLE public.suppliers
+ADD COLUMN IF NOT EXISTS travel_radius_km integer;
+
+ALTER TABLE public.suppliers
+DROP CONSTRAINT IF EXISTS suppliers_travel_radius_km_check;
+
+ALTER TABLE public.suppliers
+ADD CONSTRAINT suppliers_travel_radius_km_check
+CHECK (travel_radius_km IS NULL OR travel_radius_km >= 0);
+
+COMMENT ON COLUMN public.suppliers.travel_radius_km IS 'How far (km) the supplier will travel from their address to a venue outside cities_served. NULL = only the listed cities.';
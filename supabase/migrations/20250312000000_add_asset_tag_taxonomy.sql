@@ -0,0 +1,158 @@
+-- ============================================
+-- Asset Tag Taxonomy
+-- ============================================
+-- Moves asset tags out of the app bundle so producers can manage them
+-- without a deploy:
+--
+-- 1. asset_tags - one row per tag, owned by a producer, with its colour,
+--    description, supplier categories and legacy aliases
+-- 2. rename_asset_tag() - renames a tag, or merges it into another one,
+--    across the producer's assets and RFQ email templates
+--
+-- The app seeds a producer's taxonomy from config/defaultAssetTags.json the
+-- first time it is loaded.
+--
+-- Migration: 20250312000000_add_asset_tag_taxonomy.sql
+-- ============================================
+
+-- ============================================
+-- 1. CREATE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.asset_tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  producer_id uuid NOT NULL REFERENCES public.producers(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  color text NOT NULL DEFAULT '#6B7280' CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  description text NOT NULL DEFAULT '',
+  supplier_categories text[] NOT NULL DEFAULT '{}',
+  aliases text[] NOT NULL DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT asset_tags_producer_name_unique UNIQUE (producer_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_tags_producer_id
+ON public.asset_tags(producer_id);
+
+COMMENT ON TABLE public.asset_tags IS 'Producer-managed asset tag taxonomy. Assets store tag names in assets.tags.';
+COMMENT ON COLUMN public.asset_tags.supplier_categories IS 'Supplier service categories relevant to assets with this tag, used to rank suppliers.';
+COMMENT ON COLUMN public.asset_tags.aliases IS 'Former or alternative names that resolve to this tag (e.g. names it was renamed or merged from).';
+COMMENT ON COLUMN public.asset_tags.sort_order IS 'Display order in tag pickers, ascending.';
+
+CREATE TRIGGER update_asset_tags_updated_at
+  BEFORE UPDATE ON public.asset_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. ENABLE ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.asset_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can manage their own asset tags"
+  ON public.asset_tags
+  FOR ALL
+  TO authenticated
+  USING (producer_id = auth.uid())
+  WITH CHECK (producer_id = auth.uid());
+
+-- ============================================
+-- 3. RENAME / MERGE TAGS
+-- ============================================
+-- Replaces p_from with p_to in the tags of the caller's assets and in
+-- their RFQ email template defaults. If p_to is already a tag the two are
+-- merged: p_from (and its aliases) become aliases of p_to and its row is
+-- removed. Otherwise the p_from row is renamed and keeps p_from as an alias.
+
+CREATE OR REPLACE FUNCTION public.rename_asset_tag(p_from text, p_to text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_producer_id uuid := auth.uid();
+  v_from text := trim(p_from);
+  v_to text := trim(p_to);
+  v_source public.asset_tags%ROWTYPE;
+  v_target public.asset_tags%ROWTYPE;
+  v_assets_updated integer := 0;
+  v_templates_updated integer := 0;
+  v_merged boolean := false;
+BEGIN
+  IF v_producer_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_from = '' OR v_to = '' THEN
+    RAISE EXCEPTION 'Tag names cannot be empty';
+  END IF;
+
+  IF v_from = v_to THEN
+    RAISE EXCEPTION 'Choose a different tag name';
+  END IF;
+
+  -- Assets: swap the tag in place, dropping the duplicate when both were present
+  UPDATE public.assets a
+  SET tags = ARRAY(
+    SELECT t.tag
+    FROM unnest(array_replace(a.tags, v_from, v_to)) WITH ORDINALITY AS t(tag, position)
+    GROUP BY t.tag
+    ORDER BY min(t.position)
+  )
+  FROM public.projects p
+  WHERE p.id = a.project_id
+    AND p.producer_id = v_producer_id
+    AND v_from = ANY(a.tags);
+  GET DIAGNOSTICS v_assets_updated = ROW_COUNT;
+
+  UPDATE public.rfq_email_templates
+  SET default_for_tags = ARRAY(SELECT DISTINCT unnest(array_replace(default_for_tags, v_from, v_to)))
+  WHERE producer_id = v_producer_id
+    AND v_from = ANY(default_for_tags);
+  GET DIAGNOSTICS v_templates_updated = ROW_COUNT;
+
+  SELECT * INTO v_source FROM public.asset_tags WHERE producer_id = v_producer_id AND name = v_from;
+  SELECT * INTO v_target FROM public.asset_tags WHERE producer_id = v_producer_id AND name = v_to;
+
+  IF v_source.id IS NOT NULL AND v_target.id IS NOT NULL THEN
+    UPDATE public.asset_tags
+    SET aliases = ARRAY(
+      SELECT DISTINCT alias
+      FROM unnest(v_target.aliases || v_source.aliases || ARRAY[v_from]) AS alias
+      WHERE alias <> v_to
+    )
+    WHERE id = v_target.id;
+
+    DELETE FROM public.asset_tags WHERE id = v_source.id;
+    v_merged := true;
+  ELSIF v_source.id IS NOT NULL THEN
+    UPDATE public.asset_tags
+    SET name = v_to,
+        aliases = ARRAY(
+          SELECT DISTINCT alias
+          FROM unnest(v_source.aliases || ARRAY[v_from]) AS alias
+          WHERE alias <> v_to
+        )
+    WHERE id = v_source.id;
+  ELSIF v_target.id IS NOT NULL THEN
+    -- Retiring a tag that was never in the taxonomy: remember it as an alias
+    UPDATE public.asset_tags
+    SET aliases = ARRAY(SELECT DISTINCT alias FROM unnest(v_target.aliases || ARRAY[v_from]) AS alias)
+    WHERE id = v_target.id;
+    v_merged := true;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'assets_updated', v_assets_updated,
+    'templates_updated', v_templates_updated,
+    'merged', v_merged
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.rename_asset_tag(text, text) IS 'Renames or merges an asset tag across the calling producer''s taxonomy, assets and RFQ email templates.';
+
+GRANT EXECUTE ON FUNCTION public.rename_asset_tag(text, text) TO authenticated;
@@ -0,0 +1,118 @@
+-- ============================================
+-- Asset Dependencies
+-- ============================================
+-- Lets producers say that one asset cannot start until another has finished
+-- (e.g. staging before lighting rigs, print files approved before printing)
+-- so the project timeline can work out the critical path to the event date.
+--
+-- 1. assets.duration_days - how long the asset takes to produce
+-- 2. asset_dependencies - finish-to-start links between assets in the same
+--    project, with an optional lag in days
+-- 3. validate_asset_dependency - keeps links inside one project and rejects
+--    cycles
+--
+-- Migration: 20250313000000_add_asset_dependencies.sql
+-- ============================================
+
+-- ============================================
+-- 1. DURATION COLUMN
+-- ============================================
+
+ALTER TABLE public.assets
+ADD COLUMN IF NOT EXISTS duration_days integer NOT NULL DEFAULT 1 CHECK (duration_days >= 0);
+
+COMMENT ON COLUMN public.assets.duration_days IS 'Working time in days, ending on the asset timeline date. 0 = a checkpoint such as a sign-off.';
+
+-- ============================================
+-- 2. CREATE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.asset_dependencies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  predecessor_asset_id uuid NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  successor_asset_id uuid NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  lag_days integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT asset_dependencies_not_self CHECK (predecessor_asset_id <> successor_asset_id),
+  CONSTRAINT asset_dependencies_unique_pair UNIQUE (predecessor_asset_id, successor_asset_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_dependencies_successor
+ON public.asset_dependencies(successor_asset_id);
+
+COMMENT ON TABLE public.asset_dependencies IS 'Finish-to-start links: the successor asset starts after the predecessor finishes.';
+COMMENT ON COLUMN public.asset_dependencies.lag_days IS 'Days to wait after the predecessor finishes before the successor can start (e.g. drying time). Negative = overlap.';
+
+-- ============================================
+-- 3. VALIDATION
+-- ============================================
+
+-- Both assets must belong to the same project, and the new link must not
+-- close a loop (the successor must not already lead to the predecessor).
+CREATE OR REPLACE FUNCTION public.validate_asset_dependency()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT project_id FROM public.assets WHERE id = NEW.predecessor_asset_id)
+     IS DISTINCT FROM (SELECT project_id FROM public.assets WHERE id = NEW.successor_asset_id) THEN
+    RAISE EXCEPTION 'Dependent assets must be in the same project';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE downstream AS (
+      SELECT d.successor_asset_id AS asset_id
+      FROM public.asset_dependencies d
+      WHERE d.predecessor_asset_id = NEW.successor_asset_id
+        AND d.id IS DISTINCT FROM NEW.id
+      UNION
+      SELECT d.successor_asset_id
+      FROM public.asset_dependencies d
+      JOIN downstream ON d.predecessor_asset_id = downstream.asset_id
+      WHERE d.id IS DISTINCT FROM NEW.id
+    )
+    SELECT 1 FROM downstream WHERE asset_id = NEW.predecessor_asset_id
+  ) THEN
+    RAISE EXCEPTION 'This dependency would create a cycle';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_asset_dependency
+  BEFORE INSERT OR UPDATE OF predecessor_asset_id, successor_asset_id ON public.asset_dependencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_asset_dependency();
+
+-- ============================================
+-- 4. ENABLE ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.asset_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- Producers can manage dependencies between assets in projects they own
+CREATE POLICY "Producers can manage dependencies for owned assets"
+  ON public.asset_dependencies
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.assets a
+      JOIN public.projects p ON p.id = a.project_id
+      WHERE a.id = asset_dependencies.successor_asset_id
+        AND p.producer_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.assets a
+      JOIN public.projects p ON p.id = a.project_id
+      WHERE a.id = asset_dependencies.successor_asset_id
+        AND p.producer_id = auth.uid()
+    )
+  );
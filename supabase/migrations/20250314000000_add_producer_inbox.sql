@@ -0,0 +1,157 @@
+-- ============================================
+-- Producer Inbox
+-- ============================================
+-- Gives producers one inbox across every quote conversation instead of
+-- opening each quote chat to look for new supplier replies. Uses the
+-- existing messages.is_read flag, which nothing set until now.
+--
+-- 1. Index on unread incoming messages
+-- 2. get_producer_inbox - one row per conversation with the last message
+--    and its unread count
+-- 3. get_producer_unread_message_count - total for the header badge
+-- 4. mark_quote_messages_read - marks a conversation read for the producer
+--
+-- Migration: 20250314000000_add_producer_inbox.sql
+-- ============================================
+
+-- ============================================
+-- 1. UNREAD INDEX
+-- ============================================
+-- For the producer, "unread" means supplier messages they have not opened
+-- yet. Their own messages and system messages (e.g. follow-ups) are never
+-- unread.
+
+CREATE INDEX IF NOT EXISTS idx_messages_unread_incoming
+ON public.messages(quote_id)
+WHERE is_read = false AND sender_type = 'SUPPLIER';
+
+-- ============================================
+-- 2. INBOX
+-- ============================================
+-- Runs with the caller's rights and only returns conversations on the
+-- caller's own projects.
+
+CREATE OR REPLACE FUNCTION public.get_producer_inbox()
+RETURNS TABLE (
+  quote_id uuid,
+  quote_status text,
+  project_id uuid,
+  project_name text,
+  asset_id uuid,
+  asset_name text,
+  supplier_id uuid,
+  supplier_name text,
+  last_message_content text,
+  last_message_sender text,
+  last_message_at timestamptz,
+  message_count integer,
+  unread_count integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.status,
+    p.id,
+    p.project_name,
+    a.id,
+    a.asset_name,
+    s.id,
+    s.supplier_name,
+    last_message.content,
+    last_message.sender_type,
+    last_message.created_at,
+    counts.message_count,
+    counts.unread_count
+  FROM public.quotes q
+  JOIN public.assets a ON a.id = q.asset_id
+  JOIN public.projects p ON p.id = a.project_id
+  JOIN public.suppliers s ON s.id = q.supplier_id
+  JOIN LATERAL (
+    SELECT
+      count(*)::integer AS message_count,
+      (count(*) FILTER (WHERE NOT m.is_read AND m.sender_type = 'SUPPLIER'))::integer AS unread_count
+    FROM public.messages m
+    WHERE m.quote_id = q.id
+  ) counts ON counts.message_count > 0
+  JOIN LATERAL (
+    SELECT m.content, m.sender_type, m.created_at
+    FROM public.messages m
+    WHERE m.quote_id = q.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_message ON true
+  WHERE p.producer_id = auth.uid()
+  ORDER BY last_message.created_at DESC;
+$$;
+
+COMMENT ON FUNCTION public.get_producer_inbox() IS 'Quote conversations on the calling producer''s projects, newest first, with the last message and unread count.';
+
+GRANT EXECUTE ON FUNCTION public.get_producer_inbox() TO authenticated;
+
+-- ============================================
+-- 3. UNREAD COUNT
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.get_producer_unread_message_count()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM public.messages m
+  JOIN public.quotes q ON q.id = m.quote_id
+  JOIN public.assets a ON a.id = q.asset_id
+  JOIN public.projects p ON p.id = a.project_id
+  WHERE p.producer_id = auth.uid()
+    AND m.is_read = false
+    AND m.sender_type = 'SUPPLIER';
+$$;
+
+COMMENT ON FUNCTION public.get_producer_unread_message_count() IS 'Number of unread supplier messages across the calling producer''s quotes.';
+
+GRANT EXECUTE ON FUNCTION public.get_producer_unread_message_count() TO authenticated;
+
+-- ============================================
+-- 4. MARK READ
+-- ============================================
+-- SECURITY DEFINER because producers have no UPDATE policy on messages;
+-- this only flips is_read, and only on the caller's own quotes.
+
+CREATE OR REPLACE FUNCTION public.mark_quote_messages_read(p_quote_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.quotes q
+    JOIN public.assets a ON a.id = q.asset_id
+    JOIN public.projects p ON p.id = a.project_id
+    WHERE q.id = p_quote_id
+      AND p.producer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quote not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.messages
+  SET is_read = true
+  WHERE quote_id = p_quote_id
+    AND is_read = false
+    AND sender_type = 'SUPPLIER';
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_quote_messages_read(uuid) IS 'Marks the supplier messages on one of the calling producer''s quotes as read. Returns the number of messages updated.';
+
+GRANT EXECUTE ON FUNCTION public.mark_quote_messages_read(uuid) TO authenticated;
@@ -0,0 +1,513 @@
+-- ============================================
+-- Notification Center
+-- ============================================
+-- Stores producer notifications so they survive page changes and sign-outs,
+-- instead of only showing transient toasts. Each producer chooses per event
+-- type whether it appears in the in-app feed, by email, or both.
+--
+-- 1. notification_preferences - per-producer in-app / email choice per event
+-- 2. notifications - the feed, with read state and a deep link
+-- 3. notify_producer - applies preferences and writes a notification
+-- 4. Event triggers - supplier message, quote submitted, action item assigned
+-- 5. create_due_notifications - quote requests expiring and milestones due,
+--    run by the backend scheduler
+-- 6. mark_quote_messages_read - also clears that conversation's message
+--    notifications
+--
+-- Event types: supplier_message, quote_submitted, quote_expiring,
+-- milestone_due, action_item_assigned
+--
+-- Migration: 20250315000000_add_notification_center.sql
+-- ============================================
+
+-- ============================================
+-- 1. PREFERENCES
+-- ============================================
+-- A missing row means the defaults from notification_event_defaults().
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  producer_id uuid NOT NULL REFERENCES public.producers(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  event_type text NOT NULL CHECK (event_type IN ('supplier_message', 'quote_submitted', 'quote_expiring', 'milestone_due', 'action_item_assigned')),
+  in_app boolean NOT NULL DEFAULT true,
+  email boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (producer_id, event_type)
+);
+
+COMMENT ON TABLE public.notification_preferences IS 'How each producer wants to hear about each notification event: in-app feed, email, both or neither.';
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can manage their own notification preferences"
+  ON public.notification_preferences
+  FOR ALL
+  TO authenticated
+  USING (producer_id = auth.uid())
+  WITH CHECK (producer_id = auth.uid());
+
+-- Everything is in-app by default. Supplier messages and submitted quotes
+-- were already emailed before this feature, so they keep email on.
+CREATE OR REPLACE FUNCTION public.notification_event_defaults()
+RETURNS TABLE (event_type text, in_app boolean, email boolean, sort_order integer)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  VALUES
+    ('supplier_message', true, true, 1),
+    ('quote_submitted', true, true, 2),
+    ('quote_expiring', true, false, 3),
+    ('milestone_due', true, false, 4),
+    ('action_item_assigned', true, false, 5);
+$$;
+
+-- Effective preferences for any producer. Internal: triggers and the
+-- functions below call it for producers other than the caller.
+CREATE OR REPLACE FUNCTION public.resolve_notification_preferences(p_producer_id uuid)
+RETURNS TABLE (event_type text, in_app boolean, email boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.event_type,
+    COALESCE(np.in_app, d.in_app),
+    COALESCE(np.email, d.email)
+  FROM public.notification_event_defaults() d
+  LEFT JOIN public.notification_preferences np
+    ON np.producer_id = p_producer_id
+   AND np.event_type = d.event_type
+  ORDER BY d.sort_order;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_notification_preferences(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Producers read their own preferences; the backend (service role) passes a
+-- producer id to decide whether to send the emails it already sends.
+CREATE OR REPLACE FUNCTION public.get_notification_preferences(p_producer_id uuid DEFAULT NULL)
+RETURNS TABLE (event_type text, in_app boolean, email boolean)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_producer_id IS NOT NULL
+     AND p_producer_id IS DISTINCT FROM auth.uid()
+     AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to read another producer''s notification preferences' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.resolve_notification_preferences(COALESCE(p_producer_id, auth.uid()));
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_notification_preferences(uuid) IS 'Effective in-app / email choice per event type, defaults included. Defaults to the calling producer.';
+
+GRANT EXECUTE ON FUNCTION public.get_notification_preferences(uuid) TO authenticated, service_role;
+
+-- ============================================
+-- 2. NOTIFICATIONS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  producer_id uuid NOT NULL REFERENCES public.producers(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('supplier_message', 'quote_submitted', 'quote_expiring', 'milestone_due', 'action_item_assigned')),
+  title text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  link_path text,
+  project_id uuid REFERENCES public.projects(id) ON DELETE CASCADE,
+  asset_id uuid REFERENCES public.assets(id) ON DELETE CASCADE,
+  quote_id uuid REFERENCES public.quotes(id) ON DELETE CASCADE,
+  show_in_app boolean NOT NULL DEFAULT true,
+  email_status text NOT NULL DEFAULT 'not_requested' CHECK (email_status IN ('not_requested', 'pending', 'sent', 'failed')),
+  email_error text,
+  dedupe_key text,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT notifications_producer_dedupe_unique UNIQUE (producer_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_feed
+ON public.notifications(producer_id, created_at DESC)
+WHERE show_in_app;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_email_pending
+ON public.notifications(created_at)
+WHERE email_status = 'pending';
+
+COMMENT ON TABLE public.notifications IS 'Durable producer notifications. Rows are written by notify_producer; producers only read and mark them.';
+COMMENT ON COLUMN public.notifications.link_path IS 'App path the notification opens (project, asset or quote chat).';
+COMMENT ON COLUMN public.notifications.show_in_app IS 'False when the producer only wants this event by email.';
+COMMENT ON COLUMN public.notifications.email_status IS 'pending = queued for the backend notification job; not_requested = email off, or sent elsewhere by the backend.';
+COMMENT ON COLUMN public.notifications.dedupe_key IS 'Stops scheduled events (expiring quotes, due milestones) being raised twice.';
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can view their own notifications"
+  ON public.notifications
+  FOR SELECT
+  TO authenticated
+  USING (producer_id = auth.uid() AND show_in_app);
+
+CREATE POLICY "Producers can update their own notifications"
+  ON public.notifications
+  FOR UPDATE
+  TO authenticated
+  USING (producer_id = auth.uid())
+  WITH CHECK (producer_id = auth.uid());
+
+-- Producers may only change read_at; everything else is written by notify_producer
+REVOKE UPDATE ON public.notifications FROM authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+-- Realtime so the bell updates without polling; RLS still applies
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+-- ============================================
+-- 3. NOTIFY
+-- ============================================
+-- p_queue_email = false for events whose email the backend already sends
+-- itself (supplier messages, submitted quotes); it checks the same
+-- preferences before sending.
+
+CREATE OR REPLACE FUNCTION public.notify_producer(
+  p_producer_id uuid,
+  p_event_type text,
+  p_title text,
+  p_body text,
+  p_link_path text,
+  p_project_id uuid DEFAULT NULL,
+  p_asset_id uuid DEFAULT NULL,
+  p_quote_id uuid DEFAULT NULL,
+  p_dedupe_key text DEFAULT NULL,
+  p_queue_email boolean DEFAULT true
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_in_app boolean;
+  v_email boolean;
+  v_id uuid;
+BEGIN
+  IF p_producer_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT pref.in_app, pref.email AND p_queue_email
+  INTO v_in_app, v_email
+  FROM public.resolve_notification_preferences(p_producer_id) pref
+  WHERE pref.event_type = p_event_type;
+
+  IF NOT COALESCE(v_in_app, false) AND NOT COALESCE(v_email, false) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (
+    producer_id, event_type, title, body, link_path,
+    project_id, asset_id, quote_id, show_in_app, email_status, dedupe_key
+  )
+  VALUES (
+    p_producer_id, p_event_type, p_title, COALESCE(p_body, ''), p_link_path,
+    p_project_id, p_asset_id, p_quote_id, v_in_app,
+    CASE WHEN v_email THEN 'pending' ELSE 'not_requested' END,
+    p_dedupe_key
+  )
+  ON CONFLICT (producer_id, dedupe_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_producer(uuid, text, text, text, text, uuid, uuid, uuid, text, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notify_producer(uuid, text, text, text, text, uuid, uuid, uuid, text, boolean) TO service_role;
+
+-- ============================================
+-- 4. EVENT TRIGGERS
+-- ============================================
+
+-- New supplier message. While an earlier message notification for the same
+-- quote is still unread it is refreshed rather than stacking another one.
+CREATE OR REPLACE FUNCTION public.notify_supplier_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote record;
+  v_title text;
+  v_body text := left(NEW.content, 200);
+BEGIN
+  SELECT q.id, s.supplier_name, a.id AS asset_id, a.asset_name, p.id AS project_id, p.producer_id
+  INTO v_quote
+  FROM public.quotes q
+  JOIN public.assets a ON a.id = q.asset_id
+  JOIN public.projects p ON p.id = a.project_id
+  LEFT JOIN public.suppliers s ON s.id = q.supplier_id
+  WHERE q.id = NEW.quote_id;
+
+  IF v_quote.producer_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_title := format('New message from %s about %s', COALESCE(v_quote.supplier_name, 'a supplier'), v_quote.asset_name);
+
+  UPDATE public.notifications
+  SET title = v_title, body = v_body, created_at = now()
+  WHERE producer_id = v_quote.producer_id
+    AND event_type = 'supplier_message'
+    AND quote_id = NEW.quote_id
+    AND read_at IS NULL;
+
+  IF NOT FOUND THEN
+    PERFORM public.notify_producer(
+      v_quote.producer_id, 'supplier_message', v_title, v_body,
+      format('/dashboard/quotes/%s/chat', NEW.quote_id),
+      v_quote.project_id, v_quote.asset_id, NEW.quote_id, NULL, false
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_supplier_message
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  WHEN (NEW.sender_type = 'SUPPLIER')
+  EXECUTE FUNCTION public.notify_supplier_message();
+
+-- Quote submitted (or resubmitted after a revision request)
+CREATE OR REPLACE FUNCTION public.notify_quote_submitted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote record;
+BEGIN
+  SELECT s.supplier_name, a.id AS asset_id, a.asset_name, p.id AS project_id, p.project_name, p.producer_id
+  INTO v_quote
+  FROM public.assets a
+  JOIN public.projects p ON p.id = a.project_id
+  LEFT JOIN public.suppliers s ON s.id = NEW.supplier_id
+  WHERE a.id = NEW.asset_id;
+
+  IF v_quote.producer_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.notify_producer(
+    v_quote.producer_id, 'quote_submitted',
+    format('%s submitted a quote for %s', COALESCE(v_quote.supplier_name, 'A supplier'), v_quote.asset_name),
+    v_quote.project_name,
+    format('/producer/projects/%s?asset=%s', v_quote.project_id, v_quote.asset_id),
+    v_quote.project_id, v_quote.asset_id, NEW.id, NULL, false
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_quote_submitted_on_insert
+  AFTER INSERT ON public.quotes
+  FOR EACH ROW
+  WHEN (NEW.status = 'Submitted')
+  EXECUTE FUNCTION public.notify_quote_submitted();
+
+CREATE TRIGGER notify_quote_submitted_on_update
+  AFTER UPDATE OF status ON public.quotes
+  FOR EACH ROW
+  WHEN (NEW.status = 'Submitted' AND OLD.status IS DISTINCT FROM 'Submitted')
+  EXECUTE FUNCTION public.notify_quote_submitted();
+
+-- Action item assigned to the producer by someone else (the backend, the
+-- client or a teammate). Items a producer adds for themselves are skipped.
+CREATE OR REPLACE FUNCTION public.notify_action_item_assigned()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project record;
+BEGIN
+  SELECT p.id, p.project_name, p.producer_id
+  INTO v_project
+  FROM public.projects p
+  WHERE p.id = NEW.project_id;
+
+  IF v_project.producer_id IS NULL OR v_project.producer_id = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.notify_producer(
+    v_project.producer_id, 'action_item_assigned',
+    format('New action item on %s', v_project.project_name),
+    NEW.action_description,
+    CASE
+      WHEN NEW.asset_id IS NOT NULL THEN format('/producer/projects/%s?asset=%s', NEW.project_id, NEW.asset_id)
+      ELSE format('/producer/projects/%s', NEW.project_id)
+    END,
+    NEW.project_id, NEW.asset_id, NEW.quote_id, NULL, true
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_action_item_assigned_on_insert
+  AFTER INSERT ON public.action_items
+  FOR EACH ROW
+  WHEN (NEW.assigned_to = 'producer' AND NEW.status = 'pending')
+  EXECUTE FUNCTION public.notify_action_item_assigned();
+
+CREATE TRIGGER notify_action_item_assigned_on_update
+  AFTER UPDATE OF assigned_to ON public.action_items
+  FOR EACH ROW
+  WHEN (NEW.assigned_to = 'producer' AND OLD.assigned_to IS DISTINCT FROM 'producer' AND NEW.status IN ('pending', 'in_progress'))
+  EXECUTE FUNCTION public.notify_action_item_assigned();
+
+-- ============================================
+-- 5. SCHEDULED EVENTS
+-- ============================================
+-- Called by the backend notification job. Dedupe keys include the deadline
+-- or date, so an extended deadline or moved milestone raises a fresh one.
+
+CREATE OR REPLACE FUNCTION public.create_due_notifications(p_now timestamptz DEFAULT now())
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_created integer := 0;
+BEGIN
+  -- Quote requests whose response deadline is within the next 24 hours.
+  -- A Pending quote reopened for revision is not held to its deadline.
+  FOR v_row IN
+    SELECT
+      q.id AS quote_id,
+      COALESCE(q.deadline_extended_until, q.response_deadline) AS deadline,
+      s.supplier_name,
+      a.id AS asset_id,
+      a.asset_name,
+      p.id AS project_id,
+      p.producer_id
+    FROM public.quotes q
+    JOIN public.assets a ON a.id = q.asset_id
+    JOIN public.projects p ON p.id = a.project_id
+    LEFT JOIN public.suppliers s ON s.id = q.supplier_id
+    WHERE q.status = 'Pending'
+      AND q.revision_requested_at IS NULL
+      AND COALESCE(q.deadline_extended_until, q.response_deadline) > p_now
+      AND COALESCE(q.deadline_extended_until, q.response_deadline) <= p_now + interval '24 hours'
+  LOOP
+    IF public.notify_producer(
+      v_row.producer_id, 'quote_expiring',
+      format('Quote request for %s closes soon', v_row.asset_name),
+      format('%s has until %s UTC to respond', COALESCE(v_row.supplier_name, 'The supplier'), to_char(v_row.deadline AT TIME ZONE 'UTC', 'Mon DD, HH24:MI')),
+      format('/producer/projects/%s?asset=%s', v_row.project_id, v_row.asset_id),
+      v_row.project_id, v_row.asset_id, v_row.quote_id,
+      format('quote_expiring:%s:%s', v_row.quote_id, extract(epoch FROM v_row.deadline)::bigint)
+    ) IS NOT NULL THEN
+      v_created := v_created + 1;
+    END IF;
+  END LOOP;
+
+  -- Pending milestones due today or tomorrow
+  FOR v_row IN
+    SELECT m.id, m.milestone_name, m.milestone_date, p.id AS project_id, p.project_name, p.producer_id
+    FROM public.project_milestones m
+    JOIN public.projects p ON p.id = m.project_id
+    WHERE m.status = 'pending'
+      AND m.milestone_date BETWEEN p_now::date AND p_now::date + 1
+  LOOP
+    IF public.notify_producer(
+      v_row.producer_id, 'milestone_due',
+      format('%s is due %s', v_row.milestone_name, CASE WHEN v_row.milestone_date = p_now::date THEN 'today' ELSE 'tomorrow' END),
+      v_row.project_name,
+      format('/producer/projects/%s', v_row.project_id),
+      v_row.project_id, NULL, NULL,
+      format('milestone_due:%s:%s', v_row.id, v_row.milestone_date)
+    ) IS NOT NULL THEN
+      v_created := v_created + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_due_notifications(timestamptz) IS 'Raises quote_expiring and milestone_due notifications. Safe to run repeatedly. Returns the number created.';
+
+REVOKE EXECUTE ON FUNCTION public.create_due_notifications(timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_due_notifications(timestamptz) TO service_role;
+
+-- ============================================
+-- 6. MARK CONVERSATION READ
+-- ============================================
+-- Same as 20250314000000_add_producer_inbox.sql, plus opening a conversation
+-- marks its message notifications read.
+
+CREATE OR REPLACE FUNCTION public.mark_quote_messages_read(p_quote_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.quotes q
+    JOIN public.assets a ON a.id = q.asset_id
+    JOIN public.projects p ON p.id = a.project_id
+    WHERE q.id = p_quote_id
+      AND p.producer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quote not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.messages
+  SET is_read = true
+  WHERE quote_id = p_quote_id
+    AND is_read = false
+    AND sender_type = 'SUPPLIER';
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE public.notifications
+  SET read_at = now()
+  WHERE producer_id = auth.uid()
+    AND quote_id = p_quote_id
+    AND event_type = 'supplier_message'
+    AND read_at IS NULL;
+
+  RETURN v_updated;
+END;
+$$;
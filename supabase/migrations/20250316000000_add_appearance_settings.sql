@@ -0,0 +1,43 @@
+-- ============================================
+-- Appearance Settings
+-- ============================================
+-- Stores each user's theme, table density and text size so the choice
+-- follows them across browsers. The frontend applies it app-wide through
+-- AppearanceProvider and caches it locally for the first paint.
+--
+-- 1. user_appearance_settings - one row per user; a missing row means
+--    the defaults (dark, comfortable, normal)
+--
+-- Migration: 20250316000000_add_appearance_settings.sql
+-- ============================================
+
+-- ============================================
+-- 1. APPEARANCE SETTINGS
+-- ============================================
+-- Keyed on auth.users rather than producers so admins get the same settings.
+
+CREATE TABLE IF NOT EXISTS public.user_appearance_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  theme text NOT NULL DEFAULT 'dark' CHECK (theme IN ('dark', 'light')),
+  density text NOT NULL DEFAULT 'comfortable' CHECK (density IN ('comfortable', 'compact')),
+  font_size text NOT NULL DEFAULT 'normal' CHECK (font_size IN ('normal', 'large', 'extra-large')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.user_appearance_settings IS 'Per-user theme, density and text size applied across the app.';
+COMMENT ON COLUMN public.user_appearance_settings.density IS 'Row and card padding for asset tables and quote lists.';
+
+CREATE TRIGGER update_user_appearance_settings_updated_at
+  BEFORE UPDATE ON public.user_appearance_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.user_appearance_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own appearance settings"
+  ON public.user_appearance_settings
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
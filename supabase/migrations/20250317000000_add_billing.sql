@@ -0,0 +1,338 @@
+-- ============================================
+-- Billing and Subscriptions
+-- ============================================
+-- Plan tiers that cap active projects and quote requests (RFQs) per month,
+-- each producer's subscription, and the invoices raised for it. Payments go
+-- through the backend's payment provider (a local fake unless configured),
+-- so producers can read these tables but only the service role writes them.
+--
+-- 1. billing_plans - plan tiers and their limits
+-- 2. billing_subscriptions - one per producer; no row means the Free plan
+-- 3. billing_invoices - invoice history, numbered INV-000001 onwards
+-- 4. get_billing_usage - usage meters computed from projects and quotes
+-- 5. Limit triggers - block new active projects and RFQs over the plan limit
+--
+-- Migration: 20250317000000_add_billing.sql
+-- ============================================
+
+-- ============================================
+-- 1. PLANS
+-- ============================================
+-- NULL limits mean unlimited.
+
+CREATE TABLE IF NOT EXISTS public.billing_plans (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  monthly_price_cents integer NOT NULL DEFAULT 0 CHECK (monthly_price_cents >= 0),
+  currency text NOT NULL DEFAULT 'USD',
+  max_active_projects integer CHECK (max_active_projects IS NULL OR max_active_projects >= 0),
+  max_rfqs_per_month integer CHECK (max_rfqs_per_month IS NULL OR max_rfqs_per_month >= 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.billing_plans IS 'Subscription tiers. NULL limits mean unlimited.';
+COMMENT ON COLUMN public.billing_plans.max_rfqs_per_month IS 'Quote requests (rows in quotes) per calendar month, UTC.';
+
+INSERT INTO public.billing_plans (id, name, description, monthly_price_cents, max_active_projects, max_rfqs_per_month, sort_order)
+VALUES
+  ('free', 'Free', 'For trying ProdBay on a small event', 0, 2, 20, 1),
+  ('pro', 'Pro', 'For producers running several events at once', 4900, 10, 200, 2),
+  ('studio', 'Studio', 'For production companies with no limits', 14900, NULL, NULL, 3)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.billing_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view billing plans"
+  ON public.billing_plans
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================
+-- 2. SUBSCRIPTIONS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.billing_subscriptions (
+  producer_id uuid PRIMARY KEY REFERENCES public.producers(id) ON DELETE CASCADE,
+  plan_id text NOT NULL REFERENCES public.billing_plans(id),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'past_due', 'canceled')),
+  provider text NOT NULL,
+  provider_customer_id text,
+  provider_subscription_id text,
+  current_period_start timestamptz NOT NULL DEFAULT now(),
+  current_period_end timestamptz NOT NULL DEFAULT (now() + interval '1 month'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_subscriptions_renewal
+ON public.billing_subscriptions(current_period_end)
+WHERE status <> 'canceled';
+
+COMMENT ON TABLE public.billing_subscriptions IS 'Each producer''s plan and payment-provider references. Written by the backend billing service.';
+COMMENT ON COLUMN public.billing_subscriptions.status IS 'past_due = the last renewal payment failed; limits stay at the plan until it is retried or changed.';
+
+CREATE TRIGGER update_billing_subscriptions_updated_at
+  BEFORE UPDATE ON public.billing_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.billing_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can view their own subscription"
+  ON public.billing_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (producer_id = auth.uid());
+
+-- ============================================
+-- 3. INVOICES
+-- ============================================
+
+CREATE SEQUENCE IF NOT EXISTS public.billing_invoice_number_seq;
+
+CREATE TABLE IF NOT EXISTS public.billing_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  producer_id uuid NOT NULL REFERENCES public.producers(id) ON DELETE CASCADE,
+  invoice_number text NOT NULL UNIQUE DEFAULT ('INV-' || lpad(nextval('public.billing_invoice_number_seq')::text, 6, '0')),
+  plan_id text NOT NULL REFERENCES public.billing_plans(id),
+  description text NOT NULL,
+  amount_cents integer NOT NULL CHECK (amount_cents >= 0),
+  currency text NOT NULL DEFAULT 'USD',
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'paid', 'failed', 'void')),
+  period_start timestamptz NOT NULL,
+  period_end timestamptz NOT NULL,
+  provider text NOT NULL,
+  provider_payment_id text,
+  failure_reason text,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  paid_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_invoices_producer
+ON public.billing_invoices(producer_id, issued_at DESC);
+
+COMMENT ON TABLE public.billing_invoices IS 'Invoice history. The PDF is rendered on demand from this row.';
+
+ALTER TABLE public.billing_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can view their own invoices"
+  ON public.billing_invoices
+  FOR SELECT
+  TO authenticated
+  USING (producer_id = auth.uid());
+
+-- ============================================
+-- 4. USAGE
+-- ============================================
+
+-- Plan for any producer, falling back to Free. Internal: the limit
+-- triggers call it for the producer who owns the row, not the caller.
+CREATE OR REPLACE FUNCTION public.resolve_billing_plan(p_producer_id uuid)
+RETURNS public.billing_plans
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT bp.*
+  FROM public.billing_plans bp
+  WHERE bp.id = COALESCE(
+    (SELECT bs.plan_id FROM public.billing_subscriptions bs
+     WHERE bs.producer_id = p_producer_id AND bs.status <> 'canceled'),
+    'free'
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_billing_plan(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.count_active_projects(p_producer_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM public.projects p
+  WHERE p.producer_id = p_producer_id
+    AND p.project_status NOT IN ('Completed', 'Cancelled');
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_monthly_rfqs(p_producer_id uuid, p_now timestamptz DEFAULT now())
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM public.quotes q
+  JOIN public.assets a ON a.id = q.asset_id
+  JOIN public.projects p ON p.id = a.project_id
+  WHERE p.producer_id = p_producer_id
+    AND q.created_at >= date_trunc('month', p_now AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.count_active_projects(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.count_monthly_rfqs(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- SECURITY DEFINER so counts include quote rows the producer's RLS might
+-- hide; it only ever reports on the caller.
+CREATE OR REPLACE FUNCTION public.get_billing_usage()
+RETURNS TABLE (
+  plan_id text,
+  plan_name text,
+  max_active_projects integer,
+  max_rfqs_per_month integer,
+  active_projects integer,
+  rfqs_this_month integer,
+  usage_period_start timestamptz,
+  usage_period_end timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_producer_id uuid := auth.uid();
+  v_plan public.billing_plans;
+  v_month_start timestamptz := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+BEGIN
+  IF v_producer_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_plan := public.resolve_billing_plan(v_producer_id);
+
+  RETURN QUERY
+  SELECT
+    v_plan.id,
+    v_plan.name,
+    v_plan.max_active_projects,
+    v_plan.max_rfqs_per_month,
+    public.count_active_projects(v_producer_id),
+    public.count_monthly_rfqs(v_producer_id),
+    v_month_start,
+    v_month_start + interval '1 month';
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_billing_usage() IS 'Calling producer''s plan limits and current usage (active projects, RFQs this calendar month).';
+
+GRANT EXECUTE ON FUNCTION public.get_billing_usage() TO authenticated;
+
+-- ============================================
+-- 5. LIMIT TRIGGERS
+-- ============================================
+-- Existing data over a limit is left alone; only new active projects and
+-- new quote requests are blocked. The message is shown to the producer.
+-- SECURITY DEFINER so the counts see all of the producer's rows, whoever
+-- does the insert (producer, backend or supplier portal).
+
+CREATE OR REPLACE FUNCTION public.enforce_active_project_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.billing_plans;
+  v_active_projects integer;
+BEGIN
+  IF NEW.producer_id IS NULL OR NEW.project_status IN ('Completed', 'Cancelled') THEN
+    RETURN NEW;
+  END IF;
+  -- Only check when the project becomes active, not on every edit
+  IF TG_OP = 'UPDATE' AND OLD.project_status NOT IN ('Completed', 'Cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  v_plan := public.resolve_billing_plan(NEW.producer_id);
+  IF v_plan.max_active_projects IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Same lock as enforce_monthly_rfq_limit: concurrent creates and
+  -- reactivations for this producer wait here and then count each other
+  PERFORM 1 FROM public.producers WHERE id = NEW.producer_id FOR NO KEY UPDATE;
+
+  -- Counted inline rather than with the STABLE count_active_projects(), which
+  -- would not see rows inserted earlier by the same statement
+  SELECT count(*)::integer INTO v_active_projects
+  FROM public.projects p
+  WHERE p.producer_id = NEW.producer_id
+    AND p.project_status NOT IN ('Completed', 'Cancelled');
+
+  IF v_active_projects >= v_plan.max_active_projects THEN
+    RAISE EXCEPTION 'Plan limit reached: the % plan allows % active projects. Upgrade in Settings > Billing or complete a project first.',
+      v_plan.name, v_plan.max_active_projects
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_active_project_limit ON public.projects;
+CREATE TRIGGER enforce_active_project_limit
+  BEFORE INSERT OR UPDATE OF project_status ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_active_project_limit();
+
+CREATE OR REPLACE FUNCTION public.enforce_monthly_rfq_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_producer_id uuid;
+  v_plan public.billing_plans;
+  v_rfqs integer;
+BEGIN
+  SELECT p.producer_id INTO v_producer_id
+  FROM public.assets a
+  JOIN public.projects p ON p.id = a.project_id
+  WHERE a.id = NEW.asset_id;
+
+  IF v_producer_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_plan := public.resolve_billing_plan(v_producer_id);
+  IF v_plan.max_rfqs_per_month IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialise the producer's quote inserts until commit, so a concurrent
+  -- transaction waits here and then counts this one's rows. NO KEY UPDATE
+  -- still lets projects and other rows reference the producer meanwhile.
+  PERFORM 1 FROM public.producers WHERE id = v_producer_id FOR NO KEY UPDATE;
+
+  -- Counted inline rather than with the STABLE count_monthly_rfqs(), which
+  -- would not see rows inserted earlier by the same statement
+  SELECT count(*)::integer INTO v_rfqs
+  FROM public.quotes q
+  JOIN public.assets a ON a.id = q.asset_id
+  JOIN public.projects p ON p.id = a.project_id
+  WHERE p.producer_id = v_producer_id
+    AND q.created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+
+  IF v_rfqs >= v_plan.max_rfqs_per_month THEN
+    RAISE EXCEPTION 'Plan limit reached: the % plan allows % quote requests per month. Upgrade in Settings > Billing to send more.',
+      v_plan.name, v_plan.max_rfqs_per_month
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_monthly_rfq_limit ON public.quotes;
+CREATE TRIGGER enforce_monthly_rfq_limit
+  BEFORE INSERT ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_monthly_rfq_limit();
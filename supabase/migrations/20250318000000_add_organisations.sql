@@ -0,0 +1,1039 @@
+-- ============================================
+-- Producer Organisations
+-- ============================================
+-- Lets a team of producers work on the same productions. Until now every
+-- project and everything under it was visible only to its producer_id.
+-- Producers can now belong to an organisation, share projects with it and
+-- keep an organisation-wide supplier list. Each producer belongs to at most
+-- one organisation.
+--
+-- Roles:
+--   owner       - everything, plus members, roles and invitations
+--   producer    - edit, share and delete shared projects
+--   coordinator - edit shared projects
+--   finance     - view shared projects (budgets, quotes) without editing
+--
+-- 1. organisations / organisation_members
+-- 2. organisation_invitations - emailed-link invitations, accepted by token
+-- 3. Access helpers - has_organisation_role, can_access_project
+-- 4. Project sharing - projects.organisation_id and the projects policies
+-- 5. Project-scoped policies - rewritten on can_access_project
+-- 6. Organisation suppliers - suppliers.organisation_id
+-- 7. Inbox functions - include shared projects
+-- 8. Organisation functions - create, members, roles, invitations
+-- 9. Shared producer settings - exchange rates and asset tags of shared
+--    projects' producers are readable by the organisation
+--
+-- Tables still open to every user (assets, quotes, messages, milestones,
+-- action items) are unchanged. Notifications for a shared project still go
+-- to its producer only.
+--
+-- Migration: 20250318000000_add_organisations.sql
+-- ============================================
+
+-- ============================================
+-- 1. ORGANISATIONS AND MEMBERS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.organisations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_by uuid REFERENCES public.producers(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TRIGGER update_organisations_updated_at
+  BEFORE UPDATE ON public.organisations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.organisation_members (
+  organisation_id uuid NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL UNIQUE REFERENCES public.producers(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('owner', 'producer', 'coordinator', 'finance')),
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (organisation_id, user_id)
+);
+
+COMMENT ON TABLE public.organisation_members IS 'Producers in an organisation. user_id is unique: a producer belongs to at most one organisation.';
+COMMENT ON COLUMN public.organisation_members.role IS 'owner, producer, coordinator or finance (view only). Changed through update_organisation_member_role.';
+
+-- ============================================
+-- 2. INVITATIONS
+-- ============================================
+-- The token is the secret in the invitation link; the invitee must sign in
+-- with the invited email address to accept it.
+
+CREATE TABLE IF NOT EXISTS public.organisation_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id uuid NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  email text NOT NULL CHECK (position('@' IN email) > 1),
+  role text NOT NULL CHECK (role IN ('owner', 'producer', 'coordinator', 'finance')),
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+  invited_by uuid REFERENCES public.producers(id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL DEFAULT (now() + interval '14 days'),
+  accepted_by uuid REFERENCES public.producers(id) ON DELETE SET NULL,
+  accepted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- One open invitation per address and organisation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organisation_invitations_pending_email
+ON public.organisation_invitations(organisation_id, lower(email))
+WHERE status = 'pending';
+
+COMMENT ON TABLE public.organisation_invitations IS 'Invitations to join an organisation, accepted with accept_organisation_invitation(token).';
+
+-- ============================================
+-- 3. ACCESS HELPERS
+-- ============================================
+-- SECURITY DEFINER so policies can check membership without recursing into
+-- the RLS of organisation_members and projects; both only report on the
+-- caller.
+
+CREATE OR REPLACE FUNCTION public.has_organisation_role(
+  p_organisation_id uuid,
+  p_roles text[] DEFAULT ARRAY['owner', 'producer', 'coordinator', 'finance']
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_organisation_id IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM public.organisation_members m
+    WHERE m.organisation_id = p_organisation_id
+      AND m.user_id = auth.uid()
+      AND m.role = ANY (p_roles)
+  );
+$$;
+
+COMMENT ON FUNCTION public.has_organisation_role(uuid, text[]) IS 'Whether the caller is a member of the organisation with one of the given roles (any role by default).';
+
+GRANT EXECUTE ON FUNCTION public.has_organisation_role(uuid, text[]) TO authenticated;
+
+-- Added here so the helper below compiles; policies follow in section 4
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS organisation_id uuid REFERENCES public.organisations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_organisation
+ON public.projects(organisation_id)
+WHERE organisation_id IS NOT NULL;
+
+COMMENT ON COLUMN public.projects.organisation_id IS 'Organisation the project is shared with. NULL = private to producer_id.';
+
+-- p_access: 'view' (any member), 'edit' (owner, producer, coordinator) or
+-- 'manage' (owner, producer: delete and change sharing). The project's own
+-- producer always has full access.
+CREATE OR REPLACE FUNCTION public.can_access_project(p_project_id uuid, p_access text DEFAULT 'view')
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.projects p
+    WHERE p.id = p_project_id
+      AND (
+        p.producer_id = auth.uid()
+        OR public.has_organisation_role(
+          p.organisation_id,
+          CASE p_access
+            WHEN 'manage' THEN ARRAY['owner', 'producer']
+            WHEN 'edit' THEN ARRAY['owner', 'producer', 'coordinator']
+            ELSE ARRAY['owner', 'producer', 'coordinator', 'finance']
+          END
+        )
+      )
+  );
+$$;
+
+COMMENT ON FUNCTION public.can_access_project(uuid, text) IS 'Whether the caller can view, edit or manage a project, as its producer or through a shared organisation.';
+
+GRANT EXECUTE ON FUNCTION public.can_access_project(uuid, text) TO authenticated;
+
+ALTER TABLE public.organisations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organisation_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organisation_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organisation"
+  ON public.organisations
+  FOR SELECT
+  TO authenticated
+  USING (public.has_organisation_role(id));
+
+CREATE POLICY "Owners can rename their organisation"
+  ON public.organisations
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_organisation_role(id, ARRAY['owner']))
+  WITH CHECK (public.has_organisation_role(id, ARRAY['owner']));
+
+-- Membership changes go through the functions in section 8
+CREATE POLICY "Members can view their organisation's members"
+  ON public.organisation_members
+  FOR SELECT
+  TO authenticated
+  USING (public.has_organisation_role(organisation_id));
+
+CREATE POLICY "Owners can view invitations"
+  ON public.organisation_invitations
+  FOR SELECT
+  TO authenticated
+  USING (public.has_organisation_role(organisation_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can invite members"
+  ON public.organisation_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_organisation_role(organisation_id, ARRAY['owner'])
+    AND invited_by = auth.uid()
+    AND status = 'pending'
+  );
+
+CREATE POLICY "Owners can revoke invitations"
+  ON public.organisation_invitations
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_organisation_role(organisation_id, ARRAY['owner']) AND status = 'pending')
+  WITH CHECK (public.has_organisation_role(organisation_id, ARRAY['owner']) AND status = 'revoked');
+
+-- ============================================
+-- 4. PROJECT SHARING
+-- ============================================
+
+DROP POLICY IF EXISTS "Producers can view their own projects" ON public.projects;
+DROP POLICY IF EXISTS "Producers can create projects for themselves" ON public.projects;
+DROP POLICY IF EXISTS "Producers can update their own projects" ON public.projects;
+DROP POLICY IF EXISTS "Producers can delete their own projects" ON public.projects;
+
+CREATE POLICY "Producers and organisation members can view projects"
+  ON public.projects
+  FOR SELECT
+  TO authenticated
+  USING (
+    producer_id = auth.uid()
+    OR public.has_organisation_role(organisation_id)
+  );
+
+CREATE POLICY "Producers can create projects for themselves"
+  ON public.projects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    producer_id = auth.uid()
+    AND (
+      organisation_id IS NULL
+      OR public.has_organisation_role(organisation_id, ARRAY['owner', 'producer', 'coordinator'])
+    )
+  );
+
+-- Who may change producer_id and organisation_id is checked by the trigger below
+CREATE POLICY "Producers and organisation editors can update projects"
+  ON public.projects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    producer_id = auth.uid()
+    OR public.has_organisation_role(organisation_id, ARRAY['owner', 'producer', 'coordinator'])
+  )
+  WITH CHECK (
+    producer_id = auth.uid()
+    OR public.has_organisation_role(organisation_id, ARRAY['owner', 'producer', 'coordinator'])
+  );
+
+CREATE POLICY "Producers and organisation managers can delete projects"
+  ON public.projects
+  FOR DELETE
+  TO authenticated
+  USING (
+    producer_id = auth.uid()
+    OR public.has_organisation_role(organisation_id, ARRAY['owner', 'producer'])
+  );
+
+-- Ownership never changes from the app, and sharing can only be changed by
+-- someone who manages the project, into an organisation they can edit in.
+-- The service role (no auth.uid()) is not restricted.
+CREATE OR REPLACE FUNCTION public.enforce_project_sharing()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.producer_id IS DISTINCT FROM OLD.producer_id THEN
+    RAISE EXCEPTION 'A project''s producer cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.organisation_id IS DISTINCT FROM OLD.organisation_id THEN
+    IF NOT (
+      OLD.producer_id = auth.uid()
+      OR public.has_organisation_role(OLD.organisation_id, ARRAY['owner', 'producer'])
+    ) THEN
+      RAISE EXCEPTION 'Only the project''s producer or an organisation owner or producer can change who it is shared with'
+        USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.organisation_id IS NOT NULL
+       AND NOT public.has_organisation_role(NEW.organisation_id, ARRAY['owner', 'producer', 'coordinator']) THEN
+      RAISE EXCEPTION 'Projects can only be shared with your own organisation' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_project_sharing ON public.projects;
+CREATE TRIGGER enforce_project_sharing
+  BEFORE UPDATE OF producer_id, organisation_id ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_project_sharing();
+
+-- ============================================
+-- 5. PROJECT-SCOPED POLICIES
+-- ============================================
+-- Every policy that checked p.producer_id = auth.uid() now asks
+-- can_access_project: 'view' to read and 'edit' to write, so finance
+-- members see shared data without being able to change it.
+
+-- Message attachments (20250210001000)
+DROP POLICY IF EXISTS "Users can view message attachments for owned quotes" ON public.message_attachments;
+DROP POLICY IF EXISTS "Users can insert message attachments for owned quotes" ON public.message_attachments;
+
+CREATE POLICY "Users can view message attachments for accessible quotes"
+  ON public.message_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.quotes q
+      JOIN public.assets a ON a.id = q.asset_id
+      WHERE q.id = message_attachments.quote_id
+        AND (
+          public.can_access_project(a.project_id, 'view')
+          OR q.supplier_id = auth.uid()
+        )
+    )
+  );
+
+CREATE POLICY "Users can insert message attachments for accessible quotes"
+  ON public.message_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.quotes q
+      JOIN public.assets a ON a.id = q.asset_id
+      WHERE q.id = message_attachments.quote_id
+        AND (
+          public.can_access_project(a.project_id, 'edit')
+          OR q.supplier_id = auth.uid()
+        )
+    )
+  );
+
+-- Asset timeline (20250225000000)
+DROP POLICY IF EXISTS "Producers can manage timeline events for owned assets" ON public.asset_timeline_events;
+DROP POLICY IF EXISTS "Producers can view timeline history for owned assets" ON public.asset_timeline_event_history;
+
+CREATE POLICY "Project members can view timeline events"
+  ON public.asset_timeline_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_timeline_events.asset_id
+        AND public.can_access_project(a.project_id, 'view')
+    )
+  );
+
+CREATE POLICY "Project editors can manage timeline events"
+  ON public.asset_timeline_events
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_timeline_events.asset_id
+        AND public.can_access_project(a.project_id, 'edit')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_timeline_events.asset_id
+        AND public.can_access_project(a.project_id, 'edit')
+    )
+  );
+
+CREATE POLICY "Project members can view timeline history"
+  ON public.asset_timeline_event_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_timeline_event_history.asset_id
+        AND public.can_access_project(a.project_id, 'view')
+    )
+  );
+
+-- Quote versions and line items (20250228000000, 20250301000000)
+DROP POLICY IF EXISTS "Producers can view quote versions for owned assets" ON public.quote_versions;
+DROP POLICY IF EXISTS "Producers can view line items for owned assets" ON public.quote_line_items;
+
+CREATE POLICY "Project members can view quote versions"
+  ON public.quote_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.quotes q
+      JOIN public.assets a ON a.id = q.asset_id
+      WHERE q.id = quote_versions.quote_id
+        AND public.can_access_project(a.project_id, 'view')
+    )
+  );
+
+CREATE POLICY "Project members can view quote line items"
+  ON public.quote_line_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.quotes q
+      JOIN public.assets a ON a.id = q.asset_id
+      WHERE q.id = quote_line_items.quote_id
+        AND public.can_access_project(a.project_id, 'view')
+    )
+  );
+
+-- Client approvals (20250302000000)
+DROP POLICY IF EXISTS "Producers can manage client approvals for owned projects" ON public.client_approvals;
+DROP POLICY IF EXISTS "Producers can view client approval history for owned projects" ON public.client_approval_history;
+
+CREATE POLICY "Project members can view client approvals"
+  ON public.client_approvals
+  FOR SELECT
+  TO authenticated
+  USING (public.can_access_project(project_id, 'view'));
+
+CREATE POLICY "Project editors can manage client approvals"
+  ON public.client_approvals
+  FOR ALL
+  TO authenticated
+  USING (public.can_access_project(project_id, 'edit'))
+  WITH CHECK (public.can_access_project(project_id, 'edit'));
+
+CREATE POLICY "Project members can view client approval history"
+  ON public.client_approval_history
+  FOR SELECT
+  TO authenticated
+  USING (public.can_access_project(project_id, 'view'));
+
+-- Budget allocations (20250303000000)
+DROP POLICY IF EXISTS "Producers can manage budget allocations for owned projects" ON public.budget_allocations;
+
+CREATE POLICY "Project members can view budget allocations"
+  ON public.budget_allocations
+  FOR SELECT
+  TO authenticated
+  USING (public.can_access_project(project_id, 'view'));
+
+CREATE POLICY "Project editors can manage budget allocations"
+  ON public.budget_allocations
+  FOR ALL
+  TO authenticated
+  USING (public.can_access_project(project_id, 'edit'))
+  WITH CHECK (public.can_access_project(project_id, 'edit'));
+
+-- Client messages and their attachments (20250304000000)
+DROP POLICY IF EXISTS "Producers can manage client messages for owned projects" ON public.client_messages;
+DROP POLICY IF EXISTS "Allow producers to upload client message attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Allow producers to read client message attachments" ON storage.objects;
+
+CREATE POLICY "Project members can view client messages"
+  ON public.client_messages
+  FOR SELECT
+  TO authenticated
+  USING (public.can_access_project(project_id, 'view'));
+
+CREATE POLICY "Project editors can manage client messages"
+  ON public.client_messages
+  FOR ALL
+  TO authenticated
+  USING (public.can_access_project(project_id, 'edit'))
+  WITH CHECK (public.can_access_project(project_id, 'edit'));
+
+-- The second folder segment is the project ID
+CREATE POLICY "Allow producers to upload client message attachments"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'quote-attachments' AND
+  (storage.foldername(name))[1] = 'client-messages' AND
+  EXISTS (
+    SELECT 1
+    FROM public.projects p
+    WHERE p.id::text = (storage.foldername(name))[2]
+      AND public.can_access_project(p.id, 'edit')
+  )
+);
+
+CREATE POLICY "Allow producers to read client message attachments"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'quote-attachments' AND
+  (storage.foldername(name))[1] = 'client-messages' AND
+  EXISTS (
+    SELECT 1
+    FROM public.projects p
+    WHERE p.id::text = (storage.foldername(name))[2]
+      AND public.can_access_project(p.id, 'view')
+  )
+);
+
+-- Quote follow-ups (20250307000000)
+DROP POLICY IF EXISTS "Producers can view follow-ups for owned projects" ON public.quote_follow_ups;
+
+CREATE POLICY "Project members can view follow-ups"
+  ON public.quote_follow_ups
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.quotes q
+      JOIN public.assets a ON a.id = q.asset_id
+      WHERE q.id = quote_follow_ups.quote_id
+        AND public.can_access_project(a.project_id, 'view')
+    )
+  );
+
+-- Bid seal history (20250309000000)
+DROP POLICY IF EXISTS "Producers can view bid seal history for owned projects" ON public.asset_bid_seal_history;
+
+CREATE POLICY "Project members can view bid seal history"
+  ON public.asset_bid_seal_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_bid_seal_history.asset_id
+        AND public.can_access_project(a.project_id, 'view')
+    )
+  );
+
+-- Asset dependencies (20250313000000)
+DROP POLICY IF EXISTS "Producers can manage dependencies for owned assets" ON public.asset_dependencies;
+
+CREATE POLICY "Project members can view dependencies"
+  ON public.asset_dependencies
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_dependencies.successor_asset_id
+        AND public.can_access_project(a.project_id, 'view')
+    )
+  );
+
+CREATE POLICY "Project editors can manage dependencies"
+  ON public.asset_dependencies
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_dependencies.successor_asset_id
+        AND public.can_access_project(a.project_id, 'edit')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_dependencies.successor_asset_id
+        AND public.can_access_project(a.project_id, 'edit')
+    )
+  );
+
+-- ============================================
+-- 6. ORGANISATION SUPPLIERS
+-- ============================================
+-- Suppliers added by an organisation member belong to the organisation and
+-- are shared by all its members. Existing suppliers and those added by
+-- producers outside an organisation (organisation_id NULL) stay in the open
+-- directory exactly as before.
+
+ALTER TABLE public.suppliers
+ADD COLUMN IF NOT EXISTS organisation_id uuid REFERENCES public.organisations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_suppliers_organisation
+ON public.suppliers(organisation_id)
+WHERE organisation_id IS NOT NULL;
+
+COMMENT ON COLUMN public.suppliers.organisation_id IS 'Organisation that owns the supplier. NULL = open directory.';
+
+-- New suppliers belong to the creator's organisation. On update, a supplier
+-- can't be moved into an organisation: permissive policies are OR'ed, so an
+-- editor could otherwise pass the directory policy's USING and their own
+-- policy's WITH CHECK and take a directory supplier away from everyone else.
+-- Clearing it (including ON DELETE SET NULL) is still allowed.
+CREATE OR REPLACE FUNCTION public.set_supplier_organisation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.organisation_id IS NOT NULL
+       AND NEW.organisation_id IS DISTINCT FROM OLD.organisation_id THEN
+      RAISE EXCEPTION 'A supplier can''t be moved into an organisation'
+        USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.organisation_id IS NULL AND auth.uid() IS NOT NULL THEN
+    SELECT m.organisation_id INTO NEW.organisation_id
+    FROM public.organisation_members m
+    WHERE m.user_id = auth.uid();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_supplier_organisation ON public.suppliers;
+CREATE TRIGGER set_supplier_organisation
+  BEFORE INSERT OR UPDATE OF organisation_id ON public.suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_supplier_organisation();
+
+DROP POLICY IF EXISTS "Allow all operations on suppliers" ON public.suppliers;
+
+CREATE POLICY "Allow all operations on directory suppliers"
+  ON public.suppliers
+  FOR ALL
+  TO public
+  USING (organisation_id IS NULL)
+  WITH CHECK (organisation_id IS NULL);
+
+CREATE POLICY "Members can view organisation suppliers"
+  ON public.suppliers
+  FOR SELECT
+  TO authenticated
+  USING (public.has_organisation_role(organisation_id));
+
+CREATE POLICY "Organisation editors can manage organisation suppliers"
+  ON public.suppliers
+  FOR ALL
+  TO authenticated
+  USING (public.has_organisation_role(organisation_id, ARRAY['owner', 'producer', 'coordinator']))
+  WITH CHECK (public.has_organisation_role(organisation_id, ARRAY['owner', 'producer', 'coordinator']));
+
+-- ============================================
+-- 7. INBOX FUNCTIONS
+-- ============================================
+-- Same as 20250314000000_add_producer_inbox.sql and the 20250315000000
+-- mark_quote_messages_read, but covering projects shared with the caller.
+
+CREATE OR REPLACE FUNCTION public.get_producer_inbox()
+RETURNS TABLE (
+  quote_id uuid,
+  quote_status text,
+  project_id uuid,
+  project_name text,
+  asset_id uuid,
+  asset_name text,
+  supplier_id uuid,
+  supplier_name text,
+  last_message_content text,
+  last_message_sender text,
+  last_message_at timestamptz,
+  message_count integer,
+  unread_count integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.status,
+    p.id,
+    p.project_name,
+    a.id,
+    a.asset_name,
+    s.id,
+    s.supplier_name,
+    last_message.content,
+    last_message.sender_type,
+    last_message.created_at,
+    counts.message_count,
+    counts.unread_count
+  FROM public.quotes q
+  JOIN public.assets a ON a.id = q.asset_id
+  JOIN public.projects p ON p.id = a.project_id
+  JOIN public.suppliers s ON s.id = q.supplier_id
+  JOIN LATERAL (
+    SELECT
+      count(*)::integer AS message_count,
+      (count(*) FILTER (WHERE NOT m.is_read AND m.sender_type = 'SUPPLIER'))::integer AS unread_count
+    FROM public.messages m
+    WHERE m.quote_id = q.id
+  ) counts ON counts.message_count > 0
+  JOIN LATERAL (
+    SELECT m.content, m.sender_type, m.created_at
+    FROM public.messages m
+    WHERE m.quote_id = q.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_message ON true
+  WHERE public.can_access_project(p.id, 'view')
+  ORDER BY last_message.created_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_producer_unread_message_count()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM public.messages m
+  JOIN public.quotes q ON q.id = m.quote_id
+  JOIN public.assets a ON a.id = q.asset_id
+  WHERE public.can_access_project(a.project_id, 'view')
+    AND m.is_read = false
+    AND m.sender_type = 'SUPPLIER';
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_quote_messages_read(p_quote_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.quotes q
+    JOIN public.assets a ON a.id = q.asset_id
+    WHERE q.id = p_quote_id
+      AND public.can_access_project(a.project_id, 'view')
+  ) THEN
+    RAISE EXCEPTION 'Quote not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.messages
+  SET is_read = true
+  WHERE quote_id = p_quote_id
+    AND is_read = false
+    AND sender_type = 'SUPPLIER';
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE public.notifications
+  SET read_at = now()
+  WHERE producer_id = auth.uid()
+    AND quote_id = p_quote_id
+    AND event_type = 'supplier_message'
+    AND read_at IS NULL;
+
+  RETURN v_updated;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_producer_inbox() IS 'Quote conversations on projects the caller owns or that are shared with them, newest first, with the last message and unread count.';
+COMMENT ON FUNCTION public.get_producer_unread_message_count() IS 'Number of unread supplier messages across the caller''s own and shared quotes.';
+
+-- ============================================
+-- 8. ORGANISATION FUNCTIONS
+-- ============================================
+-- SECURITY DEFINER because members have no write policies on
+-- organisation_members; each function checks the caller's role itself.
+
+CREATE OR REPLACE FUNCTION public.create_organisation(p_name text)
+RETURNS public.organisations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organisation public.organisations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Organisation name is required' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.organisation_members WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You already belong to an organisation' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.organisations (name, created_by)
+  VALUES (trim(p_name), auth.uid())
+  RETURNING * INTO v_organisation;
+
+  INSERT INTO public.organisation_members (organisation_id, user_id, role)
+  VALUES (v_organisation.id, auth.uid(), 'owner');
+
+  RETURN v_organisation;
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_organisation(text) IS 'Creates an organisation with the caller as its owner.';
+
+-- Producers can only read their own row, so member names come from here
+CREATE OR REPLACE FUNCTION public.get_organisation_members()
+RETURNS TABLE (
+  user_id uuid,
+  full_name text,
+  email text,
+  role text,
+  joined_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.user_id, pr.full_name, pr.email, m.role, m.joined_at
+  FROM public.organisation_members m
+  JOIN public.producers pr ON pr.id = m.user_id
+  WHERE m.organisation_id = (
+    SELECT own.organisation_id FROM public.organisation_members own WHERE own.user_id = auth.uid()
+  )
+  ORDER BY m.joined_at;
+$$;
+
+COMMENT ON FUNCTION public.get_organisation_members() IS 'Members of the caller''s organisation with their names and emails.';
+
+-- Raises if the change would leave the organisation without an owner
+CREATE OR REPLACE FUNCTION public.assert_organisation_keeps_owner(p_organisation_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.organisation_members
+    WHERE organisation_id = p_organisation_id
+      AND role = 'owner'
+      AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'An organisation needs at least one owner' USING ERRCODE = '23514';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assert_organisation_keeps_owner(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.update_organisation_member_role(p_user_id uuid, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.organisation_members;
+BEGIN
+  IF p_role NOT IN ('owner', 'producer', 'coordinator', 'finance') THEN
+    RAISE EXCEPTION 'Unknown role %', p_role USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_member FROM public.organisation_members WHERE user_id = p_user_id;
+  IF v_member.user_id IS NULL OR NOT public.has_organisation_role(v_member.organisation_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only organisation owners can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_member.role = 'owner' AND p_role <> 'owner' THEN
+    PERFORM public.assert_organisation_keeps_owner(v_member.organisation_id, p_user_id);
+  END IF;
+
+  UPDATE public.organisation_members
+  SET role = p_role
+  WHERE user_id = p_user_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.update_organisation_member_role(uuid, text) IS 'Changes a member''s role. Owners only; the last owner cannot be demoted.';
+
+-- Owners can remove anyone and members can remove themselves (leave).
+-- Projects the member owns keep their sharing; they stay the producer.
+CREATE OR REPLACE FUNCTION public.remove_organisation_member(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.organisation_members;
+BEGIN
+  SELECT * INTO v_member FROM public.organisation_members WHERE user_id = p_user_id;
+  IF v_member.user_id IS NULL
+     OR NOT (p_user_id = auth.uid() OR public.has_organisation_role(v_member.organisation_id, ARRAY['owner'])) THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_member.role = 'owner' THEN
+    PERFORM public.assert_organisation_keeps_owner(v_member.organisation_id, p_user_id);
+  END IF;
+
+  DELETE FROM public.organisation_members WHERE user_id = p_user_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.remove_organisation_member(uuid) IS 'Removes a member (owners) or leaves the organisation (own user id).';
+
+-- Shown on the invitation page before accepting; the token is the secret
+CREATE OR REPLACE FUNCTION public.get_organisation_invitation(p_token uuid)
+RETURNS TABLE (
+  organisation_name text,
+  email text,
+  role text,
+  status text,
+  expires_at timestamptz,
+  invited_by_name text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.name, i.email, i.role, i.status, i.expires_at, coalesce(pr.full_name, pr.email)
+  FROM public.organisation_invitations i
+  JOIN public.organisations o ON o.id = i.organisation_id
+  LEFT JOIN public.producers pr ON pr.id = i.invited_by
+  WHERE i.token = p_token;
+$$;
+
+COMMENT ON FUNCTION public.get_organisation_invitation(uuid) IS 'Invitation details for the accept page, looked up by token.';
+
+CREATE OR REPLACE FUNCTION public.accept_organisation_invitation(p_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.organisation_invitations;
+  v_current_organisation_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM public.organisation_invitations
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF v_invitation.id IS NULL OR v_invitation.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invitation is no longer valid' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'This invitation has expired' USING ERRCODE = 'P0002';
+  END IF;
+  IF lower(v_invitation.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.producers WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only producer accounts can join an organisation' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT organisation_id INTO v_current_organisation_id
+  FROM public.organisation_members
+  WHERE user_id = auth.uid();
+
+  IF v_current_organisation_id IS NULL THEN
+    INSERT INTO public.organisation_members (organisation_id, user_id, role)
+    VALUES (v_invitation.organisation_id, auth.uid(), v_invitation.role);
+  ELSIF v_current_organisation_id <> v_invitation.organisation_id THEN
+    RAISE EXCEPTION 'You already belong to an organisation. Leave it before accepting this invitation.'
+      USING ERRCODE = '23505';
+  END IF;
+
+  UPDATE public.organisation_invitations
+  SET status = 'accepted', accepted_by = auth.uid(), accepted_at = now()
+  WHERE id = v_invitation.id;
+
+  RETURN v_invitation.organisation_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.accept_organisation_invitation(uuid) IS 'Joins the invitation''s organisation with its role. The caller must be signed in with the invited email.';
+
+GRANT EXECUTE ON FUNCTION public.create_organisation(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_organisation_members() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_organisation_member_role(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_organisation_member(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_organisation_invitation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_organisation_invitation(uuid) TO authenticated;
+
+-- ============================================
+-- 9. SHARED PRODUCER SETTINGS
+-- ============================================
+-- Budgets, estimates and exports of a shared project convert quotes with its
+-- producer's exchange rates and label assets with its producer's tags, so
+-- members who can view the project can read both. Changes stay with their
+-- producer.
+
+-- SECURITY DEFINER so the policies below can look at projects without
+-- recursing into its RLS; only reports on the caller.
+CREATE OR REPLACE FUNCTION public.can_view_producer_settings(p_producer_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_producer_id = auth.uid() OR EXISTS (
+    SELECT 1
+    FROM public.projects p
+    WHERE p.producer_id = p_producer_id
+      AND p.organisation_id IS NOT NULL
+      AND public.has_organisation_role(p.organisation_id)
+  );
+$$;
+
+COMMENT ON FUNCTION public.can_view_producer_settings(uuid) IS 'Whether the caller is the producer or a member of an organisation the producer shares a project with.';
+
+GRANT EXECUTE ON FUNCTION public.can_view_producer_settings(uuid) TO authenticated;
+
+CREATE POLICY "Organisation members can view shared producers' exchange rates"
+  ON public.exchange_rates
+  FOR SELECT
+  TO authenticated
+  USING (public.can_view_producer_settings(producer_id));
+
+CREATE POLICY "Organisation members can view shared producers' asset tags"
+  ON public.asset_tags
+  FOR SELECT
+  TO authenticated
+  USING (public.can_view_producer_settings(producer_id));
@@ -29,10 +29,22 @@ INSERT INTO assets (project_id, asset_name, specifications, timeline, status, as
 ((SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024'), 'Breakout Room AV', 'AV equipment for 5 breakout rooms', '2024-06-14', 'In Production', (SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems')),
 ((SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024'), 'Registration Materials', 'Name badges, lanyards, programs for 500', '2024-06-10', 'Delivered', (SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'));
 
-INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity, status, valid_until, response_time_hours) VALUES
-((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup'), 8500.00, '{"labor": 3400, "materials": 2975, "equipment": 1700, "other": 425}'::jsonb, 'Professional stage with full AV integration', 'Accepted', '2024-06-20', 24),
-((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Breakout Room AV'), 3200.00, '{"labor": 960, "materials": 320, "equipment": 1760, "other": 160}'::jsonb, 'Complete AV for 5 rooms with technician', 'Accepted', '2024-06-20', 18),
-((SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'), (SELECT id FROM assets WHERE asset_name = 'Registration Materials'), 1200.00, '{"labor": 240, "materials": 840, "equipment": 60, "other": 60}'::jsonb, '500 registration packets with custom design', 'Accepted', '2024-06-10', 12);
+INSERT INTO quotes (supplier_id, asset_id, cost, notes_capacity, status, valid_until, response_time_hours) VALUES
+((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup'), 8500.00, 'Professional stage with full AV integration', 'Accepted', '2024-06-20', 24),
+((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Breakout Room AV'), 3200.00, 'Complete AV for 5 rooms with technician', 'Accepted', '2024-06-20', 18),
+((SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'), (SELECT id FROM assets WHERE asset_name = 'Registration Materials'), 1200.00, '500 registration packets with custom design', 'Accepted', '2024-06-10', 12);
+
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT q.id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup'), '{"labor": 3400, "materials": 2975, "equipment": 1700, "other": 425}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Breakout Room AV'), '{"labor": 960, "materials": 320, "equipment": 1760, "other": 160}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'), (SELECT id FROM assets WHERE asset_name = 'Registration Materials'), '{"labor": 240, "materials": 840, "equipment": 60, "other": 60}'::jsonb)
+) AS s(supplier_id, asset_id, breakdown)
+JOIN quotes q ON q.supplier_id = s.supplier_id AND q.asset_id = s.asset_id
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
 
 -- PROJECT 2: Eco Fashion Launch (Quoting)
 INSERT INTO projects (project_name, client_name, brief_description, physical_parameters, financial_parameters, timeline_deadline, project_status, use_ai_allocation) VALUES
@@ -42,10 +54,22 @@ INSERT INTO assets (project_id, asset_name, specifications, timeline, status) VA
 ((SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch'), 'Runway Setup', '40ft runway with eco-friendly LED lighting', '2024-07-19', 'Quoting'),
 ((SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch'), 'Panel Discussion Area', 'Panel setup for 100 with microphones', '2024-07-20', 'Quoting');
 
-INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity, status, valid_until, response_time_hours) VALUES
-((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')), 6500.00, '{"labor": 1950, "materials": 1300, "equipment": 2925, "other": 325}'::jsonb, 'Eco-friendly LED lighting system', 'Submitted', '2024-07-25', 24),
-((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')), 7200.00, '{"labor": 2160, "materials": 1440, "equipment": 3240, "other": 360}'::jsonb, 'Premium runway with fashion expertise', 'Submitted', '2024-07-24', 18),
-((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Panel Discussion Area'), 2200.00, '{"labor": 660, "materials": 220, "equipment": 1210, "other": 110}'::jsonb, 'Panel setup with recording equipment', 'Submitted', '2024-07-25', 12);
+INSERT INTO quotes (supplier_id, asset_id, cost, notes_capacity, status, valid_until, response_time_hours) VALUES
+((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')), 6500.00, 'Eco-friendly LED lighting system', 'Submitted', '2024-07-25', 24),
+((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')), 7200.00, 'Premium runway with fashion expertise', 'Submitted', '2024-07-24', 18),
+((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Panel Discussion Area'), 2200.00, 'Panel setup with recording equipment', 'Submitted', '2024-07-25', 12);
+
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT q.id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')), '{"labor": 1950, "materials": 1300, "equipment": 2925, "other": 325}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')), '{"labor": 2160, "materials": 1440, "equipment": 3240, "other": 360}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Panel Discussion Area'), '{"labor": 660, "materials": 220, "equipment": 1210, "other": 110}'::jsonb)
+) AS s(supplier_id, asset_id, breakdown)
+JOIN quotes q ON q.supplier_id = s.supplier_id AND q.asset_id = s.asset_id
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
 
 -- PROJECT 3: Luxury Wedding (New)
 INSERT INTO projects (project_name, client_name, brief_description, physical_parameters, financial_parameters, timeline_deadline, project_status, use_ai_allocation) VALUES
@@ -63,8 +87,18 @@ INSERT INTO assets (project_id, asset_name, specifications, timeline, status, as
 ((SELECT id FROM projects WHERE project_name = 'Luxury Watch Launch'), 'Display Cases', 'Premium display cases with security lighting', '2024-09-09', 'Quoting', NULL),
 ((SELECT id FROM projects WHERE project_name = 'Luxury Watch Launch'), 'VIP Reception', 'Exclusive reception with premium catering', '2024-09-10', 'Approved', (SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'));
 
-INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity, status, valid_until, response_time_hours) VALUES
-((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'VIP Reception'), 5500.00, '{"labor": 2750, "materials": 2200, "equipment": 275, "other": 275}'::jsonb, 'Premium VIP catering with champagne service', 'Accepted', '2024-09-12', 30);
+INSERT INTO quotes (supplier_id, asset_id, cost, notes_capacity, status, valid_until, response_time_hours) VALUES
+((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'VIP Reception'), 5500.00, 'Premium VIP catering with champagne service', 'Accepted', '2024-09-12', 30);
+
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT q.id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'VIP Reception'), '{"labor": 2750, "materials": 2200, "equipment": 275, "other": 275}'::jsonb)
+) AS s(supplier_id, asset_id, breakdown)
+JOIN quotes q ON q.supplier_id = s.supplier_id AND q.asset_id = s.asset_id
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
 
 -- PROJECT 5: Trade Show (Completed)
 INSERT INTO projects (project_name, client_name, brief_description, physical_parameters, financial_parameters, timeline_deadline, project_status, use_ai_allocation, ai_allocation_enabled_at, ai_allocation_completed_at) VALUES
@@ -74,9 +108,20 @@ INSERT INTO assets (project_id, asset_name, specifications, timeline, status, as
 ((SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo'), 'Exhibition Hall Setup', '100 booth spaces with power and lighting', '2024-05-11', 'Delivered', (SELECT id FROM suppliers WHERE supplier_name = 'Mega Event Productions')),
 ((SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo'), 'Conference Room AV', 'AV for 5 conference rooms', '2024-05-11', 'Delivered', (SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'));
 
-INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity, status, valid_until, response_time_hours) VALUES
-((SELECT id FROM suppliers WHERE supplier_name = 'Mega Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Hall Setup'), 25000.00, '{"labor": 10000, "materials": 7500, "equipment": 6250, "other": 1250}'::jsonb, 'Complete exhibition hall with 100 booths', 'Accepted', '2024-05-15', 24),
-((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Conference Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo')), 8500.00, '{"labor": 2550, "materials": 850, "equipment": 4675, "other": 425}'::jsonb, 'AV equipment with technician support', 'Accepted', '2024-05-15', 18);
+INSERT INTO quotes (supplier_id, asset_id, cost, notes_capacity, status, valid_until, response_time_hours) VALUES
+((SELECT id FROM suppliers WHERE supplier_name = 'Mega Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Hall Setup'), 25000.00, 'Complete exhibition hall with 100 booths', 'Accepted', '2024-05-15', 24),
+((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Conference Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo')), 8500.00, 'AV equipment with technician support', 'Accepted', '2024-05-15', 18);
+
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT q.id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Mega Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Hall Setup'), '{"labor": 10000, "materials": 7500, "equipment": 6250, "other": 1250}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Conference Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo')), '{"labor": 2550, "materials": 850, "equipment": 4675, "other": 425}'::jsonb)
+) AS s(supplier_id, asset_id, breakdown)
+JOIN quotes q ON q.supplier_id = s.supplier_id AND q.asset_id = s.asset_id
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
 
 -- PROJECT 6: Music Festival (Cancelled)
 INSERT INTO projects (project_name, client_name, brief_description, physical_parameters, financial_parameters, timeline_deadline, project_status, use_ai_allocation) VALUES
@@ -94,10 +139,22 @@ INSERT INTO assets (project_id, asset_name, specifications, timeline, status) VA
 ((SELECT id FROM projects WHERE project_name = 'Fortune 500 Annual Gala'), 'Awards Stage', 'Stage with backdrop and podium', '2024-10-14', 'Quoting'),
 ((SELECT id FROM projects WHERE project_name = 'Fortune 500 Annual Gala'), 'Dinner Service', 'Formal dinner for 300', '2024-10-15', 'Quoting');
 
-INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity, status, valid_until, response_time_hours) VALUES
-((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Awards Stage'), 6800.00, '{"labor": 2720, "materials": 2380, "equipment": 1360, "other": 340}'::jsonb, 'Professional awards ceremony stage', 'Submitted', '2024-10-18', 20),
-((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'Dinner Service'), 9500.00, '{"labor": 4750, "materials": 3800, "equipment": 475, "other": 475}'::jsonb, 'Premium gala dinner service', 'Submitted', '2024-10-18', 28),
-((SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'), (SELECT id FROM assets WHERE asset_name = 'Dinner Service'), 8200.00, '{"labor": 4100, "materials": 3280, "equipment": 410, "other": 410}'::jsonb, 'Elegant dinner with local sourcing', 'Submitted', '2024-10-17', 16);
+INSERT INTO quotes (supplier_id, asset_id, cost, notes_capacity, status, valid_until, response_time_hours) VALUES
+((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Awards Stage'), 6800.00, 'Professional awards ceremony stage', 'Submitted', '2024-10-18', 20),
+((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'Dinner Service'), 9500.00, 'Premium gala dinner service', 'Submitted', '2024-10-18', 28),
+((SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'), (SELECT id FROM assets WHERE asset_name = 'Dinner Service'), 8200.00, 'Elegant dinner with local sourcing', 'Submitted', '2024-10-17', 16);
+
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT q.id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Awards Stage'), '{"labor": 2720, "materials": 2380, "equipment": 1360, "other": 340}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'Dinner Service'), '{"labor": 4750, "materials": 3800, "equipment": 475, "other": 475}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'), (SELECT id FROM assets WHERE asset_name = 'Dinner Service'), '{"labor": 4100, "materials": 3280, "equipment": 410, "other": 410}'::jsonb)
+) AS s(supplier_id, asset_id, breakdown)
+JOIN quotes q ON q.supplier_id = s.supplier_id AND q.asset_id = s.asset_id
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
 
 -- PROJECT 8: Art Exhibition (In Progress)
 INSERT INTO projects (project_name, client_name, brief_description, physical_parameters, financial_parameters, timeline_deadline, project_status, use_ai_allocation) VALUES
@@ -107,9 +164,20 @@ INSERT INTO assets (project_id, asset_name, specifications, timeline, status, as
 ((SELECT id FROM projects WHERE project_name = 'Contemporary Art Fair'), 'Gallery Lighting', 'Professional gallery lighting for artwork', '2024-11-07', 'Approved', (SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co')),
 ((SELECT id FROM projects WHERE project_name = 'Contemporary Art Fair'), 'Event Signage', 'Directional and artwork labels', '2024-11-06', 'In Production', (SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'));
 
-INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity, status, valid_until, response_time_hours) VALUES
-((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Gallery Lighting'), 3400.00, '{"labor": 1020, "materials": 680, "equipment": 1530, "other": 170}'::jsonb, 'Professional gallery lighting system', 'Accepted', '2024-11-10', 14),
-((SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'), (SELECT id FROM assets WHERE asset_name = 'Event Signage'), 850.00, '{"labor": 170, "materials": 595, "equipment": 42.5, "other": 42.5}'::jsonb, 'Custom signage and labels', 'Accepted', '2024-11-08', 8);
+INSERT INTO quotes (supplier_id, asset_id, cost, notes_capacity, status, valid_until, response_time_hours) VALUES
+((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Gallery Lighting'), 3400.00, 'Professional gallery lighting system', 'Accepted', '2024-11-10', 14),
+((SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'), (SELECT id FROM assets WHERE asset_name = 'Event Signage'), 850.00, 'Custom signage and labels', 'Accepted', '2024-11-08', 8);
+
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT q.id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Gallery Lighting'), '{"labor": 1020, "materials": 680, "equipment": 1530, "other": 170}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'), (SELECT id FROM assets WHERE asset_name = 'Event Signage'), '{"labor": 170, "materials": 595, "equipment": 42.5, "other": 42.5}'::jsonb)
+) AS s(supplier_id, asset_id, breakdown)
+JOIN quotes q ON q.supplier_id = s.supplier_id AND q.asset_id = s.asset_id
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
 
 -- PROJECT 9: Startup Pitch (Completed, AI enabled)
 INSERT INTO projects (project_name, client_name, brief_description, physical_parameters, financial_parameters, timeline_deadline, project_status, use_ai_allocation, ai_allocation_enabled_at, ai_allocation_completed_at) VALUES
@@ -119,9 +187,20 @@ INSERT INTO assets (project_id, asset_name, specifications, timeline, status, as
 ((SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition'), 'Presentation Stage', 'Compact stage with projection', '2024-04-27', 'Delivered', (SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions')),
 ((SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition'), 'Networking Lounge', 'Lounge setup with refreshments', '2024-04-28', 'Delivered', (SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'));
 
-INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity, status, valid_until, response_time_hours) VALUES
-((SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'), (SELECT id FROM assets WHERE asset_name = 'Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition')), 1800.00, '{"labor": 720, "materials": 630, "equipment": 360, "other": 90}'::jsonb, 'Stage with projection screen', 'Accepted', '2024-04-25', 6),
-((SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'), (SELECT id FROM assets WHERE asset_name = 'Networking Lounge'), 950.00, '{"labor": 475, "materials": 380, "equipment": 47.5, "other": 47.5}'::jsonb, 'Light refreshments and coffee', 'Accepted', '2024-04-26', 4);
+INSERT INTO quotes (supplier_id, asset_id, cost, notes_capacity, status, valid_until, response_time_hours) VALUES
+((SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'), (SELECT id FROM assets WHERE asset_name = 'Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition')), 1800.00, 'Stage with projection screen', 'Accepted', '2024-04-25', 6),
+((SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'), (SELECT id FROM assets WHERE asset_name = 'Networking Lounge'), 950.00, 'Light refreshments and coffee', 'Accepted', '2024-04-26', 4);
+
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT q.id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'), (SELECT id FROM assets WHERE asset_name = 'Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition')), '{"labor": 720, "materials": 630, "equipment": 360, "other": 90}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'), (SELECT id FROM assets WHERE asset_name = 'Networking Lounge'), '{"labor": 475, "materials": 380, "equipment": 47.5, "other": 47.5}'::jsonb)
+) AS s(supplier_id, asset_id, breakdown)
+JOIN quotes q ON q.supplier_id = s.supplier_id AND q.asset_id = s.asset_id
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
 
 -- PROJECT 10: Marketing Summit (Quoting)
 INSERT INTO projects (project_name, client_name, brief_description, physical_parameters, financial_parameters, timeline_deadline, project_status, use_ai_allocation) VALUES
@@ -132,12 +211,26 @@ INSERT INTO assets (project_id, asset_name, specifications, timeline, status) VA
 ((SELECT id FROM projects WHERE project_name = 'Global Marketing Summit'), 'Exhibition Booths', '20 exhibition booths with power', '2024-12-14', 'Quoting'),
 ((SELECT id FROM projects WHERE project_name = 'Global Marketing Summit'), 'Gala Dinner', 'Dinner for 300 with awards', '2024-12-15', 'Quoting');
 
-INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity, status, valid_until, response_time_hours) VALUES
-((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), 10500.00, '{"labor": 4200, "materials": 3675, "equipment": 2100, "other": 525}'::jsonb, 'Professional stage with full AV', 'Submitted', '2024-12-18', 18),
-((SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'), (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), 9800.00, '{"labor": 3920, "materials": 3430, "equipment": 1960, "other": 490}'::jsonb, 'Cost-effective stage solution', 'Submitted', '2024-12-19', 12),
-((SELECT id FROM suppliers WHERE supplier_name = 'Banner Masters'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Booths'), 16500.00, '{"labor": 5775, "materials": 8250, "equipment": 1650, "other": 825}'::jsonb, 'Premium exhibition booths', 'Submitted', '2024-12-17', 42),
-((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'Gala Dinner'), 8500.00, '{"labor": 4250, "materials": 3400, "equipment": 425, "other": 425}'::jsonb, 'Elegant dinner service', 'Submitted', '2024-12-18', 36),
-((SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'), (SELECT id FROM assets WHERE asset_name = 'Gala Dinner'), 7200.00, '{"labor": 3600, "materials": 2880, "equipment": 360, "other": 360}'::jsonb, 'Quality dinner with local ingredients', 'Submitted', '2024-12-16', 24);
+INSERT INTO quotes (supplier_id, asset_id, cost, notes_capacity, status, valid_until, response_time_hours) VALUES
+((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), 10500.00, 'Professional stage with full AV', 'Submitted', '2024-12-18', 18),
+((SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'), (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), 9800.00, 'Cost-effective stage solution', 'Submitted', '2024-12-19', 12),
+((SELECT id FROM suppliers WHERE supplier_name = 'Banner Masters'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Booths'), 16500.00, 'Premium exhibition booths', 'Submitted', '2024-12-17', 42),
+((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'Gala Dinner'), 8500.00, 'Elegant dinner service', 'Submitted', '2024-12-18', 36),
+((SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'), (SELECT id FROM assets WHERE asset_name = 'Gala Dinner'), 7200.00, 'Quality dinner with local ingredients', 'Submitted', '2024-12-16', 24);
+
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT q.id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), '{"labor": 4200, "materials": 3675, "equipment": 2100, "other": 525}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'), (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), '{"labor": 3920, "materials": 3430, "equipment": 1960, "other": 490}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Banner Masters'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Booths'), '{"labor": 5775, "materials": 8250, "equipment": 1650, "other": 825}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'Gala Dinner'), '{"labor": 4250, "materials": 3400, "equipment": 425, "other": 425}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'), (SELECT id FROM assets WHERE asset_name = 'Gala Dinner'), '{"labor": 3600, "materials": 2880, "equipment": 360, "other": 360}'::jsonb)
+) AS s(supplier_id, asset_id, breakdown)
+JOIN quotes q ON q.supplier_id = s.supplier_id AND q.asset_id = s.asset_id
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
 
 -- AI Processing Logs (if table exists)
 DO $$
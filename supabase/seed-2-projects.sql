@@ -119,12 +119,11 @@ INSERT INTO assets (project_id, asset_name, specifications, timeline, status, as
 
 -- QUOTES with cost breakdown and comparison data
 -- Project 1 Quotes
-INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity, status, valid_until, response_time_hours) VALUES
+INSERT INTO quotes (supplier_id, asset_id, cost, notes_capacity, status, valid_until, response_time_hours) VALUES
 -- Main Stage: Accepted quote
 ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'),
  (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup'),
  8500.00,
- '{"labor": 3400.00, "materials": 2975.00, "equipment": 1700.00, "other": 425.00}'::jsonb,
  'Professional stage setup with full AV integration. Includes setup, operation, and breakdown. Experienced crew of 6.',
  'Accepted',
  '2024-06-20',
@@ -134,7 +133,6 @@ INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity,
 ((SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'),
  (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup'),
  9200.00,
- '{"labor": 3680.00, "materials": 3220.00, "equipment": 1840.00, "other": 460.00}'::jsonb,
  'Premium stage package with custom branding options and dedicated project manager.',
  'Rejected',
  '2024-06-19',
@@ -144,7 +142,6 @@ INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity,
 ((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'),
  (SELECT id FROM assets WHERE asset_name = 'Breakout Room AV Package'),
  3200.00,
- '{"labor": 960.00, "materials": 320.00, "equipment": 1760.00, "other": 160.00}'::jsonb,
  'Complete AV for 5 rooms. Includes projectors, screens, microphones, and on-site technician.',
  'Accepted',
  '2024-06-20',
@@ -154,7 +151,6 @@ INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity,
 ((SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'),
  (SELECT id FROM assets WHERE asset_name = 'Registration Materials'),
  1200.00,
- '{"labor": 240.00, "materials": 840.00, "equipment": 60.00, "other": 60.00}'::jsonb,
  '500 complete registration packets with custom design. Fast turnaround, premium printing quality.',
  'Accepted',
  '2024-06-10',
@@ -164,7 +160,6 @@ INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity,
 ((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'),
  (SELECT id FROM assets WHERE asset_name = 'Networking Reception Catering'),
  4500.00,
- '{"labor": 2250.00, "materials": 1800.00, "equipment": 225.00, "other": 225.00}'::jsonb,
  'Premium cocktail reception with gourmet appetizers, full bar service, professional staff (8 people).',
  'Submitted',
  '2024-06-15',
@@ -173,19 +168,32 @@ INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity,
 ((SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'),
  (SELECT id FROM assets WHERE asset_name = 'Networking Reception Catering'),
  5200.00,
- '{"labor": 2600.00, "materials": 2080.00, "equipment": 260.00, "other": 260.00}'::jsonb,
  'Luxury catering package with premium menu, extensive bar, dedicated event coordinator.',
  'Submitted',
  '2024-06-14',
  48);
 
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT q.id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup'), '{"labor": 3400.00, "materials": 2975.00, "equipment": 1700.00, "other": 425.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'), (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup'), '{"labor": 3680.00, "materials": 3220.00, "equipment": 1840.00, "other": 460.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Breakout Room AV Package'), '{"labor": 960.00, "materials": 320.00, "equipment": 1760.00, "other": 160.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'), (SELECT id FROM assets WHERE asset_name = 'Registration Materials'), '{"labor": 240.00, "materials": 840.00, "equipment": 60.00, "other": 60.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'Networking Reception Catering'), '{"labor": 2250.00, "materials": 1800.00, "equipment": 225.00, "other": 225.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'), (SELECT id FROM assets WHERE asset_name = 'Networking Reception Catering'), '{"labor": 2600.00, "materials": 2080.00, "equipment": 260.00, "other": 260.00}'::jsonb)
+) AS s(supplier_id, asset_id, breakdown)
+JOIN quotes q ON q.supplier_id = s.supplier_id AND q.asset_id = s.asset_id
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
+
 -- Project 2 Quotes (multiple suppliers competing)
-INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity, status, valid_until, response_time_hours) VALUES
+INSERT INTO quotes (supplier_id, asset_id, cost, notes_capacity, status, valid_until, response_time_hours) VALUES
 -- Runway Setup: Three competing quotes
 ((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'),
  (SELECT id FROM assets WHERE asset_name = 'Runway Setup with Lighting'),
  6500.00,
- '{"labor": 1950.00, "materials": 1300.00, "equipment": 2925.00, "other": 325.00}'::jsonb,
  'Professional runway with eco-friendly LED lighting. Energy-efficient system, modern design.',
  'Submitted',
  '2024-07-25',
@@ -194,7 +202,6 @@ INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity,
 ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'),
  (SELECT id FROM assets WHERE asset_name = 'Runway Setup with Lighting'),
  7200.00,
- '{"labor": 2160.00, "materials": 1440.00, "equipment": 3240.00, "other": 360.00}'::jsonb,
  'Premium runway production with advanced lighting and sound. Fashion show expertise.',
  'Submitted',
  '2024-07-24',
@@ -203,7 +210,6 @@ INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity,
 ((SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'),
  (SELECT id FROM assets WHERE asset_name = 'Runway Setup with Lighting'),
  7800.00,
- '{"labor": 2340.00, "materials": 1560.00, "equipment": 3510.00, "other": 390.00}'::jsonb,
  'All-inclusive runway package with premium lighting, sound, and full event coordination.',
  'Submitted',
  '2024-07-23',
@@ -213,7 +219,6 @@ INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity,
 ((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'),
  (SELECT id FROM assets WHERE asset_name = 'Sustainability Panel Area'),
  2200.00,
- '{"labor": 660.00, "materials": 220.00, "equipment": 1210.00, "other": 110.00}'::jsonb,
  'Panel setup with professional microphones, presentation screen, recording. AV technician included.',
  'Submitted',
  '2024-07-25',
@@ -222,7 +227,6 @@ INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity,
 ((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'),
  (SELECT id FROM assets WHERE asset_name = 'Sustainability Panel Area'),
  2800.00,
- '{"labor": 840.00, "materials": 280.00, "equipment": 1540.00, "other": 140.00}'::jsonb,
  'Enhanced panel setup with premium lighting, advanced AV, and live streaming capabilities.',
  'Submitted',
  '2024-07-24',
@@ -232,12 +236,26 @@ INSERT INTO quotes (supplier_id, asset_id, cost, cost_breakdown, notes_capacity,
 ((SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'),
  (SELECT id FROM assets WHERE asset_name = 'Event Branding & Signage'),
  1800.00,
- '{"labor": 360.00, "materials": 1260.00, "equipment": 90.00, "other": 90.00}'::jsonb,
  'Eco-friendly printing on recycled materials. Sustainable inks, carbon-neutral production.',
  'Submitted',
  '2024-07-26',
  8);
 
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT q.id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup with Lighting'), '{"labor": 1950.00, "materials": 1300.00, "equipment": 2925.00, "other": 325.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup with Lighting'), '{"labor": 2160.00, "materials": 1440.00, "equipment": 3240.00, "other": 360.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup with Lighting'), '{"labor": 2340.00, "materials": 1560.00, "equipment": 3510.00, "other": 390.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Sustainability Panel Area'), '{"labor": 660.00, "materials": 220.00, "equipment": 1210.00, "other": 110.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Sustainability Panel Area'), '{"labor": 840.00, "materials": 280.00, "equipment": 1540.00, "other": 140.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'), (SELECT id FROM assets WHERE asset_name = 'Event Branding & Signage'), '{"labor": 360.00, "materials": 1260.00, "equipment": 90.00, "other": 90.00}'::jsonb)
+) AS s(supplier_id, asset_id, breakdown)
+JOIN quotes q ON q.supplier_id = s.supplier_id AND q.asset_id = s.asset_id
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
+
 -- AI Processing Logs (for Project 1 only - shows AI allocation feature)
 DO $$
 BEGIN
@@ -78,14 +78,13 @@ INSERT INTO assets (id, project_id, asset_name, specifications, timeline, status
    CURRENT_TIMESTAMP - INTERVAL '8 days');
 
 -- Accepted Quotes for Nebula Rising (with cost breakdowns)
-INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, cost_breakdown, created_at, updated_at) VALUES
+INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, created_at, updated_at) VALUES
   ('850e8400-e29b-41d4-a716-446655440001', 
    '550e8400-e29b-41d4-a716-446655440001',
    '750e8400-e29b-41d4-a716-446655440001',
    45000,
    'Premium cinema camera package with full support. Includes: Camera body, 5 prime lenses, wireless monitoring, media cards, and on-set technician.',
    'Accepted',
-   '{"labor": 8000, "materials": 0, "equipment": 35000, "other": 2000}'::jsonb,
    CURRENT_TIMESTAMP - INTERVAL '11 days',
    CURRENT_TIMESTAMP - INTERVAL '9 days'),
   
@@ -95,7 +94,6 @@ INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, cos
    38000,
    'Complete LED wall installation with Unreal Engine integration. Includes setup, calibration, and technical support throughout production.',
    'Accepted',
-   '{"labor": 12000, "materials": 15000, "equipment": 10000, "other": 1000}'::jsonb,
    CURRENT_TIMESTAMP - INTERVAL '9 days',
    CURRENT_TIMESTAMP - INTERVAL '7 days'),
   
@@ -105,10 +103,20 @@ INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, cos
    22000,
    'Custom-designed futuristic props and set pieces. All materials included, 3D printing and fabrication.',
    'Accepted',
-   '{"labor": 10000, "materials": 8000, "equipment": 3000, "other": 1000}'::jsonb,
    CURRENT_TIMESTAMP - INTERVAL '7 days',
    CURRENT_TIMESTAMP - INTERVAL '5 days');
 
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT s.quote_id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ('850e8400-e29b-41d4-a716-446655440001'::uuid, '{"labor": 8000, "materials": 0, "equipment": 35000, "other": 2000}'::jsonb),
+  ('850e8400-e29b-41d4-a716-446655440002'::uuid, '{"labor": 12000, "materials": 15000, "equipment": 10000, "other": 1000}'::jsonb),
+  ('850e8400-e29b-41d4-a716-446655440003'::uuid, '{"labor": 10000, "materials": 8000, "equipment": 3000, "other": 1000}'::jsonb)
+) AS s(quote_id, breakdown)
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
+
 -- Project 1.2: Documentary "Ocean Depths" (Medium Budget)
 INSERT INTO projects (id, project_name, client_name, brief_description, physical_parameters, financial_parameters, timeline_deadline, project_status, created_at) VALUES
   ('650e8400-e29b-41d4-a716-446655440002',
@@ -136,14 +144,13 @@ INSERT INTO assets (id, project_id, asset_name, specifications, timeline, status
    CURRENT_TIMESTAMP - INTERVAL '5 days');
 
 -- Accepted Quotes for Ocean Depths
-INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, cost_breakdown, created_at, updated_at) VALUES
+INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, created_at, updated_at) VALUES
   ('850e8400-e29b-41d4-a716-446655440004',
    '550e8400-e29b-41d4-a716-446655440001',
    '750e8400-e29b-41d4-a716-446655440004',
    28000,
    'Professional underwater camera housing with all necessary accessories. Rental for 8 weeks.',
    'Accepted',
-   '{"labor": 3000, "materials": 0, "equipment": 24000, "other": 1000}'::jsonb,
    CURRENT_TIMESTAMP - INTERVAL '5 days',
    CURRENT_TIMESTAMP - INTERVAL '3 days'),
   
@@ -153,10 +160,19 @@ INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, cos
    15000,
    'Complete underwater lighting package. Includes batteries, chargers, and waterproof power distribution.',
    'Accepted',
-   '{"labor": 2000, "materials": 0, "equipment": 12000, "other": 1000}'::jsonb,
    CURRENT_TIMESTAMP - INTERVAL '4 days',
    CURRENT_TIMESTAMP - INTERVAL '2 days');
 
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT s.quote_id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ('850e8400-e29b-41d4-a716-446655440004'::uuid, '{"labor": 3000, "materials": 0, "equipment": 24000, "other": 1000}'::jsonb),
+  ('850e8400-e29b-41d4-a716-446655440005'::uuid, '{"labor": 2000, "materials": 0, "equipment": 12000, "other": 1000}'::jsonb)
+) AS s(quote_id, breakdown)
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
+
 -- Project 1.3: Comedy Special "Stand-Up Royale" (Low Budget, Completed)
 INSERT INTO projects (id, project_name, client_name, brief_description, physical_parameters, financial_parameters, timeline_deadline, project_status, created_at) VALUES
   ('650e8400-e29b-41d4-a716-446655440003',
@@ -241,14 +257,13 @@ INSERT INTO assets (id, project_id, asset_name, specifications, timeline, status
    CURRENT_TIMESTAMP - INTERVAL '14 days');
 
 -- Accepted Quotes for Thunder Strike
-INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, cost_breakdown, created_at, updated_at) VALUES
+INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, created_at, updated_at) VALUES
   ('850e8400-e29b-41d4-a716-446655440008',
    '550e8400-e29b-41d4-a716-446655440001',
    '750e8400-e29b-41d4-a716-446655440008',
    75000,
    'Premium IMAX-certified camera package. 16-week rental with full technical support and backup equipment.',
    'Accepted',
-   '{"labor": 15000, "materials": 0, "equipment": 58000, "other": 2000}'::jsonb,
    CURRENT_TIMESTAMP - INTERVAL '17 days',
    CURRENT_TIMESTAMP - INTERVAL '15 days'),
   
@@ -258,7 +273,6 @@ INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, cos
    62000,
    'Custom set construction with safety-certified destructible elements. All materials and labor included.',
    'Accepted',
-   '{"labor": 30000, "materials": 28000, "equipment": 3000, "other": 1000}'::jsonb,
    CURRENT_TIMESTAMP - INTERVAL '15 days',
    CURRENT_TIMESTAMP - INTERVAL '13 days'),
   
@@ -268,10 +282,20 @@ INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, cos
    35000,
    'Professional stunt rigging system with certified safety equipment and experienced riggers.',
    'Accepted',
-   '{"labor": 18000, "materials": 5000, "equipment": 11000, "other": 1000}'::jsonb,
    CURRENT_TIMESTAMP - INTERVAL '13 days',
    CURRENT_TIMESTAMP - INTERVAL '11 days');
 
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT s.quote_id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ('850e8400-e29b-41d4-a716-446655440008'::uuid, '{"labor": 15000, "materials": 0, "equipment": 58000, "other": 2000}'::jsonb),
+  ('850e8400-e29b-41d4-a716-446655440009'::uuid, '{"labor": 30000, "materials": 28000, "equipment": 3000, "other": 1000}'::jsonb),
+  ('850e8400-e29b-41d4-a716-446655440010'::uuid, '{"labor": 18000, "materials": 5000, "equipment": 11000, "other": 1000}'::jsonb)
+) AS s(quote_id, breakdown)
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
+
 -- Project 2.2: Drama "The Last Letter" (Medium Budget)
 INSERT INTO projects (id, project_name, client_name, brief_description, physical_parameters, financial_parameters, timeline_deadline, project_status, created_at) VALUES
   ('650e8400-e29b-41d4-a716-446655440005',
@@ -299,14 +323,13 @@ INSERT INTO assets (id, project_id, asset_name, specifications, timeline, status
    CURRENT_TIMESTAMP - INTERVAL '2 days');
 
 -- Accepted Quotes for The Last Letter
-INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, cost_breakdown, created_at, updated_at) VALUES
+INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, created_at, updated_at) VALUES
   ('850e8400-e29b-41d4-a716-446655440011',
    '550e8400-e29b-41d4-a716-446655440001',
    '750e8400-e29b-41d4-a716-446655440011',
    42000,
    'Complete vintage film camera package with period-accurate lenses. Includes film processing and scanning.',
    'Accepted',
-   '{"labor": 8000, "materials": 12000, "equipment": 20000, "other": 2000}'::jsonb,
    CURRENT_TIMESTAMP - INTERVAL '2 days',
    CURRENT_TIMESTAMP - INTERVAL '1 days'),
   
@@ -316,10 +339,19 @@ INSERT INTO quotes (id, supplier_id, asset_id, cost, notes_capacity, status, cos
    28000,
    'Curated collection of authentic 1940s props and set dressing. All items vetted for historical accuracy.',
    'Accepted',
-   '{"labor": 6000, "materials": 20000, "equipment": 1000, "other": 1000}'::jsonb,
    CURRENT_TIMESTAMP - INTERVAL '1 days',
    CURRENT_TIMESTAMP);
 
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT s.quote_id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ('850e8400-e29b-41d4-a716-446655440011'::uuid, '{"labor": 8000, "materials": 12000, "equipment": 20000, "other": 2000}'::jsonb),
+  ('850e8400-e29b-41d4-a716-446655440012'::uuid, '{"labor": 6000, "materials": 20000, "equipment": 1000, "other": 1000}'::jsonb)
+) AS s(quote_id, breakdown)
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
+
 -- =====================================================
 -- CLIENT 3: "Amazon Prime Video" - 1 Project
 -- Demonstrates: Single project client
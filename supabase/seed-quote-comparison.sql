@@ -12,7 +12,6 @@ INSERT INTO quotes (
   supplier_id,
   asset_id,
   cost,
-  cost_breakdown,
   notes_capacity,
   status,
   valid_until,
@@ -24,7 +23,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'),
   (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   8500.00,
-  '{"labor": 3400.00, "materials": 2975.00, "equipment": 1700.00, "other": 425.00}',
   'Professional stage setup with full AV integration. Includes setup, operation, and breakdown. Available for the entire event duration with experienced crew.',
   'Accepted',
   '2024-03-20',
@@ -34,7 +32,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'),
   (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   10200.00,
-  '{"labor": 4080.00, "materials": 3570.00, "equipment": 2040.00, "other": 510.00}',
   'Premium stage design with custom branding and LED backdrop. High-end service with attention to detail and premium materials.',
   'Rejected',
   '2024-03-18',
@@ -44,7 +41,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Mega Event Productions'),
   (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   7800.00,
-  '{"labor": 3120.00, "materials": 2730.00, "equipment": 1560.00, "other": 390.00}',
   'Cost-effective option with reliable service and quick response time. Complete solution including setup, operation, and breakdown services.',
   'Rejected',
   '2024-03-22',
@@ -54,7 +50,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'),
   (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   9200.00,
-  '{"labor": 3680.00, "materials": 3220.00, "equipment": 1840.00, "other": 460.00}',
   'Flexible package that can be customized based on your specific needs. Experienced team with proven track record in similar events.',
   'Rejected',
   '2024-03-19',
@@ -66,7 +61,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'),
   (SELECT id FROM assets WHERE asset_name = 'Breakout Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   3200.00,
-  '{"labor": 960.00, "materials": 320.00, "equipment": 1760.00, "other": 160.00}',
   'Complete AV package for 5 breakout rooms. Includes projectors, screens, microphones, and technician support.',
   'Accepted',
   '2024-03-20',
@@ -76,7 +70,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'),
   (SELECT id FROM assets WHERE asset_name = 'Breakout Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   3800.00,
-  '{"labor": 1140.00, "materials": 380.00, "equipment": 2090.00, "other": 190.00}',
   'Premium AV package with backup equipment. Can accommodate last-minute changes with advanced lighting integration.',
   'Rejected',
   '2024-03-18',
@@ -86,7 +79,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'),
   (SELECT id FROM assets WHERE asset_name = 'Breakout Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   2900.00,
-  '{"labor": 870.00, "materials": 290.00, "equipment": 1595.00, "other": 145.00}',
   'Budget-friendly option without compromising on quality. Reliable equipment with professional setup and support.',
   'Rejected',
   '2024-03-21',
@@ -98,7 +90,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'),
   (SELECT id FROM assets WHERE asset_name = 'Registration Materials' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   1200.00,
-  '{"labor": 240.00, "materials": 840.00, "equipment": 60.00, "other": 60.00}',
   '500 welcome packets with custom design, name badges, lanyards, and conference programs. Premium printing with quick turnaround.',
   'Accepted',
   '2024-03-10',
@@ -108,7 +99,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Banner Masters'),
   (SELECT id FROM assets WHERE asset_name = 'Registration Materials' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   1800.00,
-  '{"labor": 360.00, "materials": 1260.00, "equipment": 90.00, "other": 90.00}',
   'Alternative quote for registration materials with premium printing options and custom branding elements.',
   'Rejected',
   '2024-03-08',
@@ -118,7 +108,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Creative Printworks'),
   (SELECT id FROM assets WHERE asset_name = 'Registration Materials' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   950.00,
-  '{"labor": 190.00, "materials": 665.00, "equipment": 47.50, "other": 47.50}',
   'Cost-effective printing solution with standard quality materials. Fast delivery and reliable service.',
   'Rejected',
   '2024-03-12',
@@ -130,7 +119,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'),
   (SELECT id FROM assets WHERE asset_name = 'Networking Reception' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   4500.00,
-  '{"labor": 2250.00, "materials": 1800.00, "equipment": 225.00, "other": 225.00}',
   'Cocktail reception for 500 guests with appetizers, bar service, and professional staff. Premium menu options available.',
   'Submitted',
   '2024-03-15',
@@ -140,7 +128,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Express Delivery Co'),
   (SELECT id FROM assets WHERE asset_name = 'Networking Reception' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   5200.00,
-  '{"labor": 2600.00, "materials": 2080.00, "equipment": 260.00, "other": 260.00}',
   'Alternative catering quote with premium menu options and extended bar service. Can scale up or down based on final numbers.',
   'Submitted',
   '2024-03-14',
@@ -150,7 +137,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'),
   (SELECT id FROM assets WHERE asset_name = 'Networking Reception' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   3800.00,
-  '{"labor": 1900.00, "materials": 1520.00, "equipment": 190.00, "other": 190.00}',
   'Fresh, locally-sourced catering with creative presentation. Sustainable options and dietary accommodations available.',
   'Submitted',
   '2024-03-16',
@@ -160,7 +146,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Artisan Food Services'),
   (SELECT id FROM assets WHERE asset_name = 'Networking Reception' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')),
   4900.00,
-  '{"labor": 2450.00, "materials": 1960.00, "equipment": 245.00, "other": 245.00}',
   'Artisanal catering with gourmet selections and premium presentation. Experienced team with attention to detail.',
   'Submitted',
   '2024-03-13',
@@ -172,7 +157,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Brand Design Studio'),
   (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')),
   12000.00,
-  '{"labor": 4800.00, "materials": 4200.00, "equipment": 2400.00, "other": 600.00}',
   'Premium stage design with custom branding and LED backdrop. High-end service with dedicated project manager.',
   'Submitted',
   '2024-04-25',
@@ -182,7 +166,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'),
   (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')),
   10500.00,
-  '{"labor": 4200.00, "materials": 3675.00, "equipment": 2100.00, "other": 525.00}',
   'Professional stage setup with full AV integration. Reliable service with comprehensive support and maintenance.',
   'Submitted',
   '2024-04-26',
@@ -192,7 +175,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'),
   (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')),
   9800.00,
-  '{"labor": 3920.00, "materials": 3430.00, "equipment": 1960.00, "other": 490.00}',
   'Cost-effective stage solution with professional quality. Flexible package that can be customized based on needs.',
   'Submitted',
   '2024-04-27',
@@ -204,7 +186,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Creative Printworks'),
   (SELECT id FROM assets WHERE asset_name = 'Exhibition Booths' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')),
   15000.00,
-  '{"labor": 5250.00, "materials": 7500.00, "equipment": 1500.00, "other": 750.00}',
   'Custom exhibition booths with premium graphics and display fixtures. Complete design and installation service.',
   'Submitted',
   '2024-04-25',
@@ -214,7 +195,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Mega Event Productions'),
   (SELECT id FROM assets WHERE asset_name = 'Exhibition Booths' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')),
   18000.00,
-  '{"labor": 6300.00, "materials": 9000.00, "equipment": 1800.00, "other": 900.00}',
   'Premium exhibition setup with advanced display technology and custom branding. Full-service solution with project management.',
   'Submitted',
   '2024-04-24',
@@ -224,7 +204,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'),
   (SELECT id FROM assets WHERE asset_name = 'Exhibition Booths' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')),
   13500.00,
-  '{"labor": 4725.00, "materials": 6750.00, "equipment": 1350.00, "other": 675.00}',
   'Standard exhibition booths with professional graphics and reliable setup. Budget-friendly option with quality service.',
   'Submitted',
   '2024-04-26',
@@ -234,7 +213,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Banner Masters'),
   (SELECT id FROM assets WHERE asset_name = 'Exhibition Booths' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')),
   16500.00,
-  '{"labor": 5775.00, "materials": 8250.00, "equipment": 1650.00, "other": 825.00}',
   'High-quality exhibition booths with premium materials and custom design elements. Experienced installation team.',
   'Submitted',
   '2024-04-23',
@@ -246,7 +224,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'),
   (SELECT id FROM assets WHERE asset_name = 'Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition')),
   1800.00,
-  '{"labor": 720.00, "materials": 630.00, "equipment": 360.00, "other": 90.00}',
   'Compact stage setup with projection screen and sound system. Perfect for pitch presentations with professional quality.',
   'Accepted',
   '2024-02-25',
@@ -256,7 +233,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'),
   (SELECT id FROM assets WHERE asset_name = 'Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition')),
   2200.00,
-  '{"labor": 880.00, "materials": 770.00, "equipment": 440.00, "other": 110.00}',
   'Premium stage setup with advanced AV equipment and professional lighting. High-end service for important presentations.',
   'Rejected',
   '2024-02-24',
@@ -268,7 +244,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'),
   (SELECT id FROM assets WHERE asset_name = 'Networking Area Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition')),
   950.00,
-  '{"labor": 475.00, "materials": 380.00, "equipment": 47.50, "other": 47.50}',
   'Networking lounge with light refreshments and coffee service. Perfect for startup networking and informal discussions.',
   'Accepted',
   '2024-02-26',
@@ -278,7 +253,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'),
   (SELECT id FROM assets WHERE asset_name = 'Networking Area Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition')),
   1200.00,
-  '{"labor": 600.00, "materials": 480.00, "equipment": 60.00, "other": 60.00}',
   'Premium networking setup with gourmet refreshments and professional service. Enhanced experience for networking.',
   'Rejected',
   '2024-02-25',
@@ -290,7 +264,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'),
   (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')),
   6500.00,
-  '{"labor": 1950.00, "materials": 1300.00, "equipment": 2925.00, "other": 325.00}',
   'Professional runway with LED lighting, sound system, and seating for 400 guests. Eco-friendly lighting options available.',
   'Accepted',
   '2024-06-08',
@@ -300,7 +273,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'),
   (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')),
   7800.00,
-  '{"labor": 2340.00, "materials": 1560.00, "equipment": 3510.00, "other": 390.00}',
   'Premium runway setup with advanced lighting and sound. Custom design elements and professional presentation.',
   'Rejected',
   '2024-06-07',
@@ -310,7 +282,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'),
   (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')),
   7200.00,
-  '{"labor": 2160.00, "materials": 1440.00, "equipment": 3240.00, "other": 360.00}',
   'High-end runway production with professional lighting and sound. Experienced team with fashion show expertise.',
   'Rejected',
   '2024-06-09',
@@ -322,7 +293,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'),
   (SELECT id FROM assets WHERE asset_name = 'Sustainability Panel Area' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')),
   2200.00,
-  '{"labor": 660.00, "materials": 220.00, "equipment": 1210.00, "other": 110.00}',
   'Panel discussion setup with microphones, presentation screen, and seating. Professional AV support for sustainability discussions.',
   'Submitted',
   '2024-06-08',
@@ -332,7 +302,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'),
   (SELECT id FROM assets WHERE asset_name = 'Sustainability Panel Area' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')),
   2800.00,
-  '{"labor": 840.00, "materials": 280.00, "equipment": 1540.00, "other": 140.00}',
   'Enhanced panel setup with premium lighting and advanced AV equipment. Perfect for professional sustainability presentations.',
   'Submitted',
   '2024-06-07',
@@ -344,7 +313,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'),
   (SELECT id FROM assets WHERE asset_name = 'Ceremony Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')),
   3200.00,
-  '{"labor": 1280.00, "materials": 1280.00, "equipment": 480.00, "other": 160.00}',
   'Garden ceremony setup with floral arch, seating for 200, and sound system. Elegant and romantic atmosphere.',
   'Submitted',
   '2024-07-25',
@@ -354,7 +322,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Full Service Events Co'),
   (SELECT id FROM assets WHERE asset_name = 'Ceremony Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')),
   3800.00,
-  '{"labor": 1520.00, "materials": 1520.00, "equipment": 570.00, "other": 190.00}',
   'Premium ceremony setup with custom floral arrangements and professional sound. Full-service wedding coordination.',
   'Submitted',
   '2024-07-24',
@@ -364,7 +331,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'),
   (SELECT id FROM assets WHERE asset_name = 'Ceremony Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')),
   2900.00,
-  '{"labor": 1160.00, "materials": 1160.00, "equipment": 435.00, "other": 145.00}',
   'Beautiful ceremony setup with elegant decorations and reliable sound system. Cost-effective option with quality service.',
   'Submitted',
   '2024-07-26',
@@ -376,7 +342,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Full Service Events Co'),
   (SELECT id FROM assets WHERE asset_name = 'Reception Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')),
   7800.00,
-  '{"labor": 3510.00, "materials": 2730.00, "equipment": 1170.00, "other": 390.00}',
   'Complete reception setup with dance floor, lighting, and dining tables for 200 guests. Full wedding coordination service.',
   'Submitted',
   '2024-07-25',
@@ -386,7 +351,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'),
   (SELECT id FROM assets WHERE asset_name = 'Reception Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')),
   7200.00,
-  '{"labor": 3240.00, "materials": 2520.00, "equipment": 1080.00, "other": 360.00}',
   'Elegant reception setup with professional lighting and dance floor. Experienced team with wedding expertise.',
   'Submitted',
   '2024-07-24',
@@ -396,7 +360,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'),
   (SELECT id FROM assets WHERE asset_name = 'Reception Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')),
   8500.00,
-  '{"labor": 3825.00, "materials": 2975.00, "equipment": 1275.00, "other": 425.00}',
   'Premium reception setup with advanced lighting and sound. High-end service with attention to detail.',
   'Submitted',
   '2024-07-23',
@@ -408,7 +371,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Mega Event Productions'),
   (SELECT id FROM assets WHERE asset_name = 'Exhibition Hall Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo')),
   25000.00,
-  '{"labor": 10000.00, "materials": 7500.00, "equipment": 6250.00, "other": 1250.00}',
   'Complete exhibition hall setup with 100 booth spaces, power distribution, and lighting. Professional installation and management.',
   'Accepted',
   '2024-09-15',
@@ -418,7 +380,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'),
   (SELECT id FROM assets WHERE asset_name = 'Exhibition Hall Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo')),
   28000.00,
-  '{"labor": 11200.00, "materials": 8400.00, "equipment": 7000.00, "other": 1400.00}',
   'Premium exhibition hall setup with advanced infrastructure and custom booth designs. Full-service project management.',
   'Rejected',
   '2024-09-14',
@@ -430,7 +391,6 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'),
   (SELECT id FROM assets WHERE asset_name = 'Conference Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo')),
   8500.00,
-  '{"labor": 2550.00, "materials": 850.00, "equipment": 4675.00, "other": 425.00}',
   'AV equipment for 5 conference rooms with presentation capabilities and technician support. Professional setup and operation.',
   'Accepted',
   '2024-09-15',
@@ -440,13 +400,61 @@ INSERT INTO quotes (
   (SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'),
   (SELECT id FROM assets WHERE asset_name = 'Conference Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo')),
   9200.00,
-  '{"labor": 2760.00, "materials": 920.00, "equipment": 5060.00, "other": 460.00}',
   'Enhanced AV setup with premium equipment and advanced lighting. High-end service with dedicated technical support.',
   'Rejected',
   '2024-09-14',
   30
 );
 
+-- Cost breakdowns as lump-sum line items
+INSERT INTO quote_line_items (quote_id, position, description, quantity, unit, unit_price)
+SELECT q.id, b.position, b.label, 1, 'lot', (s.breakdown ->> b.key)::numeric
+FROM (VALUES
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 3400.00, "materials": 2975.00, "equipment": 1700.00, "other": 425.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'), (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 4080.00, "materials": 3570.00, "equipment": 2040.00, "other": 510.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Mega Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 3120.00, "materials": 2730.00, "equipment": 1560.00, "other": 390.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'), (SELECT id FROM assets WHERE asset_name = 'Main Stage Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 3680.00, "materials": 3220.00, "equipment": 1840.00, "other": 460.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Breakout Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 960.00, "materials": 320.00, "equipment": 1760.00, "other": 160.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Breakout Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 1140.00, "materials": 380.00, "equipment": 2090.00, "other": 190.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Breakout Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 870.00, "materials": 290.00, "equipment": 1595.00, "other": 145.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Premier Print Solutions'), (SELECT id FROM assets WHERE asset_name = 'Registration Materials' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 240.00, "materials": 840.00, "equipment": 60.00, "other": 60.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Banner Masters'), (SELECT id FROM assets WHERE asset_name = 'Registration Materials' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 360.00, "materials": 1260.00, "equipment": 90.00, "other": 90.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Creative Printworks'), (SELECT id FROM assets WHERE asset_name = 'Registration Materials' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 190.00, "materials": 665.00, "equipment": 47.50, "other": 47.50}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'Networking Reception' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 2250.00, "materials": 1800.00, "equipment": 225.00, "other": 225.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Express Delivery Co'), (SELECT id FROM assets WHERE asset_name = 'Networking Reception' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 2600.00, "materials": 2080.00, "equipment": 260.00, "other": 260.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'), (SELECT id FROM assets WHERE asset_name = 'Networking Reception' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 1900.00, "materials": 1520.00, "equipment": 190.00, "other": 190.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Artisan Food Services'), (SELECT id FROM assets WHERE asset_name = 'Networking Reception' AND project_id = (SELECT id FROM projects WHERE project_name = 'TechCorp Annual Conference 2024')), '{"labor": 2450.00, "materials": 1960.00, "equipment": 245.00, "other": 245.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Brand Design Studio'), (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), '{"labor": 4800.00, "materials": 4200.00, "equipment": 2400.00, "other": 600.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), '{"labor": 4200.00, "materials": 3675.00, "equipment": 2100.00, "other": 525.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'), (SELECT id FROM assets WHERE asset_name = 'Main Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), '{"labor": 3920.00, "materials": 3430.00, "equipment": 1960.00, "other": 490.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Creative Printworks'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Booths' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), '{"labor": 5250.00, "materials": 7500.00, "equipment": 1500.00, "other": 750.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Mega Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Booths' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), '{"labor": 6300.00, "materials": 9000.00, "equipment": 1800.00, "other": 900.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Booths' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), '{"labor": 4725.00, "materials": 6750.00, "equipment": 1350.00, "other": 675.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Banner Masters'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Booths' AND project_id = (SELECT id FROM projects WHERE project_name = 'Global Marketing Summit')), '{"labor": 5775.00, "materials": 8250.00, "equipment": 1650.00, "other": 825.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'), (SELECT id FROM assets WHERE asset_name = 'Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition')), '{"labor": 720.00, "materials": 630.00, "equipment": 360.00, "other": 90.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Presentation Stage' AND project_id = (SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition')), '{"labor": 880.00, "materials": 770.00, "equipment": 440.00, "other": 110.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Fresh Bites Catering'), (SELECT id FROM assets WHERE asset_name = 'Networking Area Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition')), '{"labor": 475.00, "materials": 380.00, "equipment": 47.50, "other": 47.50}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Gourmet Catering Plus'), (SELECT id FROM assets WHERE asset_name = 'Networking Area Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Startup Pitch Competition')), '{"labor": 600.00, "materials": 480.00, "equipment": 60.00, "other": 60.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')), '{"labor": 1950.00, "materials": 1300.00, "equipment": 2925.00, "other": 325.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Grand Stage Solutions'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')), '{"labor": 2340.00, "materials": 1560.00, "equipment": 3510.00, "other": 390.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Runway Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')), '{"labor": 2160.00, "materials": 1440.00, "equipment": 3240.00, "other": 360.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Sustainability Panel Area' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')), '{"labor": 660.00, "materials": 220.00, "equipment": 1210.00, "other": 110.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Sustainability Panel Area' AND project_id = (SELECT id FROM projects WHERE project_name = 'Eco-Friendly Apparel Launch')), '{"labor": 840.00, "materials": 280.00, "equipment": 1540.00, "other": 140.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'), (SELECT id FROM assets WHERE asset_name = 'Ceremony Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')), '{"labor": 1280.00, "materials": 1280.00, "equipment": 480.00, "other": 160.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Full Service Events Co'), (SELECT id FROM assets WHERE asset_name = 'Ceremony Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')), '{"labor": 1520.00, "materials": 1520.00, "equipment": 570.00, "other": 190.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Elite Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Ceremony Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')), '{"labor": 1160.00, "materials": 1160.00, "equipment": 435.00, "other": 145.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Full Service Events Co'), (SELECT id FROM assets WHERE asset_name = 'Reception Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')), '{"labor": 3510.00, "materials": 2730.00, "equipment": 1170.00, "other": 390.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'), (SELECT id FROM assets WHERE asset_name = 'Reception Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')), '{"labor": 3240.00, "materials": 2520.00, "equipment": 1080.00, "other": 360.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Reception Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'Johnson-Williams Wedding')), '{"labor": 3825.00, "materials": 2975.00, "equipment": 1275.00, "other": 425.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Mega Event Productions'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Hall Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo')), '{"labor": 10000.00, "materials": 7500.00, "equipment": 6250.00, "other": 1250.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Complete Event Solutions'), (SELECT id FROM assets WHERE asset_name = 'Exhibition Hall Setup' AND project_id = (SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo')), '{"labor": 11200.00, "materials": 8400.00, "equipment": 7000.00, "other": 1400.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Professional Audio Systems'), (SELECT id FROM assets WHERE asset_name = 'Conference Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo')), '{"labor": 2550.00, "materials": 850.00, "equipment": 4675.00, "other": 425.00}'::jsonb),
+  ((SELECT id FROM suppliers WHERE supplier_name = 'Dynamic Lighting Co'), (SELECT id FROM assets WHERE asset_name = 'Conference Room AV' AND project_id = (SELECT id FROM projects WHERE project_name = 'HealthTech Innovation Expo')), '{"labor": 2760.00, "materials": 920.00, "equipment": 5060.00, "other": 460.00}'::jsonb)
+) AS s(supplier_id, asset_id, breakdown)
+JOIN quotes q ON q.supplier_id = s.supplier_id AND q.asset_id = s.asset_id
+CROSS JOIN (VALUES (0, 'labor', 'Labor'), (1, 'materials', 'Materials'), (2, 'equipment', 'Equipment'), (3, 'other', 'Other')) AS b(position, key, label)
+WHERE (s.breakdown ->> b.key)::numeric > 0;
+
 -- Display summary of inserted data
 SELECT 
   'Quote Comparison Data Seeding Summary' as summary,
@@ -1,8 +1,43 @@
+// Colours the light theme has to remap read CSS variables (see src/index.css):
+// white/black for the glass surfaces, and the pale gray/accent shades used as
+// text on the dark background. on-accent, paper and ink are semantic colours
+// that stay the same in both themes.
+const themed = (name) => `rgb(var(--color-${name}) / <alpha-value>)`;
+const paleShades = (palette) => ({
+  200: themed(`${palette}-200`),
+  300: themed(`${palette}-300`),
+  400: themed(`${palette}-400`),
+});
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        white: themed('white'),
+        black: themed('black'),
+        'on-accent': themed('on-accent'),
+        paper: themed('paper'),
+        ink: themed('ink'),
+        gray: paleShades('gray'),
+        teal: paleShades('teal'),
+        purple: paleShades('purple'),
+        red: paleShades('red'),
+        green: paleShades('green'),
+        blue: paleShades('blue'),
+        amber: paleShades('amber'),
+        yellow: paleShades('yellow'),
+        orange: paleShades('orange'),
+      },
+      // Table and card padding that follows the density setting
+      spacing: {
+        'density-cell-x': 'var(--density-cell-x)',
+        'density-cell-y': 'var(--density-cell-y)',
+        'density-card': 'var(--density-card)',
+        'density-row': 'var(--density-row)',
+      },
+    },
   },
   plugins: [],
 };